@@ -7,6 +7,7 @@
 import * as dotenv from 'dotenv';
 import * as path from 'path';
 import { StargateClient } from '@cosmjs/stargate';
+import { parseAddress } from '../src/utils/address';
 
 // Load environment variables
 dotenv.config({ path: path.resolve(__dirname, '../.env') });
@@ -110,13 +111,13 @@ async function verifyWallets() {
 
 async function verifyWallet(client: StargateClient, address: string, label: string) {
   // Verify address format
-  const junoAddressRegex = /^juno1[a-z0-9]{38}$/;
-  if (!junoAddressRegex.test(address)) {
-    console.log(`  ${colors.red}✗ Invalid address format for ${label}${colors.reset}`);
+  const parsed = parseAddress(address);
+  if (!parsed.valid) {
+    console.log(`  ${colors.red}✗ Invalid address for ${label}: ${parsed.error}${colors.reset}`);
     return;
   }
 
-  console.log(`  Address: ${address}`);
+  console.log(`  Address: ${address} (${parsed.kind})`);
 
   try {
     // Get account info
@@ -13,6 +13,7 @@ import { DirectSecp256k1HdWallet } from '@cosmjs/proto-signing';
 import { SigningStargateClient, StargateClient } from '@cosmjs/stargate';
 import * as readline from 'readline';
 import * as fs from 'fs';
+import { parseAddress } from '../src/utils/address';
 
 // Juno network configuration
 const JUNO_CONFIG = {
@@ -121,9 +122,9 @@ async function recoverWallet() {
  * Verify if an address is valid
  */
 function verifyAddress(address: string): boolean {
-  // Juno addresses should start with 'juno1' and be 43 characters long
-  const junoAddressRegex = /^juno1[a-z0-9]{38}$/;
-  return junoAddressRegex.test(address);
+  // Checks the bech32 checksum, the juno prefix and the payload length
+  // (43 characters for accounts, 63 for contracts and interchain accounts)
+  return parseAddress(address, JUNO_CONFIG.prefix).valid;
 }
 
 /**
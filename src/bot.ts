@@ -7,9 +7,13 @@
  */
 
 import { Telegraf } from "telegraf";
+import { registerAppealCommands } from "./commands/appeal";
+import { registerChatConfigCommands } from "./commands/chatConfig";
+import { registerDenomCommands } from "./commands/denoms";
 import { registerDepositCommands } from "./commands/deposit";
 import { registerDuelCommands } from "./commands/duel";
 import { registerFineConfigCommands } from "./commands/fineConfig";
+import { registerFloodConfigCommands } from "./commands/floodConfig";
 import {
 	initializeRollSystem,
 	registerGamblingCommands,
@@ -18,28 +22,50 @@ import {
 import { registerGiveawayCommands } from "./commands/giveaway";
 import { registerHelpCommand } from "./commands/help";
 import { registerJailCommands } from "./commands/jail";
+import { registerMaintenanceCommands } from "./commands/maintenance";
 import { registerModerationCommands } from "./commands/moderation";
+import { registerModlogCommands } from "./commands/modlog";
 import { registerPaymentCommands } from "./commands/payment";
 import { registerSharedAccountCommands } from "./commands/sharedAccounts";
 import { registerStickerCommands } from "./commands/sticker";
 import { registerWalletCommands } from "./commands/wallet";
 import { registerWalletTestCommands } from "./commands/walletTest";
+import { registerWarningCommands } from "./commands/warnings";
+import { registerWithdrawalPolicyCommands } from "./commands/withdrawalPolicy";
 import { config, validateConfig } from "./config";
 import { execute, initDb } from "./database";
 import { registerActionHandlers } from "./handlers/actions";
 import { registerBlacklistHandlers } from "./handlers/blacklist";
 import { registerCallbackHandlers } from "./handlers/callbacks";
+import { registerJoinScreeningHandlers } from "./handlers/joinScreening";
 import { registerRestrictionHandlers } from "./handlers/restrictions";
 import { registerRoleHandlers } from "./handlers/roles";
+import { registerRuleHandlers } from "./handlers/rules";
 import { registerViolationHandlers } from "./handlers/violations";
+import { floodControlMiddleware } from "./middleware/floodControl";
+import { chatRegistrationMiddleware } from "./middleware/index";
+import { maintenanceMiddleware } from "./middleware/maintenance";
 import { messageFilterMiddleware } from "./middleware/messageFilter";
+import { commandMetricsMiddleware } from "./middleware/metrics";
+import { AdminApiService } from "./services/adminApiService";
+import { CaptchaService } from "./services/captchaService";
+import { ChatService } from "./services/chatService";
 import { DuelService } from "./services/duelService";
-import { JailService } from "./services/jailService";
+import { FloodService } from "./services/floodService";
+import { LedgerAuditService } from "./services/ledgerAudit";
 import { LedgerService } from "./services/ledgerService";
+import { ModerationActionService } from "./services/moderationActionService";
+import { ModlogService } from "./services/modlogService";
 import { PriceService } from "./services/priceService";
 import { RestrictionService } from "./services/restrictionService";
 import { TransactionLockService } from "./services/transactionLock";
 import { UnifiedWalletService } from "./services/unifiedWalletService";
+import { WarningService } from "./services/warningService";
+import { registerAutoDeleteSubscribers } from "./subscribers/autoDelete";
+import { registerLoggingSubscribers } from "./subscribers/logging";
+import { registerMetricsSubscribers } from "./subscribers/metrics";
+import { registerModlogSubscribers } from "./subscribers/modlog";
+import { registerNotificationSubscribers } from "./subscribers/notifications";
 import { setBotInstance } from "./utils/adminNotify";
 import { logger } from "./utils/logger";
 
@@ -55,7 +81,7 @@ import { logger } from "./utils/logger";
  * 6. Creates Telegraf bot instance
  * 7. Registers all middleware and command handlers
  * 8. Sets up periodic cleanup tasks (restrictions, jails, locks, reconciliation)
- * 9. Configures graceful shutdown handlers
+ * 9. Starts the health/metrics HTTP API (if configured) and graceful shutdown handlers
  * 10. Launches the bot
  *
  * @throws {Error} If configuration validation fails or bot cannot start
@@ -112,6 +138,9 @@ async function main() {
 			}
 		}
 
+		// Register the configured group chat in the chat registry
+		ChatService.initialize();
+
 		// Initialize ledger system
 		LedgerService.initialize();
 
@@ -131,11 +160,31 @@ async function main() {
 		// Set bot instance for admin notifications
 		setBotInstance(bot);
 
-		// Initialize jail service with bot instance
-		JailService.initialize(bot);
+		// Initialize moderation actions (jail, mute, ban...) with bot instance
+		ModerationActionService.initialize(bot);
+
+		// Post moderation cases to the modlog channel
+		ModlogService.initialize(bot);
+
+		// Notifications, modlog, auto-delete, logging and metrics follow the events services publish
+		registerNotificationSubscribers(bot);
+		registerAutoDeleteSubscribers(bot);
+		registerModlogSubscribers();
+		registerLoggingSubscribers();
+		registerMetricsSubscribers();
 
-		// Apply global middleware
+		// Gate newcomers behind a verification challenge
+		CaptchaService.initialize(bot);
+
+		// Apply global middleware (metrics first so command timing covers the rest)
+		bot.use(commandMetricsMiddleware);
+		bot.use(chatRegistrationMiddleware);
 		bot.use(messageFilterMiddleware);
+		bot.use(floodControlMiddleware);
+		bot.use(maintenanceMiddleware);
+
+		// Screen new members (blacklist enforcement on join)
+		registerJoinScreeningHandlers(bot);
 
 		// Register command handlers
 		registerHelpCommand(bot);
@@ -144,16 +193,25 @@ async function main() {
 		registerBlacklistHandlers(bot);
 		registerViolationHandlers(bot);
 		registerRestrictionHandlers(bot);
+		registerRuleHandlers(bot);
 		registerModerationCommands(bot);
+		registerWarningCommands(bot); // Warning history and escalation settings
+		registerModlogCommands(bot); // Moderation case lookup and user history
+		registerAppealCommands(bot); // Appeals of moderation cases
 		registerPaymentCommands(bot);
 		registerJailCommands(bot);
 		registerGiveawayCommands(bot);
 		registerDepositCommands(bot); // Deposit management commands
 		registerWalletCommands(bot);
+		registerWithdrawalPolicyCommands(bot); // Address book and withdrawal limits
+		registerMaintenanceCommands(bot); // Financial kill switches
+		registerDenomCommands(bot); // Asset registry
 		registerWalletTestCommands(bot); // Owner-only test commands
 		registerSharedAccountCommands(bot); // Shared account management
 		registerStickerCommands(bot); // Sticker sending and management
 		registerFineConfigCommands(bot); // Fine configuration and custom jail commands
+		registerChatConfigCommands(bot); // Per-chat settings
+		registerFloodConfigCommands(bot); // Anti-flood thresholds
 		registerGamblingCommands(bot); // Roll gambling game
 		registerDuelCommands(bot); // Duel 2-player game
 		registerCallbackHandlers(bot); // Inline keyboard callback handlers
@@ -174,7 +232,32 @@ async function main() {
 		// Periodic cleanup of expired jails (every 5 minutes)
 		setInterval(
 			() => {
-				JailService.cleanExpiredJails();
+				ModerationActionService.releaseExpiredJails();
+			},
+			5 * 60 * 1000,
+		);
+
+		// Periodic recount of expired warnings (every hour)
+		setInterval(
+			() => {
+				WarningService.cleanExpiredWarnings();
+			},
+			60 * 60 * 1000,
+		);
+
+		// Kick newcomers whose verification expired (every 30 seconds)
+		setInterval(async () => {
+			try {
+				await CaptchaService.expireChallenges();
+			} catch (error) {
+				logger.error("Error expiring verification challenges", { error });
+			}
+		}, 30 * 1000);
+
+		// Periodic cleanup of idle flood windows (every 5 minutes)
+		setInterval(
+			() => {
+				FloodService.cleanStaleWindows();
 			},
 			5 * 60 * 1000,
 		);
@@ -204,6 +287,18 @@ async function main() {
 			60 * 60 * 1000,
 		);
 
+		// Periodic ledger journal audit (every hour)
+		setInterval(
+			async () => {
+				try {
+					await LedgerAuditService.auditAndAlert();
+				} catch (error) {
+					logger.error("Error during periodic ledger audit", { error });
+				}
+			},
+			60 * 60 * 1000,
+		);
+
 		// Periodic JUNO price update (every 15 minutes)
 		setInterval(
 			async () => {
@@ -220,9 +315,11 @@ async function main() {
 		setInterval(
 			() => {
 				try {
-					const { oldHash, newHash } = rotateServerSeed();
+					// The old seed is revealed in roll_seed_history for /verifyroll
+					const { oldSeed, oldHash, newHash } = rotateServerSeed();
 					logger.info("Roll server seed rotated", {
 						previousCommitment: oldHash.substring(0, 16),
+						revealedSeed: oldSeed,
 						newCommitment: newHash.substring(0, 16),
 					});
 				} catch (error) {
@@ -237,12 +334,35 @@ async function main() {
 			logger.warn("Initial price fetch failed", { error });
 		});
 
+		// Health and metrics API (localhost only, token protected)
+		if (config.httpApiPort && config.httpApiToken) {
+			await AdminApiService.start(
+				bot.telegram,
+				config.httpApiPort,
+				config.httpApiToken,
+			);
+		}
+
 		// Graceful shutdown
-		process.once("SIGINT", () => bot.stop("SIGINT"));
-		process.once("SIGTERM", () => bot.stop("SIGTERM"));
+		process.once("SIGINT", () => {
+			bot.stop("SIGINT");
+			void AdminApiService.stop();
+		});
+		process.once("SIGTERM", () => {
+			bot.stop("SIGTERM");
+			void AdminApiService.stop();
+		});
 
-		// Start the bot
-		await bot.launch();
+		// Start the bot (chat_member updates must be requested explicitly)
+		await bot.launch({
+			allowedUpdates: [
+				"message",
+				"edited_message",
+				"callback_query",
+				"chat_member",
+				"my_chat_member",
+			],
+		});
 		logger.info("Bot started successfully");
 		console.log(" CAC Admin Bot is running...");
 	} catch (error) {
@@ -0,0 +1,129 @@
+/**
+ * Appeal command handlers for the CAC Admin Bot.
+ * Lets users appeal a jail, mute, fine or restriction case in DM. Admins
+ * decide appeals with the buttons on the appeal posted to the admin chat.
+ *
+ * @module commands/appeal
+ */
+
+import type { Context, Telegraf } from "telegraf";
+import { bold, fmt } from "telegraf/format";
+import { AppealService } from "../services/appealService";
+import { StructuredLogger } from "../utils/logger";
+
+/** Longest statement accepted, to fit the admin chat message */
+const MAX_STATEMENT_LENGTH = 1000;
+
+/**
+ * Registers appeal commands with the bot.
+ *
+ * Commands registered:
+ * - /appeal - Appeal a moderation case (DM only)
+ *
+ * @param bot - Telegraf bot instance
+ *
+ * @example
+ * ```typescript
+ * import { Telegraf } from 'telegraf';
+ * import { registerAppealCommands } from './commands/appeal';
+ *
+ * const bot = new Telegraf(process.env.BOT_TOKEN);
+ * registerAppealCommands(bot);
+ * ```
+ */
+export function registerAppealCommands(bot: Telegraf<Context>): void {
+	/**
+	 * Command: /appeal
+	 * Appeal a jail, mute, fine or restriction case. Without arguments, lists
+	 * the user's cases that can be appealed and their recent appeals.
+	 *
+	 * Permission: Any user (DM only)
+	 * Syntax: /appeal <case> <statement>
+	 *
+	 * @example
+	 * User: /appeal 42 I was quoting the spammer, not spamming
+	 * Bot: Appeal #3 for case #42 sent to the admins.
+	 */
+	bot.command("appeal", async (ctx) => {
+		const userId = ctx.from?.id;
+		if (!userId) return;
+
+		// Only allow in DM
+		if (ctx.chat?.type !== "private") {
+			return ctx.reply(
+				" Appeals can only be made in direct messages with the bot.",
+			);
+		}
+
+		const text = ctx.message?.text ?? "";
+		const [, caseArg, ...words] = text.split(/\s+/);
+		const statement = words.join(" ").trim();
+
+		if (!caseArg) {
+			const cases = AppealService.getAppealableCases(userId);
+			const appeals = AppealService.getUserAppeals(userId, 5);
+			if (cases.length === 0 && appeals.length === 0) {
+				return ctx.reply(" You have no cases to appeal.");
+			}
+
+			const parts: string[] = [];
+			if (cases.length > 0) {
+				parts.push("Cases you can appeal:");
+				for (const modCase of cases) {
+					parts.push(
+						`• #${modCase.id}: ${modCase.action.replace(/_/g, " ")}${modCase.reason ? ` (${modCase.reason})` : ""}`,
+					);
+				}
+				parts.push("");
+			}
+			if (appeals.length > 0) {
+				parts.push("Recent appeals:");
+				for (const appeal of appeals) {
+					parts.push(
+						`• Appeal #${appeal.id} for case #${appeal.case_id}: ${appeal.status}${appeal.outcome ? ` - ${appeal.outcome}` : ""}`,
+					);
+				}
+				parts.push("");
+			}
+			parts.push("Usage: /appeal <case> <statement>");
+			return ctx.reply(fmt`${bold("Your Appeals")}
+
+${parts.join("\n")}`);
+		}
+
+		const caseId = Number.parseInt(caseArg.replace(/^#/, ""), 10);
+		if (Number.isNaN(caseId) || !statement) {
+			return ctx.reply(
+				"Usage: /appeal <case> <statement>\nExplain why the action should be reconsidered.",
+			);
+		}
+		if (statement.length > MAX_STATEMENT_LENGTH) {
+			return ctx.reply(
+				`Your statement is too long (max ${MAX_STATEMENT_LENGTH} characters).`,
+			);
+		}
+
+		try {
+			const result = await AppealService.open(
+				ctx.telegram,
+				caseId,
+				userId,
+				statement,
+			);
+			if (!result.success || !result.appeal) {
+				return ctx.reply(result.error || "Could not open the appeal.");
+			}
+
+			await ctx.reply(
+				`Appeal #${result.appeal.id} for case #${caseId} sent to the admins. You will be notified of their decision.`,
+			);
+		} catch (error) {
+			StructuredLogger.logError(error as Error, {
+				userId,
+				operation: "appeal_open",
+				caseId,
+			});
+			await ctx.reply("An error occurred while opening your appeal.");
+		}
+	});
+}
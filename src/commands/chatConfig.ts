@@ -0,0 +1,300 @@
+/**
+ * Per-chat configuration command handlers for the CAC Admin Bot.
+ * Lets admins view and change the settings of each group the bot moderates:
+ * enabled features, fine overrides, admin notification chat, moderation log
+ * channel, locale and newcomer verification.
+ *
+ * @module commands/chatConfig
+ */
+
+import type { Context, Telegraf } from "telegraf";
+import { bold, code, fmt } from "telegraf/format";
+import { adminOrHigher } from "../middleware/index";
+import {
+	CAPTCHA_MODES,
+	type CaptchaMode,
+	CHAT_FEATURES,
+	type ChatFeature,
+	ChatService,
+	type ChatSettings,
+} from "../services/chatService";
+import { logger } from "../utils/logger";
+
+/** Fine types that can be overridden per chat (same as /setfine) */
+const FINE_TYPES = [
+	"sticker",
+	"url",
+	"regex",
+	"blacklist",
+	"jail_per_minute",
+	"jail_minimum",
+	"auto_jail",
+];
+
+/**
+ * Formats the settings of a chat for display.
+ *
+ * @param chat - Chat settings
+ * @returns Multi-line settings summary
+ */
+function formatChatSettings(chat: ChatSettings): string {
+	const overrides = Object.entries(chat.fineOverrides);
+	const lines = [
+		`Chat: ${chat.title ? `${chat.title} ` : ""}(${chat.chatId})`,
+		`Active: ${chat.active ? "yes" : "no"}`,
+		`Features: ${chat.enabledFeatures.length > 0 ? chat.enabledFeatures.join(", ") : "none"}`,
+		`Fine overrides: ${
+			overrides.length > 0
+				? overrides.map(([type, usd]) => `${type}=$${usd}`).join(", ")
+				: "none"
+		}`,
+		`Admin chat: ${chat.adminChatId ?? "default"}`,
+		`Modlog: ${chat.modlogChatId ?? "default"}`,
+		`Locale: ${chat.locale}`,
+		`Verification: ${chat.captcha.mode}${
+			chat.captcha.mode === "off"
+				? ""
+				: `, ${chat.captcha.timeoutSeconds}s, vouching ${chat.captcha.allowVouching ? "on" : "off"}`
+		}`,
+	];
+	return lines.join("\n");
+}
+
+/**
+ * Registers the per-chat configuration command with the bot.
+ *
+ * Commands registered:
+ * - /chatconfig - View or change settings of a group (admin only)
+ *
+ * @param bot - Telegraf bot instance
+ *
+ * @example
+ * ```typescript
+ * import { Telegraf } from 'telegraf';
+ * import { registerChatConfigCommands } from './commands/chatConfig';
+ *
+ * const bot = new Telegraf(process.env.BOT_TOKEN);
+ * registerChatConfigCommands(bot);
+ * ```
+ */
+export function registerChatConfigCommands(bot: Telegraf<Context>): void {
+	/**
+	 * Command: /chatconfig
+	 * View or change the settings of the current group, or of another group
+	 * when its chat ID is given first (e.g. from a private chat).
+	 *
+	 * Permission: Admin or owner
+	 * Syntax: /chatconfig [chatId] <show|list|feature|fine|adminchat|modlog|locale|captcha> [args]
+	 *
+	 * @example
+	 * User: /chatconfig feature gambling off
+	 * Bot: gambling disabled in chat -1001234567890.
+	 *
+	 * @example
+	 * User: /chatconfig -1001234567890 fine sticker 0.5
+	 * Bot: sticker fine in chat -1001234567890 set to $0.50 USD.
+	 */
+	bot.command("chatconfig", adminOrHigher, async (ctx) => {
+		const adminId = ctx.from?.id;
+		if (!adminId) return;
+
+		const args = ctx.message?.text.split(" ").slice(1).filter(Boolean) || [];
+
+		// Optional leading chat ID (group IDs are negative)
+		let chatId: number | undefined;
+		if (args[0] && /^-\d+$/.test(args[0])) {
+			chatId = parseInt(args.shift() as string, 10);
+		} else if (ctx.chat?.type === "group" || ctx.chat?.type === "supergroup") {
+			chatId = ctx.chat.id;
+		}
+
+		const subcommand = (args[0] || "show").toLowerCase();
+
+		if (subcommand === "list") {
+			const chats = ChatService.listChats(false);
+			if (chats.length === 0) {
+				return ctx.reply("No chats registered.");
+			}
+			return ctx.reply(
+				fmt`${bold("Registered Chats")}
+
+${chats.map(formatChatSettings).join("\n\n")}`,
+			);
+		}
+
+		if (chatId === undefined) {
+			return ctx.reply(
+				fmt`${bold("Usage:")} ${code("/chatconfig [chatId] <show|list|feature|fine|adminchat|modlog|locale|captcha> [args]")}
+
+Run in a group, or pass the group's chat ID first.`,
+			);
+		}
+
+		const chat = ChatService.getChat(chatId);
+		if (!chat) {
+			return ctx.reply(
+				`Chat ${chatId} is not registered. The bot registers a group once it sees activity there.`,
+			);
+		}
+
+		try {
+			switch (subcommand) {
+				case "show":
+					return ctx.reply(
+						fmt`${bold("Chat Configuration")}
+
+${formatChatSettings(chat)}`,
+					);
+
+				case "feature": {
+					const feature = args[1]?.toLowerCase();
+					const state = args[2]?.toLowerCase();
+					if (
+						!CHAT_FEATURES.includes(feature as ChatFeature) ||
+						(state !== "on" && state !== "off")
+					) {
+						return ctx.reply(
+							fmt`${bold("Usage:")} ${code("/chatconfig feature <name> <on|off>")}
+Features: ${CHAT_FEATURES.join(", ")}`,
+						);
+					}
+					ChatService.setFeatureEnabled(
+						chatId,
+						feature as ChatFeature,
+						state === "on",
+						adminId,
+					);
+					return ctx.reply(
+						`${feature} ${state === "on" ? "enabled" : "disabled"} in chat ${chatId}.`,
+					);
+				}
+
+				case "fine": {
+					const fineType = args[1]?.toLowerCase();
+					const value = args[2]?.toLowerCase();
+					if (!fineType || !FINE_TYPES.includes(fineType) || !value) {
+						return ctx.reply(
+							fmt`${bold("Usage:")} ${code("/chatconfig fine <type> <amount_usd|reset>")}
+Fine types: ${FINE_TYPES.join(", ")}`,
+						);
+					}
+					if (value === "reset") {
+						ChatService.setFineOverride(chatId, fineType, null, adminId);
+						return ctx.reply(
+							`${fineType} fine in chat ${chatId} reset to the global amount.`,
+						);
+					}
+					const amountUsd = parseFloat(value);
+					if (Number.isNaN(amountUsd) || amountUsd < 0) {
+						return ctx.reply(
+							"Invalid amount. Please enter a non-negative number.",
+						);
+					}
+					ChatService.setFineOverride(chatId, fineType, amountUsd, adminId);
+					return ctx.reply(
+						`${fineType} fine in chat ${chatId} set to $${amountUsd.toFixed(2)} USD.`,
+					);
+				}
+
+				case "adminchat": {
+					const value = args[1]?.toLowerCase();
+					if (!value || (value !== "reset" && !/^-?\d+$/.test(value))) {
+						return ctx.reply(
+							fmt`${bold("Usage:")} ${code("/chatconfig adminchat <chatId|reset>")}`,
+						);
+					}
+					const adminChatId = value === "reset" ? null : parseInt(value, 10);
+					ChatService.setAdminChatId(chatId, adminChatId, adminId);
+					return ctx.reply(
+						`Admin notifications for chat ${chatId} now go to ${adminChatId ?? "the default admin chat"}.`,
+					);
+				}
+
+				case "modlog": {
+					const value = args[1]?.toLowerCase();
+					if (!value || (value !== "reset" && !/^-?\d+$/.test(value))) {
+						return ctx.reply(
+							fmt`${bold("Usage:")} ${code("/chatconfig modlog <chatId|reset>")}`,
+						);
+					}
+					const modlogChatId = value === "reset" ? null : parseInt(value, 10);
+					ChatService.setModlogChatId(chatId, modlogChatId, adminId);
+					return ctx.reply(
+						`Moderation cases for chat ${chatId} now go to ${modlogChatId ?? "the default modlog"}.`,
+					);
+				}
+
+				case "locale": {
+					const locale = args[1];
+					if (!locale || !/^[a-z]{2,3}(-[A-Za-z]{2,4})?$/.test(locale)) {
+						return ctx.reply(
+							fmt`${bold("Usage:")} ${code("/chatconfig locale <code>")} (e.g. en, de, pt-BR)`,
+						);
+					}
+					ChatService.setLocale(chatId, locale, adminId);
+					return ctx.reply(`Locale of chat ${chatId} set to ${locale}.`);
+				}
+
+				case "captcha": {
+					const option = args[1]?.toLowerCase();
+					const value = args[2]?.toLowerCase();
+					const usage = fmt`${bold("Usage:")}
+${code("/chatconfig captcha <off|button|math>")} - challenge type
+${code("/chatconfig captcha timeout <seconds>")} - time to verify (30-3600)
+${code("/chatconfig captcha vouch <on|off>")} - let elevated users vouch newcomers in`;
+
+					if (CAPTCHA_MODES.includes(option as CaptchaMode)) {
+						ChatService.setCaptchaSettings(
+							chatId,
+							{ mode: option as CaptchaMode },
+							adminId,
+						);
+						return ctx.reply(
+							option === "off"
+								? `Newcomer verification disabled in chat ${chatId}.`
+								: `Newcomers in chat ${chatId} now get a ${option} challenge.`,
+						);
+					}
+					if (option === "timeout") {
+						const seconds = parseInt(value || "", 10);
+						if (Number.isNaN(seconds) || seconds < 30 || seconds > 3600) {
+							return ctx.reply(usage);
+						}
+						ChatService.setCaptchaSettings(
+							chatId,
+							{ timeoutSeconds: seconds },
+							adminId,
+						);
+						return ctx.reply(
+							`Newcomers in chat ${chatId} now have ${seconds} seconds to verify.`,
+						);
+					}
+					if (option === "vouch" && (value === "on" || value === "off")) {
+						ChatService.setCaptchaSettings(
+							chatId,
+							{ allowVouching: value === "on" },
+							adminId,
+						);
+						return ctx.reply(
+							`Vouching ${value === "on" ? "enabled" : "disabled"} in chat ${chatId}.`,
+						);
+					}
+					return ctx.reply(usage);
+				}
+
+				default:
+					return ctx.reply(
+						fmt`Unknown subcommand. ${code("/chatconfig [chatId] <show|list|feature|fine|adminchat|modlog|locale|captcha> [args]")}`,
+					);
+			}
+		} catch (error) {
+			logger.error("Failed to update chat configuration", {
+				adminId,
+				chatId,
+				subcommand,
+				error,
+			});
+			return ctx.reply("An error occurred while updating the chat settings.");
+		}
+	});
+}
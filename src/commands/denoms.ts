@@ -0,0 +1,148 @@
+/**
+ * Denom registry command handlers for the CAC Admin Bot.
+ * Lists the assets the bot accepts and lets owners register IBC and CW20
+ * tokens next to JUNO.
+ *
+ * @module commands/denoms
+ */
+
+import type { Context, Telegraf } from "telegraf";
+import { bold, code, fmt } from "telegraf/format";
+import { ownerOnly } from "../middleware/index";
+import { type DenomInfo, DenomService } from "../services/denomService";
+import { logger } from "../utils/logger";
+
+/**
+ * Formats a denom for display.
+ *
+ * @param info - Registered denom
+ * @returns One line describing the denom
+ */
+function formatDenom(info: DenomInfo): string {
+	const trace = info.ibcTrace ? ` via ${info.ibcTrace}` : "";
+	const state = info.enabled ? "" : " (disabled)";
+	return `${info.symbol} - ${info.denom} (${info.decimals} decimals)${trace}${state}`;
+}
+
+/**
+ * Registers the denom registry commands with the bot.
+ *
+ * Commands registered:
+ * - /denoms - List the accepted assets
+ * - /adddenom - Register or update an asset (owner only)
+ * - /removedenom - Stop accepting an asset (owner only)
+ *
+ * @param bot - Telegraf bot instance
+ *
+ * @example
+ * ```typescript
+ * import { Telegraf } from 'telegraf';
+ * import { registerDenomCommands } from './commands/denoms';
+ *
+ * const bot = new Telegraf(process.env.BOT_TOKEN);
+ * registerDenomCommands(bot);
+ * ```
+ */
+export function registerDenomCommands(bot: Telegraf<Context>): void {
+	/**
+	 * Command: /denoms
+	 * List the assets that can be deposited, sent and withdrawn.
+	 *
+	 * Permission: Any user
+	 * Syntax: /denoms
+	 */
+	bot.command("denoms", async (ctx) => {
+		const userId = ctx.from?.id;
+		if (!userId) return;
+
+		const lines = DenomService.list().map(formatDenom).join("\n");
+		return ctx.reply(
+			fmt`${bold("Accepted Assets")}
+
+${lines}
+
+Use the symbol as the last argument of /send, /withdraw, /giveaway or /duel, e.g. ${code("/send 5 @alice ATOM")}.`,
+		);
+	});
+
+	/**
+	 * Command: /adddenom
+	 * Register an asset, or update one that is already registered.
+	 * IBC denoms need their trace, which must hash to the denom.
+	 *
+	 * Permission: Owner only
+	 * Syntax: /adddenom <denom> <symbol> <decimals> [ibc_trace]
+	 *
+	 * @example
+	 * User: /adddenom ibc/C4CFF4... ATOM 6 transfer/channel-1/uatom
+	 * Bot: Registered ATOM - ibc/C4CFF4... (6 decimals) via transfer/channel-1/uatom
+	 */
+	bot.command("adddenom", ownerOnly, async (ctx) => {
+		const ownerId = ctx.from?.id;
+		if (!ownerId) return;
+
+		const args = ctx.message?.text.split(" ").slice(1).filter(Boolean) || [];
+		if (args.length < 3) {
+			return ctx.reply(
+				fmt`${bold("Usage:")} ${code("/adddenom <denom> <symbol> <decimals> [ibc_trace]")}
+${bold("Examples:")}
+${code("/adddenom ibc/<hash> ATOM 6 transfer/channel-1/uatom")}
+${code("/adddenom cw20:juno1... TOKEN 6")}`,
+			);
+		}
+
+		const [denom, symbol, decimalsArg, ibcTrace] = args;
+		const decimals = Number(decimalsArg);
+
+		try {
+			const result = DenomService.register(
+				{ denom, symbol, decimals, ibcTrace },
+				ownerId,
+			);
+			if (!result.success || !result.denom) {
+				return ctx.reply(result.error || "Failed to register the asset.");
+			}
+			return ctx.reply(`Registered ${formatDenom(result.denom)}`);
+		} catch (error) {
+			logger.error("Failed to register denom", { ownerId, denom, error });
+			return ctx.reply("An error occurred while registering the asset.");
+		}
+	});
+
+	/**
+	 * Command: /removedenom
+	 * Stop accepting an asset. Existing balances are kept and still shown;
+	 * /adddenom enables it again.
+	 *
+	 * Permission: Owner only
+	 * Syntax: /removedenom <symbol|denom>
+	 */
+	bot.command("removedenom", ownerOnly, async (ctx) => {
+		const ownerId = ctx.from?.id;
+		if (!ownerId) return;
+
+		const input = ctx.message?.text.split(" ").slice(1).filter(Boolean)[0];
+		if (!input) {
+			return ctx.reply(
+				fmt`${bold("Usage:")} ${code("/removedenom <symbol|denom>")}`,
+			);
+		}
+
+		const asset = DenomService.resolve(input);
+		if (!asset) {
+			return ctx.reply(`Unknown asset ${input}. See /denoms.`);
+		}
+
+		try {
+			if (!DenomService.setEnabled(asset.denom, false, ownerId)) {
+				return ctx.reply(`${asset.symbol} cannot be removed.`);
+			}
+			return ctx.reply(
+				`${asset.symbol} is no longer accepted. Existing balances are kept.`,
+			);
+		} catch (error) {
+			logger.error("Failed to remove denom", { ownerId, input, error });
+			return ctx.reply("An error occurred while removing the asset.");
+		}
+	});
+}
@@ -9,8 +9,12 @@ import type { Context, Telegraf } from "telegraf";
 import { bold, code, fmt, italic } from "telegraf/format";
 import { config } from "../config";
 import { execute, get, query } from "../database";
+import { DEFAULT_DENOM, DenomService } from "../services/denomService";
+import { DepositClaimService } from "../services/depositClaimService";
+import { DepositCodeService } from "../services/depositCodeService";
 import { DepositInstructionService } from "../services/depositInstructions";
 import { LedgerService } from "../services/ledgerService";
+import { PaymentReceiptService } from "../services/paymentReceiptService";
 import { RPCTransactionVerification } from "../services/rpcTransactionVerification";
 import {
 	SYSTEM_USER_IDS,
@@ -23,6 +27,7 @@ interface ProcessedDeposit {
 	tx_hash: string;
 	user_id: number;
 	amount: number;
+	denom: string;
 	from_address: string;
 	memo: string | null;
 	height: number;
@@ -30,15 +35,17 @@ interface ProcessedDeposit {
 	processed_at: number | null;
 	error: string | null;
 	created_at: number;
+	suggested_user_id: number | null;
 }
 
 /**
  * Registers all deposit-related commands with the bot.
  *
  * Commands registered:
- * - /deposit - Get deposit instructions with memo
+ * - /deposit - Get deposit instructions with your deposit code (/deposit newcode replaces it)
  * - /verifydeposit - Verify a deposit by transaction hash
  * - /unclaimeddeposits - View unclaimed deposits (missing or invalid memo)
+ * - /claimmydeposit - Claim your own unclaimed deposit by proving the sending address
  * - /claimdeposit - Assign an unclaimed deposit to a user (admin only)
  * - /processdeposit - Manually process a pending deposit (admin only)
  *
@@ -56,10 +63,13 @@ interface ProcessedDeposit {
 export const registerDepositCommands = (bot: Telegraf<Context>) => {
 	/**
 	 * Command: /deposit
-	 * Get deposit instructions with unique user memo.
+	 * Get deposit instructions with your deposit code as memo. Replacing the
+	 * code makes deposits to the old one go to the unclaimed pool.
 	 *
 	 * Permission: Any user
-	 * Syntax: /deposit
+	 * Syntax:
+	 *   /deposit
+	 *   /deposit newcode
 	 *
 	 * @example
 	 * User: /deposit
@@ -69,7 +79,7 @@ export const registerDepositCommands = (bot: Telegraf<Context>) => {
 	 *      `juno1...`
 	 *
 	 *      IMPORTANT: Include this memo:
-	 *      `123456`
+	 *      `K7QM-2XD9`
 	 *
 	 *      Without the correct memo, your deposit cannot be automatically credited.
 	 */
@@ -78,6 +88,15 @@ export const registerDepositCommands = (bot: Telegraf<Context>) => {
 		if (!userId) return;
 
 		try {
+			const subcommand = ctx.message?.text.split(" ")[1]?.toLowerCase();
+			if (subcommand === "newcode") {
+				const newCode = DepositCodeService.rotateCode(userId);
+				await ctx.reply(
+					fmt`${bold("New deposit code:")} ${code(newCode)}\n\nUse it as the memo of future deposits. Deposits sent with your old code will not be credited automatically.`,
+				);
+				return;
+			}
+
 			const instructions = UnifiedWalletService.getDepositInstructions(userId);
 			await ctx.reply(
 				fmt`${instructions.markdown}\n\n${italic("Experimental software - deposit at your own risk")}`,
@@ -134,13 +153,14 @@ export const registerDepositCommands = (bot: Telegraf<Context>) => {
 			);
 
 			if (!verification.valid) {
+				const depositCode = DepositCodeService.getCode(userId);
 				const memoInfo =
 					verification.memo !== undefined
-						? `Memo found: ${code(verification.memo || "none")}\nExpected: ${code(userId.toString())}\n\n`
+						? `Memo found: ${code(verification.memo || "none")}\nExpected: ${code(depositCode)}\n\n`
 						: "";
 
 				return ctx.reply(
-					fmt`${bold("Deposit Verification Failed")}\n\n${verification.error || "Unknown error"}\n\n${memoInfo}Please ensure:\n• Transaction is confirmed on-chain\n• Funds were sent to: ${code(walletAddress)}\n• Memo was exactly: ${code(userId.toString())}`,
+					fmt`${bold("Deposit Verification Failed")}\n\n${verification.error || "Unknown error"}\n\n${memoInfo}Please ensure:\n• Transaction is confirmed on-chain\n• Funds were sent to: ${code(walletAddress)}\n• Memo was exactly: ${code(depositCode)}`,
 				);
 			}
 
@@ -150,8 +170,8 @@ export const registerDepositCommands = (bot: Telegraf<Context>) => {
 
 			// Check if already processed
 			const existing = get<ProcessedDeposit>(
-				"SELECT * FROM processed_deposits WHERE tx_hash = ?",
-				[txHash],
+				"SELECT * FROM processed_deposits WHERE tx_hash = ? AND denom = ?",
+				[txHash, DEFAULT_DENOM],
 			);
 
 			if (existing?.processed) {
@@ -161,7 +181,7 @@ export const registerDepositCommands = (bot: Telegraf<Context>) => {
 			}
 
 			// Process the deposit
-			const result = await LedgerService.processDeposit(
+			const result = LedgerService.processDeposit(
 				userId,
 				verifiedAmount,
 				txHash,
@@ -191,8 +211,8 @@ export const registerDepositCommands = (bot: Telegraf<Context>) => {
 				} else {
 					// Update existing record
 					execute(
-						"UPDATE processed_deposits SET processed = 1, processed_at = ?, user_id = ?, error = NULL WHERE tx_hash = ?",
-						[Math.floor(Date.now() / 1000), userId, txHash],
+						"UPDATE processed_deposits SET processed = 1, processed_at = ?, user_id = ?, error = NULL WHERE tx_hash = ? AND denom = ?",
+						[Math.floor(Date.now() / 1000), userId, txHash, DEFAULT_DENOM],
 					);
 				}
 
@@ -230,10 +250,10 @@ export const registerDepositCommands = (bot: Telegraf<Context>) => {
 						],
 					);
 				} else {
-					execute("UPDATE processed_deposits SET error = ? WHERE tx_hash = ?", [
-						result.error || "Unknown error",
-						txHash,
-					]);
+					execute(
+						"UPDATE processed_deposits SET error = ? WHERE tx_hash = ? AND denom = ?",
+						[result.error || "Unknown error", txHash, DEFAULT_DENOM],
+					);
 				}
 
 				await ctx.reply(
@@ -271,17 +291,17 @@ export const registerDepositCommands = (bot: Telegraf<Context>) => {
 		if (!userId) return;
 
 		try {
-			// Get unclaimed balance
-			const unclaimedBalance = await LedgerService.getUserBalance(
+			// Get unclaimed balances
+			const unclaimedAssets = LedgerService.getUserAssets(
 				SYSTEM_USER_IDS.UNCLAIMED,
 			);
 
-			if (unclaimedBalance === 0) {
+			if (unclaimedAssets.length === 0) {
 				return ctx.reply("No unclaimed deposits");
 			}
 
 			// Get recent unclaimed deposits
-			const unclaimed = query<any>(
+			const unclaimed = query<ProcessedDeposit>(
 				`SELECT * FROM processed_deposits
          WHERE user_id = ?
          ORDER BY created_at DESC
@@ -292,7 +312,13 @@ export const registerDepositCommands = (bot: Telegraf<Context>) => {
 			const messageParts = [
 				bold("Unclaimed Deposits"),
 				"\n\n",
-				`Total: ${code(`${AmountPrecision.format(unclaimedBalance)} JUNO`)}`,
+				`Total: ${code(
+					unclaimedAssets
+						.map((asset) =>
+							DenomService.format(asset.balanceMicro, asset.denom),
+						)
+						.join(", "),
+				)}`,
 				"\n\n",
 			];
 
@@ -301,8 +327,11 @@ export const registerDepositCommands = (bot: Telegraf<Context>) => {
 				for (const deposit of unclaimed) {
 					messageParts.push(
 						`• ${code(`${deposit.tx_hash.substring(0, 10)}...`)}\n`,
-						`  Amount: ${AmountPrecision.format(deposit.amount)} JUNO\n`,
-						`  Memo: "${deposit.memo || "none"}"\n\n`,
+						`  Amount: ${DenomService.formatAmount(deposit.amount, deposit.denom)}\n`,
+						`  Memo: "${deposit.memo || "none"}"\n`,
+						deposit.suggested_user_id
+							? `  Suggested owner: ${deposit.suggested_user_id}\n\n`
+							: "\n",
 					);
 				}
 			}
@@ -316,12 +345,95 @@ export const registerDepositCommands = (bot: Telegraf<Context>) => {
 		}
 	});
 
+	/**
+	 * Command: /claimmydeposit
+	 * Claim your own unclaimed deposit by proving you control the address it
+	 * was sent from: send the challenge amount from that address, then submit
+	 * the hash of that transaction.
+	 *
+	 * Permission: Any user
+	 * Syntax:
+	 *   /claimmydeposit <transaction_hash>
+	 *   /claimmydeposit <transaction_hash> <proof_transaction_hash>
+	 *
+	 * @example
+	 * User: /claimmydeposit ABC123...
+	 * Bot: Send exactly 0.004217 JUNO from juno1sender... to juno1bot...
+	 * User: /claimmydeposit ABC123... DEF456...
+	 * Bot: Deposit Claimed - 25.000000 JUNO credited to your balance.
+	 */
+	bot.command("claimmydeposit", async (ctx) => {
+		const userId = ctx.from?.id;
+		if (!userId) return;
+
+		const args = ctx.message?.text?.split(" ").slice(1).filter(Boolean) || [];
+		if (args.length < 1) {
+			return ctx.reply(
+				fmt`${bold("Usage")}: /claimmydeposit <transaction_hash> [proof_transaction_hash]\n\nClaim a deposit you sent without a valid memo.`,
+			);
+		}
+
+		const txHash = args[0].trim();
+		const proofTxHash = args[1]?.trim();
+
+		try {
+			if (proofTxHash) {
+				await ctx.reply("Verifying proof transaction...");
+				const result = await DepositClaimService.completeClaim(
+					txHash,
+					userId,
+					proofTxHash,
+				);
+				return ctx.reply(
+					result.success
+						? fmt`${bold("Deposit Claimed")}\n\n${code(DenomService.formatAmounts(result.amounts ?? []))} credited to your balance.`
+						: fmt`${bold("Claim Failed")}\n\n${result.error || "Unknown error"}`,
+				);
+			}
+
+			const result = DepositClaimService.startClaim(txHash, userId);
+			if (!result.success || !result.challenge) {
+				return ctx.reply(
+					fmt`${bold("Cannot Claim Deposit")}\n\n${result.error || "Unknown error"}`,
+				);
+			}
+
+			const { challenge } = result;
+			const challengeAmount = AmountPrecision.format(
+				AmountPrecision.fromMicroJuno(challenge.challengeUjuno),
+			);
+			const expires = new Date(challenge.expiresAt * 1000)
+				.toISOString()
+				.replace("T", " ")
+				.slice(0, 16);
+			return ctx.reply(
+				fmt`${bold("Prove This Deposit Is Yours")}
+
+Deposit: ${code(DenomService.formatAmounts(challenge.amounts))}
+
+Send exactly ${code(`${challengeAmount} JUNO`)}
+from ${code(challenge.fromAddress)}
+to ${code(challenge.walletAddress)}
+with your deposit code ${code(DepositCodeService.getCode(userId))} as memo.
+
+Then run:
+${code(`/claimmydeposit ${txHash} <proof_transaction_hash>`)}
+
+The challenge expires ${expires} UTC. Deposits sent from an exchange cannot be proven this way; contact an admin instead.`,
+			);
+		} catch (error) {
+			logger.error("Failed to claim own deposit", { userId, txHash, error });
+			return ctx.reply("Failed to process deposit claim");
+		}
+	});
+
 	/**
 	 * Command: /claimdeposit
-	 * Manually assign an unclaimed deposit to a user (admin only).
+	 * Manually assign an unclaimed deposit to a user (admin only). Without a
+	 * user ID, the deposit goes to the owner suggested from its memo.
 	 *
 	 * Permission: Admin or owner
-	 * Syntax: /claimdeposit <transaction_hash> <user_id>
+	 * Syntax: /claimdeposit <transaction_hash> [user_id]
 	 *
 	 * @example
 	 * User: /claimdeposit ABC123... 123456
@@ -348,21 +460,35 @@ export const registerDepositCommands = (bot: Telegraf<Context>) => {
 
 		const args = ctx.message?.text?.split(" ").slice(1) || [];
 
-		if (args.length < 2) {
+		if (args.length < 1) {
 			return ctx.reply(
-				fmt`${bold("Usage")}: /claimdeposit <transaction_hash> <user_id>\n\nAssign an unclaimed deposit to a user.`,
+				fmt`${bold("Usage")}: /claimdeposit <transaction_hash> [user_id]\n\nAssign an unclaimed deposit to a user (defaults to the suggested owner).`,
 			);
 		}
 
 		const txHash = args[0].trim();
-		const targetUserId = parseInt(args[1], 10);
+		let targetUserId: number;
+		if (args[1]) {
+			targetUserId = parseInt(args[1], 10);
+		} else {
+			const suggested = get<Pick<ProcessedDeposit, "suggested_user_id">>(
+				"SELECT suggested_user_id FROM processed_deposits WHERE tx_hash = ?",
+				[txHash],
+			)?.suggested_user_id;
+			if (!suggested) {
+				return ctx.reply(
+					"This deposit has no suggested owner. Usage: /claimdeposit <transaction_hash> <user_id>",
+				);
+			}
+			targetUserId = suggested;
+		}
 
 		if (Number.isNaN(targetUserId)) {
 			return ctx.reply("Invalid user ID");
 		}
 
 		try {
-			const result = await UnifiedWalletService.claimUnclaimedDeposit(
+			const result = UnifiedWalletService.claimUnclaimedDeposit(
 				txHash,
 				targetUserId,
 			);
@@ -373,11 +499,11 @@ export const registerDepositCommands = (bot: Telegraf<Context>) => {
 					operation: "claim_deposit",
 					targetUserId: targetUserId,
 					txHash,
-					amount: result.amount?.toString(),
+					amount: DenomService.formatAmounts(result.amounts ?? []),
 				});
 
 				await ctx.reply(
-					fmt`${bold("Deposit Claimed")}\n\nAmount: ${code(`${AmountPrecision.format(result.amount ?? 0)} JUNO`)}\nAssigned to user: ${code(targetUserId.toString())}\nTransaction: ${code(`${txHash.substring(0, 10)}...`)}`,
+					fmt`${bold("Deposit Claimed")}\n\nAmount: ${code(DenomService.formatAmounts(result.amounts ?? []))}\nAssigned to user: ${code(targetUserId.toString())}\nTransaction: ${code(`${txHash.substring(0, 10)}...`)}`,
 				);
 			} else {
 				await ctx.reply(
@@ -483,8 +609,8 @@ export const registerDepositCommands = (bot: Telegraf<Context>) => {
 
 			// Check if already processed
 			const existing = get<any>(
-				"SELECT * FROM processed_deposits WHERE tx_hash = ?",
-				[txHash],
+				"SELECT * FROM processed_deposits WHERE tx_hash = ? AND denom = ?",
+				[txHash, DEFAULT_DENOM],
 			);
 
 			if (existing?.processed) {
@@ -493,8 +619,14 @@ export const registerDepositCommands = (bot: Telegraf<Context>) => {
 				);
 			}
 
+			if (PaymentReceiptService.isReceipt(txHash)) {
+				return ctx.reply(
+					"This transaction was used to pay a fine or bail and cannot be credited as a deposit.",
+				);
+			}
+
 			// Process the deposit
-			const result = await LedgerService.processDeposit(
+			const result = LedgerService.processDeposit(
 				userId,
 				deposit.amount,
 				txHash,
@@ -524,8 +656,8 @@ export const registerDepositCommands = (bot: Telegraf<Context>) => {
 				} else {
 					// Update existing record
 					execute(
-						"UPDATE processed_deposits SET processed = 1, processed_at = ?, user_id = ?, error = NULL WHERE tx_hash = ?",
-						[Math.floor(Date.now() / 1000), userId, txHash],
+						"UPDATE processed_deposits SET processed = 1, processed_at = ?, user_id = ?, error = NULL WHERE tx_hash = ? AND denom = ?",
+						[Math.floor(Date.now() / 1000), userId, txHash, DEFAULT_DENOM],
 					);
 				}
 
@@ -559,10 +691,10 @@ export const registerDepositCommands = (bot: Telegraf<Context>) => {
 						],
 					);
 				} else {
-					execute("UPDATE processed_deposits SET error = ? WHERE tx_hash = ?", [
-						result.error || "Unknown error",
-						txHash,
-					]);
+					execute(
+						"UPDATE processed_deposits SET error = ? WHERE tx_hash = ? AND denom = ?",
+						[result.error || "Unknown error", txHash, DEFAULT_DENOM],
+					);
 				}
 
 				await ctx.reply(
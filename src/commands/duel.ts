@@ -7,6 +7,8 @@
 
 import type { Context, Telegraf } from "telegraf";
 import { bold, code, fmt } from "telegraf/format";
+import { requireChatFeature } from "../middleware/index";
+import { DEFAULT_DENOM, DenomService } from "../services/denomService";
 import {
 	DEFAULT_CONSEQUENCE_DURATIONS,
 	type DuelConsequence,
@@ -39,39 +41,46 @@ const CONSEQUENCE_NAMES: Record<DuelConsequence, string> = {
 };
 
 /**
- * Create the consequence selection keyboard
+ * Create the consequence selection keyboard.
+ * Non-JUNO wagers carry the asset symbol as a trailing part.
  */
-function consequenceKeyboard(wager: number, opponentId: number) {
+function consequenceKeyboard(
+	wager: number,
+	opponentId: number,
+	denom: string = DEFAULT_DENOM,
+) {
+	const suffix =
+		denom === DEFAULT_DENOM ? "" : `_${DenomService.symbol(denom)}`;
 	return {
 		inline_keyboard: [
 			[
 				{
 					text: "No Penalty",
-					callback_data: `duel_cons_none_${wager}_${opponentId}`,
+					callback_data: `duel_cons_none_${wager}_${opponentId}${suffix}`,
 				},
 				{
 					text: "Jail (1hr)",
-					callback_data: `duel_cons_jail_${wager}_${opponentId}`,
+					callback_data: `duel_cons_jail_${wager}_${opponentId}${suffix}`,
 				},
 			],
 			[
 				{
 					text: "Muted (30m)",
-					callback_data: `duel_cons_muted_${wager}_${opponentId}`,
+					callback_data: `duel_cons_muted_${wager}_${opponentId}${suffix}`,
 				},
 				{
 					text: "No Stickers (1hr)",
-					callback_data: `duel_cons_no_stickers_${wager}_${opponentId}`,
+					callback_data: `duel_cons_no_stickers_${wager}_${opponentId}${suffix}`,
 				},
 			],
 			[
 				{
 					text: "No Media (1hr)",
-					callback_data: `duel_cons_no_media_${wager}_${opponentId}`,
+					callback_data: `duel_cons_no_media_${wager}_${opponentId}${suffix}`,
 				},
 				{
 					text: "No GIFs (1hr)",
-					callback_data: `duel_cons_no_gifs_${wager}_${opponentId}`,
+					callback_data: `duel_cons_no_gifs_${wager}_${opponentId}${suffix}`,
 				},
 			],
 			[{ text: "Cancel", callback_data: "cancel" }],
@@ -108,21 +117,18 @@ function duelCancelKeyboard(duelId: number) {
  * Registers all duel-related commands and callback handlers with the bot.
  *
  * Commands registered:
- * - /duel <@user> <amount> - Challenge another user to a duel
+ * - /duel <@user> <amount> [asset] - Challenge another user to a duel
  * - /duelstats - View your duel statistics
  * - /duelcancel - Cancel your pending duel challenge
  *
  * @param bot - Telegraf bot instance
  */
 export function registerDuelCommands(bot: Telegraf<Context>): void {
-	// Initialize the duel service with bot instance
-	DuelService.initialize(bot);
-
 	/**
 	 * Command: /duel
 	 * Challenge another user to a wagered duel
 	 */
-	bot.command("duel", async (ctx) => {
+	bot.command("duel", requireChatFeature("duels"), async (ctx) => {
 		const userId = ctx.from?.id;
 		if (!userId) return;
 
@@ -147,31 +153,39 @@ The loser can face additional penalties:
 - Jail, mute, or restrictions
 - Duration varies by penalty type
 
-${bold("Usage:")} ${code("/duel @username <amount>")}
+${bold("Usage:")} ${code("/duel @username <amount> [asset]")}
 ${bold("Example:")} ${code("/duel @alice 5")}
 
-Limits: ${MIN_WAGER} - ${MAX_WAGER} JUNO
+Limits: ${MIN_WAGER} - ${MAX_WAGER} JUNO (other assets: no limits)
 Your balance: ${code(AmountPrecision.format(balance))} JUNO`,
 			);
 		}
 
-		const [targetArg, amountArg] = args;
+		const [targetArg, amountArg, denomArg] = args;
+
+		const asset = DenomService.resolve(denomArg);
+		if (!asset) {
+			return ctx.reply(`Unknown asset ${denomArg}. See /denoms.`);
+		}
 
 		// Parse wager amount
-		let wagerAmount: number;
+		const wagerAmount = parseFloat(amountArg);
+		if (Number.isNaN(wagerAmount) || wagerAmount <= 0) {
+			return ctx.reply("Invalid amount. Must be a positive number.");
+		}
 		try {
-			wagerAmount = AmountPrecision.parseUserInput(amountArg);
+			DenomService.toBaseUnits(wagerAmount, asset.denom);
 		} catch {
 			return ctx.reply(
-				"Invalid amount. Use a number with up to 6 decimal places.",
+				`Invalid amount. Use a number with up to ${asset.decimals} decimal places.`,
 			);
 		}
 
 		// Validate wager limits
-		if (wagerAmount < MIN_WAGER) {
+		if (asset.denom === DEFAULT_DENOM && wagerAmount < MIN_WAGER) {
 			return ctx.reply(`Minimum wager is ${MIN_WAGER} JUNO.`);
 		}
-		if (wagerAmount > MAX_WAGER) {
+		if (asset.denom === DEFAULT_DENOM && wagerAmount > MAX_WAGER) {
 			return ctx.reply(`Maximum wager is ${MAX_WAGER} JUNO.`);
 		}
 
@@ -205,23 +219,29 @@ Use ${code("/duelcancel")} to cancel it first, or wait for it to expire.`,
 		}
 
 		// Check challenger balance
-		const challengerBalance = await LedgerService.getUserBalance(userId);
+		const challengerBalance = await LedgerService.getUserBalance(
+			userId,
+			asset.denom,
+		);
 		if (!AmountPrecision.isGreaterOrEqual(challengerBalance, wagerAmount)) {
 			return ctx.reply(
 				fmt`Sorry, you're too poor for that.
 
 Please remain at your location, the authorities are on their way.
 
-Your balance: ${code(AmountPrecision.format(challengerBalance))} JUNO
-Wager: ${code(AmountPrecision.format(wagerAmount))} JUNO`,
+Your balance: ${code(DenomService.formatAmount(challengerBalance, asset.denom))}
+Wager: ${code(DenomService.formatAmount(wagerAmount, asset.denom))}`,
 			);
 		}
 
 		// Check opponent balance
-		const opponentBalance = await LedgerService.getUserBalance(opponentId);
+		const opponentBalance = await LedgerService.getUserBalance(
+			opponentId,
+			asset.denom,
+		);
 		if (!AmountPrecision.isGreaterOrEqual(opponentBalance, wagerAmount)) {
 			return ctx.reply(
-				`That user doesn't have enough balance to accept a ${AmountPrecision.format(wagerAmount)} JUNO wager.`,
+				`That user doesn't have enough balance to accept a ${DenomService.formatAmount(wagerAmount, asset.denom)} wager.`,
 			);
 		}
 
@@ -241,13 +261,13 @@ Wager: ${code(AmountPrecision.format(wagerAmount))} JUNO`,
 			fmt`${bold("Select Loser Consequence")}
 
 Challenging ${bold(formatUserIdDisplay(opponentId))}
-Wager: ${bold(AmountPrecision.format(wagerAmount))} JUNO
+Wager: ${bold(DenomService.formatAmount(wagerAmount, asset.denom))}
 
 What penalty should the loser face?
 
 (This menu expires in 30 seconds)`,
 			{
-				reply_markup: consequenceKeyboard(wagerAmount, opponentId),
+				reply_markup: consequenceKeyboard(wagerAmount, opponentId, asset.denom),
 			},
 		);
 
@@ -287,10 +307,9 @@ What penalty should the loser face?
 				const opponent =
 					duel.challengerId === userId ? duel.opponentId : duel.challengerId;
 				const result = won ? "W" : "L";
-				const amount = won
-					? `+${AmountPrecision.format(duel.wagerAmount)}`
-					: `-${AmountPrecision.format(duel.wagerAmount)}`;
-				recentText += `[${result}] vs ${formatUserIdDisplay(opponent)}: ${amount} JUNO\n`;
+				const wager = DenomService.formatAmount(duel.wagerAmount, duel.denom);
+				const amount = won ? `+${wager}` : `-${wager}`;
+				recentText += `[${result}] vs ${formatUserIdDisplay(opponent)}: ${amount}\n`;
 			}
 		}
 
@@ -355,82 +374,88 @@ The duel challenge has been cancelled by the challenger.`,
  * Register callback query handlers for duel interactions
  */
 function registerDuelCallbacks(bot: Telegraf<Context>): void {
-	// Handle consequence selection
-	bot.action(/^duel_cons_(.+)_(.+)_(.+)$/, async (ctx) => {
-		const userId = ctx.from?.id;
-		if (!userId) return;
+	// Handle consequence selection: duel_cons_<consequence>_<wager>_<opponent>[_<symbol>]
+	bot.action(
+		/^duel_cons_(.+)_([\d.]+)_(-?\d+)(?:_([A-Z0-9]+))?$/,
+		async (ctx) => {
+			const userId = ctx.from?.id;
+			if (!userId) return;
+
+			// Validate menu ownership and expiry
+			const validationError = await validateMenuInteraction(ctx, "duel_setup");
+			if (validationError) {
+				await ctx.answerCbQuery(validationError);
+				return;
+			}
 
-		// Validate menu ownership and expiry
-		const validationError = await validateMenuInteraction(ctx, "duel_setup");
-		if (validationError) {
-			await ctx.answerCbQuery(validationError);
-			return;
-		}
+			const match = ctx.match;
+			const consequence = match[1] as DuelConsequence;
+			const wagerAmount = parseFloat(match[2]);
+			const opponentId = parseInt(match[3], 10);
 
-		const match = ctx.match;
-		const consequence = match[1] as DuelConsequence;
-		const wagerAmount = parseFloat(match[2]);
-		const opponentId = parseInt(match[3], 10);
+			const asset = DenomService.resolve(match[4]);
 
-		if (Number.isNaN(wagerAmount) || Number.isNaN(opponentId)) {
-			await ctx.answerCbQuery("Invalid duel data.");
-			return;
-		}
-
-		const chatId = ctx.chat?.id;
-		const messageId = ctx.callbackQuery?.message?.message_id;
-		if (!chatId) {
-			await ctx.answerCbQuery("Cannot create duel outside of a chat.");
-			return;
-		}
+			if (Number.isNaN(wagerAmount) || Number.isNaN(opponentId) || !asset) {
+				await ctx.answerCbQuery("Invalid duel data.");
+				return;
+			}
 
-		// Clean up the menu session since we're proceeding
-		if (messageId) {
-			cleanupMenuByMessage(chatId, messageId);
-		}
+			const chatId = ctx.chat?.id;
+			const messageId = ctx.callbackQuery?.message?.message_id;
+			if (!chatId) {
+				await ctx.answerCbQuery("Cannot create duel outside of a chat.");
+				return;
+			}
 
-		// Ensure both users exist
-		const challengerUsername = ctx.from?.username || `user_${userId}`;
-		ensureUserExists(userId, challengerUsername);
+			// Clean up the menu session since we're proceeding
+			if (messageId) {
+				cleanupMenuByMessage(chatId, messageId);
+			}
 
-		// Create the duel
-		const result = await DuelService.createDuel(
-			userId,
-			opponentId,
-			wagerAmount,
-			chatId,
-			consequence,
-		);
+			// Ensure both users exist
+			const challengerUsername = ctx.from?.username || `user_${userId}`;
+			ensureUserExists(userId, challengerUsername);
+
+			// Create the duel
+			const result = await DuelService.createDuel(
+				userId,
+				opponentId,
+				wagerAmount,
+				chatId,
+				consequence,
+				undefined,
+				asset.denom,
+			);
 
-		if (!result.success || !result.duel) {
-			await ctx.editMessageText(result.error || "Failed to create duel.");
-			return;
-		}
+			if (!result.success || !result.duel) {
+				await ctx.editMessageText(result.error || "Failed to create duel.");
+				return;
+			}
 
-		const duel = result.duel;
-		const consequenceName = CONSEQUENCE_NAMES[consequence];
-		const duration = DEFAULT_CONSEQUENCE_DURATIONS[consequence];
-		const durationText = duration > 0 ? `${duration} minutes` : "";
+			const duel = result.duel;
+			const consequenceName = CONSEQUENCE_NAMES[consequence];
+			const duration = DEFAULT_CONSEQUENCE_DURATIONS[consequence];
+			const durationText = duration > 0 ? `${duration} minutes` : "";
 
-		// Edit the original message to confirm
-		await ctx.editMessageText(
-			fmt`${bold("Duel Challenge Sent!")}
+			// Edit the original message to confirm
+			await ctx.editMessageText(
+				fmt`${bold("Duel Challenge Sent!")}
 
 Waiting for ${bold(formatUserIdDisplay(opponentId))} to respond...
 
 The challenge will expire in 5 minutes.`,
-			{
-				reply_markup: duelCancelKeyboard(duel.id),
-			},
-		);
+				{
+					reply_markup: duelCancelKeyboard(duel.id),
+				},
+			);
 
-		// Send the challenge to the opponent
-		const challengeMsg = await ctx.reply(
-			fmt`${bold("Duel Challenge!")}
+			// Send the challenge to the opponent
+			const challengeMsg = await ctx.reply(
+				fmt`${bold("Duel Challenge!")}
 
 ${bold(formatUserIdDisplay(userId))} challenges ${bold(formatUserIdDisplay(opponentId))} to a duel!
 
-${bold("Wager:")} ${code(AmountPrecision.format(wagerAmount))} JUNO each
+${bold("Wager:")} ${code(DenomService.formatAmount(wagerAmount, asset.denom))} each
 ${bold("Loser Penalty:")} ${consequenceName}${durationText ? ` (${durationText})` : ""}
 
 Both players roll a 9-digit number.
@@ -438,25 +463,27 @@ ${bold("Highest roll wins!")}
 (Ties go to challenger)
 
 This challenge expires in 5 minutes.`,
-			{
-				reply_markup: duelChallengeKeyboard(duel.id),
-			},
-		);
+				{
+					reply_markup: duelChallengeKeyboard(duel.id),
+				},
+			);
 
-		// Update the duel with the message ID
-		DuelService.updateMessageId(duel.id, challengeMsg.message_id);
+			// Update the duel with the message ID
+			DuelService.updateMessageId(duel.id, challengeMsg.message_id);
 
-		StructuredLogger.logUserAction("Duel challenge sent", {
-			userId,
-			operation: "duel_challenge",
-			duelId: duel.id.toString(),
-			opponentId: opponentId.toString(),
-			wagerAmount: wagerAmount.toString(),
-			consequence,
-		});
-
-		await ctx.answerCbQuery("Duel challenge sent!");
-	});
+			StructuredLogger.logUserAction("Duel challenge sent", {
+				userId,
+				operation: "duel_challenge",
+				duelId: duel.id.toString(),
+				opponentId: opponentId.toString(),
+				wagerAmount: wagerAmount.toString(),
+				denom: asset.denom,
+				consequence,
+			});
+
+			await ctx.answerCbQuery("Duel challenge sent!");
+		},
+	);
 
 	// Handle duel accept
 	bot.action(/^duel_accept_(\d+)$/, async (ctx) => {
@@ -489,7 +516,6 @@ ${result.error || "An error occurred."}`,
 		}
 
 		const duel = result.duel;
-		const challengerWon = duel.winnerId === duel.challengerId;
 
 		// Format the result message
 		const consequenceName = CONSEQUENCE_NAMES[duel.loserConsequence];
@@ -508,23 +534,9 @@ ${bold(formatUserIdDisplay(duel.challengerId))} rolled: ${code(result.challenger
 ${bold(formatUserIdDisplay(duel.opponentId))} rolled: ${code(result.opponentRoll || "???")}
 
 ${bold("Winner:")} ${formatUserIdDisplay(duel.winnerId || 0)}
-${bold("Prize:")} ${code(AmountPrecision.format(duel.wagerAmount))} JUNO${consequenceText}`,
+${bold("Prize:")} ${code(DenomService.formatAmount(duel.wagerAmount, duel.denom))}${consequenceText}`,
 		);
 
-		// Notify the challenger if they weren't the one who clicked
-		if (duel.challengerId !== userId) {
-			try {
-				await ctx.telegram.sendMessage(
-					duel.challengerId,
-					fmt`Your duel against ${formatUserIdDisplay(duel.opponentId)} is complete!
-
-You ${challengerWon ? "won" : "lost"} ${AmountPrecision.format(duel.wagerAmount)} JUNO.`,
-				);
-			} catch {
-				// User may have blocked the bot
-			}
-		}
-
 		await ctx.answerCbQuery(
 			duel.winnerId === userId ? "You won!" : "You lost...",
 		);
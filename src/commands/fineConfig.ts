@@ -8,11 +8,11 @@
 
 import type { Context, Telegraf } from "telegraf";
 import { bold, code, fmt } from "telegraf/format";
-import { execute } from "../database";
 import { ownerOnly } from "../middleware/index";
-import { JailService } from "../services/jailService";
+import { ModerationActionService } from "../services/moderationActionService";
 import { PriceService } from "../services/priceService";
 import { logger, StructuredLogger } from "../utils/logger";
+import { messageRef } from "../utils/messageLink";
 import { isImmuneToModeration } from "../utils/roles";
 import { formatUserIdDisplay, resolveUserId } from "../utils/userResolver";
 
@@ -236,60 +236,34 @@ This jails the user for the specified time with a custom fine amount.`,
 			);
 		}
 
-		const mutedUntil = Math.floor(Date.now() / 1000) + minutes * 60;
-
-		// Update database
-		execute("UPDATE users SET muted_until = ?, updated_at = ? WHERE id = ?", [
-			mutedUntil,
-			Math.floor(Date.now() / 1000),
+		// Jail in this group, or network-wide when issued from a private chat
+		const isGroupChat =
+			ctx.chat?.type === "group" || ctx.chat?.type === "supergroup";
+		const jailChatId = isGroupChat && ctx.chat ? ctx.chat.id : null;
+		const result = await ModerationActionService.jail({
 			userId,
-		]);
+			chatId: jailChatId,
+			source: "command",
+			reason: "custom_fine",
+			actorId: ownerId,
+			note: reason,
+			origin: messageRef(ctx),
+			durationMinutes: minutes,
+			bailAmount: junoAmount,
+		});
 
-		// Log the jail event with custom metadata
-		JailService.logJailEvent(
-			userId,
-			"jailed",
-			ownerId,
-			minutes,
-			junoAmount,
-			undefined,
-			undefined,
-			{ reason, customFine: true },
-		);
+		const failure = result.failures.find((f) => f.chatId === jailChatId);
+		if (failure) {
+			await ctx.reply(
+				fmt`Database updated but failed to restrict user in Telegram.
+Error: ${failure.error}`,
+			);
+		}
 
-		// Actually restrict the user in Telegram (if in a group)
-		if (ctx.chat?.type === "group" || ctx.chat?.type === "supergroup") {
-			try {
-				await ctx.telegram.restrictChatMember(ctx.chat.id, userId, {
-					permissions: {
-						can_send_messages: false,
-						can_send_audios: false,
-						can_send_documents: false,
-						can_send_photos: false,
-						can_send_videos: false,
-						can_send_video_notes: false,
-						can_send_voice_notes: false,
-						can_send_polls: false,
-						can_send_other_messages: false,
-						can_add_web_page_previews: false,
-						can_change_info: false,
-						can_invite_users: false,
-						can_pin_messages: false,
-						can_manage_topics: false,
-					},
-					until_date: mutedUntil,
-				});
-			} catch (error) {
-				logger.error("Failed to restrict user in Telegram", {
-					userId,
-					chatId: ctx.chat.id,
-					error,
-				});
-				await ctx.reply(
-					fmt`Database updated but failed to restrict user in Telegram.
-Error: ${error instanceof Error ? error.message : "Unknown error"}`,
-				);
-			}
+		if (!result.changed) {
+			return ctx.reply(
+				fmt`User ${formatUserIdDisplay(userId)} is already jailed until ${new Date((result.until ?? 0) * 1000).toLocaleString()}.`,
+			);
 		}
 
 		const userDisplay = formatUserIdDisplay(userId);
@@ -0,0 +1,131 @@
+/**
+ * Anti-flood configuration command handlers for the CAC Admin Bot.
+ * Lets admins view and change the flood detection thresholds and the
+ * length of the mute applied when a user floods a chat.
+ *
+ * @module commands/floodConfig
+ */
+
+import type { Context, Telegraf } from "telegraf";
+import { bold, code, fmt } from "telegraf/format";
+import { adminOrHigher } from "../middleware/index";
+import { FloodService, type FloodSettings } from "../services/floodService";
+import { logger } from "../utils/logger";
+
+/** Threshold name -> [limit setting, window setting] */
+const THRESHOLDS = {
+	messages: ["messageLimit", "messageWindowSeconds"],
+	duplicates: ["duplicateLimit", "duplicateWindowSeconds"],
+	media: ["mediaLimit", "mediaWindowSeconds"],
+} as const;
+
+/**
+ * Formats the flood thresholds for display.
+ *
+ * @param settings - Flood settings
+ * @returns Multi-line summary
+ */
+function formatFloodSettings(settings: FloodSettings): string {
+	return [
+		`Messages: ${settings.messageLimit} per ${settings.messageWindowSeconds}s`,
+		`Duplicates: ${settings.duplicateLimit} per ${settings.duplicateWindowSeconds}s`,
+		`Media: ${settings.mediaLimit} per ${settings.mediaWindowSeconds}s`,
+		`Mute: ${settings.muteMinutes} min`,
+	].join("\n");
+}
+
+/**
+ * Registers the anti-flood configuration command with the bot.
+ *
+ * Commands registered:
+ * - /floodconfig - View or change flood thresholds (admin only)
+ *
+ * @param bot - Telegraf bot instance
+ *
+ * @example
+ * ```typescript
+ * import { Telegraf } from 'telegraf';
+ * import { registerFloodConfigCommands } from './commands/floodConfig';
+ *
+ * const bot = new Telegraf(process.env.BOT_TOKEN);
+ * registerFloodConfigCommands(bot);
+ * ```
+ */
+export function registerFloodConfigCommands(bot: Telegraf<Context>): void {
+	/**
+	 * Command: /floodconfig
+	 * View or change the flood detection thresholds. Users sending more than
+	 * the allowed number of messages within the window are muted.
+	 *
+	 * Permission: Admin or owner
+	 * Syntax:
+	 *   /floodconfig
+	 *   /floodconfig <messages|duplicates|media> <count> <seconds>
+	 *   /floodconfig mute <minutes>
+	 *
+	 * @example
+	 * User: /floodconfig messages 10 15
+	 * Bot: Messages threshold set to 10 per 15s.
+	 */
+	bot.command("floodconfig", adminOrHigher, async (ctx) => {
+		const adminId = ctx.from?.id;
+		if (!adminId) return;
+
+		const args = ctx.message?.text.split(" ").slice(1).filter(Boolean) || [];
+		const subcommand = args[0]?.toLowerCase();
+		const usage = fmt`${bold("Usage:")}
+${code("/floodconfig")} - show thresholds
+${code("/floodconfig <messages|duplicates|media> <count> <seconds>")}
+${code("/floodconfig mute <minutes>")}`;
+
+		try {
+			if (!subcommand) {
+				return ctx.reply(
+					fmt`${bold("Anti-Flood Thresholds")}
+
+${formatFloodSettings(FloodService.getSettings())}
+
+Disable per group with ${code("/chatconfig feature antiflood off")}.`,
+				);
+			}
+
+			if (subcommand === "mute") {
+				const minutes = Number.parseInt(args[1] || "", 10);
+				if (!Number.isInteger(minutes) || minutes < 1) {
+					return ctx.reply(usage);
+				}
+				FloodService.setSetting("muteMinutes", minutes, adminId);
+				return ctx.reply(`Flood mute set to ${minutes} minutes.`);
+			}
+
+			if (subcommand in THRESHOLDS) {
+				const [limitSetting, windowSetting] =
+					THRESHOLDS[subcommand as keyof typeof THRESHOLDS];
+				const count = Number.parseInt(args[1] || "", 10);
+				const seconds = Number.parseInt(args[2] || "", 10);
+				if (
+					!Number.isInteger(count) ||
+					count < 1 ||
+					!Number.isInteger(seconds) ||
+					seconds < 1
+				) {
+					return ctx.reply(usage);
+				}
+				FloodService.setSetting(limitSetting, count, adminId);
+				FloodService.setSetting(windowSetting, seconds, adminId);
+				return ctx.reply(
+					`${subcommand.charAt(0).toUpperCase()}${subcommand.slice(1)} threshold set to ${count} per ${seconds}s.`,
+				);
+			}
+
+			return ctx.reply(usage);
+		} catch (error) {
+			logger.error("Failed to update flood settings", {
+				adminId,
+				subcommand,
+				error,
+			});
+			return ctx.reply("An error occurred while updating flood settings.");
+		}
+	});
+}
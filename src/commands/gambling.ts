@@ -2,13 +2,19 @@
  * Gambling command handlers for the CAC Admin Bot.
  * Provides /roll command for a chance-based game using cryptographic randomness.
  *
+ * Rolls are provably fair (commit-reveal): each roll is
+ * HMAC-SHA256(serverSeed, "clientSeed:nonce"). The hash of the server seed is
+ * published before it is used, the seed itself is revealed when it rotates,
+ * and /verifyroll recomputes any past roll from its stored inputs.
+ *
  * @module commands/gambling
  */
 
-import { createHash, randomBytes } from "crypto";
+import { createHash, createHmac, randomBytes } from "crypto";
 import type { Context, Telegraf } from "telegraf";
 import { bold, code, fmt } from "telegraf/format";
-import { execute, get } from "../database";
+import { execute, get, query } from "../database";
+import { requireChatFeature } from "../middleware/index";
 import { LedgerService, TransactionType } from "../services/ledgerService";
 import { TransactionLockService } from "../services/transactionLock";
 import { SYSTEM_USER_IDS } from "../services/unifiedWalletService";
@@ -23,19 +29,52 @@ export const MAX_BET = 100;
 // Payout multiplier (9x profit = 10x total return for 10% win chance = fair game)
 export const WIN_MULTIPLIER = 9;
 
+// Longest client seed a player may choose
+export const MAX_CLIENT_SEED_LENGTH = 64;
+
 // System state keys for database persistence
-const STATE_HASH_CHAIN = "roll_hash_chain";
 const STATE_ROLL_COUNTER = "roll_counter";
 const STATE_SERVER_SEED = "roll_server_seed";
 const STATE_SERVER_SEED_HASH = "roll_server_seed_hash";
 
 interface RollState {
-	hashChain: string;
 	rollCounter: number;
 	serverSeed: string;
 	serverSeedHash: string;
 }
 
+/**
+ * Stored inputs and result of a roll (rolls table).
+ */
+interface RollRecord {
+	id: number;
+	user_id: number;
+	server_seed_hash: string;
+	client_seed: string;
+	nonce: number;
+	roll_number: string;
+	created_at: number;
+}
+
+/**
+ * Result of recomputing a past roll for /verifyroll.
+ */
+export interface RollVerification {
+	rollId: number;
+	userId: number;
+	clientSeed: string;
+	nonce: number;
+	serverSeedHash: string;
+	/** Null while the seed is still in use (not yet revealed) */
+	serverSeed: string | null;
+	rollNumber: string;
+	/** Roll recomputed from the revealed seed, null if not revealed yet */
+	recomputedRoll: string | null;
+	/** Whether sha256(serverSeed) matches the published commitment */
+	seedMatchesCommitment: boolean | null;
+	createdAt: number;
+}
+
 // In-memory cache of current state (loaded from DB at startup)
 let rollState: RollState | null = null;
 
@@ -84,21 +123,10 @@ function generateServerSeed(): { seed: string; hash: string } {
  * Called once at bot startup via initializeRollSystem()
  */
 function loadOrInitializeState(): RollState {
-	let hashChain = getSystemState(STATE_HASH_CHAIN);
 	let rollCounter = parseInt(getSystemState(STATE_ROLL_COUNTER) || "0", 10);
 	let serverSeed = getSystemState(STATE_SERVER_SEED);
 	let serverSeedHash = getSystemState(STATE_SERVER_SEED_HASH);
 
-	// Initialize hash chain if not present (first run or corrupted)
-	if (!hashChain) {
-		const initEntropy = randomBytes(32).toString("hex");
-		hashChain = createHash("sha256").update(initEntropy).digest("hex");
-		setSystemState(STATE_HASH_CHAIN, hashChain);
-		logger.info("Roll hash chain initialized with cryptographic entropy");
-	} else {
-		logger.info("Roll hash chain restored from database");
-	}
-
 	// Initialize roll counter if not present
 	if (Number.isNaN(rollCounter)) {
 		rollCounter = 0;
@@ -115,7 +143,7 @@ function loadOrInitializeState(): RollState {
 		logger.info("Roll server seed initialized for commit-reveal");
 	}
 
-	return { hashChain, rollCounter, serverSeed, serverSeedHash };
+	return { rollCounter, serverSeed, serverSeedHash };
 }
 
 /**
@@ -142,7 +170,8 @@ export function getServerSeedCommitment(): string {
 
 /**
  * Rotate the server seed (call periodically, e.g., hourly)
- * Returns the OLD seed for verification, sets up new seed
+ * Reveals the OLD seed in roll_seed_history so rolls made with it can be
+ * verified, and sets up a new committed seed.
  */
 export function rotateServerSeed(): {
 	oldSeed: string;
@@ -156,6 +185,11 @@ export function rotateServerSeed(): {
 	const oldSeed = rollState.serverSeed;
 	const oldHash = rollState.serverSeedHash;
 
+	execute(
+		"INSERT OR IGNORE INTO roll_seed_history (server_seed_hash, server_seed) VALUES (?, ?)",
+		[oldHash, oldSeed],
+	);
+
 	const newSeed = generateServerSeed();
 	rollState.serverSeed = newSeed.seed;
 	rollState.serverSeedHash = newSeed.hash;
@@ -172,74 +206,147 @@ export function rotateServerSeed(): {
 }
 
 /**
- * Generate a 9-digit roll number using cryptographic randomness.
+ * Compute a roll from its inputs: HMAC-SHA256 keyed with the server seed over
+ * "clientSeed:nonce". The first 12 hex chars (48 bits) are taken mod 10^9 to
+ * get 9 digits. Deterministic, so anyone can recompute a roll once the server
+ * seed is revealed.
  *
- * Entropy sources (none fully user-controllable):
- * - timestamp: Telegram message timestamp (user chooses when, but seconds precision)
- * - serverNanos: High-resolution server time (nanoseconds, unpredictable)
- * - userId: Fixed per user
- * - messageId: Telegram message ID (sequential with unpredictable gaps)
- * - rollCounter: Global monotonic counter (prevents replay)
- * - hashChain: Previous roll's hash (depends on all prior rolls)
- * - serverSeed: Cryptographic server secret (commit-reveal)
+ * @param serverSeed - Server seed (secret until rotated)
+ * @param clientSeed - Client seed chosen by (or derived for) the player
+ * @param nonce - Roll nonce (the global roll ID)
+ * @returns 9-digit roll number
+ */
+export function computeRoll(
+	serverSeed: string,
+	clientSeed: string,
+	nonce: number,
+): string {
+	const hash = createHmac("sha256", serverSeed)
+		.update(`${clientSeed}:${nonce}`)
+		.digest("hex");
+	const numericValue = parseInt(hash.substring(0, 12), 16);
+	return (numericValue % 1_000_000_000).toString().padStart(9, "0");
+}
+
+/**
+ * Default client seed when the player did not choose one, built from the
+ * public inputs of the roll message.
+ */
+function defaultClientSeed(
+	timestamp: number,
+	userId: number,
+	messageId: number,
+): string {
+	return `${userId}:${messageId}:${timestamp}`;
+}
+
+/**
+ * Generate a 9-digit roll number using the commit-reveal scheme.
+ *
+ * Inputs:
+ * - serverSeed: Cryptographic server secret, committed by its hash in advance
+ * - clientSeed: Chosen by the player, or derived from user ID, message ID and timestamp
+ * - nonce: Global monotonic roll counter (the roll ID, never reused)
+ *
+ * The inputs are stored in the rolls table so /verifyroll can recompute the
+ * roll after the server seed is revealed.
  *
  * @param timestamp - Message timestamp (unix seconds)
  * @param userId - User ID of the roller
  * @param messageId - Telegram message ID
+ * @param clientSeed - Client seed chosen by the player (optional)
  * @returns Object with roll number, rollId, and verification data
  */
 export function generateRollNumber(
 	timestamp: number,
 	userId: number,
 	messageId: number,
-): { rollNumber: string; rollId: number; verificationHash: string } {
+	clientSeed?: string,
+): {
+	rollNumber: string;
+	rollId: number;
+	verificationHash: string;
+	clientSeed: string;
+	serverSeedHash: string;
+} {
 	if (!rollState) {
 		throw new Error(
 			"Roll system not initialized - call initializeRollSystem() first",
 		);
 	}
 
-	// Capture server nanosecond timestamp (unpredictable)
-	const serverNanos = process.hrtime.bigint().toString();
-
-	// Increment roll counter
+	// Increment roll counter (also the nonce)
 	rollState.rollCounter++;
 	const rollId = rollState.rollCounter;
 
-	// Combine all entropy sources
-	const entropyInput = [
-		timestamp,
-		serverNanos,
-		userId,
-		messageId,
-		rollId,
-		rollState.hashChain,
-		rollState.serverSeed,
-	].join(":");
+	const seed = clientSeed || defaultClientSeed(timestamp, userId, messageId);
+	const rollNumber = computeRoll(rollState.serverSeed, seed, rollId);
 
-	// Generate SHA-256 hash
-	const hash = createHash("sha256").update(entropyInput).digest("hex");
+	// Persist updated state and the roll inputs
+	setSystemState(STATE_ROLL_COUNTER, rollId.toString());
+	execute(
+		`INSERT INTO rolls (id, user_id, server_seed_hash, client_seed, nonce, roll_number)
+		 VALUES (?, ?, ?, ?, ?, ?)`,
+		[rollId, userId, rollState.serverSeedHash, seed, rollId, rollNumber],
+	);
 
-	// Update hash chain for next roll
-	rollState.hashChain = hash;
+	return {
+		rollNumber,
+		rollId,
+		// Short form of the seed commitment, shown with the roll
+		verificationHash: rollState.serverSeedHash.substring(0, 16),
+		clientSeed: seed,
+		serverSeedHash: rollState.serverSeedHash,
+	};
+}
 
-	// Persist updated state to database
-	setSystemState(STATE_HASH_CHAIN, hash);
-	setSystemState(STATE_ROLL_COUNTER, rollId.toString());
+/**
+ * Look up a past roll and recompute it from its revealed server seed.
+ *
+ * @param rollId - Roll ID (as shown with the roll)
+ * @returns Verification details, or null if the roll does not exist
+ */
+export function verifyRoll(rollId: number): RollVerification | null {
+	const roll = get<RollRecord>("SELECT * FROM rolls WHERE id = ?", [rollId]);
+	if (!roll) return null;
 
-	// Take first 12 hex chars (48 bits) and convert to number
-	// Then mod by 1 billion to get 9 digits
-	const hexPortion = hash.substring(0, 12);
-	const numericValue = parseInt(hexPortion, 16);
-	const rollNumber = (numericValue % 1_000_000_000).toString().padStart(9, "0");
+	const revealed = get<{ server_seed: string }>(
+		"SELECT server_seed FROM roll_seed_history WHERE server_seed_hash = ?",
+		[roll.server_seed_hash],
+	);
+	const serverSeed = revealed?.server_seed ?? null;
 
-	// Create verification hash (hash of public inputs for user verification)
-	const verificationHash = createHash("sha256")
-		.update(`${timestamp}:${userId}:${messageId}:${rollId}`)
-		.digest("hex")
-		.substring(0, 16);
+	return {
+		rollId: roll.id,
+		userId: roll.user_id,
+		clientSeed: roll.client_seed,
+		nonce: roll.nonce,
+		serverSeedHash: roll.server_seed_hash,
+		serverSeed,
+		rollNumber: roll.roll_number,
+		recomputedRoll: serverSeed
+			? computeRoll(serverSeed, roll.client_seed, roll.nonce)
+			: null,
+		seedMatchesCommitment: serverSeed
+			? createHash("sha256").update(serverSeed).digest("hex") ===
+				roll.server_seed_hash
+			: null,
+		createdAt: roll.created_at,
+	};
+}
 
-	return { rollNumber, rollId, verificationHash };
+/**
+ * Get the most recently revealed server seeds.
+ *
+ * @param limit - Number of seeds to return
+ */
+export function getRevealedSeeds(
+	limit = 5,
+): { server_seed_hash: string; server_seed: string; revealed_at: number }[] {
+	return query(
+		"SELECT server_seed_hash, server_seed, revealed_at FROM roll_seed_history ORDER BY revealed_at DESC, rowid DESC LIMIT ?",
+		[limit],
+	);
 }
 
 /**
@@ -310,26 +417,26 @@ export interface UserRollStats {
 export function getUserRollStats(userId: number): UserRollStats {
 	// Losses (user paid treasury)
 	const wagered = get<{ total: number; count: number }>(
-		`SELECT COALESCE(SUM(amount), 0) as total, COUNT(*) as count FROM transactions
+		`SELECT COALESCE(SUM(amount_ujuno), 0) as total, COUNT(*) as count FROM transactions
 		WHERE transaction_type = ? AND from_user_id = ?`,
 		[TransactionType.GAMBLING, userId],
 	);
 
 	// Wins (treasury paid user)
 	const won = get<{ total: number }>(
-		`SELECT COALESCE(SUM(amount), 0) as total FROM transactions
+		`SELECT COALESCE(SUM(amount_ujuno), 0) as total FROM transactions
 		WHERE transaction_type = ? AND to_user_id = ?`,
 		[TransactionType.GAMBLING, userId],
 	);
 
-	const totalWagered = wagered?.total || 0;
-	const totalWon = won?.total || 0;
+	const wageredMicro = wagered?.total || 0;
+	const wonMicro = won?.total || 0;
 
 	return {
 		totalRolls: wagered?.count || 0,
-		totalWagered,
-		totalWon,
-		netProfit: totalWon - totalWagered,
+		totalWagered: AmountPrecision.fromMicroJuno(wageredMicro),
+		totalWon: AmountPrecision.fromMicroJuno(wonMicro),
+		netProfit: AmountPrecision.fromMicroJuno(wonMicro - wageredMicro),
 	};
 }
 
@@ -337,9 +444,10 @@ export function getUserRollStats(userId: number): UserRollStats {
  * Registers all gambling-related commands with the bot.
  *
  * Commands registered:
- * - /roll <amount> - Roll for a chance to win 9x your bet
+ * - /roll <amount> [client seed] - Roll for a chance to win 9x your bet
  * - /rollstats - View your gambling statistics
  * - /rollodds - View game odds and rules
+ * - /verifyroll <rollId> - Recompute a past roll from its revealed seed
  *
  * @param bot - Telegraf bot instance
  */
@@ -352,7 +460,7 @@ export function registerGamblingCommands(bot: Telegraf<Context>): void {
 	 * Payout: 9x profit (10x total return including original bet)
 	 * Expected value: 0 (fair game)
 	 */
-	bot.command("roll", async (ctx) => {
+	bot.command("roll", requireChatFeature("gambling"), async (ctx) => {
 		const userId = ctx.from?.id;
 		if (!userId) return;
 
@@ -372,8 +480,8 @@ ${bold("Rules:")}
 - Win payout: 9x profit (get back 10x your bet)
 - Fair game: Expected value = 0
 
-${bold("Usage:")} ${code("/roll <amount>")}
-${bold("Example:")} ${code("/roll 5")}
+${bold("Usage:")} ${code("/roll <amount> [client seed]")}
+${bold("Example:")} ${code("/roll 5")} or ${code("/roll 5 lucky")}
 
 Limits: ${MIN_BET} - ${MAX_BET} JUNO
 Your balance: ${code(AmountPrecision.format(balance))} JUNO`,
@@ -390,6 +498,14 @@ Your balance: ${code(AmountPrecision.format(balance))} JUNO`,
 			);
 		}
 
+		// Optional client seed (the rest of the message)
+		const clientSeed = args.slice(1).join(" ").trim() || undefined;
+		if (clientSeed && clientSeed.length > MAX_CLIENT_SEED_LENGTH) {
+			return ctx.reply(
+				`Client seed can be at most ${MAX_CLIENT_SEED_LENGTH} characters.`,
+			);
+		}
+
 		// Validate bet limits
 		if (betAmount < MIN_BET) {
 			return ctx.reply(`Minimum bet is ${MIN_BET} JUNO.`);
@@ -464,13 +580,14 @@ Use ${code("/deposit")} to add funds.`,
 				);
 			}
 
-			// Generate roll using enhanced entropy sources
+			// Generate roll (commit-reveal: server seed + client seed + nonce)
 			const timestamp = ctx.message?.date || Math.floor(Date.now() / 1000);
 			const messageId = ctx.message?.message_id || 0;
 			const { rollNumber, rollId, verificationHash } = generateRollNumber(
 				timestamp,
 				userId,
 				messageId,
+				clientSeed,
 			);
 			const result = checkWin(rollNumber);
 
@@ -479,20 +596,22 @@ Use ${code("/deposit")} to add funds.`,
 
 			if (result.won) {
 				// User wins - treasury pays user the profit
-				txResult = await LedgerService.transferBetweenUsers(
+				txResult = LedgerService.transferBetweenUsers(
 					SYSTEM_USER_IDS.BOT_TREASURY,
 					userId,
 					potentialProfit,
 					`Roll win (${result.matchName}) - bet ${AmountPrecision.format(betAmount)} JUNO`,
+					{ type: TransactionType.GAMBLING },
 				);
 				newBalance = txResult.toBalance;
 			} else {
 				// User loses - user pays treasury their bet
-				txResult = await LedgerService.transferBetweenUsers(
+				txResult = LedgerService.transferBetweenUsers(
 					userId,
 					SYSTEM_USER_IDS.BOT_TREASURY,
 					betAmount,
 					`Roll loss - bet ${AmountPrecision.format(betAmount)} JUNO`,
+					{ type: TransactionType.GAMBLING },
 				);
 				newBalance = txResult.fromBalance;
 			}
@@ -512,14 +631,6 @@ Use ${code("/deposit")} to add funds.`,
 				);
 			}
 
-			// Record as gambling transaction type (update the transaction we just created)
-			execute(
-				`UPDATE transactions SET transaction_type = ?
-				WHERE (from_user_id = ? OR to_user_id = ?)
-				AND created_at = (SELECT MAX(created_at) FROM transactions WHERE from_user_id = ? OR to_user_id = ?)`,
-				[TransactionType.GAMBLING, userId, userId, userId, userId],
-			);
-
 			// Delete previous roll messages (user command + bot response) for this user
 			const chatId = ctx.chat?.id;
 			const userMsgId = ctx.message?.message_id;
@@ -551,7 +662,7 @@ Bet: ${code(AmountPrecision.format(betAmount))} JUNO
 Profit: ${bold(`+${AmountPrecision.format(potentialProfit)}`)} JUNO
 
 New balance: ${code(AmountPrecision.format(newBalance))} JUNO
-Verify: ${code(verificationHash)}`,
+Seed: ${code(verificationHash)} - verify with ${code(`/verifyroll ${rollId}`)}`,
 				);
 			} else {
 				sentMessage = await ctx.reply(
@@ -563,7 +674,7 @@ Bet: ${code(AmountPrecision.format(betAmount))} JUNO
 Lost: ${code(`-${AmountPrecision.format(betAmount)}`)} JUNO
 
 New balance: ${code(AmountPrecision.format(newBalance))} JUNO
-Verify: ${code(verificationHash)}`,
+Seed: ${code(verificationHash)} - verify with ${code(`/verifyroll ${rollId}`)}`,
 				);
 			}
 
@@ -681,20 +792,92 @@ Loss: 90% x -1 = -0.9
 Net EV: 0 (perfectly fair)
 
 ${bold("Provable Fairness:")}
-Each roll combines these entropy sources:
-- Message timestamp
-- Server nanoseconds (unpredictable)
-- Your user ID
-- Message ID
-- Global roll counter
-- Hash chain (depends on all prior rolls)
-- Server seed (committed in advance)
+Each roll is HMAC-SHA256(server seed, "client seed:nonce"):
+- Server seed: secret, its SHA-256 hash is published in advance
+- Client seed: yours (${code("/roll <amount> <seed>")}), or your user ID, message ID and timestamp
+- Nonce: the roll number (#), never reused
+The first 12 hex chars, mod 1,000,000,000, give the 9 digits.
 
 Current seed commitment:
 ${code(seedCommitment.substring(0, 32))}...
 
-Server seeds rotate hourly. Previous seeds are
-revealed so you can verify past rolls were fair.`,
+Server seeds rotate hourly. Previous seeds are revealed
+so you can check any past roll with ${code("/verifyroll <roll #>")}.`,
+		);
+	});
+
+	/**
+	 * Command: /verifyroll
+	 * Recompute a past roll from its stored inputs and revealed server seed.
+	 * Without arguments, lists the most recently revealed seeds.
+	 *
+	 * Syntax: /verifyroll [rollId]
+	 */
+	bot.command("verifyroll", async (ctx) => {
+		const arg = ctx.message?.text.split(" ")[1]?.replace("#", "");
+
+		if (!arg) {
+			const seeds = getRevealedSeeds();
+			const seedLines =
+				seeds.length > 0
+					? seeds
+							.map(
+								(seed) =>
+									`${seed.server_seed_hash.substring(0, 16)}... -> ${seed.server_seed}`,
+							)
+							.join("\n")
+					: "No seeds revealed yet.";
+			return ctx.reply(
+				fmt`${bold("Verify a Roll")}
+
+${bold("Usage:")} ${code("/verifyroll <roll #>")}
+
+${bold("Recently revealed seeds")} (commitment -> seed):
+${code(seedLines)}`,
+			);
+		}
+
+		const rollId = parseInt(arg, 10);
+		if (!Number.isInteger(rollId) || rollId < 1) {
+			return ctx.reply("Invalid roll number.");
+		}
+
+		const verification = verifyRoll(rollId);
+		if (!verification) {
+			return ctx.reply(`Roll #${rollId} not found.`);
+		}
+
+		const inputs = fmt`Player: ${code(verification.userId)}
+Client seed: ${code(verification.clientSeed)}
+Nonce: ${code(verification.nonce)}
+Seed commitment: ${code(verification.serverSeedHash)}`;
+
+		if (!verification.serverSeed) {
+			return ctx.reply(
+				fmt`${bold(`Roll #${rollId}`)}: ${code(verification.rollNumber)}
+
+${inputs}
+
+The server seed for this roll is still in use and has not been revealed yet. Seeds rotate hourly - check again after the next rotation.`,
+			);
+		}
+
+		const valid =
+			verification.seedMatchesCommitment &&
+			verification.recomputedRoll === verification.rollNumber;
+
+		return ctx.reply(
+			fmt`${bold(`Roll #${rollId}`)}: ${code(verification.rollNumber)}
+
+${inputs}
+Server seed: ${code(verification.serverSeed)}
+
+Seed matches commitment: ${verification.seedMatchesCommitment ? "yes" : "NO"}
+Recomputed roll: ${code(verification.recomputedRoll || "")}
+
+${bold(valid ? "Verified - this roll was fair." : "Verification FAILED.")}
+
+Recompute it yourself: HMAC-SHA256(key = server seed, message = "client seed:nonce"), take the first 12 hex chars as an integer, mod 1000000000.`,
 		);
 	});
 }
@@ -8,9 +8,10 @@
 import type { Context, Telegraf } from "telegraf";
 import { bold, code, fmt } from "telegraf/format";
 import { config } from "../config";
-import { execute, get, query } from "../database";
-import { ownerOnly } from "../middleware/index";
-import { LedgerService } from "../services/ledgerService";
+import { execute, get, query, withTransaction } from "../database";
+import { ownerOnly, requireChatFeature } from "../middleware/index";
+import { DEFAULT_DENOM, DenomService } from "../services/denomService";
+import { LedgerService, TransactionType } from "../services/ledgerService";
 import {
 	getGiveawayEscrowId,
 	SYSTEM_USER_IDS,
@@ -26,8 +27,9 @@ interface Giveaway {
 	id: number;
 	created_by: number;
 	funded_by: number;
-	total_amount: number;
-	amount_per_slot: number;
+	denom: string;
+	total_amount_ujuno: number;
+	amount_per_slot_ujuno: number;
 	total_slots: number;
 	claimed_slots: number;
 	chat_id: number;
@@ -96,13 +98,14 @@ Balance: ${bold(`${balance.toFixed(6)} JUNO`)}`,
 	 *
 	 * Permission: All users (funded from own balance)
 	 *             Owners/Admins can also fund from treasury
-	 * Syntax: /giveaway <amount>
+	 * Syntax: /giveaway <amount> [denom]
 	 *
 	 * Creates an open giveaway where the total amount is split into slots.
+	 * Giveaways are in JUNO unless another registered denom is given.
 	 * Users click the "Claim" button to receive their share.
 	 * Each user can only claim once per giveaway.
 	 */
-	bot.command("giveaway", async (ctx) => {
+	bot.command("giveaway", requireChatFeature("giveaways"), async (ctx) => {
 		const userId = ctx.from?.id;
 		if (!userId) return;
 
@@ -112,10 +115,10 @@ Balance: ${bold(`${balance.toFixed(6)} JUNO`)}`,
 			return ctx.reply(
 				fmt`${bold("Open Giveaway")}
 
-Usage: ${code("/giveaway <total_amount>")}
+Usage: ${code("/giveaway <total_amount> [denom]")}
 
 Example: ${code("/giveaway 100")}
-Creates a 100 JUNO giveaway. You'll then choose how many slots (10, 25, 50, or 100) to split it into.
+Creates a 100 JUNO giveaway (${code("/giveaway 100 ATOM")} gives away ATOM). You'll then choose how many slots (10, 25, 50, or 100) to split it into.
 
 ${bold("How it works:")}
 1. Enter total amount to give away
@@ -135,14 +138,24 @@ Admins/owners can also fund from treasury.`,
 			return ctx.reply("Invalid amount. Must be a positive number.");
 		}
 
+		const asset = DenomService.resolve(args[1]);
+		if (!asset) {
+			return ctx.reply(`Unknown asset ${args[1]}. See /denoms.`);
+		}
+		const { symbol, decimals } = asset;
+		// JUNO buttons keep their original format; other denoms append the symbol
+		const denomSuffix = asset.denom === DEFAULT_DENOM ? "" : `_${symbol}`;
+
 		try {
-			AmountPrecision.validateAmount(totalAmount);
+			DenomService.toBaseUnits(totalAmount, asset.denom);
 		} catch {
-			return ctx.reply("Invalid amount precision. Max 6 decimal places.");
+			return ctx.reply(
+				`Invalid amount precision. Max ${decimals} decimal places.`,
+			);
 		}
 
 		// Check user's balance
-		const userBalance = await LedgerService.getUserBalance(userId);
+		const userBalance = await LedgerService.getUserBalance(userId, asset.denom);
 		const isOwnerOrAdmin = hasRole(userId, "owner") || hasRole(userId, "admin");
 
 		// Get treasury balance for owners/admins
@@ -150,6 +163,7 @@ Admins/owners can also fund from treasury.`,
 		if (isOwnerOrAdmin) {
 			treasuryBalance = await LedgerService.getUserBalance(
 				SYSTEM_USER_IDS.BOT_TREASURY,
+				asset.denom,
 			);
 		}
 
@@ -159,9 +173,9 @@ Admins/owners can also fund from treasury.`,
 			isOwnerOrAdmin && treasuryBalance >= totalAmount;
 
 		if (!canAffordFromBalance && !canAffordFromTreasury) {
-			let msg = `Insufficient balance.\nYour balance: ${userBalance.toFixed(6)} JUNO`;
+			let msg = `Insufficient balance.\nYour balance: ${userBalance.toFixed(decimals)} ${symbol}`;
 			if (isOwnerOrAdmin) {
-				msg += `\nTreasury balance: ${treasuryBalance.toFixed(6)} JUNO`;
+				msg += `\nTreasury balance: ${treasuryBalance.toFixed(decimals)} ${symbol}`;
 			}
 			return ctx.reply(msg);
 		}
@@ -180,7 +194,10 @@ Admins/owners can also fund from treasury.`,
 		// Build slot selection keyboard
 		const slotOptions = [10, 25, 50, 100];
 		const slotInfo = slotOptions
-			.map((s) => `- ${s} slots = ${(totalAmount / s).toFixed(6)} JUNO each`)
+			.map(
+				(s) =>
+					`- ${s} slots = ${(totalAmount / s).toFixed(decimals)} ${symbol} each`,
+			)
 			.join("\n");
 
 		// Helper to create menu session after sending menu
@@ -193,11 +210,11 @@ Admins/owners can also fund from treasury.`,
 		// For owners/admins who can afford from both sources, show funding choice
 		if (isOwnerOrAdmin && canAffordFromBalance && canAffordFromTreasury) {
 			const menuMsg = await ctx.reply(
-				fmt`${bold(`Create Giveaway: ${totalAmount} JUNO`)}
+				fmt`${bold(`Create Giveaway: ${totalAmount} ${symbol}`)}
 
 Select funding source:
-Your balance: ${userBalance.toFixed(6)} JUNO
-Treasury: ${treasuryBalance.toFixed(6)} JUNO
+Your balance: ${userBalance.toFixed(decimals)} ${symbol}
+Treasury: ${treasuryBalance.toFixed(decimals)} ${symbol}
 
 (This menu expires in 30 seconds)`,
 				{
@@ -206,13 +223,13 @@ Treasury: ${treasuryBalance.toFixed(6)} JUNO
 							[
 								{
 									text: "Fund from My Balance",
-									callback_data: `giveaway_fund_${totalAmount}_self`,
+									callback_data: `giveaway_fund_${totalAmount}_self${denomSuffix}`,
 								},
 							],
 							[
 								{
 									text: "Fund from Treasury",
-									callback_data: `giveaway_fund_${totalAmount}_treasury`,
+									callback_data: `giveaway_fund_${totalAmount}_treasury${denomSuffix}`,
 								},
 							],
 							[{ text: "Cancel", callback_data: "cancel" }],
@@ -228,9 +245,9 @@ Treasury: ${treasuryBalance.toFixed(6)} JUNO
 		) {
 			// Admin can only use treasury
 			const menuMsg = await ctx.reply(
-				fmt`${bold(`Create Giveaway: ${totalAmount} JUNO`)}
+				fmt`${bold(`Create Giveaway: ${totalAmount} ${symbol}`)}
 
-Funding from Treasury (${treasuryBalance.toFixed(6)} JUNO)
+Funding from Treasury (${treasuryBalance.toFixed(decimals)} ${symbol})
 
 Select number of slots:
 ${slotInfo}
@@ -242,21 +259,21 @@ ${slotInfo}
 							[
 								{
 									text: "10 slots",
-									callback_data: `giveaway_create_${totalAmount}_10_treasury`,
+									callback_data: `giveaway_create_${totalAmount}_10_treasury${denomSuffix}`,
 								},
 								{
 									text: "25 slots",
-									callback_data: `giveaway_create_${totalAmount}_25_treasury`,
+									callback_data: `giveaway_create_${totalAmount}_25_treasury${denomSuffix}`,
 								},
 							],
 							[
 								{
 									text: "50 slots",
-									callback_data: `giveaway_create_${totalAmount}_50_treasury`,
+									callback_data: `giveaway_create_${totalAmount}_50_treasury${denomSuffix}`,
 								},
 								{
 									text: "100 slots",
-									callback_data: `giveaway_create_${totalAmount}_100_treasury`,
+									callback_data: `giveaway_create_${totalAmount}_100_treasury${denomSuffix}`,
 								},
 							],
 							[{ text: "Cancel", callback_data: "cancel" }],
@@ -268,9 +285,9 @@ ${slotInfo}
 		} else {
 			// Regular user or admin using own balance
 			const menuMsg = await ctx.reply(
-				fmt`${bold(`Create Giveaway: ${totalAmount} JUNO`)}
+				fmt`${bold(`Create Giveaway: ${totalAmount} ${symbol}`)}
 
-Funding from your balance (${userBalance.toFixed(6)} JUNO)
+Funding from your balance (${userBalance.toFixed(decimals)} ${symbol})
 
 Select number of slots:
 ${slotInfo}
@@ -282,21 +299,21 @@ ${slotInfo}
 							[
 								{
 									text: "10 slots",
-									callback_data: `giveaway_create_${totalAmount}_10_self`,
+									callback_data: `giveaway_create_${totalAmount}_10_self${denomSuffix}`,
 								},
 								{
 									text: "25 slots",
-									callback_data: `giveaway_create_${totalAmount}_25_self`,
+									callback_data: `giveaway_create_${totalAmount}_25_self${denomSuffix}`,
 								},
 							],
 							[
 								{
 									text: "50 slots",
-									callback_data: `giveaway_create_${totalAmount}_50_self`,
+									callback_data: `giveaway_create_${totalAmount}_50_self${denomSuffix}`,
 								},
 								{
 									text: "100 slots",
-									callback_data: `giveaway_create_${totalAmount}_100_self`,
+									callback_data: `giveaway_create_${totalAmount}_100_self${denomSuffix}`,
 								},
 							],
 							[{ text: "Cancel", callback_data: "cancel" }],
@@ -340,7 +357,7 @@ ${slotInfo}
 			const list = activeGiveaways
 				.map(
 					(g) =>
-						`ID ${g.id}: ${g.total_amount} JUNO (${g.claimed_slots}/${g.total_slots} claimed)`,
+						`ID ${g.id}: ${DenomService.format(g.total_amount_ujuno, g.denom)} (${g.claimed_slots}/${g.total_slots} claimed)`,
 				)
 				.join("\n");
 
@@ -373,36 +390,50 @@ Usage: ${code("/cancelgiveaway <id>")}`,
 		}
 
 		const unclaimed = giveaway.total_slots - giveaway.claimed_slots;
-		const unclaimedAmount = unclaimed * giveaway.amount_per_slot;
-
-		// Refund unclaimed amount FROM giveaway's escrow back TO the funder
-		if (unclaimedAmount > 0) {
-			const escrowId = getGiveawayEscrowId(giveawayId);
-			const refundResult = await LedgerService.transferBetweenUsers(
-				escrowId,
-				giveaway.funded_by,
-				unclaimedAmount,
-				`Refund from cancelled giveaway #${giveawayId}`,
-			);
+		const unclaimedAmount = DenomService.fromBaseUnits(
+			unclaimed * giveaway.amount_per_slot_ujuno,
+			giveaway.denom,
+		);
 
-			if (!refundResult.success) {
-				logger.error("Failed to refund giveaway funds", {
-					giveawayId,
+		// Refund and cancellation commit together
+		const refunded = withTransaction(() => {
+			// Refund unclaimed amount FROM giveaway's escrow back TO the funder
+			if (unclaimedAmount > 0) {
+				const escrowId = getGiveawayEscrowId(giveawayId);
+				const refundResult = LedgerService.transferBetweenUsers(
 					escrowId,
-					fundedBy: giveaway.funded_by,
+					giveaway.funded_by,
 					unclaimedAmount,
-				});
-				return ctx.reply(
-					"Error refunding giveaway funds. Please contact admin.",
+					`Refund from cancelled giveaway #${giveawayId}`,
+					{
+						type: TransactionType.ESCROW_RELEASE,
+						parentTransactionId: LedgerService.getEscrowLockId(escrowId),
+						denom: giveaway.denom,
+					},
 				);
+
+				if (!refundResult.success) {
+					logger.error("Failed to refund giveaway funds", {
+						giveawayId,
+						escrowId,
+						fundedBy: giveaway.funded_by,
+						unclaimedAmount,
+					});
+					return false;
+				}
 			}
-		}
 
-		// Mark as cancelled
-		execute(
-			"UPDATE giveaways SET status = 'cancelled', completed_at = ? WHERE id = ?",
-			[Math.floor(Date.now() / 1000), giveawayId],
-		);
+			// Mark as cancelled
+			execute(
+				"UPDATE giveaways SET status = 'cancelled', completed_at = ? WHERE id = ?",
+				[Math.floor(Date.now() / 1000), giveawayId],
+			);
+			return true;
+		});
+
+		if (!refunded) {
+			return ctx.reply("Error refunding giveaway funds. Please contact admin.");
+		}
 
 		const refundTarget =
 			giveaway.funded_by === SYSTEM_USER_IDS.BOT_TREASURY
@@ -419,7 +450,7 @@ Usage: ${code("/cancelgiveaway <id>")}`,
 		});
 
 		await ctx.reply(
-			`Giveaway #${giveawayId} cancelled.\n${unclaimed} unclaimed slots (${unclaimedAmount.toFixed(6)} JUNO) refunded to ${refundTarget}.`,
+			`Giveaway #${giveawayId} cancelled.\n${unclaimed} unclaimed slots (${DenomService.formatAmount(unclaimedAmount, giveaway.denom)}) refunded to ${refundTarget}.`,
 		);
 	});
 
@@ -443,22 +474,23 @@ Usage: ${code("/cancelgiveaway <id>")}`,
 			type CollectedTotal = { total: number | null };
 
 			const finesResult = query<CollectedTotal>(
-				"SELECT SUM(amount) as total FROM transactions WHERE transaction_type = ? AND status = ?",
+				"SELECT SUM(amount_ujuno) as total FROM transactions WHERE transaction_type = ? AND status = ?",
 				["fine", "completed"],
 			);
-			const totalFines = finesResult[0]?.total || 0;
+			const totalFines = AmountPrecision.fromMicroJuno(
+				finesResult[0]?.total || 0,
+			);
 
 			const bailResult = query<CollectedTotal>(
-				"SELECT SUM(amount) as total FROM transactions WHERE transaction_type = ? AND status = ?",
+				"SELECT SUM(amount_ujuno) as total FROM transactions WHERE transaction_type = ? AND status = ?",
 				["bail", "completed"],
 			);
-			const totalBail = bailResult[0]?.total || 0;
+			const totalBail = AmountPrecision.fromMicroJuno(
+				bailResult[0]?.total || 0,
+			);
 
 			// Get internal ledger total (all user balances)
-			const internalBalances = query<{ total: number | null }>(
-				"SELECT SUM(balance) as total FROM user_balances",
-			);
-			const totalUserBalances = internalBalances[0]?.total || 0;
+			const totalUserBalances = await LedgerService.getTotalUserBalance();
 
 			const msg = await ctx.reply(
 				fmt`${bold("Bot Wallet Status")}
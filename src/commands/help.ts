@@ -262,15 +262,21 @@ const helpContent: Record<string, FmtString> = {
 		bold("Wallet Commands"),
 		"\n\n",
 		"/balance (or /bal)\n",
-		"  View your current JUNO balance in the internal wallet. This shows funds available for transfers and withdrawals.\n\n",
-		"/deposit\n",
-		"  Get your unique deposit address and memo. Send JUNO from any wallet to this address with your memo to credit your account.\n\n",
+		"  View your current JUNO balance in the internal wallet, plus any other assets you hold. This shows funds available for transfers and withdrawals.\n\n",
+		"/deposit [newcode]\n",
+		"  Get the deposit address and your deposit code. Send JUNO from any wallet to this address with your code as memo to credit your account. Use newcode to replace your code.\n\n",
 		"/verifydeposit <txhash>\n",
 		"  Verify a deposit transaction and check its processing status.\n\n",
-		"/withdraw <amount> <address>\n",
-		"  Send JUNO from your internal balance to any external Juno address. Requires sufficient balance plus network fees.\n\n",
-		"/send <amount> <user> (or /transfer)\n",
-		"  Transfer JUNO to another bot user instantly with no fees. Use @username or user ID.\n\n",
+		"/claimmydeposit <txhash> [proof_txhash]\n",
+		"  Claim a deposit you sent without a valid memo by sending a small challenge amount from the same address.\n\n",
+		"/withdraw <amount> <address> [asset]\n",
+		"  Send JUNO (or another asset) from your internal balance to a Juno address in your address book. Daily and weekly limits apply; large amounts and other assets need owner approval.\n\n",
+		"/addresses, /addaddress <address> [label], /removeaddress <address>\n",
+		"  Manage the addresses you can withdraw to. New addresses can be used after a 24h delay.\n\n",
+		"/send <amount> <user> [asset] (or /transfer)\n",
+		"  Transfer JUNO (or another asset) to another bot user instantly with no fees. Use @username or user ID.\n\n",
+		"/denoms\n",
+		"  List the assets the bot accepts and their symbols.\n\n",
 		"/transactions [limit] (or /history)\n",
 		"  View your transaction history including deposits, withdrawals, transfers, and fines. Optional limit parameter (default: 10).\n\n",
 		"/checkdeposit <txhash> (or /checktx)\n",
@@ -317,18 +323,22 @@ const helpContent: Record<string, FmtString> = {
 		"  View all currently jailed users, their jail duration, remaining time, and bail amounts.\n\n",
 		"/violations\n",
 		"  View your violation history including fines, payment status, and violation reasons.\n\n",
+		"/warnings\n",
+		"  View your warnings with their reason, issuing admin and expiry. Enough active warnings lead to a jail or ban.\n\n",
 		"/viewwhitelist\n",
 		"  Display all users on the whitelist who are exempt from certain automated restrictions.\n\n",
 		"/viewblacklist\n",
 		"  Display all blacklisted users and their blacklist reasons.\n\n",
 		"/viewactions\n",
-		"  View all currently active global restrictions (no stickers, no URLs, etc) applied to the chat.",
+		"  View all currently active global restrictions (no stickers, no URLs, etc) applied to the chat.\n\n",
+		"/rules\n",
+		"  View the rules of this group and the penalty ladder for repeat violations.",
 	]),
 
 	giveaways: fmt([
 		bold("Giveaway Commands"),
 		"\n\n",
-		"/giveaway <amount>\n",
+		"/giveaway <amount> [asset]\n",
 		"  Create an open giveaway funded from your balance. After entering the amount, you'll select how many slots (10, 25, 50, or 100) to split it into. Each user can claim one slot.\n\n",
 		"  Example: ",
 		code("/giveaway 100"),
@@ -370,14 +380,16 @@ const helpContent: Record<string, FmtString> = {
 		"/verifybail <txhash>\n",
 		"  Verify an on-chain bail payment transaction.\n\n",
 		"/verifybailfor <user> <txhash>\n",
-		"  Verify an on-chain bail payment made for another user.",
+		"  Verify an on-chain bail payment made for another user.\n\n",
+		"/appeal [case] [statement]\n",
+		"  Appeal a jail, mute, fine or restriction (DM only). Without arguments, lists the cases you can appeal and your appeals. Overturned fines and bail are refunded.",
 	]),
 
 	games_roll: fmt([
 		bold("Roll Game"),
 		"\n\n",
-		"/roll <amount>\n",
-		"  Roll a 9-digit number. If the last 2+ digits match (dubs), you win 9x profit!\n\n",
+		"/roll <amount> [client seed]\n",
+		"  Roll a 9-digit number. If the last 2+ digits match (dubs), you win 9x profit! Optionally pick your own client seed for the provably-fair roll.\n\n",
 		"  ",
 		bold("Rules:"),
 		"\n",
@@ -393,6 +405,8 @@ const helpContent: Record<string, FmtString> = {
 		"  View your personal gambling statistics including total rolls, wagered, won, and net profit.\n\n",
 		"/rollodds\n",
 		"  View detailed game rules, win probabilities, and how the random number generation works.\n\n",
+		"/verifyroll <roll #>\n",
+		"  Recompute a past roll from its revealed server seed to check it was fair. Without a roll number, lists recently revealed seeds.\n\n",
 		bold("Match Types:"),
 		"\n",
 		"  - Dubs (2 match): 10% chance\n",
@@ -404,7 +418,7 @@ const helpContent: Record<string, FmtString> = {
 	games_duel: fmt([
 		bold("Duel Game"),
 		"\n\n",
-		"/duel <user> <amount>\n",
+		"/duel <user> <amount> [asset]\n",
 		"  Challenge another user to a 1v1 wager. Both players put up the same amount and winner takes all.\n\n",
 		"  ",
 		bold("How it works:"),
@@ -443,7 +457,9 @@ const helpContent: Record<string, FmtString> = {
 		"/listrestrictions <user>\n",
 		"  View all active restrictions for a user.\n\n",
 		"/removerestriction <user> <type>\n",
-		"  Remove a specific content restriction from a user.",
+		"  Remove a specific content restriction from a user.\n\n",
+		"/vouch <userId> (or reply to their join message)\n",
+		"  Let a newcomer in without verification, if the group allows vouching.",
 	]),
 
 	admin: fmt([
@@ -451,12 +467,24 @@ const helpContent: Record<string, FmtString> = {
 		"\n\n",
 		bold("Moderation:"),
 		"\n",
-		"/jail <user> <minutes> (or /silence)\n",
-		"  Jail a user by removing chat permissions for the specified duration. User can pay bail to unjail early.\n\n",
+		"/jail <user> <minutes> [network] (or /silence)\n",
+		"  Jail a user in this group for the specified duration. Add 'network' to jail them in every group. User can pay bail to unjail early.\n\n",
 		"/unjail <user> (or /unsilence)\n",
-		"  Immediately release a jailed user and restore their chat permissions.\n\n",
+		"  Immediately release a user from all jails and restore their chat permissions.\n\n",
 		"/warn <user> <reason>\n",
-		"  Issue a formal warning to a user. Increments warning count and creates a violation record.\n\n",
+		"  Issue a formal warning to a user. Reaching a warning threshold jails or bans them automatically.\n\n",
+		"/warnings <user>\n",
+		"  View a user's warnings with reason, issuing admin and expiry.\n\n",
+		"/warnconfig [threshold <warnings> <jail <minutes>|ban|off> | decay <days>]\n",
+		"  View or change the warning escalation thresholds and how many days warnings stay active.\n\n",
+		"/case <number>\n",
+		"  Show a moderation case: actor, target, reason, duration and a link to the original message.\n\n",
+		"/modlog <user>\n",
+		"  List a user's moderation history: jails, violations, warnings and list, restriction and role changes.\n\n",
+		"Appeals\n",
+		"  Users appeal cases with /appeal. Appeals are posted to the admin chat: Uphold keeps the action, Reduce halves what is left of it (and refunds half of a paid fine or bail), Overturn reverses it and refunds any fine or bail.\n\n",
+		"/floodconfig [<messages|duplicates|media> <count> <seconds> | mute <minutes>]\n",
+		"  View or change the anti-flood thresholds. Users exceeding them are muted and their burst is deleted.\n\n",
 		bold("Role Management:"),
 		"\n",
 		"/elevate <user>\n",
@@ -470,9 +498,21 @@ const helpContent: Record<string, FmtString> = {
 		"/regexhelp\n",
 		"  Display regex pattern examples for text blocking.\n\n",
 		"/addaction <type> [action]\n",
-		"  Add a global restriction that applies to all non-elevated users.\n\n",
+		"  Add a restriction for all non-elevated users in this group (every group when sent in DM).\n\n",
 		"/removeaction <type>\n",
-		"  Remove a global restriction.\n\n",
+		"  Remove a restriction from this group (network-wide when sent in DM).\n\n",
+		bold("Rules:"),
+		"\n",
+		"/addrule <type> <match|-> [ladder] [description]\n",
+		"  Add a rule for a restriction type in this group (every group when sent in DM). Ladder steps: warn, fine:<usd>, mute:<minutes>, jail:<minutes>, ban.\n\n",
+		"/editrule <id> <match|ladder|description|severity> <value>\n",
+		"  Change a rule. When several rules match, the highest severity wins.\n\n",
+		"/removerule <id>\n",
+		"  Delete a rule.\n\n",
+		bold("Group Settings:"),
+		"\n",
+		"/chatconfig [chatId] <show|list|feature|fine|adminchat|modlog|locale|captcha>\n",
+		"  View or change per-group settings: enabled features, fine overrides, admin chat, modlog channel, locale and newcomer verification (challenge type, timeout, vouching).\n\n",
 		bold("Whitelist/Blacklist:"),
 		"\n",
 		"/addwhitelist <user>\n",
@@ -480,7 +520,7 @@ const helpContent: Record<string, FmtString> = {
 		"/removewhitelist <user>\n",
 		"  Remove a user from the whitelist.\n\n",
 		"/addblacklist <user>\n",
-		"  Add a user to the blacklist (stricter moderation).\n\n",
+		"  Add a user to the blacklist. They are banned immediately and again whenever they rejoin or post.\n\n",
 		"/removeblacklist <user>\n",
 		"  Remove a user from the blacklist.\n\n",
 		bold("Game Treasury:"),
@@ -510,6 +550,14 @@ const helpContent: Record<string, FmtString> = {
 		"  Check the bot's on-chain wallet balance.\n\n",
 		"/reconcile\n",
 		"  Trigger balance reconciliation between ledger and on-chain wallet.\n\n",
+		"/ledgeraudit\n",
+		"  Recompute every balance from the ledger journal and report drift.\n\n",
+		"/maintenance [on|off] [all|deposits|withdrawals|transfers|gambling|giveaways] [reason]\n",
+		"  View or toggle the financial kill switches. Paused features are blocked with a message.\n\n",
+		"/adddenom <denom> <symbol> <decimals> [ibc_trace], /removedenom <symbol>\n",
+		"  Register an IBC or CW20 asset, or stop accepting one. Existing balances are kept.\n\n",
+		"/withdrawpolicy [limit <role> <daily> <weekly> | <setting> <value>]\n",
+		"  View or change withdrawal limits, cooldowns and the owner approval threshold.\n\n",
 		"/adjustbalance <user> <amount> [reason]\n",
 		"  Manually adjust a user's balance (positive to add, negative to subtract).\n\n",
 		bold("Game Treasury Management:"),
@@ -530,8 +578,8 @@ const helpContent: Record<string, FmtString> = {
 		"  List deposits without valid memo (held in UNCLAIMED).\n\n",
 		"/processdeposit <txhash> <userid>\n",
 		"  Manually assign an unclaimed deposit to a user.\n\n",
-		"/claimdeposit <txhash>\n",
-		"  Process a specific deposit claim.\n\n",
+		"/claimdeposit <txhash> [userid]\n",
+		"  Assign an unclaimed deposit to a user, or to the owner suggested from its memo.\n\n",
 		bold("Fines Configuration:"),
 		"\n",
 		"/setfine <type> <amount>\n",
@@ -8,19 +8,26 @@
 
 import type { Context, Telegraf } from "telegraf";
 import { bold, code, fmt, italic } from "telegraf/format";
-import { config } from "../config";
-import { execute, get } from "../database";
+import { get } from "../database";
 import { elevatedOrHigher } from "../middleware/index";
-import { JailService } from "../services/jailService";
+import { DepositCodeService } from "../services/depositCodeService";
+import { type ActiveJail, JailService } from "../services/jailService";
 import { JunoService } from "../services/junoService";
+import {
+	ModerationActionService,
+	type UnjailRequest,
+} from "../services/moderationActionService";
+import { PaymentReceiptService } from "../services/paymentReceiptService";
 import {
 	getTotalFines,
 	getUnpaidViolations,
 } from "../services/violationService";
+import { WarningService } from "../services/warningService";
 import type { User } from "../types";
 import { autoDeleteInGroup } from "../utils/autoDelete";
-import { logger, StructuredLogger } from "../utils/logger";
+import { StructuredLogger } from "../utils/logger";
 import { escapeNumber } from "../utils/markdown";
+import { AmountPrecision } from "../utils/precision";
 import {
 	formatUserIdDisplay,
 	getRemainingArgs,
@@ -55,6 +62,19 @@ function formatTimeRemaining(seconds: number): string {
 	}
 }
 
+/**
+ * Describes where a user's jails apply.
+ *
+ * @param jails - Active jails of a user
+ * @returns "all groups" for network-wide jails, otherwise the chat IDs
+ */
+function formatJailScopes(jails: { chatId: number | null }[]): string {
+	if (jails.some((jail) => jail.chatId === null)) {
+		return "all groups";
+	}
+	return jails.map((jail) => `chat ${jail.chatId}`).join(", ");
+}
+
 /**
  * Registers all jail-related commands with the bot.
  *
@@ -144,8 +164,9 @@ export function registerJailCommands(bot: Telegraf<Context>): void {
 			const parts = [bold(`Jail Status for ${userDisplay}`), "\n\n"];
 
 			// Current jail status
-			if (user.muted_until && user.muted_until > now) {
-				const timeRemaining = user.muted_until - now;
+			const mutedUntil = JailService.getJailedUntil(targetUserId);
+			if (mutedUntil !== null) {
+				const timeRemaining = mutedUntil - now;
 				const bailAmount = await JailService.calculateBailAmount(
 					Math.ceil(timeRemaining / 60),
 				);
@@ -155,7 +176,10 @@ export function registerJailCommands(bot: Telegraf<Context>): void {
 				parts.push(`Time Remaining: ${formatTimeRemaining(timeRemaining)}\n`);
 				parts.push(`Bail Amount: ${escapeNumber(bailAmount, 2)} JUNO\n`);
 				parts.push(
-					`Jailed Until: ${new Date(user.muted_until * 1000).toLocaleString()}\n\n`,
+					`Jailed Until: ${new Date(mutedUntil * 1000).toLocaleString()}\n`,
+				);
+				parts.push(
+					`Scope: ${formatJailScopes(JailService.getUserJails(targetUserId))}\n\n`,
 				);
 			} else {
 				parts.push(bold("Currently Jailed:"));
@@ -329,11 +353,14 @@ export function registerJailCommands(bot: Telegraf<Context>): void {
 		const parts = [bold("Your Status"), "\n\n"];
 		parts.push(`User: ${formatUserIdDisplay(userId)}\n`);
 		parts.push(`Role: ${user.role}\n`);
-		parts.push(`Warnings: ${user.warning_count}\n\n`);
+		parts.push(
+			`Warnings: ${WarningService.getActiveWarningCount(userId)} (see /warnings)\n\n`,
+		);
 
 		// Check if jailed
-		if (user.muted_until && user.muted_until > now) {
-			const timeRemaining = user.muted_until - now;
+		const mutedUntil = JailService.getJailedUntil(userId);
+		if (mutedUntil !== null) {
+			const timeRemaining = mutedUntil - now;
 			const bailAmount = await JailService.calculateBailAmount(
 				Math.ceil(timeRemaining / 60),
 			);
@@ -341,6 +368,9 @@ export function registerJailCommands(bot: Telegraf<Context>): void {
 			parts.push(bold("Currently Jailed"));
 			parts.push("\n");
 			parts.push(`Time remaining: ${formatTimeRemaining(timeRemaining)}\n`);
+			parts.push(
+				`Scope: ${formatJailScopes(JailService.getUserJails(userId))}\n`,
+			);
 			parts.push(`Bail amount: ${bailAmount.toFixed(2)} JUNO\n\n`);
 			parts.push("To pay bail: /paybail\n\n");
 		} else {
@@ -403,6 +433,7 @@ export function registerJailCommands(bot: Telegraf<Context>): void {
 			const userDisplay = formatUserIdDisplay(jail.id);
 
 			parts.push(`${index + 1}. ${userDisplay}\n`);
+			parts.push(`   Scope: ${formatJailScopes([jail])}\n`);
 			parts.push(`   Time: ${timeRemaining}\n`);
 			parts.push(`   Bail: ${escapeNumber(bailAmount, 2)} JUNO\n`);
 			parts.push(`   Pay: /paybailfor ${jail.id}\n\n`);
@@ -430,6 +461,7 @@ export function registerJailCommands(bot: Telegraf<Context>): void {
 	 *
 	 *      Send exactly 5.00 JUNO to:
 	 *      `juno1...`
+	 *      with your deposit code `ABCD-1234` as memo
 	 *
 	 *      After payment, send:
 	 *      /verifybail <transaction_hash>
@@ -447,7 +479,8 @@ export function registerJailCommands(bot: Telegraf<Context>): void {
 
 		const now = Math.floor(Date.now() / 1000);
 
-		if (!user.muted_until || user.muted_until <= now) {
+		const mutedUntil = JailService.getJailedUntil(userId);
+		if (mutedUntil === null) {
 			const msg = await ctx.reply(
 				fmt`You are not currently jailed. No bail required!`,
 			);
@@ -455,7 +488,7 @@ export function registerJailCommands(bot: Telegraf<Context>): void {
 			return;
 		}
 
-		const timeRemaining = user.muted_until - now;
+		const timeRemaining = mutedUntil - now;
 		const bailAmount = await JailService.calculateBailAmount(
 			Math.ceil(timeRemaining / 60),
 		);
@@ -466,7 +499,10 @@ export function registerJailCommands(bot: Telegraf<Context>): void {
 		);
 		parts.push(`Bail amount: ${escapeNumber(bailAmount, 2)} JUNO\n\n`);
 		parts.push(`Send exactly ${escapeNumber(bailAmount, 2)} JUNO to:\n`);
-		parts.push(`${code(JunoService.getPaymentAddress())}\n\n`);
+		parts.push(`${code(JunoService.getPaymentAddress())}\n`);
+		parts.push(
+			`with your deposit code ${code(DepositCodeService.getCode(userId))} as memo\n\n`,
+		);
 		parts.push("After payment, send:\n");
 		parts.push("/verifybail <transaction_hash>\n\n");
 		parts.push("Payment will release you from jail immediately!");
@@ -491,6 +527,7 @@ export function registerJailCommands(bot: Telegraf<Context>): void {
 	 *
 	 *      Send exactly 10.50 JUNO to:
 	 *      `juno1...`
+	 *      with your deposit code `ABCD-1234` as memo
 	 *
 	 *      After payment, send:
 	 *      /verifybailfor 123456 <transaction_hash>
@@ -521,7 +558,8 @@ export function registerJailCommands(bot: Telegraf<Context>): void {
 
 		const now = Math.floor(Date.now() / 1000);
 
-		if (!user.muted_until || user.muted_until <= now) {
+		const mutedUntil = JailService.getJailedUntil(targetUserId);
+		if (mutedUntil === null) {
 			const msg = await ctx.reply(
 				fmt`${formatUserIdDisplay(targetUserId)} is not currently jailed.`,
 			);
@@ -529,7 +567,7 @@ export function registerJailCommands(bot: Telegraf<Context>): void {
 			return;
 		}
 
-		const timeRemaining = user.muted_until - now;
+		const timeRemaining = mutedUntil - now;
 		const bailAmount = await JailService.calculateBailAmount(
 			Math.ceil(timeRemaining / 60),
 		);
@@ -543,7 +581,10 @@ export function registerJailCommands(bot: Telegraf<Context>): void {
 		);
 		parts.push(`Bail amount: ${escapeNumber(bailAmount, 2)} JUNO\n\n`);
 		parts.push(`Send exactly ${escapeNumber(bailAmount, 2)} JUNO to:\n`);
-		parts.push(`${code(JunoService.getPaymentAddress())}\n\n`);
+		parts.push(`${code(JunoService.getPaymentAddress())}\n`);
+		parts.push(
+			`with your deposit code ${code(DepositCodeService.getCode(payerId))} as memo\n\n`,
+		);
 		parts.push("After payment, send:\n");
 		parts.push(`/verifybailfor ${targetUserId} <transaction_hash>\n\n`);
 		parts.push("Payment will release them from jail immediately!");
@@ -586,7 +627,8 @@ export function registerJailCommands(bot: Telegraf<Context>): void {
 
 		const now = Math.floor(Date.now() / 1000);
 
-		if (!user.muted_until || user.muted_until <= now) {
+		const mutedUntil = JailService.getJailedUntil(userId);
+		if (mutedUntil === null) {
 			const msg = await ctx.reply(
 				fmt`You are not currently jailed. No bail payment needed.`,
 			);
@@ -594,76 +636,59 @@ export function registerJailCommands(bot: Telegraf<Context>): void {
 			return;
 		}
 
-		const timeRemaining = user.muted_until - now;
+		const timeRemaining = mutedUntil - now;
 		const bailAmount = await JailService.calculateBailAmount(
 			Math.ceil(timeRemaining / 60),
 		);
 
-		// Verify payment on blockchain
-		const verified = await JunoService.verifyPayment(txHash, bailAmount);
+		// Verify the payment on chain; the release and its log entry are
+		// committed together with the payment receipt
+		const release: UnjailRequest = {
+			userId,
+			source: "payment",
+			reason: "bail_paid",
+			bailAmount,
+			paidByUserId: userId,
+			paymentTx: txHash,
+		};
+		let released: ActiveJail[] = [];
+		const result = await PaymentReceiptService.redeem(
+			txHash,
+			bailAmount,
+			"bail",
+			userId,
+			userId,
+			() => {
+				released = ModerationActionService.releaseJails(release);
+			},
+		);
 
-		if (!verified) {
+		if (!result.success) {
 			const msg = await ctx.reply(
-				fmt`Payment could not be verified. Please check the transaction hash and amount.`,
+				result.error ||
+					"Payment could not be verified. Please check the transaction hash and amount.",
 			);
 			autoDeleteInGroup(ctx, msg.message_id);
 			return;
 		}
 
-		// Release from jail
-		execute(
-			"UPDATE users SET muted_until = NULL, updated_at = ? WHERE id = ?",
-			[now, userId],
-		);
-
-		// Log the bail payment event
-		JailService.logJailEvent(
-			userId,
-			"bail_paid",
-			undefined,
-			undefined,
-			bailAmount,
+		// Restore permissions in every chat the user was jailed in
+		await ModerationActionService.completeUnjail(release, released);
+		StructuredLogger.logTransaction("User released via bail payment", {
 			userId,
 			txHash,
-		);
-
-		// Restore permissions in group chat
-		if (config.groupChatId) {
-			try {
-				await bot.telegram.restrictChatMember(config.groupChatId, userId, {
-					permissions: {
-						can_send_messages: true,
-						can_send_audios: true,
-						can_send_documents: true,
-						can_send_photos: true,
-						can_send_videos: true,
-						can_send_video_notes: true,
-						can_send_voice_notes: true,
-						can_send_polls: true,
-						can_send_other_messages: true,
-						can_add_web_page_previews: true,
-						can_change_info: false,
-						can_invite_users: true,
-						can_pin_messages: false,
-						can_manage_topics: false,
-					},
-				});
-				StructuredLogger.logTransaction("User released via bail payment", {
-					userId,
-					txHash,
-					amount: bailAmount.toString(),
-					operation: "bail_payment",
-				});
-			} catch (error) {
-				logger.error("Failed to restore permissions after bail payment", {
-					userId,
-					error,
-				});
-			}
-		}
+			amount: bailAmount.toString(),
+			operation: "bail_payment",
+		});
 
 		const parts = [bold("Bail Payment Verified!"), "\n\n"];
 		parts.push("You have been released from jail.\n");
+		const overpaid = result.receipt?.overpaidMicro ?? 0;
+		if (overpaid > 0) {
+			parts.push(
+				`Overpayment of ${AmountPrecision.format(AmountPrecision.fromMicroJuno(overpaid))} JUNO will be refunded to ${result.receipt?.payerAddress}.\n`,
+			);
+		}
 		parts.push(`Transaction: ${code(txHash)}`);
 
 		const msg = await ctx.reply(fmt(parts));
@@ -729,7 +754,8 @@ export function registerJailCommands(bot: Telegraf<Context>): void {
 
 		const now = Math.floor(Date.now() / 1000);
 
-		if (!user.muted_until || user.muted_until <= now) {
+		const mutedUntil = JailService.getJailedUntil(targetUserId);
+		if (mutedUntil === null) {
 			const msg = await ctx.reply(
 				fmt`${formatUserIdDisplay(targetUserId)} is not currently jailed.`,
 			);
@@ -737,100 +763,66 @@ export function registerJailCommands(bot: Telegraf<Context>): void {
 			return;
 		}
 
-		const timeRemaining = user.muted_until - now;
+		const timeRemaining = mutedUntil - now;
 		const bailAmount = await JailService.calculateBailAmount(
 			Math.ceil(timeRemaining / 60),
 		);
 
-		// Verify payment on blockchain
-		const verified = await JunoService.verifyPayment(txHash, bailAmount);
+		// Verify the payment on chain; the release and its log entry (paid by
+		// someone else) are committed together with the payment receipt
+		const release: UnjailRequest = {
+			userId: targetUserId,
+			source: "payment",
+			reason: "bail_paid",
+			bailAmount,
+			paidByUserId: payerId,
+			paymentTx: txHash,
+		};
+		let released: ActiveJail[] = [];
+		const result = await PaymentReceiptService.redeem(
+			txHash,
+			bailAmount,
+			"bail",
+			targetUserId,
+			payerId,
+			() => {
+				released = ModerationActionService.releaseJails(release);
+			},
+		);
 
-		if (!verified) {
+		if (!result.success) {
 			const msg = await ctx.reply(
-				fmt`Payment could not be verified. Please check the transaction hash and amount.`,
+				result.error ||
+					"Payment could not be verified. Please check the transaction hash and amount.",
 			);
 			autoDeleteInGroup(ctx, msg.message_id);
 			return;
 		}
 
-		// Release from jail
-		execute(
-			"UPDATE users SET muted_until = NULL, updated_at = ? WHERE id = ?",
-			[now, targetUserId],
-		);
-
-		// Log the bail payment event (paid by someone else)
-		JailService.logJailEvent(
-			targetUserId,
-			"bail_paid",
-			undefined,
-			undefined,
-			bailAmount,
-			payerId,
-			txHash,
+		// Restore permissions in every chat the user was jailed in
+		await ModerationActionService.completeUnjail(release, released);
+		StructuredLogger.logTransaction(
+			"User released via bail payment by another user",
+			{
+				userId: targetUserId,
+				txHash,
+				amount: bailAmount.toString(),
+				operation: "bail_payment_for_other",
+				payerId: payerId,
+			},
 		);
 
-		// Restore permissions in group chat
-		if (config.groupChatId) {
-			try {
-				await bot.telegram.restrictChatMember(
-					config.groupChatId,
-					targetUserId,
-					{
-						permissions: {
-							can_send_messages: true,
-							can_send_audios: true,
-							can_send_documents: true,
-							can_send_photos: true,
-							can_send_videos: true,
-							can_send_video_notes: true,
-							can_send_voice_notes: true,
-							can_send_polls: true,
-							can_send_other_messages: true,
-							can_add_web_page_previews: true,
-							can_change_info: false,
-							can_invite_users: true,
-							can_pin_messages: false,
-							can_manage_topics: false,
-						},
-					},
-				);
-				StructuredLogger.logTransaction(
-					"User released via bail payment by another user",
-					{
-						userId: targetUserId,
-						txHash,
-						amount: bailAmount.toString(),
-						operation: "bail_payment_for_other",
-						payerId: payerId,
-					},
-				);
-			} catch (error) {
-				logger.error("Failed to restore permissions after bail payment", {
-					targetUserId,
-					error,
-				});
-			}
-		}
-
-		// Notify the released user
-		try {
-			await bot.telegram.sendMessage(
-				targetUserId,
-				`Good news! ${formatUserIdDisplay(payerId)} paid your bail of ${bailAmount.toFixed(2)} JUNO!\nYou have been released from jail.`,
-			);
-		} catch (dmError) {
-			logger.debug(
-				`Could not notify user ${targetUserId} of bail payment`,
-				dmError,
-			);
-		}
-
 		const parts = [bold("Bail Payment Verified!"), "\n\n"];
 		parts.push(
 			`${formatUserIdDisplay(targetUserId)} has been released from jail.\n`,
 		);
 		parts.push(`Paid by: ${formatUserIdDisplay(payerId)}\n`);
+		const overpaid = result.receipt?.overpaidMicro ?? 0;
+		if (overpaid > 0) {
+			parts.push(
+				`Overpayment of ${AmountPrecision.format(AmountPrecision.fromMicroJuno(overpaid))} JUNO will be refunded to ${result.receipt?.payerAddress}.\n`,
+			);
+		}
 		parts.push(`Transaction: ${code(txHash)}`);
 
 		const msg = await ctx.reply(fmt(parts));
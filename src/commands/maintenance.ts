@@ -0,0 +1,138 @@
+/**
+ * Maintenance mode command handlers for the CAC Admin Bot.
+ * Lets owners view and toggle the financial kill switches.
+ *
+ * @module commands/maintenance
+ */
+
+import type { Context, Telegraf } from "telegraf";
+import { bold, code, fmt } from "telegraf/format";
+import { ownerOnly } from "../middleware/index";
+import {
+	MAINTENANCE_LABELS,
+	MAINTENANCE_SWITCHES,
+	MaintenanceService,
+	type MaintenanceState,
+	type MaintenanceSwitch,
+} from "../services/maintenanceService";
+import { logger } from "../utils/logger";
+
+/**
+ * Formats the switches for display.
+ *
+ * @param state - Paused switches
+ * @returns One line per switch
+ */
+function formatState(state: MaintenanceState): string {
+	return MAINTENANCE_SWITCHES.map((name) => {
+		const pause = state[name];
+		if (!pause) return `${MAINTENANCE_LABELS[name]} (${name}): running`;
+
+		const since = new Date(pause.pausedAt * 1000)
+			.toISOString()
+			.replace("T", " ")
+			.slice(0, 16);
+		const by =
+			pause.pausedBy === null ? "automatically" : `by ${pause.pausedBy}`;
+		return `${MAINTENANCE_LABELS[name]} (${name}): PAUSED since ${since} UTC ${by} - ${pause.reason}`;
+	}).join("\n");
+}
+
+/**
+ * Registers the maintenance mode commands with the bot.
+ *
+ * Commands registered:
+ * - /maintenance - View or toggle the financial kill switches (owner only)
+ *
+ * @param bot - Telegraf bot instance
+ *
+ * @example
+ * ```typescript
+ * import { Telegraf } from 'telegraf';
+ * import { registerMaintenanceCommands } from './commands/maintenance';
+ *
+ * const bot = new Telegraf(process.env.BOT_TOKEN);
+ * registerMaintenanceCommands(bot);
+ * ```
+ */
+export function registerMaintenanceCommands(bot: Telegraf<Context>): void {
+	/**
+	 * Command: /maintenance
+	 * View or toggle the financial kill switches. Without a switch name, every
+	 * switch is toggled.
+	 *
+	 * Permission: Owner only
+	 * Syntax:
+	 *   /maintenance
+	 *   /maintenance on [all|<switch>] [reason]
+	 *   /maintenance off [all|<switch>]
+	 *
+	 * @example
+	 * User: /maintenance on withdrawals node upgrade
+	 * Bot: Paused: Withdrawals.
+	 */
+	bot.command("maintenance", ownerOnly, async (ctx) => {
+		const ownerId = ctx.from?.id;
+		if (!ownerId) return;
+
+		const args = ctx.message?.text.split(" ").slice(1).filter(Boolean) || [];
+		const action = args[0]?.toLowerCase();
+		const usage = fmt`${bold("Usage:")}
+${code("/maintenance")} - show switches
+${code("/maintenance on [all|<switch>] [reason]")}
+${code("/maintenance off [all|<switch>]")}
+Switches: ${MAINTENANCE_SWITCHES.join(", ")}`;
+
+		try {
+			if (!action) {
+				return ctx.reply(
+					fmt`${bold("Maintenance Mode")}
+
+${formatState(MaintenanceService.getState())}`,
+				);
+			}
+
+			if (action !== "on" && action !== "off") {
+				return ctx.reply(usage);
+			}
+
+			// The switch name is optional; anything else starts the reason
+			const target = args[1]?.toLowerCase();
+			let names: MaintenanceSwitch[] = MAINTENANCE_SWITCHES;
+			let reasonStart = 1;
+			if (target === "all") {
+				reasonStart = 2;
+			} else if (MAINTENANCE_SWITCHES.includes(target as MaintenanceSwitch)) {
+				names = [target as MaintenanceSwitch];
+				reasonStart = 2;
+			}
+
+			const labels = (changed: MaintenanceSwitch[]) =>
+				changed.map((name) => MAINTENANCE_LABELS[name]).join(", ");
+
+			if (action === "on") {
+				const reason =
+					args.slice(reasonStart).join(" ").slice(0, 200) ||
+					"scheduled maintenance";
+				const paused = MaintenanceService.pause(names, reason, ownerId);
+				return ctx.reply(
+					paused.length > 0 ? `Paused: ${labels(paused)}.` : "Already paused.",
+				);
+			}
+
+			const resumed = MaintenanceService.resume(names, ownerId);
+			return ctx.reply(
+				resumed.length > 0
+					? `Resumed: ${labels(resumed)}.`
+					: "Nothing was paused.",
+			);
+		} catch (error) {
+			logger.error("Failed to update maintenance mode", {
+				ownerId,
+				action,
+				error,
+			});
+			return ctx.reply("An error occurred while updating maintenance mode.");
+		}
+	});
+}
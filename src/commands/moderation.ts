@@ -11,9 +11,12 @@ import { bold, code, fmt } from "telegraf/format";
 import { execute, get } from "../database";
 import { adminOrHigher, ownerOnly } from "../middleware/index";
 import { JailService } from "../services/jailService";
+import { ModerationActionService } from "../services/moderationActionService";
+import { WarningService } from "../services/warningService";
 import { autoDeleteInGroup } from "../utils/autoDelete";
 import { getCommandArgs, getUserIdentifier } from "../utils/commandHelper";
 import { logger, StructuredLogger } from "../utils/logger";
+import { messageRef } from "../utils/messageLink";
 import { isImmuneToModeration } from "../utils/roles";
 import {
 	formatUserIdDisplay,
@@ -47,10 +50,12 @@ export function registerModerationCommands(bot: Telegraf<Context>): void {
 	/**
 	 * Command: /jail (alias: /silence)
 	 * Jail a user by restricting their permissions in the group.
+	 * The jail only applies to the chat it was issued in; add "network" to
+	 * jail the user in every group. Jails issued in a private chat are network-wide.
 	 *
 	 * Permission: Admin or owner
-	 * Syntax (reply): /jail <minutes>
-	 * Syntax (direct): /jail <@username|userId> <minutes>
+	 * Syntax (reply): /jail <minutes> [network]
+	 * Syntax (direct): /jail <@username|userId> <minutes> [network]
 	 *
 	 * @example
 	 * User: /jail @alice 30
@@ -84,8 +89,8 @@ export function registerModerationCommands(bot: Telegraf<Context>): void {
 		if (!userIdentifier) {
 			const msg = await ctx.reply(
 				fmt`⚠️ ${bold("Usage:")}
-• Reply to a user: ${code("/jail <minutes>")}
-• Direct: ${code("/jail <@username|userId> <minutes>")}
+• Reply to a user: ${code("/jail <minutes> [network]")}
+• Direct: ${code("/jail <@username|userId> <minutes> [network]")}
 • Alias: ${code("/silence")}`,
 			);
 			autoDeleteInGroup(ctx, msg.message_id);
@@ -100,6 +105,12 @@ export function registerModerationCommands(bot: Telegraf<Context>): void {
 
 		const minutesStr = args[0];
 		const minutes = parseInt(minutesStr, 10);
+		const isGroupChat =
+			ctx.chat?.type === "group" || ctx.chat?.type === "supergroup";
+		const networkWide =
+			!isGroupChat || ["network", "all"].includes(args[1]?.toLowerCase());
+		// null scope = every chat
+		const jailChatId = networkWide || !ctx.chat ? null : ctx.chat.id;
 
 		// Resolve username or userId to numeric ID
 		const userId = resolveUserId(userIdentifier);
@@ -158,75 +169,66 @@ Please make the bot an admin with delete permissions.`,
 			}
 		}
 
-		const mutedUntil = Math.floor(Date.now() / 1000) + minutes * 60;
-		const bailAmount = await JailService.calculateBailAmount(minutes);
+		const bailAmount = await JailService.calculateBailAmount(
+			minutes,
+			jailChatId,
+		);
 
-		// Update database
-		execute("UPDATE users SET muted_until = ?, updated_at = ? WHERE id = ?", [
-			mutedUntil,
-			Math.floor(Date.now() / 1000),
+		const result = await ModerationActionService.jail({
 			userId,
-		]);
-
-		// Log the jail event
-		JailService.logJailEvent(userId, "jailed", adminId, minutes, bailAmount);
-
-		// Actually restrict the user in Telegram (if in a group)
-		if (ctx.chat?.type === "group" || ctx.chat?.type === "supergroup") {
-			try {
-				await ctx.telegram.restrictChatMember(ctx.chat.id, userId, {
-					permissions: {
-						can_send_messages: false,
-						can_send_audios: false,
-						can_send_documents: false,
-						can_send_photos: false,
-						can_send_videos: false,
-						can_send_video_notes: false,
-						can_send_voice_notes: false,
-						can_send_polls: false,
-						can_send_other_messages: false,
-						can_add_web_page_previews: false,
-						can_change_info: false,
-						can_invite_users: false,
-						can_pin_messages: false,
-						can_manage_topics: false,
-					},
-					until_date: mutedUntil,
-				});
-				StructuredLogger.logSecurityEvent("User restricted in Telegram", {
-					userId: adminId,
-					username: ctx.from?.username,
-					operation: "jail",
-					targetUserId: userId,
-					duration: minutes,
-					amount: bailAmount.toString(),
-				});
-			} catch (error) {
-				logger.error("Failed to restrict user in Telegram", {
-					userId,
-					chatId: ctx.chat.id,
-					error,
-				});
-				const errorMsg =
-					error instanceof Error ? error.message : "Unknown error";
-				const msg = await ctx.reply(
-					fmt`⚠️ Database updated but failed to restrict user in Telegram.
-Error: ${errorMsg}
+			chatId: jailChatId,
+			source: "command",
+			reason: "manual",
+			actorId: adminId,
+			origin: messageRef(ctx),
+			durationMinutes: minutes,
+			bailAmount,
+		});
+
+		const failure = result.failures.find(
+			(f) => isGroupChat && f.chatId === ctx.chat?.id,
+		);
+		if (failure) {
+			const msg = await ctx.reply(
+				fmt`⚠️ Database updated but failed to restrict user in Telegram.
+Error: ${failure.error}
 The bot may lack admin permissions or the user may have left.`,
-				);
-				autoDeleteInGroup(ctx, msg.message_id);
-			}
+			);
+			autoDeleteInGroup(ctx, msg.message_id);
+		} else if (result.appliedChats.length > 0) {
+			StructuredLogger.logSecurityEvent("User restricted in Telegram", {
+				userId: adminId,
+				username: ctx.from?.username,
+				operation: "jail",
+				targetUserId: userId,
+				duration: minutes,
+				amount: bailAmount.toString(),
+			});
+		}
+
+		if (!result.changed) {
+			const msg = await ctx.reply(
+				fmt`🔒 User ${formatUserIdDisplay(userId)} is already jailed ${networkWide ? "in all groups " : ""}until ${new Date((result.until ?? 0) * 1000).toLocaleString()}.`,
+			);
+			autoDeleteInGroup(ctx, msg.message_id);
+			return;
 		}
 
 		const userDisplay = formatUserIdDisplay(userId);
 		const msg = await ctx.reply(
-			fmt`🔒 User ${userDisplay} has been jailed for ${minutes} minutes.
+			fmt`🔒 User ${userDisplay} has been jailed ${networkWide ? "in all groups " : ""}for ${minutes} minutes.
 Bail amount: ${bailAmount.toFixed(2)} JUNO
 
 They can pay bail using /paybail or check their status with /mystatus`,
 		);
 		autoDeleteInGroup(ctx, msg.message_id);
-		logger.info("User jailed", { adminId, userId, minutes, bailAmount });
+		logger.info("User jailed", {
+			adminId,
+			userId,
+			minutes,
+			bailAmount,
+			chatId: jailChatId ?? "network",
+		});
 	};
 
 	bot.command("jail", adminOrHigher, jailHandler);
@@ -234,7 +236,8 @@ They can pay bail using /paybail or check their status with /mystatus`,
 
 	/**
 	 * Command: /unjail (alias: /unsilence)
-	 * Release a user from jail and restore their permissions.
+	 * Release a user from every jail (per-chat and network-wide) and restore
+	 * their permissions.
 	 *
 	 * Permission: Admin or owner
 	 * Syntax: /unjail <@username|userId>
@@ -267,60 +270,39 @@ They can pay bail using /paybail or check their status with /mystatus`,
 
 		const userId = target.userId;
 
-		// Update database
-		execute(
-			"UPDATE users SET muted_until = NULL, updated_at = ? WHERE id = ?",
-			[Math.floor(Date.now() / 1000), userId],
-		);
-
-		// Log the unjail event
-		JailService.logJailEvent(userId, "unjailed", adminId);
+		const isGroupChat =
+			ctx.chat?.type === "group" || ctx.chat?.type === "supergroup";
 
-		// Restore user permissions in Telegram (if in a group)
-		if (ctx.chat?.type === "group" || ctx.chat?.type === "supergroup") {
-			try {
-				await ctx.telegram.restrictChatMember(ctx.chat.id, userId, {
-					permissions: {
-						can_send_messages: true,
-						can_send_audios: true,
-						can_send_documents: true,
-						can_send_photos: true,
-						can_send_videos: true,
-						can_send_video_notes: true,
-						can_send_voice_notes: true,
-						can_send_polls: true,
-						can_send_other_messages: true,
-						can_add_web_page_previews: true,
-						can_change_info: false,
-						can_invite_users: true,
-						can_pin_messages: false,
-						can_manage_topics: false,
-					},
-				});
-				StructuredLogger.logSecurityEvent(
-					"User permissions restored in Telegram",
-					{
-						userId: adminId,
-						username: ctx.from?.username,
-						operation: "unjail",
-						targetUserId: userId,
-					},
-				);
-			} catch (error) {
-				logger.error("Failed to restore user permissions in Telegram", {
-					userId,
-					chatId: ctx.chat.id,
-					error,
-				});
-				const errorMsg =
-					error instanceof Error ? error.message : "Unknown error";
-				const msg = await ctx.reply(
-					fmt`⚠️ Database updated but failed to restore user permissions in Telegram.
-Error: ${errorMsg}
+		// Release every jail of the user, and lift any mute in this group
+		const result = await ModerationActionService.unjail({
+			userId,
+			source: "command",
+			reason: "manual",
+			actorId: adminId,
+			origin: messageRef(ctx),
+			restoreChatId: isGroupChat ? ctx.chat?.id : undefined,
+		});
+
+		const failure = result.failures.find(
+			(f) => isGroupChat && f.chatId === ctx.chat?.id,
+		);
+		if (failure) {
+			const msg = await ctx.reply(
+				fmt`⚠️ Database updated but failed to restore user permissions in Telegram.
+Error: ${failure.error}
 The bot may lack admin permissions or the user may have left.`,
-				);
-				autoDeleteInGroup(ctx, msg.message_id);
-			}
+			);
+			autoDeleteInGroup(ctx, msg.message_id);
+		} else if (isGroupChat) {
+			StructuredLogger.logSecurityEvent(
+				"User permissions restored in Telegram",
+				{
+					userId: adminId,
+					username: ctx.from?.username,
+					operation: "unjail",
+					targetUserId: userId,
+				},
+			);
 		}
 
 		const userDisplay = formatUserIdDisplay(userId);
@@ -382,19 +364,29 @@ The bot may lack admin permissions or the user may have left.`,
 		}
 
 		// Create warning violation
-		execute(
+		const violation = execute(
 			"INSERT INTO violations (user_id, restriction, message, bail_amount) VALUES (?, ?, ?, ?)",
 			[userId, "warning", reason, 0],
 		);
 
-		execute(
-			"UPDATE users SET warning_count = warning_count + 1, updated_at = ? WHERE id = ?",
-			[Math.floor(Date.now() / 1000), userId],
+		const isGroupChat =
+			ctx.chat?.type === "group" || ctx.chat?.type === "supergroup";
+		const { activeWarnings, escalation } = await WarningService.addWarning(
+			userId,
+			reason,
+			adminId,
+			isGroupChat ? ctx.chat?.id : undefined,
+			Number(violation.lastInsertRowid),
+			messageRef(ctx),
 		);
+		const escalationText = escalation
+			? `\nEscalation: ${escalation.action === "ban" ? "banned" : `jailed for ${escalation.durationMinutes} minutes`}`
+			: "";
 
 		const msg = await ctx.reply(
 			fmt`⚠️ User ${userId} has been warned.
-Reason: ${reason}`,
+Reason: ${reason}
+Active warnings: ${activeWarnings}${escalationText}`,
 		);
 		autoDeleteInGroup(ctx, msg.message_id);
 
@@ -404,18 +396,19 @@ Reason: ${reason}`,
 				userId,
 				fmt`⚠️ You have received a warning from an admin.
 Reason: ${reason}
-Please follow the group rules.`,
+Active warnings: ${activeWarnings}
+Please follow the group rules. Use /warnings to see your warnings.`,
 			);
 		} catch (error) {
 			logger.debug("Could not send warning to user", { userId, error });
 		}
 
-		logger.info("User warned", { adminId, userId, reason });
+		logger.info("User warned", { adminId, userId, reason, activeWarnings });
 	});
 
 	/**
 	 * Command: /clearviolations
-	 * Clear all violations and reset warning count for a user.
+	 * Clear all violations and warnings for a user.
 	 *
 	 * Permission: Owner only (enforced by ownerOnly middleware)
 	 * Syntax: /clearviolations <userId>
@@ -442,10 +435,7 @@ Please follow the group rules.`,
 		const userId = target.userId;
 
 		execute("DELETE FROM violations WHERE user_id = ?", [userId]);
-		execute("UPDATE users SET warning_count = 0, updated_at = ? WHERE id = ?", [
-			Math.floor(Date.now() / 1000),
-			userId,
-		]);
+		WarningService.clearWarnings(userId);
 
 		const msg = await ctx.reply(
 			fmt`All violations cleared for @${target.username}.`,
@@ -517,7 +507,7 @@ Please follow the group rules.`,
 				)?.count || 0,
 			activeJails:
 				get<{ count: number }>(
-					"SELECT COUNT(*) as count FROM users WHERE muted_until IS NOT NULL AND muted_until > ?",
+					"SELECT COUNT(DISTINCT user_id) as count FROM user_jails WHERE muted_until > ?",
 					[now],
 				)?.count || 0,
 			totalJailEvents:
@@ -0,0 +1,103 @@
+/**
+ * Modlog command handlers for the CAC Admin Bot.
+ * Lets admins look up a moderation case and a user's moderation history.
+ *
+ * @module commands/modlog
+ */
+
+import type { Context, Telegraf } from "telegraf";
+import { bold, fmt } from "telegraf/format";
+import { adminOrHigher } from "../middleware/index";
+import { ModlogService } from "../services/modlogService";
+import { autoDeleteInGroup } from "../utils/autoDelete";
+import { formatUserIdDisplay, resolveTargetUser } from "../utils/userResolver";
+
+/**
+ * Registers modlog commands with the bot.
+ *
+ * Commands registered:
+ * - /case - Show a moderation case (admin only)
+ * - /modlog - Show a user's moderation history (admin only)
+ *
+ * @param bot - Telegraf bot instance
+ *
+ * @example
+ * ```typescript
+ * import { Telegraf } from 'telegraf';
+ * import { registerModlogCommands } from './commands/modlog';
+ *
+ * const bot = new Telegraf(process.env.BOT_TOKEN);
+ * registerModlogCommands(bot);
+ * ```
+ */
+export function registerModlogCommands(bot: Telegraf<Context>): void {
+	/**
+	 * Command: /case
+	 * Show the modlog card of a case.
+	 *
+	 * Permission: Admin or owner
+	 * Syntax: /case <number>
+	 *
+	 * @example
+	 * User: /case 42
+	 * Bot: Case #42 · Jail
+	 *      Target: @alice (123456)
+	 *      Actor: @admin (111)
+	 *      ...
+	 */
+	bot.command("case", adminOrHigher, async (ctx) => {
+		const arg = ctx.message?.text.split(" ").slice(1).filter(Boolean)[0];
+		const caseId = Number.parseInt(arg?.replace(/^#/, "") ?? "", 10);
+
+		if (Number.isNaN(caseId)) {
+			const msg = await ctx.reply("Usage: /case <number>");
+			autoDeleteInGroup(ctx, msg.message_id);
+			return;
+		}
+
+		const modCase = ModlogService.getCase(caseId);
+		const msg = await ctx.reply(
+			modCase
+				? ModlogService.formatCard(modCase)
+				: `Case #${caseId} not found.`,
+			{ link_preview_options: { is_disabled: true } },
+		);
+		autoDeleteInGroup(ctx, msg.message_id);
+	});
+
+	/**
+	 * Command: /modlog
+	 * List a user's moderation history across jail events, violations,
+	 * warnings and list, restriction and role changes.
+	 *
+	 * Permission: Admin or owner
+	 * Syntax: /modlog <@username|userId> (or reply to a user's message)
+	 *
+	 * @example
+	 * User: /modlog @alice
+	 * Bot: Modlog for @alice (123456)
+	 *      #42 · 2026-01-02 10:00 · jailed 60 min (manual) · by @admin (111) · chat -100123
+	 */
+	bot.command("modlog", adminOrHigher, async (ctx) => {
+		const args = ctx.message?.text.split(" ").slice(1).filter(Boolean) || [];
+		const target = resolveTargetUser(ctx, args);
+
+		if (!target) {
+			const msg = await ctx.reply(
+				"Usage: /modlog <@username|userId> or reply to a user's message",
+			);
+			autoDeleteInGroup(ctx, msg.message_id);
+			return;
+		}
+
+		const history = ModlogService.getUserHistory(target.userId);
+		const msg = await ctx.reply(
+			history.length === 0
+				? `${formatUserIdDisplay(target.userId)} has no moderation history.`
+				: fmt`${bold(`Modlog for ${formatUserIdDisplay(target.userId)}`)}
+
+${history.map((entry) => ModlogService.formatHistoryEntry(entry)).join("\n")}`,
+		);
+		autoDeleteInGroup(ctx, msg.message_id);
+	});
+}
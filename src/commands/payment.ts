@@ -9,16 +9,24 @@
 import type { Context, Telegraf } from "telegraf";
 import { bold, code, fmt } from "telegraf/format";
 import { config } from "../config";
-import { execute, get } from "../database";
-import { JunoService } from "../services/junoService";
+import { get, withTransaction } from "../database";
+import { DepositCodeService } from "../services/depositCodeService";
+import { EventBus } from "../services/eventBus";
+import type { ActiveJail } from "../services/jailService";
+import {
+	ModerationActionService,
+	type UnjailRequest,
+} from "../services/moderationActionService";
+import { PaymentReceiptService } from "../services/paymentReceiptService";
 import { UnifiedWalletService } from "../services/unifiedWalletService";
 import {
 	getTotalFines,
 	getUnpaidViolations,
 	markViolationPaid,
 } from "../services/violationService";
-import type { User, Violation } from "../types";
+import type { Violation } from "../types";
 import { logger, StructuredLogger } from "../utils/logger";
+import { AmountPrecision } from "../utils/precision";
 
 /**
  * Registers all payment-related commands with the bot.
@@ -161,24 +169,46 @@ Please deposit more JUNO using /deposit`,
 				);
 			}
 
-			// Use internal ledger to process fine payment
-			const result = await UnifiedWalletService.payFine(
+			// Payment, paid violations and jail release commit together
+			const release: UnjailRequest = {
 				userId,
-				totalFines,
-				`Payment for ${violations.length} violations`,
-			);
+				source: "payment",
+				reason: "fines_paid",
+			};
+			let released: ActiveJail[] = [];
+			const result = withTransaction(() => {
+				// Use internal ledger to process fine payment
+				const payment = UnifiedWalletService.payFine(
+					userId,
+					totalFines,
+					`Payment for ${violations.length} violations`,
+				);
 
-			if (result.success) {
-				// Mark all violations as paid (internal ledger transaction)
-				for (const v of violations) {
-					markViolationPaid(v.id, "internal_ledger", userId);
+				if (payment.success) {
+					// Mark all violations as paid (internal ledger transaction)
+					for (const v of violations) {
+						markViolationPaid(v.id, "internal_ledger", userId);
+					}
+
+					// Release from every jail if jailed
+					released = ModerationActionService.releaseJails(release);
 				}
 
-				// Release from jail if jailed
-				const user = get<User>("SELECT * FROM users WHERE id = ?", [userId]);
-				if (user?.muted_until && user.muted_until > Date.now() / 1000) {
-					execute("UPDATE users SET muted_until = NULL WHERE id = ?", [userId]);
+				return payment;
+			});
+
+			if (result.success) {
+				for (const v of violations) {
+					await EventBus.publish("violation.paid", {
+						violationId: v.id,
+						userId,
+						amount: v.bailAmount,
+						paidByUserId: userId,
+						paymentTx: "internal_ledger",
+						timestamp: Math.floor(Date.now() / 1000),
+					});
 				}
+				await ModerationActionService.completeUnjail(release, released);
 
 				await ctx.reply(
 					fmt`${bold("All Fines Paid!")}
@@ -240,6 +270,7 @@ Error: ${result.error || "Unknown error"}`);
 	 *
 	 *      Send exactly 2.50 JUNO to:
 	 *      `juno1...`
+	 *      with your deposit code `ABCD-1234` as memo
 	 *
 	 *      After payment, send:
 	 *      /verifypayment 1 <transaction_hash>
@@ -278,6 +309,9 @@ To pay a specific fine:
 Payment address:
 ${code(config.botTreasuryAddress || "N/A")}
 
+Memo (your deposit code):
+${code(DepositCodeService.getCode(userId))}
+
 After payment, send:
 /verifypayment <violationId> <txHash>`,
 			);
@@ -306,6 +340,7 @@ Amount: ${violation.bailAmount.toFixed(2)} JUNO
 
 Send exactly ${violation.bailAmount.toFixed(2)} JUNO to:
 ${code(config.botTreasuryAddress || "N/A")}
+with your deposit code ${code(DepositCodeService.getCode(userId))} as memo
 
 After payment, send:
 /verifypayment ${violation.id} <transaction_hash>`,
@@ -353,22 +388,36 @@ After payment, send:
 			return ctx.reply(" This fine has already been paid.");
 		}
 
-		// Verify payment on blockchain
-		const verified = await JunoService.verifyPayment(
+		// Verify the payment on chain and mark the fine paid (by the user
+		// themselves) together with its receipt
+		const result = await PaymentReceiptService.redeem(
 			txHash,
 			violation.bailAmount,
+			"fine",
+			violationId,
+			userId,
+			() => markViolationPaid(violationId, txHash, userId),
 		);
 
-		if (!verified) {
+		if (!result.success) {
 			return ctx.reply(
-				" Payment could not be verified. Please check the transaction hash.",
+				` ${result.error || "Payment could not be verified. Please check the transaction hash."}`,
 			);
 		}
 
-		// Mark as paid (paid by the user themselves)
-		markViolationPaid(violationId, txHash, userId);
+		await EventBus.publish("violation.paid", {
+			violationId,
+			userId,
+			amount: violation.bailAmount,
+			paidByUserId: userId,
+			paymentTx: txHash,
+			timestamp: Math.floor(Date.now() / 1000),
+		});
 
-		await ctx.reply(" Payment verified! Your fine has been marked as paid.");
+		const overpaid = result.receipt?.overpaidMicro ?? 0;
+		await ctx.reply(
+			` Payment verified! Your fine has been marked as paid.${overpaid > 0 ? ` The overpayment of ${AmountPrecision.format(AmountPrecision.fromMicroJuno(overpaid))} JUNO will be refunded to ${result.receipt?.payerAddress}.` : ""}`,
+		);
 		StructuredLogger.logTransaction("Payment verified", {
 			userId,
 			txHash,
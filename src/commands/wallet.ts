@@ -14,6 +14,7 @@ import {
 	handleCheckDeposit,
 	handleContributeTreasury,
 	handleFundTreasury,
+	handleLedgerAudit,
 	handleReconcile,
 	handleSend,
 	handleTransactions,
@@ -112,6 +113,16 @@ export function registerWalletCommands(bot: Telegraf<Context>): void {
 	 */
 	bot.command("reconcile", ownerOnly, handleReconcile);
 
+	/**
+	 * Command: /ledgeraudit
+	 * Recompute every balance from the journal and report drift (owner only).
+	 * Covers user, system, giveaway escrow and shared accounts.
+	 *
+	 * Permission: Owner only
+	 * Syntax: /ledgeraudit
+	 */
+	bot.command("ledgeraudit", ownerOnly, handleLedgerAudit);
+
 	/**
 	 * Command: /adjustbalance
 	 * Manually adjust the internal ledger to correct discrepancies.
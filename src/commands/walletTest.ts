@@ -8,12 +8,14 @@
 
 import type { Context, Telegraf } from "telegraf";
 import { bold, code, fmt } from "telegraf/format";
+import { config } from "../config";
 import { ownerOnly } from "../middleware";
 import { LedgerService } from "../services/ledgerService";
 import {
 	SYSTEM_USER_IDS,
 	UnifiedWalletService,
 } from "../services/unifiedWalletService";
+import { parseWithdrawalAddress } from "../utils/address";
 import { logger } from "../utils/logger";
 
 /**
@@ -148,7 +150,7 @@ Recipient balance: ${code(`${result.toBalance?.toFixed(6) || "0"} JUNO`)}`,
 		}
 
 		try {
-			const result = await UnifiedWalletService.payFine(
+			const result = UnifiedWalletService.payFine(
 				userId,
 				amount,
 				"Test fine payment",
@@ -188,12 +190,19 @@ Bot treasury balance: ${code(`${botBalance.toFixed(6)} JUNO`)}`,
 			return ctx.reply("Usage: /testwithdraw <address> <amount>");
 		}
 
-		const address = args[0];
+		const destination = parseWithdrawalAddress(
+			args[0],
+			config.allowContractWithdrawals,
+		);
 		const amount = parseFloat(args[1]);
 
-		if (!address.startsWith("juno1") || Number.isNaN(amount) || amount <= 0) {
-			return ctx.reply("Invalid parameters. Address must start with juno1");
+		if (!destination.valid) {
+			return ctx.reply(`Invalid address: ${destination.error}`);
 		}
+		if (Number.isNaN(amount) || amount <= 0) {
+			return ctx.reply("Invalid parameters. Amount must be a positive number");
+		}
+		const address = destination.address;
 
 		try {
 			const balance = await UnifiedWalletService.getBalance(userId);
@@ -315,7 +324,7 @@ ${diffText}`,
 		}
 
 		try {
-			const result = await LedgerService.processDeposit(
+			const result = LedgerService.processDeposit(
 				targetUserId,
 				amount,
 				`TEST_${Date.now()}`,
@@ -364,14 +373,14 @@ This is a simulated deposit for testing`,
 
 			const txLines: string[] = [];
 			for (const tx of transactions) {
-				const type = tx.transactionType;
+				const type = tx.transaction_type;
 				const amount = tx.amount;
 				txLines.push(`${type.toUpperCase()}: ${amount.toFixed(6)} JUNO`);
 				if (tx.description) {
 					txLines.push(`   ${tx.description}`);
 				}
-				if (tx.txHash) {
-					txLines.push(`   Hash: ${tx.txHash.substring(0, 10)}...`);
+				if (tx.tx_hash) {
+					txLines.push(`   Hash: ${tx.tx_hash.substring(0, 10)}...`);
 				}
 				txLines.push("");
 			}
@@ -404,7 +413,7 @@ ${txLines.join("\n")}`,
 
 			// 2. Simulate a deposit
 			const depositAmount = 100;
-			const depositResult = await LedgerService.processDeposit(
+			const depositResult = LedgerService.processDeposit(
 				userId,
 				depositAmount,
 				`FULLTEST_${Date.now()}`,
@@ -422,7 +431,7 @@ ${txLines.join("\n")}`,
 
 			// 3. Pay a fine
 			const fineAmount = 10;
-			const fineResult = await UnifiedWalletService.payFine(
+			const fineResult = UnifiedWalletService.payFine(
 				userId,
 				fineAmount,
 				"Test fine",
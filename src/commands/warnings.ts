@@ -0,0 +1,238 @@
+/**
+ * Warning command handlers for the CAC Admin Bot.
+ * Lets users review their warnings and admins configure the warning
+ * escalation thresholds and decay period.
+ *
+ * @module commands/warnings
+ */
+
+import type { Context, Telegraf } from "telegraf";
+import { bold, code, fmt } from "telegraf/format";
+import { adminOrHigher } from "../middleware/index";
+import {
+	WarningService,
+	type WarningSettings,
+} from "../services/warningService";
+import { autoDeleteInGroup } from "../utils/autoDelete";
+import { logger } from "../utils/logger";
+import { checkIsElevated } from "../utils/roles";
+import { formatUserIdDisplay, resolveTargetUser } from "../utils/userResolver";
+
+/**
+ * Formats the escalation settings for display.
+ *
+ * @param settings - Warning settings
+ * @returns Multi-line summary
+ */
+function formatWarningSettings(settings: WarningSettings): string {
+	const thresholds =
+		settings.thresholds.length > 0
+			? settings.thresholds
+					.map(
+						(t) =>
+							`• ${t.warnings} warnings: ${t.action === "ban" ? "ban" : `jail ${t.durationMinutes} min`}`,
+					)
+					.join("\n")
+			: "• none";
+	const decay =
+		settings.decayDays > 0
+			? `Warnings expire after ${settings.decayDays} days.`
+			: "Warnings never expire.";
+	return `${thresholds}\n\n${decay}`;
+}
+
+/**
+ * Formats a Unix timestamp as a UTC date.
+ */
+function formatDate(timestamp: number): string {
+	return new Date(timestamp * 1000)
+		.toISOString()
+		.slice(0, 16)
+		.replace("T", " ");
+}
+
+/**
+ * Registers warning commands with the bot.
+ *
+ * Commands registered:
+ * - /warnings - View your own or (elevated+) another user's warnings
+ * - /warnconfig - View or change escalation thresholds and decay (admin only)
+ *
+ * @param bot - Telegraf bot instance
+ *
+ * @example
+ * ```typescript
+ * import { Telegraf } from 'telegraf';
+ * import { registerWarningCommands } from './commands/warnings';
+ *
+ * const bot = new Telegraf(process.env.BOT_TOKEN);
+ * registerWarningCommands(bot);
+ * ```
+ */
+export function registerWarningCommands(bot: Telegraf<Context>): void {
+	/**
+	 * Command: /warnings
+	 * List active and expired warnings with reason, issuing admin and expiry.
+	 *
+	 * Permission: Anyone for their own warnings; elevated or higher for others
+	 * Syntax: /warnings [@username|userId] (or reply to a user's message)
+	 *
+	 * @example
+	 * User: /warnings @alice
+	 * Bot: Warnings for @alice (123456)
+	 *      Active: 2
+	 *      #12 Spamming - by @admin (111) - 2026-01-02 10:00, expires 2026-02-01 10:00
+	 */
+	bot.command("warnings", async (ctx) => {
+		const requesterId = ctx.from?.id;
+		if (!requesterId) return;
+
+		const args = ctx.message?.text.split(" ").slice(1).filter(Boolean) || [];
+		const isReply =
+			!!ctx.message &&
+			"reply_to_message" in ctx.message &&
+			!!ctx.message.reply_to_message;
+
+		let userId = requesterId;
+		if (args.length > 0 || isReply) {
+			const target = resolveTargetUser(ctx, args);
+			if (!target) {
+				const msg = await ctx.reply(
+					"User not found. Usage: /warnings [@username|userId]",
+				);
+				autoDeleteInGroup(ctx, msg.message_id);
+				return;
+			}
+			userId = target.userId;
+		}
+
+		if (userId !== requesterId && !checkIsElevated(requesterId)) {
+			const msg = await ctx.reply(
+				"You can only view your own warnings. Use /warnings without arguments.",
+			);
+			autoDeleteInGroup(ctx, msg.message_id);
+			return;
+		}
+
+		const now = Math.floor(Date.now() / 1000);
+		const warnings = WarningService.getWarnings(userId, true);
+		const active = warnings.filter(
+			(w) => w.expires_at === null || w.expires_at > now,
+		);
+
+		if (warnings.length === 0) {
+			const msg = await ctx.reply(
+				`${formatUserIdDisplay(userId)} has no warnings.`,
+			);
+			autoDeleteInGroup(ctx, msg.message_id);
+			return;
+		}
+
+		const lines = warnings.slice(0, 20).map((w) => {
+			const issuer =
+				w.issued_by === null ? "automatic" : formatUserIdDisplay(w.issued_by);
+			const expiry =
+				w.expires_at === null
+					? "never expires"
+					: w.expires_at > now
+						? `expires ${formatDate(w.expires_at)}`
+						: `expired ${formatDate(w.expires_at)}`;
+			return `#${w.id} ${w.reason} - by ${issuer} - ${formatDate(w.created_at)}, ${expiry}`;
+		});
+
+		const msg = await ctx.reply(
+			fmt`${bold(`Warnings for ${formatUserIdDisplay(userId)}`)}
+Active: ${active.length}
+
+${lines.join("\n")}${warnings.length > 20 ? `\n...and ${warnings.length - 20} older` : ""}`,
+		);
+		autoDeleteInGroup(ctx, msg.message_id);
+	});
+
+	/**
+	 * Command: /warnconfig
+	 * View or change the warning escalation thresholds and decay period.
+	 *
+	 * Permission: Admin or owner
+	 * Syntax:
+	 *   /warnconfig
+	 *   /warnconfig threshold <warnings> <jail <minutes>|ban|off>
+	 *   /warnconfig decay <days> (0 = never expire)
+	 *
+	 * @example
+	 * User: /warnconfig threshold 4 jail 120
+	 * Bot: 4 warnings now trigger a 120 minute jail.
+	 */
+	bot.command("warnconfig", adminOrHigher, async (ctx) => {
+		const adminId = ctx.from?.id;
+		if (!adminId) return;
+
+		const args = ctx.message?.text.split(" ").slice(1).filter(Boolean) || [];
+		const subcommand = args[0]?.toLowerCase();
+		const usage = fmt`${bold("Usage:")}
+${code("/warnconfig")} - show settings
+${code("/warnconfig threshold <warnings> <jail <minutes>|ban|off>")}
+${code("/warnconfig decay <days>")} - 0 = never expire`;
+
+		try {
+			if (!subcommand) {
+				return ctx.reply(
+					fmt`${bold("Warning Escalation")}
+
+${formatWarningSettings(WarningService.getSettings())}`,
+				);
+			}
+
+			if (subcommand === "threshold") {
+				const warnings = Number.parseInt(args[1] || "", 10);
+				const action = args[2]?.toLowerCase();
+				if (!Number.isInteger(warnings) || warnings < 1 || !action) {
+					return ctx.reply(usage);
+				}
+
+				if (action === "off") {
+					WarningService.setThreshold(warnings, null, adminId);
+					return ctx.reply(`Threshold at ${warnings} warnings removed.`);
+				}
+				if (action === "ban") {
+					WarningService.setThreshold(warnings, { action: "ban" }, adminId);
+					return ctx.reply(`${warnings} warnings now trigger a ban.`);
+				}
+				const minutes = Number.parseInt(args[3] || "", 10);
+				if (action !== "jail" || !Number.isInteger(minutes) || minutes < 1) {
+					return ctx.reply(usage);
+				}
+				WarningService.setThreshold(
+					warnings,
+					{ action: "jail", durationMinutes: minutes },
+					adminId,
+				);
+				return ctx.reply(
+					`${warnings} warnings now trigger a ${minutes} minute jail.`,
+				);
+			}
+
+			if (subcommand === "decay") {
+				const days = Number.parseInt(args[1] || "", 10);
+				if (!Number.isInteger(days) || days < 0) {
+					return ctx.reply(usage);
+				}
+				WarningService.setDecayDays(days, adminId);
+				return ctx.reply(
+					days > 0
+						? `New warnings now expire after ${days} days.`
+						: "New warnings no longer expire.",
+				);
+			}
+
+			return ctx.reply(usage);
+		} catch (error) {
+			logger.error("Failed to update warning settings", {
+				adminId,
+				subcommand,
+				error,
+			});
+			return ctx.reply("An error occurred while updating warning settings.");
+		}
+	});
+}
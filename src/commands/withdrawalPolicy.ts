@@ -0,0 +1,268 @@
+/**
+ * Withdrawal policy command handlers for the CAC Admin Bot.
+ * Lets users manage the address book they can withdraw to, and owners view
+ * and change the withdrawal limits, cooldowns and approval threshold.
+ *
+ * @module commands/withdrawalPolicy
+ */
+
+import type { Context, Telegraf } from "telegraf";
+import { bold, code, fmt } from "telegraf/format";
+import { config } from "../config";
+import { ownerOnly } from "../middleware/index";
+import {
+	type PolicyRole,
+	type PolicySetting,
+	WithdrawalPolicyService,
+	type WithdrawalPolicySettings,
+} from "../services/withdrawalPolicy";
+import { parseWithdrawalAddress } from "../utils/address";
+import { logger } from "../utils/logger";
+import { AmountPrecision } from "../utils/precision";
+
+/** Subcommand name -> setting it changes */
+const SETTINGS: Record<string, PolicySetting> = {
+	deposit_cooldown: "depositCooldownHours",
+	username_cooldown: "usernameCooldownHours",
+	address_delay: "addressDelayHours",
+	approval: "approvalThreshold",
+};
+
+const ROLES: PolicyRole[] = ["pleb", "elevated", "admin", "owner"];
+
+/**
+ * Formats a limit for display.
+ */
+function formatLimit(value: number): string {
+	return value > 0 ? `${AmountPrecision.format(value)} JUNO` : "unlimited";
+}
+
+/**
+ * Formats the withdrawal policy for display.
+ *
+ * @param settings - Policy settings
+ * @returns Multi-line summary
+ */
+function formatPolicy(settings: WithdrawalPolicySettings): string {
+	return [
+		...ROLES.map(
+			(role) =>
+				`${role}: ${formatLimit(settings.limits[role].daily)}/day, ${formatLimit(settings.limits[role].weekly)}/week`,
+		),
+		"",
+		`Deposit cooldown: ${settings.depositCooldownHours}h after first deposit`,
+		`Username cooldown: ${settings.usernameCooldownHours}h after a change`,
+		`New address delay: ${settings.addressDelayHours}h`,
+		`Owner approval above: ${settings.approvalThreshold > 0 ? `${AmountPrecision.format(settings.approvalThreshold)} JUNO` : "never"}`,
+	].join("\n");
+}
+
+/**
+ * Registers the withdrawal policy commands with the bot.
+ *
+ * Commands registered:
+ * - /addresses - List your withdrawal address book
+ * - /addaddress - Save a withdrawal address
+ * - /removeaddress - Remove a saved withdrawal address
+ * - /withdrawpolicy - View or change the withdrawal policy (owner only)
+ *
+ * @param bot - Telegraf bot instance
+ *
+ * @example
+ * ```typescript
+ * import { Telegraf } from 'telegraf';
+ * import { registerWithdrawalPolicyCommands } from './commands/withdrawalPolicy';
+ *
+ * const bot = new Telegraf(process.env.BOT_TOKEN);
+ * registerWithdrawalPolicyCommands(bot);
+ * ```
+ */
+export function registerWithdrawalPolicyCommands(bot: Telegraf<Context>): void {
+	/**
+	 * Command: /addresses
+	 * List the addresses you can withdraw to and when new ones become usable.
+	 *
+	 * Permission: Any user
+	 * Syntax: /addresses
+	 */
+	bot.command("addresses", async (ctx) => {
+		const userId = ctx.from?.id;
+		if (!userId) return;
+
+		const addresses = WithdrawalPolicyService.listAddresses(userId);
+		if (addresses.length === 0) {
+			return ctx.reply(
+				fmt`Your address book is empty. Add an address with ${code("/addaddress <juno_address> [label]")}.`,
+			);
+		}
+
+		const delay =
+			WithdrawalPolicyService.getSettings().addressDelayHours * 60 * 60;
+		const now = Math.floor(Date.now() / 1000);
+		const lines = addresses.map((entry) => {
+			const readyAt = entry.added_at + delay;
+			const status =
+				now >= readyAt
+					? "ready"
+					: `usable ${new Date(readyAt * 1000).toISOString().replace("T", " ").slice(0, 16)} UTC`;
+			return `${entry.label ? `${entry.label}: ` : ""}${entry.address} (${status})`;
+		});
+
+		return ctx.reply(
+			fmt`${bold("Withdrawal Addresses")}
+
+${lines.join("\n")}`,
+		);
+	});
+
+	/**
+	 * Command: /addaddress
+	 * Save an address to your withdrawal address book. New addresses can be
+	 * withdrawn to once the address delay has passed.
+	 *
+	 * Permission: Any user
+	 * Syntax: /addaddress <juno_address> [label]
+	 *
+	 * @example
+	 * User: /addaddress juno1abc... cold wallet
+	 * Bot: Address saved. It can be used for withdrawals in 24h.
+	 */
+	bot.command("addaddress", async (ctx) => {
+		const userId = ctx.from?.id;
+		if (!userId) return;
+
+		const args = ctx.message?.text.split(" ").slice(1).filter(Boolean) || [];
+		if (!args[0]) {
+			return ctx.reply(
+				fmt`${bold("Usage:")} ${code("/addaddress <juno_address> [label]")}`,
+			);
+		}
+		const destination = parseWithdrawalAddress(
+			args[0],
+			config.allowContractWithdrawals,
+		);
+		if (!destination.valid) {
+			return ctx.reply(`Invalid Juno address: ${destination.error}.`);
+		}
+		const address = destination.address;
+
+		try {
+			const label = args.slice(1).join(" ").slice(0, 32) || undefined;
+			const existing = WithdrawalPolicyService.getAddress(userId, address);
+			WithdrawalPolicyService.addAddress(userId, address, label);
+			if (existing) {
+				return ctx.reply("This address is already in your address book.");
+			}
+
+			const { addressDelayHours } = WithdrawalPolicyService.getSettings();
+			return ctx.reply(
+				addressDelayHours > 0
+					? `Address saved. It can be used for withdrawals in ${addressDelayHours}h.`
+					: "Address saved.",
+			);
+		} catch (error) {
+			logger.error("Failed to add withdrawal address", { userId, error });
+			return ctx.reply("An error occurred while saving the address.");
+		}
+	});
+
+	/**
+	 * Command: /removeaddress
+	 * Remove an address from your withdrawal address book.
+	 *
+	 * Permission: Any user
+	 * Syntax: /removeaddress <juno_address>
+	 */
+	bot.command("removeaddress", async (ctx) => {
+		const userId = ctx.from?.id;
+		if (!userId) return;
+
+		const address = ctx.message?.text.split(" ").slice(1).filter(Boolean)[0];
+		if (!address) {
+			return ctx.reply(
+				fmt`${bold("Usage:")} ${code("/removeaddress <juno_address>")}`,
+			);
+		}
+
+		return ctx.reply(
+			WithdrawalPolicyService.removeAddress(userId, address.toLowerCase())
+				? "Address removed."
+				: "That address is not in your address book.",
+		);
+	});
+
+	/**
+	 * Command: /withdrawpolicy
+	 * View or change the withdrawal limits, cooldowns and approval threshold.
+	 *
+	 * Permission: Owner only
+	 * Syntax:
+	 *   /withdrawpolicy
+	 *   /withdrawpolicy limit <role> <daily> <weekly>   (0 = unlimited)
+	 *   /withdrawpolicy <deposit_cooldown|username_cooldown|address_delay> <hours>
+	 *   /withdrawpolicy approval <juno>   (0 = never)
+	 *
+	 * @example
+	 * User: /withdrawpolicy limit pleb 50 200
+	 * Bot: pleb limits set to 50 JUNO/day, 200 JUNO/week.
+	 */
+	bot.command("withdrawpolicy", ownerOnly, async (ctx) => {
+		const ownerId = ctx.from?.id;
+		if (!ownerId) return;
+
+		const args = ctx.message?.text.split(" ").slice(1).filter(Boolean) || [];
+		const subcommand = args[0]?.toLowerCase();
+		const usage = fmt`${bold("Usage:")}
+${code("/withdrawpolicy")} - show policy
+${code("/withdrawpolicy limit <role> <daily> <weekly>")}
+${code("/withdrawpolicy <deposit_cooldown|username_cooldown|address_delay> <hours>")}
+${code("/withdrawpolicy approval <juno>")}
+Use 0 for no limit.`;
+
+		try {
+			if (!subcommand) {
+				return ctx.reply(
+					fmt`${bold("Withdrawal Policy")}
+
+${formatPolicy(WithdrawalPolicyService.getSettings())}`,
+				);
+			}
+
+			if (subcommand === "limit") {
+				const role = args[1]?.toLowerCase() as PolicyRole;
+				const daily = Number(args[2]);
+				const weekly = Number(args[3]);
+				if (!ROLES.includes(role) || args.length < 4) {
+					return ctx.reply(usage);
+				}
+				WithdrawalPolicyService.setLimits(role, { daily, weekly }, ownerId);
+				return ctx.reply(
+					`${role} limits set to ${formatLimit(daily)}/day, ${formatLimit(weekly)}/week.`,
+				);
+			}
+
+			const setting = SETTINGS[subcommand];
+			if (setting && args[1] !== undefined) {
+				const value = Number(args[1]);
+				WithdrawalPolicyService.setSetting(setting, value, ownerId);
+				return ctx.reply(
+					`Withdrawal policy updated: ${subcommand} = ${value}.`,
+				);
+			}
+
+			return ctx.reply(usage);
+		} catch (error) {
+			if (error instanceof Error && /must be|cannot be/.test(error.message)) {
+				return ctx.reply(error.message);
+			}
+			logger.error("Failed to update withdrawal policy", {
+				ownerId,
+				subcommand,
+				error,
+			});
+			return ctx.reply(
+				"An error occurred while updating the withdrawal policy.",
+			);
+		}
+	});
+}
@@ -31,6 +31,9 @@ interface Config {
 	/** Telegram chat ID for admin notifications */
 	adminChatId: number;
 
+	/** Telegram chat ID of the moderation log channel (0 = no modlog) */
+	modlogChatId: number;
+
 	/** Telegram group chat ID where bot operates (optional) */
 	groupChatId?: number;
 
@@ -55,6 +58,24 @@ interface Config {
 	/** Logging level (error, warn, info, debug) */
 	logLevel: string;
 
+	/** Maximum withdrawals combined into one MsgMultiSend (1 = no batching) */
+	withdrawalBatchSize: number;
+
+	/** Whether withdrawals to contract and interchain account addresses are allowed */
+	allowContractWithdrawals: boolean;
+
+	/** Whether deposits with a numeric user ID memo are still credited (transition to deposit codes) */
+	acceptLegacyDepositMemos: boolean;
+
+	/** Reconciliation mismatch in JUNO that pauses withdrawals automatically (0 = never) */
+	reconcilePauseThreshold: number;
+
+	/** Port of the local health/metrics HTTP API, bound to 127.0.0.1 (0 = disabled) */
+	httpApiPort: number;
+
+	/** Bearer token required by every HTTP API request */
+	httpApiToken?: string;
+
 	/**
 	 * Legacy fine amounts in JUNO tokens (fallback values).
 	 * Actual fines are now calculated using USD amounts from the database
@@ -95,6 +116,7 @@ export const config: Config = {
 	junoRpcUrl: process.env.JUNO_RPC_URL || "https://rpc.juno.basementnodes.ca",
 	junoApiUrl: process.env.JUNO_API_URL || "https://api.juno.basementnodes.ca",
 	adminChatId: parseInt(process.env.ADMIN_CHAT_ID || "0", 10),
+	modlogChatId: parseInt(process.env.MODLOG_CHAT_ID || "0", 10),
 	groupChatId: process.env.GROUP_CHAT_ID
 		? parseInt(process.env.GROUP_CHAT_ID, 10)
 		: undefined,
@@ -112,6 +134,16 @@ export const config: Config = {
 		process.env.BOT_TREASURY_ADDRESS || process.env.USER_FUNDS_ADDRESS,
 	databasePath: process.env.DATABASE_PATH || "./data/bot.db",
 	logLevel: process.env.LOG_LEVEL || "info",
+	withdrawalBatchSize: Math.max(
+		1,
+		parseInt(process.env.WITHDRAWAL_BATCH_SIZE || "1", 10) || 1,
+	),
+	allowContractWithdrawals: process.env.ALLOW_CONTRACT_WITHDRAWALS === "true",
+	acceptLegacyDepositMemos: process.env.ACCEPT_LEGACY_DEPOSIT_MEMOS !== "false",
+	reconcilePauseThreshold:
+		parseFloat(process.env.RECONCILE_PAUSE_THRESHOLD || "1") || 0,
+	httpApiPort: parseInt(process.env.HTTP_API_PORT || "0", 10),
+	httpApiToken: process.env.HTTP_API_TOKEN,
 	fineAmounts: {
 		sticker: 1.0,
 		url: 2.0,
@@ -135,6 +167,7 @@ export const config: Config = {
  *
  * Optional warnings:
  * - userFundsAddress/userFundsMnemonic: If not fully configured, deposit/withdrawal features will be limited
+ * - httpApiPort without httpApiToken: The HTTP API stays disabled
  *
  * @throws {Error} If BOT_TOKEN is not set
  * @throws {Error} If OWNER_ID is not set
@@ -161,4 +194,10 @@ export function validateConfig(): void {
 			"User funds wallet not fully configured - deposit/withdrawal features will be limited",
 		);
 	}
+
+	if (config.httpApiPort && !config.httpApiToken) {
+		logger.warn(
+			"HTTP_API_PORT is set but HTTP_API_TOKEN is not - health/metrics API disabled",
+		);
+	}
 }
@@ -8,6 +8,7 @@
 
 import Database from "better-sqlite3";
 import { config } from "./config";
+import { runSchemaMigrations } from "./migrations";
 import { logger } from "./utils/logger";
 
 /**
@@ -102,23 +103,72 @@ export const get = <T>(sql: string, params: unknown[] = []): T | undefined => {
 	}
 };
 
+/**
+ * Runs a unit of work in a single SQLite transaction.
+ * Every write made by `fn` commits together; if `fn` throws, all of them
+ * are rolled back and the error is rethrown. Units of work can be nested:
+ * an inner unit becomes a savepoint of the outer one, so a failing inner
+ * unit only undoes its own writes unless the error propagates.
+ *
+ * `fn` must be synchronous: async functions are rejected by the type
+ * checker, and a unit returning a promise is rolled back. The connection
+ * is shared, so a unit that waited on network I/O (Telegram, RPC) would let
+ * unrelated writes join it; do that work before the unit starts or after
+ * it commits.
+ *
+ * @template T - Result type of the unit of work
+ * @param fn - Unit of work to run
+ * @returns The value returned by `fn`
+ * @throws {TypeError} If `fn` returns a promise
+ * @throws {Error} Whatever `fn` throws, after rolling back its writes
+ *
+ * @example
+ * ```typescript
+ * withTransaction(() => {
+ *   LedgerService.transferBetweenUsers(escrowId, userId, amount);
+ *   execute('UPDATE giveaways SET claimed_slots = claimed_slots + 1 WHERE id = ?', [id]);
+ * });
+ * ```
+ */
+export const withTransaction = <T>(
+	fn: () => T extends PromiseLike<unknown> ? never : T,
+): T =>
+	db.transaction(() => {
+		const result = fn();
+		if (result instanceof Promise) {
+			throw new TypeError("A unit of work must be synchronous");
+		}
+		return result;
+	})() as T;
+
 /**
  * Initializes the database schema by creating all required tables and indexes.
  *
  * Creates the following tables:
  * - users: User profiles with roles and restriction flags
- * - user_balances: Internal ledger for user token balances
- * - transactions: Complete audit trail of all financial transactions
+ * - user_balances: Internal ledger for user token balances, per user and denom
+ * - transactions: Complete audit trail of all financial transactions (integer base units)
+ * - ledger_postings: Double-entry journal; user_balances is a cache of its sums
+ * - denoms: Registry of the assets the ledger holds (native, IBC and CW20)
  * - system_wallets: Configuration for system wallet addresses
- * - rules: Violation rule definitions
+ * - rules: Violation rules with their escalation ladders, scoped per chat
  * - violations: Tracked user violations with bail amounts
- * - jail_events: Log of jail/unjail events
+ * - warnings: Individual warnings with reason, issuing admin and expiry
+ * - jail_events: Log of jail/unjail events, scoped per chat
+ * - user_jails: Active jails per user and chat (chat 0 = network-wide)
  * - user_restrictions: Per-user message restrictions (stickers, URLs, etc.)
- * - global_restrictions: Restrictions applied to all users
- * - processed_deposits: Tracking for blockchain deposit transactions
+ * - global_restrictions: Restrictions applied to all users of a chat (or every chat)
+ * - chats: Group chats the bot moderates and their per-chat settings
+ * - captcha_challenges: Verification challenges for new members
+ * - processed_deposits: Tracking for blockchain deposit transactions, per transaction and denom
+ * - deposit_codes: Checksummed deposit memo codes, one active per user
  * - transaction_locks: Prevents double-spending during concurrent operations
+ * - withdrawal_requests: Durable queue of on-chain withdrawals
+ * - withdrawal_addresses / withdrawal_approvals: Withdrawal address book and held withdrawals
+ * - rolls / roll_seed_history: Provably-fair roll inputs and revealed server seeds
  *
- * Also creates performance indexes on commonly queried columns.
+ * Then applies pending versioned migrations (see migrations module) and
+ * creates performance indexes on commonly queried columns.
  * Safe to call multiple times - uses IF NOT EXISTS clauses.
  *
  * @throws {Error} If table creation fails
@@ -139,12 +189,18 @@ export const initDb = (): void => {
       whitelist INTEGER DEFAULT 0,
       blacklist INTEGER DEFAULT 0,
       warning_count INTEGER DEFAULT 0,
-      muted_until INTEGER,
       created_at INTEGER DEFAULT (strftime('%s', 'now')),
       updated_at INTEGER DEFAULT (strftime('%s', 'now'))
     );
   `);
 
+	// When the user's Telegram username last changed (withdrawal cooldown)
+	try {
+		db.exec(`ALTER TABLE users ADD COLUMN username_changed_at INTEGER`);
+	} catch (_e) {
+		// Column already exists, ignore
+	}
+
 	// NOTE: user_wallets table (from old HD wallet system) has been removed
 	// If migrating from an old database, that table may still exist with historical data
 	// but is no longer created or used by the current code.
@@ -152,10 +208,12 @@ export const initDb = (): void => {
 	// User balances table - Internal ledger system
 	db.exec(`
     CREATE TABLE IF NOT EXISTS user_balances (
-      user_id INTEGER PRIMARY KEY,
-      balance REAL DEFAULT 0,
+      user_id INTEGER NOT NULL,
+      denom TEXT NOT NULL DEFAULT 'ujuno',
+      balance_ujuno INTEGER NOT NULL DEFAULT 0,
       last_updated INTEGER DEFAULT (strftime('%s', 'now')),
       created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      PRIMARY KEY (user_id, denom),
       FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
     );
   `);
@@ -167,16 +225,39 @@ export const initDb = (): void => {
       transaction_type TEXT NOT NULL,
       from_user_id INTEGER,
       to_user_id INTEGER,
-      amount REAL NOT NULL,
-      balance_after REAL,
+      amount_ujuno INTEGER NOT NULL,
+      balance_after_ujuno INTEGER,
       description TEXT,
       tx_hash TEXT,
       external_address TEXT,
       status TEXT DEFAULT 'completed',
       created_at INTEGER DEFAULT (strftime('%s', 'now')),
       metadata TEXT,
+      parent_transaction_id INTEGER,
       FOREIGN KEY (from_user_id) REFERENCES users(id),
-      FOREIGN KEY (to_user_id) REFERENCES users(id)
+      FOREIGN KEY (to_user_id) REFERENCES users(id),
+      FOREIGN KEY (parent_transaction_id) REFERENCES transactions(id)
+    );
+  `);
+
+	// Link to the transaction a refund, escrow release or fee follows from
+	try {
+		db.exec(
+			`ALTER TABLE transactions ADD COLUMN parent_transaction_id INTEGER REFERENCES transactions(id)`,
+		);
+	} catch (_e) {
+		// Column already exists, ignore
+	}
+
+	// Double-entry journal: balanced postings per transaction (account 0 = external)
+	db.exec(`
+    CREATE TABLE IF NOT EXISTS ledger_postings (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      transaction_id INTEGER NOT NULL,
+      account_id INTEGER NOT NULL,
+      amount_ujuno INTEGER NOT NULL,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      FOREIGN KEY (transaction_id) REFERENCES transactions(id)
     );
   `);
 
@@ -198,10 +279,36 @@ export const initDb = (): void => {
       description TEXT,
       specific_action TEXT,
       severity INTEGER DEFAULT 1,
-      created_at INTEGER DEFAULT (strftime('%s', 'now'))
+      escalation TEXT,
+      chat_id INTEGER,
+      created_by INTEGER,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      updated_at INTEGER DEFAULT (strftime('%s', 'now'))
     );
   `);
 
+	// Rules engine columns: escalation ladder (JSON) and chat scope (NULL = every chat)
+	try {
+		db.exec(`ALTER TABLE rules ADD COLUMN escalation TEXT`);
+	} catch (_e) {
+		// Column already exists, ignore
+	}
+	try {
+		db.exec(`ALTER TABLE rules ADD COLUMN chat_id INTEGER`);
+	} catch (_e) {
+		// Column already exists, ignore
+	}
+	try {
+		db.exec(`ALTER TABLE rules ADD COLUMN created_by INTEGER`);
+	} catch (_e) {
+		// Column already exists, ignore
+	}
+	try {
+		db.exec(`ALTER TABLE rules ADD COLUMN updated_at INTEGER`);
+	} catch (_e) {
+		// Column already exists, ignore
+	}
+
 	// Enhanced violations table
 	db.exec(`
     CREATE TABLE IF NOT EXISTS violations (
@@ -221,6 +328,23 @@ export const initDb = (): void => {
     );
   `);
 
+	// Warnings, one row per warning; expired warnings no longer count towards escalation
+	db.exec(`
+    CREATE TABLE IF NOT EXISTS warnings (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      chat_id INTEGER,
+      reason TEXT NOT NULL,
+      issued_by INTEGER,
+      violation_id INTEGER,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      expires_at INTEGER,
+      FOREIGN KEY (user_id) REFERENCES users(id),
+      FOREIGN KEY (issued_by) REFERENCES users(id),
+      FOREIGN KEY (violation_id) REFERENCES violations(id) ON DELETE SET NULL
+    );
+  `);
+
 	// Jail events log table
 	db.exec(`
     CREATE TABLE IF NOT EXISTS jail_events (
@@ -234,12 +358,32 @@ export const initDb = (): void => {
       payment_tx TEXT,
       timestamp INTEGER DEFAULT (strftime('%s', 'now')),
       metadata TEXT,
+      chat_id INTEGER,
       FOREIGN KEY (user_id) REFERENCES users(id),
       FOREIGN KEY (admin_id) REFERENCES users(id),
       FOREIGN KEY (paid_by_user_id) REFERENCES users(id)
     );
   `);
 
+	// Jail events are scoped to the chat they happened in (NULL = network-wide)
+	try {
+		db.exec(`ALTER TABLE jail_events ADD COLUMN chat_id INTEGER`);
+	} catch (_e) {
+		// Column already exists, ignore
+	}
+
+	// Active jails, one row per user and chat (chat_id 0 = network-wide)
+	db.exec(`
+    CREATE TABLE IF NOT EXISTS user_jails (
+      user_id INTEGER NOT NULL,
+      chat_id INTEGER NOT NULL DEFAULT 0,
+      muted_until INTEGER NOT NULL,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      PRIMARY KEY (user_id, chat_id),
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+  `);
+
 	// Enhanced user_restrictions table with severity levels
 	db.exec(`
     CREATE TABLE IF NOT EXISTS user_restrictions (
@@ -296,7 +440,82 @@ export const initDb = (): void => {
       restricted_action TEXT,
       metadata TEXT,
       restricted_until INTEGER,
-      created_at INTEGER DEFAULT (strftime('%s', 'now'))
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      chat_id INTEGER
+    );
+  `);
+
+	// Global restrictions are scoped to one chat (NULL = every chat)
+	try {
+		db.exec(`ALTER TABLE global_restrictions ADD COLUMN chat_id INTEGER`);
+	} catch (_e) {
+		// Column already exists, ignore
+	}
+
+	// Group chats the bot moderates, with per-chat settings
+	db.exec(`
+    CREATE TABLE IF NOT EXISTS chats (
+      chat_id INTEGER PRIMARY KEY,
+      title TEXT,
+      enabled_features TEXT,
+      fine_overrides TEXT,
+      admin_chat_id INTEGER,
+      modlog_chat_id INTEGER,
+      locale TEXT NOT NULL DEFAULT 'en',
+      captcha_mode TEXT NOT NULL DEFAULT 'button',
+      captcha_timeout INTEGER NOT NULL DEFAULT 300,
+      captcha_vouching INTEGER NOT NULL DEFAULT 1,
+      active INTEGER NOT NULL DEFAULT 1,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      updated_at INTEGER DEFAULT (strftime('%s', 'now'))
+    );
+  `);
+
+	// Moderation log channel per chat
+	try {
+		db.exec(`ALTER TABLE chats ADD COLUMN modlog_chat_id INTEGER`);
+	} catch (_e) {
+		// Column already exists, ignore
+	}
+
+	// Newcomer verification settings per chat
+	try {
+		db.exec(
+			`ALTER TABLE chats ADD COLUMN captcha_mode TEXT NOT NULL DEFAULT 'button'`,
+		);
+	} catch (_e) {
+		// Column already exists, ignore
+	}
+	try {
+		db.exec(
+			`ALTER TABLE chats ADD COLUMN captcha_timeout INTEGER NOT NULL DEFAULT 300`,
+		);
+	} catch (_e) {
+		// Column already exists, ignore
+	}
+	try {
+		db.exec(
+			`ALTER TABLE chats ADD COLUMN captcha_vouching INTEGER NOT NULL DEFAULT 1`,
+		);
+	} catch (_e) {
+		// Column already exists, ignore
+	}
+
+	// Pending and resolved newcomer verification challenges
+	db.exec(`
+    CREATE TABLE IF NOT EXISTS captcha_challenges (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      chat_id INTEGER NOT NULL,
+      user_id INTEGER NOT NULL,
+      username TEXT,
+      challenge_type TEXT NOT NULL,
+      answer TEXT NOT NULL,
+      message_id INTEGER,
+      status TEXT NOT NULL DEFAULT 'pending',
+      resolved_by INTEGER,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      expires_at INTEGER NOT NULL,
+      resolved_at INTEGER
     );
   `);
 
@@ -304,7 +523,8 @@ export const initDb = (): void => {
 	db.exec(`
     CREATE TABLE IF NOT EXISTS processed_deposits (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
-      tx_hash TEXT NOT NULL UNIQUE,
+      tx_hash TEXT NOT NULL,
+      denom TEXT NOT NULL DEFAULT 'ujuno',
       user_id INTEGER,
       amount REAL NOT NULL,
       from_address TEXT NOT NULL,
@@ -314,6 +534,43 @@ export const initDb = (): void => {
       processed_at INTEGER,
       error TEXT,
       created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      UNIQUE (tx_hash, denom),
+      FOREIGN KEY (user_id) REFERENCES users(id)
+    );
+  `);
+
+	// Owner suggested for an unclaimed deposit whose memo was mistyped
+	try {
+		db.exec(
+			`ALTER TABLE processed_deposits ADD COLUMN suggested_user_id INTEGER REFERENCES users(id)`,
+		);
+	} catch (_e) {
+		// Column already exists, ignore
+	}
+
+	// Self-service claim of an unclaimed deposit: the claimant proves they own
+	// the sending address by sending the challenge amount from it
+	for (const column of [
+		"claim_user_id INTEGER REFERENCES users(id)",
+		"claim_challenge_ujuno INTEGER",
+		"claim_expires_at INTEGER",
+		"claim_status TEXT",
+		"claim_proof_tx_hash TEXT",
+	]) {
+		try {
+			db.exec(`ALTER TABLE processed_deposits ADD COLUMN ${column}`);
+		} catch (_e) {
+			// Column already exists, ignore
+		}
+	}
+
+	// Deposit codes routing deposits by memo (one active code per user)
+	db.exec(`
+    CREATE TABLE IF NOT EXISTS deposit_codes (
+      code TEXT PRIMARY KEY,
+      user_id INTEGER NOT NULL,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      revoked_at INTEGER,
       FOREIGN KEY (user_id) REFERENCES users(id)
     );
   `);
@@ -372,8 +629,8 @@ export const initDb = (): void => {
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       created_by INTEGER NOT NULL,
       funded_by INTEGER NOT NULL,
-      total_amount REAL NOT NULL,
-      amount_per_slot REAL NOT NULL,
+      total_amount_ujuno INTEGER NOT NULL,
+      amount_per_slot_ujuno INTEGER NOT NULL,
       total_slots INTEGER NOT NULL,
       claimed_slots INTEGER DEFAULT 0,
       chat_id INTEGER NOT NULL,
@@ -392,7 +649,7 @@ export const initDb = (): void => {
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       giveaway_id INTEGER NOT NULL,
       user_id INTEGER NOT NULL,
-      amount REAL NOT NULL,
+      amount_ujuno INTEGER NOT NULL,
       claimed_at INTEGER DEFAULT (strftime('%s', 'now')),
       UNIQUE(giveaway_id, user_id),
       FOREIGN KEY (giveaway_id) REFERENCES giveaways(id) ON DELETE CASCADE,
@@ -462,7 +719,7 @@ export const initDb = (): void => {
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       challenger_id INTEGER NOT NULL,
       opponent_id INTEGER NOT NULL,
-      wager_amount REAL NOT NULL,
+      wager_amount_ujuno INTEGER NOT NULL,
       loser_consequence TEXT NOT NULL DEFAULT 'none',
       consequence_duration INTEGER,
       consequence_action TEXT,
@@ -485,6 +742,187 @@ export const initDb = (): void => {
     );
   `);
 
+	// Durable withdrawal queue - requests move requested -> signed -> broadcast
+	// -> confirmed/failed; the signed transaction is stored before broadcast so
+	// a restart resumes with the same bytes and never pays twice
+	db.exec(`
+    CREATE TABLE IF NOT EXISTS withdrawal_requests (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      to_address TEXT NOT NULL,
+      amount_ujuno INTEGER NOT NULL,
+      ledger_transaction_id INTEGER,
+      status TEXT NOT NULL DEFAULT 'requested' CHECK(status IN ('requested', 'signed', 'broadcast', 'confirmed', 'failed')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at INTEGER NOT NULL DEFAULT 0,
+      sequence INTEGER,
+      signed_tx TEXT,
+      tx_hash TEXT,
+      fee_ujuno INTEGER,
+      last_error TEXT,
+      broadcast_at INTEGER,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      updated_at INTEGER DEFAULT (strftime('%s', 'now')),
+      FOREIGN KEY (user_id) REFERENCES users(id),
+      FOREIGN KEY (ledger_transaction_id) REFERENCES transactions(id)
+    );
+  `);
+
+	// Withdrawal address book - a new address can only be withdrawn to once
+	// the withdrawal policy's address delay has passed since it was added
+	db.exec(`
+    CREATE TABLE IF NOT EXISTS withdrawal_addresses (
+      user_id INTEGER NOT NULL,
+      address TEXT NOT NULL,
+      label TEXT,
+      added_at INTEGER DEFAULT (strftime('%s', 'now')),
+      PRIMARY KEY (user_id, address),
+      FOREIGN KEY (user_id) REFERENCES users(id)
+    );
+  `);
+
+	// Withdrawals above the approval threshold, held until an owner decides
+	db.exec(`
+    CREATE TABLE IF NOT EXISTS withdrawal_approvals (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      to_address TEXT NOT NULL,
+      amount_ujuno INTEGER NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'approved', 'rejected', 'expired')),
+      decision TEXT,
+      decided_by INTEGER,
+      decided_at INTEGER,
+      chat_id INTEGER,
+      message_id INTEGER,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      FOREIGN KEY (user_id) REFERENCES users(id),
+      FOREIGN KEY (decided_by) REFERENCES users(id)
+    );
+  `);
+
+	// Provably-fair rolls - inputs of every roll so it can be recomputed
+	// once its server seed is revealed (id is the global roll counter, also
+	// used as the nonce)
+	db.exec(`
+    CREATE TABLE IF NOT EXISTS rolls (
+      id INTEGER PRIMARY KEY,
+      user_id INTEGER NOT NULL,
+      server_seed_hash TEXT NOT NULL,
+      client_seed TEXT NOT NULL,
+      nonce INTEGER NOT NULL,
+      roll_number TEXT NOT NULL,
+      created_at INTEGER DEFAULT (strftime('%s', 'now'))
+    );
+  `);
+
+	// Revealed roll server seeds (the active seed stays secret in system_state)
+	db.exec(`
+    CREATE TABLE IF NOT EXISTS roll_seed_history (
+      server_seed_hash TEXT PRIMARY KEY,
+      server_seed TEXT NOT NULL,
+      revealed_at INTEGER DEFAULT (strftime('%s', 'now'))
+    );
+  `);
+
+	// Asset registry; amounts of every asset are stored in its base units
+	db.exec(`
+    CREATE TABLE IF NOT EXISTS denoms (
+      denom TEXT PRIMARY KEY,
+      symbol TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      decimals INTEGER NOT NULL,
+      ibc_trace TEXT,
+      enabled INTEGER NOT NULL DEFAULT 1,
+      added_by INTEGER,
+      created_at INTEGER DEFAULT (strftime('%s', 'now'))
+    );
+    INSERT OR IGNORE INTO denoms (denom, symbol, decimals) VALUES ('ujuno', 'JUNO', 6);
+  `);
+
+	// On-chain payments used to settle fines and bail; each payment message
+	// can be used once
+	db.exec(`
+    CREATE TABLE IF NOT EXISTS payment_receipts (
+      tx_hash TEXT NOT NULL,
+      msg_index INTEGER NOT NULL,
+      payer_address TEXT,
+      amount_ujuno INTEGER NOT NULL,
+      applied_to TEXT NOT NULL,
+      applied_ref INTEGER,
+      applied_ujuno INTEGER NOT NULL,
+      overpaid_ujuno INTEGER NOT NULL DEFAULT 0,
+      refund_request_id INTEGER,
+      redeemed_by INTEGER NOT NULL,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      PRIMARY KEY (tx_hash, msg_index)
+    );
+  `);
+
+	// Moderation cases posted to the modlog channel; the ID is the case number
+	db.exec(`
+    CREATE TABLE IF NOT EXISTS moderation_cases (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      action TEXT NOT NULL,
+      user_id INTEGER NOT NULL,
+      actor_id INTEGER,
+      chat_id INTEGER,
+      reason TEXT,
+      duration_minutes INTEGER,
+      amount REAL,
+      jail_event_id INTEGER,
+      violation_id INTEGER,
+      origin_chat_id INTEGER,
+      origin_message_id INTEGER,
+      modlog_chat_id INTEGER,
+      modlog_message_id INTEGER,
+      created_at INTEGER DEFAULT (strftime('%s', 'now'))
+    );
+  `);
+
+	// Denom of ledger rows; the *_ujuno columns hold base units of this denom
+	for (const table of [
+		"transactions",
+		"ledger_postings",
+		"processed_deposits",
+		"withdrawal_requests",
+		"withdrawal_approvals",
+		"giveaways",
+		"duels",
+	]) {
+		try {
+			db.exec(
+				`ALTER TABLE ${table} ADD COLUMN denom TEXT NOT NULL DEFAULT 'ujuno'`,
+			);
+		} catch (_e) {
+			// Column already exists, ignore
+		}
+	}
+
+	// Convert legacy data before indexes reference the current columns
+	runSchemaMigrations(db);
+
+	// Appeals against moderation cases, decided from the admin chat
+	db.exec(`
+    CREATE TABLE IF NOT EXISTS appeals (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      case_id INTEGER NOT NULL,
+      user_id INTEGER NOT NULL,
+      statement TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'upheld', 'reduced', 'overturned')),
+      outcome TEXT,
+      refund_ujuno INTEGER NOT NULL DEFAULT 0,
+      refund_user_id INTEGER,
+      refund_transaction_id INTEGER,
+      decided_by INTEGER,
+      decided_at INTEGER,
+      chat_id INTEGER,
+      message_id INTEGER,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      FOREIGN KEY (case_id) REFERENCES moderation_cases(id),
+      FOREIGN KEY (user_id) REFERENCES users(id),
+      FOREIGN KEY (decided_by) REFERENCES users(id)
+    );
+  `);
+
 	// Create indexes for performance
 	db.exec(`
     CREATE INDEX IF NOT EXISTS idx_users_role ON users(role);
@@ -492,25 +930,41 @@ export const initDb = (): void => {
     CREATE INDEX IF NOT EXISTS idx_users_username ON users(username);
     CREATE INDEX IF NOT EXISTS idx_violations_user ON violations(user_id);
     CREATE INDEX IF NOT EXISTS idx_violations_paid ON violations(paid);
+    CREATE INDEX IF NOT EXISTS idx_violations_rule ON violations(rule_id, user_id);
+    CREATE INDEX IF NOT EXISTS idx_rules_type ON rules(type);
+    CREATE INDEX IF NOT EXISTS idx_warnings_user ON warnings(user_id, expires_at);
     CREATE INDEX IF NOT EXISTS idx_restrictions_user ON user_restrictions(user_id);
     CREATE INDEX IF NOT EXISTS idx_restrictions_until ON user_restrictions(restricted_until);
     CREATE INDEX IF NOT EXISTS idx_jail_events_user ON jail_events(user_id);
     CREATE INDEX IF NOT EXISTS idx_jail_events_type ON jail_events(event_type);
+    CREATE INDEX IF NOT EXISTS idx_jail_events_chat ON jail_events(chat_id);
+    CREATE INDEX IF NOT EXISTS idx_moderation_cases_user ON moderation_cases(user_id, created_at);
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_appeals_active ON appeals(case_id, user_id) WHERE status = 'pending';
+    CREATE INDEX IF NOT EXISTS idx_user_jails_until ON user_jails(muted_until);
+    CREATE INDEX IF NOT EXISTS idx_user_jails_chat ON user_jails(chat_id);
+    CREATE INDEX IF NOT EXISTS idx_global_restrictions_chat ON global_restrictions(chat_id);
+    CREATE INDEX IF NOT EXISTS idx_captcha_pending ON captcha_challenges(status, expires_at);
+    CREATE INDEX IF NOT EXISTS idx_captcha_member ON captcha_challenges(chat_id, user_id);
+    CREATE INDEX IF NOT EXISTS idx_withdrawal_approvals_status ON withdrawal_approvals(status, created_at);
 
     -- Ledger system indexes
-    CREATE INDEX IF NOT EXISTS idx_user_balances_balance ON user_balances(balance);
+    CREATE INDEX IF NOT EXISTS idx_user_balances_balance ON user_balances(balance_ujuno);
     CREATE INDEX IF NOT EXISTS idx_transactions_from_user ON transactions(from_user_id);
     CREATE INDEX IF NOT EXISTS idx_transactions_to_user ON transactions(to_user_id);
     CREATE INDEX IF NOT EXISTS idx_transactions_type ON transactions(transaction_type);
     CREATE INDEX IF NOT EXISTS idx_transactions_status ON transactions(status);
     CREATE INDEX IF NOT EXISTS idx_transactions_created ON transactions(created_at);
     CREATE INDEX IF NOT EXISTS idx_transactions_tx_hash ON transactions(tx_hash);
+    CREATE INDEX IF NOT EXISTS idx_transactions_parent ON transactions(parent_transaction_id);
+    CREATE INDEX IF NOT EXISTS idx_ledger_postings_account ON ledger_postings(account_id);
+    CREATE INDEX IF NOT EXISTS idx_ledger_postings_transaction ON ledger_postings(transaction_id);
 
     -- Processed deposits indexes
     CREATE INDEX IF NOT EXISTS idx_processed_deposits_tx_hash ON processed_deposits(tx_hash);
     CREATE INDEX IF NOT EXISTS idx_processed_deposits_user ON processed_deposits(user_id);
     CREATE INDEX IF NOT EXISTS idx_processed_deposits_processed ON processed_deposits(processed);
     CREATE INDEX IF NOT EXISTS idx_processed_deposits_height ON processed_deposits(height);
+    CREATE INDEX IF NOT EXISTS idx_deposit_codes_user ON deposit_codes(user_id, revoked_at);
 
     -- Shared accounts indexes
     CREATE INDEX IF NOT EXISTS idx_shared_accounts_name ON shared_accounts(name);
@@ -532,6 +986,14 @@ export const initDb = (): void => {
     CREATE INDEX IF NOT EXISTS idx_duels_opponent ON duels(opponent_id);
     CREATE INDEX IF NOT EXISTS idx_duels_status ON duels(status);
     CREATE INDEX IF NOT EXISTS idx_duels_expires ON duels(expires_at);
+
+    -- Withdrawal queue indexes
+    CREATE INDEX IF NOT EXISTS idx_withdrawal_requests_status ON withdrawal_requests(status, next_attempt_at);
+    CREATE INDEX IF NOT EXISTS idx_withdrawal_requests_tx_hash ON withdrawal_requests(tx_hash);
+
+    -- Roll indexes
+    CREATE INDEX IF NOT EXISTS idx_rolls_user ON rolls(user_id);
+    CREATE INDEX IF NOT EXISTS idx_rolls_seed ON rolls(server_seed_hash);
   `);
 
 	logger.info("Database initialized successfully");
@@ -2,6 +2,8 @@
  * Global action restriction handlers for the CAC Admin Bot.
  * Manages global restrictions that apply to all users in the chat,
  * such as disabling certain sticker packs, URLs, or message patterns.
+ * Actions added in a group only apply to that group; actions added from a
+ * private chat apply network-wide.
  *
  * @module handlers/actions
  */
@@ -12,6 +14,16 @@ import { adminOrHigher } from "../middleware";
 import type { GlobalAction } from "../types";
 import { StructuredLogger } from "../utils/logger";
 
+/**
+ * Chat an action command applies to: the group it was issued in, or null
+ * (network-wide) when issued from a private chat.
+ */
+function getActionScope(ctx: Context): number | null {
+	const isGroupChat =
+		ctx.chat?.type === "group" || ctx.chat?.type === "supergroup";
+	return isGroupChat && ctx.chat ? ctx.chat.id : null;
+}
+
 /**
  * Registers all global action restriction command handlers with the bot.
  * Provides commands to manage restrictions that affect all users.
@@ -33,6 +45,7 @@ export const registerActionHandlers = (bot: Telegraf<Context>) => {
 	/**
 	 * Command handler for /viewactions.
 	 * Displays all currently active global restrictions.
+	 * In a group only that group's and network-wide actions are listed.
 	 *
 	 * Permission: All users can view
 	 *
@@ -43,7 +56,16 @@ export const registerActionHandlers = (bot: Telegraf<Context>) => {
 	 */
 	bot.command("viewactions", async (ctx) => {
 		try {
-			const actions = query<GlobalAction>("SELECT * FROM global_restrictions");
+			const scope = getActionScope(ctx);
+			const columns =
+				"id, chat_id as chatId, restriction, restricted_action as restrictedAction";
+			const actions =
+				scope === null
+					? query<GlobalAction>(`SELECT ${columns} FROM global_restrictions`)
+					: query<GlobalAction>(
+							`SELECT ${columns} FROM global_restrictions WHERE chat_id IS NULL OR chat_id = ?`,
+							[scope],
+						);
 			if (actions.length === 0) {
 				return ctx.reply("No restricted actions found.");
 			}
@@ -51,7 +73,7 @@ export const registerActionHandlers = (bot: Telegraf<Context>) => {
 			const message = actions
 				.map(
 					(action) =>
-						`Type: ${action.restriction}, Action: ${action.restrictedAction || "N/A"}`,
+						`Type: ${action.restriction}, Action: ${action.restrictedAction || "N/A"}, Scope: ${action.chatId ? `chat ${action.chatId}` : "all groups"}`,
 				)
 				.join("\n");
 			await ctx.reply(`Restricted Actions:\n${message}`);
@@ -66,7 +88,8 @@ export const registerActionHandlers = (bot: Telegraf<Context>) => {
 
 	/**
 	 * Command handler for /addaction.
-	 * Adds a new global restriction that applies to all users.
+	 * Adds a new global restriction that applies to all users in this group,
+	 * or in every group when issued from a private chat.
 	 *
 	 * Permission: Admin or higher
 	 *
@@ -86,18 +109,23 @@ export const registerActionHandlers = (bot: Telegraf<Context>) => {
 			return ctx.reply("Usage: /addaction <restriction> [restrictedAction]");
 		}
 
+		const scope = getActionScope(ctx);
+
 		try {
 			execute(
-				"INSERT INTO global_restrictions (restriction, restricted_action) VALUES (?, ?)",
-				[restriction, restrictedAction || null],
+				"INSERT INTO global_restrictions (restriction, restricted_action, chat_id) VALUES (?, ?, ?)",
+				[restriction, restrictedAction || null, scope],
 			);
 			StructuredLogger.logSecurityEvent("Global action restriction added", {
 				userId: ownerId,
 				operation: "add_global_action",
 				restriction,
 				restrictedAction,
+				chatId: scope ?? "network",
 			});
-			await ctx.reply(`Action '${restriction}' has been added.`);
+			await ctx.reply(
+				`Action '${restriction}' has been added${scope === null ? " in all groups" : ""}.`,
+			);
 		} catch (error) {
 			StructuredLogger.logError(error as Error, {
 				userId: ownerId,
@@ -110,7 +138,8 @@ export const registerActionHandlers = (bot: Telegraf<Context>) => {
 
 	/**
 	 * Command handler for /removeaction.
-	 * Removes a global restriction from all users.
+	 * Removes a global restriction from all users, within the same scope
+	 * /addaction would use.
 	 *
 	 * Permission: Admin or higher
 	 *
@@ -128,14 +157,25 @@ export const registerActionHandlers = (bot: Telegraf<Context>) => {
 			return ctx.reply("Usage: /removeaction <restriction>");
 		}
 
+		const scope = getActionScope(ctx);
+
 		try {
-			execute("DELETE FROM global_restrictions WHERE restriction = ?", [
-				restriction,
-			]);
+			if (scope === null) {
+				execute(
+					"DELETE FROM global_restrictions WHERE restriction = ? AND chat_id IS NULL",
+					[restriction],
+				);
+			} else {
+				execute(
+					"DELETE FROM global_restrictions WHERE restriction = ? AND chat_id = ?",
+					[restriction, scope],
+				);
+			}
 			StructuredLogger.logSecurityEvent("Global action restriction removed", {
 				userId: ownerId,
 				operation: "remove_global_action",
 				restriction,
+				chatId: scope ?? "network",
 			});
 			await ctx.reply(`Action '${restriction}' has been removed.`);
 		} catch (error) {
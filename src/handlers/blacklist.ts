@@ -9,8 +9,11 @@
 import type { Context, Telegraf } from "telegraf";
 import { execute, query } from "../database";
 import { adminOrHigher } from "../middleware";
+import { EventBus } from "../services/eventBus";
+import { JoinScreeningService } from "../services/joinScreeningService";
 import type { User } from "../types";
 import { StructuredLogger } from "../utils/logger";
+import { messageRef } from "../utils/messageLink";
 import { isImmuneToModeration } from "../utils/roles";
 import { resolveTargetUser } from "../utils/userResolver";
 
@@ -98,6 +101,7 @@ export const registerBlacklistHandlers = (bot: Telegraf<Context>) => {
 				userId: target.userId,
 				operation: "add_whitelist",
 			});
+			await publishListChange(ctx, target.userId, "whitelist", true);
 			await ctx.reply(`@${target.username} has been whitelisted.`);
 		} catch (error) {
 			StructuredLogger.logError(error as Error, {
@@ -139,6 +143,7 @@ export const registerBlacklistHandlers = (bot: Telegraf<Context>) => {
 				userId: target.userId,
 				operation: "remove_whitelist",
 			});
+			await publishListChange(ctx, target.userId, "whitelist", false);
 			await ctx.reply(
 				`@${target.username} has been removed from the whitelist.`,
 			);
@@ -187,7 +192,8 @@ export const registerBlacklistHandlers = (bot: Telegraf<Context>) => {
 
 	/**
 	 * Command handler for /addblacklist.
-	 * Adds a user to the blacklist, restricting their access and privileges.
+	 * Adds a user to the blacklist and immediately bans them from the group.
+	 * Blacklisted users are also banned whenever they rejoin or post.
 	 *
 	 * Permission: Admin or higher
 	 *
@@ -222,7 +228,23 @@ export const registerBlacklistHandlers = (bot: Telegraf<Context>) => {
 				userId: target.userId,
 				operation: "add_blacklist",
 			});
-			await ctx.reply(`@${target.username} has been blacklisted.`);
+			await publishListChange(ctx, target.userId, "blacklist", true);
+
+			const isGroupChat =
+				ctx.chat?.type === "group" || ctx.chat?.type === "supergroup";
+			const bannedFrom =
+				await JoinScreeningService.enforceBlacklistRetroactively(
+					ctx.telegram,
+					target.userId,
+					adminId,
+					isGroupChat ? ctx.chat?.id : undefined,
+				);
+
+			await ctx.reply(
+				bannedFrom > 0
+					? `@${target.username} has been blacklisted and banned from ${bannedFrom} chat(s).`
+					: `@${target.username} has been blacklisted. They will be banned if they join or post.`,
+			);
 		} catch (error) {
 			StructuredLogger.logError(error as Error, {
 				adminId,
@@ -263,6 +285,7 @@ export const registerBlacklistHandlers = (bot: Telegraf<Context>) => {
 				userId: target.userId,
 				operation: "remove_blacklist",
 			});
+			await publishListChange(ctx, target.userId, "blacklist", false);
 			await ctx.reply(
 				`@${target.username} has been removed from the blacklist.`,
 			);
@@ -276,3 +299,23 @@ export const registerBlacklistHandlers = (bot: Telegraf<Context>) => {
 		}
 	});
 };
+
+/**
+ * Publishes a blacklist or whitelist change made by the command's sender.
+ */
+async function publishListChange(
+	ctx: Context,
+	userId: number,
+	list: "blacklist" | "whitelist",
+	added: boolean,
+): Promise<void> {
+	if (!ctx.from) return;
+	await EventBus.publish("list.changed", {
+		userId,
+		actorId: ctx.from.id,
+		list,
+		added,
+		origin: messageRef(ctx),
+		timestamp: Math.floor(Date.now() / 1000),
+	});
+}
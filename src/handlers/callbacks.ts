@@ -8,12 +8,19 @@
 import type { Context, Telegraf } from "telegraf";
 import { bold, code, fmt } from "telegraf/format";
 import type { CallbackQuery } from "telegraf/types";
-import { execute, get } from "../database";
-import { LedgerService } from "../services/ledgerService";
+import { config } from "../config";
+import { execute, get, withTransaction } from "../database";
+import { type AppealDecision, AppealService } from "../services/appealService";
+import { CaptchaService } from "../services/captchaService";
+import { DenomService } from "../services/denomService";
+import { EventBus } from "../services/eventBus";
+import { LedgerService, TransactionType } from "../services/ledgerService";
 import {
 	getGiveawayEscrowId,
 	SYSTEM_USER_IDS,
+	UnifiedWalletService,
 } from "../services/unifiedWalletService";
+import { WithdrawalPolicyService } from "../services/withdrawalPolicy";
 import { giveawayClaimKeyboard, mainMenuKeyboard } from "../utils/keyboards";
 import { logger, StructuredLogger } from "../utils/logger";
 import {
@@ -21,14 +28,15 @@ import {
 	getMenuSessionByMessage,
 	validateMenuInteraction,
 } from "../utils/menuSession";
-import { AmountPrecision } from "../utils/precision";
+import { hasRole } from "../utils/roles";
 
 interface Giveaway {
 	id: number;
 	created_by: number;
 	funded_by: number;
-	total_amount: number;
-	amount_per_slot: number;
+	denom: string;
+	total_amount_ujuno: number;
+	amount_per_slot_ujuno: number;
 	total_slots: number;
 	claimed_slots: number;
 	chat_id: number;
@@ -49,6 +57,8 @@ const sessions = new Map<number, SessionData>();
 // Session timeout: 5 minutes
 const SESSION_TIMEOUT = 5 * 60 * 1000;
 
+const APPEAL_DECISIONS: AppealDecision[] = ["uphold", "reduce", "overturn"];
+
 /**
  * Get or create a session for a user
  */
@@ -161,6 +171,24 @@ export function registerCallbackHandlers(bot: Telegraf<Context>): void {
 				return;
 			}
 
+			// Verification buttons answer the query themselves (with alerts)
+			if (data.startsWith("captcha_")) {
+				await handleCaptchaCallback(ctx, data, userId);
+				return;
+			}
+
+			// Withdrawal approvals answer the query themselves (with alerts)
+			if (data.startsWith("wdapproval_")) {
+				await handleWithdrawalApprovalCallback(ctx, data, userId);
+				return;
+			}
+
+			// Appeal decisions answer the query themselves (with alerts)
+			if (data.startsWith("appeal_")) {
+				await handleAppealCallback(ctx, data, userId);
+				return;
+			}
+
 			// Answer the callback to remove loading state
 			await ctx.answerCbQuery();
 
@@ -547,7 +575,7 @@ async function handleUserSelectionCallback(
 
 /**
  * Handle funding source selection for admin giveaways
- * Format: giveaway_fund_<amount>_<source>
+ * Format: giveaway_fund_<amount>_<source>[_<symbol>]
  * Shows slot selection after funding source is chosen
  */
 async function handleGiveawayFundCallback(
@@ -562,30 +590,37 @@ async function handleGiveawayFundCallback(
 		return;
 	}
 
-	// Parse: giveaway_fund_100_self or giveaway_fund_100_treasury
+	// Parse: giveaway_fund_100_self or giveaway_fund_100_treasury_ATOM
 	const parts = data.replace("giveaway_fund_", "").split("_");
-	if (parts.length !== 2) {
+	if (parts.length !== 2 && parts.length !== 3) {
 		await ctx.editMessageText("Invalid giveaway data.");
 		return;
 	}
 
 	const totalAmount = parseFloat(parts[0]);
 	const fundingSource = parts[1]; // "self" or "treasury"
+	// JUNO giveaways carry no symbol
+	const asset = DenomService.resolve(parts[2]);
 
-	if (Number.isNaN(totalAmount)) {
+	if (Number.isNaN(totalAmount) || !asset) {
 		await ctx.editMessageText("Invalid giveaway parameters.");
 		return;
 	}
+	const { symbol, decimals } = asset;
+	const denomSuffix = parts[2] ? `_${parts[2]}` : "";
 
 	const slotInfo = [10, 25, 50, 100]
-		.map((s) => `- ${s} slots = ${(totalAmount / s).toFixed(6)} JUNO each`)
+		.map(
+			(s) =>
+				`- ${s} slots = ${(totalAmount / s).toFixed(decimals)} ${symbol} each`,
+		)
 		.join("\n");
 
 	const sourceLabel =
 		fundingSource === "treasury" ? "Treasury" : "Your Balance";
 
 	await ctx.editMessageText(
-		fmt`${bold(`Create Giveaway: ${totalAmount} JUNO`)}
+		fmt`${bold(`Create Giveaway: ${totalAmount} ${symbol}`)}
 
 Funding from: ${sourceLabel}
 
@@ -597,21 +632,21 @@ ${slotInfo}`,
 					[
 						{
 							text: "10 slots",
-							callback_data: `giveaway_create_${totalAmount}_10_${fundingSource}`,
+							callback_data: `giveaway_create_${totalAmount}_10_${fundingSource}${denomSuffix}`,
 						},
 						{
 							text: "25 slots",
-							callback_data: `giveaway_create_${totalAmount}_25_${fundingSource}`,
+							callback_data: `giveaway_create_${totalAmount}_25_${fundingSource}${denomSuffix}`,
 						},
 					],
 					[
 						{
 							text: "50 slots",
-							callback_data: `giveaway_create_${totalAmount}_50_${fundingSource}`,
+							callback_data: `giveaway_create_${totalAmount}_50_${fundingSource}${denomSuffix}`,
 						},
 						{
 							text: "100 slots",
-							callback_data: `giveaway_create_${totalAmount}_100_${fundingSource}`,
+							callback_data: `giveaway_create_${totalAmount}_100_${fundingSource}${denomSuffix}`,
 						},
 					],
 					[{ text: "Cancel", callback_data: "cancel" }],
@@ -623,7 +658,7 @@ ${slotInfo}`,
 
 /**
  * Handle giveaway creation (slot count selection)
- * Format: giveaway_create_<amount>_<slots>_<source>
+ * Format: giveaway_create_<amount>_<slots>_<source>[_<symbol>]
  *
  * IMPORTANT: This function debits funds IMMEDIATELY from the funder.
  * Funds are held in the giveaway until claimed or cancelled.
@@ -650,7 +685,7 @@ async function handleGiveawayCreateCallback(
 
 	// Parse: giveaway_create_100_10_self -> amount=100, slots=10, source=self
 	const parts = data.replace("giveaway_create_", "").split("_");
-	if (parts.length !== 3) {
+	if (parts.length !== 3 && parts.length !== 4) {
 		await ctx.editMessageText("Invalid giveaway data.");
 		return;
 	}
@@ -658,14 +693,25 @@ async function handleGiveawayCreateCallback(
 	const totalAmount = parseFloat(parts[0]);
 	const totalSlots = parseInt(parts[1], 10);
 	const fundingSource = parts[2]; // "self" or "treasury"
+	const asset = DenomService.resolve(parts[3]);
 
-	if (Number.isNaN(totalAmount) || Number.isNaN(totalSlots)) {
+	if (Number.isNaN(totalAmount) || Number.isNaN(totalSlots) || !asset) {
 		await ctx.editMessageText("Invalid giveaway parameters.");
 		return;
 	}
+	const { denom, symbol, decimals } = asset;
 
-	const amountPerSlot = AmountPrecision.toExact6Decimals(
-		totalAmount / totalSlots,
+	// Slots are paid in whole base units, so the total must split evenly
+	const totalBase = DenomService.toBaseUnits(totalAmount, denom);
+	if (totalBase % totalSlots !== 0) {
+		await ctx.editMessageText(
+			`${totalAmount} ${symbol} cannot be split evenly into ${totalSlots} slots.`,
+		);
+		return;
+	}
+	const amountPerSlot = DenomService.fromBaseUnits(
+		totalBase / totalSlots,
+		denom,
 	);
 
 	if (!chatId) {
@@ -679,48 +725,68 @@ async function handleGiveawayCreateCallback(
 
 	try {
 		// STEP 1: Verify balance AGAIN (could have changed since command)
-		const currentBalance = await LedgerService.getUserBalance(fundedBy);
+		const currentBalance = await LedgerService.getUserBalance(fundedBy, denom);
 		if (currentBalance < totalAmount) {
 			const source =
 				fundedBy === SYSTEM_USER_IDS.BOT_TREASURY ? "Treasury" : "Your balance";
 			await ctx.editMessageText(
-				`Insufficient funds.\n${source}: ${currentBalance.toFixed(6)} JUNO\nRequired: ${totalAmount.toFixed(6)} JUNO`,
+				`Insufficient funds.\n${source}: ${currentBalance.toFixed(decimals)} ${symbol}\nRequired: ${totalAmount.toFixed(decimals)} ${symbol}`,
 			);
 			return;
 		}
 
-		// STEP 2: Create giveaway record FIRST to get the ID
-		const result = execute(
-			`INSERT INTO giveaways (created_by, funded_by, total_amount, amount_per_slot, total_slots, claimed_slots, chat_id, status)
-			 VALUES (?, ?, ?, ?, ?, 0, ?, 'active')`,
-			[userId, fundedBy, totalAmount, amountPerSlot, totalSlots, chatId],
-		);
-		const giveawayId = result.lastInsertRowid as number;
-
-		// STEP 3: Create dedicated escrow account for this giveaway
-		const escrowId = getGiveawayEscrowId(giveawayId);
+		// STEP 2-4: Giveaway record, escrow account and funding commit together
 		const { createUser, userExists } = await import("../services/userService");
-		if (!userExists(escrowId)) {
-			createUser(
-				escrowId,
-				`GIVEAWAY_ESCROW_${giveawayId}`,
-				"system",
-				"giveaway",
-			);
-			await LedgerService.ensureUserBalance(escrowId);
-		}
+		let giveawayId: number;
+		let escrowId: number;
+		try {
+			({ giveawayId, escrowId } = withTransaction(() => {
+				// Create giveaway record FIRST to get the ID
+				const result = execute(
+					`INSERT INTO giveaways (created_by, funded_by, denom, total_amount_ujuno, amount_per_slot_ujuno, total_slots, claimed_slots, chat_id, status)
+				 VALUES (?, ?, ?, ?, ?, ?, 0, ?, 'active')`,
+					[
+						userId,
+						fundedBy,
+						denom,
+						totalBase,
+						totalBase / totalSlots,
+						totalSlots,
+						chatId,
+					],
+				);
+				const giveawayId = result.lastInsertRowid as number;
+
+				// Create dedicated escrow account for this giveaway
+				const escrowId = getGiveawayEscrowId(giveawayId);
+				if (!userExists(escrowId)) {
+					createUser(
+						escrowId,
+						`GIVEAWAY_ESCROW_${giveawayId}`,
+						"system",
+						"giveaway",
+					);
+					LedgerService.ensureUserBalance(escrowId);
+				}
 
-		// STEP 4: Transfer funds to dedicated escrow account
-		const debitResult = await LedgerService.transferBetweenUsers(
-			fundedBy,
-			escrowId,
-			totalAmount,
-			`Giveaway #${giveawayId} escrow funding`,
-		);
+				// Transfer funds to dedicated escrow account
+				const debitResult = LedgerService.transferBetweenUsers(
+					fundedBy,
+					escrowId,
+					totalAmount,
+					`Giveaway #${giveawayId} escrow funding`,
+					{ type: TransactionType.ESCROW_LOCK, denom },
+				);
+
+				// Throwing rolls back the giveaway record and escrow account
+				if (!debitResult.success) {
+					throw new Error(debitResult.error || "Escrow funding failed");
+				}
 
-		if (!debitResult.success) {
-			// Rollback: delete the giveaway record
-			execute("DELETE FROM giveaways WHERE id = ?", [giveawayId]);
+				return { giveawayId, escrowId };
+			}));
+		} catch (error) {
+			logger.error("Failed to fund giveaway escrow", { userId, error });
 			await ctx.editMessageText("Failed to reserve funds for giveaway.");
 			return;
 		}
@@ -731,16 +797,16 @@ async function handleGiveawayCreateCallback(
 		// Edit the original message to show creation confirmation
 		await ctx.editMessageText(
 			fmt`Giveaway #${giveawayId} created!
-Total: ${totalAmount} JUNO (debited from ${sourceLabel})
+Total: ${totalAmount} ${symbol} (debited from ${sourceLabel})
 Slots: ${totalSlots}
-Per slot: ${amountPerSlot.toFixed(6)} JUNO`,
+Per slot: ${amountPerSlot.toFixed(decimals)} ${symbol}`,
 		);
 
 		// Send the actual giveaway message with claim button
 		const giveawayMsg = await ctx.reply(
-			fmt`${bold("JUNO Giveaway")}
+			fmt`${bold(`${symbol} Giveaway`)}
 
-${amountPerSlot.toFixed(6)} JUNO per claim
+${amountPerSlot.toFixed(decimals)} ${symbol} per claim
 Slots: ${totalSlots}/${totalSlots} available
 
 Click below to claim your share!`,
@@ -761,6 +827,7 @@ Click below to claim your share!`,
 			giveawayId,
 			escrowId,
 			totalAmount,
+			denom,
 			totalSlots,
 			amountPerSlot,
 			fundedBy,
@@ -819,59 +886,82 @@ async function handleGiveawayClaimCallback(
 		return;
 	}
 
+	const { denom } = giveaway;
+	const symbol = DenomService.symbol(denom);
+	const perClaim = DenomService.format(giveaway.amount_per_slot_ujuno, denom);
+	const amountPerSlot = DenomService.fromBaseUnits(
+		giveaway.amount_per_slot_ujuno,
+		denom,
+	);
+
 	try {
 		// Ensure user exists in database (create if new)
 		const { ensureUserExists } = await import("../services/userService");
 		const username = ctx.from?.username || `user_${userId}`;
 		ensureUserExists(userId, username);
 
-		// Transfer funds FROM giveaway's escrow account TO the claimer
+		// Payout, claim record and slot count commit together
 		const escrowId = getGiveawayEscrowId(giveawayId);
-		const result = await LedgerService.transferBetweenUsers(
-			escrowId,
-			userId,
-			giveaway.amount_per_slot,
-			`Giveaway #${giveawayId} claim`,
-		);
-
-		if (!result.success) {
-			await ctx.answerCbQuery("Failed to process claim. Try again.");
-			return;
-		}
-
-		// Record claim
-		execute(
-			"INSERT INTO giveaway_claims (giveaway_id, user_id, amount) VALUES (?, ?, ?)",
-			[giveawayId, userId, giveaway.amount_per_slot],
-		);
+		const claim = withTransaction(() => {
+			// Transfer funds FROM giveaway's escrow account TO the claimer
+			const result = LedgerService.transferBetweenUsers(
+				escrowId,
+				userId,
+				amountPerSlot,
+				`Giveaway #${giveawayId} claim`,
+				{
+					type: TransactionType.ESCROW_RELEASE,
+					parentTransactionId: LedgerService.getEscrowLockId(escrowId),
+					denom,
+				},
+			);
 
-		// Update claimed count
-		const newClaimedSlots = giveaway.claimed_slots + 1;
-		execute("UPDATE giveaways SET claimed_slots = ? WHERE id = ?", [
-			newClaimedSlots,
-			giveawayId,
-		]);
+			if (!result.success) {
+				return null;
+			}
 
-		// Check if giveaway complete
-		const isComplete = newClaimedSlots >= giveaway.total_slots;
-		if (isComplete) {
+			// Record claim
 			execute(
-				"UPDATE giveaways SET status = 'completed', completed_at = ? WHERE id = ?",
-				[Math.floor(Date.now() / 1000), giveawayId],
+				"INSERT INTO giveaway_claims (giveaway_id, user_id, amount_ujuno) VALUES (?, ?, ?)",
+				[giveawayId, userId, giveaway.amount_per_slot_ujuno],
 			);
+
+			// Update claimed count
+			const newClaimedSlots = giveaway.claimed_slots + 1;
+			execute("UPDATE giveaways SET claimed_slots = ? WHERE id = ?", [
+				newClaimedSlots,
+				giveawayId,
+			]);
+
+			// Check if giveaway complete
+			const isComplete = newClaimedSlots >= giveaway.total_slots;
+			if (isComplete) {
+				execute(
+					"UPDATE giveaways SET status = 'completed', completed_at = ? WHERE id = ?",
+					[Math.floor(Date.now() / 1000), giveawayId],
+				);
+			}
+
+			return { newClaimedSlots, isComplete, newBalance: result.toBalance };
+		});
+
+		if (!claim) {
+			await ctx.answerCbQuery("Failed to process claim. Try again.");
+			return;
 		}
+		const { newClaimedSlots, isComplete, newBalance } = claim;
 
 		// Update the giveaway message
 		const remaining = giveaway.total_slots - newClaimedSlots;
 		try {
 			if (isComplete) {
 				await ctx.editMessageText(
-					fmt`${bold("JUNO Giveaway Complete")}
+					fmt`${bold(`${symbol} Giveaway Complete`)}
 
-${giveaway.amount_per_slot.toFixed(6)} JUNO per claim
+${perClaim} per claim
 All ${giveaway.total_slots} slots claimed!
 
-Total distributed: ${giveaway.total_amount.toFixed(6)} JUNO`,
+Total distributed: ${DenomService.format(giveaway.total_amount_ujuno, denom)}`,
 					{
 						reply_markup: {
 							inline_keyboard: [
@@ -882,9 +972,9 @@ Total distributed: ${giveaway.total_amount.toFixed(6)} JUNO`,
 				);
 			} else {
 				await ctx.editMessageText(
-					fmt`${bold("JUNO Giveaway")}
+					fmt`${bold(`${symbol} Giveaway`)}
 
-${giveaway.amount_per_slot.toFixed(6)} JUNO per claim
+${perClaim} per claim
 Slots: ${remaining}/${giveaway.total_slots} available
 
 Click below to claim your share!`,
@@ -902,17 +992,31 @@ Click below to claim your share!`,
 			logger.warn("Failed to edit giveaway message", { giveawayId, editError });
 		}
 
-		await ctx.answerCbQuery(
-			`Claimed ${giveaway.amount_per_slot.toFixed(6)} JUNO!`,
-		);
+		await ctx.answerCbQuery(`Claimed ${perClaim}!`);
 
 		StructuredLogger.logUserAction("Giveaway claimed", {
 			userId,
 			operation: "claim_giveaway",
 			giveawayId,
-			amount: giveaway.amount_per_slot.toString(),
-			newBalance: result.toBalance,
+			amount: amountPerSlot.toString(),
+			denom,
+			newBalance,
 		});
+
+		if (isComplete) {
+			await EventBus.publish("giveaway.completed", {
+				giveawayId,
+				chatId: giveaway.chat_id,
+				createdBy: giveaway.created_by,
+				totalSlots: giveaway.total_slots,
+				totalAmount: DenomService.fromBaseUnits(
+					giveaway.total_amount_ujuno,
+					denom,
+				),
+				denom,
+				timestamp: Math.floor(Date.now() / 1000),
+			});
+		}
 	} catch (error) {
 		logger.error("Failed to process giveaway claim", {
 			userId,
@@ -922,3 +1026,200 @@ Click below to claim your share!`,
 		await ctx.answerCbQuery("An error occurred. Please try again.");
 	}
 }
+
+/**
+ * Handle newcomer verification buttons.
+ * captcha_<challengeId>_<answer> is pressed by the newcomer;
+ * captcha_vouch_<challengeId> lets elevated users admit them.
+ */
+async function handleCaptchaCallback(
+	ctx: Context,
+	data: string,
+	userId: number,
+): Promise<void> {
+	const [, idOrVouch, ...rest] = data.split("_");
+
+	if (idOrVouch === "vouch") {
+		const challenge = CaptchaService.getChallenge(parseInt(rest[0] || "", 10));
+		if (!challenge || challenge.status !== "pending") {
+			await ctx.answerCbQuery("This verification has already ended.");
+			return;
+		}
+
+		const outcome = await CaptchaService.vouch(
+			ctx.telegram,
+			challenge.chat_id,
+			challenge.user_id,
+			userId,
+		);
+		await ctx.answerCbQuery(
+			outcome === "vouched"
+				? "Member approved."
+				: "Only elevated users can vouch for new members.",
+			{ show_alert: outcome !== "vouched" },
+		);
+		return;
+	}
+
+	const outcome = await CaptchaService.answerChallenge(
+		ctx.telegram,
+		parseInt(idOrVouch || "", 10),
+		userId,
+		rest.join("_"),
+	);
+
+	switch (outcome) {
+		case "passed":
+			await ctx.answerCbQuery("Verified! Welcome to the group.");
+			break;
+		case "failed":
+			await ctx.answerCbQuery("Wrong answer. You have been removed.", {
+				show_alert: true,
+			});
+			break;
+		case "not_allowed":
+			await ctx.answerCbQuery("This verification is not for you.", {
+				show_alert: true,
+			});
+			break;
+		default:
+			await ctx.answerCbQuery("This verification has already ended.");
+	}
+}
+
+/**
+ * Handle owner decisions on withdrawals held for approval.
+ * wdapproval_approve_<approvalId> processes the withdrawal;
+ * wdapproval_reject_<approvalId> refuses it. Only owners may decide.
+ */
+async function handleWithdrawalApprovalCallback(
+	ctx: Context,
+	data: string,
+	userId: number,
+): Promise<void> {
+	const [, action, id] = data.split("_");
+
+	if (!config.ownerIds.includes(userId) && !hasRole(userId, "owner")) {
+		await ctx.answerCbQuery("Only owners can decide withdrawals.", {
+			show_alert: true,
+		});
+		return;
+	}
+
+	const approval = await WithdrawalPolicyService.decide(
+		parseInt(id || "", 10),
+		userId,
+		action === "approve",
+	);
+	if (!approval) {
+		await ctx.answerCbQuery("This request was already decided or has expired.");
+		return;
+	}
+
+	const amount = DenomService.fromBaseUnits(
+		approval.amount_ujuno,
+		approval.denom,
+	);
+	const formatted = DenomService.formatAmount(amount, approval.denom);
+	const decider = ctx.from?.username
+		? `@${ctx.from.username}`
+		: `User ${userId}`;
+	let outcome: string;
+
+	if (approval.status === "approved") {
+		await ctx.answerCbQuery("Approved. Processing withdrawal...");
+		const result = await UnifiedWalletService.processWithdrawal(
+			approval.user_id,
+			approval.to_address,
+			amount,
+			{ approvalId: approval.id, denom: approval.denom },
+		);
+		outcome = !result.success
+			? `approved, but failed: ${result.error || "Unknown error"}`
+			: result.queued
+				? "approved and queued"
+				: `approved and sent (${result.txHash})`;
+	} else {
+		await ctx.answerCbQuery("Rejected.");
+		outcome = "rejected";
+	}
+
+	await ctx.editMessageText(
+		fmt`${bold(`Withdrawal #${approval.id} ${outcome}`)}
+
+User: ${code(String(approval.user_id))}
+Amount: ${code(formatted)}
+To: ${code(approval.to_address)}
+Decided by: ${decider}`,
+	);
+
+	try {
+		await ctx.telegram.sendMessage(
+			approval.user_id,
+			fmt`Your withdrawal of ${code(formatted)} to ${code(approval.to_address)} was ${outcome}.`,
+		);
+	} catch (error) {
+		logger.warn("Could not notify user of withdrawal decision", {
+			userId: approval.user_id,
+			approvalId: approval.id,
+			error,
+		});
+	}
+}
+
+/**
+ * Handle admin decisions on appeals.
+ * appeal_uphold_<appealId>, appeal_reduce_<appealId> and
+ * appeal_overturn_<appealId> decide the appeal. Only admins and owners may
+ * decide; the user is notified through the appeal.decided event.
+ */
+async function handleAppealCallback(
+	ctx: Context,
+	data: string,
+	userId: number,
+): Promise<void> {
+	const [, decision, id] = data.split("_");
+
+	if (
+		!config.ownerIds.includes(userId) &&
+		!hasRole(userId, "owner") &&
+		!hasRole(userId, "admin")
+	) {
+		await ctx.answerCbQuery("Only admins can decide appeals.", {
+			show_alert: true,
+		});
+		return;
+	}
+
+	if (!APPEAL_DECISIONS.includes(decision as AppealDecision)) {
+		await ctx.answerCbQuery("Unknown action.");
+		return;
+	}
+
+	const result = await AppealService.decide(
+		parseInt(id || "", 10),
+		userId,
+		decision as AppealDecision,
+	);
+	if (!result.success || !result.appeal) {
+		await ctx.answerCbQuery(result.error || "Could not decide the appeal.", {
+			show_alert: true,
+		});
+		return;
+	}
+
+	const appeal = result.appeal;
+	const decider = ctx.from?.username
+		? `@${ctx.from.username}`
+		: `User ${userId}`;
+	await ctx.answerCbQuery(`Appeal ${appeal.status}.`);
+	await ctx.editMessageText(
+		fmt`${bold(`Appeal #${appeal.id} ${appeal.status}`)}
+
+Case: ${code(`#${appeal.case_id}`)}
+User: ${code(String(appeal.user_id))}
+Statement: ${appeal.statement}
+Outcome: ${appeal.outcome ?? ""}
+Decided by: ${decider}`,
+	);
+}
@@ -0,0 +1,150 @@
+/**
+ * Join screening handlers for the CAC Admin Bot.
+ * Feeds every member who joins a group into the join screening pipeline,
+ * whether the join arrives as a service message or a chat_member update,
+ * and lets elevated users vouch newcomers past verification.
+ *
+ * @module handlers/joinScreening
+ */
+
+import type { Context, Telegraf } from "telegraf";
+import type { ChatMember } from "telegraf/types";
+import { CaptchaService } from "../services/captchaService";
+import { JoinScreeningService } from "../services/joinScreeningService";
+import { StructuredLogger } from "../utils/logger";
+
+/**
+ * Checks whether a chat member status counts as being inside the chat.
+ */
+function isInChat(member: ChatMember): boolean {
+	if (member.status === "restricted") {
+		return member.is_member;
+	}
+	return (
+		member.status === "member" ||
+		member.status === "administrator" ||
+		member.status === "creator"
+	);
+}
+
+/**
+ * Registers join screening handlers with the bot.
+ *
+ * Updates handled:
+ * - new_chat_members - Service message posted when users join or are added
+ * - chat_member - Membership change updates (requires "chat_member" in allowed updates)
+ * - /vouch - Admit a newcomer without verification (elevated users)
+ *
+ * @param bot - The Telegraf bot instance
+ *
+ * @example
+ * ```typescript
+ * const bot = new Telegraf(token);
+ * registerJoinScreeningHandlers(bot);
+ * ```
+ */
+export const registerJoinScreeningHandlers = (bot: Telegraf<Context>) => {
+	bot.on("new_chat_members", async (ctx, next) => {
+		const botId = ctx.botInfo?.id;
+
+		for (const member of ctx.message.new_chat_members) {
+			if (member.id === botId) continue;
+
+			try {
+				await JoinScreeningService.screenMember(
+					ctx.telegram,
+					ctx.chat.id,
+					member,
+				);
+			} catch (error) {
+				StructuredLogger.logError(error as Error, {
+					userId: member.id,
+					chatId: ctx.chat.id,
+					operation: "screen_new_member",
+				});
+			}
+		}
+
+		return next();
+	});
+
+	bot.on("chat_member", async (ctx, next) => {
+		const update = ctx.chatMember;
+		const joined =
+			!isInChat(update.old_chat_member) && isInChat(update.new_chat_member);
+
+		if (joined && update.new_chat_member.user.id !== ctx.botInfo?.id) {
+			try {
+				await JoinScreeningService.screenMember(
+					ctx.telegram,
+					update.chat.id,
+					update.new_chat_member.user,
+				);
+			} catch (error) {
+				StructuredLogger.logError(error as Error, {
+					userId: update.new_chat_member.user.id,
+					chatId: update.chat.id,
+					operation: "screen_chat_member",
+				});
+			}
+		}
+
+		return next();
+	});
+
+	/**
+	 * Command handler for /vouch.
+	 * Admits a newcomer who is waiting for verification in this group.
+	 * Newcomers are usually not known to the bot yet, so the target is a
+	 * numeric user ID or a reply to one of their messages (e.g. the join message).
+	 *
+	 * Permission: Elevated or higher, if the group allows vouching
+	 *
+	 * @example
+	 * Usage: /vouch <userId> (or reply to the newcomer's join message)
+	 */
+	bot.command("vouch", async (ctx) => {
+		const voucherId = ctx.from?.id;
+		if (!voucherId) return;
+		if (ctx.chat.type !== "group" && ctx.chat.type !== "supergroup") {
+			return ctx.reply("Use /vouch in the group the newcomer joined.");
+		}
+
+		const arg = ctx.message.text.split(" ")[1];
+		const replyTo =
+			"reply_to_message" in ctx.message
+				? ctx.message.reply_to_message
+				: undefined;
+		const userId = arg ? Number.parseInt(arg, 10) : replyTo?.from?.id;
+		if (!userId || Number.isNaN(userId)) {
+			return ctx.reply(
+				"Usage: /vouch <userId> (or reply to the newcomer's message)",
+			);
+		}
+
+		try {
+			const outcome = await CaptchaService.vouch(
+				ctx.telegram,
+				ctx.chat.id,
+				userId,
+				voucherId,
+			);
+			if (outcome === "not_allowed") {
+				return ctx.reply(
+					"Only elevated users can vouch, and only in groups that allow vouching.",
+				);
+			}
+			if (outcome === "not_found") {
+				return ctx.reply(`User ${userId} is not waiting for verification.`);
+			}
+			await ctx.reply(`User ${userId} has been approved.`);
+		} catch (error) {
+			StructuredLogger.logError(error as Error, {
+				userId: voucherId,
+				chatId: ctx.chat.id,
+				operation: "vouch_newcomer",
+			});
+			await ctx.reply("An error occurred while approving the member.");
+		}
+	});
+};
@@ -9,6 +9,7 @@
 import type { Context, Telegraf } from "telegraf";
 import { bold, code, fmt } from "telegraf/format";
 import { adminOrHigher, elevatedOrHigher } from "../middleware";
+import { EventBus } from "../services/eventBus";
 import {
 	addUserRestriction,
 	getUserRestrictions,
@@ -16,6 +17,7 @@ import {
 } from "../services/userService";
 import { restrictionTypeKeyboard } from "../utils/keyboards";
 import { StructuredLogger } from "../utils/logger";
+import { messageRef } from "../utils/messageLink";
 import { isImmuneToModeration } from "../utils/roles";
 
 /**
@@ -167,6 +169,17 @@ For regex pattern examples: ${code("/regexhelp")}`,
 				autoJailFine: jailFine,
 			});
 
+			await EventBus.publish("restriction.changed", {
+				userId: targetUserId,
+				actorId: adminId ?? null,
+				restriction,
+				restrictedAction: action,
+				added: true,
+				until: untilTimestamp,
+				origin: messageRef(ctx),
+				timestamp: Math.floor(Date.now() / 1000),
+			});
+
 			await ctx.reply(
 				fmt`Restriction '${restriction}' added for user ${userId}.
 Severity: ${severityLevel}
@@ -211,6 +224,14 @@ Auto-jail after ${threshold} violations in 60 minutes (${jailDuration} min jail,
 				operation: "remove_restriction",
 				restriction,
 			});
+			await EventBus.publish("restriction.changed", {
+				userId: parseInt(userId, 10),
+				actorId: adminId ?? null,
+				restriction,
+				added: false,
+				origin: messageRef(ctx),
+				timestamp: Math.floor(Date.now() / 1000),
+			});
 			await ctx.reply(
 				fmt`Restriction '${restriction}' removed for user ${userId}.`,
 			);
@@ -14,14 +14,16 @@
 
 import type { Context, Telegraf } from "telegraf";
 import { config } from "../config";
-import { execute, query } from "../database";
+import { execute, get, query } from "../database";
 import {
 	adminOrHigher,
 	elevatedAdminOnly,
 	ownerOnly,
 } from "../middleware/index";
+import { EventBus } from "../services/eventBus";
 import type { User } from "../types";
 import { StructuredLogger } from "../utils/logger";
+import { messageRef } from "../utils/messageLink";
 import { resolveTargetUser } from "../utils/userResolver";
 
 /**
@@ -108,6 +110,7 @@ export const registerRoleHandlers = (bot: Telegraf<Context>) => {
 		}
 
 		try {
+			const previousRole = currentRole(target.userId);
 			execute(
 				"INSERT INTO users (id, username, role) VALUES (?, ?, ?) " +
 					"ON CONFLICT(id) DO UPDATE SET role = ?, username = COALESCE(?, username)",
@@ -120,6 +123,7 @@ export const registerRoleHandlers = (bot: Telegraf<Context>) => {
 				targetUserId: target.userId,
 				operation: "grant_owner",
 			});
+			await publishRoleChange(ctx, target.userId, previousRole, "owner");
 
 			await ctx.reply(
 				`Owner privileges granted!\n\n` +
@@ -165,6 +169,7 @@ export const registerRoleHandlers = (bot: Telegraf<Context>) => {
 		}
 
 		try {
+			const previousRole = currentRole(target.userId);
 			execute(
 				"INSERT INTO users (id, username, role) VALUES (?, ?, ?) " +
 					"ON CONFLICT(id) DO UPDATE SET role = ?, username = COALESCE(?, username)",
@@ -183,6 +188,7 @@ export const registerRoleHandlers = (bot: Telegraf<Context>) => {
 				targetUserId: target.userId,
 				operation: "elevate_user",
 			});
+			await publishRoleChange(ctx, target.userId, previousRole, "elevated");
 			await ctx.reply(
 				`Elevated privileges granted!\n\n` +
 					`User ID: ${target.userId}\n` +
@@ -225,6 +231,7 @@ export const registerRoleHandlers = (bot: Telegraf<Context>) => {
 		}
 
 		try {
+			const previousRole = currentRole(target.userId);
 			execute(
 				"INSERT INTO users (id, username, role) VALUES (?, ?, ?) " +
 					"ON CONFLICT(id) DO UPDATE SET role = ?, username = COALESCE(?, username)",
@@ -237,6 +244,7 @@ export const registerRoleHandlers = (bot: Telegraf<Context>) => {
 				targetUserId: target.userId,
 				operation: "make_admin",
 			});
+			await publishRoleChange(ctx, target.userId, previousRole, "admin");
 			await ctx.reply(
 				`Admin privileges granted!\n\n` +
 					`User ID: ${target.userId}\n` +
@@ -314,6 +322,7 @@ export const registerRoleHandlers = (bot: Telegraf<Context>) => {
 				targetId: targetUser.id,
 				operation: "revoke_privileges",
 			});
+			await publishRoleChange(ctx, targetUser.id, targetUser.role, "pleb");
 			await ctx.reply(
 				`@${targetUser.username || targetUser.id}'s privileges have been revoked.`,
 			);
@@ -395,3 +404,33 @@ export const registerRoleHandlers = (bot: Telegraf<Context>) => {
 		}
 	});
 };
+
+/**
+ * Gets a user's role, pleb for users not in the database.
+ */
+function currentRole(userId: number): string {
+	return (
+		get<{ role: string }>("SELECT role FROM users WHERE id = ?", [userId])
+			?.role ?? "pleb"
+	);
+}
+
+/**
+ * Publishes a role change made by the command's sender.
+ */
+async function publishRoleChange(
+	ctx: Context,
+	userId: number,
+	previousRole: string,
+	role: string,
+): Promise<void> {
+	if (!ctx.from || previousRole === role) return;
+	await EventBus.publish("role.changed", {
+		userId,
+		actorId: ctx.from.id,
+		previousRole,
+		role,
+		origin: messageRef(ctx),
+		timestamp: Math.floor(Date.now() / 1000),
+	});
+}
@@ -0,0 +1,286 @@
+/**
+ * Rule management handlers for the CAC Admin Bot.
+ * Rules attach an escalation ladder (warn, fine, mute, jail, ban) to a
+ * restriction type, so repeat offenders are punished progressively.
+ * Rules added in a group only apply to that group; rules added from a
+ * private chat apply network-wide.
+ *
+ * @module handlers/rules
+ */
+
+import type { Context, Telegraf } from "telegraf";
+import { bold, code, fmt } from "telegraf/format";
+import { adminOrHigher } from "../middleware";
+import {
+	DEFAULT_ESCALATION,
+	ESCALATION_WINDOW_DAYS,
+	RULE_TYPES,
+	type RuleDefinition,
+	RuleService,
+} from "../services/ruleService";
+import type { RestrictionType } from "../types";
+import { StructuredLogger } from "../utils/logger";
+
+/**
+ * Chat a rule command applies to: the group it was issued in, or null
+ * (network-wide) when issued from a private chat.
+ */
+function getRuleScope(ctx: Context): number | null {
+	const isGroupChat =
+		ctx.chat?.type === "group" || ctx.chat?.type === "supergroup";
+	return isGroupChat && ctx.chat ? ctx.chat.id : null;
+}
+
+/**
+ * Formats a rule for display.
+ *
+ * @param rule - Rule definition
+ * @returns Multi-line rule summary
+ */
+function formatRule(rule: RuleDefinition): string {
+	const lines = [
+		`#${rule.id} ${rule.description || rule.type}`,
+		`  Condition: ${rule.type}${rule.matchValue ? ` = ${rule.matchValue}` : ""}`,
+		`  Ladder: ${RuleService.formatEscalation(rule.escalation)}`,
+		`  Severity: ${rule.severity}, Scope: ${rule.chatId ? `chat ${rule.chatId}` : "all groups"}`,
+	];
+	return lines.join("\n");
+}
+
+/**
+ * Parses a rule ID argument.
+ *
+ * @param value - Raw argument
+ * @returns Rule ID, or null if invalid
+ */
+function parseRuleId(value: string | undefined): number | null {
+	const ruleId = Number.parseInt((value || "").replace(/^#/, ""), 10);
+	return Number.isInteger(ruleId) && ruleId > 0 ? ruleId : null;
+}
+
+/**
+ * Registers all rule management command handlers with the bot.
+ *
+ * Commands registered:
+ * - /rules - List the rules of this group
+ * - /addrule - Add a rule (admin only)
+ * - /editrule - Change a rule (admin only)
+ * - /removerule - Remove a rule (admin only)
+ *
+ * @param bot - The Telegraf bot instance
+ *
+ * @example
+ * ```typescript
+ * const bot = new Telegraf(token);
+ * registerRuleHandlers(bot);
+ * ```
+ */
+export const registerRuleHandlers = (bot: Telegraf<Context>) => {
+	/**
+	 * Command handler for /rules.
+	 * Lists the rules in force. In a group only that group's and network-wide
+	 * rules are listed.
+	 *
+	 * Permission: All users can view
+	 *
+	 * @example
+	 * Usage: /rules
+	 */
+	bot.command("rules", async (ctx) => {
+		try {
+			const scope = getRuleScope(ctx);
+			const rules = RuleService.listRules(scope ?? undefined);
+			if (rules.length === 0) {
+				return ctx.reply("No rules defined.");
+			}
+
+			await ctx.reply(
+				fmt`${bold("Rules")}
+
+${rules.map(formatRule).join("\n\n")}
+
+Each violation of a rule within ${ESCALATION_WINDOW_DAYS} days moves one step up its ladder.`,
+			);
+		} catch (error) {
+			StructuredLogger.logError(error as Error, {
+				userId: ctx.from?.id,
+				operation: "view_rules",
+			});
+			await ctx.reply("An error occurred while fetching rules.");
+		}
+	});
+
+	/**
+	 * Command handler for /addrule.
+	 * Adds a rule for this group, or for every group when issued from a
+	 * private chat.
+	 *
+	 * Permission: Admin or higher
+	 *
+	 * @example
+	 * Usage: /addrule <type> <match|-> [ladder] [description]
+	 * Example: /addrule no_urls spam.com warn,fine:1,mute:30,jail:1440,ban No spam links
+	 * Example: /addrule no_stickers - warn,warn,mute:60
+	 */
+	bot.command("addrule", adminOrHigher, async (ctx) => {
+		const adminId = ctx.from?.id;
+		if (!adminId) return;
+
+		const [type, match, ladder, ...descriptionWords] =
+			ctx.message?.text.split(" ").slice(1).filter(Boolean) || [];
+
+		if (!type || !match) {
+			return ctx.reply(
+				fmt`${bold("Usage:")} ${code("/addrule <type> <match|-> [ladder] [description]")}
+
+${bold("Types:")} ${RULE_TYPES.join(", ")}
+${bold("Match:")} sticker pack, domain or regex of the restriction, or ${code("-")} for any
+${bold("Ladder:")} comma-separated steps: ${code("warn")}, ${code("fine:<usd>")}, ${code("mute:<minutes>")}, ${code("jail:<minutes>")}, ${code("ban")}
+Default ladder: ${code(DEFAULT_ESCALATION)}
+
+${bold("Example:")}
+${code("/addrule no_urls spam.com warn,fine:1,mute:30,jail:1440,ban No spam links")}`,
+			);
+		}
+
+		if (!RULE_TYPES.includes(type as RestrictionType)) {
+			return ctx.reply(
+				`Invalid rule type. Valid types: ${RULE_TYPES.join(", ")}`,
+			);
+		}
+
+		let escalation: ReturnType<typeof RuleService.parseEscalation>;
+		try {
+			escalation = RuleService.parseEscalation(ladder || DEFAULT_ESCALATION);
+		} catch (error) {
+			return ctx.reply(`Invalid ladder: ${(error as Error).message}`);
+		}
+
+		const scope = getRuleScope(ctx);
+
+		try {
+			const ruleId = RuleService.addRule(
+				type,
+				match === "-" ? null : match,
+				escalation,
+				descriptionWords.join(" ") || null,
+				scope,
+				adminId,
+			);
+			await ctx.reply(
+				`Rule #${ruleId} added${scope === null ? " in all groups" : ""}.\nLadder: ${RuleService.formatEscalation(escalation)}`,
+			);
+		} catch (error) {
+			StructuredLogger.logError(error as Error, {
+				userId: adminId,
+				operation: "add_rule",
+				type,
+			});
+			await ctx.reply("An error occurred while adding the rule.");
+		}
+	});
+
+	/**
+	 * Command handler for /editrule.
+	 * Changes the match value, ladder, description or severity of a rule.
+	 *
+	 * Permission: Admin or higher
+	 *
+	 * @example
+	 * Usage: /editrule <id> <match|ladder|description|severity> <value>
+	 * Example: /editrule 3 ladder warn,jail:60,ban
+	 * Example: /editrule 3 match -
+	 */
+	bot.command("editrule", adminOrHigher, async (ctx) => {
+		const adminId = ctx.from?.id;
+		if (!adminId) return;
+
+		const [rawId, field, ...valueWords] =
+			ctx.message?.text.split(" ").slice(1).filter(Boolean) || [];
+		const ruleId = parseRuleId(rawId);
+		const value = valueWords.join(" ");
+
+		if (!ruleId || !field || !value) {
+			return ctx.reply(
+				fmt`${bold("Usage:")} ${code("/editrule <id> <match|ladder|description|severity> <value>")}`,
+			);
+		}
+
+		let changes: Parameters<typeof RuleService.updateRule>[1];
+		try {
+			switch (field.toLowerCase()) {
+				case "match":
+					changes = { matchValue: value === "-" ? null : value };
+					break;
+				case "ladder":
+					changes = { escalation: RuleService.parseEscalation(value) };
+					break;
+				case "description":
+					changes = { description: value === "-" ? null : value };
+					break;
+				case "severity": {
+					const severity = Number.parseInt(value, 10);
+					if (!Number.isInteger(severity)) {
+						return ctx.reply("Severity must be a whole number.");
+					}
+					changes = { severity };
+					break;
+				}
+				default:
+					return ctx.reply(
+						"Unknown field. Use match, ladder, description or severity.",
+					);
+			}
+		} catch (error) {
+			return ctx.reply(`Invalid ladder: ${(error as Error).message}`);
+		}
+
+		try {
+			if (!RuleService.updateRule(ruleId, changes, adminId)) {
+				return ctx.reply(`Rule #${ruleId} not found.`);
+			}
+			const rule = RuleService.getRule(ruleId);
+			await ctx.reply(`Rule updated.\n\n${rule ? formatRule(rule) : ""}`);
+		} catch (error) {
+			StructuredLogger.logError(error as Error, {
+				userId: adminId,
+				operation: "edit_rule",
+				ruleId,
+			});
+			await ctx.reply("An error occurred while updating the rule.");
+		}
+	});
+
+	/**
+	 * Command handler for /removerule.
+	 * Deletes a rule. Past violations keep their rule ID.
+	 *
+	 * Permission: Admin or higher
+	 *
+	 * @example
+	 * Usage: /removerule <id>
+	 */
+	bot.command("removerule", adminOrHigher, async (ctx) => {
+		const adminId = ctx.from?.id;
+		if (!adminId) return;
+
+		const ruleId = parseRuleId(ctx.message?.text.split(" ")[1]);
+		if (!ruleId) {
+			return ctx.reply("Usage: /removerule <id>");
+		}
+
+		try {
+			if (!RuleService.removeRule(ruleId, adminId)) {
+				return ctx.reply(`Rule #${ruleId} not found.`);
+			}
+			await ctx.reply(`Rule #${ruleId} removed.`);
+		} catch (error) {
+			StructuredLogger.logError(error as Error, {
+				userId: adminId,
+				operation: "remove_rule",
+				ruleId,
+			});
+			await ctx.reply("An error occurred while removing the rule.");
+		}
+	});
+};
@@ -0,0 +1,147 @@
+/**
+ * @module middleware/floodControl
+ * @description Anti-flood middleware. Tracks recent messages per user per chat and, when a
+ * user floods a chat, repeats the same message or bursts media, deletes the burst and
+ * applies a temporary mute. Whitelisted users, owners, and admins are exempt.
+ */
+
+import type { Context, MiddlewareFn } from "telegraf";
+import type { Message } from "telegraf/types";
+import { get } from "../database";
+import { ChatService } from "../services/chatService";
+import { type FloodMessage, FloodService } from "../services/floodService";
+import { RestrictionService } from "../services/restrictionService";
+import type { User } from "../types";
+import { logger } from "../utils/logger";
+
+const REASON_LABELS = {
+	messages: "Flooding",
+	duplicates: "Repeated Messages",
+	media: "Media Spam",
+} as const;
+
+/**
+ * Builds the flood detector's view of a message: a fingerprint for
+ * duplicate detection (normalized text, or the media's unique file ID)
+ * and whether it is a media message.
+ *
+ * @param message - Incoming message
+ * @returns Message details for FloodService.recordMessage
+ */
+export function toFloodMessage(message: Message): FloodMessage {
+	let mediaId: string | undefined;
+	if ("sticker" in message) mediaId = message.sticker.file_unique_id;
+	else if ("animation" in message) mediaId = message.animation.file_unique_id;
+	else if ("photo" in message)
+		mediaId = message.photo[message.photo.length - 1]?.file_unique_id;
+	else if ("video" in message) mediaId = message.video.file_unique_id;
+	else if ("video_note" in message) mediaId = message.video_note.file_unique_id;
+	else if ("voice" in message) mediaId = message.voice.file_unique_id;
+	else if ("audio" in message) mediaId = message.audio.file_unique_id;
+	else if ("document" in message) mediaId = message.document.file_unique_id;
+
+	const text =
+		"text" in message
+			? message.text
+			: "caption" in message
+				? message.caption
+				: undefined;
+	const normalized = text?.trim().toLowerCase().replace(/\s+/g, " ");
+
+	return {
+		messageId: message.message_id,
+		fingerprint: normalized
+			? `text:${normalized}`
+			: mediaId
+				? `media:${mediaId}`
+				: null,
+		isMedia: mediaId !== undefined,
+	};
+}
+
+/**
+ * Middleware that detects message floods in group chats.
+ * Every group message is recorded in a sliding window per user per chat and
+ * checked against the admin-configurable thresholds (see /floodconfig):
+ * - Too many messages within a few seconds
+ * - The same text or media repeated
+ * - A burst of stickers, GIFs or other media
+ *
+ * On a breach the whole burst is deleted and the user is muted through
+ * RestrictionService.applyTemporaryMute. Detection can be switched off per
+ * chat with the "antiflood" feature.
+ *
+ * @param ctx - Telegraf context object containing message and user information
+ * @param next - Next middleware function to call if the message is not part of a flood
+ * @returns Promise that resolves when flood checking is complete
+ *
+ * @example
+ * // Apply after the message filter so restricted messages are handled first
+ * bot.use(messageFilterMiddleware);
+ * bot.use(floodControlMiddleware);
+ */
+export const floodControlMiddleware: MiddlewareFn<Context> = async (
+	ctx,
+	next,
+) => {
+	const isGroupChat =
+		ctx.chat?.type === "group" || ctx.chat?.type === "supergroup";
+	if (
+		!ctx.message ||
+		!ctx.from ||
+		!ctx.chat ||
+		!isGroupChat ||
+		"new_chat_members" in ctx.message ||
+		"left_chat_member" in ctx.message
+	) {
+		return next();
+	}
+
+	try {
+		if (!ChatService.isFeatureEnabled(ctx.chat.id, "antiflood")) {
+			return next();
+		}
+
+		const user = get<User>("SELECT * FROM users WHERE id = ?", [ctx.from.id]);
+		if (user?.whitelist || user?.role === "owner" || user?.role === "admin") {
+			return next();
+		}
+
+		const breach = FloodService.recordMessage(
+			ctx.chat.id,
+			ctx.from.id,
+			toFloodMessage(ctx.message),
+		);
+		if (!breach) {
+			return next();
+		}
+
+		logger.info("Flood detected", {
+			userId: ctx.from.id,
+			chatId: ctx.chat.id,
+			reason: breach.reason,
+			messages: breach.messageIds.length,
+		});
+
+		try {
+			await ctx.telegram.deleteMessages(ctx.chat.id, breach.messageIds);
+		} catch (error) {
+			logger.error(
+				"Failed to delete flood messages - bot may lack admin permissions",
+				{ userId: ctx.from.id, chatId: ctx.chat.id, error },
+			);
+		}
+
+		await RestrictionService.applyTemporaryMute(
+			ctx,
+			ctx.from.id,
+			FloodService.getSettings().muteMinutes,
+			REASON_LABELS[breach.reason],
+			"flood",
+		);
+		return;
+	} catch (error) {
+		logger.error("Error in flood control middleware", error);
+		return next(); // Continue on error to avoid blocking
+	}
+};
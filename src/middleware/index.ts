@@ -3,6 +3,7 @@
 import type { Context, MiddlewareFn } from "telegraf";
 import { config } from "../config";
 import { query } from "../database";
+import { type ChatFeature, ChatService } from "../services/chatService";
 import { LedgerService } from "../services/ledgerService";
 import { ensureUserExists, getUserRestrictions } from "../services/userService";
 import type { User } from "../types";
@@ -48,7 +49,7 @@ export const userManagementMiddleware: MiddlewareFn<Context> = async (
 		ensureUserExists(userId, username);
 
 		// Ensure user has a balance entry in the ledger
-		await LedgerService.ensureUserBalance(userId);
+		LedgerService.ensureUserBalance(userId);
 
 		// Fetch and preload user restrictions
 		const restrictions = getUserRestrictions(userId);
@@ -182,3 +183,67 @@ export const elevatedOrHigher: MiddlewareFn<Context> = (ctx, next) => {
  * @deprecated Consider using explicit `elevatedOrHigher` middleware instead for clarity.
  */
 export const elevatedAdminOnly = elevatedOrHigher;
+
+/**
+ * Middleware that keeps the chat registry in sync with the groups the bot is in.
+ * Registers every group or supergroup the first time an update arrives from it,
+ * and marks a chat inactive when the bot is removed from it.
+ *
+ * @param ctx - Telegraf context object containing chat information
+ * @param next - Next middleware function in the chain
+ * @returns Promise that resolves when the remaining middleware has run
+ *
+ * @example
+ * // Apply before any middleware that reads per-chat settings
+ * bot.use(chatRegistrationMiddleware);
+ */
+export const chatRegistrationMiddleware: MiddlewareFn<Context> = (
+	ctx,
+	next,
+) => {
+	const chat = ctx.chat;
+	if (chat?.type !== "group" && chat?.type !== "supergroup") {
+		return next();
+	}
+
+	try {
+		const status = ctx.myChatMember?.new_chat_member.status;
+		if (status === "left" || status === "kicked") {
+			ChatService.deactivateChat(chat.id);
+			logger.info("Bot removed from chat", { chatId: chat.id, status });
+		} else if (ctx.myChatMember) {
+			ChatService.registerChat(chat.id, chat.title);
+		} else {
+			ChatService.ensureChat(chat.id, chat.title);
+		}
+	} catch (error) {
+		logger.error("Error registering chat", { chatId: chat.id, error });
+	}
+
+	return next();
+};
+
+/**
+ * Creates a middleware that blocks a command in chats where a feature is disabled.
+ * Private chats are never blocked.
+ *
+ * @param feature - Feature the command belongs to
+ * @returns Middleware that replies with a notice if the feature is disabled
+ *
+ * @example
+ * // Roll can be switched off per group with /chatconfig feature gambling off
+ * bot.command('roll', requireChatFeature('gambling'), rollHandler);
+ */
+export const requireChatFeature =
+	(feature: ChatFeature): MiddlewareFn<Context> =>
+	(ctx, next) => {
+		const chatId = ctx.chat?.id;
+		if (
+			chatId !== undefined &&
+			ctx.chat?.type !== "private" &&
+			!ChatService.isFeatureEnabled(chatId, feature)
+		) {
+			return ctx.reply(`${feature} is disabled in this chat.`);
+		}
+		return next();
+	};
@@ -0,0 +1,104 @@
+/**
+ * @module middleware/maintenance
+ * @description Maintenance mode middleware. Short-circuits commands and inline buttons
+ * covered by a paused financial switch (see MaintenanceService) with a message explaining
+ * why, before they reach their handlers.
+ */
+
+import type { Context, MiddlewareFn } from "telegraf";
+import {
+	MaintenanceService,
+	type MaintenanceSwitch,
+} from "../services/maintenanceService";
+
+/** Command -> switch that blocks it */
+const BLOCKED_COMMANDS: Record<string, MaintenanceSwitch> = {
+	processdeposit: "deposits",
+	claimdeposit: "deposits",
+	claimmydeposit: "deposits",
+	verifydeposit: "deposits",
+	checkdeposit: "deposits",
+	checktx: "deposits",
+	// On-chain fine and bail payments credit overpayments to the ledger
+	verifypayment: "deposits",
+	verifybail: "deposits",
+	verifybailfor: "deposits",
+	withdraw: "withdrawals",
+	send: "transfers",
+	transfer: "transfers",
+	sharedsend: "transfers",
+	shareddeposit: "transfers",
+	payfine: "transfers",
+	payfines: "transfers",
+	payallfines: "transfers",
+	paybail: "transfers",
+	paybailfor: "transfers",
+	fundtreasury: "transfers",
+	contributetreasury: "transfers",
+	withdrawtreasury: "transfers",
+	roll: "gambling",
+	duel: "gambling",
+	giveaway: "giveaways",
+	cancelgiveaway: "giveaways",
+};
+
+/** Callback data prefix -> switch that blocks it */
+const BLOCKED_CALLBACKS: [string, MaintenanceSwitch][] = [
+	["duel_accept_", "gambling"],
+	["duel_cons_", "gambling"],
+	["giveaway_fund_", "giveaways"],
+	["giveaway_create_", "giveaways"],
+	["claim_giveaway_", "giveaways"],
+	["give_", "giveaways"],
+];
+
+/**
+ * Finds the switch covering an update, if any.
+ *
+ * @param ctx - Telegraf context object
+ * @returns The switch, or undefined if the update is not a financial action
+ */
+export function getMaintenanceSwitch(
+	ctx: Context,
+): MaintenanceSwitch | undefined {
+	const text =
+		ctx.message && "text" in ctx.message ? ctx.message.text : undefined;
+	if (text?.startsWith("/")) {
+		const command = text.slice(1).split(/[\s@]/)[0].toLowerCase();
+		return BLOCKED_COMMANDS[command];
+	}
+
+	const data =
+		ctx.callbackQuery && "data" in ctx.callbackQuery
+			? ctx.callbackQuery.data
+			: undefined;
+	if (data) {
+		return BLOCKED_CALLBACKS.find(([prefix]) => data.startsWith(prefix))?.[1];
+	}
+
+	return undefined;
+}
+
+/**
+ * Middleware that blocks commands and buttons whose switch is paused.
+ *
+ * @param ctx - Telegraf context object
+ * @param next - Next middleware function
+ */
+export const maintenanceMiddleware: MiddlewareFn<Context> = async (
+	ctx,
+	next,
+) => {
+	const name = getMaintenanceSwitch(ctx);
+	const pause = name ? MaintenanceService.getPause(name) : undefined;
+	if (!name || !pause) {
+		return next();
+	}
+
+	const message = MaintenanceService.formatBlockedMessage(name, pause);
+	if (ctx.callbackQuery) {
+		await ctx.answerCbQuery(message, { show_alert: true });
+		return;
+	}
+	await ctx.reply(message);
+};
@@ -2,11 +2,14 @@
  * @module middleware/messageFilter
  * @description Message filtering middleware for enforcing user restrictions and mutes.
  * Monitors incoming messages in group chats and applies restrictions like mutes, sticker blocks,
- * URL blocks, and regex pattern filters. Whitelisted users, owners, and admins are exempt from filtering.
+ * URL blocks, and regex pattern filters. Blacklisted users are banned on their first message. Whitelisted users, owners, and admins are exempt from filtering.
  */
 
 import type { Context, MiddlewareFn } from "telegraf";
 import { get } from "../database";
+import { ChatService } from "../services/chatService";
+import { JailService } from "../services/jailService";
+import { JoinScreeningService } from "../services/joinScreeningService";
 import { RestrictionService } from "../services/restrictionService";
 import { ensureUserExists } from "../services/userService";
 import type { User } from "../types";
@@ -15,11 +18,14 @@ import { logger } from "../utils/logger";
 /**
  * Middleware that filters messages based on user restrictions and mute status.
  * Runs on every message to enforce restrictions like:
- * - Mutes (jails) - deletes all messages from muted users in group chats
+ * - Blacklist - deletes the message and bans the user from the group
+ * - Mutes (jails) - deletes all messages from users jailed in this chat or network-wide
  * - Sticker restrictions - blocks specific stickers or sticker packs
  * - URL restrictions - blocks links to specific domains
  * - Regex pattern restrictions - blocks messages matching patterns
  *
+ * Restriction checks can be switched off per chat with the "filters" feature.
+ *
  * Important: Only applies in group/supergroup chats. Private DMs are never filtered.
  * Whitelisted users, owners, and admins bypass all filtering.
  *
@@ -57,19 +63,47 @@ export const messageFilterMiddleware: MiddlewareFn<Context> = async (
 			return next();
 		}
 
-		// Check if user is muted - ONLY apply in group chats, not DMs
 		const isGroupChat =
 			ctx.chat?.type === "group" || ctx.chat?.type === "supergroup";
+
+		// Blacklisted users are banned as soon as they post in a group.
+		// Join service messages are left to the join screening handlers.
 		if (
 			isGroupChat &&
-			user?.muted_until &&
-			user.muted_until > Date.now() / 1000
+			ctx.chat &&
+			user?.blacklist &&
+			!("new_chat_members" in ctx.message)
 		) {
+			try {
+				await ctx.deleteMessage();
+			} catch (error) {
+				logger.error("Failed to delete message from blacklisted user", {
+					userId: ctx.from.id,
+					chatId: ctx.chat.id,
+					error,
+				});
+			}
+			await JoinScreeningService.enforceBlacklist(
+				ctx.telegram,
+				ctx.chat.id,
+				ctx.from.id,
+				"message",
+			);
+			return;
+		}
+
+		// Check if user is jailed in this chat - ONLY apply in group chats, not DMs
+		const mutedUntil =
+			isGroupChat && ctx.chat
+				? JailService.getJailedUntil(ctx.from.id, ctx.chat.id)
+				: null;
+		if (mutedUntil !== null) {
 			try {
 				await ctx.deleteMessage();
 				logger.info("Deleted message from jailed user", {
 					userId: ctx.from.id,
-					mutedUntil: user.muted_until,
+					chatId: ctx.chat?.id,
+					mutedUntil,
 				});
 			} catch (error) {
 				logger.error(
@@ -84,8 +118,12 @@ export const messageFilterMiddleware: MiddlewareFn<Context> = async (
 			return; // Don't continue regardless of deletion success
 		}
 
-		// Check message against restrictions (only in group chats)
-		if (isGroupChat) {
+		// Check message against restrictions (only in group chats with filters enabled)
+		if (
+			isGroupChat &&
+			ctx.chat &&
+			ChatService.isFeatureEnabled(ctx.chat.id, "filters")
+		) {
 			const violated = await RestrictionService.checkMessage(
 				ctx,
 				ctx.message,
@@ -0,0 +1,42 @@
+/**
+ * @module middleware/metrics
+ * @description Metrics middleware. Records when the last update arrived from Telegram
+ * (used by the health check to tell whether polling is alive) and times how long each
+ * command takes to handle for the command latency histogram.
+ */
+
+import type { Context, MiddlewareFn } from "telegraf";
+import { MetricsService } from "../services/metricsService";
+
+/**
+ * Middleware that records update activity and command latency.
+ * Should be registered first so the timing covers every other middleware.
+ *
+ * @param ctx - Telegraf context object
+ * @param next - Next middleware function
+ */
+export const commandMetricsMiddleware: MiddlewareFn<Context> = async (
+	ctx,
+	next,
+) => {
+	MetricsService.recordUpdate();
+
+	const text =
+		ctx.message && "text" in ctx.message ? ctx.message.text : undefined;
+	const command = text?.startsWith("/")
+		? text.slice(1).split(/[\s@]/)[0]
+		: undefined;
+	if (!command) {
+		return next();
+	}
+
+	const started = performance.now();
+	try {
+		await next();
+	} finally {
+		MetricsService.observeCommand(
+			command,
+			(performance.now() - started) / 1000,
+		);
+	}
+};
@@ -0,0 +1,42 @@
+/**
+ * Migration moving jail state from users.muted_until to the per-chat
+ * user_jails table.
+ *
+ * Before multi-group support a jail silenced the user in every chat, so
+ * active legacy jails become network-wide jails (chat_id 0). Expired values
+ * are discarded. The users.muted_until column is dropped afterwards.
+ *
+ * @module migrations/chatScopedJails
+ */
+
+import type Database from "better-sqlite3";
+import { logger } from "../utils/logger";
+import { dropIndexesOnColumn, hasColumn } from "./helpers";
+import type { SchemaMigration } from "./index";
+
+/**
+ * Moves active legacy jails to user_jails and drops users.muted_until.
+ * Requires the user_jails table created by initDb.
+ */
+export const chatScopedJailsMigration: SchemaMigration = {
+	name: "002_chat_scoped_jails",
+	up: (db: Database.Database) => {
+		if (!hasColumn(db, "users", "muted_until")) {
+			return;
+		}
+
+		const now = Math.floor(Date.now() / 1000);
+		const moved = db
+			.prepare(
+				`INSERT OR REPLACE INTO user_jails (user_id, chat_id, muted_until)
+         SELECT id, 0, muted_until FROM users
+         WHERE muted_until IS NOT NULL AND muted_until > ?`,
+			)
+			.run(now).changes;
+
+		dropIndexesOnColumn(db, "users", "muted_until");
+		db.exec("ALTER TABLE users DROP COLUMN muted_until");
+
+		logger.info("Legacy jails moved to user_jails", { moved });
+	},
+};
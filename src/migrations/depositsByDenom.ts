@@ -0,0 +1,71 @@
+/**
+ * Migration keying processed deposits by transaction and denom.
+ *
+ * processed_deposits had a UNIQUE tx_hash, so a transaction sending several
+ * registered denoms could only ever be credited in one of them. The table
+ * is rebuilt with a UNIQUE (tx_hash, denom) constraint; existing rows are
+ * kept as they are. Databases created with the new schema are left
+ * untouched.
+ *
+ * @module migrations/depositsByDenom
+ */
+
+import type Database from "better-sqlite3";
+import { logger } from "../utils/logger";
+import { hasUniqueIndex } from "./helpers";
+import type { SchemaMigration } from "./index";
+
+/**
+ * Rebuilds processed_deposits with one row per transaction and denom.
+ * Requires the denom and claim columns added by initDb; indexes are
+ * recreated on the new table by initDb.
+ */
+export const depositsByDenomMigration: SchemaMigration = {
+	name: "006_deposits_by_denom",
+	up: (db: Database.Database) => {
+		if (!hasUniqueIndex(db, "processed_deposits", ["tx_hash"])) {
+			return;
+		}
+
+		const columns = `id, tx_hash, denom, user_id, amount, from_address, memo, height,
+        processed, processed_at, error, created_at, suggested_user_id,
+        claim_user_id, claim_challenge_ujuno, claim_expires_at, claim_status,
+        claim_proof_tx_hash`;
+
+		db.exec(`
+      CREATE TABLE processed_deposits_by_denom (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        tx_hash TEXT NOT NULL,
+        denom TEXT NOT NULL DEFAULT 'ujuno',
+        user_id INTEGER,
+        amount REAL NOT NULL,
+        from_address TEXT NOT NULL,
+        memo TEXT,
+        height INTEGER NOT NULL,
+        processed INTEGER DEFAULT 0,
+        processed_at INTEGER,
+        error TEXT,
+        created_at INTEGER DEFAULT (strftime('%s', 'now')),
+        suggested_user_id INTEGER REFERENCES users(id),
+        claim_user_id INTEGER REFERENCES users(id),
+        claim_challenge_ujuno INTEGER,
+        claim_expires_at INTEGER,
+        claim_status TEXT,
+        claim_proof_tx_hash TEXT,
+        UNIQUE (tx_hash, denom),
+        FOREIGN KEY (user_id) REFERENCES users(id)
+      );
+
+      INSERT INTO processed_deposits_by_denom (${columns})
+      SELECT ${columns} FROM processed_deposits;
+
+      DROP TABLE processed_deposits;
+      ALTER TABLE processed_deposits_by_denom RENAME TO processed_deposits;
+    `);
+
+		const { count } = db
+			.prepare("SELECT COUNT(*) AS count FROM processed_deposits")
+			.get() as { count: number };
+		logger.info("Processed deposits keyed by denom", { deposits: count });
+	},
+};
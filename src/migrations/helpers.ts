@@ -0,0 +1,66 @@
+/**
+ * Schema inspection helpers shared by the versioned migrations.
+ *
+ * @module migrations/helpers
+ */
+
+import type Database from "better-sqlite3";
+
+/**
+ * Checks whether a table has a column.
+ */
+export function hasColumn(
+	db: Database.Database,
+	table: string,
+	column: string,
+): boolean {
+	const columns = db.pragma(`table_info(${table})`) as { name: string }[];
+	return columns.some((c) => c.name === column);
+}
+
+/**
+ * Checks whether a unique index covers exactly the given columns.
+ */
+export function hasUniqueIndex(
+	db: Database.Database,
+	table: string,
+	columns: string[],
+): boolean {
+	const indexes = db.pragma(`index_list(${table})`) as {
+		name: string;
+		unique: number;
+	}[];
+
+	return indexes.some((index) => {
+		if (!index.unique) return false;
+		const indexColumns = (
+			db.pragma(`index_info(${index.name})`) as { name: string }[]
+		).map((c) => c.name);
+		return indexColumns.join(",") === columns.join(",");
+	});
+}
+
+/**
+ * Drops every index that covers the given column so it can be removed.
+ * Indexes are recreated on the new columns by initDb.
+ */
+export function dropIndexesOnColumn(
+	db: Database.Database,
+	table: string,
+	column: string,
+): void {
+	const indexes = db.pragma(`index_list(${table})`) as {
+		name: string;
+		origin: string;
+	}[];
+
+	for (const index of indexes) {
+		if (index.origin !== "c") continue;
+		const indexColumns = db.pragma(`index_info(${index.name})`) as {
+			name: string;
+		}[];
+		if (indexColumns.some((c) => c.name === column)) {
+			db.exec(`DROP INDEX IF EXISTS ${index.name}`);
+		}
+	}
+}
@@ -0,0 +1,94 @@
+/**
+ * Versioned schema migrations for the CAC Admin Bot.
+ * Runs code-based migrations that cannot be expressed as plain CREATE/ALTER
+ * statements in initDb, such as data conversions that must be verified.
+ *
+ * Applied migrations are tracked by name in the same `migrations` table used
+ * by scripts/migrate.ts, so each migration runs exactly once per database.
+ *
+ * @module migrations
+ */
+
+import type Database from "better-sqlite3";
+import { logger } from "../utils/logger";
+import { chatScopedJailsMigration } from "./chatScopedJails";
+import { depositsByDenomMigration } from "./depositsByDenom";
+import { integerLedgerMigration } from "./integerLedger";
+import { multiDenomBalancesMigration } from "./multiDenomBalances";
+import { openingBalancesMigration } from "./openingBalances";
+import { reclassifyTransactionsMigration } from "./reclassifyTransactions";
+
+/**
+ * A single versioned migration.
+ */
+export interface SchemaMigration {
+	/** Unique name recorded in the migrations table */
+	name: string;
+	/**
+	 * Applies the migration. Runs inside a transaction; throwing rolls back
+	 * every change made by the migration.
+	 */
+	up: (db: Database.Database) => void;
+}
+
+/**
+ * All schema migrations in the order they must be applied.
+ */
+export const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+	integerLedgerMigration,
+	chatScopedJailsMigration,
+	reclassifyTransactionsMigration,
+	openingBalancesMigration,
+	multiDenomBalancesMigration,
+	depositsByDenomMigration,
+];
+
+/**
+ * Applies every pending schema migration in order.
+ * Each migration runs in its own transaction together with its bookkeeping row.
+ *
+ * @param db - Open database handle
+ * @param migrations - Migrations to consider (defaults to SCHEMA_MIGRATIONS)
+ * @returns Names of the migrations applied by this call
+ * @throws {Error} If a migration fails; the failing migration is rolled back
+ *
+ * @example
+ * ```typescript
+ * const applied = runSchemaMigrations(db);
+ * ```
+ */
+export function runSchemaMigrations(
+	db: Database.Database,
+	migrations: SchemaMigration[] = SCHEMA_MIGRATIONS,
+): string[] {
+	db.exec(`
+    CREATE TABLE IF NOT EXISTS migrations (
+      id INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER DEFAULT (strftime('%s', 'now'))
+    )
+  `);
+
+	const applied = new Set(
+		(db.prepare("SELECT name FROM migrations").all() as { name: string }[]).map(
+			(m) => m.name,
+		),
+	);
+
+	const newlyApplied: string[] = [];
+	for (const migration of migrations) {
+		if (applied.has(migration.name)) continue;
+
+		db.transaction(() => {
+			migration.up(db);
+			db.prepare("INSERT INTO migrations (name) VALUES (?)").run(
+				migration.name,
+			);
+		})();
+
+		logger.info("Schema migration applied", { migration: migration.name });
+		newlyApplied.push(migration.name);
+	}
+
+	return newlyApplied;
+}
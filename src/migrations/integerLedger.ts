@@ -0,0 +1,203 @@
+/**
+ * Migration converting ledger amounts from REAL JUNO to INTEGER ujuno.
+ *
+ * For every ledger column the migration adds an `_ujuno` column, fills it
+ * with the per-row rounded micro amount, proves the converted totals match
+ * the legacy totals and finally drops the legacy REAL column. Any mismatch
+ * throws, which rolls the whole migration back and leaves the database untouched.
+ *
+ * @module migrations/integerLedger
+ */
+
+import type Database from "better-sqlite3";
+import { logger } from "../utils/logger";
+import { dropIndexesOnColumn, hasColumn } from "./helpers";
+import type { SchemaMigration } from "./index";
+
+/**
+ * A REAL JUNO column and the INTEGER ujuno column replacing it.
+ */
+export interface LedgerColumnConversion {
+	table: string;
+	legacyColumn: string;
+	targetColumn: string;
+	/** Whether the column may hold NULL (e.g. balance_after) */
+	nullable: boolean;
+}
+
+/**
+ * Totals gathered while converting a single column.
+ */
+export interface ConversionProof {
+	table: string;
+	column: string;
+	rows: number;
+	/** Sum of the legacy REAL values, scaled to ujuno without rounding */
+	legacyTotalMicro: number;
+	/** Exact integer sum of the converted column */
+	convertedTotal: number;
+	/** Sub-ujuno dust dropped by per-row rounding */
+	dust: number;
+}
+
+const MICRO_PER_JUNO = 1_000_000;
+
+const LEDGER_COLUMNS: LedgerColumnConversion[] = [
+	{
+		table: "user_balances",
+		legacyColumn: "balance",
+		targetColumn: "balance_ujuno",
+		nullable: false,
+	},
+	{
+		table: "transactions",
+		legacyColumn: "amount",
+		targetColumn: "amount_ujuno",
+		nullable: false,
+	},
+	{
+		table: "transactions",
+		legacyColumn: "balance_after",
+		targetColumn: "balance_after_ujuno",
+		nullable: true,
+	},
+	{
+		table: "giveaways",
+		legacyColumn: "total_amount",
+		targetColumn: "total_amount_ujuno",
+		nullable: false,
+	},
+	{
+		table: "giveaways",
+		legacyColumn: "amount_per_slot",
+		targetColumn: "amount_per_slot_ujuno",
+		nullable: false,
+	},
+	{
+		table: "giveaway_claims",
+		legacyColumn: "amount",
+		targetColumn: "amount_ujuno",
+		nullable: false,
+	},
+	{
+		table: "duels",
+		legacyColumn: "wager_amount",
+		targetColumn: "wager_amount_ujuno",
+		nullable: false,
+	},
+];
+
+/**
+ * Converts a legacy JUNO value to ujuno, rounding half away from zero.
+ */
+function toMicro(value: number): number {
+	const scaled = Math.round(Math.abs(value) * MICRO_PER_JUNO);
+	return value < 0 ? -scaled : scaled;
+}
+
+/**
+ * Converts one column and returns the proof that its totals match.
+ *
+ * @throws {Error} If any row or the column total does not match the legacy values
+ */
+export function convertLedgerColumn(
+	db: Database.Database,
+	conversion: LedgerColumnConversion,
+): ConversionProof {
+	const { table, legacyColumn, targetColumn, nullable } = conversion;
+
+	if (!hasColumn(db, table, targetColumn)) {
+		db.exec(
+			`ALTER TABLE ${table} ADD COLUMN ${targetColumn} INTEGER${nullable ? "" : " NOT NULL DEFAULT 0"}`,
+		);
+	}
+
+	const rows = db
+		.prepare(`SELECT rowid AS id, ${legacyColumn} AS legacy FROM ${table}`)
+		.all() as { id: number; legacy: number | null }[];
+
+	const update = db.prepare(
+		`UPDATE ${table} SET ${targetColumn} = ? WHERE rowid = ?`,
+	);
+
+	let expectedTotal = 0;
+	let legacyTotalMicro = 0;
+	for (const row of rows) {
+		if (row.legacy === null) {
+			if (!nullable) {
+				throw new Error(`${table}.${legacyColumn} contains NULL values`);
+			}
+			update.run(null, row.id);
+			continue;
+		}
+		const micro = toMicro(row.legacy);
+		expectedTotal += micro;
+		legacyTotalMicro += row.legacy * MICRO_PER_JUNO;
+		update.run(micro, row.id);
+	}
+
+	// Every row must have been converted with its exact rounded value
+	const select = db.prepare(
+		`SELECT ${targetColumn} AS value FROM ${table} WHERE rowid = ?`,
+	);
+	const mismatched = rows.filter((row) => {
+		const converted = select.get(row.id) as { value: number | null };
+		return row.legacy === null
+			? converted.value !== null
+			: converted.value !== toMicro(row.legacy);
+	});
+	if (mismatched.length > 0) {
+		throw new Error(
+			`${table}.${targetColumn}: ${mismatched.length} row(s) did not convert exactly`,
+		);
+	}
+
+	const { total: convertedTotal } = db
+		.prepare(`SELECT COALESCE(SUM(${targetColumn}), 0) AS total FROM ${table}`)
+		.get() as { total: number };
+
+	if (convertedTotal !== expectedTotal) {
+		throw new Error(
+			`${table}.${targetColumn}: converted total ${convertedTotal} does not match expected ${expectedTotal}`,
+		);
+	}
+
+	// Per-row rounding can move each value by at most half a ujuno.
+	// Anything beyond that means the conversion lost real funds.
+	const dust = legacyTotalMicro - convertedTotal;
+	if (Math.abs(dust) > rows.length / 2 + 1e-6) {
+		throw new Error(
+			`${table}.${targetColumn}: converted total ${convertedTotal} drifts ${dust} ujuno from legacy total`,
+		);
+	}
+
+	dropIndexesOnColumn(db, table, legacyColumn);
+	db.exec(`ALTER TABLE ${table} DROP COLUMN ${legacyColumn}`);
+
+	return {
+		table,
+		column: targetColumn,
+		rows: rows.length,
+		legacyTotalMicro,
+		convertedTotal,
+		dust,
+	};
+}
+
+/**
+ * Moves all ledger amounts to integer ujuno columns.
+ * Columns that no longer have a legacy REAL counterpart (fresh databases) are skipped.
+ */
+export const integerLedgerMigration: SchemaMigration = {
+	name: "001_integer_ujuno_ledger",
+	up: (db) => {
+		for (const conversion of LEDGER_COLUMNS) {
+			if (!hasColumn(db, conversion.table, conversion.legacyColumn)) {
+				continue;
+			}
+
+			const proof = convertLedgerColumn(db, conversion);
+			logger.info("Ledger column converted to ujuno", { ...proof });
+		}
+	},
+};
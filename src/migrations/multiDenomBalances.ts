@@ -0,0 +1,51 @@
+/**
+ * Migration keying cached balances by denom.
+ *
+ * user_balances held a single ujuno balance per account. It is rebuilt with
+ * a (user_id, denom) primary key; every existing balance becomes the
+ * account's ujuno balance. Databases created with the new schema are left
+ * untouched.
+ *
+ * @module migrations/multiDenomBalances
+ */
+
+import type Database from "better-sqlite3";
+import { logger } from "../utils/logger";
+import { hasColumn } from "./helpers";
+import type { SchemaMigration } from "./index";
+
+/**
+ * Rebuilds user_balances with one row per account and denom.
+ * Indexes are recreated on the new table by initDb.
+ */
+export const multiDenomBalancesMigration: SchemaMigration = {
+	name: "005_multi_denom_balances",
+	up: (db: Database.Database) => {
+		if (hasColumn(db, "user_balances", "denom")) {
+			return;
+		}
+
+		db.exec(`
+      CREATE TABLE user_balances_by_denom (
+        user_id INTEGER NOT NULL,
+        denom TEXT NOT NULL DEFAULT 'ujuno',
+        balance_ujuno INTEGER NOT NULL DEFAULT 0,
+        last_updated INTEGER DEFAULT (strftime('%s', 'now')),
+        created_at INTEGER DEFAULT (strftime('%s', 'now')),
+        PRIMARY KEY (user_id, denom),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+
+      INSERT INTO user_balances_by_denom (user_id, denom, balance_ujuno, last_updated, created_at)
+      SELECT user_id, 'ujuno', balance_ujuno, last_updated, created_at FROM user_balances;
+
+      DROP TABLE user_balances;
+      ALTER TABLE user_balances_by_denom RENAME TO user_balances;
+    `);
+
+		const { count } = db
+			.prepare("SELECT COUNT(*) AS count FROM user_balances")
+			.get() as { count: number };
+		logger.info("Cached balances keyed by denom", { accounts: count });
+	},
+};
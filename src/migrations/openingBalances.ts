@@ -0,0 +1,61 @@
+/**
+ * Migration opening the double-entry journal from the cached balances.
+ *
+ * Balances written before the journal existed have no postings behind them.
+ * This books one opening entry that posts every nonzero cached balance and
+ * balances it against the external account, so the audit can recompute
+ * every account from postings alone.
+ *
+ * @module migrations/openingBalances
+ */
+
+import type Database from "better-sqlite3";
+import { logger } from "../utils/logger";
+import type { SchemaMigration } from "./index";
+
+/** Journal account balancing the opening entry (see LedgerService) */
+const EXTERNAL_ACCOUNT_ID = 0;
+
+/**
+ * Books cached balances as one opening journal entry.
+ * Requires the ledger_postings table created by initDb.
+ */
+export const openingBalancesMigration: SchemaMigration = {
+	name: "004_opening_journal_balances",
+	up: (db: Database.Database) => {
+		const balances = db
+			.prepare(
+				"SELECT user_id, balance_ujuno FROM user_balances WHERE balance_ujuno != 0 ORDER BY user_id",
+			)
+			.all() as { user_id: number; balance_ujuno: number }[];
+
+		if (balances.length === 0) {
+			logger.info("No balances to open the ledger journal with");
+			return;
+		}
+
+		const total = balances.reduce((sum, row) => sum + row.balance_ujuno, 0);
+		const transactionId = db
+			.prepare(
+				`INSERT INTO transactions (transaction_type, amount_ujuno, description, status, metadata)
+         VALUES ('adjustment', ?, 'Opening journal balances', 'completed', ?)`,
+			)
+			.run(
+				Math.abs(total),
+				JSON.stringify({ type: "opening_balances", accounts: balances.length }),
+			).lastInsertRowid;
+
+		const insertPosting = db.prepare(
+			"INSERT INTO ledger_postings (transaction_id, account_id, amount_ujuno) VALUES (?, ?, ?)",
+		);
+		for (const row of balances) {
+			insertPosting.run(transactionId, row.user_id, row.balance_ujuno);
+		}
+		insertPosting.run(transactionId, EXTERNAL_ACCOUNT_ID, -total);
+
+		logger.info("Ledger journal opened from cached balances", {
+			accounts: balances.length,
+			totalMicro: total,
+		});
+	},
+};
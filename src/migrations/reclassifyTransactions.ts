@@ -0,0 +1,110 @@
+/**
+ * Migration reclassifying historical ledger rows into the dedicated
+ * transaction types.
+ *
+ * Before these types existed, refunds and reconciliation credits were booked
+ * as giveaways, debits and gas fees as fines, and giveaway escrow moves and
+ * duels as transfers (duels were later rewritten to gambling). The original
+ * flow is recovered from the descriptions and metadata those code paths
+ * wrote, and parent links are filled in where the parent can be found.
+ *
+ * @module migrations/reclassifyTransactions
+ */
+
+import type Database from "better-sqlite3";
+import { logger } from "../utils/logger";
+import type { SchemaMigration } from "./index";
+
+const GAS_FEE_PREFIX = "Gas fee for withdrawal ";
+
+/**
+ * Rewrites legacy transaction types from descriptions and links parents.
+ * Requires the parent_transaction_id column added by initDb.
+ */
+export const reclassifyTransactionsMigration: SchemaMigration = {
+	name: "003_reclassify_transactions",
+	up: (db: Database.Database) => {
+		// Gas fees: "Gas fee for withdrawal <first 16 chars of hash>..."
+		const gasFees = db
+			.prepare(
+				`UPDATE transactions SET
+           transaction_type = 'gas_fee',
+           parent_transaction_id = (
+             SELECT MIN(w.id) FROM transactions w
+             WHERE w.transaction_type = 'withdrawal'
+               AND w.tx_hash IS NOT NULL
+               AND substr(w.tx_hash, 1, 16) = substr(transactions.description, ?, 16)
+           )
+         WHERE transaction_type IN ('fine', 'giveaway')
+           AND description LIKE ?`,
+			)
+			.run(GAS_FEE_PREFIX.length + 1, `${GAS_FEE_PREFIX}%`).changes;
+
+		// Remaining processAdjustment rows
+		const adjustments = db
+			.prepare(
+				`UPDATE transactions SET transaction_type = 'adjustment'
+         WHERE transaction_type IN ('fine', 'giveaway')
+           AND json_valid(metadata)
+           AND json_extract(metadata, '$.type') = 'reconciliation_adjustment'`,
+			)
+			.run().changes;
+
+		// Withdrawal refunds, linked to the user's last withdrawal before them
+		const refunds = db
+			.prepare(
+				`UPDATE transactions SET
+           transaction_type = 'refund',
+           parent_transaction_id = (
+             SELECT MAX(w.id) FROM transactions w
+             WHERE w.transaction_type = 'withdrawal'
+               AND w.from_user_id = transactions.to_user_id
+               AND w.id < transactions.id
+           )
+         WHERE transaction_type = 'giveaway'
+           AND description LIKE 'Withdrawal refund%'`,
+			)
+			.run().changes;
+
+		// Giveaway escrow funding, claims and cancellation refunds
+		const escrowLocks = db
+			.prepare(
+				`UPDATE transactions SET transaction_type = 'escrow_lock'
+         WHERE transaction_type = 'transfer'
+           AND description GLOB 'Giveaway #* escrow funding'`,
+			)
+			.run().changes;
+		const escrowReleases = db
+			.prepare(
+				`UPDATE transactions SET
+           transaction_type = 'escrow_release',
+           parent_transaction_id = (
+             SELECT MIN(l.id) FROM transactions l
+             WHERE l.transaction_type = 'escrow_lock'
+               AND l.to_user_id = transactions.from_user_id
+           )
+         WHERE transaction_type = 'transfer'
+           AND (description GLOB 'Giveaway #* claim'
+             OR description GLOB 'Refund from cancelled giveaway #*')`,
+			)
+			.run().changes;
+
+		// Duels moved the loser's wager straight to the winner in one row
+		const duelWagers = db
+			.prepare(
+				`UPDATE transactions SET transaction_type = 'duel_wager'
+         WHERE transaction_type IN ('transfer', 'gambling')
+           AND description GLOB 'Duel #* lost'`,
+			)
+			.run().changes;
+
+		logger.info("Ledger transactions reclassified", {
+			gasFees,
+			adjustments,
+			refunds,
+			escrowLocks,
+			escrowReleases,
+			duelWagers,
+		});
+	},
+};
@@ -0,0 +1,155 @@
+/**
+ * Admin HTTP API module.
+ * Serves the health check and Prometheus metrics over HTTP for monitoring.
+ *
+ * The server only listens on localhost and every request must carry the
+ * configured token (Authorization: Bearer <token>).
+ *
+ * Routes:
+ * - GET /healthz - JSON health report (503 if any check fails)
+ * - GET /metrics - Prometheus text exposition
+ *
+ * @module services/adminApiService
+ */
+
+import { createHash, timingSafeEqual } from "crypto";
+import {
+	createServer,
+	type IncomingMessage,
+	type Server,
+	type ServerResponse,
+} from "http";
+import type { AddressInfo } from "net";
+import type { Telegram } from "telegraf";
+import { logger, StructuredLogger } from "../utils/logger";
+import { HealthService } from "./healthService";
+import { MetricsService } from "./metricsService";
+
+/**
+ * Service class for the admin HTTP API.
+ */
+export class AdminApiService {
+	private static server: Server | null = null;
+
+	/**
+	 * Starts the HTTP server on 127.0.0.1.
+	 *
+	 * @param telegram - Telegram instance used by the health check
+	 * @param port - Port to listen on (0 picks a free port)
+	 * @param token - Token required in the Authorization header
+	 * @returns The port the server is listening on
+	 */
+	static async start(
+		telegram: Telegram,
+		port: number,
+		token: string,
+	): Promise<number> {
+		if (AdminApiService.server) {
+			throw new Error("Admin API is already running");
+		}
+
+		const server = createServer((req, res) => {
+			AdminApiService.handle(telegram, token, req, res).catch((error) => {
+				StructuredLogger.logError(error as Error, {
+					operation: "admin_api_request",
+					path: req.url,
+				});
+				if (!res.headersSent) {
+					AdminApiService.send(res, 500, "Internal server error\n");
+				} else {
+					res.end();
+				}
+			});
+		});
+
+		await new Promise<void>((resolve, reject) => {
+			server.once("error", reject);
+			server.listen(port, "127.0.0.1", () => {
+				server.off("error", reject);
+				resolve();
+			});
+		});
+		AdminApiService.server = server;
+
+		const boundPort = (server.address() as AddressInfo).port;
+		logger.info("Admin API listening", { host: "127.0.0.1", port: boundPort });
+		return boundPort;
+	}
+
+	/**
+	 * Stops the HTTP server if it is running.
+	 */
+	static async stop(): Promise<void> {
+		const server = AdminApiService.server;
+		if (!server) return;
+		AdminApiService.server = null;
+
+		await new Promise<void>((resolve) => server.close(() => resolve()));
+		logger.info("Admin API stopped");
+	}
+
+	private static async handle(
+		telegram: Telegram,
+		token: string,
+		req: IncomingMessage,
+		res: ServerResponse,
+	): Promise<void> {
+		if (!AdminApiService.isAuthorized(req, token)) {
+			StructuredLogger.logSecurityEvent("Unauthorized admin API request", {
+				operation: "admin_api_unauthorized",
+				path: req.url,
+			});
+			res.setHeader("WWW-Authenticate", "Bearer");
+			return AdminApiService.send(res, 401, "Unauthorized\n");
+		}
+
+		const path = new URL(req.url || "/", "http://localhost").pathname;
+		if (path !== "/healthz" && path !== "/metrics") {
+			return AdminApiService.send(res, 404, "Not found\n");
+		}
+		if (req.method !== "GET") {
+			res.setHeader("Allow", "GET");
+			return AdminApiService.send(res, 405, "Method not allowed\n");
+		}
+
+		if (path === "/healthz") {
+			const report = await HealthService.check(telegram);
+			return AdminApiService.send(
+				res,
+				report.ok ? 200 : 503,
+				`${JSON.stringify(report)}\n`,
+				"application/json",
+			);
+		}
+
+		return AdminApiService.send(
+			res,
+			200,
+			MetricsService.render(),
+			"text/plain; version=0.0.4",
+		);
+	}
+
+	/**
+	 * Compares the bearer token in constant time (hashing both sides first so
+	 * the comparison does not leak the token length).
+	 */
+	private static isAuthorized(req: IncomingMessage, token: string): boolean {
+		const match = /^Bearer (.+)$/.exec(req.headers.authorization || "");
+		if (!match) return false;
+
+		const digest = (value: string) =>
+			createHash("sha256").update(value).digest();
+		return timingSafeEqual(digest(match[1]), digest(token));
+	}
+
+	private static send(
+		res: ServerResponse,
+		status: number,
+		body: string,
+		contentType = "text/plain",
+	): void {
+		res.writeHead(status, { "Content-Type": `${contentType}; charset=utf-8` });
+		res.end(body);
+	}
+}
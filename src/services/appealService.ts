@@ -0,0 +1,764 @@
+/**
+ * Appeal service module.
+ * Lets users appeal a jail, mute, fine or restriction case. Appeals are
+ * posted to the admin chat with Uphold / Reduce / Overturn buttons:
+ *
+ * - uphold keeps the action as it is
+ * - reduce halves what is left of it: the remaining jail, mute or
+ *   restriction time or an unpaid fine; half of a fine or bail already paid
+ *   is refunded
+ * - overturn reverses it: jails are released through the unjail path,
+ *   mutes and restrictions are lifted, unpaid fines are waived with their
+ *   warning, and paid fines and bail are refunded to whoever paid them
+ *
+ * Refunds are recorded in the ledger against the fine or bail payment they
+ * return. A user has at most
+ * one pending appeal per case. Every decision is stored on the appeal and
+ * published as appeal.decided.
+ *
+ * @module services/appealService
+ */
+
+import type { Telegram } from "telegraf";
+import { bold, fmt } from "telegraf/format";
+import { execute, get, query, withTransaction } from "../database";
+import type { Appeal, AppealStatus } from "../types";
+import { appealDecisionKeyboard } from "../utils/keyboards";
+import { logger, StructuredLogger } from "../utils/logger";
+import { AmountPrecision } from "../utils/precision";
+import { formatUserIdDisplay } from "../utils/userResolver";
+import { ChatService } from "./chatService";
+import { EventBus } from "./eventBus";
+import { type ActiveJail, JailService } from "./jailService";
+import { LedgerService, TransactionType } from "./ledgerService";
+import {
+	type JailRequest,
+	ModerationActionService,
+	type MuteRequest,
+	type UnjailRequest,
+} from "./moderationActionService";
+import {
+	type ModerationCase,
+	type ModlogAction,
+	ModlogService,
+} from "./modlogService";
+import { SYSTEM_USER_IDS } from "./unifiedWalletService";
+import { removeUserRestriction } from "./userService";
+import { WarningService } from "./warningService";
+
+export type AppealDecision = "uphold" | "reduce" | "overturn";
+
+/** Case actions a user can appeal */
+const APPEALABLE_ACTIONS: ModlogAction[] = [
+	"jail",
+	"mute",
+	"violation",
+	"restriction_added",
+];
+
+const DECISION_STATUS: Record<AppealDecision, AppealStatus> = {
+	uphold: "upheld",
+	reduce: "reduced",
+	overturn: "overturned",
+};
+
+/**
+ * A fine or bail refunded by a decision.
+ */
+interface Refund {
+	amount: number;
+	userId: number;
+	transactionId: number | null;
+}
+
+/**
+ * What a decision changed. The Telegram calls and events it needs are made
+ * after the transaction that applied it.
+ */
+interface AppealEffect {
+	outcome: string;
+	refund?: Refund;
+	/** Unjail to complete, with the jails it released */
+	unjail?: { request: UnjailRequest; released: ActiveJail[] };
+	/** Shorter jail replacing the appealed one */
+	jail?: JailRequest;
+	/** Shorter mute replacing the appealed one */
+	mute?: MuteRequest;
+	/** Restriction lifted */
+	restrictionRemoved?: string;
+}
+
+interface ViolationRow {
+	bail_amount: number;
+	paid: number;
+	paid_by_user_id: number | null;
+	payment_tx: string | null;
+	paid_at: number | null;
+}
+
+interface BailPaidRow {
+	bail_amount: number;
+	paid_by_user_id: number | null;
+	payment_tx: string | null;
+	timestamp: number;
+}
+
+/**
+ * A fine or bail payment a refund returns.
+ */
+interface Payment {
+	kind: "fine" | "bail";
+	payerId: number;
+	/** On-chain transaction hash, or internal_ledger for balance payments */
+	paymentTx: string | null;
+	paidAt: number;
+	violationId?: number;
+}
+
+/**
+ * Service for opening and deciding appeals.
+ */
+export class AppealService {
+	/**
+	 * Opens an appeal of one of the user's cases and posts it to the admin
+	 * chat of the case's group (or the global admin chat).
+	 *
+	 * @param telegram - Telegram API used to post the appeal
+	 * @param caseId - Case appealed
+	 * @param userId - User appealing, who must be the case's target
+	 * @param statement - The user's statement
+	 * @returns The appeal, or why it could not be opened
+	 */
+	static async open(
+		telegram: Telegram,
+		caseId: number,
+		userId: number,
+		statement: string,
+	): Promise<{ success: boolean; appeal?: Appeal; error?: string }> {
+		const modCase = ModlogService.getCase(caseId);
+		if (!modCase || modCase.userId !== userId) {
+			return { success: false, error: `Case #${caseId} is not one of yours.` };
+		}
+		if (!APPEALABLE_ACTIONS.includes(modCase.action)) {
+			return {
+				success: false,
+				error: "Only jails, mutes, fines and restrictions can be appealed.",
+			};
+		}
+		if (AppealService.isOverturned(caseId)) {
+			return {
+				success: false,
+				error: `Case #${caseId} was already overturned.`,
+			};
+		}
+		if (AppealService.getPendingAppeal(caseId, userId)) {
+			return {
+				success: false,
+				error: `You already have an open appeal for case #${caseId}.`,
+			};
+		}
+
+		const result = execute(
+			"INSERT INTO appeals (case_id, user_id, statement) VALUES (?, ?, ?)",
+			[caseId, userId, statement],
+		);
+		const appealId = Number(result.lastInsertRowid);
+
+		StructuredLogger.logSecurityEvent("Appeal opened", {
+			userId,
+			operation: "appeal_opened",
+			appealId,
+			caseId,
+		});
+
+		const adminChatId = ChatService.getAdminChatId(
+			modCase.chatId ?? modCase.origin?.chatId,
+		);
+		if (!adminChatId) {
+			logger.warn("Admin chat not configured, appeal not posted", {
+				appealId,
+			});
+		} else {
+			try {
+				const message = await telegram.sendMessage(
+					adminChatId,
+					fmt`${bold(`Appeal #${appealId}`)}
+
+${ModlogService.formatCard(modCase)}
+
+Statement:
+${statement}`,
+					{
+						reply_markup: appealDecisionKeyboard(appealId),
+						link_preview_options: { is_disabled: true },
+					},
+				);
+				execute("UPDATE appeals SET chat_id = ?, message_id = ? WHERE id = ?", [
+					message.chat.id,
+					message.message_id,
+					appealId,
+				]);
+			} catch (error) {
+				logger.error("Failed to post appeal", { appealId, error });
+			}
+		}
+
+		return {
+			success: true,
+			appeal: AppealService.getAppeal(appealId) as Appeal,
+		};
+	}
+
+	/**
+	 * Gets an appeal by ID.
+	 */
+	static getAppeal(appealId: number): Appeal | undefined {
+		return get<Appeal>("SELECT * FROM appeals WHERE id = ?", [appealId]);
+	}
+
+	/**
+	 * Gets the pending appeal of a user for a case.
+	 */
+	static getPendingAppeal(caseId: number, userId: number): Appeal | undefined {
+		return get<Appeal>(
+			"SELECT * FROM appeals WHERE case_id = ? AND user_id = ? AND status = 'pending'",
+			[caseId, userId],
+		);
+	}
+
+	/**
+	 * Lists a user's appeals, newest first.
+	 */
+	static getUserAppeals(userId: number, limit = 10): Appeal[] {
+		return query<Appeal>(
+			"SELECT * FROM appeals WHERE user_id = ? ORDER BY id DESC LIMIT ?",
+			[userId, limit],
+		);
+	}
+
+	/**
+	 * Lists the user's cases that can still be appealed, newest first.
+	 */
+	static getAppealableCases(userId: number, limit = 10): ModerationCase[] {
+		return ModlogService.getUserCases(userId, 50)
+			.filter(
+				(modCase) =>
+					APPEALABLE_ACTIONS.includes(modCase.action) &&
+					!AppealService.isOverturned(modCase.id),
+			)
+			.slice(0, limit);
+	}
+
+	/**
+	 * Decides a pending appeal. The decision, its effects and any refund are
+	 * committed together; the appeal stays pending if any of them fails.
+	 *
+	 * @param appealId - Appeal ID
+	 * @param adminId - Admin deciding
+	 * @param decision - Uphold, reduce or overturn
+	 * @returns The decided appeal, or why it could not be decided
+	 */
+	static async decide(
+		appealId: number,
+		adminId: number,
+		decision: AppealDecision,
+	): Promise<{ success: boolean; appeal?: Appeal; error?: string }> {
+		const appeal = AppealService.getAppeal(appealId);
+		if (!appeal) {
+			return { success: false, error: "Appeal not found." };
+		}
+		const modCase = ModlogService.getCase(appeal.case_id) as ModerationCase;
+		const now = Math.floor(Date.now() / 1000);
+
+		let effect: AppealEffect | null;
+		try {
+			effect = withTransaction(() => {
+				const updated = execute(
+					`UPDATE appeals SET status = ?, decided_by = ?, decided_at = ?
+           WHERE id = ? AND status = 'pending'`,
+					[DECISION_STATUS[decision], adminId, now, appealId],
+				);
+				if (updated.changes === 0) return null;
+
+				const applied = AppealService.apply(
+					decision,
+					appeal,
+					modCase,
+					adminId,
+					now,
+				);
+				execute(
+					`UPDATE appeals SET outcome = ?, refund_ujuno = ?, refund_user_id = ?, refund_transaction_id = ?
+           WHERE id = ?`,
+					[
+						applied.outcome,
+						AmountPrecision.toMicroJuno(applied.refund?.amount ?? 0),
+						applied.refund?.userId ?? null,
+						applied.refund?.transactionId ?? null,
+						appealId,
+					],
+				);
+				return applied;
+			});
+		} catch (error) {
+			StructuredLogger.logError(error as Error, {
+				userId: adminId,
+				operation: "appeal_decide",
+				appealId,
+				decision,
+			});
+			return {
+				success: false,
+				error: error instanceof Error ? error.message : String(error),
+			};
+		}
+
+		if (!effect) {
+			return { success: false, error: "This appeal was already decided." };
+		}
+
+		if (effect.unjail) {
+			await ModerationActionService.completeUnjail(
+				effect.unjail.request,
+				effect.unjail.released,
+			);
+		}
+		if (effect.jail) {
+			await ModerationActionService.jail(effect.jail);
+		}
+		if (effect.mute) {
+			await ModerationActionService.mute(effect.mute);
+		}
+		if (effect.restrictionRemoved) {
+			await EventBus.publish("restriction.changed", {
+				userId: modCase.userId,
+				actorId: adminId,
+				restriction: effect.restrictionRemoved,
+				added: false,
+				timestamp: now,
+			});
+		}
+
+		await EventBus.publish("appeal.decided", {
+			appealId,
+			caseId: modCase.id,
+			userId: modCase.userId,
+			actorId: adminId,
+			decision,
+			outcome: effect.outcome,
+			refundAmount: effect.refund?.amount ?? 0,
+			chatId: modCase.chatId,
+			timestamp: now,
+		});
+
+		return {
+			success: true,
+			appeal: AppealService.getAppeal(appealId) as Appeal,
+		};
+	}
+
+	/**
+	 * Applies a decision to the case. Only touches the database, so it runs
+	 * in the decision's transaction; throws when there is nothing to apply.
+	 */
+	private static apply(
+		decision: AppealDecision,
+		appeal: Appeal,
+		modCase: ModerationCase,
+		adminId: number,
+		now: number,
+	): AppealEffect {
+		if (decision === "uphold") {
+			return { outcome: "upheld, no change" };
+		}
+
+		const overturn = decision === "overturn";
+		switch (modCase.action) {
+			case "jail":
+				return AppealService.applyToJail(
+					overturn,
+					appeal,
+					modCase,
+					adminId,
+					now,
+				);
+			case "mute":
+				return AppealService.applyToMute(overturn, modCase, adminId, now);
+			case "violation":
+				return AppealService.applyToViolation(overturn, appeal, modCase);
+			default:
+				return AppealService.applyToRestriction(overturn, modCase, now);
+		}
+	}
+
+	private static applyToJail(
+		overturn: boolean,
+		appeal: Appeal,
+		modCase: ModerationCase,
+		adminId: number,
+		now: number,
+	): AppealEffect {
+		const bail = AppealService.getBailPaid(modCase);
+		const parts: string[] = [];
+		const effect: AppealEffect = { outcome: "" };
+
+		if (overturn) {
+			const request: UnjailRequest = {
+				userId: modCase.userId,
+				chatId: modCase.chatId,
+				source: "appeal",
+				reason: "appeal_overturned",
+				actorId: adminId,
+			};
+			const released = ModerationActionService.releaseJails(request);
+			effect.unjail = { request, released };
+			parts.push(
+				released.length > 0 ? "released from jail" : "jail had already ended",
+			);
+		} else {
+			const until = JailService.getScopeJailedUntil(
+				modCase.userId,
+				modCase.chatId,
+			);
+			if (until !== null && until > now) {
+				const remainingMinutes = Math.ceil((until - now) / 120);
+				effect.jail = {
+					userId: modCase.userId,
+					chatId: modCase.chatId,
+					source: "appeal",
+					reason: "appeal_reduced",
+					actorId: adminId,
+					durationMinutes: remainingMinutes,
+					shorten: true,
+				};
+				parts.push(`remaining jail halved to ${remainingMinutes} min`);
+			}
+		}
+
+		if (bail && bail.bail_amount > 0) {
+			effect.refund = AppealService.refund(
+				appeal,
+				{
+					kind: "bail",
+					payerId: bail.paid_by_user_id ?? modCase.userId,
+					paymentTx: bail.payment_tx,
+					paidAt: bail.timestamp,
+				},
+				overturn ? bail.bail_amount : half(bail.bail_amount),
+			);
+		}
+		if (effect.refund) {
+			parts.push(AppealService.describeRefund(effect.refund, "bail"));
+		}
+
+		if (parts.length === 0) {
+			throw new Error(`Case #${modCase.id} has nothing left to reduce.`);
+		}
+		effect.outcome = parts.join("; ");
+		return effect;
+	}
+
+	private static applyToMute(
+		overturn: boolean,
+		modCase: ModerationCase,
+		adminId: number,
+		now: number,
+	): AppealEffect {
+		const hasMutedRestriction = AppealService.getRestrictionUntil(
+			modCase.userId,
+			"muted",
+		);
+
+		if (overturn) {
+			if (hasMutedRestriction !== undefined) {
+				removeUserRestriction(modCase.userId, "muted");
+			}
+			return {
+				outcome: "mute lifted",
+				unjail: {
+					request: {
+						userId: modCase.userId,
+						chatId: modCase.chatId,
+						restoreChatId: modCase.chatId ?? undefined,
+						source: "appeal",
+						reason: "appeal_overturned",
+						actorId: adminId,
+					},
+					released: [],
+				},
+				restrictionRemoved:
+					hasMutedRestriction !== undefined ? "muted" : undefined,
+			};
+		}
+
+		const mutedUntil = modCase.createdAt + (modCase.durationMinutes ?? 0) * 60;
+		const remainingMinutes = Math.ceil((mutedUntil - now) / 120);
+		if (remainingMinutes <= 0) {
+			throw new Error(`Case #${modCase.id} has nothing left to reduce.`);
+		}
+		AppealService.halveRestriction(modCase.userId, "muted", now);
+		return {
+			outcome: `remaining mute halved to ${remainingMinutes} min`,
+			mute: {
+				userId: modCase.userId,
+				chatId: modCase.chatId,
+				source: "appeal",
+				reason: "appeal_reduced",
+				actorId: adminId,
+				durationMinutes: remainingMinutes,
+			},
+		};
+	}
+
+	private static applyToViolation(
+		overturn: boolean,
+		appeal: Appeal,
+		modCase: ModerationCase,
+	): AppealEffect {
+		const violationId = modCase.violationId as number;
+		const violation = get<ViolationRow>(
+			"SELECT bail_amount, paid, paid_by_user_id, payment_tx, paid_at FROM violations WHERE id = ?",
+			[violationId],
+		);
+		const fine = violation?.bail_amount ?? 0;
+		const parts: string[] = [];
+		const effect: AppealEffect = { outcome: "" };
+
+		if (violation?.paid) {
+			effect.refund = AppealService.refund(
+				appeal,
+				{
+					kind: "fine",
+					payerId: violation.paid_by_user_id ?? modCase.userId,
+					paymentTx: violation.payment_tx,
+					paidAt: violation.paid_at ?? modCase.createdAt,
+					violationId,
+				},
+				overturn ? fine : half(fine),
+			);
+			if (effect.refund) {
+				parts.push(AppealService.describeRefund(effect.refund, "fine"));
+			}
+		} else if (fine > 0) {
+			const reduced = overturn ? 0 : half(fine);
+			execute("UPDATE violations SET bail_amount = ? WHERE id = ?", [
+				reduced,
+				violationId,
+			]);
+			parts.push(
+				overturn
+					? `fine of ${AmountPrecision.format(fine)} JUNO waived`
+					: `fine reduced to ${AmountPrecision.format(reduced)} JUNO`,
+			);
+		}
+
+		if (overturn) {
+			const removed = WarningService.removeViolationWarnings(
+				modCase.userId,
+				violationId,
+			);
+			parts.push(
+				removed > 0 ? "violation and its warning removed" : "violation voided",
+			);
+		}
+
+		if (parts.length === 0) {
+			throw new Error(`Case #${modCase.id} has nothing left to reduce.`);
+		}
+		effect.outcome = parts.join("; ");
+		return effect;
+	}
+
+	private static applyToRestriction(
+		overturn: boolean,
+		modCase: ModerationCase,
+		now: number,
+	): AppealEffect {
+		// Restriction cases are reasoned "<restriction>" or "<restriction> (<action>)"
+		const restriction = modCase.reason?.split(" ")[0] ?? "";
+		const until = AppealService.getRestrictionUntil(
+			modCase.userId,
+			restriction,
+		);
+
+		if (overturn) {
+			if (until === undefined) {
+				return { outcome: "restriction had already been lifted" };
+			}
+			removeUserRestriction(modCase.userId, restriction);
+			return {
+				outcome: `${restriction} lifted`,
+				restrictionRemoved: restriction,
+			};
+		}
+
+		const reducedUntil = AppealService.halveRestriction(
+			modCase.userId,
+			restriction,
+			now,
+		);
+		if (reducedUntil === null) {
+			throw new Error(`Case #${modCase.id} has nothing left to reduce.`);
+		}
+		return {
+			outcome: `remaining ${restriction} time halved to ${Math.ceil((reducedUntil - now) / 60)} min`,
+		};
+	}
+
+	/**
+	 * Refunds a fine or bail to whoever paid it, less what earlier appeals of
+	 * the case already refunded. The refund follows from the ledger entry of
+	 * the payment.
+	 *
+	 * @returns The refund, or undefined if nothing is left to refund
+	 */
+	private static refund(
+		appeal: Appeal,
+		payment: Payment,
+		amount: number,
+	): Refund | undefined {
+		const refundedMicro =
+			get<{ total: number }>(
+				"SELECT COALESCE(SUM(refund_ujuno), 0) as total FROM appeals WHERE case_id = ? AND id != ?",
+				[appeal.case_id, appeal.id],
+			)?.total ?? 0;
+		const dueMicro = AmountPrecision.toMicroJuno(amount) - refundedMicro;
+		if (dueMicro <= 0) {
+			return undefined;
+		}
+		const due = AmountPrecision.fromMicroJuno(dueMicro);
+
+		const parentTransactionId = AppealService.getPaymentTransactionId(payment);
+		if (parentTransactionId === undefined) {
+			throw new Error(
+				`No ledger entry found for the ${payment.kind} payment of case #${appeal.case_id}.`,
+			);
+		}
+
+		const result = LedgerService.processRefund(
+			payment.payerId,
+			due,
+			parentTransactionId,
+			`Appeal #${appeal.id}: ${payment.kind} refund for case #${appeal.case_id}`,
+		);
+		if (!result.success) {
+			throw new Error(
+				`Could not refund ${AmountPrecision.format(due)} JUNO ${payment.kind}.`,
+			);
+		}
+		return {
+			amount: due,
+			userId: payment.payerId,
+			transactionId: result.transactionId ?? null,
+		};
+	}
+
+	/**
+	 * Ledger entry of a fine or bail payment: the fine entry of the violation,
+	 * the entry recording the on-chain transaction, or the payer's latest fine,
+	 * bail or treasury payment up to when it was paid.
+	 */
+	private static getPaymentTransactionId(payment: Payment): number | undefined {
+		const type =
+			payment.kind === "fine" ? TransactionType.FINE : TransactionType.BAIL;
+
+		if (payment.violationId !== undefined) {
+			const fine = get<{ id: number }>(
+				`SELECT id FROM transactions
+         WHERE transaction_type = ? AND json_extract(metadata, '$.violationId') = ?
+         ORDER BY id LIMIT 1`,
+				[TransactionType.FINE, payment.violationId],
+			);
+			if (fine) return fine.id;
+		}
+
+		if (payment.paymentTx && payment.paymentTx !== "internal_ledger") {
+			return get<{ id: number }>(
+				"SELECT id FROM transactions WHERE tx_hash = ? COLLATE NOCASE ORDER BY id LIMIT 1",
+				[payment.paymentTx],
+			)?.id;
+		}
+
+		return get<{ id: number }>(
+			`SELECT id FROM transactions
+       WHERE from_user_id = ? AND (transaction_type = ? OR to_user_id = ?)
+       AND status = 'completed' AND created_at <= ?
+       ORDER BY id DESC LIMIT 1`,
+			[payment.payerId, type, SYSTEM_USER_IDS.BOT_TREASURY, payment.paidAt],
+		)?.id;
+	}
+
+	/**
+	 * Bail paid to end the jail of a case: the first bail payment after the
+	 * jail, unless the user was jailed again before it.
+	 */
+	private static getBailPaid(modCase: ModerationCase): BailPaidRow | undefined {
+		if (modCase.jailEventId === null) return undefined;
+		return get<BailPaidRow>(
+			`SELECT bail_amount, paid_by_user_id, payment_tx, timestamp FROM jail_events
+       WHERE user_id = ? AND event_type = 'bail_paid' AND id > ?
+       AND NOT EXISTS (
+         SELECT 1 FROM jail_events later
+         WHERE later.user_id = jail_events.user_id AND later.event_type = 'jailed'
+         AND later.id > ? AND later.id < jail_events.id
+       )
+       ORDER BY id LIMIT 1`,
+			[modCase.userId, modCase.jailEventId, modCase.jailEventId],
+		);
+	}
+
+	/**
+	 * Expiry of a user's restriction: a timestamp, null if permanent, or
+	 * undefined if the user does not have it.
+	 */
+	private static getRestrictionUntil(
+		userId: number,
+		restriction: string,
+	): number | null | undefined {
+		return get<{ restricted_until: number | null }>(
+			"SELECT restricted_until FROM user_restrictions WHERE user_id = ? AND restriction = ?",
+			[userId, restriction],
+		)?.restricted_until;
+	}
+
+	/**
+	 * Halves the remaining time of a temporary restriction.
+	 *
+	 * @returns The new expiry, or null if the restriction is not running
+	 */
+	private static halveRestriction(
+		userId: number,
+		restriction: string,
+		now: number,
+	): number | null {
+		const until = AppealService.getRestrictionUntil(userId, restriction);
+		if (!until || until <= now) return null;
+
+		const reducedUntil = now + Math.ceil((until - now) / 2);
+		execute(
+			"UPDATE user_restrictions SET restricted_until = ? WHERE user_id = ? AND restriction = ?",
+			[reducedUntil, userId, restriction],
+		);
+		return reducedUntil;
+	}
+
+	private static isOverturned(caseId: number): boolean {
+		return !!get<{ id: number }>(
+			"SELECT id FROM appeals WHERE case_id = ? AND status = 'overturned'",
+			[caseId],
+		);
+	}
+
+	private static describeRefund(refund: Refund, kind: "fine" | "bail"): string {
+		return `${AmountPrecision.format(refund.amount)} JUNO ${kind} refunded to ${formatUserIdDisplay(refund.userId)}`;
+	}
+}
+
+/**
+ * Half of an amount, rounded down to the micro unit.
+ */
+function half(amount: number): number {
+	return AmountPrecision.fromMicroJuno(
+		Math.floor(AmountPrecision.toMicroJuno(amount) / 2),
+	);
+}
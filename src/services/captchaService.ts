@@ -0,0 +1,402 @@
+/**
+ * Newcomer verification (CAPTCHA) service module.
+ * Restricts new members until they solve a button or math challenge, and
+ * kicks them when they answer wrong or run out of time.
+ *
+ * Responsibilities:
+ * - Join screen that restricts newcomers and posts their challenge
+ * - Checking answers and restoring permissions of verified members
+ * - Letting elevated users vouch a newcomer in (when the chat allows it)
+ * - Kicking members whose challenge expired
+ *
+ * Challenges are stored in captcha_challenges so pending ones survive a
+ * restart and still expire on time. Restrictions and kicks go through
+ * ModerationActionService, so they are recorded and published like any
+ * other action.
+ *
+ * @module services/captchaService
+ */
+
+import { randomInt } from "crypto";
+import type { Context, Telegraf, Telegram } from "telegraf";
+import { execute, get, query } from "../database";
+import type { CaptchaChallenge, User } from "../types";
+import { captchaKeyboard } from "../utils/keyboards";
+import { logger, StructuredLogger } from "../utils/logger";
+import { checkIsElevated, isImmuneToModeration } from "../utils/roles";
+import { ChatService } from "./chatService";
+import {
+	JAILED_PERMISSIONS,
+	JailService,
+	RELEASED_PERMISSIONS,
+} from "./jailService";
+import { type JoinScreen, JoinScreeningService } from "./joinScreeningService";
+import { ModerationActionService } from "./moderationActionService";
+import { ensureUserExists } from "./userService";
+
+/**
+ * Result of answering or vouching for a challenge.
+ */
+export type CaptchaOutcome =
+	| "passed"
+	| "failed"
+	| "vouched"
+	| "not_found"
+	| "not_allowed";
+
+// Answer value of the single button of a button challenge
+const BUTTON_ANSWER = "human";
+
+/**
+ * Join screen that gates newcomers behind a challenge.
+ */
+const captchaScreen: JoinScreen = {
+	name: "captcha",
+	run: async ({ telegram, chatId, member }) => {
+		const settings = ChatService.getCaptchaSettings(chatId);
+		if (settings.mode === "off" || member.is_bot) {
+			return "pass";
+		}
+
+		const user = get<User>("SELECT whitelist FROM users WHERE id = ?", [
+			member.id,
+		]);
+		if (user?.whitelist || isImmuneToModeration(member.id)) {
+			return "pass";
+		}
+
+		await CaptchaService.startChallenge(
+			telegram,
+			chatId,
+			member.id,
+			member.username || member.first_name,
+		);
+		return "handled";
+	},
+};
+
+/**
+ * Service class for newcomer verification challenges.
+ */
+export class CaptchaService {
+	private static bot: Telegraf<Context> | undefined;
+
+	/**
+	 * Initializes the verification service and adds its join screen to the
+	 * join screening pipeline (after the blacklist check).
+	 *
+	 * @param bot - Telegraf bot instance, used to kick expired newcomers
+	 */
+	static initialize(bot: Telegraf<Context>): void {
+		CaptchaService.bot = bot;
+		JoinScreeningService.registerScreen(captchaScreen);
+	}
+
+	/**
+	 * Restricts a newcomer and posts their challenge in the chat.
+	 * Does nothing if the member already has a pending challenge there.
+	 *
+	 * @param telegram - Telegram instance for API calls
+	 * @param chatId - Chat the member joined
+	 * @param userId - New member
+	 * @param name - Username or first name shown in the challenge
+	 * @returns The pending challenge
+	 */
+	static async startChallenge(
+		telegram: Telegram,
+		chatId: number,
+		userId: number,
+		name: string,
+	): Promise<CaptchaChallenge> {
+		const existing = CaptchaService.getPendingChallenge(chatId, userId);
+		if (existing) return existing;
+
+		const settings = ChatService.getCaptchaSettings(chatId);
+		const type = settings.mode === "math" ? "math" : "button";
+		const now = Math.floor(Date.now() / 1000);
+		const expiresAt = now + settings.timeoutSeconds;
+
+		// Actions are recorded against the user, so register the newcomer first
+		ensureUserExists(userId, name);
+		const restricted = await ModerationActionService.restrict({
+			userId,
+			chatId,
+			source: "screening",
+			reason: "captcha",
+			permissions: JAILED_PERMISSIONS,
+			telegram,
+		});
+		if (!restricted.changed) {
+			throw new Error(
+				`Could not restrict newcomer: ${restricted.failures[0]?.error}`,
+			);
+		}
+
+		let prompt: string;
+		let answer: string;
+		let answers: { text: string; value: string }[];
+		if (type === "math") {
+			const a = randomInt(1, 10);
+			const b = randomInt(1, 10);
+			answer = String(a + b);
+			prompt = `What is ${a} + ${b}?`;
+			const options = new Set([a + b]);
+			while (options.size < 4) {
+				options.add(randomInt(2, 19));
+			}
+			// Shuffle so the correct answer is not always first
+			const shuffled = [...options];
+			for (let i = shuffled.length - 1; i > 0; i--) {
+				const j = randomInt(0, i + 1);
+				[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+			}
+			answers = shuffled.map((n) => ({ text: String(n), value: String(n) }));
+		} else {
+			answer = BUTTON_ANSWER;
+			prompt = "Press the button below.";
+			answers = [{ text: "I'm human", value: BUTTON_ANSWER }];
+		}
+
+		const result = execute(
+			`INSERT INTO captcha_challenges (chat_id, user_id, username, challenge_type, answer, created_at, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+			[chatId, userId, name, type, answer, now, expiresAt],
+		);
+		const challengeId = Number(result.lastInsertRowid);
+
+		const minutes = Math.ceil(settings.timeoutSeconds / 60);
+		const message = await telegram.sendMessage(
+			chatId,
+			`Welcome, ${name}! ${prompt}\nYou have ${minutes} minute${minutes === 1 ? "" : "s"} to verify before you are removed.`,
+			{
+				reply_markup: captchaKeyboard(
+					challengeId,
+					answers,
+					settings.allowVouching,
+				),
+			},
+		);
+		execute("UPDATE captcha_challenges SET message_id = ? WHERE id = ?", [
+			message.message_id,
+			challengeId,
+		]);
+
+		StructuredLogger.logSecurityEvent("Newcomer verification started", {
+			userId,
+			chatId,
+			operation: "captcha_started",
+			type,
+		});
+
+		return CaptchaService.getChallenge(challengeId) as CaptchaChallenge;
+	}
+
+	/**
+	 * Gets a challenge by ID.
+	 *
+	 * @param challengeId - Challenge ID
+	 */
+	static getChallenge(challengeId: number): CaptchaChallenge | null {
+		return (
+			get<CaptchaChallenge>("SELECT * FROM captcha_challenges WHERE id = ?", [
+				challengeId,
+			]) ?? null
+		);
+	}
+
+	/**
+	 * Gets the pending challenge of a member in a chat.
+	 *
+	 * @param chatId - Telegram chat ID
+	 * @param userId - Telegram user ID
+	 */
+	static getPendingChallenge(
+		chatId: number,
+		userId: number,
+	): CaptchaChallenge | null {
+		return (
+			get<CaptchaChallenge>(
+				"SELECT * FROM captcha_challenges WHERE chat_id = ? AND user_id = ? AND status = 'pending'",
+				[chatId, userId],
+			) ?? null
+		);
+	}
+
+	/**
+	 * Checks a newcomer's answer. A correct answer restores their permissions;
+	 * a wrong answer kicks them.
+	 *
+	 * @param telegram - Telegram instance for API calls
+	 * @param challengeId - Challenge ID
+	 * @param userId - User who pressed the button
+	 * @param answer - Chosen answer
+	 * @returns passed, failed, not_found (no pending challenge) or not_allowed (someone else's challenge)
+	 */
+	static async answerChallenge(
+		telegram: Telegram,
+		challengeId: number,
+		userId: number,
+		answer: string,
+	): Promise<CaptchaOutcome> {
+		const challenge = CaptchaService.getChallenge(challengeId);
+		if (!challenge || challenge.status !== "pending") return "not_found";
+		if (challenge.user_id !== userId) return "not_allowed";
+
+		if (answer !== challenge.answer) {
+			await CaptchaService.kick(telegram, challenge, "failed");
+			return "failed";
+		}
+
+		await CaptchaService.admit(telegram, challenge, "passed");
+		return "passed";
+	}
+
+	/**
+	 * Lets an elevated user admit a newcomer without solving the challenge.
+	 *
+	 * @param telegram - Telegram instance for API calls
+	 * @param chatId - Chat the newcomer is waiting in
+	 * @param userId - Newcomer
+	 * @param voucherId - Elevated user vouching for the newcomer
+	 * @returns vouched, not_found (no pending challenge) or not_allowed (voucher not elevated or vouching disabled)
+	 */
+	static async vouch(
+		telegram: Telegram,
+		chatId: number,
+		userId: number,
+		voucherId: number,
+	): Promise<CaptchaOutcome> {
+		if (
+			!ChatService.getCaptchaSettings(chatId).allowVouching ||
+			!checkIsElevated(voucherId)
+		) {
+			return "not_allowed";
+		}
+
+		const challenge = CaptchaService.getPendingChallenge(chatId, userId);
+		if (!challenge) return "not_found";
+
+		await CaptchaService.admit(telegram, challenge, "vouched", voucherId);
+		return "vouched";
+	}
+
+	/**
+	 * Kicks every newcomer whose challenge has expired.
+	 * Should be called periodically.
+	 *
+	 * @returns Number of newcomers kicked
+	 */
+	static async expireChallenges(): Promise<number> {
+		const telegram = CaptchaService.bot?.telegram;
+		if (!telegram) return 0;
+
+		const expired = query<CaptchaChallenge>(
+			"SELECT * FROM captcha_challenges WHERE status = 'pending' AND expires_at <= ?",
+			[Math.floor(Date.now() / 1000)],
+		);
+		for (const challenge of expired) {
+			await CaptchaService.kick(telegram, challenge, "expired");
+		}
+
+		if (expired.length > 0) {
+			logger.info("Expired verification challenges", {
+				count: expired.length,
+			});
+		}
+		return expired.length;
+	}
+
+	/**
+	 * Restores a verified newcomer's permissions and registers them as a user.
+	 * Members jailed in the chat in the meantime stay restricted.
+	 */
+	private static async admit(
+		telegram: Telegram,
+		challenge: CaptchaChallenge,
+		status: "passed" | "vouched",
+		resolvedBy?: number,
+	): Promise<void> {
+		CaptchaService.resolve(challenge.id, status, resolvedBy);
+		ensureUserExists(challenge.user_id, challenge.username || "unknown");
+
+		if (JailService.getJailedUntil(challenge.user_id, challenge.chat_id)) {
+			logger.info("Verified newcomer is jailed, keeping restrictions", {
+				userId: challenge.user_id,
+				chatId: challenge.chat_id,
+			});
+		} else {
+			await ModerationActionService.restrict({
+				userId: challenge.user_id,
+				chatId: challenge.chat_id,
+				source: "screening",
+				reason: "captcha",
+				actorId: resolvedBy,
+				metadata: { status },
+				permissions: RELEASED_PERMISSIONS,
+				telegram,
+			});
+		}
+
+		await CaptchaService.deleteChallengeMessage(telegram, challenge);
+		StructuredLogger.logSecurityEvent("Newcomer verified", {
+			userId: challenge.user_id,
+			adminId: resolvedBy,
+			chatId: challenge.chat_id,
+			operation: `captcha_${status}`,
+		});
+	}
+
+	/**
+	 * Removes a newcomer from the chat without banning them (ban + unban).
+	 */
+	private static async kick(
+		telegram: Telegram,
+		challenge: CaptchaChallenge,
+		status: "failed" | "expired",
+	): Promise<void> {
+		CaptchaService.resolve(challenge.id, status);
+
+		await ModerationActionService.kick({
+			userId: challenge.user_id,
+			chatId: challenge.chat_id,
+			source: "screening",
+			reason: "captcha",
+			metadata: { status },
+			telegram,
+		});
+
+		await CaptchaService.deleteChallengeMessage(telegram, challenge);
+		StructuredLogger.logSecurityEvent("Newcomer failed verification", {
+			userId: challenge.user_id,
+			chatId: challenge.chat_id,
+			operation: `captcha_${status}`,
+		});
+	}
+
+	private static resolve(
+		challengeId: number,
+		status: CaptchaChallenge["status"],
+		resolvedBy?: number,
+	): void {
+		execute(
+			"UPDATE captcha_challenges SET status = ?, resolved_by = ?, resolved_at = ? WHERE id = ?",
+			[status, resolvedBy ?? null, Math.floor(Date.now() / 1000), challengeId],
+		);
+	}
+
+	private static async deleteChallengeMessage(
+		telegram: Telegram,
+		challenge: CaptchaChallenge,
+	): Promise<void> {
+		if (!challenge.message_id) return;
+		try {
+			await telegram.deleteMessage(challenge.chat_id, challenge.message_id);
+		} catch (error) {
+			logger.debug("Could not delete verification message", {
+				chatId: challenge.chat_id,
+				messageId: challenge.message_id,
+				error,
+			});
+		}
+	}
+}
@@ -0,0 +1,480 @@
+/**
+ * Chat registry and per-chat settings service module.
+ * Tracks every group chat the bot moderates and stores the settings that
+ * may differ between them.
+ *
+ * Responsibilities:
+ * - Registering chats when the bot sees them and deactivating them when removed
+ * - Per-chat feature toggles (gambling, duels, giveaways, message filters, anti-flood)
+ * - Per-chat fine overrides in USD
+ * - Per-chat admin notification chat, moderation log channel and locale
+ * - Per-chat newcomer verification (CAPTCHA) settings
+ *
+ * The legacy GROUP_CHAT_ID from the environment is always treated as a
+ * registered chat so single-group deployments keep working unchanged.
+ *
+ * @module services/chatService
+ */
+
+import { config } from "../config";
+import { execute, get, query } from "../database";
+import type { Chat } from "../types";
+import { StructuredLogger } from "../utils/logger";
+
+/**
+ * Features that can be switched off per chat.
+ */
+export const CHAT_FEATURES = [
+	"filters",
+	"antiflood",
+	"gambling",
+	"duels",
+	"giveaways",
+] as const;
+
+export type ChatFeature = (typeof CHAT_FEATURES)[number];
+
+/**
+ * Challenge newcomers must solve before they can post ("off" disables the gate).
+ */
+export const CAPTCHA_MODES = ["off", "button", "math"] as const;
+
+export type CaptchaMode = (typeof CAPTCHA_MODES)[number];
+
+/**
+ * Newcomer verification settings of a chat.
+ */
+export interface CaptchaSettings {
+	mode: CaptchaMode;
+	/** Seconds a newcomer has to pass before being kicked */
+	timeoutSeconds: number;
+	/** Whether elevated users may vouch a newcomer in */
+	allowVouching: boolean;
+}
+
+/** Verification settings of chats that are not registered */
+export const DEFAULT_CAPTCHA_SETTINGS: CaptchaSettings = {
+	mode: "button",
+	timeoutSeconds: 300,
+	allowVouching: true,
+};
+
+/**
+ * Parsed per-chat settings.
+ */
+export interface ChatSettings {
+	chatId: number;
+	title: string | null;
+	/** Enabled features; every feature is enabled when the chat has no explicit list */
+	enabledFeatures: ChatFeature[];
+	/** Fine type -> USD amount overriding the global fine_config */
+	fineOverrides: Record<string, number>;
+	/** Chat receiving admin notifications for this chat (null = global admin chat) */
+	adminChatId: number | null;
+	/** Chat receiving moderation cases for this chat (null = global modlog) */
+	modlogChatId: number | null;
+	locale: string;
+	captcha: CaptchaSettings;
+	active: boolean;
+}
+
+/**
+ * Service class for the chat registry and per-chat settings.
+ */
+export class ChatService {
+	// Chats already registered during this process, to avoid a write per message
+	private static knownChats = new Set<number>();
+
+	/**
+	 * Registers the configured group chat so it is always part of the registry.
+	 * Must be called during bot startup after the database is initialized.
+	 */
+	static initialize(): void {
+		ChatService.knownChats.clear();
+		if (config.groupChatId) {
+			ChatService.registerChat(config.groupChatId);
+		}
+	}
+
+	/**
+	 * Registers a chat or reactivates it, updating its title when given.
+	 *
+	 * @param chatId - Telegram chat ID
+	 * @param title - Chat title, if known
+	 */
+	static registerChat(chatId: number, title?: string): void {
+		const now = Math.floor(Date.now() / 1000);
+		execute(
+			`INSERT INTO chats (chat_id, title, active, created_at, updated_at)
+       VALUES (?, ?, 1, ?, ?)
+       ON CONFLICT(chat_id) DO UPDATE SET
+         title = COALESCE(excluded.title, chats.title),
+         active = 1,
+         updated_at = excluded.updated_at`,
+			[chatId, title ?? null, now, now],
+		);
+		ChatService.knownChats.add(chatId);
+	}
+
+	/**
+	 * Registers a chat the first time it is seen by this process.
+	 * Cheap enough to call on every group update.
+	 *
+	 * @param chatId - Telegram chat ID
+	 * @param title - Chat title, if known
+	 */
+	static ensureChat(chatId: number, title?: string): void {
+		if (ChatService.knownChats.has(chatId)) return;
+		ChatService.registerChat(chatId, title);
+		StructuredLogger.logUserAction("Chat registered", {
+			operation: "register_chat",
+			chatId,
+		});
+	}
+
+	/**
+	 * Marks a chat inactive, e.g. after the bot was removed from it.
+	 * Settings are kept in case the bot is added back.
+	 *
+	 * @param chatId - Telegram chat ID
+	 */
+	static deactivateChat(chatId: number): void {
+		execute("UPDATE chats SET active = 0, updated_at = ? WHERE chat_id = ?", [
+			Math.floor(Date.now() / 1000),
+			chatId,
+		]);
+		ChatService.knownChats.delete(chatId);
+	}
+
+	/**
+	 * Gets the settings of a registered chat.
+	 *
+	 * @param chatId - Telegram chat ID
+	 * @returns Parsed settings, or null if the chat is not registered
+	 */
+	static getChat(chatId: number): ChatSettings | null {
+		const row = get<Chat>("SELECT * FROM chats WHERE chat_id = ?", [chatId]);
+		return row ? ChatService.toSettings(row) : null;
+	}
+
+	/**
+	 * Lists every registered chat.
+	 *
+	 * @param activeOnly - Only return chats the bot is still a member of
+	 */
+	static listChats(activeOnly = true): ChatSettings[] {
+		const rows = query<Chat>(
+			activeOnly
+				? "SELECT * FROM chats WHERE active = 1 ORDER BY chat_id"
+				: "SELECT * FROM chats ORDER BY chat_id",
+		);
+		return rows.map((row) => ChatService.toSettings(row));
+	}
+
+	/**
+	 * IDs of every active chat, including the configured group chat.
+	 * Used for network-wide actions such as network jails and blacklist bans.
+	 */
+	static getChatIds(): number[] {
+		const chatIds = new Set(
+			query<{ chat_id: number }>(
+				"SELECT chat_id FROM chats WHERE active = 1",
+			).map((row) => row.chat_id),
+		);
+		if (config.groupChatId) chatIds.add(config.groupChatId);
+		return [...chatIds];
+	}
+
+	/**
+	 * Checks whether a feature is enabled in a chat.
+	 * Unregistered chats and private chats have every feature enabled.
+	 *
+	 * @param chatId - Telegram chat ID
+	 * @param feature - Feature to check
+	 */
+	static isFeatureEnabled(chatId: number, feature: ChatFeature): boolean {
+		const chat = ChatService.getChat(chatId);
+		return chat ? chat.enabledFeatures.includes(feature) : true;
+	}
+
+	/**
+	 * Enables or disables a feature in a chat.
+	 *
+	 * @param chatId - Telegram chat ID
+	 * @param feature - Feature to toggle
+	 * @param enabled - New state
+	 * @param updatedBy - Admin making the change
+	 */
+	static setFeatureEnabled(
+		chatId: number,
+		feature: ChatFeature,
+		enabled: boolean,
+		updatedBy: number,
+	): void {
+		const chat = ChatService.requireChat(chatId);
+		const features = new Set(chat.enabledFeatures);
+		if (enabled) {
+			features.add(feature);
+		} else {
+			features.delete(feature);
+		}
+
+		ChatService.updateColumn(
+			chatId,
+			"enabled_features",
+			JSON.stringify(CHAT_FEATURES.filter((f) => features.has(f))),
+		);
+		StructuredLogger.logUserAction("Chat feature toggled", {
+			userId: updatedBy,
+			operation: "set_chat_feature",
+			chatId,
+			feature,
+			enabled,
+		});
+	}
+
+	/**
+	 * Gets the USD fine override for a fine type in a chat.
+	 *
+	 * @param chatId - Telegram chat ID
+	 * @param fineType - Fine type (e.g. sticker, url, jail_per_minute)
+	 * @returns USD amount, or null if the chat uses the global fine
+	 */
+	static getFineOverride(chatId: number, fineType: string): number | null {
+		const chat = ChatService.getChat(chatId);
+		return chat?.fineOverrides[fineType] ?? null;
+	}
+
+	/**
+	 * Sets or clears a USD fine override for a chat.
+	 *
+	 * @param chatId - Telegram chat ID
+	 * @param fineType - Fine type to override
+	 * @param amountUsd - USD amount, or null to fall back to the global fine
+	 * @param updatedBy - Admin making the change
+	 */
+	static setFineOverride(
+		chatId: number,
+		fineType: string,
+		amountUsd: number | null,
+		updatedBy: number,
+	): void {
+		const chat = ChatService.requireChat(chatId);
+		const overrides = { ...chat.fineOverrides };
+		if (amountUsd === null) {
+			delete overrides[fineType];
+		} else {
+			overrides[fineType] = amountUsd;
+		}
+
+		ChatService.updateColumn(
+			chatId,
+			"fine_overrides",
+			Object.keys(overrides).length > 0 ? JSON.stringify(overrides) : null,
+		);
+		StructuredLogger.logUserAction("Chat fine override updated", {
+			userId: updatedBy,
+			operation: "set_chat_fine",
+			chatId,
+			fineType,
+			amount: amountUsd === null ? "default" : amountUsd.toString(),
+		});
+	}
+
+	/**
+	 * Gets the chat that receives admin notifications about a chat.
+	 *
+	 * @param chatId - Chat the notification is about (omit for bot-wide events)
+	 * @returns Admin chat ID (falls back to config.adminChatId)
+	 */
+	static getAdminChatId(chatId?: number): number {
+		if (chatId !== undefined) {
+			const chat = ChatService.getChat(chatId);
+			if (chat?.adminChatId) return chat.adminChatId;
+		}
+		return config.adminChatId;
+	}
+
+	/**
+	 * Sets or clears the admin notification chat for a chat.
+	 *
+	 * @param chatId - Telegram chat ID
+	 * @param adminChatId - Admin chat ID, or null for the global admin chat
+	 * @param updatedBy - Admin making the change
+	 */
+	static setAdminChatId(
+		chatId: number,
+		adminChatId: number | null,
+		updatedBy: number,
+	): void {
+		ChatService.requireChat(chatId);
+		ChatService.updateColumn(chatId, "admin_chat_id", adminChatId);
+		StructuredLogger.logUserAction("Chat admin chat updated", {
+			userId: updatedBy,
+			operation: "set_chat_admin_chat",
+			chatId,
+			adminChatId,
+		});
+	}
+
+	/**
+	 * Gets the moderation log channel for a chat.
+	 *
+	 * @param chatId - Chat the case is about (omit for network-wide cases)
+	 * @returns Modlog chat ID (falls back to config.modlogChatId, 0 = none)
+	 */
+	static getModlogChatId(chatId?: number): number {
+		if (chatId !== undefined) {
+			const chat = ChatService.getChat(chatId);
+			if (chat?.modlogChatId) return chat.modlogChatId;
+		}
+		return config.modlogChatId;
+	}
+
+	/**
+	 * Sets or clears the moderation log channel for a chat.
+	 *
+	 * @param chatId - Telegram chat ID
+	 * @param modlogChatId - Modlog chat ID, or null for the global modlog
+	 * @param updatedBy - Admin making the change
+	 */
+	static setModlogChatId(
+		chatId: number,
+		modlogChatId: number | null,
+		updatedBy: number,
+	): void {
+		ChatService.requireChat(chatId);
+		ChatService.updateColumn(chatId, "modlog_chat_id", modlogChatId);
+		StructuredLogger.logUserAction("Chat modlog updated", {
+			userId: updatedBy,
+			operation: "set_chat_modlog",
+			chatId,
+			modlogChatId,
+		});
+	}
+
+	/**
+	 * Gets the locale of a chat ("en" for unregistered chats).
+	 *
+	 * @param chatId - Telegram chat ID
+	 */
+	static getLocale(chatId: number): string {
+		return ChatService.getChat(chatId)?.locale || "en";
+	}
+
+	/**
+	 * Sets the locale of a chat.
+	 *
+	 * @param chatId - Telegram chat ID
+	 * @param locale - BCP 47 language tag (e.g. "en", "de", "pt-BR")
+	 * @param updatedBy - Admin making the change
+	 */
+	static setLocale(chatId: number, locale: string, updatedBy: number): void {
+		ChatService.requireChat(chatId);
+		ChatService.updateColumn(chatId, "locale", locale);
+		StructuredLogger.logUserAction("Chat locale updated", {
+			userId: updatedBy,
+			operation: "set_chat_locale",
+			chatId,
+			locale,
+		});
+	}
+
+	/**
+	 * Gets the newcomer verification settings of a chat.
+	 *
+	 * @param chatId - Telegram chat ID
+	 * @returns Verification settings (defaults for unregistered chats)
+	 */
+	static getCaptchaSettings(chatId: number): CaptchaSettings {
+		return ChatService.getChat(chatId)?.captcha ?? DEFAULT_CAPTCHA_SETTINGS;
+	}
+
+	/**
+	 * Changes the newcomer verification settings of a chat.
+	 *
+	 * @param chatId - Telegram chat ID
+	 * @param changes - Settings to change
+	 * @param updatedBy - Admin making the change
+	 */
+	static setCaptchaSettings(
+		chatId: number,
+		changes: Partial<CaptchaSettings>,
+		updatedBy: number,
+	): void {
+		ChatService.requireChat(chatId);
+		if (changes.mode !== undefined) {
+			ChatService.updateColumn(chatId, "captcha_mode", changes.mode);
+		}
+		if (changes.timeoutSeconds !== undefined) {
+			ChatService.updateColumn(
+				chatId,
+				"captcha_timeout",
+				changes.timeoutSeconds,
+			);
+		}
+		if (changes.allowVouching !== undefined) {
+			ChatService.updateColumn(
+				chatId,
+				"captcha_vouching",
+				changes.allowVouching ? 1 : 0,
+			);
+		}
+		StructuredLogger.logUserAction("Chat verification settings updated", {
+			userId: updatedBy,
+			operation: "set_chat_captcha",
+			chatId,
+			...changes,
+		});
+	}
+
+	private static requireChat(chatId: number): ChatSettings {
+		const chat = ChatService.getChat(chatId);
+		if (!chat) {
+			throw new Error(`Chat ${chatId} is not registered`);
+		}
+		return chat;
+	}
+
+	private static updateColumn(
+		chatId: number,
+		column:
+			| "enabled_features"
+			| "fine_overrides"
+			| "admin_chat_id"
+			| "modlog_chat_id"
+			| "locale"
+			| "captcha_mode"
+			| "captcha_timeout"
+			| "captcha_vouching",
+		value: string | number | null,
+	): void {
+		execute(
+			`UPDATE chats SET ${column} = ?, updated_at = ? WHERE chat_id = ?`,
+			[value, Math.floor(Date.now() / 1000), chatId],
+		);
+	}
+
+	private static toSettings(row: Chat): ChatSettings {
+		const enabled: string[] = row.enabled_features
+			? JSON.parse(row.enabled_features)
+			: [...CHAT_FEATURES];
+
+		return {
+			chatId: row.chat_id,
+			title: row.title,
+			enabledFeatures: CHAT_FEATURES.filter((f) => enabled.includes(f)),
+			fineOverrides: row.fine_overrides ? JSON.parse(row.fine_overrides) : {},
+			adminChatId: row.admin_chat_id,
+			modlogChatId: row.modlog_chat_id ?? null,
+			locale: row.locale,
+			captcha: {
+				mode: row.captcha_mode ?? DEFAULT_CAPTCHA_SETTINGS.mode,
+				timeoutSeconds:
+					row.captcha_timeout ?? DEFAULT_CAPTCHA_SETTINGS.timeoutSeconds,
+				allowVouching: (row.captcha_vouching ?? 1) === 1,
+			},
+			active: row.active === 1,
+		};
+	}
+}
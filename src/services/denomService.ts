@@ -0,0 +1,411 @@
+/**
+ * Denom registry service for the CAC Admin Bot.
+ * Keeps the assets the internal ledger can hold, with their display symbol,
+ * decimals and (for IBC tokens) the transfer path they came over.
+ *
+ * Three kinds of denoms can be registered:
+ * - native bank denoms such as "ujuno"
+ * - IBC vouchers "ibc/<HASH>", whose hash must match the registered trace
+ * - CW20 tokens "cw20:<contract address>", credited from contract transfers;
+ *   they are held in the ledger but cannot be withdrawn by the bot
+ *
+ * Ledger amounts are stored as integers in the denom's base unit. The
+ * default denom (ujuno) is always registered and never looked up, so every
+ * JUNO code path keeps using AmountPrecision directly.
+ *
+ * @module services/denomService
+ */
+
+import { createHash } from "crypto";
+import { execute, get, query } from "../database";
+import { parseAddress } from "../utils/address";
+import { StructuredLogger } from "../utils/logger";
+import { AmountPrecision } from "../utils/precision";
+
+/** Denom every balance, command and amount uses unless another is given */
+export const DEFAULT_DENOM = "ujuno";
+
+/** Prefix of CW20 denoms, followed by the token contract address */
+export const CW20_DENOM_PREFIX = "cw20:";
+
+/**
+ * Highest number of decimals a denom may have. Base unit amounts must stay
+ * exact JavaScript integers, which 18 decimal tokens would not.
+ */
+export const MAX_DENOM_DECIMALS = 9;
+
+/**
+ * A registered asset.
+ */
+export interface DenomInfo {
+	/** On-chain denom (e.g. "ujuno", "ibc/27394F...", "cw20:juno1...") */
+	denom: string;
+	/** Display name (e.g. "JUNO", "ATOM") */
+	symbol: string;
+	/** Decimals between the base unit and the display unit */
+	decimals: number;
+	/** IBC transfer path and base denom (e.g. "transfer/channel-1/uatom") */
+	ibcTrace: string | null;
+	enabled: boolean;
+}
+
+/**
+ * An amount of one asset.
+ */
+export interface DenomAmount {
+	/** Amount in display units of the denom */
+	amount: number;
+	denom: string;
+}
+
+interface DenomRow {
+	denom: string;
+	symbol: string;
+	decimals: number;
+	ibc_trace: string | null;
+	enabled: number;
+	added_by: number | null;
+	created_at: number;
+}
+
+const DEFAULT_DENOM_INFO: DenomInfo = {
+	denom: DEFAULT_DENOM,
+	symbol: "JUNO",
+	decimals: 6,
+	ibcTrace: null,
+	enabled: true,
+};
+
+function rowToDenom(row: DenomRow): DenomInfo {
+	return {
+		denom: row.denom,
+		symbol: row.symbol,
+		decimals: row.decimals,
+		ibcTrace: row.ibc_trace,
+		enabled: row.enabled === 1,
+	};
+}
+
+/**
+ * Service for the denom registry and base unit conversions.
+ */
+export class DenomService {
+	/**
+	 * Lists registered denoms, JUNO first.
+	 *
+	 * @param includeDisabled - Also list denoms that were disabled
+	 */
+	static list(includeDisabled = false): DenomInfo[] {
+		const rows = query<DenomRow>(
+			`SELECT * FROM denoms ${includeDisabled ? "" : "WHERE enabled = 1"}
+       ORDER BY denom = ? DESC, symbol`,
+			[DEFAULT_DENOM],
+		);
+		return rows.map(rowToDenom);
+	}
+
+	/**
+	 * Decimals of every enabled denom, JUNO first. Used to detect deposits.
+	 */
+	static depositDenoms(): Record<string, number> {
+		return Object.fromEntries(
+			DenomService.list().map((info) => [info.denom, info.decimals]),
+		);
+	}
+
+	/**
+	 * Gets a registered denom (enabled or not).
+	 *
+	 * @param denom - On-chain denom
+	 */
+	static get(denom: string): DenomInfo | undefined {
+		if (denom === DEFAULT_DENOM) return DEFAULT_DENOM_INFO;
+
+		const row = get<DenomRow>("SELECT * FROM denoms WHERE denom = ?", [denom]);
+		return row ? rowToDenom(row) : undefined;
+	}
+
+	/**
+	 * Resolves a denom argument typed by a user: a symbol (any case) or the
+	 * exact denom. No argument means JUNO.
+	 *
+	 * @param input - Symbol or denom, if given
+	 * @returns The enabled denom, or undefined if it is not registered or disabled
+	 */
+	static resolve(input?: string): DenomInfo | undefined {
+		const trimmed = input?.trim();
+		if (!trimmed) return DEFAULT_DENOM_INFO;
+
+		const row = get<DenomRow>(
+			"SELECT * FROM denoms WHERE (symbol = ? COLLATE NOCASE OR denom = ?) AND enabled = 1",
+			[trimmed, trimmed],
+		);
+		return row ? rowToDenom(row) : undefined;
+	}
+
+	/**
+	 * Registers a denom, or updates the symbol, decimals and trace of one
+	 * that is already registered and re-enables it.
+	 *
+	 * @param input - Denom details
+	 * @param addedBy - Owner registering it
+	 * @returns The registered denom, or why it was refused
+	 */
+	static register(
+		input: {
+			denom: string;
+			symbol: string;
+			decimals: number;
+			ibcTrace?: string;
+		},
+		addedBy: number,
+	): { success: boolean; denom?: DenomInfo; error?: string } {
+		const denom = input.denom.trim();
+		const symbol = input.symbol.trim().toUpperCase();
+		const ibcTrace = input.ibcTrace?.trim() || null;
+
+		if (denom === DEFAULT_DENOM) {
+			return { success: false, error: "JUNO is always registered" };
+		}
+		if (!/^[A-Z0-9]{2,12}$/.test(symbol)) {
+			return {
+				success: false,
+				error: "Symbol must be 2-12 letters or digits",
+			};
+		}
+		if (
+			!Number.isInteger(input.decimals) ||
+			input.decimals < 0 ||
+			input.decimals > MAX_DENOM_DECIMALS
+		) {
+			return {
+				success: false,
+				error: `Decimals must be a whole number from 0 to ${MAX_DENOM_DECIMALS}`,
+			};
+		}
+
+		const error = DenomService.validateDenom(denom, ibcTrace);
+		if (error) return { success: false, error };
+
+		const taken = get<{ denom: string }>(
+			"SELECT denom FROM denoms WHERE symbol = ? COLLATE NOCASE AND denom != ?",
+			[symbol, denom],
+		);
+		if (taken) {
+			return {
+				success: false,
+				error: `Symbol ${symbol} is already used by ${taken.denom}`,
+			};
+		}
+
+		execute(
+			`INSERT INTO denoms (denom, symbol, decimals, ibc_trace, enabled, added_by)
+       VALUES (?, ?, ?, ?, 1, ?)
+       ON CONFLICT(denom) DO UPDATE SET symbol = ?, decimals = ?, ibc_trace = ?, enabled = 1`,
+			[
+				denom,
+				symbol,
+				input.decimals,
+				ibcTrace,
+				addedBy,
+				symbol,
+				input.decimals,
+				ibcTrace,
+			],
+		);
+
+		StructuredLogger.logSecurityEvent("Denom registered", {
+			userId: addedBy,
+			operation: "denom_register",
+			denom,
+			symbol,
+			decimals: input.decimals,
+			ibcTrace,
+		});
+
+		return { success: true, denom: DenomService.get(denom) };
+	}
+
+	/**
+	 * Enables or disables a denom. Disabled denoms are no longer credited
+	 * from deposits or accepted by commands; existing balances are kept and
+	 * still shown.
+	 *
+	 * @param denom - On-chain denom
+	 * @param enabled - New state
+	 * @param changedBy - Owner making the change
+	 * @returns False if the denom is not registered or is JUNO
+	 */
+	static setEnabled(
+		denom: string,
+		enabled: boolean,
+		changedBy: number,
+	): boolean {
+		if (denom === DEFAULT_DENOM) return false;
+
+		const result = execute("UPDATE denoms SET enabled = ? WHERE denom = ?", [
+			enabled ? 1 : 0,
+			denom,
+		]);
+		if (result.changes === 0) return false;
+
+		StructuredLogger.logSecurityEvent(
+			enabled ? "Denom enabled" : "Denom disabled",
+			{
+				userId: changedBy,
+				operation: "denom_set_enabled",
+				denom,
+			},
+		);
+		return true;
+	}
+
+	/**
+	 * Converts a display amount to integer base units.
+	 *
+	 * @param amount - Amount in display units (e.g. 1.5 ATOM)
+	 * @param denom - On-chain denom
+	 * @returns Amount in base units
+	 * @throws {Error} If the denom is unknown or the amount has too many decimals
+	 */
+	static toBaseUnits(amount: number, denom: string = DEFAULT_DENOM): number {
+		if (denom === DEFAULT_DENOM) return AmountPrecision.toMicroJuno(amount);
+
+		const { decimals, symbol } = DenomService.require(denom);
+		const scaled = amount * 10 ** decimals;
+		const base = Math.round(scaled);
+		const tolerance = Math.max(1e-6, Math.abs(scaled) * Number.EPSILON * 4);
+		if (Math.abs(scaled - base) > tolerance) {
+			throw new Error(
+				`Invalid amount precision: ${symbol} amounts have at most ${decimals} decimal places`,
+			);
+		}
+		if (!Number.isSafeInteger(base)) {
+			throw new Error(`Amount is too large: ${amount} ${symbol}`);
+		}
+		return base;
+	}
+
+	/**
+	 * Converts integer base units to a display amount.
+	 *
+	 * @param baseAmount - Amount in base units
+	 * @param denom - On-chain denom
+	 * @throws {Error} If the denom is unknown or the amount is not an integer
+	 */
+	static fromBaseUnits(
+		baseAmount: number,
+		denom: string = DEFAULT_DENOM,
+	): number {
+		if (denom === DEFAULT_DENOM) {
+			return AmountPrecision.fromMicroJuno(baseAmount);
+		}
+
+		if (!Number.isInteger(baseAmount)) {
+			throw new Error(`Base amount must be an integer, got ${baseAmount}`);
+		}
+		const { decimals } = DenomService.require(denom);
+		return Number((baseAmount / 10 ** decimals).toFixed(decimals));
+	}
+
+	/**
+	 * Formats a base unit amount with all decimals and the symbol,
+	 * e.g. "1.500000 ATOM". Unregistered denoms are shown raw.
+	 *
+	 * @param baseAmount - Amount in base units
+	 * @param denom - On-chain denom
+	 */
+	static format(baseAmount: number, denom: string = DEFAULT_DENOM): string {
+		const info = DenomService.get(denom);
+		if (!info) return `${baseAmount} ${denom}`;
+
+		return `${(baseAmount / 10 ** info.decimals).toFixed(info.decimals)} ${info.symbol}`;
+	}
+
+	/**
+	 * Formats a display amount with all decimals and the symbol,
+	 * e.g. 1.5 ATOM -> "1.500000 ATOM".
+	 *
+	 * @param amount - Amount in display units
+	 * @param denom - On-chain denom
+	 */
+	static formatAmount(amount: number, denom: string = DEFAULT_DENOM): string {
+		const info = DenomService.get(denom);
+		if (!info) return `${amount} ${denom}`;
+
+		return `${amount.toFixed(info.decimals)} ${info.symbol}`;
+	}
+
+	/**
+	 * Formats amounts of several assets as one list,
+	 * e.g. "100.000000 JUNO, 0.000007 ATOM".
+	 */
+	static formatAmounts(amounts: DenomAmount[]): string {
+		return amounts
+			.map(({ amount, denom }) => DenomService.formatAmount(amount, denom))
+			.join(", ");
+	}
+
+	/**
+	 * Display symbol of a denom (the raw denom if it is not registered).
+	 */
+	static symbol(denom: string = DEFAULT_DENOM): string {
+		return DenomService.get(denom)?.symbol ?? denom;
+	}
+
+	/**
+	 * Computes the IBC voucher denom of a trace, e.g.
+	 * "transfer/channel-1/uatom" -> "ibc/27394FB0...".
+	 */
+	static ibcDenomForTrace(trace: string): string {
+		return `ibc/${createHash("sha256").update(trace).digest("hex").toUpperCase()}`;
+	}
+
+	private static require(denom: string): DenomInfo {
+		const info = DenomService.get(denom);
+		if (!info) {
+			throw new Error(`Unknown denom: ${denom}`);
+		}
+		return info;
+	}
+
+	/**
+	 * Checks the shape of a denom before it is registered.
+	 *
+	 * @returns Why the denom is invalid, or undefined
+	 */
+	private static validateDenom(
+		denom: string,
+		ibcTrace: string | null,
+	): string | undefined {
+		if (denom.startsWith("ibc/")) {
+			if (!/^ibc\/[0-9A-F]{64}$/.test(denom)) {
+				return "IBC denoms look like ibc/<64 uppercase hex characters>";
+			}
+			if (!ibcTrace) {
+				return "IBC denoms need their trace (e.g. transfer/channel-1/uatom)";
+			}
+			if (DenomService.ibcDenomForTrace(ibcTrace) !== denom) {
+				return "The IBC trace does not hash to this denom";
+			}
+			return undefined;
+		}
+
+		if (ibcTrace) {
+			return "Only IBC denoms have a trace";
+		}
+
+		if (denom.startsWith(CW20_DENOM_PREFIX)) {
+			const contract = parseAddress(denom.slice(CW20_DENOM_PREFIX.length));
+			if (!contract.valid || contract.kind !== "contract") {
+				return "CW20 denoms look like cw20:<token contract address>";
+			}
+			return undefined;
+		}
+
+		if (!/^[a-z][a-z0-9/:._-]{2,127}$/.test(denom)) {
+			return "Invalid denom";
+		}
+		return undefined;
+	}
+}
@@ -0,0 +1,320 @@
+/**
+ * Deposit claim service for the CAC Admin Bot.
+ * Lets users claim their own unclaimed deposits (sent without a valid memo)
+ * by proving they control the address the deposit came from:
+ *
+ * 1. The user asks to claim a deposit and is given a challenge amount
+ * 2. They send exactly that amount from the deposit's sending address to
+ *    the bot wallet
+ * 3. They submit the hash of that transaction; once it checks out, the
+ *    deposit is credited to them
+ *
+ * Each step is recorded on the deposit's processed_deposits row and in the
+ * security log. Owners can still assign any deposit with /claimdeposit,
+ * which overrides a pending claim.
+ *
+ * @module services/depositClaimService
+ */
+
+import { randomInt } from "crypto";
+import { config } from "../config";
+import { execute, get, query, withTransaction } from "../database";
+import { StructuredLogger } from "../utils/logger";
+import { AmountPrecision } from "../utils/precision";
+import { type DenomAmount, DenomService } from "./denomService";
+import { RPCTransactionVerification } from "./rpcTransactionVerification";
+import { SYSTEM_USER_IDS, UnifiedWalletService } from "./unifiedWalletService";
+
+/** How long a challenge can be answered */
+export const CLAIM_TTL_SECONDS = 24 * 60 * 60;
+
+/** Range of challenge amounts in ujuno (0.001000 - 0.009999 JUNO) */
+const CHALLENGE_MIN_UJUNO = 1_000;
+const CHALLENGE_MAX_UJUNO = 9_999;
+
+/**
+ * Progress of a self-service claim.
+ * "overridden" means an owner assigned the deposit while it was pending.
+ */
+export type DepositClaimStatus =
+	| "pending"
+	| "verified"
+	| "expired"
+	| "overridden";
+
+/**
+ * Challenge a claimant has to answer.
+ */
+export interface DepositClaimChallenge {
+	txHash: string;
+	/** Address the deposit came from, and the proof must come from */
+	fromAddress: string;
+	/** Address the proof must be sent to */
+	walletAddress: string;
+	challengeUjuno: number;
+	expiresAt: number;
+	/** Amounts of the deposit being claimed, one per denom */
+	amounts: DenomAmount[];
+}
+
+interface ClaimableDeposit {
+	tx_hash: string;
+	user_id: number;
+	amount: number;
+	denom: string;
+	from_address: string;
+	height: number;
+	processed: number;
+	claim_user_id: number | null;
+	claim_challenge_ujuno: number | null;
+	claim_expires_at: number | null;
+	claim_status: DepositClaimStatus | null;
+}
+
+/**
+ * Service for self-service claims of unclaimed deposits.
+ */
+export class DepositClaimService {
+	/**
+	 * Starts (or shows) a claim of an unclaimed deposit.
+	 *
+	 * @param txHash - Hash of the unclaimed deposit
+	 * @param userId - User claiming it
+	 * @returns The challenge to answer, or why the deposit cannot be claimed
+	 */
+	static startClaim(
+		txHash: string,
+		userId: number,
+	): { success: boolean; challenge?: DepositClaimChallenge; error?: string } {
+		const deposit = DepositClaimService.getUnclaimed(txHash);
+		if (!deposit) {
+			return {
+				success: false,
+				error: "No unclaimed deposit found with this transaction hash",
+			};
+		}
+
+		const now = Math.floor(Date.now() / 1000);
+		const pending =
+			deposit.claim_status === "pending" &&
+			(deposit.claim_expires_at ?? 0) > now;
+
+		if (pending && deposit.claim_user_id !== userId) {
+			return {
+				success: false,
+				error: "Another user is already claiming this deposit",
+			};
+		}
+		if (pending && deposit.claim_challenge_ujuno) {
+			return {
+				success: true,
+				challenge: DepositClaimService.toChallenge(
+					deposit,
+					deposit.claim_challenge_ujuno,
+					deposit.claim_expires_at ?? now,
+				),
+			};
+		}
+
+		const challengeUjuno = DepositClaimService.newChallengeAmount(now);
+		const expiresAt = now + CLAIM_TTL_SECONDS;
+		execute(
+			`UPDATE processed_deposits
+       SET claim_user_id = ?, claim_challenge_ujuno = ?, claim_expires_at = ?,
+           claim_status = 'pending', claim_proof_tx_hash = NULL
+       WHERE tx_hash = ?`,
+			[userId, challengeUjuno, expiresAt, txHash],
+		);
+
+		const challenge = DepositClaimService.toChallenge(
+			deposit,
+			challengeUjuno,
+			expiresAt,
+		);
+
+		StructuredLogger.logSecurityEvent("Deposit claim started", {
+			userId,
+			txHash,
+			operation: "deposit_claim_start",
+			fromAddress: deposit.from_address,
+			amount: DenomService.formatAmounts(challenge.amounts),
+			challengeUjuno,
+		});
+
+		return { success: true, challenge };
+	}
+
+	/**
+	 * Checks the proof of a pending claim and credits the deposit if it
+	 * holds: a successful transaction after the deposit, sending exactly the
+	 * challenge amount from the deposit's address to the bot wallet.
+	 *
+	 * @param txHash - Hash of the unclaimed deposit
+	 * @param userId - User claiming it
+	 * @param proofTxHash - Hash of the challenge transaction
+	 * @returns Amounts credited, or why the proof was rejected
+	 */
+	static async completeClaim(
+		txHash: string,
+		userId: number,
+		proofTxHash: string,
+	): Promise<{
+		success: boolean;
+		amounts?: DenomAmount[];
+		error?: string;
+	}> {
+		const deposit = DepositClaimService.getUnclaimed(txHash);
+		if (
+			!deposit ||
+			deposit.claim_status !== "pending" ||
+			deposit.claim_user_id !== userId ||
+			!deposit.claim_challenge_ujuno
+		) {
+			return {
+				success: false,
+				error: "You have no pending claim for this deposit",
+			};
+		}
+
+		const now = Math.floor(Date.now() / 1000);
+		if ((deposit.claim_expires_at ?? 0) <= now) {
+			execute(
+				"UPDATE processed_deposits SET claim_status = 'expired' WHERE tx_hash = ?",
+				[txHash],
+			);
+			StructuredLogger.logSecurityEvent("Deposit claim expired", {
+				userId,
+				txHash,
+				operation: "deposit_claim_expired",
+			});
+			return {
+				success: false,
+				error: "Your claim expired. Start a new one to get a new challenge",
+			};
+		}
+
+		const rejected = (reason: string) => {
+			StructuredLogger.logSecurityEvent("Deposit claim proof rejected", {
+				userId,
+				txHash,
+				operation: "deposit_claim_rejected",
+				proofTxHash,
+				reason,
+			});
+			return { success: false, error: reason };
+		};
+
+		if (proofTxHash.toUpperCase() === txHash.toUpperCase()) {
+			return rejected("The proof must be a new transaction");
+		}
+		const reused = get<{ tx_hash: string }>(
+			"SELECT tx_hash FROM processed_deposits WHERE claim_proof_tx_hash = ?",
+			[proofTxHash],
+		);
+		if (reused) {
+			return rejected("This transaction was already used as a proof");
+		}
+
+		const proof =
+			await RPCTransactionVerification.fetchTransaction(proofTxHash);
+		if (!proof.success || !proof.data) {
+			return rejected(proof.error || "Proof transaction not found");
+		}
+		if (proof.data.status !== 0) {
+			return rejected("Proof transaction failed on chain");
+		}
+		if (deposit.height > 0 && proof.data.height <= deposit.height) {
+			return rejected("Proof transaction is older than the deposit");
+		}
+
+		const walletAddress = config.userFundsAddress;
+		const sentMicro = proof.data.transfers
+			.filter(
+				(transfer) =>
+					transfer.sender === deposit.from_address &&
+					transfer.recipient === walletAddress,
+			)
+			.reduce(
+				(sum, transfer) => sum + AmountPrecision.toMicroJuno(transfer.amount),
+				0,
+			);
+		if (sentMicro !== deposit.claim_challenge_ujuno) {
+			return rejected(
+				`Proof must send exactly ${AmountPrecision.fromMicroJuno(deposit.claim_challenge_ujuno).toFixed(6)} JUNO from ${deposit.from_address}`,
+			);
+		}
+
+		try {
+			const amounts = withTransaction(() => {
+				const result = UnifiedWalletService.claimUnclaimedDeposit(
+					txHash,
+					userId,
+				);
+				if (!result.success) {
+					throw new Error(result.error || "Failed to credit deposit");
+				}
+				execute(
+					"UPDATE processed_deposits SET claim_status = 'verified', claim_proof_tx_hash = ? WHERE tx_hash = ?",
+					[proofTxHash, txHash],
+				);
+				return result.amounts ?? [];
+			});
+
+			StructuredLogger.logSecurityEvent("Deposit claim verified", {
+				userId,
+				txHash,
+				operation: "deposit_claim_verified",
+				proofTxHash,
+				amount: DenomService.formatAmounts(amounts),
+			});
+			return { success: true, amounts };
+		} catch (error) {
+			return rejected(
+				error instanceof Error ? error.message : "Failed to credit deposit",
+			);
+		}
+	}
+
+	/**
+	 * Gets a deposit that is held in the unclaimed account.
+	 */
+	private static getUnclaimed(txHash: string): ClaimableDeposit | undefined {
+		return get<ClaimableDeposit>(
+			"SELECT * FROM processed_deposits WHERE tx_hash = ? AND user_id = ? AND processed = 1",
+			[txHash, SYSTEM_USER_IDS.UNCLAIMED],
+		);
+	}
+
+	/**
+	 * Picks a challenge amount no other pending claim is waiting for.
+	 */
+	private static newChallengeAmount(now: number): number {
+		for (;;) {
+			const amount = randomInt(CHALLENGE_MIN_UJUNO, CHALLENGE_MAX_UJUNO + 1);
+			const taken = get<{ tx_hash: string }>(
+				`SELECT tx_hash FROM processed_deposits
+         WHERE claim_status = 'pending' AND claim_challenge_ujuno = ? AND claim_expires_at > ?`,
+				[amount, now],
+			);
+			if (!taken) return amount;
+		}
+	}
+
+	private static toChallenge(
+		deposit: ClaimableDeposit,
+		challengeUjuno: number,
+		expiresAt: number,
+	): DepositClaimChallenge {
+		return {
+			txHash: deposit.tx_hash,
+			fromAddress: deposit.from_address,
+			walletAddress: config.userFundsAddress || "NOT_CONFIGURED",
+			challengeUjuno,
+			expiresAt,
+			amounts: query<DenomAmount>(
+				"SELECT amount, denom FROM processed_deposits WHERE tx_hash = ? AND user_id = ? ORDER BY id",
+				[deposit.tx_hash, SYSTEM_USER_IDS.UNCLAIMED],
+			),
+		};
+	}
+}
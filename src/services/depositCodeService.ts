@@ -0,0 +1,181 @@
+/**
+ * Deposit code service for the CAC Admin Bot.
+ * Issues each user a checksummed deposit code to put in the memo of their
+ * deposits (see utils/depositCode) and resolves deposit memos to the user
+ * they should be credited to.
+ *
+ * Memos are resolved as follows:
+ * - an active code credits its owner
+ * - a rotated code, or a mistyped code that can be corrected to exactly
+ *   one owner, goes to the unclaimed account with that owner suggested
+ * - a numeric memo is a legacy Telegram user ID; it credits that user while
+ *   legacy memos are accepted, otherwise it is suggested like a rotated code
+ * - anything else goes to the unclaimed account
+ *
+ * @module services/depositCodeService
+ */
+
+import { config } from "../config";
+import { execute, get, query } from "../database";
+import {
+	depositCodeCorrections,
+	formatDepositCode,
+	generateDepositCode,
+	normalizeDepositCode,
+} from "../utils/depositCode";
+import { StructuredLogger } from "../utils/logger";
+
+/**
+ * How a deposit memo was resolved.
+ */
+export interface MemoResolution {
+	/** User to credit, or null to send the deposit to the unclaimed account */
+	userId: number | null;
+	/** Likely owner of a deposit sent to the unclaimed account */
+	suggestedUserId?: number;
+	kind: "code" | "legacy" | "invalid" | "none";
+	/** Why the deposit could not be credited directly */
+	reason?: string;
+}
+
+interface DepositCodeRow {
+	code: string;
+	user_id: number;
+	created_at: number;
+	revoked_at: number | null;
+}
+
+/**
+ * Service for issuing deposit codes and resolving deposit memos.
+ */
+export class DepositCodeService {
+	/**
+	 * Gets a user's active deposit code, issuing one if they have none.
+	 *
+	 * @param userId - Telegram user ID
+	 * @returns The code formatted for display
+	 */
+	static getCode(userId: number): string {
+		const active = get<DepositCodeRow>(
+			"SELECT * FROM deposit_codes WHERE user_id = ? AND revoked_at IS NULL",
+			[userId],
+		);
+		if (active) return formatDepositCode(active.code);
+
+		return DepositCodeService.issueCode(userId);
+	}
+
+	/**
+	 * Replaces a user's deposit code. Deposits still sent to the old code go
+	 * to the unclaimed account with the user suggested as owner.
+	 *
+	 * @param userId - Telegram user ID
+	 * @returns The new code formatted for display
+	 */
+	static rotateCode(userId: number): string {
+		execute(
+			"UPDATE deposit_codes SET revoked_at = strftime('%s', 'now') WHERE user_id = ? AND revoked_at IS NULL",
+			[userId],
+		);
+		const code = DepositCodeService.issueCode(userId);
+
+		StructuredLogger.logSecurityEvent("Deposit code rotated", {
+			userId,
+			operation: "deposit_code_rotate",
+		});
+		return code;
+	}
+
+	/**
+	 * Resolves a deposit memo to the user it should be credited to.
+	 *
+	 * @param memo - Memo of the deposit transaction
+	 * @returns Who to credit, or who to suggest as owner
+	 */
+	static resolveMemo(memo: string | undefined): MemoResolution {
+		const trimmed = memo?.trim() ?? "";
+		if (!trimmed) {
+			return { userId: null, kind: "none", reason: "No memo provided" };
+		}
+
+		if (/^\d+$/.test(trimmed)) {
+			const userId = parseInt(trimmed, 10);
+			if (userId > 0 && config.acceptLegacyDepositMemos) {
+				return { userId, kind: "legacy" };
+			}
+			const known = get<{ id: number }>("SELECT id FROM users WHERE id = ?", [
+				userId,
+			]);
+			return {
+				userId: null,
+				suggestedUserId: known?.id,
+				kind: "legacy",
+				reason: "User ID memos are no longer accepted",
+			};
+		}
+
+		const code = normalizeDepositCode(trimmed);
+		if (!code) {
+			return {
+				userId: null,
+				kind: "invalid",
+				reason: "Memo is not a deposit code",
+			};
+		}
+
+		const row = get<DepositCodeRow>(
+			"SELECT * FROM deposit_codes WHERE code = ?",
+			[code],
+		);
+		if (row && row.revoked_at === null) {
+			return { userId: row.user_id, kind: "code" };
+		}
+		if (row) {
+			return {
+				userId: null,
+				suggestedUserId: row.user_id,
+				kind: "code",
+				reason: "Deposit code was replaced",
+			};
+		}
+
+		// Unknown code: suggest an owner if the typo can only mean one user
+		const candidates = depositCodeCorrections(code);
+		const owners =
+			candidates.length === 0
+				? []
+				: query<{ user_id: number }>(
+						`SELECT DISTINCT user_id FROM deposit_codes
+             WHERE code IN (${candidates.map(() => "?").join(", ")})`,
+						candidates,
+					);
+		return {
+			userId: null,
+			suggestedUserId: owners.length === 1 ? owners[0].user_id : undefined,
+			kind: "invalid",
+			reason: "Unknown or mistyped deposit code",
+		};
+	}
+
+	/**
+	 * Stores a new active code for a user.
+	 *
+	 * @returns The code formatted for display
+	 */
+	private static issueCode(userId: number): string {
+		for (;;) {
+			const code = generateDepositCode();
+			const taken = get<{ code: string }>(
+				"SELECT code FROM deposit_codes WHERE code = ?",
+				[code],
+			);
+			if (taken) continue;
+
+			execute("INSERT INTO deposit_codes (code, user_id) VALUES (?, ?)", [
+				code,
+				userId,
+			]);
+			return formatDepositCode(code);
+		}
+	}
+}
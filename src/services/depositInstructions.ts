@@ -8,7 +8,7 @@
 
 import { bold, code, type FmtString, fmt } from "telegraf/format";
 import { config } from "../config";
-import { logger } from "../utils/logger";
+import { DepositCodeService } from "./depositCodeService";
 
 /**
  * Service for generating clear deposit instructions with prominent memo warnings.
@@ -19,7 +19,7 @@ export class DepositInstructionService {
 	 * Generates comprehensive deposit instructions with memo warnings.
 	 * Returns both plain text and Markdown formatted versions.
 	 *
-	 * @param userId - Telegram user ID (used as memo)
+	 * @param userId - Telegram user ID (their deposit code is the memo)
 	 * @returns Object containing formatted instructions, wallet address, and memo
 	 *
 	 * @example
@@ -35,7 +35,7 @@ export class DepositInstructionService {
 		memo: string;
 	} {
 		const walletAddress = config.userFundsAddress || "NOT_CONFIGURED";
-		const memo = userId.toString();
+		const memo = DepositCodeService.getCode(userId);
 
 		// Plain text version
 		const text = `
@@ -52,7 +52,7 @@ MEMO: ${memo}
 
  WARNING: Deposits WITHOUT the correct memo CANNOT be credited to your account!
  The memo MUST be EXACTLY: ${memo}
- This is YOUR user ID - do not use any other number!
+ This is YOUR deposit code - do not use any other code!
 
 DOUBLE CHECK:
 - Address: ${walletAddress}
@@ -82,7 +82,7 @@ ${bold("MEMO:")} ${code(memo)} (required - no memo = no credit)
 	 * @returns Short memo reminder message
 	 */
 	static getMemoReminder(userId: number): string {
-		return ` **REMEMBER**: Your memo MUST be \`${userId}\` or funds won't be credited!`;
+		return ` **REMEMBER**: Your memo MUST be \`${DepositCodeService.getCode(userId)}\` or funds won't be credited!`;
 	}
 
 	/**
@@ -103,12 +103,14 @@ If you sent JUNO without a memo or with the wrong memo:
    • Amount sent
 
 Unclaimed deposits are processed manually and may take time.
-Always use your user ID as memo to avoid this!
+Always use the deposit code from /deposit as memo to avoid this!
 `;
 	}
 
 	/**
-	 * Validates if a memo matches the expected format for a user.
+	 * Validates if a memo routes a deposit to a user. Deposit codes must
+	 * pass their checksum and belong to the user; numeric user ID memos are
+	 * accepted while legacy memos are enabled.
 	 *
 	 * @param memo - Memo string from transaction
 	 * @param expectedUserId - Expected user ID
@@ -116,7 +118,7 @@ Always use your user ID as memo to avoid this!
 	 *
 	 * @example
 	 * ```typescript
-	 * const result = DepositInstructionService.validateMemo('123456', 123456);
+	 * const result = DepositInstructionService.validateMemo('K7QM-2XD9', 123456);
 	 * if (result.valid) {
 	 *   console.log('Valid memo');
 	 * } else {
@@ -131,46 +133,32 @@ Always use your user ID as memo to avoid this!
 		valid: boolean;
 		error?: string;
 	} {
-		if (!memo || memo.trim() === "") {
-			return {
-				valid: false,
-				error: "No memo provided",
-			};
-		}
+		const resolution = DepositCodeService.resolveMemo(memo);
 
-		const trimmedMemo = memo.trim();
-
-		// Check if memo is exactly the user ID
-		if (trimmedMemo === expectedUserId.toString()) {
+		if (resolution.userId === expectedUserId) {
 			return { valid: true };
 		}
 
-		// Check if memo contains the user ID with extra text (warn but accept)
-		if (trimmedMemo.includes(expectedUserId.toString())) {
-			logger.warn("Memo contains user ID but has extra text", {
-				memo: trimmedMemo,
-				expectedUserId,
-			});
-
+		if (resolution.userId !== null) {
 			return {
-				valid: true,
+				valid: false,
 				error:
-					"Memo contains extra text - please use only your user ID next time",
+					resolution.kind === "legacy"
+						? "Memo is another user's ID"
+						: "Memo is another user's deposit code",
 			};
 		}
 
-		// Check if it's a number but wrong user ID
-		const memoAsNumber = parseInt(trimmedMemo, 10);
-		if (!Number.isNaN(memoAsNumber)) {
+		if (resolution.suggestedUserId === expectedUserId) {
 			return {
 				valid: false,
-				error: `Wrong user ID in memo. Expected ${expectedUserId}, got ${memoAsNumber}`,
+				error: `${resolution.reason} - it may be yours, but it cannot be credited automatically`,
 			};
 		}
 
 		return {
 			valid: false,
-			error: "Invalid memo format - must be your user ID",
+			error: resolution.reason ?? "Invalid memo",
 		};
 	}
 
@@ -221,14 +209,14 @@ Your deposit was received but **cannot be credited** because no memo was provide
 
 Your funds are in the unclaimed pool. Contact an admin with your transaction hash to claim them.
 
-**Always include your user ID as memo!**
+**Always include your deposit code as memo!**
 `;
 
 			case "wrong_memo":
 				return `
  **Deposit Failed - Wrong Memo**
 
-Your deposit was received but the memo \`${details?.memo}\` doesn't match your user ID \`${details?.userId}\`.
+Your deposit was received but the memo \`${details?.memo}\` doesn't match your deposit code.
 
 Your funds are in the unclaimed pool. Contact an admin to claim them.
 `;
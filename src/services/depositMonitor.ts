@@ -6,9 +6,16 @@
  */
 
 import { config } from "../config";
-import { execute, get } from "../database";
+import { execute, get, query } from "../database";
+import { extractRpcDeposits } from "../utils/depositTx";
 import { logger } from "../utils/logger";
+import { searchIncomingTxs } from "../utils/txSearch";
+import { type DenomAmount, DenomService } from "./denomService";
+import { DepositCodeService } from "./depositCodeService";
+import { EventBus } from "./eventBus";
 import { LedgerService } from "./ledgerService";
+import { MaintenanceService } from "./maintenanceService";
+import { PaymentReceiptService } from "./paymentReceiptService";
 
 interface DepositCheckResult {
 	success: boolean;
@@ -19,7 +26,8 @@ interface DepositCheckResult {
 interface TransactionCheckResult {
 	found: boolean;
 	processed: boolean;
-	amount?: number;
+	/** Amounts received, one per registered denom */
+	amounts?: DenomAmount[];
 	sender?: string;
 	userId?: number;
 	error?: string;
@@ -28,9 +36,15 @@ interface TransactionCheckResult {
 interface DepositInfo {
 	txHash: string;
 	userId: number | null;
+	/** Amount in display units of the denom */
 	amount: number;
+	denom: string;
 	fromAddress: string;
+	/** Address that paid the transaction fee */
+	feePayer?: string;
 	memo: string;
+	/** Likely owner of a deposit whose memo could not be resolved */
+	suggestedUserId?: number;
 	height: number;
 	timestamp: number;
 }
@@ -139,18 +153,35 @@ export class DepositMonitor {
 			};
 		}
 
+		// The height cursor stays put while deposits are paused, so every
+		// deposit made in the meantime is fetched from it on resume
+		if (MaintenanceService.isPaused("deposits")) {
+			return { success: true, depositsFound: 0 };
+		}
+
 		try {
 			DepositMonitor.lastCheck = Math.floor(Date.now() / 1000);
-			const deposits = await DepositMonitor.fetchRecentDeposits();
+			const { deposits, scannedHeight } =
+				await DepositMonitor.fetchRecentDeposits();
 			let depositsFound = 0;
+			let cursor = scannedHeight;
 
 			for (const deposit of deposits) {
+				// Paused mid-poll: resume from the block of this deposit
+				if (MaintenanceService.isPaused("deposits")) {
+					cursor = deposit.height - 1;
+					break;
+				}
 				const processed = await DepositMonitor.processDeposit(deposit);
 				if (processed) {
 					depositsFound++;
 				}
 			}
 
+			DepositMonitor.lastCheckedHeight = Math.max(
+				DepositMonitor.lastCheckedHeight,
+				cursor,
+			);
 			return { success: true, depositsFound };
 		} catch (error) {
 			logger.error("Failed to check deposits", error);
@@ -168,31 +199,33 @@ export class DepositMonitor {
 	static async checkSpecificTransaction(
 		txHash: string,
 	): Promise<TransactionCheckResult> {
-		// Check if already processed
-		const existing = get<{
+		// Check if already processed (one row per denom received)
+		const existing = query<{
 			processed: number;
 			user_id: number;
 			amount: number;
+			denom: string;
 		}>(
-			"SELECT processed, user_id, amount FROM processed_deposits WHERE tx_hash = ?",
+			"SELECT processed, user_id, amount, denom FROM processed_deposits WHERE tx_hash = ? ORDER BY id",
 			[txHash],
 		);
 
-		if (existing) {
-			if (existing.processed === 1) {
+		if (existing.length > 0) {
+			const amounts = existing.map(({ amount, denom }) => ({ amount, denom }));
+			if (existing.every((row) => row.processed === 1)) {
 				return {
 					found: true,
 					processed: true,
-					amount: existing.amount,
-					userId: existing.user_id,
+					amounts,
+					userId: existing[0].user_id,
 					error: "Transaction already processed",
 				};
 			}
 			return {
 				found: true,
 				processed: false,
-				amount: existing.amount,
-				userId: existing.user_id,
+				amounts,
+				userId: existing[0].user_id,
 			};
 		}
 
@@ -242,25 +275,36 @@ export class DepositMonitor {
 			const messages = tx?.body?.messages || [];
 			const memo = tx?.body?.memo || "";
 
-			let amount = 0;
 			let fromAddress = "";
 			let toCorrectAddress = false;
+			const denoms = DenomService.depositDenoms();
+			const received = new Map<string, number>();
 
 			for (const msg of messages) {
 				if (msg["@type"] === "/cosmos.bank.v1beta1.MsgSend") {
 					if (msg.to_address === DepositMonitor.walletAddress) {
 						toCorrectAddress = true;
 						fromAddress = msg.from_address;
-						const junoAmount = msg.amount?.find(
-							(a: any) => a.denom === "ujuno",
-						);
-						if (junoAmount) {
-							amount = parseFloat(junoAmount.amount) / 1_000_000;
+						// Every registered denom sent is credited
+						for (const coin of msg.amount || []) {
+							if (!(coin.denom in denoms)) continue;
+							received.set(
+								coin.denom,
+								(received.get(coin.denom) ?? 0) +
+									Number.parseInt(coin.amount, 10),
+							);
 						}
 					}
 				}
 			}
 
+			const amounts = Object.keys(denoms)
+				.filter((denom) => received.get(denom))
+				.map((denom) => ({
+					amount: DenomService.fromBaseUnits(received.get(denom) ?? 0, denom),
+					denom,
+				}));
+
 			if (!toCorrectAddress) {
 				return {
 					found: true,
@@ -269,36 +313,39 @@ export class DepositMonitor {
 				};
 			}
 
-			// Parse user ID from memo
-			const userId = DepositMonitor.parseUserId(memo);
+			// Resolve the user from the memo
+			const { userId } = DepositCodeService.resolveMemo(memo);
 
 			if (!userId) {
 				return {
 					found: true,
 					processed: false,
-					amount,
+					amounts,
 					sender: fromAddress,
 					error: "Invalid or missing memo - cannot determine user ID",
 				};
 			}
 
-			// Process the deposit
-			const deposit: DepositInfo = {
-				txHash,
-				userId,
-				amount,
-				fromAddress,
-				memo,
-				height: parseInt(txResponse.height, 10),
-				timestamp: Math.floor(Date.now() / 1000),
-			};
-
-			const processed = await DepositMonitor.processDeposit(deposit);
+			// Process the deposit, once per denom received
+			let processed = amounts.length > 0;
+			for (const { amount, denom } of amounts) {
+				const deposit: DepositInfo = {
+					txHash,
+					userId,
+					amount,
+					denom,
+					fromAddress,
+					memo,
+					height: parseInt(txResponse.height, 10),
+					timestamp: Math.floor(Date.now() / 1000),
+				};
+				processed = (await DepositMonitor.processDeposit(deposit)) && processed;
+			}
 
 			return {
 				found: true,
 				processed,
-				amount,
+				amounts,
 				sender: fromAddress,
 				userId,
 			};
@@ -313,27 +360,27 @@ export class DepositMonitor {
 	}
 
 	/**
-	 * Fetch recent deposits from blockchain
+	 * Fetch deposits made after the height cursor, oldest first
+	 *
+	 * @returns Deposits found, and the height the cursor can move to once they are processed
 	 */
-	private static async fetchRecentDeposits(): Promise<DepositInfo[]> {
+	private static async fetchRecentDeposits(): Promise<{
+		deposits: DepositInfo[];
+		scannedHeight: number;
+	}> {
 		try {
-			const queryStr = `transfer.recipient='${DepositMonitor.walletAddress}'`;
-			const url = `${DepositMonitor.rpcEndpoint}/tx_search?query="${encodeURIComponent(queryStr)}"&prove=false&per_page=20`;
-
-			const response = await fetch(url);
-
-			if (!response.ok) {
-				throw new Error(`RPC request failed: ${response.status}`);
-			}
-
-			const data = (await response.json()) as any;
+			const { txs, scannedHeight } = await searchIncomingTxs(
+				DepositMonitor.rpcEndpoint,
+				DepositMonitor.walletAddress,
+				DepositMonitor.lastCheckedHeight,
+			);
 			const deposits: DepositInfo[] = [];
 
-			for (const tx of data.result?.txs || []) {
+			for (const tx of txs) {
 				const height = parseInt(tx.height, 10);
 
-				// Skip already processed
-				if (height <= DepositMonitor.lastCheckedHeight) {
+				// Beyond a block the search stopped in; fetched again next poll
+				if (height > scannedHeight) {
 					continue;
 				}
 
@@ -342,53 +389,36 @@ export class DepositMonitor {
 					continue;
 				}
 
-				// Extract amount and sender from events
-				let amount = 0;
-				let fromAddress = "";
-
-				for (const event of tx.tx_result.events) {
-					if (event.type === "transfer") {
-						const recipient = event.attributes.find(
-							(a: any) => a.key === "recipient",
-						)?.value;
-						const amountStr = event.attributes.find(
-							(a: any) => a.key === "amount",
-						)?.value;
-						const sender = event.attributes.find(
-							(a: any) => a.key === "sender",
-						)?.value;
-
-						if (recipient === DepositMonitor.walletAddress && amountStr) {
-							const match = amountStr.match(/^(\d+)ujuno$/);
-							if (match) {
-								amount = parseFloat(match[1]) / 1_000_000;
-								fromAddress = sender || "";
-							}
-						}
-					}
+				// Decode memo, transfers and fee payer from the raw transaction;
+				// each registered denom received is a deposit of its own
+				for (const extracted of extractRpcDeposits(
+					tx,
+					DepositMonitor.walletAddress,
+					DenomService.depositDenoms(),
+				)) {
+					const { amount, denom, fromAddress, memo, feePayer } = extracted;
+					const { userId, suggestedUserId } =
+						DepositCodeService.resolveMemo(memo);
+
+					deposits.push({
+						txHash: tx.hash,
+						userId,
+						amount,
+						denom,
+						fromAddress,
+						feePayer,
+						memo,
+						suggestedUserId,
+						height,
+						timestamp: Math.floor(Date.now() / 1000),
+					});
 				}
-
-				if (amount === 0) continue;
-
-				// Extract memo
-				const memo = DepositMonitor.parseMemo(tx.tx, amount);
-				const userId = DepositMonitor.parseUserId(memo);
-
-				deposits.push({
-					txHash: tx.hash,
-					userId,
-					amount,
-					fromAddress,
-					memo,
-					height,
-					timestamp: Math.floor(Date.now() / 1000),
-				});
 			}
 
-			return deposits;
+			return { deposits, scannedHeight };
 		} catch (error) {
 			logger.error("Failed to fetch deposits", error);
-			return [];
+			return { deposits: [], scannedHeight: DepositMonitor.lastCheckedHeight };
 		}
 	}
 
@@ -396,16 +426,26 @@ export class DepositMonitor {
 	 * Process a deposit and credit user balance
 	 */
 	private static async processDeposit(deposit: DepositInfo): Promise<boolean> {
+		// Left unprocessed so the deposit is credited once deposits are resumed
+		if (MaintenanceService.isPaused("deposits")) {
+			return false;
+		}
+
 		// Check if already processed
 		const existing = get<any>(
-			"SELECT * FROM processed_deposits WHERE tx_hash = ?",
-			[deposit.txHash],
+			"SELECT * FROM processed_deposits WHERE tx_hash = ? AND denom = ?",
+			[deposit.txHash, deposit.denom],
 		);
 
 		if (existing) {
 			return false;
 		}
 
+		// Payments used to settle fines or bail are not deposits
+		if (PaymentReceiptService.isReceipt(deposit.txHash)) {
+			return false;
+		}
+
 		// Determine target user
 		let targetUserId = deposit.userId;
 		if (!targetUserId) {
@@ -414,6 +454,7 @@ export class DepositMonitor {
 				txHash: deposit.txHash,
 				memo: deposit.memo,
 				amount: deposit.amount,
+				suggestedUserId: deposit.suggestedUserId,
 			});
 		} else {
 			// Ensure user exists
@@ -425,53 +466,65 @@ export class DepositMonitor {
 					"pleb",
 					"deposit_pre_funding",
 				);
-				await LedgerService.ensureUserBalance(targetUserId);
+				LedgerService.ensureUserBalance(targetUserId);
 			}
 		}
 
 		// Record deposit as processing
 		execute(
 			`INSERT INTO processed_deposits (
-				tx_hash, user_id, amount, from_address, memo, height, processed, created_at
-			) VALUES (?, ?, ?, ?, ?, ?, 0, ?)`,
+				tx_hash, user_id, amount, denom, from_address, memo, height, processed, created_at, suggested_user_id
+			) VALUES (?, ?, ?, ?, ?, ?, ?, 0, ?, ?)`,
 			[
 				deposit.txHash,
 				targetUserId,
 				deposit.amount,
+				deposit.denom,
 				deposit.fromAddress,
 				deposit.memo,
 				deposit.height,
 				deposit.timestamp,
+				targetUserId === SYSTEM_USER_IDS.UNCLAIMED
+					? (deposit.suggestedUserId ?? null)
+					: null,
 			],
 		);
 
-		// Update last checked height
-		if (deposit.height > DepositMonitor.lastCheckedHeight) {
-			DepositMonitor.lastCheckedHeight = deposit.height;
-		}
-
 		// Process in ledger
-		const result = await LedgerService.processDeposit(
+		const result = LedgerService.processDeposit(
 			targetUserId,
 			deposit.amount,
 			deposit.txHash,
 			deposit.fromAddress,
 			`Deposit from ${deposit.fromAddress}${deposit.memo ? ` (memo: ${deposit.memo})` : ""}`,
+			deposit.denom,
 		);
 
 		if (result.success) {
 			execute(
-				"UPDATE processed_deposits SET processed = 1, processed_at = ? WHERE tx_hash = ?",
-				[Math.floor(Date.now() / 1000), deposit.txHash],
+				"UPDATE processed_deposits SET processed = 1, processed_at = ? WHERE tx_hash = ? AND denom = ?",
+				[Math.floor(Date.now() / 1000), deposit.txHash, deposit.denom],
 			);
 
 			logger.info("Deposit processed", {
 				userId: targetUserId,
 				amount: deposit.amount,
+				denom: deposit.denom,
 				txHash: deposit.txHash,
+				feePayer: deposit.feePayer,
 				newBalance: result.newBalance,
 			});
 
+			await EventBus.publish("deposit.credited", {
+				userId: targetUserId,
+				amount: deposit.amount,
+				denom: deposit.denom,
+				txHash: deposit.txHash,
+				fromAddress: deposit.fromAddress,
+				unclaimed: targetUserId === SYSTEM_USER_IDS.UNCLAIMED,
+				timestamp: Math.floor(Date.now() / 1000),
+			});
+
 			return true;
 		}
 
@@ -484,75 +537,6 @@ export class DepositMonitor {
 		return false;
 	}
 
-	/**
-	 * Parse memo from protobuf tx
-	 */
-	private static parseMemo(base64Tx: string, amount: number): string {
-		try {
-			const buffer = Buffer.from(base64Tx, "base64");
-			const amountInUjuno = (amount * 1_000_000).toString();
-
-			const strings: { str: string; position: number }[] = [];
-
-			// Scan for printable ASCII strings
-			for (let i = 0; i < buffer.length; i++) {
-				const strStart = i;
-				let strLength = 0;
-
-				while (i < buffer.length && buffer[i] >= 0x20 && buffer[i] <= 0x7e) {
-					strLength++;
-					i++;
-				}
-
-				if (strLength >= 1) {
-					const str = buffer
-						.slice(strStart, strStart + strLength)
-						.toString("utf8");
-					strings.push({ str, position: strStart });
-				}
-			}
-
-			// Find position of amount
-			const amountPos =
-				strings.find((s) => s.str === amountInUjuno)?.position || -1;
-
-			// Look for numeric memo after amount
-			const numericMemo = strings.find((s) => {
-				if (!/^\d{5,12}$/.test(s.str)) return false;
-				if (s.str === amountInUjuno) return false;
-				if (amountPos !== -1 && s.position < amountPos) return false;
-				return true;
-			});
-
-			return numericMemo?.str || "";
-		} catch (error) {
-			logger.error("Failed to parse memo", error);
-			return "";
-		}
-	}
-
-	/**
-	 * Parse user ID from memo
-	 */
-	private static parseUserId(memo: string): number | null {
-		if (!memo) return null;
-
-		const parsed = parseInt(memo.trim(), 10);
-		if (!Number.isNaN(parsed) && parsed > 0) {
-			return parsed;
-		}
-
-		const match = memo.match(/(?:user[Id]*[:\s]+)?(\d+)/i);
-		if (match?.[1]) {
-			const id = parseInt(match[1], 10);
-			if (!Number.isNaN(id) && id > 0) {
-				return id;
-			}
-		}
-
-		return null;
-	}
-
 	/**
 	 * Cleanup old deposit records
 	 */
@@ -6,19 +6,24 @@
  * @module services/duelService
  */
 
-import type { Context, Telegraf } from "telegraf";
-import { execute, get, query } from "../database";
+import { execute, get, query, withTransaction } from "../database";
 import { logger, StructuredLogger } from "../utils/logger";
 import { AmountPrecision } from "../utils/precision";
-import { JailService } from "./jailService";
+import { DEFAULT_DENOM, DenomService } from "./denomService";
+import { EventBus } from "./eventBus";
 import { LedgerService, TransactionType } from "./ledgerService";
+import {
+	ModerationActionService,
+	type MuteRequest,
+} from "./moderationActionService";
 import { TransactionLockService } from "./transactionLock";
+import { SYSTEM_USER_IDS } from "./unifiedWalletService";
 import { addUserRestriction } from "./userService";
 
 // Duel timeout in seconds (5 minutes)
 export const DUEL_TIMEOUT_SECONDS = 300;
 
-// Minimum and maximum wager amounts
+// Minimum and maximum wager amounts (JUNO duels only)
 export const MIN_WAGER = 0.1;
 export const MAX_WAGER = 50;
 
@@ -48,6 +53,8 @@ export interface Duel {
 	challengerId: number;
 	opponentId: number;
 	wagerAmount: number;
+	/** Denom of the wager; wagerAmount is in its display units */
+	denom: string;
 	loserConsequence: DuelConsequence;
 	consequenceDuration?: number;
 	consequenceAction?: string;
@@ -76,7 +83,8 @@ interface DuelRow {
 	id: number;
 	challenger_id: number;
 	opponent_id: number;
-	wager_amount: number;
+	wager_amount_ujuno: number;
+	denom: string;
 	loser_consequence: string;
 	consequence_duration?: number;
 	consequence_action?: string;
@@ -102,7 +110,8 @@ function rowToDuel(row: DuelRow): Duel {
 		id: row.id,
 		challengerId: row.challenger_id,
 		opponentId: row.opponent_id,
-		wagerAmount: row.wager_amount,
+		wagerAmount: DenomService.fromBaseUnits(row.wager_amount_ujuno, row.denom),
+		denom: row.denom ?? DEFAULT_DENOM,
 		loserConsequence: row.loser_consequence as DuelConsequence,
 		consequenceDuration: row.consequence_duration,
 		consequenceAction: row.consequence_action,
@@ -122,15 +131,6 @@ function rowToDuel(row: DuelRow): Duel {
 }
 
 export class DuelService {
-	private static bot: Telegraf<Context>;
-
-	/**
-	 * Initialize the duel service with bot instance
-	 */
-	static initialize(bot: Telegraf<Context>): void {
-		DuelService.bot = bot;
-	}
-
 	/**
 	 * Check if a user has a pending outgoing duel
 	 */
@@ -195,6 +195,7 @@ export class DuelService {
 		chatId: number,
 		consequence: DuelConsequence = "none",
 		consequenceDuration?: number,
+		denom: string = DEFAULT_DENOM,
 	): Promise<{ success: boolean; duel?: Duel; error?: string }> {
 		// Validate challenger doesn't already have an outgoing duel
 		if (DuelService.hasOutgoingDuel(challengerId)) {
@@ -218,15 +219,30 @@ export class DuelService {
 		}
 
 		// Validate wager amount
-		if (wagerAmount < MIN_WAGER) {
+		let wagerBase: number;
+		try {
+			wagerBase = DenomService.toBaseUnits(wagerAmount, denom);
+		} catch (error) {
+			return {
+				success: false,
+				error: error instanceof Error ? error.message : "Invalid wager",
+			};
+		}
+		if (wagerBase <= 0) {
+			return { success: false, error: "Wager must be positive" };
+		}
+		if (denom === DEFAULT_DENOM && wagerAmount < MIN_WAGER) {
 			return { success: false, error: `Minimum wager is ${MIN_WAGER} JUNO` };
 		}
-		if (wagerAmount > MAX_WAGER) {
+		if (denom === DEFAULT_DENOM && wagerAmount > MAX_WAGER) {
 			return { success: false, error: `Maximum wager is ${MAX_WAGER} JUNO` };
 		}
 
 		// Check challenger balance
-		const challengerBalance = await LedgerService.getUserBalance(challengerId);
+		const challengerBalance = await LedgerService.getUserBalance(
+			challengerId,
+			denom,
+		);
 		if (!AmountPrecision.isGreaterOrEqual(challengerBalance, wagerAmount)) {
 			return { success: false, error: "Insufficient balance to create duel" };
 		}
@@ -238,17 +254,18 @@ export class DuelService {
 
 		const result = execute(
 			`INSERT INTO duels (
-				challenger_id, opponent_id, wager_amount, loser_consequence,
-				consequence_duration, chat_id, expires_at
-			) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+				challenger_id, opponent_id, wager_amount_ujuno, loser_consequence,
+				consequence_duration, chat_id, expires_at, denom
+			) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
 			[
 				challengerId,
 				opponentId,
-				wagerAmount,
+				wagerBase,
 				consequence,
 				duration,
 				chatId,
 				expiresAt,
+				denom,
 			],
 		);
 
@@ -261,6 +278,7 @@ export class DuelService {
 			duelId: duelId.toString(),
 			opponentId: opponentId.toString(),
 			wagerAmount: wagerAmount.toString(),
+			denom,
 			consequence,
 		});
 
@@ -385,7 +403,10 @@ export class DuelService {
 		}
 
 		// Check opponent balance
-		const opponentBalance = await LedgerService.getUserBalance(userId);
+		const opponentBalance = await LedgerService.getUserBalance(
+			userId,
+			duel.denom,
+		);
 		if (!AmountPrecision.isGreaterOrEqual(opponentBalance, duel.wagerAmount)) {
 			return { success: false, error: "Insufficient balance to accept duel" };
 		}
@@ -393,6 +414,7 @@ export class DuelService {
 		// Re-check challenger balance
 		const challengerBalance = await LedgerService.getUserBalance(
 			duel.challengerId,
+			duel.denom,
 		);
 		if (
 			!AmountPrecision.isGreaterOrEqual(challengerBalance, duel.wagerAmount)
@@ -429,73 +451,93 @@ export class DuelService {
 		}
 
 		try {
-			// Generate rolls for both users
+			// Rolls, both settlement legs and the duel record commit together
 			const now = Math.floor(Date.now() / 1000);
-			const challengerResult = generateRollFn(
-				now,
-				duel.challengerId,
-				duel.messageId || 0,
-			);
-			const opponentResult = generateRollFn(now, userId, duel.messageId || 0);
-
-			// Determine winner (higher number wins, tie goes to challenger as defender advantage)
-			const challengerNum = parseInt(challengerResult.rollNumber, 10);
-			const opponentNum = parseInt(opponentResult.rollNumber, 10);
-
-			let winnerId: number;
-			let loserId: number;
-
-			if (challengerNum >= opponentNum) {
-				winnerId = duel.challengerId;
-				loserId = userId;
-			} else {
-				winnerId = userId;
-				loserId = duel.challengerId;
-			}
-
-			// Transfer wager from loser to winner
-			const txResult = await LedgerService.transferBetweenUsers(
-				loserId,
-				winnerId,
-				duel.wagerAmount,
-				`Duel #${duel.id} - ${loserId === duel.challengerId ? "challenger" : "opponent"} lost`,
-			);
-
-			if (!txResult.success) {
-				throw new Error(txResult.error || "Transfer failed");
-			}
-
-			// Update transaction type to gambling
-			execute(
-				`UPDATE transactions SET transaction_type = ?
-				WHERE (from_user_id = ? OR to_user_id = ?)
-				AND created_at = (SELECT MAX(created_at) FROM transactions WHERE from_user_id = ? OR to_user_id = ?)`,
-				[TransactionType.GAMBLING, loserId, winnerId, loserId, winnerId],
-			);
-
-			// Update duel record
-			execute(
-				`UPDATE duels SET
-					status = 'completed',
-					winner_id = ?,
-					loser_id = ?,
-					roll_challenger = ?,
-					roll_opponent = ?,
-					roll_id_challenger = ?,
-					roll_id_opponent = ?,
-					resolved_at = ?
-				WHERE id = ?`,
-				[
-					winnerId,
-					loserId,
-					challengerResult.rollNumber,
-					opponentResult.rollNumber,
-					challengerResult.rollId,
-					opponentResult.rollId,
-					now,
-					duelId,
-				],
-			);
+			const { winnerId, loserId, challengerResult, opponentResult } =
+				withTransaction(() => {
+					// Generate rolls for both users
+					const challengerResult = generateRollFn(
+						now,
+						duel.challengerId,
+						duel.messageId || 0,
+					);
+					const opponentResult = generateRollFn(
+						now,
+						userId,
+						duel.messageId || 0,
+					);
+
+					// Determine winner (higher number wins, tie goes to challenger as defender advantage)
+					const challengerNum = parseInt(challengerResult.rollNumber, 10);
+					const opponentNum = parseInt(opponentResult.rollNumber, 10);
+
+					let winnerId: number;
+					let loserId: number;
+
+					if (challengerNum >= opponentNum) {
+						winnerId = duel.challengerId;
+						loserId = userId;
+					} else {
+						winnerId = userId;
+						loserId = duel.challengerId;
+					}
+
+					// Settle through the treasury so each player's ledger shows their own leg
+					const wagerResult = LedgerService.transferBetweenUsers(
+						loserId,
+						SYSTEM_USER_IDS.BOT_TREASURY,
+						duel.wagerAmount,
+						`Duel #${duel.id} - ${loserId === duel.challengerId ? "challenger" : "opponent"} lost`,
+						{ type: TransactionType.DUEL_WAGER, denom: duel.denom },
+					);
+
+					if (!wagerResult.success) {
+						throw new Error(wagerResult.error || "Transfer failed");
+					}
+
+					const payoutResult = LedgerService.transferBetweenUsers(
+						SYSTEM_USER_IDS.BOT_TREASURY,
+						winnerId,
+						duel.wagerAmount,
+						`Duel #${duel.id} winnings`,
+						{
+							type: TransactionType.DUEL_PAYOUT,
+							parentTransactionId: wagerResult.transactionId,
+							denom: duel.denom,
+						},
+					);
+
+					// Throwing rolls back the wager leg together with the payout
+					if (!payoutResult.success) {
+						throw new Error(payoutResult.error || "Transfer failed");
+					}
+
+					// Update duel record
+					execute(
+						`UPDATE duels SET
+						status = 'completed',
+						winner_id = ?,
+						loser_id = ?,
+						roll_challenger = ?,
+						roll_opponent = ?,
+						roll_id_challenger = ?,
+						roll_id_opponent = ?,
+						resolved_at = ?
+					WHERE id = ?`,
+						[
+							winnerId,
+							loserId,
+							challengerResult.rollNumber,
+							opponentResult.rollNumber,
+							challengerResult.rollId,
+							opponentResult.rollId,
+							now,
+							duelId,
+						],
+					);
+
+					return { winnerId, loserId, challengerResult, opponentResult };
+				});
 
 			// Apply consequence to loser if any
 			if (duel.loserConsequence !== "none") {
@@ -512,14 +554,18 @@ export class DuelService {
 			await TransactionLockService.releaseLock(duel.challengerId);
 			await TransactionLockService.releaseLock(userId);
 
-			StructuredLogger.logTransaction("Duel completed", {
-				userId: winnerId,
-				operation: "duel_complete",
-				duelId: duelId.toString(),
-				winnerId: winnerId.toString(),
-				loserId: loserId.toString(),
-				wagerAmount: duel.wagerAmount.toString(),
+			await EventBus.publish("duel.resolved", {
+				duelId,
+				chatId: duel.chatId,
+				challengerId: duel.challengerId,
+				opponentId: duel.opponentId,
+				winnerId,
+				loserId,
+				wagerAmount: duel.wagerAmount,
+				denom: duel.denom,
 				consequence: duel.loserConsequence,
+				consequenceDuration: duel.consequenceDuration,
+				timestamp: Math.floor(Date.now() / 1000),
 			});
 
 			const updatedDuel = DuelService.getDuel(duelId);
@@ -554,85 +600,21 @@ export class DuelService {
 	): Promise<void> {
 		const untilTimestamp = Math.floor(Date.now() / 1000) + durationMinutes * 60;
 
-		if (consequence === "jail") {
-			// Use the jail system
-			execute("UPDATE users SET muted_until = ?, updated_at = ? WHERE id = ?", [
-				untilTimestamp,
-				Math.floor(Date.now() / 1000),
-				userId,
-			]);
-
-			JailService.logJailEvent(
-				userId,
-				"jailed",
-				undefined,
-				durationMinutes,
-				0,
-				undefined,
-				undefined,
-				{
-					reason: "duel_loss",
-				},
-			);
+		const request: MuteRequest = {
+			userId,
+			chatId,
+			source: "duel",
+			reason: "duel_loss",
+			durationMinutes,
+		};
 
-			// Actually restrict in Telegram
-			try {
-				await DuelService.bot.telegram.restrictChatMember(chatId, userId, {
-					permissions: {
-						can_send_messages: false,
-						can_send_audios: false,
-						can_send_documents: false,
-						can_send_photos: false,
-						can_send_videos: false,
-						can_send_video_notes: false,
-						can_send_voice_notes: false,
-						can_send_polls: false,
-						can_send_other_messages: false,
-						can_add_web_page_previews: false,
-						can_change_info: false,
-						can_invite_users: false,
-						can_pin_messages: false,
-						can_manage_topics: false,
-					},
-					until_date: untilTimestamp,
-				});
-			} catch (error) {
-				logger.error("Failed to apply Telegram restriction for duel jail", {
-					userId,
-					error: error instanceof Error ? error.message : String(error),
-				});
-			}
+		if (consequence === "jail") {
+			// Use the jail system, scoped to the chat the duel was fought in
+			await ModerationActionService.jail(request);
 		} else if (consequence === "muted") {
 			// Apply mute via restriction
 			addUserRestriction(userId, "muted", undefined, undefined, untilTimestamp);
-
-			// Telegram restriction
-			try {
-				await DuelService.bot.telegram.restrictChatMember(chatId, userId, {
-					permissions: {
-						can_send_messages: false,
-						can_send_audios: false,
-						can_send_documents: false,
-						can_send_photos: false,
-						can_send_videos: false,
-						can_send_video_notes: false,
-						can_send_voice_notes: false,
-						can_send_polls: false,
-						can_send_other_messages: false,
-						can_add_web_page_previews: false,
-						can_change_info: false,
-						can_invite_users: false,
-						can_pin_messages: false,
-						can_manage_topics: false,
-					},
-					until_date: untilTimestamp,
-				});
-			} catch (error) {
-				logger.error("Failed to apply Telegram restriction for duel mute", {
-					userId,
-					error: error instanceof Error ? error.message : String(error),
-				});
-			}
+			await ModerationActionService.mute(request);
 		} else {
 			// Other restrictions (stickers, media, etc.) - use the restriction service
 			addUserRestriction(
@@ -642,6 +624,14 @@ export class DuelService {
 				undefined,
 				untilTimestamp,
 			);
+			await EventBus.publish("restriction.changed", {
+				userId,
+				actorId: null,
+				restriction: consequence,
+				added: true,
+				until: untilTimestamp,
+				timestamp: Math.floor(Date.now() / 1000),
+			});
 		}
 
 		logger.info("Duel consequence applied", {
@@ -672,7 +662,7 @@ export class DuelService {
 	}
 
 	/**
-	 * Get duel statistics for a user
+	 * Get duel statistics for a user (JUNO wagers only)
 	 */
 	static getUserDuelStats(userId: number): {
 		totalDuels: number;
@@ -698,31 +688,33 @@ export class DuelService {
 		);
 
 		const wagered = get<{ total: number }>(
-			`SELECT COALESCE(SUM(wager_amount), 0) as total FROM duels
-			WHERE status = 'completed'
+			`SELECT COALESCE(SUM(wager_amount_ujuno), 0) as total FROM duels
+			WHERE status = 'completed' AND denom = ?
 			AND (challenger_id = ? OR opponent_id = ?)`,
-			[userId, userId],
+			[DEFAULT_DENOM, userId, userId],
 		);
 
 		const won = get<{ total: number }>(
-			`SELECT COALESCE(SUM(wager_amount), 0) as total FROM duels
-			WHERE status = 'completed' AND winner_id = ?`,
-			[userId],
+			`SELECT COALESCE(SUM(wager_amount_ujuno), 0) as total FROM duels
+			WHERE status = 'completed' AND denom = ? AND winner_id = ?`,
+			[DEFAULT_DENOM, userId],
 		);
 
 		const lost = get<{ total: number }>(
-			`SELECT COALESCE(SUM(wager_amount), 0) as total FROM duels
-			WHERE status = 'completed' AND loser_id = ?`,
-			[userId],
+			`SELECT COALESCE(SUM(wager_amount_ujuno), 0) as total FROM duels
+			WHERE status = 'completed' AND denom = ? AND loser_id = ?`,
+			[DEFAULT_DENOM, userId],
 		);
 
 		return {
 			totalDuels: stats?.total || 0,
 			wins: stats?.wins || 0,
 			losses: stats?.losses || 0,
-			totalWagered: wagered?.total || 0,
-			totalWon: won?.total || 0,
-			netProfit: (won?.total || 0) - (lost?.total || 0),
+			totalWagered: AmountPrecision.fromMicroJuno(wagered?.total || 0),
+			totalWon: AmountPrecision.fromMicroJuno(won?.total || 0),
+			netProfit: AmountPrecision.fromMicroJuno(
+				(won?.total || 0) - (lost?.total || 0),
+			),
 		};
 	}
 
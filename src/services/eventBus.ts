@@ -0,0 +1,343 @@
+/**
+ * In-process event bus for the CAC Admin Bot.
+ * Services publish what happened (a user was jailed, a deposit was
+ * credited, a duel was resolved...) and subscribers react to it, so side
+ * effects such as DMs, admin notifications, logging and metrics live in
+ * one place instead of at every call site.
+ *
+ * Events are typed: each name maps to its payload in BotEvents. Handlers
+ * run one after the other in subscription order; a handler that throws is
+ * logged and does not stop the others or the publisher.
+ *
+ * @module services/eventBus
+ */
+
+import { StructuredLogger } from "../utils/logger";
+import type { MessageRef } from "../utils/messageLink";
+import type { AppealDecision } from "./appealService";
+import type { DuelConsequence } from "./duelService";
+import type { BlacklistTrigger } from "./joinScreeningService";
+import type { LedgerAuditReport } from "./ledgerAudit";
+import type { MaintenanceSwitch } from "./maintenanceService";
+import type { ModerationActionEvent } from "./moderationActionService";
+
+/**
+ * Published after a violation was recorded.
+ */
+export interface ViolationCreatedEvent {
+	violationId: number;
+	userId: number;
+	restriction: string;
+	/** Chat the violation happened in, if known */
+	chatId?: number;
+	ruleId?: number;
+	/** Fine in JUNO */
+	fineAmount: number;
+	timestamp: number;
+}
+
+/**
+ * Published after a fine was paid.
+ */
+export interface ViolationPaidEvent {
+	violationId: number;
+	userId: number;
+	/** Fine in JUNO */
+	amount: number;
+	paidByUserId: number;
+	/** Transaction hash, or internal_ledger for balance payments */
+	paymentTx: string;
+	timestamp: number;
+}
+
+/**
+ * Published after a warning was issued.
+ */
+export interface WarningIssuedEvent {
+	warningId: number;
+	userId: number;
+	/** Chat the warning was issued in, or null for a network-wide warning */
+	chatId: number | null;
+	/** Admin who issued it, or null for automatic warnings */
+	actorId: number | null;
+	reason: string;
+	activeWarnings: number;
+	violationId?: number;
+	origin?: MessageRef;
+	timestamp: number;
+}
+
+/**
+ * Published after a user restriction was added or removed.
+ */
+export interface RestrictionChangedEvent {
+	userId: number;
+	/** Admin who changed it, or null for automatic changes */
+	actorId: number | null;
+	restriction: string;
+	restrictedAction?: string;
+	added: boolean;
+	/** Unix timestamp the restriction expires at */
+	until?: number;
+	origin?: MessageRef;
+	timestamp: number;
+}
+
+/**
+ * Published after a user was added to or removed from the blacklist or
+ * whitelist.
+ */
+export interface ListChangedEvent {
+	userId: number;
+	actorId: number;
+	list: "blacklist" | "whitelist";
+	added: boolean;
+	origin?: MessageRef;
+	timestamp: number;
+}
+
+/**
+ * Published after a user's role changed.
+ */
+export interface RoleChangedEvent {
+	userId: number;
+	actorId: number;
+	previousRole: string;
+	role: string;
+	origin?: MessageRef;
+	timestamp: number;
+}
+
+/**
+ * Published after an on-chain deposit was credited in the ledger.
+ */
+export interface DepositCreditedEvent {
+	/** User credited, or the unclaimed account */
+	userId: number;
+	/** Amount in display units of the denom */
+	amount: number;
+	denom: string;
+	txHash: string;
+	fromAddress: string;
+	/** Whether the deposit was parked in the unclaimed account */
+	unclaimed: boolean;
+	timestamp: number;
+}
+
+/**
+ * Published after a queued withdrawal was confirmed on chain.
+ */
+export interface WithdrawalCompletedEvent {
+	withdrawalId: number;
+	userId: number;
+	/** Amount in display units of the denom */
+	amount: number;
+	denom: string;
+	toAddress: string;
+	txHash: string;
+	timestamp: number;
+}
+
+/**
+ * Published after a duel was rolled and the wager paid out.
+ */
+export interface DuelResolvedEvent {
+	duelId: number;
+	chatId: number;
+	challengerId: number;
+	opponentId: number;
+	winnerId: number;
+	loserId: number;
+	/** Wager in display units of the denom */
+	wagerAmount: number;
+	denom: string;
+	consequence: DuelConsequence;
+	consequenceDuration?: number;
+	timestamp: number;
+}
+
+/**
+ * Published after the last slot of a giveaway was claimed.
+ */
+export interface GiveawayCompletedEvent {
+	giveawayId: number;
+	chatId: number;
+	createdBy: number;
+	totalSlots: number;
+	/** Total distributed in display units of the denom */
+	totalAmount: number;
+	denom: string;
+	timestamp: number;
+}
+
+/**
+ * Published after an admin decided an appeal.
+ */
+export interface AppealDecidedEvent {
+	appealId: number;
+	caseId: number;
+	userId: number;
+	actorId: number;
+	decision: AppealDecision;
+	/** What the decision changed, for the user and the modlog */
+	outcome: string;
+	/** Fine or bail refunded in JUNO */
+	refundAmount: number;
+	/** Chat the appealed action applied to, or null for network-wide */
+	chatId: number | null;
+	timestamp: number;
+}
+
+/**
+ * Published after a blacklisted user could not be banned from a chat.
+ */
+export interface BlacklistFailedEvent {
+	userId: number;
+	chatId: number;
+	trigger: BlacklistTrigger;
+	error: string;
+	timestamp: number;
+}
+
+/**
+ * Published once a withdrawal transaction has failed to broadcast
+ * MAX_WITHDRAWAL_ATTEMPTS times. It stays queued.
+ */
+export interface WithdrawalStuckEvent {
+	txHash: string;
+	requestIds: number[];
+	attempts: number;
+	error: string;
+	timestamp: number;
+}
+
+/**
+ * Published after a reconciliation mismatch above the threshold paused
+ * operations.
+ */
+export interface ReconciliationMismatchEvent {
+	/** Totals in JUNO */
+	internalTotal: number;
+	onChainTotal: number;
+	difference: number;
+	paused: MaintenanceSwitch[];
+	timestamp: number;
+}
+
+/**
+ * Published after a ledger audit found drift.
+ */
+export interface LedgerDriftEvent {
+	report: LedgerAuditReport;
+	timestamp: number;
+}
+
+/**
+ * Published after a command reply was sent in a group, to have it and the
+ * command deleted after a while.
+ */
+export interface ReplySentEvent {
+	chatId: number;
+	messageId: number;
+	/** Command the reply answers, deleted with it */
+	commandMessageId?: number;
+	deleteAfterMs: number;
+	timestamp: number;
+}
+
+/**
+ * Every event and its payload.
+ */
+export interface BotEvents {
+	"user.jailed": ModerationActionEvent;
+	"user.unjailed": ModerationActionEvent;
+	"user.muted": ModerationActionEvent;
+	"user.restricted": ModerationActionEvent;
+	"user.kicked": ModerationActionEvent;
+	"user.banned": ModerationActionEvent;
+	"user.unbanned": ModerationActionEvent;
+	"user.warned": WarningIssuedEvent;
+	"violation.created": ViolationCreatedEvent;
+	"violation.paid": ViolationPaidEvent;
+	"restriction.changed": RestrictionChangedEvent;
+	"list.changed": ListChangedEvent;
+	"role.changed": RoleChangedEvent;
+	"appeal.decided": AppealDecidedEvent;
+	"deposit.credited": DepositCreditedEvent;
+	"withdrawal.completed": WithdrawalCompletedEvent;
+	"duel.resolved": DuelResolvedEvent;
+	"giveaway.completed": GiveawayCompletedEvent;
+	"blacklist.failed": BlacklistFailedEvent;
+	"withdrawal.stuck": WithdrawalStuckEvent;
+	"reconciliation.mismatch": ReconciliationMismatchEvent;
+	"ledger.drift": LedgerDriftEvent;
+	"reply.sent": ReplySentEvent;
+}
+
+export type BotEventName = keyof BotEvents;
+
+export type BotEventHandler<E extends BotEventName> = (
+	payload: BotEvents[E],
+) => void | Promise<void>;
+
+/**
+ * Service class for publishing and subscribing to bot events.
+ */
+export class EventBus {
+	private static handlers = new Map<
+		BotEventName,
+		Array<BotEventHandler<BotEventName>>
+	>();
+
+	/**
+	 * Registers a handler for an event.
+	 *
+	 * @param event - Event name
+	 * @param handler - Called with the payload of every publish
+	 * @returns Function removing the handler
+	 */
+	static subscribe<E extends BotEventName>(
+		event: E,
+		handler: BotEventHandler<E>,
+	): () => void {
+		const handlers = EventBus.handlers.get(event) ?? [];
+		handlers.push(handler as BotEventHandler<BotEventName>);
+		EventBus.handlers.set(event, handlers);
+
+		return () => {
+			EventBus.handlers.set(
+				event,
+				(EventBus.handlers.get(event) ?? []).filter((h) => h !== handler),
+			);
+		};
+	}
+
+	/**
+	 * Runs the handlers of an event with its payload. Publish outside
+	 * database transactions: handlers may call the Telegram API.
+	 *
+	 * @param event - Event name
+	 * @param payload - Event payload
+	 */
+	static async publish<E extends BotEventName>(
+		event: E,
+		payload: BotEvents[E],
+	): Promise<void> {
+		for (const handler of EventBus.handlers.get(event) ?? []) {
+			try {
+				await handler(payload);
+			} catch (error) {
+				StructuredLogger.logError(error as Error, {
+					operation: `event_handler_${event}`,
+				});
+			}
+		}
+	}
+
+	/**
+	 * Removes every handler.
+	 */
+	static clear(): void {
+		EventBus.handlers.clear();
+	}
+}
@@ -0,0 +1,234 @@
+/**
+ * Flood detection service module.
+ * Keeps a sliding window of recent messages per user per chat and reports
+ * when a user floods a chat, repeats the same message or bursts media.
+ *
+ * Windows are kept in memory only; they are short lived and losing them on
+ * restart is harmless. Thresholds are stored in system_state so admins can
+ * change them at runtime.
+ *
+ * @module services/floodService
+ */
+
+import { execute, get } from "../database";
+import { StructuredLogger } from "../utils/logger";
+
+/**
+ * Flood detection thresholds.
+ */
+export interface FloodSettings {
+	/** Messages allowed within messageWindowSeconds */
+	messageLimit: number;
+	messageWindowSeconds: number;
+	/** Identical messages allowed within duplicateWindowSeconds */
+	duplicateLimit: number;
+	duplicateWindowSeconds: number;
+	/** Media messages (stickers, GIFs, photos, ...) allowed within mediaWindowSeconds */
+	mediaLimit: number;
+	mediaWindowSeconds: number;
+	/** Length of the temporary mute applied on a breach */
+	muteMinutes: number;
+}
+
+export type FloodSetting = keyof FloodSettings;
+
+export type FloodReason = "messages" | "duplicates" | "media";
+
+/**
+ * A message as seen by the flood detector.
+ */
+export interface FloodMessage {
+	messageId: number;
+	/** Normalized text or media identifier used to detect duplicates, if any */
+	fingerprint: string | null;
+	isMedia: boolean;
+}
+
+/**
+ * Detected flood.
+ */
+export interface FloodBreach {
+	reason: FloodReason;
+	/** Messages of the burst, including the one that breached the threshold */
+	messageIds: number[];
+}
+
+interface WindowEntry extends FloodMessage {
+	timestamp: number;
+}
+
+// system_state key holding the JSON encoded FloodSettings
+const SETTINGS_KEY = "flood_settings";
+
+/**
+ * Thresholds used until an admin changes them.
+ */
+export const DEFAULT_FLOOD_SETTINGS: FloodSettings = {
+	messageLimit: 8,
+	messageWindowSeconds: 10,
+	duplicateLimit: 3,
+	duplicateWindowSeconds: 60,
+	mediaLimit: 5,
+	mediaWindowSeconds: 15,
+	muteMinutes: 30,
+};
+
+/**
+ * Service class for flood detection.
+ */
+export class FloodService {
+	// "chatId:userId" -> recent messages, oldest first
+	private static windows = new Map<string, WindowEntry[]>();
+
+	/**
+	 * Gets the current flood thresholds.
+	 */
+	static getSettings(): FloodSettings {
+		const row = get<{ value: string }>(
+			"SELECT value FROM system_state WHERE key = ?",
+			[SETTINGS_KEY],
+		);
+		return row
+			? { ...DEFAULT_FLOOD_SETTINGS, ...JSON.parse(row.value) }
+			: DEFAULT_FLOOD_SETTINGS;
+	}
+
+	/**
+	 * Changes one flood threshold.
+	 *
+	 * @param setting - Threshold to change
+	 * @param value - New value (positive integer)
+	 * @param updatedBy - Admin making the change
+	 * @throws {Error} If the value is not a positive integer
+	 */
+	static setSetting(
+		setting: FloodSetting,
+		value: number,
+		updatedBy: number,
+	): void {
+		if (!Number.isInteger(value) || value < 1) {
+			throw new Error(`${setting} must be a positive whole number`);
+		}
+
+		const json = JSON.stringify({
+			...FloodService.getSettings(),
+			[setting]: value,
+		});
+		execute(
+			`INSERT INTO system_state (key, value, updated_at)
+       VALUES (?, ?, strftime('%s', 'now'))
+       ON CONFLICT(key) DO UPDATE SET value = ?, updated_at = strftime('%s', 'now')`,
+			[SETTINGS_KEY, json, json],
+		);
+
+		StructuredLogger.logUserAction("Flood threshold updated", {
+			userId: updatedBy,
+			operation: "set_flood_threshold",
+			setting,
+			value,
+		});
+	}
+
+	/**
+	 * Records a message and checks it against the flood thresholds.
+	 * On a breach the user's window is cleared, so the burst is only
+	 * reported once.
+	 *
+	 * @param chatId - Chat the message was sent in
+	 * @param userId - Sender
+	 * @param message - Message details
+	 * @param now - Current time in milliseconds (for tests)
+	 * @returns The breach, or null if the message is within the thresholds
+	 */
+	static recordMessage(
+		chatId: number,
+		userId: number,
+		message: FloodMessage,
+		now = Date.now(),
+	): FloodBreach | null {
+		const settings = FloodService.getSettings();
+		const key = `${chatId}:${userId}`;
+		const longestWindow = FloodService.longestWindowMs(settings);
+
+		const entries = (FloodService.windows.get(key) || []).filter(
+			(entry) => now - entry.timestamp < longestWindow,
+		);
+		entries.push({ ...message, timestamp: now });
+		FloodService.windows.set(key, entries);
+
+		const within = (seconds: number, matches: (e: WindowEntry) => boolean) =>
+			entries.filter(
+				(entry) => now - entry.timestamp < seconds * 1000 && matches(entry),
+			);
+
+		const checks: [FloodReason, WindowEntry[], number][] = [
+			[
+				"duplicates",
+				message.fingerprint === null
+					? []
+					: within(
+							settings.duplicateWindowSeconds,
+							(e) => e.fingerprint === message.fingerprint,
+						),
+				settings.duplicateLimit,
+			],
+			[
+				"media",
+				message.isMedia
+					? within(settings.mediaWindowSeconds, (e) => e.isMedia)
+					: [],
+				settings.mediaLimit,
+			],
+			[
+				"messages",
+				within(settings.messageWindowSeconds, () => true),
+				settings.messageLimit,
+			],
+		];
+
+		for (const [reason, burst, limit] of checks) {
+			if (burst.length > limit) {
+				FloodService.windows.delete(key);
+				return { reason, messageIds: burst.map((e) => e.messageId) };
+			}
+		}
+
+		return null;
+	}
+
+	/**
+	 * Drops windows with no recent messages.
+	 * Should be called periodically to bound memory use.
+	 *
+	 * @param now - Current time in milliseconds (for tests)
+	 */
+	static cleanStaleWindows(now = Date.now()): void {
+		const longestWindow = FloodService.longestWindowMs(
+			FloodService.getSettings(),
+		);
+
+		for (const [key, entries] of FloodService.windows) {
+			const last = entries[entries.length - 1];
+			if (!last || now - last.timestamp >= longestWindow) {
+				FloodService.windows.delete(key);
+			}
+		}
+	}
+
+	/**
+	 * Forgets all recorded messages.
+	 */
+	static reset(): void {
+		FloodService.windows.clear();
+	}
+
+	private static longestWindowMs(settings: FloodSettings): number {
+		return (
+			Math.max(
+				settings.messageWindowSeconds,
+				settings.duplicateWindowSeconds,
+				settings.mediaWindowSeconds,
+			) * 1000
+		);
+	}
+}
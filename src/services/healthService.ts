@@ -0,0 +1,139 @@
+/**
+ * Health check service module.
+ * Reports whether the bot's dependencies are working: the database, the
+ * deposit monitor, the JUNO price feed and the Telegram connection.
+ *
+ * @module services/healthService
+ */
+
+import type { Telegram } from "telegraf";
+import { get } from "../database";
+import { DepositMonitor } from "./depositMonitor";
+import { MetricsService } from "./metricsService";
+
+// Prices are fetched every 15 minutes; allow a few failed fetches
+const PRICE_STALE_SECONDS = 60 * 60;
+
+// Deposit checks may miss this many intervals before the monitor is unhealthy
+const DEPOSIT_MISSED_CHECKS = 3;
+
+const TELEGRAM_TIMEOUT_MS = 5000;
+
+/**
+ * Result of a single health check.
+ */
+export interface HealthCheck {
+	ok: boolean;
+	[detail: string]: unknown;
+}
+
+/**
+ * Result of all health checks. ok is true only if every check passed.
+ */
+export interface HealthReport {
+	ok: boolean;
+	checks: {
+		database: HealthCheck;
+		depositMonitor: HealthCheck;
+		priceFeed: HealthCheck;
+		telegram: HealthCheck;
+	};
+}
+
+/**
+ * Service class for health checks.
+ */
+export class HealthService {
+	/**
+	 * Runs every health check.
+	 *
+	 * @param telegram - Telegram instance used to check the Bot API is reachable
+	 * @returns Health report
+	 */
+	static async check(telegram: Telegram): Promise<HealthReport> {
+		const now = Math.floor(Date.now() / 1000);
+		const checks = {
+			database: HealthService.checkDatabase(),
+			depositMonitor: HealthService.checkDepositMonitor(now),
+			priceFeed: HealthService.checkPriceFeed(now),
+			telegram: await HealthService.checkTelegram(telegram, now),
+		};
+
+		return {
+			ok: Object.values(checks).every((check) => check.ok),
+			checks,
+		};
+	}
+
+	private static checkDatabase(): HealthCheck {
+		try {
+			return { ok: get<{ ok: number }>("SELECT 1 as ok")?.ok === 1 };
+		} catch (error) {
+			return { ok: false, error: (error as Error).message };
+		}
+	}
+
+	private static checkDepositMonitor(now: number): HealthCheck {
+		const status = DepositMonitor.getStatus();
+		if (!status.walletAddress) {
+			return { ok: true, enabled: false };
+		}
+
+		const maxAge = (DEPOSIT_MISSED_CHECKS * status.checkInterval) / 1000;
+		const lastCheckAge =
+			status.lastCheck === null ? null : now - status.lastCheck;
+		return {
+			ok:
+				status.isRunning &&
+				(lastCheckAge === null ? true : lastCheckAge <= maxAge),
+			enabled: true,
+			running: status.isRunning,
+			lastCheck: status.lastCheck,
+		};
+	}
+
+	private static checkPriceFeed(now: number): HealthCheck {
+		try {
+			const latest = get<{ timestamp: number }>(
+				"SELECT MAX(timestamp) as timestamp FROM price_history",
+			)?.timestamp;
+			return {
+				ok: !!latest && now - latest <= PRICE_STALE_SECONDS,
+				lastFetch: latest ?? null,
+			};
+		} catch (error) {
+			return { ok: false, error: (error as Error).message };
+		}
+	}
+
+	private static async checkTelegram(
+		telegram: Telegram,
+		now: number,
+	): Promise<HealthCheck> {
+		const lastUpdateAt = MetricsService.getLastUpdateAt();
+		const lastUpdate =
+			lastUpdateAt === null ? null : Math.floor(lastUpdateAt / 1000);
+
+		let timer: NodeJS.Timeout | undefined;
+		try {
+			await Promise.race([
+				telegram.getMe(),
+				new Promise((_, reject) => {
+					timer = setTimeout(
+						() => reject(new Error("getMe timed out")),
+						TELEGRAM_TIMEOUT_MS,
+					);
+				}),
+			]);
+			return {
+				ok: true,
+				lastUpdate,
+				lastUpdateAge: lastUpdate === null ? null : now - lastUpdate,
+			};
+		} catch (error) {
+			return { ok: false, error: (error as Error).message, lastUpdate };
+		} finally {
+			clearTimeout(timer);
+		}
+	}
+}
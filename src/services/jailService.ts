@@ -1,52 +1,95 @@
 /**
  * Jail (mute) management service module.
- * Handles jailing/muting users temporarily, tracking jail events,
- * calculating bail amounts, and auto-releasing expired jails.
+ * Stores who is jailed where, tracks jail events and calculates bail
+ * amounts. Jailing and releasing users in Telegram is done by the
+ * moderation action service, which keeps this state.
+ *
+ * Jails are scoped to a single chat unless an admin explicitly requests a
+ * network-wide jail, which silences the user in every registered chat.
  *
  * Responsibilities:
- * - Logging jail events (jailed, unjailed, auto-unjailed, bail paid)
- * - Managing active jails and jail history
+ * - Logging jail events (jailed, unjailed, auto-unjailed, bail paid, banned...)
+ * - Managing active per-chat and network-wide jails and jail history
  * - Calculating bail amounts based on duration
- * - Cleaning up expired jails and restoring permissions
  *
  * @module services/jailService
  */
 
-import type { Context, Telegraf } from "telegraf";
-import { config } from "../config";
-import { execute, query } from "../database";
-import type { JailEvent, User } from "../types";
+import type { ChatPermissions } from "telegraf/types";
+import { execute, get, query } from "../database";
+import type { JailEvent, JailEventType, User, UserJail } from "../types";
 import { StructuredLogger } from "../utils/logger";
 import { PriceService } from "./priceService";
 
+// user_jails.chat_id value for network-wide jails
+const NETWORK_CHAT_ID = 0;
+
 /**
- * Service class for managing user jails (temporary mutes).
- * Integrates with Telegram Bot API to enforce and lift restrictions.
+ * Permissions applied to a jailed user.
  */
-export class JailService {
-	private static bot: Telegraf<Context>;
+export const JAILED_PERMISSIONS: ChatPermissions = {
+	can_send_messages: false,
+	can_send_audios: false,
+	can_send_documents: false,
+	can_send_photos: false,
+	can_send_videos: false,
+	can_send_video_notes: false,
+	can_send_voice_notes: false,
+	can_send_polls: false,
+	can_send_other_messages: false,
+	can_add_web_page_previews: false,
+	can_change_info: false,
+	can_invite_users: false,
+	can_pin_messages: false,
+};
 
-	/**
-	 * Initializes the jail service with the Telegraf bot instance.
-	 * Must be called during bot startup before using other methods.
-	 *
-	 * @param bot - Telegraf bot instance for Telegram API access
-	 */
-	static initialize(bot: Telegraf<Context>): void {
-		JailService.bot = bot;
-	}
+/**
+ * Permissions restored when a user is released from jail.
+ */
+export const RELEASED_PERMISSIONS: ChatPermissions = {
+	can_send_messages: true,
+	can_send_audios: true,
+	can_send_documents: true,
+	can_send_photos: true,
+	can_send_videos: true,
+	can_send_video_notes: true,
+	can_send_voice_notes: true,
+	can_send_polls: true,
+	can_send_other_messages: true,
+	can_add_web_page_previews: true,
+	can_change_info: false,
+	can_invite_users: true,
+	can_pin_messages: false,
+	can_manage_topics: false,
+};
+
+/**
+ * An active jail with its scope.
+ */
+export interface ActiveJail {
+	userId: number;
+	/** Chat the jail applies to, or null for a network-wide jail */
+	chatId: number | null;
+	mutedUntil: number;
+}
 
+/**
+ * Service class for managing user jails (temporary mutes).
+ */
+export class JailService {
 	/**
 	 * Logs a jail-related event to the database for audit trail.
 	 *
 	 * @param userId - Telegram user ID being jailed/unjailed
-	 * @param eventType - Type of event (jailed, unjailed, auto_unjailed, bail_paid)
+	 * @param eventType - Type of event (jailed, unjailed, auto_unjailed, bail_paid, banned, ...)
 	 * @param adminId - Optional admin user ID who performed the action
 	 * @param durationMinutes - Optional duration of jail in minutes
 	 * @param bailAmount - Bail amount in JUNO (default 0)
 	 * @param paidByUserId - Optional user ID who paid bail
 	 * @param paymentTx - Optional blockchain transaction hash
 	 * @param metadata - Optional additional metadata
+	 * @param chatId - Chat the event happened in (omit or null for network-wide)
+	 * @returns ID of the jail event
 	 *
 	 * @example
 	 * ```typescript
@@ -56,17 +99,18 @@ export class JailService {
 	 */
 	static logJailEvent(
 		userId: number,
-		eventType: "jailed" | "unjailed" | "auto_unjailed" | "bail_paid",
+		eventType: JailEventType,
 		adminId?: number,
 		durationMinutes?: number,
 		bailAmount: number = 0,
 		paidByUserId?: number,
 		paymentTx?: string,
 		metadata?: Record<string, any>,
-	): void {
-		execute(
-			`INSERT INTO jail_events (user_id, event_type, admin_id, duration_minutes, bail_amount, paid_by_user_id, payment_tx, metadata)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+		chatId?: number | null,
+	): number {
+		const result = execute(
+			`INSERT INTO jail_events (user_id, event_type, admin_id, duration_minutes, bail_amount, paid_by_user_id, payment_tx, metadata, chat_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
 			[
 				userId,
 				eventType,
@@ -76,6 +120,7 @@ export class JailService {
 				paidByUserId || null,
 				paymentTx || null,
 				metadata ? JSON.stringify(metadata) : null,
+				chatId ?? null,
 			],
 		);
 
@@ -83,13 +128,141 @@ export class JailService {
 			userId,
 			operation: eventType,
 			amount: bailAmount.toString(),
+			chatId: chatId ?? "network",
 		});
+
+		return Number(result.lastInsertRowid);
+	}
+
+	/**
+	 * Jails a user in one chat or network-wide.
+	 * Replaces any existing jail with the same scope.
+	 *
+	 * @param userId - Telegram user ID
+	 * @param chatId - Chat to jail the user in, or null for every chat
+	 * @param mutedUntil - Unix timestamp when the jail expires
+	 */
+	static jailUser(
+		userId: number,
+		chatId: number | null,
+		mutedUntil: number,
+	): void {
+		execute(
+			`INSERT INTO user_jails (user_id, chat_id, muted_until, created_at)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT(user_id, chat_id) DO UPDATE SET muted_until = excluded.muted_until`,
+			[
+				userId,
+				chatId ?? NETWORK_CHAT_ID,
+				mutedUntil,
+				Math.floor(Date.now() / 1000),
+			],
+		);
+	}
+
+	/**
+	 * Releases a user from jail.
+	 *
+	 * @param userId - Telegram user ID
+	 * @param chatId - Chat to release from; null releases only the network-wide
+	 *   jail and undefined releases every jail of the user
+	 * @returns Number of jails removed
+	 */
+	static releaseUser(userId: number, chatId?: number | null): number {
+		if (chatId === undefined) {
+			return execute("DELETE FROM user_jails WHERE user_id = ?", [userId])
+				.changes;
+		}
+		return execute("DELETE FROM user_jails WHERE user_id = ? AND chat_id = ?", [
+			userId,
+			chatId ?? NETWORK_CHAT_ID,
+		]).changes;
+	}
+
+	/**
+	 * Releases a user from jail and returns the jails that were removed,
+	 * expired or not.
+	 *
+	 * @param userId - Telegram user ID
+	 * @param chatId - Chat to release from; null releases only the network-wide
+	 *   jail and undefined releases every jail of the user
+	 * @returns The jails removed
+	 */
+	static releaseJails(userId: number, chatId?: number | null): ActiveJail[] {
+		const jails =
+			chatId === undefined
+				? query<UserJail>("SELECT * FROM user_jails WHERE user_id = ?", [
+						userId,
+					])
+				: query<UserJail>(
+						"SELECT * FROM user_jails WHERE user_id = ? AND chat_id = ?",
+						[userId, chatId ?? NETWORK_CHAT_ID],
+					);
+		JailService.releaseUser(userId, chatId);
+		return jails.map(JailService.toActiveJail);
+	}
+
+	/**
+	 * Gets when a user's jail expires.
+	 *
+	 * @param userId - Telegram user ID
+	 * @param chatId - Only consider jails covering this chat (its own jail and
+	 *   network-wide jails); omit to consider every jail of the user
+	 * @returns Latest expiry of the matching active jails, or null if not jailed
+	 */
+	static getJailedUntil(userId: number, chatId?: number): number | null {
+		const now = Math.floor(Date.now() / 1000);
+		const row =
+			chatId === undefined
+				? get<{ until: number | null }>(
+						"SELECT MAX(muted_until) as until FROM user_jails WHERE user_id = ? AND muted_until > ?",
+						[userId, now],
+					)
+				: get<{ until: number | null }>(
+						"SELECT MAX(muted_until) as until FROM user_jails WHERE user_id = ? AND chat_id IN (?, ?) AND muted_until > ?",
+						[userId, chatId, NETWORK_CHAT_ID, now],
+					);
+		return row?.until ?? null;
+	}
+
+	/**
+	 * Gets when the active jail with exactly this scope expires, ignoring
+	 * jails of other scopes that also cover the chat.
+	 *
+	 * @param userId - Telegram user ID
+	 * @param chatId - Chat of the jail, or null for the network-wide jail
+	 * @returns Expiry of the jail, or null if there is none
+	 */
+	static getScopeJailedUntil(
+		userId: number,
+		chatId: number | null,
+	): number | null {
+		const row = get<{ muted_until: number }>(
+			"SELECT muted_until FROM user_jails WHERE user_id = ? AND chat_id = ? AND muted_until > ?",
+			[userId, chatId ?? NETWORK_CHAT_ID, Math.floor(Date.now() / 1000)],
+		);
+		return row?.muted_until ?? null;
+	}
+
+	/**
+	 * Lists the active jails of a user.
+	 *
+	 * @param userId - Telegram user ID
+	 * @returns Active jails ordered by expiry
+	 */
+	static getUserJails(userId: number): ActiveJail[] {
+		return query<UserJail>(
+			"SELECT * FROM user_jails WHERE user_id = ? AND muted_until > ? ORDER BY muted_until",
+			[userId, Math.floor(Date.now() / 1000)],
+		).map(JailService.toActiveJail);
 	}
 
 	/**
 	 * Retrieves all currently active jails with remaining time.
+	 * A user jailed in several scopes appears once per jail.
 	 *
-	 * @returns Array of jailed users with calculated time remaining
+	 * @param chatId - Only return jails covering this chat (including network-wide jails)
+	 * @returns Array of jailed users with their jail scope, expiry and time remaining
 	 *
 	 * @example
 	 * ```typescript
@@ -99,16 +272,28 @@ export class JailService {
 	 * });
 	 * ```
 	 */
-	static getActiveJails(): Array<User & { timeRemaining: number }> {
+	static getActiveJails(chatId?: number): Array<
+		User & {
+			chatId: number | null;
+			mutedUntil: number;
+			timeRemaining: number;
+		}
+	> {
 		const now = Math.floor(Date.now() / 1000);
-		const jailedUsers = query<User>(
-			"SELECT * FROM users WHERE muted_until IS NOT NULL AND muted_until > ?",
-			[now],
+		const jails = query<User & { jail_chat_id: number; jail_until: number }>(
+			`SELECT u.*, j.chat_id as jail_chat_id, j.muted_until as jail_until
+       FROM user_jails j
+       JOIN users u ON u.id = j.user_id
+       WHERE j.muted_until > ?${chatId === undefined ? "" : " AND j.chat_id IN (?, ?)"}
+       ORDER BY j.muted_until`,
+			chatId === undefined ? [now] : [now, chatId, NETWORK_CHAT_ID],
 		);
 
-		return jailedUsers.map((user) => ({
+		return jails.map(({ jail_chat_id, jail_until, ...user }) => ({
 			...user,
-			timeRemaining: (user.muted_until ?? now) - now,
+			chatId: jail_chat_id === NETWORK_CHAT_ID ? null : jail_chat_id,
+			mutedUntil: jail_until,
+			timeRemaining: jail_until - now,
 		}));
 	}
 
@@ -144,6 +329,7 @@ export class JailService {
 	 * Converts USD to JUNO using rolling average price from CoinGecko.
 	 *
 	 * @param durationMinutes - Duration of jail in minutes
+	 * @param chatId - Chat whose fine overrides apply (omit for the global rates)
 	 * @returns Promise resolving to bail amount in JUNO tokens
 	 *
 	 * @example
@@ -151,8 +337,14 @@ export class JailService {
 	 * const bail = await JailService.calculateBailAmount(60); // ~1.0 JUNO for 1 hour at $0.10/min
 	 * ```
 	 */
-	static async calculateBailAmount(durationMinutes: number): Promise<number> {
-		return PriceService.calculateBailAmount(durationMinutes);
+	static async calculateBailAmount(
+		durationMinutes: number,
+		chatId?: number | null,
+	): Promise<number> {
+		return PriceService.calculateBailAmount(
+			durationMinutes,
+			chatId ?? undefined,
+		);
 	}
 
 	/**
@@ -174,119 +366,21 @@ export class JailService {
 	}
 
 	/**
-	 * Cleans up expired jails and automatically restores user permissions.
-	 * Should be called periodically (e.g., via setInterval or cron job).
-	 *
-	 * Process:
-	 * 1. Find all users whose jail time has expired
-	 * 2. Clear muted_until field in database
-	 * 3. Restore Telegram chat permissions
-	 * 4. Log auto-unjail event
-	 * 5. Notify user via DM
-	 *
-	 * @throws Will log errors but continue processing other users if individual operations fail
+	 * Lists the jails whose time has run out but were not released yet.
 	 *
-	 * @example
-	 * ```typescript
-	 * // Run every minute
-	 * setInterval(() => JailService.cleanExpiredJails(), 60000);
-	 * ```
+	 * @returns Expired jails
 	 */
-	static async cleanExpiredJails(): Promise<void> {
-		try {
-			const now = Math.floor(Date.now() / 1000);
-
-			// Find users whose jail time has expired
-			const expiredJails = query<User>(
-				"SELECT * FROM users WHERE muted_until IS NOT NULL AND muted_until <= ?",
-				[now],
-			);
-
-			if (expiredJails.length === 0) {
-				return;
-			}
-
-			StructuredLogger.logUserAction("Cleaning expired jails", {
-				operation: "clean_expired_jails",
-				amount: expiredJails.length.toString(),
-			});
-
-			for (const user of expiredJails) {
-				try {
-					// Clear the muted_until field
-					execute(
-						"UPDATE users SET muted_until = NULL, updated_at = ? WHERE id = ?",
-						[now, user.id],
-					);
-
-					// Try to restore permissions in the configured group chat
-					if (config.groupChatId) {
-						try {
-							await JailService.bot.telegram.restrictChatMember(
-								config.groupChatId,
-								user.id,
-								{
-									permissions: {
-										can_send_messages: true,
-										can_send_audios: true,
-										can_send_documents: true,
-										can_send_photos: true,
-										can_send_videos: true,
-										can_send_video_notes: true,
-										can_send_voice_notes: true,
-										can_send_polls: true,
-										can_send_other_messages: true,
-										can_add_web_page_previews: true,
-										can_change_info: false,
-										can_invite_users: true,
-										can_pin_messages: false,
-										can_manage_topics: false,
-									},
-								},
-							);
-
-							StructuredLogger.logSecurityEvent("User auto-unjailed", {
-								userId: user.id,
-								operation: "auto_unjailed",
-							});
-
-							// Log the auto-unjail event
-							JailService.logJailEvent(user.id, "auto_unjailed");
+	static getExpiredJails(): ActiveJail[] {
+		return query<UserJail>("SELECT * FROM user_jails WHERE muted_until <= ?", [
+			Math.floor(Date.now() / 1000),
+		]).map(JailService.toActiveJail);
+	}
 
-							// Notify the user their jail time is up
-							try {
-								await JailService.bot.telegram.sendMessage(
-									user.id,
-									" Your jail time has expired. You can now send messages in the group again.",
-								);
-							} catch (_dmError) {
-								// User might have blocked the bot, that's okay
-								StructuredLogger.logDebug(
-									"Could not notify user of jail expiry",
-									{
-										userId: user.id,
-									},
-								);
-							}
-						} catch (error) {
-							StructuredLogger.logError(error as Error, {
-								userId: user.id,
-								operation: "restore_permissions",
-							});
-							// Continue with other users even if one fails
-						}
-					}
-				} catch (error) {
-					StructuredLogger.logError(error as Error, {
-						userId: user.id,
-						operation: "process_expired_jail",
-					});
-				}
-			}
-		} catch (error) {
-			StructuredLogger.logError(error as Error, {
-				operation: "clean_expired_jails",
-			});
-		}
+	private static toActiveJail(jail: UserJail): ActiveJail {
+		return {
+			userId: jail.user_id,
+			chatId: jail.chat_id === NETWORK_CHAT_ID ? null : jail.chat_id,
+			mutedUntil: jail.muted_until,
+		};
 	}
 }
@@ -0,0 +1,250 @@
+/**
+ * Join screening service module.
+ * Runs newly joined members through an ordered pipeline of screening steps
+ * and enforces the blacklist wherever a blacklisted user shows up.
+ *
+ * Responsibilities:
+ * - Maintaining the ordered list of join screens (blacklist first)
+ * - Banning blacklisted users on join, on message and when newly blacklisted,
+ *   through ModerationActionService so every ban is recorded and published
+ *
+ * @module services/joinScreeningService
+ */
+
+import type { Telegram } from "telegraf";
+import type { User as TelegramUser } from "telegraf/types";
+import { get } from "../database";
+import type { User } from "../types";
+import { logger, StructuredLogger } from "../utils/logger";
+import { isImmuneToModeration } from "../utils/roles";
+import { ChatService } from "./chatService";
+import { EventBus } from "./eventBus";
+import { ModerationActionService } from "./moderationActionService";
+
+/**
+ * Result of a single screening step.
+ * - pass: the member cleared this step, continue with the next one
+ * - handled: the step took action (ban, challenge, ...) and the pipeline stops
+ */
+export type ScreeningOutcome = "pass" | "handled";
+
+/**
+ * What triggered a blacklist enforcement.
+ */
+export type BlacklistTrigger = "join" | "message" | "retroactive";
+
+/**
+ * Information handed to each screening step.
+ */
+export interface ScreeningContext {
+	telegram: Telegram;
+	chatId: number;
+	member: TelegramUser;
+}
+
+/**
+ * A single step of the join screening pipeline.
+ */
+export interface JoinScreen {
+	/** Short identifier used in logs */
+	name: string;
+	/** Inspects the new member and decides whether the pipeline continues */
+	run: (screening: ScreeningContext) => Promise<ScreeningOutcome>;
+}
+
+// Window in which repeated join updates for the same member are ignored.
+// A join usually arrives both as a new_chat_members message and a chat_member update.
+const DUPLICATE_JOIN_WINDOW_MS = 30 * 1000;
+
+/**
+ * Built-in screen that bans blacklisted users as soon as they join.
+ */
+const blacklistScreen: JoinScreen = {
+	name: "blacklist",
+	run: async ({ telegram, chatId, member }) => {
+		if (!JoinScreeningService.isBlacklisted(member.id)) {
+			return "pass";
+		}
+
+		await JoinScreeningService.enforceBlacklist(
+			telegram,
+			chatId,
+			member.id,
+			"join",
+		);
+		return "handled";
+	},
+};
+
+/**
+ * Service class for screening new chat members and enforcing the blacklist.
+ * Additional screens can be appended with registerScreen; they run after the
+ * blacklist check in registration order.
+ */
+export class JoinScreeningService {
+	private static screens: JoinScreen[] = [blacklistScreen];
+	private static recentJoins = new Map<string, number>();
+
+	/**
+	 * Appends a screening step to the pipeline.
+	 *
+	 * @param screen - Screen to run for every new member
+	 */
+	static registerScreen(screen: JoinScreen): void {
+		if (JoinScreeningService.screens.some((s) => s.name === screen.name)) {
+			logger.warn("Join screen already registered", { screen: screen.name });
+			return;
+		}
+		JoinScreeningService.screens.push(screen);
+	}
+
+	/**
+	 * Runs a newly joined member through every registered screen in order.
+	 * Stops at the first screen that handles the member.
+	 * Duplicate join updates for the same member within a short window are ignored.
+	 *
+	 * @param telegram - Telegram instance for API calls
+	 * @param chatId - Chat the member joined
+	 * @param member - Telegram user who joined
+	 * @returns The outcome of the pipeline
+	 *
+	 * @example
+	 * ```typescript
+	 * for (const member of ctx.message.new_chat_members) {
+	 *   await JoinScreeningService.screenMember(ctx.telegram, ctx.chat.id, member);
+	 * }
+	 * ```
+	 */
+	static async screenMember(
+		telegram: Telegram,
+		chatId: number,
+		member: TelegramUser,
+	): Promise<ScreeningOutcome> {
+		const key = `${chatId}_${member.id}`;
+		const now = Date.now();
+		const lastSeen = JoinScreeningService.recentJoins.get(key);
+		if (lastSeen && now - lastSeen < DUPLICATE_JOIN_WINDOW_MS) {
+			return "handled";
+		}
+		JoinScreeningService.recentJoins.set(key, now);
+		JoinScreeningService.pruneRecentJoins(now);
+
+		for (const screen of JoinScreeningService.screens) {
+			try {
+				const outcome = await screen.run({ telegram, chatId, member });
+				if (outcome === "handled") {
+					logger.info("Join screening handled member", {
+						chatId,
+						userId: member.id,
+						screen: screen.name,
+					});
+					return "handled";
+				}
+			} catch (error) {
+				StructuredLogger.logError(error as Error, {
+					userId: member.id,
+					operation: `join_screen_${screen.name}`,
+				});
+			}
+		}
+
+		return "pass";
+	}
+
+	/**
+	 * Checks whether a user is on the blacklist.
+	 * Admins and owners are never treated as blacklisted.
+	 *
+	 * @param userId - Telegram user ID
+	 * @returns True if the user is blacklisted and not immune
+	 */
+	static isBlacklisted(userId: number): boolean {
+		const user = get<User>("SELECT blacklist FROM users WHERE id = ?", [
+			userId,
+		]);
+		return !!user?.blacklist && !isImmuneToModeration(userId);
+	}
+
+	/**
+	 * Bans a blacklisted user from a chat.
+	 *
+	 * @param telegram - Telegram instance for API calls
+	 * @param chatId - Chat to ban the user from
+	 * @param userId - Telegram user ID to ban
+	 * @param trigger - What caused the enforcement
+	 * @param adminId - Admin who blacklisted the user (retroactive bans only)
+	 * @returns True if the ban succeeded
+	 */
+	static async enforceBlacklist(
+		telegram: Telegram,
+		chatId: number,
+		userId: number,
+		trigger: BlacklistTrigger,
+		adminId?: number,
+	): Promise<boolean> {
+		const result = await ModerationActionService.ban({
+			userId,
+			chatId,
+			source: "screening",
+			reason: "blacklist",
+			actorId: adminId,
+			metadata: { trigger },
+			telegram,
+		});
+		if (!result.changed) {
+			await EventBus.publish("blacklist.failed", {
+				userId,
+				chatId,
+				trigger,
+				error: result.failures[0]?.error ?? "Unknown error",
+				timestamp: Math.floor(Date.now() / 1000),
+			});
+		}
+		return result.changed;
+	}
+
+	/**
+	 * Bans a newly blacklisted user from every chat the bot moderates.
+	 * Used right after /addblacklist so the user does not have to rejoin or post first.
+	 *
+	 * @param telegram - Telegram instance for API calls
+	 * @param userId - Telegram user ID that was blacklisted
+	 * @param adminId - Admin who added the user to the blacklist
+	 * @param currentChatId - Chat the command was issued in, if it is a group
+	 * @returns Number of chats the user was banned from
+	 */
+	static async enforceBlacklistRetroactively(
+		telegram: Telegram,
+		userId: number,
+		adminId?: number,
+		currentChatId?: number,
+	): Promise<number> {
+		const chatIds = new Set(ChatService.getChatIds());
+		if (currentChatId) chatIds.add(currentChatId);
+
+		let banned = 0;
+		for (const chatId of chatIds) {
+			const ok = await JoinScreeningService.enforceBlacklist(
+				telegram,
+				chatId,
+				userId,
+				"retroactive",
+				adminId,
+			);
+			if (ok) banned++;
+		}
+
+		return banned;
+	}
+
+	/**
+	 * Drops stale entries from the duplicate join tracker.
+	 */
+	private static pruneRecentJoins(now: number): void {
+		for (const [key, seenAt] of JoinScreeningService.recentJoins) {
+			if (now - seenAt >= DUPLICATE_JOIN_WINDOW_MS) {
+				JoinScreeningService.recentJoins.delete(key);
+			}
+		}
+	}
+}
@@ -3,6 +3,16 @@
 import { config } from "../config";
 import { logger, StructuredLogger } from "../utils/logger";
 
+/** A JUNO send to the treasury within a tx */
+export interface TreasuryPayment {
+	/** Index of the MsgSend in the tx body */
+	msgIndex: number;
+	fromAddress: string;
+	amountMicro: number;
+	/** Memo of the tx the send is in */
+	memo: string;
+}
+
 export class JunoService {
 	private static rpcEndpoint =
 		config.junoRpcUrl || "https://rpc.juno.basementnodes.ca";
@@ -12,13 +22,54 @@ export class JunoService {
 		txHash: string,
 		expectedAmount: number,
 	): Promise<boolean> {
-		try {
-			StructuredLogger.logTransaction("Verifying payment", {
+		StructuredLogger.logTransaction("Verifying payment", {
+			txHash,
+			amount: expectedAmount.toString(),
+			operation: "verify_payment",
+		});
+
+		const payments = await JunoService.getTreasuryPayments(txHash);
+		if (!payments) {
+			return false;
+		}
+
+		for (const payment of payments) {
+			const amount = payment.amountMicro / 1_000_000;
+
+			// Allow small difference for rounding (0.01 JUNO tolerance)
+			const difference = Math.abs(amount - expectedAmount);
+
+			if (difference < 0.01) {
+				StructuredLogger.logTransaction("Payment verified", {
+					txHash,
+					amount: amount.toString(),
+					operation: "verify_success",
+				});
+				return true;
+			}
+			StructuredLogger.logTransaction("Amount mismatch", {
 				txHash,
-				amount: expectedAmount.toString(),
-				operation: "verify_payment",
+				amount: amount.toString(),
+				operation: "verify_mismatch",
 			});
+		}
+
+		StructuredLogger.logTransaction("No valid payment found", {
+			txHash,
+			operation: "verify_not_found",
+		});
+		return false;
+	}
 
+	/**
+	 * Lists the JUNO sends to the treasury in a successful tx, one per
+	 * MsgSend, with the index of the message in the tx body.
+	 * Returns null if the tx is not found, failed, or cannot be checked.
+	 */
+	static async getTreasuryPayments(
+		txHash: string,
+	): Promise<TreasuryPayment[] | null> {
+		try {
 			// Query using the REST API endpoint
 			const apiEndpoint =
 				config.junoApiUrl || "https://api.juno.basementnodes.ca";
@@ -28,7 +79,7 @@ export class JunoService {
 
 			if (!response.ok) {
 				logger.warn("Transaction not found on chain", { txHash });
-				return false;
+				return null;
 			}
 
 			const data = (await response.json()) as any;
@@ -40,65 +91,52 @@ export class JunoService {
 					txHash,
 					operation: "verify_failed",
 				});
-				return false;
+				return null;
 			}
 
-			// Parse messages to find transfer to our treasury
+			// Parse messages to find transfers to our treasury
 			const messages = tx.tx.body.messages;
+			const memo: string = tx.tx.body.memo || "";
 			const treasuryAddress = config.botTreasuryAddress;
 
 			if (!treasuryAddress) {
 				StructuredLogger.logError("Treasury not configured", {
 					operation: "verify_payment",
 				});
-				return false;
+				return null;
 			}
 
-			for (const message of messages) {
-				if (message["@type"] === "/cosmos.bank.v1beta1.MsgSend") {
-					// Check if recipient is our treasury
-					if (message.to_address === treasuryAddress) {
-						// Find JUNO amount
-						const junoAmount = message.amount?.find(
-							(a: any) => a.denom === "ujuno",
-						);
-
-						if (junoAmount) {
-							const amount = parseFloat(junoAmount.amount) / 1_000_000;
-
-							// Allow small difference for rounding (0.01 JUNO tolerance)
-							const difference = Math.abs(amount - expectedAmount);
-
-							if (difference < 0.01) {
-								StructuredLogger.logTransaction("Payment verified", {
-									txHash,
-									amount: amount.toString(),
-									operation: "verify_success",
-								});
-								return true;
-							} else {
-								StructuredLogger.logTransaction("Amount mismatch", {
-									txHash,
-									amount: amount.toString(),
-									operation: "verify_mismatch",
-								});
-							}
-						}
-					}
+			const payments: TreasuryPayment[] = [];
+			messages.forEach((message: any, msgIndex: number) => {
+				if (
+					message["@type"] !== "/cosmos.bank.v1beta1.MsgSend" ||
+					message.to_address !== treasuryAddress
+				) {
+					return;
 				}
-			}
 
-			StructuredLogger.logTransaction("No valid payment found", {
-				txHash,
-				operation: "verify_not_found",
+				// Find JUNO amount
+				const junoAmount = message.amount?.find(
+					(a: any) => a.denom === "ujuno",
+				);
+				const amountMicro = Number.parseInt(junoAmount?.amount ?? "", 10);
+				if (amountMicro > 0) {
+					payments.push({
+						msgIndex,
+						fromAddress: message.from_address || "",
+						amountMicro,
+						memo,
+					});
+				}
 			});
-			return false;
+
+			return payments;
 		} catch (error) {
 			StructuredLogger.logError(error as Error, {
 				txHash,
 				operation: "verify_payment",
 			});
-			return false;
+			return null;
 		}
 	}
 
@@ -0,0 +1,233 @@
+/**
+ * Ledger audit service for the CAC Admin Bot.
+ * Recomputes every account balance from the double-entry journal and
+ * compares it with the cached balances in user_balances, covering user,
+ * system, giveaway escrow and shared accounts in every denom.
+ *
+ * @module services/ledgerAudit
+ */
+
+import { query } from "../database";
+import { logger } from "../utils/logger";
+import { AmountPrecision } from "../utils/precision";
+import { DEFAULT_DENOM, DenomService } from "./denomService";
+import { EventBus } from "./eventBus";
+import { EXTERNAL_ACCOUNT_ID } from "./ledgerService";
+import { SYSTEM_USER_IDS } from "./unifiedWalletService";
+
+/**
+ * An account whose cached balance differs from its journal balance.
+ */
+export interface AccountDrift {
+	accountId: number;
+	label: string;
+	denom: string;
+	cachedMicro: number;
+	journalMicro: number;
+	/** Cached minus journal balance */
+	driftMicro: number;
+}
+
+/**
+ * A transaction whose postings do not sum to zero.
+ */
+export interface UnbalancedTransaction {
+	transactionId: number;
+	denom: string;
+	totalMicro: number;
+}
+
+/**
+ * Result of a full ledger audit.
+ */
+export interface LedgerAuditReport {
+	accountsChecked: number;
+	drifts: AccountDrift[];
+	unbalancedTransactions: UnbalancedTransaction[];
+	/** Net JUNO that entered the ledger from outside (deposits minus withdrawals etc.) */
+	externalMicro: number;
+	clean: boolean;
+}
+
+const SYSTEM_LABELS: Record<number, string> = {
+	[SYSTEM_USER_IDS.BOT_TREASURY]: "Bot treasury",
+	[SYSTEM_USER_IDS.SYSTEM_RESERVE]: "System reserve",
+	[SYSTEM_USER_IDS.UNCLAIMED]: "Unclaimed deposits",
+};
+
+const SHARED_ACCOUNT_IDS = { min: -999, max: -100 };
+
+/**
+ * Service for checking the cached balances against the journal.
+ */
+export class LedgerAuditService {
+	/**
+	 * Recomputes every account from its postings and compares it with the
+	 * cached balance, per denom. Also finds journal entries whose postings do
+	 * not balance.
+	 *
+	 * @returns Audit report; `clean` is false if any drift was found
+	 */
+	static audit(): LedgerAuditReport {
+		const accounts = query<{
+			account_id: number;
+			denom: string;
+			cached: number;
+			journal: number;
+		}>(
+			`SELECT a.account_id, a.denom,
+              COALESCE(b.balance_ujuno, 0) AS cached,
+              COALESCE(p.total, 0) AS journal
+       FROM (
+         SELECT user_id AS account_id, denom FROM user_balances
+         UNION
+         SELECT account_id, denom FROM ledger_postings WHERE account_id != ?
+       ) a
+       LEFT JOIN user_balances b ON b.user_id = a.account_id AND b.denom = a.denom
+       LEFT JOIN (
+         SELECT account_id, denom, SUM(amount_ujuno) AS total
+         FROM ledger_postings GROUP BY account_id, denom
+       ) p ON p.account_id = a.account_id AND p.denom = a.denom
+       ORDER BY a.account_id, a.denom`,
+			[EXTERNAL_ACCOUNT_ID],
+		);
+
+		const drifts: AccountDrift[] = accounts
+			.filter((row) => row.cached !== row.journal)
+			.map((row) => ({
+				accountId: row.account_id,
+				label: LedgerAuditService.labelAccount(row.account_id),
+				denom: row.denom,
+				cachedMicro: row.cached,
+				journalMicro: row.journal,
+				driftMicro: row.cached - row.journal,
+			}));
+
+		const unbalancedTransactions = query<{
+			transaction_id: number;
+			denom: string;
+			total: number;
+		}>(
+			`SELECT transaction_id, denom, SUM(amount_ujuno) AS total
+       FROM ledger_postings
+       GROUP BY transaction_id, denom
+       HAVING total != 0
+       ORDER BY transaction_id`,
+		).map((row) => ({
+			transactionId: row.transaction_id,
+			denom: row.denom,
+			totalMicro: row.total,
+		}));
+
+		const external = query<{ total: number | null }>(
+			"SELECT SUM(amount_ujuno) AS total FROM ledger_postings WHERE account_id = ? AND denom = ?",
+			[EXTERNAL_ACCOUNT_ID, DEFAULT_DENOM],
+		)[0];
+
+		return {
+			accountsChecked: accounts.length,
+			drifts,
+			unbalancedTransactions,
+			externalMicro: -(external?.total ?? 0),
+			clean: drifts.length === 0 && unbalancedTransactions.length === 0,
+		};
+	}
+
+	/**
+	 * Names an account for the audit report.
+	 *
+	 * @param accountId - Ledger account ID
+	 * @returns Human readable label
+	 */
+	static labelAccount(accountId: number): string {
+		const system = SYSTEM_LABELS[accountId];
+		if (system) return `${system} (${accountId})`;
+
+		if (accountId <= SYSTEM_USER_IDS.GIVEAWAY_ESCROW_BASE - 1) {
+			const giveawayId = SYSTEM_USER_IDS.GIVEAWAY_ESCROW_BASE - accountId;
+			return `Giveaway #${giveawayId} escrow (${accountId})`;
+		}
+
+		if (
+			accountId >= SHARED_ACCOUNT_IDS.min &&
+			accountId <= SHARED_ACCOUNT_IDS.max
+		) {
+			const shared = query<{ name: string }>(
+				"SELECT name FROM shared_accounts WHERE id = ?",
+				[accountId],
+			)[0];
+			return `Shared account ${shared ? `"${shared.name}" ` : ""}(${accountId})`;
+		}
+
+		return `User ${accountId}`;
+	}
+
+	/**
+	 * Formats an audit report for display.
+	 *
+	 * @param report - Audit report
+	 * @returns Multi-line plain text summary
+	 */
+	static formatReport(report: LedgerAuditReport): string {
+		const juno = (micro: number) =>
+			`${AmountPrecision.fromMicroJuno(micro).toFixed(6)} JUNO`;
+
+		const lines = [
+			`Accounts checked: ${report.accountsChecked}`,
+			`Net external inflow: ${juno(report.externalMicro)}`,
+		];
+
+		if (report.clean) {
+			lines.push("", "Status: every balance matches the journal");
+			return lines.join("\n");
+		}
+
+		if (report.drifts.length > 0) {
+			lines.push("", `Balance drift (${report.drifts.length}):`);
+			for (const drift of report.drifts) {
+				const amount = (micro: number) =>
+					DenomService.format(micro, drift.denom);
+				lines.push(
+					`- ${drift.label}: cached ${amount(drift.cachedMicro)}, journal ${amount(drift.journalMicro)}, drift ${amount(drift.driftMicro)}`,
+				);
+			}
+		}
+
+		if (report.unbalancedTransactions.length > 0) {
+			lines.push(
+				"",
+				`Unbalanced entries (${report.unbalancedTransactions.length}):`,
+			);
+			for (const entry of report.unbalancedTransactions) {
+				lines.push(
+					`- Transaction #${entry.transactionId} off by ${DenomService.format(entry.totalMicro, entry.denom)}`,
+				);
+			}
+		}
+
+		return lines.join("\n");
+	}
+
+	/**
+	 * Runs the audit and publishes ledger.drift if any drift is found.
+	 * Called periodically from the bot's scheduled jobs.
+	 *
+	 * @returns Audit report
+	 */
+	static async auditAndAlert(): Promise<LedgerAuditReport> {
+		const report = LedgerAuditService.audit();
+
+		if (!report.clean) {
+			logger.warn("Ledger audit found drift", {
+				drifts: report.drifts.length,
+				unbalancedTransactions: report.unbalancedTransactions.length,
+			});
+			await EventBus.publish("ledger.drift", {
+				report,
+				timestamp: Math.floor(Date.now() / 1000),
+			});
+		}
+
+		return report;
+	}
+}
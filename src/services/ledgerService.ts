@@ -1,7 +1,10 @@
 import { config } from "../config";
-import { execute, get, query } from "../database";
+import { execute, get, query, withTransaction } from "../database";
 import { logger } from "../utils/logger";
 import { AmountPrecision } from "../utils/precision";
+import { DEFAULT_DENOM, DenomService } from "./denomService";
+import { EventBus } from "./eventBus";
+import { MaintenanceService } from "./maintenanceService";
 
 // Transaction types
 export enum TransactionType {
@@ -11,8 +14,21 @@ export enum TransactionType {
 	FINE = "fine",
 	BAIL = "bail",
 	GIVEAWAY = "giveaway",
+	/** Credit returning funds from a failed operation (parent: the failed transaction) */
 	REFUND = "refund",
 	GAMBLING = "gambling",
+	/** Manual or reconciliation balance correction */
+	ADJUSTMENT = "adjustment",
+	/** Funds moved into an escrow account (e.g. giveaway funding) */
+	ESCROW_LOCK = "escrow_lock",
+	/** Funds paid out of an escrow account (parent: the escrow lock) */
+	ESCROW_RELEASE = "escrow_release",
+	/** On-chain gas paid by the system reserve (parent: the withdrawal) */
+	GAS_FEE = "gas_fee",
+	/** Stake lost by a duel player */
+	DUEL_WAGER = "duel_wager",
+	/** Winnings paid to a duel winner (parent: the lost wager) */
+	DUEL_PAYOUT = "duel_payout",
 }
 
 // Transaction status
@@ -29,25 +45,124 @@ interface UserBalance {
 	createdAt: number;
 }
 
+// Ledger amounts are stored as integer base units of the transaction's denom
+// (for JUNO: ujuno, 1 JUNO = 1,000,000 ujuno)
 interface Transaction {
 	id?: number;
 	transactionType: TransactionType;
+	/** Denom of the amounts (defaults to ujuno) */
+	denom?: string;
 	fromUserId?: number;
 	toUserId?: number;
-	amount: number;
-	balanceAfter?: number;
+	amountMicro: number;
+	balanceAfterMicro?: number;
 	description?: string;
 	txHash?: string;
 	externalAddress?: string;
 	status: TransactionStatus;
 	createdAt?: number;
 	metadata?: string;
+	/** Transaction this one follows from (refunded withdrawal, escrow lock, ...) */
+	parentTransactionId?: number;
+}
+
+/**
+ * Journal account on the other side of flows that enter or leave the
+ * internal ledger (deposits, withdrawals, giveaways, fines, bail and
+ * adjustments). It has no cached balance; its journal balance is the
+ * negative of the sum of every other account.
+ */
+export const EXTERNAL_ACCOUNT_ID = 0;
+
+/**
+ * One side of a journal entry.
+ * Positive amounts credit the account, negative amounts debit it.
+ */
+export interface Posting {
+	accountId: number;
+	amountMicro: number;
+}
+
+/**
+ * Options for typed internal transfers.
+ */
+export interface TransferOptions {
+	/** Transaction type to record (defaults to TRANSFER) */
+	type?: TransactionType;
+	/** Transaction this transfer follows from */
+	parentTransactionId?: number;
+	/** Denom to move (defaults to ujuno); the amount is in its display units */
+	denom?: string;
+}
+
+/**
+ * Non-zero balance of one asset.
+ */
+export interface AssetBalance {
+	denom: string;
+	/** Balance in the denom's base units */
+	balanceMicro: number;
+}
+
+/**
+ * Outcome of the most recent ledger reconciliation (amounts in JUNO).
+ */
+export interface ReconciliationSnapshot {
+	internalTotal: number;
+	onChainTotal: number;
+	difference: number;
+	matched: boolean;
+	/** Unix timestamp of the reconciliation */
+	checkedAt: number;
+}
+
+/**
+ * Transaction row as returned by history queries.
+ * `amount` and `balance_after` are derived display values in the row's
+ * denom; the `_ujuno` columns hold the exact stored base unit amounts.
+ */
+export interface LedgerTransactionRow {
+	id: number;
+	transaction_type: string;
+	denom: string;
+	from_user_id: number | null;
+	to_user_id: number | null;
+	amount_ujuno: number;
+	balance_after_ujuno: number | null;
+	amount: number;
+	balance_after: number | null;
+	description: string | null;
+	tx_hash: string | null;
+	external_address: string | null;
+	status: string;
+	created_at: number;
+	metadata: string | null;
+	parent_transaction_id: number | null;
+}
+
+/**
+ * Adds the derived display fields to a raw transactions row.
+ */
+export function toLedgerTransactionRow(
+	row: Omit<LedgerTransactionRow, "amount" | "balance_after">,
+): LedgerTransactionRow {
+	const denom = row.denom ?? DEFAULT_DENOM;
+	return {
+		...row,
+		denom,
+		amount: DenomService.fromBaseUnits(row.amount_ujuno, denom),
+		balance_after:
+			row.balance_after_ujuno === null
+				? null
+				: DenomService.fromBaseUnits(row.balance_after_ujuno, denom),
+	};
 }
 
 export class LedgerService {
 	private static botTreasuryAddress: string;
 	private static userFundsAddress: string;
 	private static apiEndpoint: string;
+	private static lastReconciliation: ReconciliationSnapshot | null = null;
 
 	/**
 	 * Initialize the ledger service
@@ -102,131 +217,274 @@ export class LedgerService {
 
 	/**
 	 * Get user's current balance from internal ledger
+	 *
+	 * @param denom - Asset to get (defaults to JUNO), returned in display units
 	 */
-	static async getUserBalance(userId: number): Promise<number> {
-		const balance = get<UserBalance>(
-			"SELECT * FROM user_balances WHERE user_id = ?",
-			[userId],
-		);
+	static async getUserBalance(
+		userId: number,
+		denom: string = DEFAULT_DENOM,
+	): Promise<number> {
+		return LedgerService.balanceOf(userId, denom);
+	}
 
-		return balance?.balance || 0;
+	/**
+	 * Current balance in display units, for the results of journal entries
+	 */
+	private static balanceOf(
+		userId: number,
+		denom: string = DEFAULT_DENOM,
+	): number {
+		return DenomService.fromBaseUnits(
+			LedgerService.getUserBalanceMicro(userId, denom),
+			denom,
+		);
 	}
 
 	/**
-	 * Get or create user balance entry
+	 * Get user's current balance in base units (ujuno for JUNO, exact integer)
 	 */
-	static async ensureUserBalance(userId: number): Promise<UserBalance> {
-		let balance = get<UserBalance>(
-			"SELECT * FROM user_balances WHERE user_id = ?",
-			[userId],
+	static getUserBalanceMicro(
+		userId: number,
+		denom: string = DEFAULT_DENOM,
+	): number {
+		const row = get<{ balance_ujuno: number }>(
+			"SELECT balance_ujuno FROM user_balances WHERE user_id = ? AND denom = ?",
+			[userId, denom],
 		);
 
-		if (!balance) {
-			const now = Math.floor(Date.now() / 1000);
-			execute(
-				"INSERT INTO user_balances (user_id, balance, last_updated, created_at) VALUES (?, 0, ?, ?)",
-				[userId, now, now],
-			);
+		return row?.balance_ujuno || 0;
+	}
 
-			balance = {
-				userId,
-				balance: 0,
-				lastUpdated: now,
-				createdAt: now,
+	/**
+	 * Every asset a user holds a non-zero balance of, JUNO first.
+	 */
+	static getUserAssets(userId: number): AssetBalance[] {
+		return query<{ denom: string; balance_ujuno: number }>(
+			`SELECT denom, balance_ujuno FROM user_balances
+       WHERE user_id = ? AND balance_ujuno != 0
+       ORDER BY denom = ? DESC, denom`,
+			[userId, DEFAULT_DENOM],
+		).map((row) => ({ denom: row.denom, balanceMicro: row.balance_ujuno }));
+	}
+
+	/**
+	 * Get or create user balance entry
+	 */
+	static ensureUserBalance(userId: number): UserBalance {
+		const row = get<{
+			user_id: number;
+			balance_ujuno: number;
+			last_updated: number;
+			created_at: number;
+		}>("SELECT * FROM user_balances WHERE user_id = ? AND denom = ?", [
+			userId,
+			DEFAULT_DENOM,
+		]);
+
+		if (row) {
+			return {
+				userId: row.user_id,
+				balance: AmountPrecision.fromMicroJuno(row.balance_ujuno),
+				lastUpdated: row.last_updated,
+				createdAt: row.created_at,
 			};
 		}
 
-		return balance;
+		const now = Math.floor(Date.now() / 1000);
+		execute(
+			"INSERT INTO user_balances (user_id, balance_ujuno, last_updated, created_at) VALUES (?, 0, ?, ?)",
+			[userId, now, now],
+		);
+
+		return {
+			userId,
+			balance: 0,
+			lastUpdated: now,
+			createdAt: now,
+		};
 	}
 
 	/**
-	 * Update user balance (internal use only, use transaction methods for actual operations)
+	 * Update the cached balance in base units (internal use only, balances
+	 * change through journal entries)
 	 */
-	private static async updateBalance(
+	private static updateBalance(
 		userId: number,
-		newBalance: number,
-	): Promise<void> {
+		newBalanceMicro: number,
+		denom: string,
+	): void {
+		if (!Number.isSafeInteger(newBalanceMicro)) {
+			throw new Error(`Balance must be an integer base unit amount`);
+		}
+
 		const now = Math.floor(Date.now() / 1000);
 		execute(
-			"UPDATE user_balances SET balance = ?, last_updated = ? WHERE user_id = ?",
-			[newBalance, now, userId],
+			"UPDATE user_balances SET balance_ujuno = ?, last_updated = ? WHERE user_id = ? AND denom = ?",
+			[newBalanceMicro, now, userId, denom],
 		);
 	}
 
 	/**
 	 * Record a transaction in the ledger
 	 */
-	private static async recordTransaction(
-		transaction: Transaction,
-	): Promise<number> {
+	private static recordTransaction(transaction: Transaction): number {
 		const result = execute(
 			`INSERT INTO transactions (
-        transaction_type, from_user_id, to_user_id, amount, balance_after,
-        description, tx_hash, external_address, status, metadata
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        transaction_type, from_user_id, to_user_id, amount_ujuno, balance_after_ujuno,
+        description, tx_hash, external_address, status, metadata, parent_transaction_id, denom
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
 			[
 				transaction.transactionType,
 				transaction.fromUserId || null,
 				transaction.toUserId || null,
-				transaction.amount,
-				transaction.balanceAfter || null,
+				transaction.amountMicro,
+				transaction.balanceAfterMicro ?? null,
 				transaction.description || null,
 				transaction.txHash || null,
 				transaction.externalAddress || null,
 				transaction.status,
 				transaction.metadata || null,
+				transaction.parentTransactionId ?? null,
+				transaction.denom ?? DEFAULT_DENOM,
 			],
 		);
 
 		return result.lastInsertRowid as number;
 	}
 
+	/**
+	 * Writes a journal entry: the transaction row, its postings and the
+	 * cached balances of every account involved, all or nothing.
+	 * Every posting is in the transaction's denom. Like the ledger operations
+	 * built on it, it is synchronous so it can join a caller's unit of work.
+	 *
+	 * @param transaction - Transaction row (balance_after is filled in)
+	 * @param postings - Postings that must sum to zero
+	 * @param balanceAccountId - Account whose new balance is stored as balance_after
+	 * @returns The transaction ID and the new balance of each account
+	 * @throws {Error} If the postings do not balance or a statement fails
+	 */
+	private static postEntry(
+		transaction: Omit<Transaction, "balanceAfterMicro">,
+		postings: Posting[],
+		balanceAccountId: number,
+	): { transactionId: number; balances: Map<number, number> } {
+		let total = 0;
+		for (const posting of postings) {
+			if (!Number.isSafeInteger(posting.amountMicro)) {
+				throw new Error("Postings must be integer base unit amounts");
+			}
+			total += posting.amountMicro;
+		}
+		if (total !== 0) {
+			throw new Error(
+				`Journal entry is not balanced (off by ${total} base units)`,
+			);
+		}
+
+		const denom = transaction.denom ?? DEFAULT_DENOM;
+		return withTransaction(() => {
+			const now = Math.floor(Date.now() / 1000);
+			const balances = new Map<number, number>();
+
+			for (const posting of postings) {
+				if (posting.accountId === EXTERNAL_ACCOUNT_ID) continue;
+				execute(
+					"INSERT OR IGNORE INTO user_balances (user_id, denom, balance_ujuno, last_updated, created_at) VALUES (?, ?, 0, ?, ?)",
+					[posting.accountId, denom, now, now],
+				);
+				const newBalanceMicro =
+					LedgerService.getUserBalanceMicro(posting.accountId, denom) +
+					posting.amountMicro;
+				LedgerService.updateBalance(posting.accountId, newBalanceMicro, denom);
+				balances.set(posting.accountId, newBalanceMicro);
+			}
+
+			const transactionId = LedgerService.recordTransaction({
+				...transaction,
+				balanceAfterMicro: balances.get(balanceAccountId),
+			});
+
+			for (const posting of postings) {
+				execute(
+					"INSERT INTO ledger_postings (transaction_id, account_id, amount_ujuno, denom) VALUES (?, ?, ?, ?)",
+					[transactionId, posting.accountId, posting.amountMicro, denom],
+				);
+			}
+
+			return { transactionId, balances };
+		});
+	}
+
+	/**
+	 * Postings moving an amount from one account to another.
+	 */
+	private static move(
+		fromAccountId: number,
+		toAccountId: number,
+		amountMicro: number,
+	): Posting[] {
+		return [
+			{ accountId: fromAccountId, amountMicro: -amountMicro },
+			{ accountId: toAccountId, amountMicro },
+		];
+	}
+
 	/**
 	 * Process a deposit from an external wallet
+	 *
+	 * @param denom - Asset deposited (defaults to JUNO); amount is in its display units
 	 */
-	static async processDeposit(
+	static processDeposit(
 		userId: number,
 		amount: number,
 		txHash: string,
 		fromAddress: string,
 		description?: string,
-	): Promise<{ success: boolean; newBalance: number; error?: string }> {
+		denom: string = DEFAULT_DENOM,
+	): { success: boolean; newBalance: number; error?: string } {
 		try {
-			// Ensure user has a balance entry
-			await LedgerService.ensureUserBalance(userId);
-
-			// Get current balance and add using precise arithmetic
-			const currentBalance = await LedgerService.getUserBalance(userId);
-			const newBalance = AmountPrecision.add(currentBalance, amount);
-
-			// Update balance
-			await LedgerService.updateBalance(userId, newBalance);
+			const amountMicro = DenomService.toBaseUnits(amount, denom);
+
+			const { balances } = LedgerService.postEntry(
+				{
+					transactionType: TransactionType.DEPOSIT,
+					denom,
+					toUserId: userId,
+					amountMicro,
+					description: description || `Deposit from ${fromAddress}`,
+					txHash,
+					externalAddress: fromAddress,
+					status: TransactionStatus.COMPLETED,
+				},
+				LedgerService.move(EXTERNAL_ACCOUNT_ID, userId, amountMicro),
+				userId,
+			);
 
-			// Record transaction
-			await LedgerService.recordTransaction({
-				transactionType: TransactionType.DEPOSIT,
-				toUserId: userId,
-				amount,
-				balanceAfter: newBalance,
-				description: description || `Deposit from ${fromAddress}`,
-				txHash,
-				externalAddress: fromAddress,
-				status: TransactionStatus.COMPLETED,
-			});
+			const newBalance = DenomService.fromBaseUnits(
+				balances.get(userId) ?? 0,
+				denom,
+			);
 
 			logger.info("Deposit processed", {
 				userId,
 				amount,
+				denom,
 				newBalance,
 				txHash,
 			});
 
 			return { success: true, newBalance };
 		} catch (error) {
-			logger.error("Failed to process deposit", { userId, amount, error });
+			logger.error("Failed to process deposit", {
+				userId,
+				amount,
+				denom,
+				error,
+			});
 			return {
 				success: false,
-				newBalance: await LedgerService.getUserBalance(userId),
+				newBalance: LedgerService.balanceOf(userId, denom),
 				error: error instanceof Error ? error.message : "Unknown error",
 			};
 		}
@@ -234,55 +492,70 @@ export class LedgerService {
 
 	/**
 	 * Process a withdrawal to an external wallet
+	 *
+	 * @param metadata - Stored as JSON on the transaction (e.g. the withdrawal policy decision)
+	 * @param denom - Asset withdrawn (defaults to JUNO); amount is in its display units
 	 */
-	static async processWithdrawal(
+	static processWithdrawal(
 		userId: number,
 		amount: number,
 		toAddress: string,
 		txHash?: string,
 		description?: string,
-	): Promise<{
+		metadata?: Record<string, unknown>,
+		denom: string = DEFAULT_DENOM,
+	): {
 		success: boolean;
 		newBalance: number;
 		transactionId?: number;
 		error?: string;
-	}> {
+	} {
 		try {
+			const amountMicro = DenomService.toBaseUnits(amount, denom);
+
 			// Check balance
-			const currentBalance = await LedgerService.getUserBalance(userId);
-			if (currentBalance < amount) {
+			const currentBalanceMicro = LedgerService.getUserBalanceMicro(
+				userId,
+				denom,
+			);
+			if (currentBalanceMicro < amountMicro) {
 				return {
 					success: false,
-					newBalance: currentBalance,
+					newBalance: DenomService.fromBaseUnits(currentBalanceMicro, denom),
 					error: "Insufficient balance",
 				};
 			}
 
-			const newBalance = AmountPrecision.subtract(currentBalance, amount);
-
 			// Record as pending if no txHash yet
 			const status = txHash
 				? TransactionStatus.COMPLETED
 				: TransactionStatus.PENDING;
 
-			// Update balance
-			await LedgerService.updateBalance(userId, newBalance);
+			const { transactionId, balances } = LedgerService.postEntry(
+				{
+					transactionType: TransactionType.WITHDRAWAL,
+					denom,
+					fromUserId: userId,
+					amountMicro,
+					description: description || `Withdrawal to ${toAddress}`,
+					txHash,
+					externalAddress: toAddress,
+					status,
+					metadata: metadata ? JSON.stringify(metadata) : undefined,
+				},
+				LedgerService.move(userId, EXTERNAL_ACCOUNT_ID, amountMicro),
+				userId,
+			);
 
-			// Record transaction
-			const transactionId = await LedgerService.recordTransaction({
-				transactionType: TransactionType.WITHDRAWAL,
-				fromUserId: userId,
-				amount,
-				balanceAfter: newBalance,
-				description: description || `Withdrawal to ${toAddress}`,
-				txHash,
-				externalAddress: toAddress,
-				status,
-			});
+			const newBalance = DenomService.fromBaseUnits(
+				balances.get(userId) ?? 0,
+				denom,
+			);
 
 			logger.info("Withdrawal processed", {
 				userId,
 				amount,
+				denom,
 				newBalance,
 				toAddress,
 				txHash,
@@ -291,69 +564,119 @@ export class LedgerService {
 
 			return { success: true, newBalance, transactionId };
 		} catch (error) {
-			logger.error("Failed to process withdrawal", { userId, amount, error });
+			logger.error("Failed to process withdrawal", {
+				userId,
+				amount,
+				denom,
+				error,
+			});
 			return {
 				success: false,
-				newBalance: await LedgerService.getUserBalance(userId),
+				newBalance: LedgerService.balanceOf(userId, denom),
 				error: error instanceof Error ? error.message : "Unknown error",
 			};
 		}
 	}
 
+	/**
+	 * Record a withdrawal that was refused before any funds moved.
+	 * Stored as a failed withdrawal so the refusal stays in the audit trail;
+	 * balances are not touched.
+	 *
+	 * @param metadata - Stored as JSON on the transaction (e.g. the withdrawal policy decision)
+	 * @param denom - Asset of the withdrawal (defaults to JUNO)
+	 * @returns ID of the recorded transaction
+	 */
+	static recordRefusedWithdrawal(
+		userId: number,
+		amount: number,
+		toAddress: string,
+		reason: string,
+		metadata?: Record<string, unknown>,
+		denom: string = DEFAULT_DENOM,
+	): number {
+		return LedgerService.recordTransaction({
+			transactionType: TransactionType.WITHDRAWAL,
+			denom,
+			fromUserId: userId,
+			amountMicro: DenomService.toBaseUnits(amount, denom),
+			balanceAfterMicro: LedgerService.getUserBalanceMicro(userId, denom),
+			description: `Withdrawal refused: ${reason}`,
+			externalAddress: toAddress,
+			status: TransactionStatus.FAILED,
+			metadata: metadata ? JSON.stringify(metadata) : undefined,
+		});
+	}
+
 	/**
 	 * Transfer tokens between users (internal ledger only)
+	 *
+	 * @param options - Type to record instead of TRANSFER, the parent transaction and the denom
 	 */
-	static async transferBetweenUsers(
+	static transferBetweenUsers(
 		fromUserId: number,
 		toUserId: number,
 		amount: number,
 		description?: string,
-	): Promise<{
+		options: TransferOptions = {},
+	): {
 		success: boolean;
 		fromBalance: number;
 		toBalance: number;
+		transactionId?: number;
 		error?: string;
-	}> {
+	} {
+		const denom = options.denom ?? DEFAULT_DENOM;
 		try {
+			const amountMicro = DenomService.toBaseUnits(amount, denom);
+
 			// Ensure both users have balance entries
-			await LedgerService.ensureUserBalance(fromUserId);
-			await LedgerService.ensureUserBalance(toUserId);
+			LedgerService.ensureUserBalance(fromUserId);
+			LedgerService.ensureUserBalance(toUserId);
 
 			// Check sender balance
-			const fromBalance = await LedgerService.getUserBalance(fromUserId);
-			if (fromBalance < amount) {
+			const fromBalanceMicro = LedgerService.getUserBalanceMicro(
+				fromUserId,
+				denom,
+			);
+			if (fromBalanceMicro < amountMicro) {
 				return {
 					success: false,
-					fromBalance,
-					toBalance: await LedgerService.getUserBalance(toUserId),
+					fromBalance: DenomService.fromBaseUnits(fromBalanceMicro, denom),
+					toBalance: LedgerService.balanceOf(toUserId, denom),
 					error: "Insufficient balance",
 				};
 			}
 
-			const toBalance = await LedgerService.getUserBalance(toUserId);
-
-			// Update balances using precise arithmetic
-			const newFromBalance = AmountPrecision.subtract(fromBalance, amount);
-			const newToBalance = AmountPrecision.add(toBalance, amount);
-
-			await LedgerService.updateBalance(fromUserId, newFromBalance);
-			await LedgerService.updateBalance(toUserId, newToBalance);
-
-			// Record transaction
-			await LedgerService.recordTransaction({
-				transactionType: TransactionType.TRANSFER,
+			const { transactionId, balances } = LedgerService.postEntry(
+				{
+					transactionType: options.type || TransactionType.TRANSFER,
+					denom,
+					fromUserId,
+					toUserId,
+					amountMicro,
+					description: description || `Transfer to user ${toUserId}`,
+					status: TransactionStatus.COMPLETED,
+					parentTransactionId: options.parentTransactionId,
+				},
+				LedgerService.move(fromUserId, toUserId, amountMicro),
 				fromUserId,
-				toUserId,
-				amount,
-				balanceAfter: newFromBalance,
-				description: description || `Transfer to user ${toUserId}`,
-				status: TransactionStatus.COMPLETED,
-			});
+			);
+
+			const newFromBalance = DenomService.fromBaseUnits(
+				balances.get(fromUserId) ?? 0,
+				denom,
+			);
+			const newToBalance = DenomService.fromBaseUnits(
+				balances.get(toUserId) ?? 0,
+				denom,
+			);
 
 			logger.info("Internal transfer completed", {
 				fromUserId,
 				toUserId,
 				amount,
+				denom,
 				newFromBalance,
 				newToBalance,
 			});
@@ -362,18 +685,20 @@ export class LedgerService {
 				success: true,
 				fromBalance: newFromBalance,
 				toBalance: newToBalance,
+				transactionId,
 			};
 		} catch (error) {
 			logger.error("Failed to process transfer", {
 				fromUserId,
 				toUserId,
 				amount,
+				denom,
 				error,
 			});
 			return {
 				success: false,
-				fromBalance: await LedgerService.getUserBalance(fromUserId),
-				toBalance: await LedgerService.getUserBalance(toUserId),
+				fromBalance: LedgerService.balanceOf(fromUserId, denom),
+				toBalance: LedgerService.balanceOf(toUserId, denom),
 				error: error instanceof Error ? error.message : "Unknown error",
 			};
 		}
@@ -382,40 +707,43 @@ export class LedgerService {
 	/**
 	 * Process a fine payment
 	 */
-	static async processFine(
+	static processFine(
 		userId: number,
 		amount: number,
 		violationId?: number,
 		description?: string,
-	): Promise<{ success: boolean; newBalance: number; error?: string }> {
+	): { success: boolean; newBalance: number; error?: string } {
 		try {
+			const amountMicro = AmountPrecision.toMicroJuno(amount);
+
 			// Check balance
-			const currentBalance = await LedgerService.getUserBalance(userId);
-			if (currentBalance < amount) {
+			const currentBalanceMicro = LedgerService.getUserBalanceMicro(userId);
+			if (currentBalanceMicro < amountMicro) {
 				return {
 					success: false,
-					newBalance: currentBalance,
+					newBalance: AmountPrecision.fromMicroJuno(currentBalanceMicro),
 					error: "Insufficient balance for fine payment",
 				};
 			}
 
-			const newBalance = AmountPrecision.subtract(currentBalance, amount);
-
-			// Update balance
-			await LedgerService.updateBalance(userId, newBalance);
+			const { balances } = LedgerService.postEntry(
+				{
+					transactionType: TransactionType.FINE,
+					fromUserId: userId,
+					amountMicro,
+					description:
+						description ||
+						`Fine payment${violationId ? ` for violation #${violationId}` : ""}`,
+					status: TransactionStatus.COMPLETED,
+					metadata: violationId ? JSON.stringify({ violationId }) : undefined,
+				},
+				LedgerService.move(userId, EXTERNAL_ACCOUNT_ID, amountMicro),
+				userId,
+			);
 
-			// Record transaction
-			await LedgerService.recordTransaction({
-				transactionType: TransactionType.FINE,
-				fromUserId: userId,
-				amount,
-				balanceAfter: newBalance,
-				description:
-					description ||
-					`Fine payment${violationId ? ` for violation #${violationId}` : ""}`,
-				status: TransactionStatus.COMPLETED,
-				metadata: violationId ? JSON.stringify({ violationId }) : undefined,
-			});
+			const newBalance = AmountPrecision.fromMicroJuno(
+				balances.get(userId) ?? 0,
+			);
 
 			logger.info("Fine processed", {
 				userId,
@@ -429,7 +757,7 @@ export class LedgerService {
 			logger.error("Failed to process fine", { userId, amount, error });
 			return {
 				success: false,
-				newBalance: await LedgerService.getUserBalance(userId),
+				newBalance: LedgerService.balanceOf(userId),
 				error: error instanceof Error ? error.message : "Unknown error",
 			};
 		}
@@ -438,38 +766,42 @@ export class LedgerService {
 	/**
 	 * Process a bail payment
 	 */
-	static async processBail(
+	static processBail(
 		paidByUserId: number,
 		bailedUserId: number,
 		amount: number,
 		description?: string,
-	): Promise<{ success: boolean; newBalance: number; error?: string }> {
+	): { success: boolean; newBalance: number; error?: string } {
 		try {
+			const amountMicro = AmountPrecision.toMicroJuno(amount);
+
 			// Check payer balance
-			const payerBalance = await LedgerService.getUserBalance(paidByUserId);
-			if (payerBalance < amount) {
+			const payerBalanceMicro = LedgerService.getUserBalanceMicro(paidByUserId);
+			if (payerBalanceMicro < amountMicro) {
 				return {
 					success: false,
-					newBalance: payerBalance,
+					newBalance: AmountPrecision.fromMicroJuno(payerBalanceMicro),
 					error: "Insufficient balance for bail payment",
 				};
 			}
 
-			const newBalance = AmountPrecision.subtract(payerBalance, amount);
-
-			// Update payer balance
-			await LedgerService.updateBalance(paidByUserId, newBalance);
+			// The bailed user is recorded for reference; the bail leaves the ledger
+			const { balances } = LedgerService.postEntry(
+				{
+					transactionType: TransactionType.BAIL,
+					fromUserId: paidByUserId,
+					toUserId: bailedUserId, // Track who was bailed
+					amountMicro,
+					description: description || `Bail payment for user ${bailedUserId}`,
+					status: TransactionStatus.COMPLETED,
+				},
+				LedgerService.move(paidByUserId, EXTERNAL_ACCOUNT_ID, amountMicro),
+				paidByUserId,
+			);
 
-			// Record transaction
-			await LedgerService.recordTransaction({
-				transactionType: TransactionType.BAIL,
-				fromUserId: paidByUserId,
-				toUserId: bailedUserId, // Track who was bailed
-				amount,
-				balanceAfter: newBalance,
-				description: description || `Bail payment for user ${bailedUserId}`,
-				status: TransactionStatus.COMPLETED,
-			});
+			const newBalance = AmountPrecision.fromMicroJuno(
+				balances.get(paidByUserId) ?? 0,
+			);
 
 			logger.info("Bail processed", {
 				paidByUserId,
@@ -488,7 +820,7 @@ export class LedgerService {
 			});
 			return {
 				success: false,
-				newBalance: await LedgerService.getUserBalance(paidByUserId),
+				newBalance: LedgerService.balanceOf(paidByUserId),
 				error: error instanceof Error ? error.message : "Unknown error",
 			};
 		}
@@ -497,28 +829,29 @@ export class LedgerService {
 	/**
 	 * Process a giveaway/airdrop
 	 */
-	static async processGiveaway(
+	static processGiveaway(
 		userId: number,
 		amount: number,
 		description?: string,
-	): Promise<{ success: boolean; newBalance: number }> {
+	): { success: boolean; newBalance: number } {
 		try {
-			await LedgerService.ensureUserBalance(userId);
-			const currentBalance = await LedgerService.getUserBalance(userId);
-			const newBalance = AmountPrecision.add(currentBalance, amount);
-
-			// Update balance
-			await LedgerService.updateBalance(userId, newBalance);
+			const amountMicro = AmountPrecision.toMicroJuno(amount);
+
+			const { balances } = LedgerService.postEntry(
+				{
+					transactionType: TransactionType.GIVEAWAY,
+					toUserId: userId,
+					amountMicro,
+					description: description || "Giveaway/Airdrop",
+					status: TransactionStatus.COMPLETED,
+				},
+				LedgerService.move(EXTERNAL_ACCOUNT_ID, userId, amountMicro),
+				userId,
+			);
 
-			// Record transaction
-			await LedgerService.recordTransaction({
-				transactionType: TransactionType.GIVEAWAY,
-				toUserId: userId,
-				amount,
-				balanceAfter: newBalance,
-				description: description || "Giveaway/Airdrop",
-				status: TransactionStatus.COMPLETED,
-			});
+			const newBalance = AmountPrecision.fromMicroJuno(
+				balances.get(userId) ?? 0,
+			);
 
 			logger.info("Giveaway processed", {
 				userId,
@@ -531,11 +864,89 @@ export class LedgerService {
 			logger.error("Failed to process giveaway", { userId, amount, error });
 			return {
 				success: false,
-				newBalance: await LedgerService.getUserBalance(userId),
+				newBalance: LedgerService.balanceOf(userId),
 			};
 		}
 	}
 
+	/**
+	 * Credit a user with funds returned from a failed operation.
+	 * The refund is made in the denom of the failed transaction.
+	 *
+	 * @param parentTransactionId - The failed transaction being refunded
+	 */
+	static processRefund(
+		userId: number,
+		amount: number,
+		parentTransactionId: number,
+		description?: string,
+	): { success: boolean; newBalance: number; transactionId?: number } {
+		const denom =
+			get<{ denom: string }>("SELECT denom FROM transactions WHERE id = ?", [
+				parentTransactionId,
+			])?.denom ?? DEFAULT_DENOM;
+		try {
+			const amountMicro = DenomService.toBaseUnits(amount, denom);
+
+			const { transactionId, balances } = LedgerService.postEntry(
+				{
+					transactionType: TransactionType.REFUND,
+					denom,
+					toUserId: userId,
+					amountMicro,
+					description:
+						description || `Refund of transaction #${parentTransactionId}`,
+					status: TransactionStatus.COMPLETED,
+					parentTransactionId,
+				},
+				LedgerService.move(EXTERNAL_ACCOUNT_ID, userId, amountMicro),
+				userId,
+			);
+
+			const newBalance = DenomService.fromBaseUnits(
+				balances.get(userId) ?? 0,
+				denom,
+			);
+
+			logger.info("Refund processed", {
+				userId,
+				amount,
+				denom,
+				newBalance,
+				parentTransactionId,
+			});
+
+			return { success: true, newBalance, transactionId };
+		} catch (error) {
+			logger.error("Failed to process refund", {
+				userId,
+				amount,
+				parentTransactionId,
+				error,
+			});
+			return {
+				success: false,
+				newBalance: LedgerService.balanceOf(userId, denom),
+			};
+		}
+	}
+
+	/**
+	 * Find the transaction that funded an escrow account, so releases from it
+	 * can be linked back to the lock.
+	 *
+	 * @param escrowUserId - Escrow account ID
+	 * @returns ID of the first escrow lock into the account, if any
+	 */
+	static getEscrowLockId(escrowUserId: number): number | undefined {
+		return get<{ id: number }>(
+			`SELECT id FROM transactions
+       WHERE transaction_type = ? AND to_user_id = ?
+       ORDER BY id LIMIT 1`,
+			[TransactionType.ESCROW_LOCK, escrowUserId],
+		)?.id;
+	}
+
 	/**
 	 * Get transaction history for a user
 	 */
@@ -543,24 +954,24 @@ export class LedgerService {
 		userId: number,
 		limit: number = 10,
 		offset: number = 0,
-	): Promise<Transaction[]> {
-		return query<Transaction>(
+	): Promise<LedgerTransactionRow[]> {
+		return query<Omit<LedgerTransactionRow, "amount" | "balance_after">>(
 			`SELECT * FROM transactions
        WHERE from_user_id = ? OR to_user_id = ?
        ORDER BY created_at DESC
        LIMIT ? OFFSET ?`,
 			[userId, userId, limit, offset],
-		);
+		).map(toLedgerTransactionRow);
 	}
 
 	/**
 	 * Update transaction status (e.g., after blockchain confirmation)
 	 */
-	static async updateTransactionStatus(
+	static updateTransactionStatus(
 		transactionId: number,
 		status: TransactionStatus,
 		txHash?: string,
-	): Promise<void> {
+	): void {
 		const updates: string[] = ["status = ?"];
 		const params: any[] = [status];
 
@@ -597,8 +1008,18 @@ export class LedgerService {
 	 * Get total balance across all users (for reconciliation)
 	 */
 	static async getTotalUserBalance(): Promise<number> {
-		const result = get<{ total: number }>(
-			"SELECT SUM(balance) as total FROM user_balances",
+		return AmountPrecision.fromMicroJuno(
+			LedgerService.getTotalUserBalanceMicro(),
+		);
+	}
+
+	/**
+	 * Get total balance across all users in base units (ujuno for JUNO, exact integer)
+	 */
+	static getTotalUserBalanceMicro(denom: string = DEFAULT_DENOM): number {
+		const result = get<{ total: number | null }>(
+			"SELECT SUM(balance_ujuno) as total FROM user_balances WHERE denom = ?",
+			[denom],
 		);
 		return result?.total || 0;
 	}
@@ -606,6 +1027,15 @@ export class LedgerService {
 	/** Get on-chain balance of system wallets */
 	static async getSysBalance(
 		walletType: "treasury" | "user_funds",
+	): Promise<number> {
+		return AmountPrecision.fromMicroJuno(
+			await LedgerService.getSysBalanceMicro(walletType),
+		);
+	}
+
+	/** Get on-chain balance of system wallets in ujuno (exact integer) */
+	static async getSysBalanceMicro(
+		walletType: "treasury" | "user_funds",
 	): Promise<number> {
 		const address =
 			walletType === "treasury"
@@ -632,7 +1062,8 @@ export class LedgerService {
 			const data = (await response.json()) as any;
 			const junoBalance = data.balances?.find((b: any) => b.denom === "ujuno");
 
-			return junoBalance ? parseFloat(junoBalance.amount) / 1_000_000 : 0;
+			// Bank amounts are integer strings in ujuno
+			return junoBalance ? Number.parseInt(junoBalance.amount, 10) : 0;
 		} catch (error) {
 			logger.error(`Error querying ${walletType} wallet balance`, { error });
 			return 0;
@@ -640,7 +1071,16 @@ export class LedgerService {
 	}
 
 	/**
-	 * Reconcile internal ledger with on-chain balances
+	 * Result of the most recent reconciliation, or null if none ran yet.
+	 * Exposed through /metrics without querying the chain on every scrape.
+	 */
+	static getLastReconciliation(): ReconciliationSnapshot | null {
+		return LedgerService.lastReconciliation;
+	}
+
+	/**
+	 * Reconcile internal ledger with on-chain balances.
+	 * Both sides are compared in integer ujuno, so any difference is a real discrepancy.
 	 */
 	static async reconcileBalances(): Promise<{
 		internalTotal: number;
@@ -648,22 +1088,32 @@ export class LedgerService {
 		difference: number;
 		matched: boolean;
 	}> {
-		const internalTotal = await LedgerService.getTotalUserBalance();
-		const onChainBalance = await LedgerService.getSysBalance("treasury");
+		const internalMicro = LedgerService.getTotalUserBalanceMicro();
+		const onChainMicro = await LedgerService.getSysBalanceMicro("treasury");
+		const differenceMicro = Math.abs(internalMicro - onChainMicro);
 
-		const difference = Math.abs(internalTotal - onChainBalance);
-		const matched = difference < 0.000001; // Allow for minor rounding differences
+		const internalTotal = AmountPrecision.fromMicroJuno(internalMicro);
+		const onChainTotal = AmountPrecision.fromMicroJuno(onChainMicro);
+		const difference = AmountPrecision.fromMicroJuno(differenceMicro);
+		const matched = differenceMicro === 0;
 
 		logger.info("Balance reconciliation", {
 			internalTotal,
-			onChainTotal: onChainBalance,
+			onChainTotal,
 			difference,
 			matched,
 		});
+		LedgerService.lastReconciliation = {
+			internalTotal,
+			onChainTotal,
+			difference,
+			matched,
+			checkedAt: Math.floor(Date.now() / 1000),
+		};
 
 		return {
 			internalTotal,
-			onChainTotal: onChainBalance,
+			onChainTotal,
 			difference,
 			matched,
 		};
@@ -671,8 +1121,10 @@ export class LedgerService {
 
 	/**
 	 * Reconcile balances and alert admins if mismatch detected
-	 * Note: Only logs warnings, does not send admin alerts to avoid spam
+	 * Note: Small mismatches are only logged to avoid spam
 	 * Admins should use /reconcile or /walletstats commands to manually check
+	 * A mismatch above config.reconcilePauseThreshold pauses withdrawals
+	 * (see MaintenanceService) and publishes reconciliation.mismatch once
 	 */
 	static async reconcileAndAlert(): Promise<{
 		internalTotal: number;
@@ -691,6 +1143,24 @@ export class LedgerService {
 			});
 		}
 
+		const threshold = config.reconcilePauseThreshold;
+		if (!result.matched && threshold > 0 && result.difference > threshold) {
+			const paused = MaintenanceService.pause(
+				["withdrawals"],
+				"balance reconciliation mismatch",
+				null,
+			);
+			if (paused.length > 0) {
+				await EventBus.publish("reconciliation.mismatch", {
+					internalTotal: result.internalTotal,
+					onChainTotal: result.onChainTotal,
+					difference: result.difference,
+					paused,
+					timestamp: Math.floor(Date.now() / 1000),
+				});
+			}
+		}
+
 		return result;
 	}
 
@@ -702,45 +1172,56 @@ export class LedgerService {
 	 * @param userId - Target user ID (usually SYSTEM_RESERVE = -2)
 	 * @param amount - Positive to credit, negative to debit
 	 * @param description - Reason for adjustment
+	 * @param options - GAS_FEE for on-chain fees, and the transaction that caused them
 	 */
-	static async processAdjustment(
+	static processAdjustment(
 		userId: number,
 		amount: number,
 		description: string,
-	): Promise<{ success: boolean; newBalance: number }> {
+		options: {
+			type?: TransactionType.ADJUSTMENT | TransactionType.GAS_FEE;
+			parentTransactionId?: number;
+		} = {},
+	): { success: boolean; newBalance: number } {
 		try {
-			await LedgerService.ensureUserBalance(userId);
-			const currentBalance = await LedgerService.getUserBalance(userId);
-			// Use add for both positive and negative amounts (add handles negative via sanitize)
-			const newBalance =
-				amount >= 0
-					? AmountPrecision.add(currentBalance, amount)
-					: AmountPrecision.subtract(currentBalance, Math.abs(amount));
-
-			// Update balance (can go negative for SYSTEM_RESERVE to represent deficit)
-			await LedgerService.updateBalance(userId, newBalance);
-
-			// Record transaction with special adjustment type
-			await LedgerService.recordTransaction({
-				transactionType:
-					amount >= 0 ? TransactionType.GIVEAWAY : TransactionType.FINE,
-				fromUserId: amount < 0 ? userId : undefined,
-				toUserId: amount >= 0 ? userId : undefined,
-				amount: Math.abs(amount),
-				balanceAfter: newBalance,
-				description,
-				status: TransactionStatus.COMPLETED,
-				metadata: JSON.stringify({
-					type: "reconciliation_adjustment",
-					direction: amount >= 0 ? "credit" : "debit",
-					previousBalance: currentBalance,
-				}),
-			});
+			const amountMicro = AmountPrecision.toMicroJuno(amount);
+
+			const previousBalance = AmountPrecision.fromMicroJuno(
+				LedgerService.getUserBalanceMicro(userId),
+			);
+
+			// Can go negative for SYSTEM_RESERVE to represent deficit
+			const type = options.type || TransactionType.ADJUSTMENT;
+			const { balances } = LedgerService.postEntry(
+				{
+					transactionType: type,
+					fromUserId: amountMicro < 0 ? userId : undefined,
+					toUserId: amountMicro >= 0 ? userId : undefined,
+					amountMicro: Math.abs(amountMicro),
+					description,
+					status: TransactionStatus.COMPLETED,
+					metadata: JSON.stringify({
+						type:
+							type === TransactionType.ADJUSTMENT
+								? "reconciliation_adjustment"
+								: type,
+						direction: amountMicro >= 0 ? "credit" : "debit",
+						previousBalance,
+					}),
+					parentTransactionId: options.parentTransactionId,
+				},
+				LedgerService.move(EXTERNAL_ACCOUNT_ID, userId, amountMicro),
+				userId,
+			);
+
+			const newBalance = AmountPrecision.fromMicroJuno(
+				balances.get(userId) ?? 0,
+			);
 
 			logger.info("Balance adjustment processed", {
 				userId,
 				amount,
-				previousBalance: currentBalance,
+				previousBalance,
 				newBalance,
 				description,
 			});
@@ -750,7 +1231,7 @@ export class LedgerService {
 			logger.error("Failed to process adjustment", { userId, amount, error });
 			return {
 				success: false,
-				newBalance: await LedgerService.getUserBalance(userId),
+				newBalance: LedgerService.balanceOf(userId),
 			};
 		}
 	}
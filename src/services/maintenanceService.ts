@@ -0,0 +1,185 @@
+/**
+ * Maintenance mode service for the CAC Admin Bot.
+ * Bot-wide financial kill switches that owners (or the reconciliation job)
+ * can flip without stopping the bot:
+ * - deposits: on-chain deposits are not credited (they are picked up after resuming)
+ * - withdrawals: no withdrawals are accepted and the queue stops signing new ones
+ * - transfers: internal transfers, fine and bail payments and treasury moves
+ * - gambling: rolls and duels
+ * - giveaways: creating, claiming and cancelling giveaways
+ *
+ * Switches are stored in system_state so they survive restarts.
+ *
+ * @module services/maintenanceService
+ */
+
+import { execute, get } from "../database";
+import { StructuredLogger } from "../utils/logger";
+
+/**
+ * A part of the bot that can be paused on its own.
+ */
+export type MaintenanceSwitch =
+	| "deposits"
+	| "withdrawals"
+	| "transfers"
+	| "gambling"
+	| "giveaways";
+
+/** Every switch, in display order */
+export const MAINTENANCE_SWITCHES: MaintenanceSwitch[] = [
+	"deposits",
+	"withdrawals",
+	"transfers",
+	"gambling",
+	"giveaways",
+];
+
+/** What each switch covers, as shown to users */
+export const MAINTENANCE_LABELS: Record<MaintenanceSwitch, string> = {
+	deposits: "Deposit crediting",
+	withdrawals: "Withdrawals",
+	transfers: "Transfers and payments",
+	gambling: "Gambling and duels",
+	giveaways: "Giveaways",
+};
+
+/**
+ * Why and since when a switch is paused.
+ */
+export interface MaintenancePause {
+	reason: string;
+	/** Unix timestamp the pause started */
+	pausedAt: number;
+	/** Owner who paused it, or null when tripped automatically */
+	pausedBy: number | null;
+}
+
+/**
+ * Paused switches; a switch that is absent is running.
+ */
+export type MaintenanceState = Partial<
+	Record<MaintenanceSwitch, MaintenancePause>
+>;
+
+// system_state key holding the JSON encoded MaintenanceState
+const STATE_KEY = "maintenance_mode";
+
+/**
+ * Service for the financial kill switches.
+ */
+export class MaintenanceService {
+	/**
+	 * Gets every paused switch.
+	 */
+	static getState(): MaintenanceState {
+		const row = get<{ value: string }>(
+			"SELECT value FROM system_state WHERE key = ?",
+			[STATE_KEY],
+		);
+		return row ? (JSON.parse(row.value) as MaintenanceState) : {};
+	}
+
+	/**
+	 * Gets the pause of a switch.
+	 *
+	 * @param name - Switch to check
+	 * @returns The pause, or undefined if the switch is running
+	 */
+	static getPause(name: MaintenanceSwitch): MaintenancePause | undefined {
+		return MaintenanceService.getState()[name];
+	}
+
+	/**
+	 * Checks whether a switch is paused.
+	 *
+	 * @param name - Switch to check
+	 */
+	static isPaused(name: MaintenanceSwitch): boolean {
+		return MaintenanceService.getPause(name) !== undefined;
+	}
+
+	/**
+	 * Pauses switches. Switches that are already paused keep their original
+	 * reason and start time.
+	 *
+	 * @param names - Switches to pause
+	 * @param reason - Shown to users hitting a paused command
+	 * @param pausedBy - Owner pausing them, or null for automatic pauses
+	 * @returns The switches that were newly paused
+	 */
+	static pause(
+		names: MaintenanceSwitch[],
+		reason: string,
+		pausedBy: number | null,
+	): MaintenanceSwitch[] {
+		const state = MaintenanceService.getState();
+		const paused = names.filter((name) => !state[name]);
+		if (paused.length === 0) return [];
+
+		const pausedAt = Math.floor(Date.now() / 1000);
+		for (const name of paused) {
+			state[name] = { reason, pausedAt, pausedBy };
+		}
+		MaintenanceService.saveState(state);
+
+		StructuredLogger.logSecurityEvent("Maintenance mode enabled", {
+			userId: pausedBy ?? undefined,
+			operation: "maintenance_on",
+			switches: paused.join(","),
+			reason,
+		});
+		return paused;
+	}
+
+	/**
+	 * Resumes switches.
+	 *
+	 * @param names - Switches to resume
+	 * @param resumedBy - Owner resuming them
+	 * @returns The switches that were paused before
+	 */
+	static resume(
+		names: MaintenanceSwitch[],
+		resumedBy: number,
+	): MaintenanceSwitch[] {
+		const state = MaintenanceService.getState();
+		const resumed = names.filter((name) => state[name]);
+		if (resumed.length === 0) return [];
+
+		for (const name of resumed) {
+			delete state[name];
+		}
+		MaintenanceService.saveState(state);
+
+		StructuredLogger.logSecurityEvent("Maintenance mode disabled", {
+			userId: resumedBy,
+			operation: "maintenance_off",
+			switches: resumed.join(","),
+		});
+		return resumed;
+	}
+
+	/**
+	 * Message shown to users when a paused switch blocks them.
+	 *
+	 * @param name - The paused switch
+	 * @param pause - Its pause
+	 */
+	static formatBlockedMessage(
+		name: MaintenanceSwitch,
+		pause: MaintenancePause,
+	): string {
+		return `${MAINTENANCE_LABELS[name]} paused for maintenance: ${pause.reason}. Your funds are safe; please try again later.`;
+	}
+
+	private static saveState(state: MaintenanceState): void {
+		const json = JSON.stringify(state);
+		execute(
+			`INSERT INTO system_state (key, value, updated_at)
+       VALUES (?, ?, strftime('%s', 'now'))
+       ON CONFLICT(key) DO UPDATE SET value = ?, updated_at = strftime('%s', 'now')`,
+			[STATE_KEY, json, json],
+		);
+	}
+}
@@ -0,0 +1,330 @@
+/**
+ * Metrics service module.
+ * Collects runtime metrics (command latency, Telegram update activity,
+ * events published on the event bus) and renders them together with ledger and moderation gauges read from the
+ * database in the Prometheus text exposition format.
+ *
+ * @module services/metricsService
+ */
+
+import { get, query } from "../database";
+import { LedgerService } from "./ledgerService";
+
+/** Upper bounds (seconds) of the command latency histogram buckets */
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+// Commands beyond this many distinct names are counted as "other",
+// so users typing random /commands cannot blow up label cardinality
+const MAX_COMMAND_LABELS = 100;
+
+interface Histogram {
+	/** Observations per bucket (not cumulative), plus +Inf at the end */
+	buckets: number[];
+	sum: number;
+	count: number;
+}
+
+/**
+ * Prometheus text format writer.
+ */
+class MetricsWriter {
+	private lines: string[] = [];
+
+	metric(
+		name: string,
+		type: "gauge" | "counter" | "histogram",
+		help: string,
+	): this {
+		this.lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+		return this;
+	}
+
+	sample(name: string, value: number, labels: Record<string, string> = {}) {
+		const entries = Object.entries(labels);
+		const labelText =
+			entries.length > 0
+				? `{${entries.map(([k, v]) => `${k}="${v.replace(/["\\\n]/g, "_")}"`).join(",")}}`
+				: "";
+		this.lines.push(`${name}${labelText} ${value}`);
+		return this;
+	}
+
+	toString(): string {
+		return `${this.lines.join("\n")}\n`;
+	}
+}
+
+/**
+ * Service class for Prometheus metrics.
+ */
+export class MetricsService {
+	private static commandLatency = new Map<string, Histogram>();
+	private static lastUpdateAt: number | null = null;
+	private static eventCounts = new Map<string, number>();
+
+	/**
+	 * Records how long a command took to handle.
+	 *
+	 * @param command - Command name without the leading slash
+	 * @param seconds - Handling time in seconds
+	 */
+	static observeCommand(command: string, seconds: number): void {
+		let name = command.toLowerCase();
+		if (
+			!/^[a-z0-9_]{1,32}$/.test(name) ||
+			(!MetricsService.commandLatency.has(name) &&
+				MetricsService.commandLatency.size >= MAX_COMMAND_LABELS)
+		) {
+			name = "other";
+		}
+
+		let histogram = MetricsService.commandLatency.get(name);
+		if (!histogram) {
+			histogram = {
+				buckets: new Array(LATENCY_BUCKETS.length + 1).fill(0),
+				sum: 0,
+				count: 0,
+			};
+			MetricsService.commandLatency.set(name, histogram);
+		}
+
+		const bucket = LATENCY_BUCKETS.findIndex((le) => seconds <= le);
+		histogram.buckets[bucket === -1 ? LATENCY_BUCKETS.length : bucket]++;
+		histogram.sum += seconds;
+		histogram.count++;
+	}
+
+	/**
+	 * Records that an update was received from Telegram.
+	 */
+	static recordUpdate(now = Date.now()): void {
+		MetricsService.lastUpdateAt = now;
+	}
+
+	/**
+	 * Counts an event published on the event bus.
+	 *
+	 * @param event - Event name, e.g. user.jailed
+	 */
+	static countEvent(event: string): void {
+		MetricsService.eventCounts.set(
+			event,
+			(MetricsService.eventCounts.get(event) ?? 0) + 1,
+		);
+	}
+
+	/**
+	 * Time of the last update received from Telegram (ms), or null if none yet.
+	 */
+	static getLastUpdateAt(): number | null {
+		return MetricsService.lastUpdateAt;
+	}
+
+	/**
+	 * Renders every metric in the Prometheus text exposition format.
+	 *
+	 * @returns Metrics text for the /metrics endpoint
+	 */
+	static render(): string {
+		const out = new MetricsWriter();
+		const now = Math.floor(Date.now() / 1000);
+
+		// Ledger
+		out
+			.metric(
+				"cacbot_ledger_balance_ujuno",
+				"gauge",
+				"Sum of all internal ledger balances in ujuno",
+			)
+			.sample(
+				"cacbot_ledger_balance_ujuno",
+				LedgerService.getTotalUserBalanceMicro(),
+			);
+
+		const transactions = query<{
+			transaction_type: string;
+			status: string;
+			count: number;
+			total: number;
+		}>(
+			`SELECT transaction_type, COALESCE(status, 'completed') as status,
+         COUNT(*) as count, COALESCE(SUM(amount_ujuno), 0) as total
+       FROM transactions GROUP BY transaction_type, status`,
+		);
+		out.metric(
+			"cacbot_ledger_transactions_total",
+			"counter",
+			"Ledger transactions by type and status",
+		);
+		for (const row of transactions) {
+			out.sample("cacbot_ledger_transactions_total", row.count, {
+				type: row.transaction_type,
+				status: row.status,
+			});
+		}
+		out.metric(
+			"cacbot_ledger_volume_ujuno_total",
+			"counter",
+			"Ledger transaction volume in ujuno by type and status",
+		);
+		for (const row of transactions) {
+			out.sample("cacbot_ledger_volume_ujuno_total", row.total, {
+				type: row.transaction_type,
+				status: row.status,
+			});
+		}
+
+		const reconciliation = LedgerService.getLastReconciliation();
+		if (reconciliation) {
+			out
+				.metric(
+					"cacbot_reconciliation_difference_juno",
+					"gauge",
+					"Absolute difference between internal ledger and on-chain balance at the last reconciliation",
+				)
+				.sample(
+					"cacbot_reconciliation_difference_juno",
+					reconciliation.difference,
+				)
+				.metric(
+					"cacbot_reconciliation_matched",
+					"gauge",
+					"1 if the last reconciliation matched exactly",
+				)
+				.sample("cacbot_reconciliation_matched", reconciliation.matched ? 1 : 0)
+				.metric(
+					"cacbot_reconciliation_timestamp_seconds",
+					"gauge",
+					"Unix time of the last reconciliation",
+				)
+				.sample(
+					"cacbot_reconciliation_timestamp_seconds",
+					reconciliation.checkedAt,
+				);
+		}
+
+		const pending = get<{ count: number; total: number }>(
+			`SELECT COUNT(*) as count, COALESCE(SUM(amount_ujuno), 0) as total
+       FROM withdrawal_requests WHERE status NOT IN ('confirmed', 'failed')`,
+		);
+		out
+			.metric(
+				"cacbot_pending_withdrawals",
+				"gauge",
+				"Withdrawals not yet confirmed on chain",
+			)
+			.sample("cacbot_pending_withdrawals", pending?.count || 0)
+			.metric(
+				"cacbot_pending_withdrawals_ujuno",
+				"gauge",
+				"Amount of pending withdrawals in ujuno",
+			)
+			.sample("cacbot_pending_withdrawals_ujuno", pending?.total || 0);
+
+		const locks = get<{ count: number }>(
+			"SELECT COUNT(*) as count FROM transaction_locks",
+		);
+		out
+			.metric(
+				"cacbot_transaction_locks_active",
+				"gauge",
+				"Users currently holding a transaction lock",
+			)
+			.sample("cacbot_transaction_locks_active", locks?.count || 0);
+
+		// Moderation
+		const jails = get<{ count: number }>(
+			"SELECT COUNT(*) as count FROM user_jails WHERE muted_until > ?",
+			[now],
+		);
+		out
+			.metric(
+				"cacbot_jails_active",
+				"gauge",
+				"Active jails (per user and chat)",
+			)
+			.sample("cacbot_jails_active", jails?.count || 0);
+
+		// Games
+		const duels = query<{ status: string; count: number; wagered: number }>(
+			`SELECT status, COUNT(*) as count, COALESCE(SUM(wager_amount_ujuno), 0) as wagered
+       FROM duels GROUP BY status`,
+		);
+		out.metric("cacbot_duels_total", "counter", "Duels by status");
+		for (const row of duels) {
+			out.sample("cacbot_duels_total", row.count, { status: row.status });
+		}
+		out.metric(
+			"cacbot_duel_wagers_ujuno_total",
+			"counter",
+			"Duel wagers (per player) in ujuno by status",
+		);
+		for (const row of duels) {
+			out.sample("cacbot_duel_wagers_ujuno_total", row.wagered, {
+				status: row.status,
+			});
+		}
+
+		// Events
+		out.metric(
+			"cacbot_events_total",
+			"counter",
+			"Events published on the event bus since startup",
+		);
+		for (const [event, count] of MetricsService.eventCounts) {
+			out.sample("cacbot_events_total", count, { event });
+		}
+
+		// Telegram
+		if (MetricsService.lastUpdateAt !== null) {
+			out
+				.metric(
+					"cacbot_last_update_timestamp_seconds",
+					"gauge",
+					"Unix time of the last update received from Telegram",
+				)
+				.sample(
+					"cacbot_last_update_timestamp_seconds",
+					Math.floor(MetricsService.lastUpdateAt / 1000),
+				);
+		}
+
+		out.metric(
+			"cacbot_command_duration_seconds",
+			"histogram",
+			"Time taken to handle bot commands",
+		);
+		for (const [command, histogram] of MetricsService.commandLatency) {
+			let cumulative = 0;
+			LATENCY_BUCKETS.forEach((le, i) => {
+				cumulative += histogram.buckets[i];
+				out.sample("cacbot_command_duration_seconds_bucket", cumulative, {
+					command,
+					le: String(le),
+				});
+			});
+			out
+				.sample("cacbot_command_duration_seconds_bucket", histogram.count, {
+					command,
+					le: "+Inf",
+				})
+				.sample("cacbot_command_duration_seconds_sum", histogram.sum, {
+					command,
+				})
+				.sample("cacbot_command_duration_seconds_count", histogram.count, {
+					command,
+				});
+		}
+
+		return out.toString();
+	}
+
+	/**
+	 * Clears the collected runtime metrics.
+	 */
+	static reset(): void {
+		MetricsService.commandLatency.clear();
+		MetricsService.lastUpdateAt = null;
+		MetricsService.eventCounts.clear();
+	}
+}
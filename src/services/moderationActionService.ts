@@ -0,0 +1,648 @@
+/**
+ * Moderation action service for the CAC Admin Bot.
+ * Single implementation of the actions taken against a user: jail, unjail,
+ * mute, restrict, kick, ban and unban. Commands, rule enforcement, warning
+ * escalation, duels and bail payments all go through it, so every action:
+ *
+ * - Carries a typed source and reason
+ * - Applies the same permissions through the Telegram API, in one chat or
+ *   in every registered chat, and reports the chats it failed in
+ * - Is recorded in jail_events the same way
+ * - Is published on the event bus (user.jailed, user.banned...)
+ *
+ * Jail and unjail are idempotent: jailing a user who is already jailed at
+ * least as long in the same scope, or unjailing a user who is not jailed,
+ * changes nothing and records nothing (the Telegram permissions are applied
+ * again). Telegram-only actions rely on the API being idempotent.
+ *
+ * @module services/moderationActionService
+ */
+
+import type { Context, Telegraf, Telegram } from "telegraf";
+import type { ChatPermissions } from "telegraf/types";
+import type { JailEventType } from "../types";
+import { StructuredLogger } from "../utils/logger";
+import type { MessageRef } from "../utils/messageLink";
+import { ChatService } from "./chatService";
+import { type BotEventName, EventBus } from "./eventBus";
+import {
+	type ActiveJail,
+	JAILED_PERMISSIONS,
+	JailService,
+	RELEASED_PERMISSIONS,
+} from "./jailService";
+
+/**
+ * Actions the service can take.
+ */
+export type ModerationActionType =
+	| "jail"
+	| "unjail"
+	| "mute"
+	| "restrict"
+	| "kick"
+	| "ban"
+	| "unban";
+
+/**
+ * What triggered an action.
+ */
+export type ModerationSource =
+	| "command"
+	| "automod"
+	| "warnings"
+	| "duel"
+	| "payment"
+	| "screening"
+	| "scheduler"
+	| "appeal";
+
+/**
+ * Why an action was taken. Free-text reasons go in the request's note.
+ */
+export type ModerationReason =
+	| "manual"
+	| "custom_fine"
+	| "restriction_violation"
+	| "auto_spam_detection"
+	| "flood"
+	| "rule_escalation"
+	| "warning_escalation"
+	| "duel_loss"
+	| "blacklist"
+	| "captcha"
+	| "bail_paid"
+	| "fines_paid"
+	| "jail_expired"
+	| "appeal_reduced"
+	| "appeal_overturned";
+
+/**
+ * Fields shared by every action request.
+ */
+export interface ModerationRequest {
+	userId: number;
+	/** Chat to act in, or null for every registered chat */
+	chatId: number | null;
+	source: ModerationSource;
+	reason: ModerationReason;
+	/** Admin who took the action */
+	actorId?: number;
+	/** Free-text reason given by the actor */
+	note?: string;
+	/** Extra data recorded with the jail event */
+	metadata?: Record<string, unknown>;
+	/** Message the action was taken over */
+	origin?: MessageRef;
+	/** Telegram API to use, e.g. that of the update being handled; defaults to the bot's */
+	telegram?: Telegram;
+}
+
+export interface JailRequest extends ModerationRequest {
+	durationMinutes: number;
+	/** Bail in JUNO (default 0) */
+	bailAmount?: number;
+	/** Replace a longer jail in the same scope, to shorten it */
+	shorten?: boolean;
+}
+
+export interface UnjailRequest extends Omit<ModerationRequest, "chatId"> {
+	/**
+	 * Jail scope to release: a chat, null for the network-wide jail, or
+	 * undefined for every jail of the user
+	 */
+	chatId?: number | null;
+	/**
+	 * Chat to restore permissions in even if no jail was recorded there,
+	 * which lifts mutes applied in Telegram only
+	 */
+	restoreChatId?: number;
+	/** Bail paid in JUNO, for bail_paid */
+	bailAmount?: number;
+	paidByUserId?: number;
+	paymentTx?: string;
+}
+
+export interface MuteRequest extends ModerationRequest {
+	durationMinutes: number;
+}
+
+export interface RestrictRequest extends ModerationRequest {
+	permissions: ChatPermissions;
+	/** Omit for a restriction without expiry */
+	durationMinutes?: number;
+}
+
+export interface BanRequest extends ModerationRequest {
+	/** Omit for a permanent ban */
+	durationMinutes?: number;
+}
+
+/**
+ * Outcome of an action.
+ */
+export interface ModerationResult {
+	action: ModerationActionType;
+	userId: number;
+	chatId: number | null;
+	/** False when the user was already in the requested state */
+	changed: boolean;
+	/** Unix timestamp the action expires at */
+	until?: number;
+	/** Chats the Telegram API call succeeded in */
+	appliedChats: number[];
+	/** Chats the Telegram API call failed in */
+	failures: Array<{ chatId: number; error: string }>;
+}
+
+/**
+ * Published on the event bus after an action changed something.
+ */
+export interface ModerationActionEvent {
+	action: ModerationActionType;
+	userId: number;
+	chatId: number | null;
+	source: ModerationSource;
+	reason: ModerationReason;
+	actorId?: number;
+	note?: string;
+	durationMinutes?: number;
+	until?: number;
+	bailAmount?: number;
+	paidByUserId?: number;
+	paymentTx?: string;
+	metadata?: Record<string, unknown>;
+	origin?: MessageRef;
+	/** Jail event the action was recorded as */
+	jailEventId?: number;
+	timestamp: number;
+}
+
+/** Event published for each action */
+const ACTION_EVENTS: Record<ModerationActionType, BotEventName> = {
+	jail: "user.jailed",
+	unjail: "user.unjailed",
+	mute: "user.muted",
+	restrict: "user.restricted",
+	kick: "user.kicked",
+	ban: "user.banned",
+	unban: "user.unbanned",
+};
+
+/**
+ * Service for moderation actions against users.
+ */
+export class ModerationActionService {
+	private static bot: Telegraf<Context>;
+	/** Jail event recorded by releaseJails, for completeUnjail to publish */
+	private static releaseEvents = new WeakMap<ActiveJail[], number>();
+
+	/**
+	 * Initializes the service with the Telegraf bot instance.
+	 * Must be called during bot startup before any action is taken.
+	 *
+	 * @param bot - Telegraf bot instance for Telegram API access
+	 */
+	static initialize(bot: Telegraf<Context>): void {
+		ModerationActionService.bot = bot;
+	}
+
+	/**
+	 * Jails a user: records the jail, which can be bailed out of and is
+	 * lifted by releaseExpiredJails, and restricts the user in Telegram.
+	 * A jail in the same scope that lasts at least as long is kept as is,
+	 * unless the request shortens it.
+	 */
+	static async jail(request: JailRequest): Promise<ModerationResult> {
+		const now = Math.floor(Date.now() / 1000);
+		const requestedUntil = now + request.durationMinutes * 60;
+		const bailAmount = request.bailAmount ?? 0;
+
+		const existing = JailService.getScopeJailedUntil(
+			request.userId,
+			request.chatId,
+		);
+		const changed =
+			existing === null ||
+			existing < requestedUntil ||
+			(!!request.shorten && existing > requestedUntil);
+		const until = changed ? requestedUntil : existing;
+
+		let jailEventId: number | undefined;
+		if (changed) {
+			JailService.jailUser(request.userId, request.chatId, until);
+			jailEventId = ModerationActionService.record("jailed", request, {
+				durationMinutes: request.durationMinutes,
+				bailAmount,
+			});
+		}
+
+		const result = await ModerationActionService.applyInChats(
+			"jail",
+			request.userId,
+			request.chatId,
+			(chatId) =>
+				ModerationActionService.telegram(request).restrictChatMember(
+					chatId,
+					request.userId,
+					{ permissions: JAILED_PERMISSIONS, until_date: until },
+				),
+		);
+
+		if (changed) {
+			await ModerationActionService.emit("jail", request, {
+				durationMinutes: request.durationMinutes,
+				until,
+				bailAmount,
+				jailEventId,
+			});
+		}
+
+		return { ...result, changed, until };
+	}
+
+	/**
+	 * Releases a user's jails and restores their permissions. Bail and fine
+	 * payments, which release the jails inside their own transaction, use
+	 * releaseJails and completeUnjail instead.
+	 */
+	static async unjail(request: UnjailRequest): Promise<ModerationResult> {
+		const released = ModerationActionService.releaseJails(request);
+		return ModerationActionService.completeUnjail(request, released);
+	}
+
+	/**
+	 * Removes the jails of an unjail request from the database and records
+	 * the event. Only touches the database, so it can run in a transaction.
+	 *
+	 * @returns The jails released
+	 */
+	static releaseJails(request: UnjailRequest): ActiveJail[] {
+		const released = JailService.releaseJails(request.userId, request.chatId);
+		if (released.length > 0) {
+			const eventType: JailEventType =
+				request.reason === "bail_paid"
+					? "bail_paid"
+					: request.reason === "jail_expired"
+						? "auto_unjailed"
+						: "unjailed";
+			const jailEventId = ModerationActionService.record(eventType, request, {
+				bailAmount: request.bailAmount,
+				paidByUserId: request.paidByUserId,
+				paymentTx: request.paymentTx,
+			});
+			ModerationActionService.releaseEvents.set(released, jailEventId);
+		}
+		return released;
+	}
+
+	/**
+	 * Restores the permissions of the released jails in Telegram and
+	 * publishes the action. Chats still covered by another jail stay restricted.
+	 *
+	 * @param request - The unjail request passed to releaseJails
+	 * @param released - Jails releaseJails released
+	 */
+	static async completeUnjail(
+		request: UnjailRequest,
+		released: ActiveJail[],
+	): Promise<ModerationResult> {
+		const chatIds = new Set<number>();
+		for (const jail of released) {
+			for (const chatId of ModerationActionService.resolveChats(jail.chatId)) {
+				chatIds.add(chatId);
+			}
+		}
+		if (request.restoreChatId !== undefined) {
+			chatIds.add(request.restoreChatId);
+		}
+
+		const result = await ModerationActionService.applyInChats(
+			"unjail",
+			request.userId,
+			request.chatId ?? null,
+			(chatId) =>
+				ModerationActionService.telegram(request).restrictChatMember(
+					chatId,
+					request.userId,
+					{ permissions: RELEASED_PERMISSIONS },
+				),
+			[...chatIds].filter(
+				(chatId) => JailService.getJailedUntil(request.userId, chatId) === null,
+			),
+		);
+
+		const changed = released.length > 0;
+		if (changed) {
+			await ModerationActionService.emit(
+				"unjail",
+				{ ...request, chatId: request.chatId ?? null },
+				{
+					bailAmount: request.bailAmount,
+					paidByUserId: request.paidByUserId,
+					paymentTx: request.paymentTx,
+					jailEventId: ModerationActionService.releaseEvents.get(released),
+				},
+			);
+		}
+
+		return { ...result, changed };
+	}
+
+	/**
+	 * Releases every jail that has expired and restores the user's
+	 * permissions. Should be called periodically.
+	 *
+	 * @returns Number of jails released
+	 */
+	static async releaseExpiredJails(): Promise<number> {
+		try {
+			const expired = JailService.getExpiredJails();
+			if (expired.length === 0) {
+				return 0;
+			}
+
+			StructuredLogger.logUserAction("Cleaning expired jails", {
+				operation: "clean_expired_jails",
+				amount: expired.length.toString(),
+			});
+
+			let releasedCount = 0;
+			for (const { userId, chatId } of expired) {
+				try {
+					const result = await ModerationActionService.unjail({
+						userId,
+						chatId,
+						source: "scheduler",
+						reason: "jail_expired",
+					});
+					if (result.changed) releasedCount++;
+				} catch (error) {
+					StructuredLogger.logError(error as Error, {
+						userId,
+						operation: "process_expired_jail",
+					});
+				}
+			}
+			return releasedCount;
+		} catch (error) {
+			StructuredLogger.logError(error as Error, {
+				operation: "clean_expired_jails",
+			});
+			return 0;
+		}
+	}
+
+	/**
+	 * Mutes a user in Telegram for a while. Unlike a jail, a mute has no
+	 * bail and nothing to release: Telegram lifts it when it expires.
+	 */
+	static async mute(request: MuteRequest): Promise<ModerationResult> {
+		const until = Math.floor(Date.now() / 1000) + request.durationMinutes * 60;
+
+		const result = await ModerationActionService.applyInChats(
+			"mute",
+			request.userId,
+			request.chatId,
+			(chatId) =>
+				ModerationActionService.telegram(request).restrictChatMember(
+					chatId,
+					request.userId,
+					{ permissions: JAILED_PERMISSIONS, until_date: until },
+				),
+		);
+
+		return ModerationActionService.finish("muted", request, result, {
+			durationMinutes: request.durationMinutes,
+			until,
+		});
+	}
+
+	/**
+	 * Applies custom permissions to a user in Telegram.
+	 */
+	static async restrict(request: RestrictRequest): Promise<ModerationResult> {
+		const until = request.durationMinutes
+			? Math.floor(Date.now() / 1000) + request.durationMinutes * 60
+			: undefined;
+
+		const result = await ModerationActionService.applyInChats(
+			"restrict",
+			request.userId,
+			request.chatId,
+			(chatId) =>
+				ModerationActionService.telegram(request).restrictChatMember(
+					chatId,
+					request.userId,
+					{ permissions: request.permissions, until_date: until },
+				),
+		);
+
+		return ModerationActionService.finish("restricted", request, result, {
+			durationMinutes: request.durationMinutes,
+			until,
+		});
+	}
+
+	/**
+	 * Removes a user from the chat without banning them (ban + unban).
+	 */
+	static async kick(request: ModerationRequest): Promise<ModerationResult> {
+		const result = await ModerationActionService.applyInChats(
+			"kick",
+			request.userId,
+			request.chatId,
+			async (chatId) => {
+				const telegram = ModerationActionService.telegram(request);
+				await telegram.banChatMember(chatId, request.userId);
+				await telegram.unbanChatMember(chatId, request.userId, {
+					only_if_banned: true,
+				});
+			},
+		);
+
+		return ModerationActionService.finish("kicked", request, result, {});
+	}
+
+	/**
+	 * Bans a user from the chat, permanently or for a while.
+	 */
+	static async ban(request: BanRequest): Promise<ModerationResult> {
+		const until = request.durationMinutes
+			? Math.floor(Date.now() / 1000) + request.durationMinutes * 60
+			: undefined;
+
+		const result = await ModerationActionService.applyInChats(
+			"ban",
+			request.userId,
+			request.chatId,
+			(chatId) =>
+				until === undefined
+					? ModerationActionService.telegram(request).banChatMember(
+							chatId,
+							request.userId,
+						)
+					: ModerationActionService.telegram(request).banChatMember(
+							chatId,
+							request.userId,
+							until,
+						),
+		);
+
+		return ModerationActionService.finish("banned", request, result, {
+			durationMinutes: request.durationMinutes,
+			until,
+		});
+	}
+
+	/**
+	 * Lifts a ban so the user can join again. Users who are not banned are
+	 * left alone.
+	 */
+	static async unban(request: ModerationRequest): Promise<ModerationResult> {
+		const result = await ModerationActionService.applyInChats(
+			"unban",
+			request.userId,
+			request.chatId,
+			(chatId) =>
+				ModerationActionService.telegram(request).unbanChatMember(
+					chatId,
+					request.userId,
+					{ only_if_banned: true },
+				),
+		);
+
+		return ModerationActionService.finish("unbanned", request, result, {});
+	}
+
+	/**
+	 * Records and publishes a Telegram-only action that succeeded in at least
+	 * one chat.
+	 */
+	private static async finish(
+		eventType: JailEventType,
+		request: ModerationRequest,
+		result: Omit<ModerationResult, "changed">,
+		details: { durationMinutes?: number; until?: number },
+	): Promise<ModerationResult> {
+		const changed = result.appliedChats.length > 0;
+		if (changed) {
+			const jailEventId = ModerationActionService.record(
+				eventType,
+				request,
+				details,
+			);
+			await ModerationActionService.emit(result.action, request, {
+				...details,
+				jailEventId,
+			});
+		}
+		return { ...result, changed, until: details.until };
+	}
+
+	/**
+	 * Runs a Telegram API call in every chat of a scope, logging failures.
+	 */
+	private static async applyInChats(
+		action: ModerationActionType,
+		userId: number,
+		chatId: number | null,
+		call: (chatId: number) => Promise<unknown>,
+		chatIds = ModerationActionService.resolveChats(chatId),
+	): Promise<Omit<ModerationResult, "changed">> {
+		const appliedChats: number[] = [];
+		const failures: ModerationResult["failures"] = [];
+
+		for (const targetChatId of chatIds) {
+			try {
+				await call(targetChatId);
+				appliedChats.push(targetChatId);
+			} catch (error) {
+				failures.push({
+					chatId: targetChatId,
+					error: error instanceof Error ? error.message : String(error),
+				});
+				StructuredLogger.logError(error as Error, {
+					userId,
+					operation: `moderation_${action}`,
+					chatId: targetChatId,
+				});
+			}
+		}
+
+		return { action, userId, chatId, appliedChats, failures };
+	}
+
+	/**
+	 * Records an action in jail_events.
+	 *
+	 * @returns ID of the jail event
+	 */
+	private static record(
+		eventType: JailEventType,
+		request: Omit<ModerationRequest, "chatId"> & { chatId?: number | null },
+		details: {
+			durationMinutes?: number;
+			bailAmount?: number;
+			paidByUserId?: number;
+			paymentTx?: string;
+		},
+	): number {
+		return JailService.logJailEvent(
+			request.userId,
+			eventType,
+			request.actorId,
+			details.durationMinutes,
+			details.bailAmount ?? 0,
+			details.paidByUserId,
+			details.paymentTx,
+			{
+				...request.metadata,
+				source: request.source,
+				reason: request.reason,
+				...(request.note ? { note: request.note } : {}),
+			},
+			request.chatId ?? null,
+		);
+	}
+
+	/**
+	 * Publishes an action on the event bus.
+	 */
+	private static async emit(
+		action: ModerationActionType,
+		request: ModerationRequest,
+		details: {
+			durationMinutes?: number;
+			until?: number;
+			bailAmount?: number;
+			paidByUserId?: number;
+			paymentTx?: string;
+			jailEventId?: number;
+		},
+	): Promise<void> {
+		const event: ModerationActionEvent = {
+			action,
+			userId: request.userId,
+			chatId: request.chatId,
+			source: request.source,
+			reason: request.reason,
+			actorId: request.actorId,
+			note: request.note,
+			metadata: request.metadata,
+			origin: request.origin,
+			...details,
+			timestamp: Math.floor(Date.now() / 1000),
+		};
+
+		await EventBus.publish(ACTION_EVENTS[action], event);
+	}
+
+	private static telegram(request: { telegram?: Telegram }): Telegram {
+		return request.telegram ?? ModerationActionService.bot.telegram;
+	}
+
+	private static resolveChats(chatId: number | null): number[] {
+		return chatId === null ? ChatService.getChatIds() : [chatId];
+	}
+}
@@ -0,0 +1,432 @@
+/**
+ * Moderation log service for the CAC Admin Bot.
+ * Records every moderation action as a numbered case and posts it to the
+ * modlog channel as a card with the actor, target, reason, duration and a
+ * link to the message the action was taken over.
+ *
+ * The channel is the group's modlog (/chatconfig modlog) or MODLOG_CHAT_ID;
+ * network-wide actions taken from a group use that group's modlog. Cases
+ * are recorded even when no channel is configured, so /case and /modlog
+ * always work.
+ *
+ * @module services/modlogService
+ */
+
+import type { Context, Telegraf } from "telegraf";
+import { execute, get, query } from "../database";
+import { StructuredLogger } from "../utils/logger";
+import { type MessageRef, messageLink } from "../utils/messageLink";
+import { formatUserIdDisplay } from "../utils/userResolver";
+import { ChatService } from "./chatService";
+
+/**
+ * Actions recorded as cases.
+ */
+export type ModlogAction =
+	| "jail"
+	| "unjail"
+	| "mute"
+	| "restrict"
+	| "kick"
+	| "ban"
+	| "unban"
+	| "warn"
+	| "violation"
+	| "fine_paid"
+	| "bail_paid"
+	| "restriction_added"
+	| "restriction_removed"
+	| "blacklist_added"
+	| "blacklist_removed"
+	| "whitelist_added"
+	| "whitelist_removed"
+	| "role_changed"
+	| "appeal_upheld"
+	| "appeal_reduced"
+	| "appeal_overturned";
+
+/** Card title of each action */
+const ACTION_LABELS: Record<ModlogAction, string> = {
+	jail: "Jail",
+	unjail: "Unjail",
+	mute: "Mute",
+	restrict: "Restrict",
+	kick: "Kick",
+	ban: "Ban",
+	unban: "Unban",
+	warn: "Warning",
+	violation: "Violation",
+	fine_paid: "Fine paid",
+	bail_paid: "Bail paid",
+	restriction_added: "Restriction added",
+	restriction_removed: "Restriction removed",
+	blacklist_added: "Blacklisted",
+	blacklist_removed: "Removed from blacklist",
+	whitelist_added: "Whitelisted",
+	whitelist_removed: "Removed from whitelist",
+	role_changed: "Role changed",
+	appeal_upheld: "Appeal upheld",
+	appeal_reduced: "Appeal reduced",
+	appeal_overturned: "Appeal overturned",
+};
+
+/**
+ * A case to open.
+ */
+export interface CaseInput {
+	action: ModlogAction;
+	userId: number;
+	/** Admin who took the action, or null for automatic actions */
+	actorId?: number | null;
+	/** Chat the action applies to, or null for network-wide actions */
+	chatId?: number | null;
+	reason?: string;
+	durationMinutes?: number;
+	/** Fine, bail or payment in JUNO */
+	amount?: number;
+	jailEventId?: number;
+	violationId?: number;
+	/** Message the action was taken over */
+	origin?: MessageRef;
+}
+
+/**
+ * A recorded case.
+ */
+export interface ModerationCase {
+	/** Case number */
+	id: number;
+	action: ModlogAction;
+	userId: number;
+	actorId: number | null;
+	chatId: number | null;
+	reason: string | null;
+	durationMinutes: number | null;
+	amount: number | null;
+	jailEventId: number | null;
+	violationId: number | null;
+	origin: MessageRef | null;
+	/** Modlog message of the case, if it was posted */
+	modlogChatId: number | null;
+	modlogMessageId: number | null;
+	createdAt: number;
+}
+
+/**
+ * An entry of a user's moderation history.
+ */
+export interface ModlogHistoryEntry {
+	/** Case number, if the entry was recorded as a case */
+	caseId: number | null;
+	summary: string;
+	actorId: number | null;
+	chatId: number | null;
+	timestamp: number;
+}
+
+interface ModerationCaseRow {
+	id: number;
+	action: ModlogAction;
+	user_id: number;
+	actor_id: number | null;
+	chat_id: number | null;
+	reason: string | null;
+	duration_minutes: number | null;
+	amount: number | null;
+	jail_event_id: number | null;
+	violation_id: number | null;
+	origin_chat_id: number | null;
+	origin_message_id: number | null;
+	modlog_chat_id: number | null;
+	modlog_message_id: number | null;
+	created_at: number;
+}
+
+interface JailEventHistoryRow {
+	event_type: string;
+	admin_id: number | null;
+	duration_minutes: number | null;
+	bail_amount: number;
+	metadata: string | null;
+	chat_id: number | null;
+	timestamp: number;
+	case_id: number | null;
+}
+
+interface ViolationHistoryRow {
+	restriction: string;
+	bail_amount: number;
+	paid: number;
+	timestamp: number;
+	case_id: number | null;
+	actor_id: number | null;
+	chat_id: number | null;
+}
+
+function rowToCase(row: ModerationCaseRow): ModerationCase {
+	return {
+		id: row.id,
+		action: row.action,
+		userId: row.user_id,
+		actorId: row.actor_id,
+		chatId: row.chat_id,
+		reason: row.reason,
+		durationMinutes: row.duration_minutes,
+		amount: row.amount,
+		jailEventId: row.jail_event_id,
+		violationId: row.violation_id,
+		origin:
+			row.origin_chat_id !== null && row.origin_message_id !== null
+				? { chatId: row.origin_chat_id, messageId: row.origin_message_id }
+				: null,
+		modlogChatId: row.modlog_chat_id,
+		modlogMessageId: row.modlog_message_id,
+		createdAt: row.created_at,
+	};
+}
+
+/**
+ * Formats a Unix timestamp as a UTC date.
+ */
+function formatDate(timestamp: number): string {
+	return new Date(timestamp * 1000)
+		.toISOString()
+		.slice(0, 16)
+		.replace("T", " ");
+}
+
+/**
+ * Service for moderation cases and the modlog channel.
+ */
+export class ModlogService {
+	private static bot: Telegraf<Context> | null = null;
+
+	/**
+	 * Initializes the service with the Telegraf bot instance used to post
+	 * cards. Without it cases are recorded but not posted.
+	 *
+	 * @param bot - Telegraf bot instance for Telegram API access
+	 */
+	static initialize(bot: Telegraf<Context>): void {
+		ModlogService.bot = bot;
+	}
+
+	/**
+	 * Records a case and posts its card to the modlog channel. Posting
+	 * failures are logged and never fail the case.
+	 *
+	 * @param input - The case
+	 * @returns The recorded case
+	 */
+	static async open(input: CaseInput): Promise<ModerationCase> {
+		const result = execute(
+			`INSERT INTO moderation_cases (action, user_id, actor_id, chat_id, reason, duration_minutes, amount,
+         jail_event_id, violation_id, origin_chat_id, origin_message_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+			[
+				input.action,
+				input.userId,
+				input.actorId ?? null,
+				input.chatId ?? null,
+				input.reason ?? null,
+				input.durationMinutes ?? null,
+				input.amount ?? null,
+				input.jailEventId ?? null,
+				input.violationId ?? null,
+				input.origin?.chatId ?? null,
+				input.origin?.messageId ?? null,
+			],
+		);
+		const caseId = Number(result.lastInsertRowid);
+		const modCase = ModlogService.getCase(caseId) as ModerationCase;
+
+		const modlogChatId = ChatService.getModlogChatId(
+			input.chatId ?? input.origin?.chatId,
+		);
+		if (!modlogChatId || !ModlogService.bot) {
+			return modCase;
+		}
+
+		try {
+			const message = await ModlogService.bot.telegram.sendMessage(
+				modlogChatId,
+				ModlogService.formatCard(modCase),
+				{ link_preview_options: { is_disabled: true } },
+			);
+			execute(
+				"UPDATE moderation_cases SET modlog_chat_id = ?, modlog_message_id = ? WHERE id = ?",
+				[modlogChatId, message.message_id, caseId],
+			);
+			return {
+				...modCase,
+				modlogChatId,
+				modlogMessageId: message.message_id,
+			};
+		} catch (error) {
+			StructuredLogger.logError(error as Error, {
+				userId: input.userId,
+				operation: "modlog_post",
+				caseId,
+				modlogChatId,
+			});
+			return modCase;
+		}
+	}
+
+	/**
+	 * Gets a case by its number.
+	 *
+	 * @param caseId - Case number
+	 */
+	static getCase(caseId: number): ModerationCase | null {
+		const row = get<ModerationCaseRow>(
+			"SELECT * FROM moderation_cases WHERE id = ?",
+			[caseId],
+		);
+		return row ? rowToCase(row) : null;
+	}
+
+	/**
+	 * Gets a user's cases, newest first.
+	 *
+	 * @param userId - Telegram user ID
+	 * @param limit - Maximum number of cases
+	 */
+	static getUserCases(userId: number, limit = 20): ModerationCase[] {
+		return query<ModerationCaseRow>(
+			"SELECT * FROM moderation_cases WHERE user_id = ? ORDER BY id DESC LIMIT ?",
+			[userId, limit],
+		).map(rowToCase);
+	}
+
+	/**
+	 * Formats a case as a modlog card.
+	 *
+	 * @param modCase - The case
+	 * @returns Multi-line card
+	 */
+	static formatCard(modCase: ModerationCase): string {
+		const chat =
+			modCase.chatId === null ? null : ChatService.getChat(modCase.chatId);
+		const link = modCase.origin ? messageLink(modCase.origin) : undefined;
+
+		const lines = [
+			`Case #${modCase.id} · ${ACTION_LABELS[modCase.action]}`,
+			`Target: ${formatUserIdDisplay(modCase.userId)}`,
+			`Actor: ${modCase.actorId === null ? "Automatic" : formatUserIdDisplay(modCase.actorId)}`,
+			`Chat: ${
+				modCase.chatId === null
+					? "Network-wide"
+					: `${chat?.title ? `${chat.title} ` : ""}(${modCase.chatId})`
+			}`,
+		];
+		if (modCase.reason) lines.push(`Reason: ${modCase.reason}`);
+		if (modCase.durationMinutes) {
+			lines.push(`Duration: ${modCase.durationMinutes} min`);
+		}
+		if (modCase.amount) {
+			lines.push(`Amount: ${modCase.amount.toFixed(2)} JUNO`);
+		}
+		if (link) lines.push(`Message: ${link}`);
+		lines.push(`Time: ${formatDate(modCase.createdAt)} UTC`);
+
+		return lines.join("\n");
+	}
+
+	/**
+	 * Gets a user's moderation history, newest first: their jail events,
+	 * violations, and the cases not recorded in either (warnings, list,
+	 * restriction and role changes). Entries recorded as a case carry its
+	 * number.
+	 *
+	 * @param userId - Telegram user ID
+	 * @param limit - Maximum number of entries
+	 */
+	static getUserHistory(userId: number, limit = 20): ModlogHistoryEntry[] {
+		const jailEvents = query<JailEventHistoryRow>(
+			`SELECT je.event_type, je.admin_id, je.duration_minutes, je.bail_amount, je.metadata, je.chat_id, je.timestamp,
+         (SELECT MIN(id) FROM moderation_cases WHERE jail_event_id = je.id) AS case_id
+       FROM jail_events je WHERE je.user_id = ?
+       ORDER BY je.timestamp DESC, je.id DESC LIMIT ?`,
+			[userId, limit],
+		);
+		const violations = query<ViolationHistoryRow>(
+			`SELECT v.restriction, v.bail_amount, v.paid, v.timestamp, mc.id AS case_id, mc.actor_id, mc.chat_id
+       FROM violations v
+       LEFT JOIN moderation_cases mc ON mc.id = (SELECT MIN(id) FROM moderation_cases WHERE violation_id = v.id)
+       WHERE v.user_id = ?
+       ORDER BY v.timestamp DESC, v.id DESC LIMIT ?`,
+			[userId, limit],
+		);
+		const cases = query<ModerationCaseRow>(
+			`SELECT * FROM moderation_cases
+       WHERE user_id = ? AND jail_event_id IS NULL AND violation_id IS NULL
+       ORDER BY created_at DESC, id DESC LIMIT ?`,
+			[userId, limit],
+		).map(rowToCase);
+
+		const entries: ModlogHistoryEntry[] = [
+			...jailEvents.map((row) => ({
+				caseId: row.case_id,
+				summary: ModlogService.describeJailEvent(row),
+				actorId: row.admin_id,
+				chatId: row.chat_id,
+				timestamp: row.timestamp,
+			})),
+			...violations.map((row) => ({
+				caseId: row.case_id,
+				summary: `Violation ${row.restriction}${
+					row.bail_amount > 0
+						? `, fine ${row.bail_amount.toFixed(2)} JUNO (${row.paid ? "paid" : "unpaid"})`
+						: ""
+				}`,
+				actorId: row.actor_id,
+				chatId: row.chat_id,
+				timestamp: row.timestamp,
+			})),
+			...cases.map((modCase) => ({
+				caseId: modCase.id,
+				summary: `${ACTION_LABELS[modCase.action]}${modCase.reason ? `: ${modCase.reason}` : ""}`,
+				actorId: modCase.actorId,
+				chatId: modCase.chatId,
+				timestamp: modCase.createdAt,
+			})),
+		];
+
+		return entries.sort((a, b) => b.timestamp - a.timestamp).slice(0, limit);
+	}
+
+	/**
+	 * Formats a history entry as one line.
+	 *
+	 * @param entry - History entry
+	 */
+	static formatHistoryEntry(entry: ModlogHistoryEntry): string {
+		return [
+			entry.caseId === null ? "-" : `#${entry.caseId}`,
+			formatDate(entry.timestamp),
+			entry.summary,
+			entry.actorId === null
+				? "automatic"
+				: `by ${formatUserIdDisplay(entry.actorId)}`,
+			entry.chatId === null ? "network" : `chat ${entry.chatId}`,
+		].join(" · ");
+	}
+
+	private static describeJailEvent(row: JailEventHistoryRow): string {
+		let reason: string | undefined;
+		try {
+			const metadata = row.metadata ? JSON.parse(row.metadata) : {};
+			reason = metadata.note ?? metadata.reason;
+		} catch {
+			reason = undefined;
+		}
+
+		return [
+			row.event_type.replace(/_/g, " "),
+			row.duration_minutes ? ` ${row.duration_minutes} min` : "",
+			row.bail_amount > 0 ? `, ${row.bail_amount.toFixed(2)} JUNO` : "",
+			reason ? ` (${reason.replace(/_/g, " ")})` : "",
+		].join("");
+	}
+}
@@ -0,0 +1,353 @@
+/**
+ * Payment receipt service for the CAC Admin Bot.
+ * Keeps a registry of the on-chain payments used to settle fines and bail,
+ * keyed by tx hash and message index, so each payment settles one thing:
+ *
+ * - A payment message that was already used is rejected
+ * - A payment is only accepted from the user redeeming it: the tx memo is
+ *   their deposit code, or they have deposited from the sending address
+ * - A tx the deposit monitor already recorded is rejected, including one
+ *   held as an unclaimed deposit; that is claimed with /claimmydeposit
+ * - Anything paid above the amount due is refunded on chain to the sending
+ *   address through the withdrawal queue
+ *
+ * The deposit monitors skip txs that have a receipt.
+ *
+ * @module services/paymentReceiptService
+ */
+
+import { config } from "../config";
+import { execute, get, query, withTransaction } from "../database";
+import { StructuredLogger } from "../utils/logger";
+import { AmountPrecision } from "../utils/precision";
+import { DepositCodeService } from "./depositCodeService";
+import { JunoService, type TreasuryPayment } from "./junoService";
+import { LedgerService } from "./ledgerService";
+import { SYSTEM_USER_IDS } from "./unifiedWalletService";
+import { WithdrawalQueueService } from "./withdrawalQueue";
+
+/** Underpayment still accepted, for rounding in wallets (0.01 JUNO) */
+const PAYMENT_TOLERANCE_UJUNO = 10_000;
+
+/** What a receipt settled */
+export type ReceiptPurpose = "fine" | "bail";
+
+/**
+ * A payment message that settled a fine or bail.
+ */
+export interface PaymentReceipt {
+	txHash: string;
+	msgIndex: number;
+	payerAddress: string;
+	amountMicro: number;
+	appliedTo: ReceiptPurpose;
+	/** Violation ID for fines, jailed user ID for bail */
+	appliedRef: number;
+	appliedMicro: number;
+	overpaidMicro: number;
+	/** Withdrawal request refunding the overpayment to the payer */
+	refundRequestId: number | null;
+	redeemedBy: number;
+	createdAt: number;
+}
+
+interface PaymentReceiptRow {
+	tx_hash: string;
+	msg_index: number;
+	payer_address: string | null;
+	amount_ujuno: number;
+	applied_to: ReceiptPurpose;
+	applied_ref: number;
+	applied_ujuno: number;
+	overpaid_ujuno: number;
+	refund_request_id: number | null;
+	redeemed_by: number;
+	created_at: number;
+}
+
+function rowToReceipt(row: PaymentReceiptRow): PaymentReceipt {
+	return {
+		txHash: row.tx_hash,
+		msgIndex: row.msg_index,
+		payerAddress: row.payer_address ?? "",
+		amountMicro: row.amount_ujuno,
+		appliedTo: row.applied_to,
+		appliedRef: row.applied_ref,
+		appliedMicro: row.applied_ujuno,
+		overpaidMicro: row.overpaid_ujuno,
+		refundRequestId: row.refund_request_id,
+		redeemedBy: row.redeemed_by,
+		createdAt: row.created_at,
+	};
+}
+
+/**
+ * Service for single-use payment receipts.
+ */
+export class PaymentReceiptService {
+	/**
+	 * Whether any message of a tx was used as a payment receipt.
+	 */
+	static isReceipt(txHash: string): boolean {
+		return !!get<{ tx_hash: string }>(
+			"SELECT tx_hash FROM payment_receipts WHERE tx_hash = ? LIMIT 1",
+			[PaymentReceiptService.normalizeHash(txHash)],
+		);
+	}
+
+	/**
+	 * Lists the receipts recorded for a tx.
+	 */
+	static getReceipts(txHash: string): PaymentReceipt[] {
+		return query<PaymentReceiptRow>(
+			"SELECT * FROM payment_receipts WHERE tx_hash = ? ORDER BY msg_index",
+			[PaymentReceiptService.normalizeHash(txHash)],
+		).map(rowToReceipt);
+	}
+
+	/**
+	 * Uses an on-chain payment to settle a fine or bail. The first unused
+	 * payment message in the tx that covers the amount due and was sent by
+	 * the redeeming user is recorded as the receipt; apply runs in the same database transaction, so the
+	 * settlement and the receipt are committed together. The tx is fetched
+	 * before the transaction starts, and apply must be synchronous.
+	 *
+	 * @param txHash - Hash of the payment tx
+	 * @param amountDue - Amount due in JUNO
+	 * @param purpose - What the payment settles
+	 * @param appliedRef - Violation ID for fines, jailed user ID for bail
+	 * @param redeemedBy - User submitting the payment, who must have sent it
+	 * @param apply - Settles the fine or bail
+	 * @returns The receipt, or why the payment was rejected
+	 */
+	static async redeem(
+		txHash: string,
+		amountDue: number,
+		purpose: ReceiptPurpose,
+		appliedRef: number,
+		redeemedBy: number,
+		apply: () => void,
+	): Promise<{ success: boolean; receipt?: PaymentReceipt; error?: string }> {
+		const hash = PaymentReceiptService.normalizeHash(txHash);
+		const dueMicro = AmountPrecision.toMicroJuno(amountDue);
+
+		const rejected = (reason: string) => {
+			StructuredLogger.logSecurityEvent("Payment receipt rejected", {
+				userId: redeemedBy,
+				txHash: hash,
+				operation: "payment_receipt_rejected",
+				purpose,
+				appliedRef,
+				reason,
+			});
+			return { success: false, error: reason };
+		};
+
+		const payments = await JunoService.getTreasuryPayments(txHash);
+		if (!payments || payments.length === 0) {
+			return rejected(
+				"Payment could not be verified. Please check the transaction hash.",
+			);
+		}
+
+		const used = new Set(
+			PaymentReceiptService.getReceipts(hash).map(
+				(receipt) => receipt.msgIndex,
+			),
+		);
+		const unused = payments.filter((payment) => !used.has(payment.msgIndex));
+		if (unused.length === 0) {
+			return rejected("This payment was already used.");
+		}
+
+		const covering = unused.filter(
+			(candidate) =>
+				candidate.amountMicro >= dueMicro - PAYMENT_TOLERANCE_UJUNO,
+		);
+		if (covering.length === 0) {
+			return rejected(
+				`Payment is less than the ${AmountPrecision.format(amountDue)} JUNO due.`,
+			);
+		}
+
+		const payment = covering.find((candidate) =>
+			PaymentReceiptService.isSentBy(redeemedBy, candidate),
+		);
+		if (!payment) {
+			return rejected(
+				"This payment was not sent from a wallet linked to you. Put your deposit code in the memo, or pay from a wallet you have deposited from.",
+			);
+		}
+
+		const deposit = get<{ user_id: number }>(
+			"SELECT user_id FROM processed_deposits WHERE tx_hash = ? COLLATE NOCASE ORDER BY id LIMIT 1",
+			[hash],
+		);
+		if (deposit) {
+			return rejected(
+				deposit.user_id === SYSTEM_USER_IDS.UNCLAIMED
+					? "This transaction is held as an unclaimed deposit. Claim it with /claimmydeposit, then pay from your balance."
+					: "This transaction was already credited as a deposit. Pay from your balance instead.",
+			);
+		}
+
+		const appliedMicro = Math.min(payment.amountMicro, dueMicro);
+		const overpaidMicro = payment.amountMicro - appliedMicro;
+		if (overpaidMicro > 0 && !WithdrawalQueueService.isEnabled()) {
+			return rejected(
+				"Overpayments cannot be refunded right now. Please contact an admin.",
+			);
+		}
+		const description = `${purpose === "fine" ? `Fine #${appliedRef}` : `Bail for ${appliedRef}`} paid on chain`;
+
+		let refundFailed = false;
+		try {
+			withTransaction(() => {
+				PaymentReceiptService.recordPayment(hash, payment, description);
+
+				let refundRequestId: number | null = null;
+				if (overpaidMicro > 0) {
+					refundFailed = true;
+					refundRequestId = PaymentReceiptService.refundOverpayment(
+						payment,
+						overpaidMicro,
+						description,
+					);
+					refundFailed = false;
+				}
+
+				execute(
+					`INSERT INTO payment_receipts (
+            tx_hash, msg_index, payer_address, amount_ujuno, applied_to, applied_ref,
+            applied_ujuno, overpaid_ujuno, refund_request_id, redeemed_by
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+					[
+						hash,
+						payment.msgIndex,
+						payment.fromAddress || null,
+						payment.amountMicro,
+						purpose,
+						appliedRef,
+						appliedMicro,
+						overpaidMicro,
+						refundRequestId,
+						redeemedBy,
+					],
+				);
+
+				apply();
+			});
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			if (message.includes("UNIQUE")) {
+				return rejected("This payment was already used.");
+			}
+			return rejected(
+				refundFailed
+					? "Overpayments cannot be refunded right now. Please contact an admin."
+					: "Failed to apply the payment.",
+			);
+		}
+
+		const receipt = PaymentReceiptService.getReceipts(hash).find(
+			(row) => row.msgIndex === payment.msgIndex,
+		);
+
+		StructuredLogger.logSecurityEvent("Payment receipt redeemed", {
+			userId: redeemedBy,
+			txHash: hash,
+			operation: "payment_receipt_redeemed",
+			purpose,
+			appliedRef,
+			msgIndex: payment.msgIndex,
+			amount: AmountPrecision.fromMicroJuno(payment.amountMicro).toString(),
+			overpaid: AmountPrecision.fromMicroJuno(overpaidMicro).toString(),
+		});
+
+		return { success: true, receipt };
+	}
+
+	/**
+	 * Whether a payment was sent by a user: the tx memo is their deposit
+	 * code, or a deposit from the sending address was credited to them.
+	 */
+	private static isSentBy(userId: number, payment: TreasuryPayment): boolean {
+		if (!payment.fromAddress) {
+			return false;
+		}
+
+		if (DepositCodeService.resolveMemo(payment.memo).userId === userId) {
+			return true;
+		}
+
+		return !!get<{ id: number }>(
+			"SELECT id FROM processed_deposits WHERE user_id = ? AND from_address = ? AND processed = 1 LIMIT 1",
+			[userId, payment.fromAddress],
+		);
+	}
+
+	/**
+	 * Records a payment in the ledger. When the treasury is the user funds
+	 * wallet, the funds are in the ledger's custody and the whole payment is
+	 * credited to the treasury account; otherwise nothing is credited.
+	 */
+	private static recordPayment(
+		hash: string,
+		payment: TreasuryPayment,
+		description: string,
+	): void {
+		if (config.botTreasuryAddress !== config.userFundsAddress) {
+			return;
+		}
+
+		const recorded = LedgerService.processDeposit(
+			SYSTEM_USER_IDS.BOT_TREASURY,
+			AmountPrecision.fromMicroJuno(payment.amountMicro),
+			hash,
+			payment.fromAddress,
+			description,
+		);
+		if (!recorded.success) {
+			throw new Error(recorded.error || "Failed to record the payment");
+		}
+	}
+
+	/**
+	 * Queues the overpayment to be sent back to the paying address, debited
+	 * from the treasury account. Throws if the treasury cannot cover it.
+	 *
+	 * @returns ID of the withdrawal request
+	 */
+	private static refundOverpayment(
+		payment: TreasuryPayment,
+		overpaidMicro: number,
+		description: string,
+	): number {
+		const requestId = WithdrawalQueueService.enqueue(
+			SYSTEM_USER_IDS.BOT_TREASURY,
+			payment.fromAddress,
+			overpaidMicro,
+		);
+
+		const refund = LedgerService.processWithdrawal(
+			SYSTEM_USER_IDS.BOT_TREASURY,
+			AmountPrecision.fromMicroJuno(overpaidMicro),
+			payment.fromAddress,
+			undefined,
+			`Overpayment refund: ${description}`,
+		);
+		if (!refund.success || !refund.transactionId) {
+			throw new Error(refund.error || "Failed to refund the overpayment");
+		}
+
+		WithdrawalQueueService.linkLedgerTransaction(
+			requestId,
+			refund.transactionId,
+		);
+		return requestId;
+	}
+
+	private static normalizeHash(txHash: string): string {
+		return txHash.trim().toUpperCase();
+	}
+}
@@ -8,6 +8,7 @@
 
 import { execute, get, query } from "../database";
 import { StructuredLogger } from "../utils/logger";
+import { ChatService } from "./chatService";
 
 interface FineConfig {
 	fine_type: string;
@@ -137,8 +138,16 @@ export class PriceService {
 
 	/**
 	 * Gets the configured fine amount in USD for a fine type.
+	 * A per-chat override takes precedence over the global fine config.
 	 */
-	static getFineConfigUsd(fineType: string): number {
+	static getFineConfigUsd(fineType: string, chatId?: number): number {
+		if (chatId !== undefined) {
+			const override = ChatService.getFineOverride(chatId, fineType);
+			if (override !== null) {
+				return override;
+			}
+		}
+
 		const config = get<FineConfig>(
 			"SELECT * FROM fine_config WHERE fine_type = ?",
 			[fineType],
@@ -220,9 +229,15 @@ export class PriceService {
 	/**
 	 * Calculates bail amount in JUNO based on duration and USD rate.
 	 */
-	static async calculateBailAmount(durationMinutes: number): Promise<number> {
-		const perMinuteUsd = PriceService.getFineConfigUsd("jail_per_minute");
-		const minimumUsd = PriceService.getFineConfigUsd("jail_minimum");
+	static async calculateBailAmount(
+		durationMinutes: number,
+		chatId?: number,
+	): Promise<number> {
+		const perMinuteUsd = PriceService.getFineConfigUsd(
+			"jail_per_minute",
+			chatId,
+		);
+		const minimumUsd = PriceService.getFineConfigUsd("jail_minimum", chatId);
 
 		const totalUsd = Math.max(minimumUsd, durationMinutes * perMinuteUsd);
 		const junoAmount = await PriceService.usdToJuno(totalUsd);
@@ -234,7 +249,10 @@ export class PriceService {
 	/**
 	 * Calculates violation fine in JUNO based on restriction type.
 	 */
-	static async calculateViolationFine(restriction: string): Promise<number> {
+	static async calculateViolationFine(
+		restriction: string,
+		chatId?: number,
+	): Promise<number> {
 		let fineType: string;
 
 		switch (restriction) {
@@ -254,7 +272,7 @@ export class PriceService {
 				fineType = "sticker"; // Default fine type
 		}
 
-		const usdAmount = PriceService.getFineConfigUsd(fineType);
+		const usdAmount = PriceService.getFineConfigUsd(fineType, chatId);
 		const junoAmount = await PriceService.usdToJuno(usdAmount);
 
 		// Round to 2 decimal places
@@ -5,7 +5,12 @@ import { execute, query } from "../database";
 import type { GlobalAction, User, UserRestriction } from "../types";
 import { logger } from "../utils/logger";
 import { createPatternObject, testPatternSafely } from "../utils/safeRegex";
-import { JailService } from "./jailService";
+import {
+	ModerationActionService,
+	type ModerationReason,
+} from "./moderationActionService";
+import { PriceService } from "./priceService";
+import { type RuleEscalation, RuleService } from "./ruleService";
 import { createViolation } from "./violationService";
 
 /**
@@ -62,7 +67,12 @@ export class RestrictionService {
 
 		// Get user restrictions - ALWAYS apply these
 		const userRestrictions = query<UserRestriction>(
-			"SELECT * FROM user_restrictions WHERE user_id = ? AND (restricted_until IS NULL OR restricted_until > ?)",
+			`SELECT id, user_id AS userId, restriction, restricted_action AS restrictedAction,
+         metadata, restricted_until AS restrictedUntil, severity,
+         violation_threshold AS violationThreshold, auto_jail_duration AS autoJailDuration,
+         auto_jail_fine AS autoJailFine, created_at AS createdAt
+       FROM user_restrictions
+       WHERE user_id = ? AND (restricted_until IS NULL OR restricted_until > ?)`,
 			[userId, now],
 		);
 
@@ -71,9 +81,14 @@ export class RestrictionService {
 		const isElevated = user?.role === "elevated";
 
 		if (!isElevated) {
+			// Network-wide actions (chat_id NULL) plus actions for this chat
 			globalRestrictions = query<GlobalAction>(
-				"SELECT * FROM global_restrictions WHERE restricted_until IS NULL OR restricted_until > ?",
-				[now],
+				`SELECT id, chat_id AS chatId, restriction, restricted_action AS restrictedAction,
+           metadata, restricted_until AS restrictedUntil, created_at AS createdAt
+         FROM global_restrictions
+         WHERE (chat_id IS NULL OR chat_id = ?)
+         AND (restricted_until IS NULL OR restricted_until > ?)`,
+				[ctx.chat?.id ?? null, now],
 			);
 		}
 
@@ -144,7 +159,9 @@ export class RestrictionService {
 	}
 
 	/**
-	 * Handle restriction violation with severity-based penalties
+	 * Handle restriction violation.
+	 * Violations governed by a rule follow the rule's escalation ladder;
+	 * all others fall back to the restriction's severity-based penalties.
 	 */
 	private static async handleViolation(
 		ctx: Context,
@@ -159,12 +176,28 @@ export class RestrictionService {
 			// Delete the message
 			await ctx.deleteMessage();
 
-			// Create violation record
 			const msg = ctx.message as any;
+
+			const rule = RuleService.resolveRule(
+				restriction.restriction,
+				restriction.restrictedAction,
+				ctx.chat?.id,
+			);
+			if (rule) {
+				await RestrictionService.applyRule(
+					ctx,
+					RuleService.getEscalation(rule, userId),
+					msg?.text || "[non-text message]",
+				);
+				return;
+			}
+
+			// Create violation record
 			await createViolation(
 				userId,
 				restriction.restriction,
 				msg?.text || "[non-text message]",
+				ctx.chat?.id,
 			);
 
 			// Check for spam (recent violations)
@@ -194,7 +227,10 @@ export class RestrictionService {
 			switch (severity) {
 				case "jail":
 					// Immediate jail on any violation
-					await RestrictionService.applyImmediateJail(ctx, userRestriction);
+					await RestrictionService.applyImmediateJail(
+						ctx,
+						userRestriction.restriction,
+					);
 					break;
 
 				case "mute":
@@ -222,6 +258,129 @@ If you get jailed, use /paybail to pay your fine and get unjailed immediately.`,
 		}
 	}
 
+	/**
+	 * Apply the escalation step a user has reached for a rule and record the
+	 * violation against the rule.
+	 */
+	private static async applyRule(
+		ctx: Context,
+		escalation: RuleEscalation,
+		messageText: string,
+	): Promise<void> {
+		if (!ctx.from) return;
+
+		const userId = ctx.from.id;
+		const chatId = ctx.chat?.id;
+		const { rule, step, stepIndex } = escalation;
+
+		// Only fine steps carry a fine; the other steps have their own penalty
+		const fineAmount =
+			step.action === "fine" && step.fineUsd
+				? Math.round((await PriceService.usdToJuno(step.fineUsd)) * 100) / 100
+				: 0;
+
+		await createViolation(
+			userId,
+			rule.type,
+			messageText,
+			chatId,
+			rule.id,
+			fineAmount,
+		);
+
+		logger.info("Rule violation handled", {
+			userId,
+			ruleId: rule.id,
+			step: step.action,
+			stepIndex,
+		});
+
+		const ruleName = rule.description || rule.type;
+		const nextStep = rule.escalation[stepIndex + 1];
+		const nextText = nextStep
+			? `Next violation: ${RuleService.formatEscalation([nextStep])}`
+			: "Further violations repeat this penalty.";
+
+		switch (step.action) {
+			case "ban":
+				await RestrictionService.applyBan(ctx, rule.id);
+				break;
+
+			case "jail": {
+				const minutes = step.minutes || 1440;
+				const fine = await PriceService.calculateBailAmount(minutes, chatId);
+				await RestrictionService.applyImmediateJail(
+					ctx,
+					rule.type,
+					minutes,
+					fine,
+				);
+				break;
+			}
+
+			case "mute":
+				await RestrictionService.applyTemporaryMute(
+					ctx,
+					userId,
+					step.minutes || 30,
+					undefined,
+					"rule_escalation",
+				);
+				break;
+
+			case "fine":
+				await ctx.reply(
+					fmt`Your message was deleted for breaking rule #${rule.id}: ${ruleName}
+
+${bold("Fine:")} ${fineAmount.toFixed(2)} JUNO ($${(step.fineUsd ?? 0).toFixed(2)} USD)
+Pay it with ${code("/payfines")}.
+
+${nextText}`,
+				);
+				break;
+
+			default:
+				await ctx.reply(
+					fmt`Your message was deleted for breaking rule #${rule.id}: ${ruleName}
+
+${bold("Warning")} ${stepIndex + 1}/${rule.escalation.length}
+${nextText}
+Use /violations to check your status.`,
+				);
+				break;
+		}
+	}
+
+	/**
+	 * Ban a user from the chat for reaching the end of a rule's escalation ladder
+	 */
+	private static async applyBan(ctx: Context, ruleId: number): Promise<void> {
+		if (!ctx.from || !ctx.chat) return;
+
+		const userId = ctx.from.id;
+
+		try {
+			if (ctx.chat.type === "group" || ctx.chat.type === "supergroup") {
+				await ModerationActionService.ban({
+					userId,
+					chatId: ctx.chat.id,
+					source: "automod",
+					reason: "rule_escalation",
+					metadata: { ruleId },
+					telegram: ctx.telegram,
+				});
+			}
+
+			await ctx.reply(
+				`User ${userId} has been banned for repeatedly breaking rule #${ruleId}.`,
+			);
+
+			logger.warn("Rule escalation ban applied", { userId, ruleId });
+		} catch (error) {
+			logger.error("Failed to apply rule ban", { userId, ruleId, error });
+		}
+	}
+
 	/**
 	 * Get recent violations for a user and restriction type
 	 */
@@ -256,52 +415,17 @@ If you get jailed, use /paybail to pay your fine and get unjailed immediately.`,
 		const fine = restriction.autoJailFine || 10.0; // Default 10 JUNO
 
 		try {
-			const mutedUntil = Math.floor(Date.now() / 1000) + duration * 60;
-
-			// Update database
-			execute("UPDATE users SET muted_until = ?, updated_at = ? WHERE id = ?", [
-				mutedUntil,
-				Math.floor(Date.now() / 1000),
-				userId,
-			]);
-
-			// Log the jail event
-			JailService.logJailEvent(
+			// Jail only in the chat where the violation happened
+			await ModerationActionService.jail({
 				userId,
-				"jailed",
-				undefined,
-				duration,
-				fine,
-				undefined,
-				undefined,
-				{
-					reason: "auto_spam_detection",
-					restriction: restriction.restriction,
-				},
-			);
-
-			// Actually restrict the user in Telegram (if in a group)
-			if (ctx.chat?.type === "group" || ctx.chat?.type === "supergroup") {
-				await ctx.telegram.restrictChatMember(ctx.chat.id, userId, {
-					permissions: {
-						can_send_messages: false,
-						can_send_audios: false,
-						can_send_documents: false,
-						can_send_photos: false,
-						can_send_videos: false,
-						can_send_video_notes: false,
-						can_send_voice_notes: false,
-						can_send_polls: false,
-						can_send_other_messages: false,
-						can_add_web_page_previews: false,
-						can_change_info: false,
-						can_invite_users: false,
-						can_pin_messages: false,
-						can_manage_topics: false,
-					},
-					until_date: mutedUntil,
-				});
-			}
+				chatId: ctx.chat?.id ?? null,
+				source: "automod",
+				reason: "auto_spam_detection",
+				metadata: { restriction: restriction.restriction },
+				durationMinutes: duration,
+				bailAmount: fine,
+				telegram: ctx.telegram,
+			});
 
 			// Notify user with payment guidance
 			const days = Math.round(duration / 1440);
@@ -338,66 +462,31 @@ View your violations: ${code("/violations")}`,
 	 */
 	private static async applyImmediateJail(
 		ctx: Context,
-		restriction: UserRestriction,
+		restriction: string,
+		duration = 60, // 1 hour for immediate jail
+		fine = 5.0, // 5 JUNO fine
 	): Promise<void> {
 		if (!ctx.from) return;
 
 		const userId = ctx.from.id;
-		const duration = 60; // 1 hour for immediate jail
-		const fine = 5.0; // 5 JUNO fine
 
 		try {
-			const mutedUntil = Math.floor(Date.now() / 1000) + duration * 60;
-
-			// Update database
-			execute("UPDATE users SET muted_until = ?, updated_at = ? WHERE id = ?", [
-				mutedUntil,
-				Math.floor(Date.now() / 1000),
+			// Jail only in the chat where the violation happened
+			await ModerationActionService.jail({
 				userId,
-			]);
-
-			// Log the jail event
-			JailService.logJailEvent(
-				userId,
-				"jailed",
-				undefined,
-				duration,
-				fine,
-				undefined,
-				undefined,
-				{
-					reason: "restriction_violation",
-					restriction: restriction.restriction,
-				},
-			);
-
-			// Actually restrict the user in Telegram (if in a group)
-			if (ctx.chat?.type === "group" || ctx.chat?.type === "supergroup") {
-				await ctx.telegram.restrictChatMember(ctx.chat.id, userId, {
-					permissions: {
-						can_send_messages: false,
-						can_send_audios: false,
-						can_send_documents: false,
-						can_send_photos: false,
-						can_send_videos: false,
-						can_send_video_notes: false,
-						can_send_voice_notes: false,
-						can_send_polls: false,
-						can_send_other_messages: false,
-						can_add_web_page_previews: false,
-						can_change_info: false,
-						can_invite_users: false,
-						can_pin_messages: false,
-						can_manage_topics: false,
-					},
-					until_date: mutedUntil,
-				});
-			}
+				chatId: ctx.chat?.id ?? null,
+				source: "automod",
+				reason: "restriction_violation",
+				metadata: { restriction },
+				durationMinutes: duration,
+				bailAmount: fine,
+				telegram: ctx.telegram,
+			});
 
 			await ctx.reply(
 				fmt`${bold("JAILED - Restriction Violation")}
 
-You have been jailed for ${duration} minutes for violating: ${restriction.restriction}
+You have been jailed for ${duration} minutes for violating: ${restriction}
 
 ${bold(`Fine: ${fine} JUNO`)}
 
@@ -411,7 +500,7 @@ View your violations: ${code("/violations")}`,
 
 			logger.info("Immediate jail applied", {
 				userId,
-				restriction: restriction.restriction,
+				restriction: restriction,
 			});
 		} catch (error) {
 			logger.error("Failed to apply immediate jail", { userId, error });
@@ -419,49 +508,30 @@ View your violations: ${code("/violations")}`,
 	}
 
 	/**
-	 * Apply temporary mute for medium-severity restrictions
+	 * Apply temporary mute for medium-severity restrictions and floods
 	 * Uses Telegram's restrictChatMember API to actually mute the user
 	 */
-	private static async applyTemporaryMute(
+	static async applyTemporaryMute(
 		ctx: Context,
 		userId: number,
+		duration = 30, // 30 minutes
+		reason = "Restriction Violation",
+		cause: ModerationReason = "restriction_violation",
 	): Promise<void> {
-		const duration = 30; // 30 minutes
-
 		try {
-			const mutedUntil = Math.floor(Date.now() / 1000) + duration * 60;
-
-			// Actually mute the user in Telegram (remove send message permissions)
-			if (ctx.chat?.type === "group" || ctx.chat?.type === "supergroup") {
-				await ctx.telegram.restrictChatMember(ctx.chat.id, userId, {
-					permissions: {
-						can_send_messages: false,
-						can_send_audios: false,
-						can_send_documents: false,
-						can_send_photos: false,
-						can_send_videos: false,
-						can_send_video_notes: false,
-						can_send_voice_notes: false,
-						can_send_polls: false,
-						can_send_other_messages: false,
-						can_add_web_page_previews: false,
-						can_change_info: false,
-						can_invite_users: false,
-						can_pin_messages: false,
-						can_manage_topics: false,
-					},
-					until_date: mutedUntil,
-				});
-			}
-
-			// Update user's muted_until timestamp in database
-			execute("UPDATE users SET muted_until = ? WHERE id = ?", [
-				mutedUntil,
+			// Record the mute as a jail in this chat, so it can be bailed out of
+			await ModerationActionService.jail({
 				userId,
-			]);
+				chatId: ctx.chat?.id ?? null,
+				source: "automod",
+				reason: cause,
+				note: reason,
+				durationMinutes: duration,
+				telegram: ctx.telegram,
+			});
 
 			await ctx.reply(
-				fmt`${bold("MUTED - Restriction Violation")}
+				fmt`${bold(`MUTED - ${reason}`)}
 
 You have been temporarily muted for ${duration} minutes.
 
@@ -472,7 +542,7 @@ ${bold("Warning:")} Continued violations will result in automatic jail with a fi
 View your violations: ${code("/violations")}`,
 			);
 
-			logger.info("Temporary mute applied", { userId, duration });
+			logger.info("Temporary mute applied", { userId, duration, reason });
 		} catch (error) {
 			logger.error("Failed to apply temporary mute", { userId, error });
 		}
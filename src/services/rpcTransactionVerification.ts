@@ -1,6 +1,8 @@
 import { config } from "../config";
+import { decodeDepositTx } from "../utils/depositTx";
 import { logger } from "../utils/logger";
 import { AmountPrecision } from "../utils/precision";
+import { DepositInstructionService } from "./depositInstructions";
 
 interface RPCTransactionResponse {
 	jsonrpc: string;
@@ -91,7 +93,7 @@ export class RPCTransactionVerification {
 			}
 
 			// Parse the transaction
-			const parsed = await RPCTransactionVerification.parseRPCTransaction(
+			const parsed = RPCTransactionVerification.parseRPCTransaction(
 				rpcResponse.result,
 			);
 
@@ -116,11 +118,13 @@ export class RPCTransactionVerification {
 	}
 
 	/**
-	 * Parse the RPC transaction response
+	 * Parse the RPC transaction response.
+	 * Transfers and the fee come from the events; the memo is decoded from
+	 * the signed transaction (see utils/depositTx).
 	 */
-	private static async parseRPCTransaction(
+	private static parseRPCTransaction(
 		result: RPCTransactionResponse["result"],
-	): Promise<ParsedTransaction> {
+	): ParsedTransaction {
 		const parsed: ParsedTransaction = {
 			hash: result.hash,
 			status: result.tx_result.code,
@@ -130,123 +134,6 @@ export class RPCTransactionVerification {
 			gasWanted: parseInt(result.tx_result.gas_wanted, 10),
 		};
 
-		// Decode the transaction to get memo
-		try {
-			// The tx field is base64 encoded - decode it to get the memo
-			const txBytes = Buffer.from(result.tx, "base64");
-
-			// In Cosmos SDK transactions, the memo appears after the message body
-			// Looking for the specific pattern where memo appears after the amount "1000000"
-			// Based on the example tx, the structure is:
-			// ... "1000000" [0x12] [length] [memo] [0x12] ...
-
-			// Find the transfer amount position first
-			const txString = txBytes.toString("latin1");
-			const amountPattern = "1000000"; // The transfer amount in ujuno
-			const amountIndex = txString.indexOf(amountPattern);
-
-			if (amountIndex >= 0) {
-				// Look for memo field after the amount
-				// Start searching from after the amount string
-				const searchStart = amountIndex + amountPattern.length;
-
-				for (
-					let i = searchStart;
-					i < txBytes.length - 2 && i < searchStart + 20;
-					i++
-				) {
-					// Check for field tag 0x12 (common for string fields in protobuf)
-					if (txBytes[i] === 0x12) {
-						const length = txBytes[i + 1];
-
-						// Memo should be relatively short (user IDs are typically < 20 chars)
-						if (
-							length > 0 &&
-							length <= 20 &&
-							i + 2 + length <= txBytes.length
-						) {
-							const memoBytes = txBytes.slice(i + 2, i + 2 + length);
-							const potentialMemo = memoBytes.toString("utf8");
-
-							// Validate it's all printable ASCII
-							if (/^[\x20-\x7E]+$/.test(potentialMemo)) {
-								// Check if it's NOT a Juno address (those start with "juno1")
-								if (!potentialMemo.startsWith("juno1")) {
-									// For user IDs, we expect numeric values
-									// But also allow alphanumeric for flexibility
-									if (
-										/^\d+$/.test(potentialMemo) ||
-										/^[a-zA-Z0-9_-]+$/.test(potentialMemo)
-									) {
-										parsed.memo = potentialMemo;
-										break;
-									}
-								}
-							}
-						}
-					}
-				}
-			}
-
-			// Alternative method: Look for all 0x12 tags with short lengths
-			if (!parsed.memo) {
-				const memoFields: string[] = [];
-
-				for (let i = 0; i < txBytes.length - 2; i++) {
-					if (txBytes[i] === 0x12) {
-						const length = txBytes[i + 1];
-
-						// Focus on short strings (typical for memos/user IDs)
-						if (
-							length >= 1 &&
-							length <= 15 &&
-							i + 2 + length <= txBytes.length
-						) {
-							const fieldBytes = txBytes.slice(i + 2, i + 2 + length);
-							const fieldStr = fieldBytes.toString("utf8");
-
-							// Must be printable ASCII
-							if (/^[\x20-\x7E]+$/.test(fieldStr)) {
-								// Skip if it looks like an address or known field
-								if (
-									!fieldStr.startsWith("juno1") &&
-									!fieldStr.includes("cosmos") &&
-									!fieldStr.includes("bank") &&
-									!fieldStr.includes("ujuno")
-								) {
-									// Prefer numeric memos (user IDs)
-									if (/^\d+$/.test(fieldStr)) {
-										memoFields.push(fieldStr);
-									}
-								}
-							}
-						}
-					}
-				}
-
-				// Pick the most likely memo (prefer numeric values)
-				if (memoFields.length > 0) {
-					// Filter out values that are likely gas or other amounts
-					const filtered = memoFields.filter(
-						(m) =>
-							m !== "99334" && // gas used
-							m !== "122282" && // gas wanted
-							m !== "9172" && // fee
-							m !== "1000000", // transfer amount
-					);
-
-					if (filtered.length > 0) {
-						parsed.memo = filtered[0];
-					}
-				}
-			}
-		} catch (error) {
-			logger.warn("Failed to decode memo from transaction", {
-				hash: result.hash,
-				error,
-			});
-		}
-
 		// Parse events to extract transfers
 		for (const event of result.tx_result.events) {
 			if (event.type === "transfer") {
@@ -303,6 +190,15 @@ export class RPCTransactionVerification {
 			}
 		}
 
+		try {
+			parsed.memo = decodeDepositTx(result.tx, "").memo || undefined;
+		} catch (error) {
+			logger.warn("Failed to decode memo from transaction", {
+				hash: result.hash,
+				error,
+			});
+		}
+
 		return parsed;
 	}
 
@@ -351,20 +247,22 @@ export class RPCTransactionVerification {
 			};
 		}
 
-		// Check memo matches expected userId
-		const expectedMemo = expectedUserId.toString();
-		if (tx.memo !== expectedMemo) {
+		// Check memo routes the deposit to the expected user
+		const memoCheck = DepositInstructionService.validateMemo(
+			tx.memo ?? "",
+			expectedUserId,
+		);
+		if (!memoCheck.valid) {
 			logger.warn("Deposit memo mismatch", {
-				expected: expectedMemo,
+				expectedUserId,
 				actual: tx.memo,
 				txHash,
 			});
 
-			// Strict check - memo must exactly match
 			return {
 				valid: false,
 				memo: tx.memo,
-				error: `Invalid memo. Expected: ${expectedMemo}, Got: ${tx.memo || "none"}`,
+				error: `Invalid memo (${memoCheck.error}). Got: ${tx.memo || "none"}`,
 			};
 		}
 
@@ -496,61 +394,4 @@ export class RPCTransactionVerification {
 			height: result.data.height,
 		};
 	}
-
-	/**
-	 * Extract memo from base64 encoded transaction
-	 * More sophisticated memo extraction
-	 */
-	static extractMemo(base64Tx: string): string | undefined {
-		try {
-			const txBytes = Buffer.from(base64Tx, "base64");
-			const txString = txBytes.toString("utf8");
-
-			// In Cosmos SDK transactions, memo appears after the messages
-			// Look for string patterns that are likely memos
-			// Memos are typically human-readable ASCII text
-
-			// Method 1: Look for numeric patterns (common for user IDs)
-			const numericMemo = txString.match(
-				/(?:ujuno[^\d]*)(\d{1,20})(?:[^\d]|$)/,
-			);
-			if (numericMemo?.[1]) {
-				// Verify it's not part of the amount
-				const memoCandidate = numericMemo[1];
-				// If it's not exactly 1000000 (1 JUNO in ujuno), it might be a memo
-				if (memoCandidate !== "1000000" && memoCandidate.length < 10) {
-					return memoCandidate;
-				}
-			}
-
-			// Method 2: Look for ASCII text after amount
-			const parts = txString.split(/[\x00-\x08\x0B-\x0C\x0E-\x1F]/);
-			for (const part of parts) {
-				// Look for parts that could be memos
-				if (part.length > 0 && part.length < 100) {
-					// Check if it's mostly ASCII printable
-					if (/^[\x20-\x7E]+$/.test(part)) {
-						// Skip if it looks like an address or amount
-						if (!part.includes("juno1") && !part.includes("ujuno")) {
-							return part.trim();
-						}
-					}
-				}
-			}
-
-			// Method 3: For the specific example, "123456" appears after amount
-			const afterUjuno = txString.split("ujuno").pop();
-			if (afterUjuno) {
-				const cleanText = afterUjuno.replace(/[^\x20-\x7E]/g, " ").trim();
-				const words = cleanText.split(/\s+/);
-				if (words[0] && words[0].length < 50) {
-					return words[0];
-				}
-			}
-		} catch (error) {
-			logger.debug("Failed to extract memo", { error });
-		}
-
-		return undefined;
-	}
 }
@@ -0,0 +1,386 @@
+/**
+ * Rules engine service module.
+ * Rules map a restriction violation to an escalation ladder, so repeat
+ * offenders move from warnings to fines, mutes, jails and finally a ban.
+ *
+ * A rule's condition is a restriction type plus an optional match value
+ * compared against the violated restriction's action (sticker pack, domain
+ * or regex pattern). When several rules match, chat-specific rules beat
+ * network-wide ones, rules with a match value beat catch-all rules and then
+ * the highest severity wins.
+ *
+ * @module services/ruleService
+ */
+
+import { execute, get, query } from "../database";
+import type { RestrictionType, Rule } from "../types";
+import { StructuredLogger } from "../utils/logger";
+
+/**
+ * Restriction types a rule can be attached to.
+ */
+export const RULE_TYPES: RestrictionType[] = [
+	"no_stickers",
+	"no_urls",
+	"regex_block",
+	"no_media",
+	"no_photos",
+	"no_videos",
+	"no_documents",
+	"no_gifs",
+	"no_voice",
+	"no_forwarding",
+	"muted",
+];
+
+/**
+ * Actions available on an escalation ladder, from mildest to harshest.
+ */
+export const ESCALATION_ACTIONS = [
+	"warn",
+	"fine",
+	"mute",
+	"jail",
+	"ban",
+] as const;
+
+export type EscalationAction = (typeof ESCALATION_ACTIONS)[number];
+
+/**
+ * One step of an escalation ladder.
+ */
+export interface EscalationStep {
+	action: EscalationAction;
+	/** Fine in USD (fine steps only) */
+	fineUsd?: number;
+	/** Duration in minutes (mute and jail steps only) */
+	minutes?: number;
+}
+
+/**
+ * Parsed rule definition.
+ */
+export interface RuleDefinition {
+	id: number;
+	type: string;
+	/** Restricted action the rule matches, or null for every restriction of the type */
+	matchValue: string | null;
+	description: string | null;
+	severity: number;
+	escalation: EscalationStep[];
+	/** Chat the rule applies to, or null for every chat */
+	chatId: number | null;
+	createdBy: number | null;
+	createdAt: number;
+}
+
+/**
+ * Escalation step a user has reached for a rule.
+ */
+export interface RuleEscalation {
+	rule: RuleDefinition;
+	step: EscalationStep;
+	/** Zero-based position of the step on the ladder */
+	stepIndex: number;
+	/** Earlier violations of the rule inside the escalation window */
+	priorViolations: number;
+}
+
+/** Ladder used when a rule is created without one */
+export const DEFAULT_ESCALATION = "warn,fine:1,mute:30,jail:1440,ban";
+
+/** Violations older than this no longer count towards escalation */
+export const ESCALATION_WINDOW_DAYS = 30;
+
+const DEFAULT_MUTE_MINUTES = 30;
+const DEFAULT_JAIL_MINUTES = 1440;
+
+/**
+ * Service class for violation rules and their escalation ladders.
+ */
+export class RuleService {
+	/**
+	 * Parses an escalation ladder such as "warn,fine:1,mute:30,jail:1440,ban".
+	 * Fine steps take a USD amount; mute and jail steps take minutes.
+	 *
+	 * @param spec - Comma-separated ladder
+	 * @returns Parsed steps in order
+	 * @throws {Error} If a step is unknown or its value is invalid
+	 */
+	static parseEscalation(spec: string): EscalationStep[] {
+		const tokens = spec
+			.split(",")
+			.map((token) => token.trim().toLowerCase())
+			.filter(Boolean);
+
+		if (tokens.length === 0) {
+			throw new Error("Escalation ladder is empty");
+		}
+
+		return tokens.map((token) => {
+			const [action, value] = token.split(":");
+			switch (action) {
+				case "warn":
+				case "ban":
+					if (value !== undefined) {
+						throw new Error(`${action} does not take a value`);
+					}
+					return { action };
+
+				case "fine": {
+					const fineUsd = Number(value);
+					if (!value || !Number.isFinite(fineUsd) || fineUsd <= 0) {
+						throw new Error("fine needs a positive USD amount, e.g. fine:1.5");
+					}
+					return { action, fineUsd };
+				}
+
+				case "mute":
+				case "jail": {
+					const minutes =
+						value === undefined
+							? action === "mute"
+								? DEFAULT_MUTE_MINUTES
+								: DEFAULT_JAIL_MINUTES
+							: Number(value);
+					if (!Number.isInteger(minutes) || minutes <= 0) {
+						throw new Error(`${action} needs a positive number of minutes`);
+					}
+					return { action, minutes };
+				}
+
+				default:
+					throw new Error(`Unknown escalation step: ${action}`);
+			}
+		});
+	}
+
+	/**
+	 * Formats an escalation ladder back into its command syntax.
+	 *
+	 * @param steps - Escalation steps
+	 * @returns Comma-separated ladder
+	 */
+	static formatEscalation(steps: EscalationStep[]): string {
+		return steps
+			.map((step) => {
+				if (step.action === "fine") return `fine:${step.fineUsd}`;
+				if (step.action === "mute" || step.action === "jail") {
+					return `${step.action}:${step.minutes}`;
+				}
+				return step.action;
+			})
+			.join(",");
+	}
+
+	/**
+	 * Creates a rule.
+	 *
+	 * @param type - Restriction type the rule applies to
+	 * @param matchValue - Restricted action to match, or null for any
+	 * @param escalation - Escalation ladder
+	 * @param description - Human readable description
+	 * @param chatId - Chat the rule applies to, or null for every chat
+	 * @param createdBy - Admin creating the rule
+	 * @param severity - Priority when several rules match
+	 * @returns ID of the new rule
+	 */
+	static addRule(
+		type: string,
+		matchValue: string | null,
+		escalation: EscalationStep[],
+		description: string | null,
+		chatId: number | null,
+		createdBy: number,
+		severity = 1,
+	): number {
+		const now = Math.floor(Date.now() / 1000);
+		const result = execute(
+			`INSERT INTO rules (type, specific_action, escalation, description, chat_id, severity, created_by, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+			[
+				type,
+				matchValue,
+				JSON.stringify(escalation),
+				description,
+				chatId,
+				severity,
+				createdBy,
+				now,
+				now,
+			],
+		);
+		const ruleId = Number(result.lastInsertRowid);
+
+		StructuredLogger.logUserAction("Rule created", {
+			userId: createdBy,
+			operation: "add_rule",
+			ruleId,
+			type,
+			chatId,
+		});
+
+		return ruleId;
+	}
+
+	/**
+	 * Updates fields of a rule.
+	 *
+	 * @param ruleId - Rule ID
+	 * @param changes - Fields to change
+	 * @param updatedBy - Admin making the change
+	 * @returns True if the rule exists
+	 */
+	static updateRule(
+		ruleId: number,
+		changes: {
+			matchValue?: string | null;
+			escalation?: EscalationStep[];
+			description?: string | null;
+			severity?: number;
+		},
+		updatedBy: number,
+	): boolean {
+		const rule = RuleService.getRule(ruleId);
+		if (!rule) return false;
+
+		const updated = { ...rule, ...changes };
+		execute(
+			`UPDATE rules
+       SET specific_action = ?, escalation = ?, description = ?, severity = ?, updated_at = ?
+       WHERE id = ?`,
+			[
+				updated.matchValue,
+				JSON.stringify(updated.escalation),
+				updated.description,
+				updated.severity,
+				Math.floor(Date.now() / 1000),
+				ruleId,
+			],
+		);
+
+		StructuredLogger.logUserAction("Rule updated", {
+			userId: updatedBy,
+			operation: "edit_rule",
+			ruleId,
+			fields: Object.keys(changes).join(","),
+		});
+
+		return true;
+	}
+
+	/**
+	 * Deletes a rule. Violations keep their rule ID for history.
+	 *
+	 * @param ruleId - Rule ID
+	 * @param removedBy - Admin removing the rule
+	 * @returns True if a rule was deleted
+	 */
+	static removeRule(ruleId: number, removedBy: number): boolean {
+		const result = execute("DELETE FROM rules WHERE id = ?", [ruleId]);
+		if (result.changes === 0) return false;
+
+		StructuredLogger.logUserAction("Rule removed", {
+			userId: removedBy,
+			operation: "remove_rule",
+			ruleId,
+		});
+		return true;
+	}
+
+	/**
+	 * Gets a rule by ID.
+	 *
+	 * @param ruleId - Rule ID
+	 * @returns Parsed rule, or null if not found
+	 */
+	static getRule(ruleId: number): RuleDefinition | null {
+		const row = get<Rule>("SELECT * FROM rules WHERE id = ?", [ruleId]);
+		return row ? RuleService.toDefinition(row) : null;
+	}
+
+	/**
+	 * Lists rules, optionally only those that apply in a chat.
+	 *
+	 * @param chatId - Chat to list rules for (omit for every rule)
+	 * @returns Rules ordered by ID
+	 */
+	static listRules(chatId?: number): RuleDefinition[] {
+		const rows =
+			chatId === undefined
+				? query<Rule>("SELECT * FROM rules ORDER BY id", [])
+				: query<Rule>(
+						"SELECT * FROM rules WHERE chat_id IS NULL OR chat_id = ? ORDER BY id",
+						[chatId],
+					);
+		return rows.map((row) => RuleService.toDefinition(row));
+	}
+
+	/**
+	 * Finds the rule governing a violated restriction.
+	 *
+	 * @param type - Violated restriction type
+	 * @param restrictedAction - Action of the violated restriction, if any
+	 * @param chatId - Chat the violation happened in
+	 * @returns Best matching rule, or null if no rule applies
+	 */
+	static resolveRule(
+		type: string,
+		restrictedAction?: string | null,
+		chatId?: number | null,
+	): RuleDefinition | null {
+		const row = get<Rule>(
+			`SELECT * FROM rules
+       WHERE type = ?
+       AND (specific_action IS NULL OR specific_action = ?)
+       AND (chat_id IS NULL OR chat_id = ?)
+       ORDER BY chat_id IS NULL, specific_action IS NULL, severity DESC, id
+       LIMIT 1`,
+			[type, restrictedAction ?? null, chatId ?? null],
+		);
+		return row ? RuleService.toDefinition(row) : null;
+	}
+
+	/**
+	 * Determines the escalation step for a user's next violation of a rule.
+	 * Each earlier violation of the rule inside the escalation window moves
+	 * the user one step up the ladder; the last step repeats.
+	 *
+	 * @param rule - Matched rule
+	 * @param userId - Offending user
+	 * @returns Step to apply
+	 */
+	static getEscalation(rule: RuleDefinition, userId: number): RuleEscalation {
+		const since =
+			Math.floor(Date.now() / 1000) - ESCALATION_WINDOW_DAYS * 24 * 60 * 60;
+		const result = get<{ count: number }>(
+			"SELECT COUNT(*) as count FROM violations WHERE rule_id = ? AND user_id = ? AND timestamp > ?",
+			[rule.id, userId, since],
+		);
+		const priorViolations = result?.count || 0;
+		const stepIndex = Math.min(priorViolations, rule.escalation.length - 1);
+
+		return {
+			rule,
+			step: rule.escalation[stepIndex],
+			stepIndex,
+			priorViolations,
+		};
+	}
+
+	private static toDefinition(row: Rule): RuleDefinition {
+		return {
+			id: row.id,
+			type: row.type,
+			matchValue: row.specific_action,
+			description: row.description,
+			severity: row.severity ?? 1,
+			escalation: row.escalation
+				? JSON.parse(row.escalation)
+				: RuleService.parseEscalation(DEFAULT_ESCALATION),
+			chatId: row.chat_id,
+			createdBy: row.created_by,
+			createdAt: row.created_at,
+		};
+	}
+}
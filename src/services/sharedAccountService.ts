@@ -115,7 +115,7 @@ export class SharedAccountService {
 
 		// Initialize balance in user_balances
 		const { LedgerService } = await import("./ledgerService");
-		await LedgerService.ensureUserBalance(accountId);
+		LedgerService.ensureUserBalance(accountId);
 
 		StructuredLogger.logUserAction("Shared account created", {
 			userId: createdBy,
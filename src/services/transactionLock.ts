@@ -270,14 +270,14 @@ export class TransactionLockService {
 			`SELECT * FROM transactions
        WHERE ${type === "withdrawal" ? "from_user_id" : "to_user_id"} = ?
        AND transaction_type = ?
-       AND ABS(amount - ?) < 0.000001
+       AND amount_ujuno = ?
        AND created_at > ?
        ORDER BY created_at DESC
        LIMIT 1`,
 			[
 				userId,
 				type,
-				amount,
+				AmountPrecision.toMicroJuno(amount),
 				Math.floor(Date.now() / 1000) - 300, // Last 5 minutes
 			],
 		);
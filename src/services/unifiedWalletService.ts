@@ -1,13 +1,31 @@
 import { DirectSecp256k1HdWallet } from "@cosmjs/proto-signing";
-import { GasPrice, SigningStargateClient } from "@cosmjs/stargate";
+import { SigningStargateClient } from "@cosmjs/stargate";
 import type { FmtString } from "telegraf/format";
 import { config } from "../config";
-import { execute, get, query } from "../database";
+import { execute, get, query, withTransaction } from "../database";
+import { parseWithdrawalAddress } from "../utils/address";
+import { extractRpcDeposits } from "../utils/depositTx";
 import { logger } from "../utils/logger";
 import { AmountPrecision } from "../utils/precision";
+import { searchIncomingTxs } from "../utils/txSearch";
+import {
+	CW20_DENOM_PREFIX,
+	DEFAULT_DENOM,
+	type DenomAmount,
+	DenomService,
+} from "./denomService";
+import { DepositCodeService } from "./depositCodeService";
 import { DepositInstructionService } from "./depositInstructions";
-import { LedgerService } from "./ledgerService";
+import { EventBus } from "./eventBus";
+import { LedgerService, type LedgerTransactionRow } from "./ledgerService";
+import { MaintenanceService } from "./maintenanceService";
+import { PaymentReceiptService } from "./paymentReceiptService";
 import { TransactionLockService } from "./transactionLock";
+import {
+	type PolicyDecision,
+	WithdrawalPolicyService,
+} from "./withdrawalPolicy";
+import { WithdrawalQueueService } from "./withdrawalQueue";
 
 // Special user IDs for system accounts
 export const SYSTEM_USER_IDS = {
@@ -19,6 +37,10 @@ export const SYSTEM_USER_IDS = {
 	GIVEAWAY_ESCROW_BASE: -1000,
 };
 
+// How long a withdrawal command waits for on-chain confirmation before
+// reporting the withdrawal as queued
+const WITHDRAWAL_WAIT_MS = 60_000;
+
 /** Get escrow user ID for a specific giveaway */
 export function getGiveawayEscrowId(giveawayId: number): number {
 	return SYSTEM_USER_IDS.GIVEAWAY_ESCROW_BASE - giveawayId;
@@ -32,9 +54,15 @@ interface User {
 interface DepositCheck {
 	txHash: string;
 	userId?: number | null;
+	/** Amount in display units of the denom */
 	amount: number;
+	denom: string;
 	fromAddress: string;
+	/** Address that paid the transaction fee */
+	feePayer?: string;
 	memo: string;
+	/** Likely owner of a deposit whose memo could not be resolved */
+	suggestedUserId?: number;
 	height: number;
 	timestamp: number;
 }
@@ -92,6 +120,21 @@ export class UnifiedWalletService {
 		// Initialize system users in the ledger
 		await UnifiedWalletService.initSysUsers();
 
+		// Start paying queued withdrawals (resumes any interrupted by a restart)
+		const signer = UnifiedWalletService.wallet;
+		if (signer) {
+			const [account] = await signer.getAccounts();
+			await WithdrawalQueueService.initialize({
+				address: account.address,
+				connect: () =>
+					SigningStargateClient.connectWithSigner(
+						UnifiedWalletService.rpcEndpoint,
+						signer,
+					),
+				batchSize: config.withdrawalBatchSize,
+			});
+		}
+
 		// Get last checked height for deposits
 		const lastProcessed = get<{ height: number }>(
 			"SELECT MAX(height) as height FROM processed_deposits",
@@ -123,7 +166,7 @@ export class UnifiedWalletService {
 				"system",
 				"system_initialization",
 			);
-			await LedgerService.ensureUserBalance(SYSTEM_USER_IDS.BOT_TREASURY);
+			LedgerService.ensureUserBalance(SYSTEM_USER_IDS.BOT_TREASURY);
 			logger.info("Created bot treasury user in ledger");
 		}
 
@@ -135,7 +178,7 @@ export class UnifiedWalletService {
 				"system",
 				"system_initialization",
 			);
-			await LedgerService.ensureUserBalance(SYSTEM_USER_IDS.SYSTEM_RESERVE);
+			LedgerService.ensureUserBalance(SYSTEM_USER_IDS.SYSTEM_RESERVE);
 			logger.info("Created system reserve user in ledger");
 		}
 
@@ -147,7 +190,7 @@ export class UnifiedWalletService {
 				"system",
 				"system_initialization",
 			);
-			await LedgerService.ensureUserBalance(SYSTEM_USER_IDS.UNCLAIMED);
+			LedgerService.ensureUserBalance(SYSTEM_USER_IDS.UNCLAIMED);
 			logger.info("Created unclaimed deposits user in ledger");
 		}
 	}
@@ -178,67 +221,52 @@ export class UnifiedWalletService {
 				// Skip failed transactions
 				if (tx.tx_result.code !== 0) continue;
 
-				// Check if already in database
-				const existing = get<any>(
-					"SELECT * FROM processed_deposits WHERE tx_hash = ?",
-					[tx.hash],
-				);
-				if (existing) {
-					skippedCount++;
-					continue;
-				}
-
-				// Extract deposit info
-				let amount = 0;
-				let fromAddress = "";
-
-				for (const event of tx.tx_result.events) {
-					if (event.type === "transfer") {
-						const recipient = event.attributes.find(
-							(a: any) => a.key === "recipient",
-						)?.value;
-						const amountStr = event.attributes.find(
-							(a: any) => a.key === "amount",
-						)?.value;
-						const sender = event.attributes.find(
-							(a: any) => a.key === "sender",
-						)?.value;
-
-						if (recipient === UnifiedWalletService.walletAddress && amountStr) {
-							const match = amountStr.match(/^(\d+)ujuno$/);
-							if (match) {
-								amount = parseFloat(match[1]) / 1_000_000;
-								fromAddress = sender || "";
-							}
-						}
+				// Extract deposit info, one deposit per denom received
+				for (const extracted of extractRpcDeposits(
+					tx,
+					UnifiedWalletService.walletAddress,
+					DenomService.depositDenoms(),
+				)) {
+					const { amount, denom, fromAddress, memo, feePayer } = extracted;
+
+					// Check if already in database
+					const existing = get<any>(
+						"SELECT * FROM processed_deposits WHERE tx_hash = ? AND denom = ?",
+						[tx.hash, denom],
+					);
+					if (existing) {
+						skippedCount++;
+						continue;
 					}
-				}
-
-				if (amount === 0) continue;
 
-				// Extract memo
-				const memo = UnifiedWalletService.parseMemo(tx.tx, amount);
-				const userId = UnifiedWalletService.parseUserId(memo);
+					const { userId, suggestedUserId } =
+						DepositCodeService.resolveMemo(memo);
 
-				// Process this missed deposit
-				await UnifiedWalletService.processDeposit({
-					txHash: tx.hash,
-					userId,
-					amount,
-					fromAddress,
-					memo,
-					height: parseInt(tx.height, 10),
-					timestamp: Math.floor(Date.now() / 1000),
-				});
+					// Process this missed deposit
+					await UnifiedWalletService.processDeposit({
+						txHash: tx.hash,
+						userId,
+						amount,
+						denom,
+						fromAddress,
+						feePayer,
+						memo,
+						suggestedUserId,
+						height: parseInt(tx.height, 10),
+						timestamp: Math.floor(Date.now() / 1000),
+					});
 
-				processedCount++;
+					processedCount++;
 
-				logger.info("Processed missed deposit during reconciliation", {
-					txHash: tx.hash,
-					amount,
-					userId: userId || "unclaimed",
-					memo,
-				});
+					logger.info("Processed missed deposit during reconciliation", {
+						txHash: tx.hash,
+						amount,
+						denom,
+						userId: userId || "unclaimed",
+						memo,
+						feePayer,
+					});
+				}
 			}
 
 			logger.info("Startup reconciliation complete", {
@@ -278,33 +306,52 @@ export class UnifiedWalletService {
 	 * Check for new deposits
 	 */
 	private static async checkForDeposits(): Promise<void> {
+		// The height cursor stays put while deposits are paused, so every
+		// deposit made in the meantime is fetched from it on resume
+		if (MaintenanceService.isPaused("deposits")) {
+			return;
+		}
+
 		try {
-			const deposits = await UnifiedWalletService.fetchRecentDeposits();
+			const { deposits, scannedHeight } =
+				await UnifiedWalletService.fetchRecentDeposits();
+			let cursor = scannedHeight;
 
 			for (const deposit of deposits) {
+				// Paused mid-poll: resume from the block of this deposit
+				if (MaintenanceService.isPaused("deposits")) {
+					cursor = deposit.height - 1;
+					break;
+				}
 				await UnifiedWalletService.processDeposit(deposit);
 			}
+
+			UnifiedWalletService.lastCheckedHeight = Math.max(
+				UnifiedWalletService.lastCheckedHeight,
+				cursor,
+			);
 		} catch (error) {
 			logger.error("Failed to check deposits", error);
 		}
 	}
 
 	/**
-	 * Fetch recent deposits from blockchain via Cosmos REST API.
+	 * Fetch deposits made after the height cursor, oldest first.
 	 *
 	 * This function queries the blockchain for transactions sent to the bot's wallet address,
-	 * verifies they are valid JUNO transfers, and extracts the userId from the memo field.
+	 * verifies they are transfers of a registered denom, and extracts the userId from the memo field.
 	 *
 	 * **Critical:** Only processes transactions with:
 	 * 1. Successful status (code === 0)
-	 * 2. Denomination === 'ujuno' (base denom for JUNO)
+	 * 2. A denom enabled in the denom registry ('ujuno' preferred)
 	 * 3. Valid memo containing a numeric userId
 	 *
-	 * **Amount Conversion:** JUNO uses 6 decimals, so:
+	 * **Amount Conversion:** amounts are divided by 10^decimals of the denom;
+	 * JUNO uses 6 decimals, so:
 	 * - 1 JUNO = 1,000,000 ujuno
 	 * - Amount in ujuno is divided by 1,000,000 to get JUNO
 	 *
-	 * @returns Array of deposits to process
+	 * @returns Deposits to process, and the height the cursor can move to once they are processed
 	 *
 	 * @example
 	 * On-chain transaction:
@@ -312,26 +359,24 @@ export class UnifiedWalletService {
 	 * - Memo: "123456"
 	 * - Converted: 100.000000 JUNO credited to user 123456
 	 */
-	private static async fetchRecentDeposits(): Promise<DepositCheck[]> {
+	private static async fetchRecentDeposits(): Promise<{
+		deposits: DepositCheck[];
+		scannedHeight: number;
+	}> {
 		try {
 			// Use RPC tx_search instead of REST API
-			const query = `transfer.recipient='${UnifiedWalletService.walletAddress}'`;
-			const url = `${UnifiedWalletService.rpcEndpoint}/tx_search?query="${encodeURIComponent(query)}"&prove=false&per_page=20`;
-
-			const response = await fetch(url);
-
-			if (!response.ok) {
-				throw new Error(`RPC request failed: ${response.status}`);
-			}
-
-			const data = (await response.json()) as any;
+			const { txs, scannedHeight } = await searchIncomingTxs(
+				UnifiedWalletService.rpcEndpoint,
+				UnifiedWalletService.walletAddress,
+				UnifiedWalletService.lastCheckedHeight,
+			);
 			const deposits: DepositCheck[] = [];
 
-			for (const tx of data.result?.txs || []) {
+			for (const tx of txs) {
 				const height = parseInt(tx.height, 10);
 
-				// Skip if already processed
-				if (height <= UnifiedWalletService.lastCheckedHeight) {
+				// Beyond a block the search stopped in; fetched again next poll
+				if (height > scannedHeight) {
 					continue;
 				}
 
@@ -344,158 +389,48 @@ export class UnifiedWalletService {
 					continue;
 				}
 
-				// Extract amount and sender from events (already decoded JSON)
-				let amount = 0;
-				let fromAddress = "";
-
-				for (const event of tx.tx_result.events) {
-					if (event.type === "transfer") {
-						const recipient = event.attributes.find(
-							(a: any) => a.key === "recipient",
-						)?.value;
-						const amountStr = event.attributes.find(
-							(a: any) => a.key === "amount",
-						)?.value;
-						const sender = event.attributes.find(
-							(a: any) => a.key === "sender",
-						)?.value;
-
-						if (recipient === UnifiedWalletService.walletAddress && amountStr) {
-							// Parse amount (format: "1000000ujuno")
-							const match = amountStr.match(/^(\d+)ujuno$/);
-							if (match) {
-								amount = parseFloat(match[1]) / 1_000_000;
-								fromAddress = sender || "";
-							}
-						}
-					}
-				}
+				// Decode memo, transfers and fee payer from the raw transaction;
+				// each registered denom received is a deposit of its own
+				for (const extracted of extractRpcDeposits(
+					tx,
+					UnifiedWalletService.walletAddress,
+					DenomService.depositDenoms(),
+				)) {
+					const { amount, denom, fromAddress, memo, feePayer } = extracted;
+					const { userId, suggestedUserId } =
+						DepositCodeService.resolveMemo(memo);
+
+					deposits.push({
+						txHash: tx.hash,
+						userId,
+						amount,
+						denom,
+						fromAddress,
+						feePayer,
+						memo,
+						suggestedUserId,
+						height,
+						timestamp: Math.floor(Date.now() / 1000), // RPC doesn't provide timestamp
+					});
 
-				if (amount === 0) {
-					continue; // No valid transfer to our address
+					logger.debug("Deposit detected", {
+						txHash: tx.hash,
+						amount: `${amount} ${DenomService.symbol(denom)}`,
+						memo,
+						userId: userId || "invalid",
+						fromAddress,
+						feePayer,
+					});
 				}
-
-				// Extract memo from protobuf using structural position
-				const memo = UnifiedWalletService.parseMemo(tx.tx, amount);
-				const userId = UnifiedWalletService.parseUserId(memo);
-
-				deposits.push({
-					txHash: tx.hash,
-					userId,
-					amount,
-					fromAddress,
-					memo,
-					height,
-					timestamp: Math.floor(Date.now() / 1000), // RPC doesn't provide timestamp
-				});
-
-				logger.debug("Deposit detected", {
-					txHash: tx.hash,
-					amount: `${amount} JUNO`,
-					memo,
-					userId: userId || "invalid",
-					fromAddress,
-				});
 			}
 
-			return deposits;
+			return { deposits, scannedHeight };
 		} catch (error) {
 			logger.error("Failed to fetch deposits", error);
-			return [];
-		}
-	}
-
-	/** Extract memo from protobuf tx by structural position (after amount) */
-	private static parseMemo(base64Tx: string, amount: number): string {
-		try {
-			const buffer = Buffer.from(base64Tx, "base64");
-			const amountInUjuno = (amount * 1_000_000).toString();
-
-			interface StringPosition {
-				str: string;
-				position: number;
-			}
-
-			const strings: StringPosition[] = [];
-
-			// Scan buffer for printable ASCII strings with their positions
-			for (let i = 0; i < buffer.length; i++) {
-				const strStart = i;
-				let strLength = 0;
-
-				// Find sequences of printable ASCII (0x20-0x7E)
-				while (i < buffer.length && buffer[i] >= 0x20 && buffer[i] <= 0x7e) {
-					strLength++;
-					i++;
-				}
-
-				if (strLength >= 1) {
-					const str = buffer
-						.slice(strStart, strStart + strLength)
-						.toString("utf8");
-					strings.push({ str, position: strStart });
-				}
-			}
-
-			// Find position of the amount in the buffer
-			const amountPos =
-				strings.find((s) => s.str === amountInUjuno)?.position || -1;
-
-			// Memo is the first numeric string (1-12 digits) that appears AFTER the amount
-			// User IDs can be short (1-12 digits), but we filter out microJUNO amounts
-			const numericMemo = strings.find((s) => {
-				if (!/^\d{1,12}$/.test(s.str)) return false;
-				if (s.str === amountInUjuno) return false; // Skip the amount itself
-				if (amountPos !== -1 && s.position < amountPos) return false; // Must come after amount
-				// Filter out likely microJUNO amounts (digits ending in many zeros)
-				if (/^[1-9]\d*0{5,}$/.test(s.str)) return false; // e.g., 1000000, 35050000
-				return true;
-			});
-
-			if (numericMemo) {
-				return numericMemo.str;
-			}
-
-			// Priority 2: Alphanumeric memo after amount position (for non-numeric memos)
-			const alphanumericMemo = strings.find((s) => {
-				// Must be at least 2 characters
-				if (s.str.length < 2) return false;
-
-				// Must come after amount if we found it
-				if (amountPos !== -1 && s.position < amountPos) return false;
-
-				// Exclude message types
-				if (s.str.startsWith("/cosmos.") || s.str.startsWith("/cosmwasm."))
-					return false;
-
-				// Exclude addresses (bech32 format)
-				if (s.str.match(/^(juno|cosmos|osmo|neutron|sei|terra)[a-z0-9]{38,}/))
-					return false;
-
-				// Exclude addresses with length prefix
-				if (s.str.startsWith("+")) return false;
-
-				// Exclude denominations
-				if (s.str.match(/^u(atom|juno|osmo|sei|axl|cre|akt)/)) return false;
-
-				// Exclude crypto key types
-				if (s.str.includes("PubKey") || s.str.includes("crypto")) return false;
-
-				// Exclude pure numeric strings (handled by numericMemo check above)
-				if (/^\d+$/.test(s.str)) return false;
-
-				// Exclude binary garbage
-				const alphanumericRatio =
-					(s.str.match(/[a-zA-Z0-9]/g) || []).length / s.str.length;
-				if (alphanumericRatio < 0.5) return false;
-
-				return true;
-			});
-
-			return alphanumericMemo?.str || "";
-		} catch (error) {
-			logger.error("Failed to extract memo from protobuf", error);
-			return "";
+			return {
+				deposits: [],
+				scannedHeight: UnifiedWalletService.lastCheckedHeight,
+			};
 		}
 	}
 
@@ -531,23 +466,33 @@ export class UnifiedWalletService {
 	 * - Admin can manually assign with /claimdeposit
 	 */
 	private static async processDeposit(deposit: DepositCheck): Promise<void> {
+		// Left unprocessed so the deposit is credited once deposits are resumed
+		if (MaintenanceService.isPaused("deposits")) {
+			return;
+		}
+
 		const { createUser, userExists } = await import("./userService");
 
 		// Check if already processed in processed_deposits table
 		const existing = get<any>(
-			"SELECT * FROM processed_deposits WHERE tx_hash = ?",
-			[deposit.txHash],
+			"SELECT * FROM processed_deposits WHERE tx_hash = ? AND denom = ?",
+			[deposit.txHash, deposit.denom],
 		);
 
 		if (existing) {
 			return;
 		}
 
+		// Payments used to settle fines or bail are not deposits
+		if (PaymentReceiptService.isReceipt(deposit.txHash)) {
+			return;
+		}
+
 		// SAFEGUARD: Also check transactions table for this tx_hash
 		// This prevents double-crediting if processed_deposits was missing an entry
 		const existingTx = get<any>(
-			"SELECT * FROM transactions WHERE tx_hash = ? AND transaction_type = 'deposit'",
-			[deposit.txHash],
+			"SELECT * FROM transactions WHERE tx_hash = ? AND denom = ? AND transaction_type = 'deposit'",
+			[deposit.txHash, deposit.denom],
 		);
 
 		if (existingTx) {
@@ -556,7 +501,10 @@ export class UnifiedWalletService {
 				{
 					txHash: deposit.txHash,
 					existingToUser: existingTx.to_user_id,
-					existingAmount: existingTx.amount,
+					existingAmount: DenomService.format(
+						existingTx.amount_ujuno,
+						existingTx.denom,
+					),
 					attemptedUserId: deposit.userId,
 					attemptedAmount: deposit.amount,
 				},
@@ -564,12 +512,13 @@ export class UnifiedWalletService {
 			// Add to processed_deposits to prevent future attempts
 			execute(
 				`INSERT OR IGNORE INTO processed_deposits (
-					tx_hash, user_id, amount, from_address, memo, height, processed, created_at, error
-				) VALUES (?, ?, ?, ?, ?, ?, 1, ?, ?)`,
+					tx_hash, user_id, amount, denom, from_address, memo, height, processed, created_at, error
+				) VALUES (?, ?, ?, ?, ?, ?, ?, 1, ?, ?)`,
 				[
 					deposit.txHash,
 					existingTx.to_user_id,
-					existingTx.amount,
+					DenomService.fromBaseUnits(existingTx.amount_ujuno, existingTx.denom),
+					existingTx.denom,
 					deposit.fromAddress,
 					deposit.memo,
 					deposit.height,
@@ -594,6 +543,7 @@ export class UnifiedWalletService {
 					memo: deposit.memo,
 					amount: deposit.amount,
 					fromAddress: deposit.fromAddress,
+					suggestedUserId: deposit.suggestedUserId,
 				},
 			);
 		} else {
@@ -608,7 +558,7 @@ export class UnifiedWalletService {
 				);
 
 				// Initialize balance
-				await LedgerService.ensureUserBalance(targetUserId);
+				LedgerService.ensureUserBalance(targetUserId);
 
 				logger.info("Created pre-funded account for deposit", {
 					txHash: deposit.txHash,
@@ -623,54 +573,72 @@ export class UnifiedWalletService {
 		// Record deposit as processing (user now guaranteed to exist)
 		execute(
 			`INSERT INTO processed_deposits (
-        tx_hash, user_id, amount, from_address, memo, height, processed, created_at
-      ) VALUES (?, ?, ?, ?, ?, ?, 0, ?)`,
+        tx_hash, user_id, amount, denom, from_address, memo, height, processed, created_at, suggested_user_id
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, 0, ?, ?)`,
 			[
 				deposit.txHash,
 				targetUserId, // Use resolved targetUserId, not deposit.userId
 				deposit.amount,
+				deposit.denom,
 				deposit.fromAddress,
 				deposit.memo,
 				deposit.height,
 				deposit.timestamp,
+				targetUserId === SYSTEM_USER_IDS.UNCLAIMED
+					? (deposit.suggestedUserId ?? null)
+					: null,
 			],
 		);
 
-		// Update last checked height
-		if (deposit.height > UnifiedWalletService.lastCheckedHeight) {
-			UnifiedWalletService.lastCheckedHeight = deposit.height;
-		}
-
 		// Process deposit in ledger
-		const result = await LedgerService.processDeposit(
+		const result = LedgerService.processDeposit(
 			targetUserId,
 			deposit.amount,
 			deposit.txHash,
 			deposit.fromAddress,
 			`Deposit from ${deposit.fromAddress}${deposit.memo ? ` (memo: ${deposit.memo})` : ""}`,
+			deposit.denom,
 		);
 
 		// Update processed status - only mark as processed=1 if successful
 		if (result.success) {
 			execute(
-				"UPDATE processed_deposits SET processed = 1, processed_at = ?, user_id = ?, error = NULL WHERE tx_hash = ?",
-				[Math.floor(Date.now() / 1000), targetUserId, deposit.txHash],
+				"UPDATE processed_deposits SET processed = 1, processed_at = ?, user_id = ?, error = NULL WHERE tx_hash = ? AND denom = ?",
+				[
+					Math.floor(Date.now() / 1000),
+					targetUserId,
+					deposit.txHash,
+					deposit.denom,
+				],
 			);
 
 			logger.info("Deposit processed successfully", {
 				userId: targetUserId,
 				amount: deposit.amount,
+				denom: deposit.denom,
 				txHash: deposit.txHash,
+				feePayer: deposit.feePayer,
 				newBalance: result.newBalance,
 			});
+
+			await EventBus.publish("deposit.credited", {
+				userId: targetUserId,
+				amount: deposit.amount,
+				denom: deposit.denom,
+				txHash: deposit.txHash,
+				fromAddress: deposit.fromAddress,
+				unclaimed: targetUserId === SYSTEM_USER_IDS.UNCLAIMED,
+				timestamp: Math.floor(Date.now() / 1000),
+			});
 		} else {
 			// Leave processed=0 and record error so it can be retried
 			execute(
-				"UPDATE processed_deposits SET error = ?, user_id = ? WHERE tx_hash = ?",
+				"UPDATE processed_deposits SET error = ?, user_id = ? WHERE tx_hash = ? AND denom = ?",
 				[
 					result.error || "Ledger processing failed",
 					targetUserId,
 					deposit.txHash,
+					deposit.denom,
 				],
 			);
 
@@ -682,30 +650,6 @@ export class UnifiedWalletService {
 		}
 	}
 
-	/**
-	 * Parse userId from memo
-	 */
-	private static parseUserId(memo: string): number | null {
-		if (!memo) return null;
-
-		// Try direct number parsing
-		const parsed = parseInt(memo.trim(), 10);
-		if (!Number.isNaN(parsed) && parsed > 0) {
-			return parsed;
-		}
-
-		// Try extracting from patterns like "userId:123" or "user 123"
-		const match = memo.match(/(?:user[Id]*[:\s]+)?(\d+)/i);
-		if (match?.[1]) {
-			const id = parseInt(match[1], 10);
-			if (!Number.isNaN(id) && id > 0) {
-				return id;
-			}
-		}
-
-		return null;
-	}
-
 	/**
 	 * Get deposit instructions for a user with clear warnings
 	 */
@@ -726,30 +670,73 @@ export class UnifiedWalletService {
 	}
 
 	/**
-	 * Process user withdrawal to external wallet with secure locking
+	 * Process user withdrawal to external wallet with secure locking.
+	 * The ledger is debited and the payout is queued; the on-chain transfer is
+	 * made by the withdrawal queue. Waits briefly for confirmation and returns
+	 * queued: true if the transaction has not landed yet.
+	 *
+	 * The withdrawal policy is applied first; withdrawals it holds for owner
+	 * approval return held: true with the decision, and are retried with the
+	 * approvalId once approved.
+	 *
+	 * Bank denoms (JUNO and IBC tokens) can be withdrawn; CW20 balances cannot.
 	 */
 	static async processWithdrawal(
 		userId: number,
-		toAddress: string,
+		address: string,
 		amount: number,
+		options: { approvalId?: number; denom?: string } = {},
 	): Promise<{
 		success: boolean;
 		txHash?: string;
 		error?: string;
 		newBalance?: number;
+		queued?: boolean;
+		requestId?: number;
+		held?: boolean;
+		policy?: PolicyDecision;
 	}> {
-		// Validate address
-		if (!toAddress.startsWith("juno1") || toAddress.length !== 43) {
+		const paused = MaintenanceService.getPause("withdrawals");
+		if (paused) {
+			return {
+				success: false,
+				error: MaintenanceService.formatBlockedMessage("withdrawals", paused),
+			};
+		}
+
+		// Validate address checksum, prefix and destination kind
+		const destination = parseWithdrawalAddress(
+			address,
+			config.allowContractWithdrawals,
+		);
+		if (!destination.valid) {
 			return {
 				success: false,
-				error: "Invalid Juno address format",
+				error: `Invalid Juno address format: ${destination.error}`,
+			};
+		}
+		const toAddress = destination.address;
+
+		const denom = options.denom ?? DEFAULT_DENOM;
+		if (denom.startsWith(CW20_DENOM_PREFIX)) {
+			return {
+				success: false,
+				error: `${DenomService.symbol(denom)} is a CW20 token and cannot be withdrawn`,
 			};
 		}
 
 		// Validate amount precision
 		let validatedAmount: number;
+		let amountMicro: number;
 		try {
-			validatedAmount = AmountPrecision.validateAmount(amount);
+			validatedAmount =
+				denom === DEFAULT_DENOM
+					? AmountPrecision.validateAmount(amount)
+					: amount;
+			amountMicro = DenomService.toBaseUnits(validatedAmount, denom);
+			if (amountMicro <= 0) {
+				throw new Error("Amount must be positive");
+			}
 		} catch (error) {
 			return {
 				success: false,
@@ -759,11 +746,57 @@ export class UnifiedWalletService {
 		}
 
 		// Check balance before acquiring lock
-		const balance = await LedgerService.getUserBalance(userId);
-		if (!AmountPrecision.isGreaterOrEqual(balance, validatedAmount)) {
+		const balance = await LedgerService.getUserBalance(userId, denom);
+		if (LedgerService.getUserBalanceMicro(userId, denom) < amountMicro) {
+			return {
+				success: false,
+				error: `Insufficient balance. You have ${DenomService.formatAmount(balance, denom)}`,
+				newBalance: balance,
+			};
+		}
+
+		// Refuse before debiting if nothing can sign the payout
+		if (!UnifiedWalletService.wallet || !WithdrawalQueueService.isEnabled()) {
+			return {
+				success: false,
+				error: "Withdrawal service temporarily unavailable",
+				newBalance: balance,
+			};
+		}
+
+		const approval =
+			options.approvalId === undefined
+				? undefined
+				: WithdrawalPolicyService.getApproval(options.approvalId);
+		const policy = WithdrawalPolicyService.evaluate(
+			userId,
+			toAddress,
+			validatedAmount,
+			approval,
+			denom,
+		);
+		if (policy.outcome === "hold") {
+			return {
+				success: false,
+				held: true,
+				policy,
+				error: policy.reason,
+				newBalance: balance,
+			};
+		}
+		if (policy.outcome === "deny") {
+			LedgerService.recordRefusedWithdrawal(
+				userId,
+				validatedAmount,
+				toAddress,
+				policy.reason || "withdrawal policy",
+				{ policy },
+				denom,
+			);
 			return {
 				success: false,
-				error: `Insufficient balance. You have ${AmountPrecision.format(balance)} JUNO`,
+				policy,
+				error: policy.reason,
 				newBalance: balance,
 			};
 		}
@@ -783,206 +816,112 @@ export class UnifiedWalletService {
 			};
 		}
 
+		let requestId: number;
+		let newBalance: number;
 		try {
-			// Create pending withdrawal in ledger (deducts from balance)
-			const withdrawalResult = await LedgerService.processWithdrawal(
-				userId,
-				validatedAmount,
-				toAddress,
-				undefined,
-				`Withdrawal to ${toAddress}`,
-			);
-
-			if (!withdrawalResult.success) {
-				// Release lock if ledger update failed
-				await TransactionLockService.releaseWithdrawalLock(userId, "", true);
-
-				return {
-					success: false,
-					error: withdrawalResult.error,
-					newBalance: withdrawalResult.newBalance,
-				};
-			}
-
-			// Execute on-chain transaction
-			if (!UnifiedWalletService.wallet) {
-				// Refund if we can't sign
-				await LedgerService.processGiveaway(
+			// Queue entry, ledger debit and their link commit together
+			const queued = withTransaction(() => {
+				const requestId = WithdrawalQueueService.enqueue(
 					userId,
-					validatedAmount,
-					"Withdrawal refund - signing unavailable",
-				);
-				await TransactionLockService.releaseWithdrawalLock(userId, "", true);
-
-				return {
-					success: false,
-					error: "Withdrawal service temporarily unavailable",
-					newBalance: await LedgerService.getUserBalance(userId),
-				};
-			}
-
-			const client = await SigningStargateClient.connectWithSigner(
-				UnifiedWalletService.rpcEndpoint,
-				UnifiedWalletService.wallet,
-				{ gasPrice: GasPrice.fromString("0.075ujuno") },
-			);
-
-			const [account] = await UnifiedWalletService.wallet.getAccounts();
-			const amountInUjuno = AmountPrecision.toMicroJuno(validatedAmount);
-
-			let result: Awaited<ReturnType<typeof client.sendTokens>>;
-			try {
-				result = await client.sendTokens(
-					account.address,
 					toAddress,
-					[{ denom: "ujuno", amount: amountInUjuno.toString() }],
-					"auto",
-					`Withdrawal for user ${userId}`,
+					amountMicro,
+					denom,
 				);
-			} catch (txError) {
-				// Transaction failed - refund and release lock
-				logger.error("On-chain transaction failed", { userId, error: txError });
 
-				await LedgerService.processGiveaway(
+				// Create pending withdrawal in ledger (deducts from balance)
+				const withdrawalResult = LedgerService.processWithdrawal(
 					userId,
-					amount,
-					"Withdrawal refund - transaction failed",
+					validatedAmount,
+					toAddress,
+					undefined,
+					`Withdrawal to ${toAddress}`,
+					{ policy },
+					denom,
 				);
-				await TransactionLockService.releaseWithdrawalLock(userId, "", true);
 
-				return {
-					success: false,
-					error:
-						txError instanceof Error ? txError.message : "Transaction failed",
-					newBalance: await LedgerService.getUserBalance(userId),
-				};
-			}
-
-			// Update lock with transaction hash
-			await TransactionLockService.updateLockWithTxHash(
-				userId,
-				result.transactionHash,
-			);
+				if (!withdrawalResult.success || !withdrawalResult.transactionId) {
+					WithdrawalQueueService.cancel(
+						requestId,
+						withdrawalResult.error || "Ledger debit failed",
+					);
+				} else {
+					WithdrawalQueueService.linkLedgerTransaction(
+						requestId,
+						withdrawalResult.transactionId,
+					);
+				}
 
-			// Verify transaction status
-			if (result.code !== 0) {
-				// Transaction failed on-chain - refund and release lock
-				await LedgerService.processGiveaway(
-					userId,
-					amount,
-					"Withdrawal refund - transaction rejected",
-				);
-				await TransactionLockService.releaseWithdrawalLock(
-					userId,
-					result.transactionHash,
-					true,
-				);
+				return { requestId, withdrawalResult };
+			});
 
+			if (
+				!queued.withdrawalResult.success ||
+				!queued.withdrawalResult.transactionId
+			) {
 				return {
 					success: false,
-					error: `Transaction failed: ${result.rawLog || "Unknown error"}`,
-					newBalance: await LedgerService.getUserBalance(userId),
+					error: queued.withdrawalResult.error,
+					newBalance: queued.withdrawalResult.newBalance,
 				};
 			}
 
-			// Update transaction record with hash
-			if (withdrawalResult.transactionId) {
-				await LedgerService.updateTransactionStatus(
-					withdrawalResult.transactionId,
-					"completed" as any,
-					result.transactionHash,
-				);
-			}
-
-			// Record gas fee in ledger to keep internal total accurate
-			// Gas is paid from the on-chain wallet but not yet tracked in ledger
-			if (result.gasUsed) {
-				const gasUsedNum = Number(result.gasUsed);
-				const gasFeeUjuno = gasUsedNum * 0.075; // gas price is 0.075ujuno
-				const gasFeeJuno = gasFeeUjuno / 1_000_000;
-				if (gasFeeJuno > 0.000001) {
-					// Debit from SYSTEM_RESERVE to track the gas cost
-					await LedgerService.processAdjustment(
-						SYSTEM_USER_IDS.SYSTEM_RESERVE,
-						-gasFeeJuno,
-						`Gas fee for withdrawal ${result.transactionHash.slice(0, 16)}...`,
-					);
-					logger.info("Gas fee recorded in ledger", {
-						userId,
-						txHash: result.transactionHash,
-						gasUsed: gasUsedNum,
-						gasFeeJuno,
-					});
-				}
-			}
-
-			// Attempt to verify and release lock
-			const releaseResult = await TransactionLockService.releaseWithdrawalLock(
-				userId,
-				result.transactionHash,
-				false, // Don't force - verify first
-			);
-
-			if (!releaseResult.released) {
-				// Lock not released - transaction needs manual verification
-				logger.warn("Withdrawal lock not released after transaction", {
-					userId,
-					txHash: result.transactionHash,
-					error: releaseResult.error,
-				});
-			}
-
-			logger.info("Withdrawal completed", {
-				userId,
-				toAddress,
-				amount,
-				txHash: result.transactionHash,
-				lockReleased: releaseResult.released,
-			});
-
+			requestId = queued.requestId;
+			newBalance = queued.withdrawalResult.newBalance;
+		} catch (error) {
+			logger.error("Unexpected error queueing withdrawal", { userId, error });
 			return {
-				success: true,
-				txHash: result.transactionHash,
-				newBalance: withdrawalResult.newBalance,
+				success: false,
+				error: "System error during withdrawal. Please try again.",
+				newBalance: await LedgerService.getUserBalance(userId, denom),
 			};
-		} catch (error) {
-			// Unexpected error - ensure lock is released and user is refunded
-			logger.error("Unexpected error during withdrawal", { userId, error });
+		} finally {
+			// The queue owns the payout from here; the lock only guards the debit
+			await TransactionLockService.releaseWithdrawalLock(userId, "", true);
+		}
 
-			try {
-				await LedgerService.processGiveaway(
-					userId,
-					amount,
-					"Withdrawal refund - system error",
-				);
-			} catch (refundError) {
-				logger.error("Failed to refund user after error", {
-					userId,
-					refundError,
-				});
-			}
+		logger.info("Withdrawal queued", {
+			userId,
+			toAddress,
+			amount: validatedAmount,
+			denom,
+			requestId,
+		});
 
-			await TransactionLockService.releaseWithdrawalLock(userId, "", true);
+		const request = await WithdrawalQueueService.waitForResult(
+			requestId,
+			WITHDRAWAL_WAIT_MS,
+		);
 
+		if (request?.status === "failed") {
 			return {
 				success: false,
-				error:
-					"System error during withdrawal. Your balance has been restored.",
-				newBalance: await LedgerService.getUserBalance(userId),
+				error: `Transaction failed: ${request.last_error || "Unknown error"}. Your balance has been restored.`,
+				newBalance: await LedgerService.getUserBalance(userId, denom),
+			};
+		}
+
+		if (request?.status === "confirmed" && request.tx_hash) {
+			return {
+				success: true,
+				txHash: request.tx_hash,
+				newBalance,
+				requestId,
 			};
 		}
+
+		return { success: true, queued: true, requestId, newBalance };
 	}
 
 	/**
 	 * Pay fine (internal transfer to bot treasury)
 	 */
-	static async payFine(
+	static payFine(
 		userId: number,
 		amount: number,
 		reason?: string,
-	): Promise<{ success: boolean; error?: string; newBalance?: number }> {
+	): { success: boolean; error?: string; newBalance?: number } {
 		// Use internal transfer to bot treasury
-		const result = await LedgerService.transferBetweenUsers(
+		const result = LedgerService.transferBetweenUsers(
 			userId,
 			SYSTEM_USER_IDS.BOT_TREASURY,
 			amount,
@@ -1007,12 +946,15 @@ export class UnifiedWalletService {
 
 	/**
 	 * Transfer between users (internal) with simple locking and exact precision
+	 *
+	 * @param denom - Asset to transfer (defaults to JUNO); amount is in its display units
 	 */
 	static async transferToUser(
 		fromUserId: number,
 		toUserId: number,
 		amount: number,
 		description?: string,
+		denom: string = DEFAULT_DENOM,
 	): Promise<{
 		success: boolean;
 		error?: string;
@@ -1020,8 +962,13 @@ export class UnifiedWalletService {
 		toBalance?: number;
 	}> {
 		try {
-			// Validate amount precision (exactly 6 decimals)
-			const validatedAmount = AmountPrecision.validateAmount(amount);
+			// Validate amount precision (exactly 6 decimals for JUNO, the denom's decimals otherwise)
+			let validatedAmount = amount;
+			if (denom === DEFAULT_DENOM) {
+				validatedAmount = AmountPrecision.validateAmount(amount);
+			} else if (DenomService.toBaseUnits(amount, denom) <= 0) {
+				return { success: false, error: "Amount must be positive" };
+			}
 
 			// Acquire simple locks for both users
 			const lockResult = await TransactionLockService.acquireTransferLocks(
@@ -1039,11 +986,12 @@ export class UnifiedWalletService {
 
 			try {
 				// Perform the internal ledger transfer
-				const result = await LedgerService.transferBetweenUsers(
+				const result = LedgerService.transferBetweenUsers(
 					fromUserId,
 					toUserId,
 					validatedAmount,
 					description,
+					{ denom },
 				);
 
 				// Release locks after ledger update
@@ -1054,6 +1002,7 @@ export class UnifiedWalletService {
 						fromUserId,
 						toUserId,
 						amount: AmountPrecision.format(validatedAmount),
+						denom,
 						fromBalance: result.fromBalance
 							? AmountPrecision.format(result.fromBalance)
 							: undefined,
@@ -1093,9 +1042,14 @@ export class UnifiedWalletService {
 
 	/**
 	 * Get user balance
+	 *
+	 * @param denom - Asset to get the balance of (defaults to JUNO)
 	 */
-	static async getBalance(userId: number): Promise<number> {
-		return LedgerService.getUserBalance(userId);
+	static async getBalance(
+		userId: number,
+		denom: string = DEFAULT_DENOM,
+	): Promise<number> {
+		return LedgerService.getUserBalance(userId, denom);
 	}
 
 	/**
@@ -1139,7 +1093,9 @@ export class UnifiedWalletService {
 					if (junoAmount) {
 						return {
 							verified: true,
-							amount: parseFloat(junoAmount.amount) / 1_000_000,
+							amount: AmountPrecision.fromMicroJuno(
+								Number.parseInt(junoAmount.amount, 10),
+							),
 							from: msg.from_address,
 							to: msg.to_address,
 							memo: tx.tx?.body?.memo || "",
@@ -1168,8 +1124,8 @@ export class UnifiedWalletService {
 		pendingDeposits: number;
 		reconciled: boolean;
 	}> {
-		// Get on-chain balance
-		let onChainBalance = 0;
+		// Get on-chain balance (ujuno)
+		let onChainMicro = 0;
 		try {
 			const response = await fetch(
 				`${UnifiedWalletService.apiEndpoint}/cosmos/bank/v1beta1/balances/${UnifiedWalletService.walletAddress}`,
@@ -1180,8 +1136,8 @@ export class UnifiedWalletService {
 				const junoBalance = data.balances?.find(
 					(b: any) => b.denom === "ujuno",
 				);
-				onChainBalance = junoBalance
-					? parseFloat(junoBalance.amount) / 1_000_000
+				onChainMicro = junoBalance
+					? Number.parseInt(junoBalance.amount, 10)
 					: 0;
 			}
 		} catch (error) {
@@ -1189,7 +1145,9 @@ export class UnifiedWalletService {
 		}
 
 		// Get internal totals
-		const internalTotal = await LedgerService.getTotalUserBalance();
+		const internalMicro = LedgerService.getTotalUserBalanceMicro();
+		const onChainBalance = AmountPrecision.fromMicroJuno(onChainMicro);
+		const internalTotal = AmountPrecision.fromMicroJuno(internalMicro);
 		const botBalance = await UnifiedWalletService.getBotBalance();
 		const unclaimedBalance = await LedgerService.getUserBalance(
 			SYSTEM_USER_IDS.UNCLAIMED,
@@ -1198,7 +1156,7 @@ export class UnifiedWalletService {
 		// Get active users count
 		const activeUsers =
 			get<{ count: number }>(
-				"SELECT COUNT(*) as count FROM user_balances WHERE balance > 0 AND user_id > 0",
+				"SELECT COUNT(*) as count FROM user_balances WHERE balance_ujuno > 0 AND user_id > 0",
 			)?.count || 0;
 
 		// Get pending deposits
@@ -1207,9 +1165,8 @@ export class UnifiedWalletService {
 				"SELECT COUNT(*) as count FROM processed_deposits WHERE processed = 0",
 			)?.count || 0;
 
-		// Check reconciliation
-		const difference = Math.abs(onChainBalance - internalTotal);
-		const reconciled = difference < 0.01; // Allow 0.01 JUNO difference
+		// Check reconciliation - both sides are exact integers
+		const reconciled = onChainMicro === internalMicro;
 
 		return {
 			walletAddress: UnifiedWalletService.walletAddress,
@@ -1224,19 +1181,24 @@ export class UnifiedWalletService {
 	}
 
 	/**
-	 * Claim unclaimed deposit
+	 * Claim unclaimed deposit, in every denom it was received in
 	 */
-	static async claimUnclaimedDeposit(
+	static claimUnclaimedDeposit(
 		txHash: string,
 		userId: number,
-	): Promise<{ success: boolean; error?: string; amount?: number }> {
-		// Check if deposit exists and is unclaimed
-		const deposit = get<any>(
-			"SELECT * FROM processed_deposits WHERE tx_hash = ? AND user_id = ?",
+	): {
+		success: boolean;
+		error?: string;
+		/** Amounts credited, one per denom */
+		amounts?: DenomAmount[];
+	} {
+		// Check if deposit exists and is unclaimed (one row per denom)
+		const deposits = query<any>(
+			"SELECT * FROM processed_deposits WHERE tx_hash = ? AND user_id = ? ORDER BY id",
 			[txHash, SYSTEM_USER_IDS.UNCLAIMED],
 		);
 
-		if (!deposit) {
+		if (deposits.length === 0) {
 			return {
 				success: false,
 				error: "Deposit not found or not unclaimed",
@@ -1264,37 +1226,51 @@ export class UnifiedWalletService {
 			};
 		}
 
-		// Transfer from unclaimed to user
-		const result = await LedgerService.transferBetweenUsers(
-			SYSTEM_USER_IDS.UNCLAIMED,
-			userId,
-			deposit.amount,
-			`Claimed deposit ${txHash}`,
-		);
+		const amounts: DenomAmount[] = deposits.map(({ amount, denom }) => ({
+			amount,
+			denom,
+		}));
 
-		if (result.success) {
-			// Update deposit record
-			execute("UPDATE processed_deposits SET user_id = ? WHERE tx_hash = ?", [
-				userId,
-				txHash,
-			]);
+		try {
+			// Transfer from unclaimed to user, all denoms or none
+			withTransaction(() => {
+				for (const { amount, denom } of amounts) {
+					const result = LedgerService.transferBetweenUsers(
+						SYSTEM_USER_IDS.UNCLAIMED,
+						userId,
+						amount,
+						`Claimed deposit ${txHash}`,
+						{ denom },
+					);
+					if (!result.success) {
+						throw new Error(result.error || "Transfer failed");
+					}
+				}
 
-			logger.info("Unclaimed deposit claimed", {
-				txHash,
-				userId,
-				amount: deposit.amount,
+				// Update deposit record; an owner assignment overrides a pending
+				// self-service claim (see DepositClaimService)
+				execute(
+					`UPDATE processed_deposits
+           SET user_id = ?,
+               claim_status = CASE WHEN claim_status = 'pending' THEN 'overridden' ELSE claim_status END
+           WHERE tx_hash = ? AND user_id = ?`,
+					[userId, txHash, SYSTEM_USER_IDS.UNCLAIMED],
+				);
 			});
-
+		} catch (error) {
 			return {
-				success: true,
-				amount: deposit.amount,
+				success: false,
+				error: error instanceof Error ? error.message : "Unknown error",
 			};
 		}
 
-		return {
-			success: false,
-			error: result.error,
-		};
+		logger.info("Unclaimed deposit claimed", {
+			txHash,
+			userId,
+			amounts,
+		});
+
+		return { success: true, amounts };
 	}
 
 	/**
@@ -1306,6 +1282,7 @@ export class UnifiedWalletService {
 	 * @param amount - Amount to send
 	 * @param description - Optional transaction description
 	 * @param botContext - Telegraf context for Telegram API resolution
+	 * @param denom - Asset to send (defaults to JUNO)
 	 * @returns Transaction result with recipient info
 	 */
 	static async sendToUsername(
@@ -1314,6 +1291,7 @@ export class UnifiedWalletService {
 		amount: number,
 		description?: string,
 		botContext?: any,
+		denom: string = DEFAULT_DENOM,
 	): Promise<{
 		success: boolean;
 		error?: string;
@@ -1340,7 +1318,7 @@ export class UnifiedWalletService {
 						"pleb",
 						"telegram_api_resolution",
 					);
-					await LedgerService.ensureUserBalance(chatInfo.id);
+					LedgerService.ensureUserBalance(chatInfo.id);
 
 					logger.info(
 						"Created pre-funded account via Telegram username resolution",
@@ -1379,6 +1357,7 @@ export class UnifiedWalletService {
 			recipientId,
 			amount,
 			description || `Transfer to @${recipientUsername}`,
+			denom,
 		);
 
 		return {
@@ -1403,7 +1382,7 @@ export class UnifiedWalletService {
 		description?: string,
 	): Promise<{ success: boolean; error?: string; newBalance?: number }> {
 		try {
-			const result = await LedgerService.processBail(
+			const result = LedgerService.processBail(
 				payerUserId,
 				bailedUserId,
 				amount,
@@ -1451,11 +1430,12 @@ export class UnifiedWalletService {
 	}> {
 		const succeeded: number[] = [];
 		const failed: Array<{ userId: number; error: string }> = [];
-		let totalDistributed = 0;
+		const amountPerUserMicro = AmountPrecision.toMicroJuno(amountPerUser);
+		let totalDistributedMicro = 0;
 
 		for (const userId of userIds) {
 			try {
-				const result = await LedgerService.processGiveaway(
+				const result = LedgerService.processGiveaway(
 					userId,
 					amountPerUser,
 					description || "Giveaway distribution",
@@ -1463,7 +1443,7 @@ export class UnifiedWalletService {
 
 				if (result.success) {
 					succeeded.push(userId);
-					totalDistributed += amountPerUser;
+					totalDistributedMicro += amountPerUserMicro;
 				} else {
 					failed.push({ userId, error: "Giveaway processing failed" });
 				}
@@ -1475,6 +1455,10 @@ export class UnifiedWalletService {
 			}
 		}
 
+		const totalDistributed = AmountPrecision.fromMicroJuno(
+			totalDistributedMicro,
+		);
+
 		logger.info("Giveaway distribution completed", {
 			totalUsers: userIds.length,
 			succeeded: succeeded.length,
@@ -1490,16 +1474,8 @@ export class UnifiedWalletService {
 	static async getTxHistory(
 		userId: number,
 		limit: number = 10,
-	): Promise<any[]> {
-		const transactions = query<any>(
-			`SELECT * FROM transactions
-       WHERE from_user_id = ? OR to_user_id = ?
-       ORDER BY created_at DESC
-       LIMIT ?`,
-			[userId, userId, limit],
-		);
-
-		return transactions;
+	): Promise<LedgerTransactionRow[]> {
+		return LedgerService.getUserTransactions(userId, limit);
 	}
 
 	/**
@@ -1581,7 +1557,7 @@ export class UnifiedWalletService {
 		// Active users = users with balance > 0
 		const activeUsers =
 			get<{ count: number }>(
-				"SELECT COUNT(*) as count FROM user_balances WHERE user_id > 0 AND balance > 0",
+				"SELECT COUNT(*) as count FROM user_balances WHERE user_id > 0 AND balance_ujuno > 0",
 				[],
 			)?.count || 0;
 
@@ -1792,6 +1768,7 @@ export class UnifiedWalletService {
 			clearInterval(UnifiedWalletService.depositCheckInterval);
 			UnifiedWalletService.depositCheckInterval = null;
 		}
+		WithdrawalQueueService.stop();
 		logger.info("Unified wallet service stopped");
 	}
 
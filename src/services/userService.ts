@@ -49,19 +49,23 @@ export const createUser = (
  * - User exists: Updates username (Telegram usernames are mutable)
  */
 export const ensureUserExists = (userId: number, username: string): void => {
-	const userExists = query<User>("SELECT id FROM users WHERE id = ?", [
+	const existing = query<User>("SELECT id, username FROM users WHERE id = ?", [
 		userId,
 	])[0];
 
-	if (!userExists) {
+	if (!existing) {
 		createUser(userId, username, "pleb", "ensure_exists");
 	} else {
-		// Update username if it changed (Telegram allows username changes)
-		execute("UPDATE users SET username = ?, updated_at = ? WHERE id = ?", [
-			username,
-			Math.floor(Date.now() / 1000),
-			userId,
-		]);
+		// Update username if it changed (Telegram allows username changes).
+		// Changes are timestamped for the withdrawal cooldown.
+		const now = Math.floor(Date.now() / 1000);
+		const changed = !!existing.username && existing.username !== username;
+		execute(
+			`UPDATE users SET username = ?, updated_at = ?,
+       username_changed_at = CASE WHEN ? THEN ? ELSE username_changed_at END
+       WHERE id = ?`,
+			[username, now, changed ? 1 : 0, now, userId],
+		);
 	}
 };
 
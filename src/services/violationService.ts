@@ -4,39 +4,58 @@ import { config } from "../config";
 import { execute, get, query } from "../database";
 import type { Violation } from "../types";
 import { StructuredLogger } from "../utils/logger";
+import { EventBus } from "./eventBus";
 import { PriceService } from "./priceService";
+import { WarningService } from "./warningService";
 
 /**
  * Create violation record for user
- * Calculates fine based on restriction type using USD pricing, increments warning count
+ * Calculates fine based on restriction type using USD pricing and issues a warning.
+ * Pass the chat ID to apply that chat's fine overrides.
+ * Violations handled by a rule record its ID and use the fine of the rule's
+ * escalation step instead (0 for steps without a fine).
  */
 export async function createViolation(
 	userId: number,
 	restriction: string,
 	message?: string,
+	chatId?: number,
+	ruleId?: number,
+	fineAmount?: number,
 ): Promise<number> {
 	// Calculate fine based on restriction type (USD converted to JUNO)
-	const fineAmount = await PriceService.calculateViolationFine(restriction);
+	const bailAmount =
+		fineAmount ??
+		(await PriceService.calculateViolationFine(restriction, chatId));
 
 	const result = execute(
-		`INSERT INTO violations (user_id, restriction, message, bail_amount)
-     VALUES (?, ?, ?, ?)`,
-		[userId, restriction, message, fineAmount],
+		`INSERT INTO violations (user_id, rule_id, restriction, message, bail_amount)
+     VALUES (?, ?, ?, ?, ?)`,
+		[userId, ruleId ?? null, restriction, message, bailAmount],
 	);
 
-	// Update user warning count
-	execute(
-		"UPDATE users SET warning_count = warning_count + 1, updated_at = ? WHERE id = ?",
-		[Math.floor(Date.now() / 1000), userId],
+	const violationId = result.lastInsertRowid as number;
+
+	// Every violation counts as a warning towards escalation
+	await WarningService.addWarning(
+		userId,
+		restriction,
+		null,
+		chatId,
+		violationId,
 	);
 
-	StructuredLogger.logSecurityEvent("Violation created", {
+	await EventBus.publish("violation.created", {
+		violationId,
 		userId,
-		operation: "violation_created",
-		amount: fineAmount.toString(),
+		restriction,
+		chatId,
+		ruleId,
+		fineAmount: bailAmount,
+		timestamp: Math.floor(Date.now() / 1000),
 	});
 
-	return result.lastInsertRowid as number;
+	return violationId;
 }
 
 /**
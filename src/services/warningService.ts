@@ -0,0 +1,355 @@
+/**
+ * Warning tracking and escalation service module.
+ * Every warning is stored as its own row with a reason, the issuing admin
+ * and an expiry, so old warnings decay instead of counting forever.
+ *
+ * Responsibilities:
+ * - Issuing warnings from /warn and from violations
+ * - Escalating to a jail or ban when the active warning count reaches a threshold
+ * - Expiring old warnings and keeping users.warning_count in sync
+ * - Storing the escalation thresholds and decay period (system_state)
+ *
+ * @module services/warningService
+ */
+
+import { execute, get, query } from "../database";
+import type { Warning } from "../types";
+import { logger, StructuredLogger } from "../utils/logger";
+import type { MessageRef } from "../utils/messageLink";
+import { EventBus } from "./eventBus";
+import { JailService } from "./jailService";
+import {
+	ModerationActionService,
+	type ModerationRequest,
+} from "./moderationActionService";
+
+/**
+ * Action taken when a user reaches a warning threshold.
+ */
+export interface WarningThreshold {
+	/** Active warning count that triggers the action */
+	warnings: number;
+	action: "jail" | "ban";
+	/** Jail duration in minutes (jail only) */
+	durationMinutes?: number;
+}
+
+/**
+ * Warning escalation settings.
+ */
+export interface WarningSettings {
+	/** Thresholds ordered by warning count */
+	thresholds: WarningThreshold[];
+	/** Days until a warning expires (0 = never) */
+	decayDays: number;
+}
+
+/**
+ * Result of issuing a warning.
+ */
+export interface WarningResult {
+	warningId: number;
+	/** Active warnings after this one */
+	activeWarnings: number;
+	/** Threshold reached by this warning, if any */
+	escalation: WarningThreshold | null;
+}
+
+// system_state key holding the JSON encoded WarningSettings
+const SETTINGS_KEY = "warning_escalation";
+
+/**
+ * Settings used until an admin changes them:
+ * 3 warnings = 1h jail, 5 = 24h jail, 7 = ban; warnings expire after 30 days.
+ */
+export const DEFAULT_WARNING_SETTINGS: WarningSettings = {
+	thresholds: [
+		{ warnings: 3, action: "jail", durationMinutes: 60 },
+		{ warnings: 5, action: "jail", durationMinutes: 1440 },
+		{ warnings: 7, action: "ban" },
+	],
+	decayDays: 30,
+};
+
+/**
+ * Service class for warnings and warning-based escalation.
+ */
+export class WarningService {
+	/**
+	 * Gets the current escalation settings.
+	 */
+	static getSettings(): WarningSettings {
+		const row = get<{ value: string }>(
+			"SELECT value FROM system_state WHERE key = ?",
+			[SETTINGS_KEY],
+		);
+		return row ? JSON.parse(row.value) : DEFAULT_WARNING_SETTINGS;
+	}
+
+	/**
+	 * Sets or removes the action for a warning count.
+	 *
+	 * @param warnings - Active warning count that triggers the action
+	 * @param threshold - Action to take, or null to remove the threshold
+	 * @param updatedBy - Admin making the change
+	 */
+	static setThreshold(
+		warnings: number,
+		threshold: Omit<WarningThreshold, "warnings"> | null,
+		updatedBy: number,
+	): void {
+		const settings = WarningService.getSettings();
+		const thresholds = settings.thresholds.filter(
+			(t) => t.warnings !== warnings,
+		);
+		if (threshold) {
+			thresholds.push({ warnings, ...threshold });
+		}
+		thresholds.sort((a, b) => a.warnings - b.warnings);
+
+		WarningService.saveSettings({ ...settings, thresholds });
+		StructuredLogger.logUserAction("Warning threshold updated", {
+			userId: updatedBy,
+			operation: "set_warning_threshold",
+			warnings,
+			action: threshold?.action ?? "none",
+			durationMinutes: threshold?.durationMinutes,
+		});
+	}
+
+	/**
+	 * Sets how many days a warning stays active.
+	 * Only affects warnings issued afterwards.
+	 *
+	 * @param decayDays - Days until expiry (0 = never)
+	 * @param updatedBy - Admin making the change
+	 */
+	static setDecayDays(decayDays: number, updatedBy: number): void {
+		WarningService.saveSettings({ ...WarningService.getSettings(), decayDays });
+		StructuredLogger.logUserAction("Warning decay updated", {
+			userId: updatedBy,
+			operation: "set_warning_decay",
+			decayDays,
+		});
+	}
+
+	/**
+	 * Issues a warning and applies the escalation threshold it reaches.
+	 * Escalation failures are logged and never fail the warning itself.
+	 *
+	 * @param userId - Warned user
+	 * @param reason - Reason shown in /warnings
+	 * @param issuedBy - Admin issuing the warning, or null for automatic warnings
+	 * @param chatId - Chat the warning was issued in (escalation is scoped to it)
+	 * @param violationId - Violation the warning belongs to, if any
+	 * @param origin - Message the warning was issued over
+	 * @returns Warning ID, active warning count and the escalation applied
+	 */
+	static async addWarning(
+		userId: number,
+		reason: string,
+		issuedBy: number | null,
+		chatId?: number,
+		violationId?: number,
+		origin?: MessageRef,
+	): Promise<WarningResult> {
+		const now = Math.floor(Date.now() / 1000);
+		const settings = WarningService.getSettings();
+		const expiresAt =
+			settings.decayDays > 0 ? now + settings.decayDays * 86400 : null;
+
+		const result = execute(
+			`INSERT INTO warnings (user_id, chat_id, reason, issued_by, violation_id, created_at, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+			[
+				userId,
+				chatId ?? null,
+				reason,
+				issuedBy,
+				violationId ?? null,
+				now,
+				expiresAt,
+			],
+		);
+		const activeWarnings = WarningService.syncWarningCount(userId);
+
+		StructuredLogger.logSecurityEvent("Warning issued", {
+			userId,
+			adminId: issuedBy ?? undefined,
+			operation: "warning_issued",
+			activeWarnings,
+			chatId,
+		});
+
+		const warningId = Number(result.lastInsertRowid);
+		await EventBus.publish("user.warned", {
+			warningId,
+			userId,
+			chatId: chatId ?? null,
+			actorId: issuedBy,
+			reason,
+			activeWarnings,
+			violationId,
+			origin,
+			timestamp: now,
+		});
+
+		const escalation =
+			settings.thresholds.find((t) => t.warnings === activeWarnings) || null;
+		if (escalation) {
+			try {
+				await WarningService.applyEscalation(
+					userId,
+					escalation,
+					chatId ?? null,
+					origin,
+				);
+			} catch (error) {
+				StructuredLogger.logError(error as Error, {
+					userId,
+					operation: "warning_escalation",
+					warnings: activeWarnings,
+				});
+			}
+		}
+
+		return {
+			warningId,
+			activeWarnings,
+			escalation,
+		};
+	}
+
+	/**
+	 * Gets a user's warnings, newest first.
+	 *
+	 * @param userId - Telegram user ID
+	 * @param includeExpired - Also return expired warnings
+	 */
+	static getWarnings(userId: number, includeExpired = false): Warning[] {
+		return includeExpired
+			? query<Warning>(
+					"SELECT * FROM warnings WHERE user_id = ? ORDER BY created_at DESC, id DESC",
+					[userId],
+				)
+			: query<Warning>(
+					`SELECT * FROM warnings
+           WHERE user_id = ? AND (expires_at IS NULL OR expires_at > ?)
+           ORDER BY created_at DESC, id DESC`,
+					[userId, Math.floor(Date.now() / 1000)],
+				);
+	}
+
+	/**
+	 * Counts a user's active (unexpired) warnings.
+	 *
+	 * @param userId - Telegram user ID
+	 */
+	static getActiveWarningCount(userId: number): number {
+		const result = get<{ count: number }>(
+			"SELECT COUNT(*) as count FROM warnings WHERE user_id = ? AND (expires_at IS NULL OR expires_at > ?)",
+			[userId, Math.floor(Date.now() / 1000)],
+		);
+		return result?.count || 0;
+	}
+
+	/**
+	 * Deletes all warnings of a user and resets the warning count.
+	 *
+	 * @param userId - Telegram user ID
+	 * @returns Number of warnings deleted
+	 */
+	static clearWarnings(userId: number): number {
+		const result = execute("DELETE FROM warnings WHERE user_id = ?", [userId]);
+		WarningService.syncWarningCount(userId);
+		return result.changes;
+	}
+
+	/**
+	 * Deletes the warnings issued for a violation, e.g. when it is
+	 * overturned on appeal, and updates the user's warning count.
+	 *
+	 * @param userId - Telegram user ID
+	 * @param violationId - Violation the warnings were issued for
+	 * @returns Number of warnings deleted
+	 */
+	static removeViolationWarnings(userId: number, violationId: number): number {
+		const result = execute(
+			"DELETE FROM warnings WHERE user_id = ? AND violation_id = ?",
+			[userId, violationId],
+		);
+		WarningService.syncWarningCount(userId);
+		return result.changes;
+	}
+
+	/**
+	 * Recalculates users.warning_count for users whose warnings expired.
+	 * Should be called periodically.
+	 */
+	static cleanExpiredWarnings(): void {
+		const result = execute(
+			`UPDATE users SET warning_count = (
+         SELECT COUNT(*) FROM warnings
+         WHERE warnings.user_id = users.id
+         AND (warnings.expires_at IS NULL OR warnings.expires_at > ?)
+       )
+       WHERE warning_count > 0`,
+			[Math.floor(Date.now() / 1000)],
+		);
+
+		logger.info("Recalculated warning counts", { users: result.changes });
+	}
+
+	private static syncWarningCount(userId: number): number {
+		const count = WarningService.getActiveWarningCount(userId);
+		execute("UPDATE users SET warning_count = ?, updated_at = ? WHERE id = ?", [
+			count,
+			Math.floor(Date.now() / 1000),
+			userId,
+		]);
+		return count;
+	}
+
+	private static saveSettings(settings: WarningSettings): void {
+		const value = JSON.stringify(settings);
+		execute(
+			`INSERT INTO system_state (key, value, updated_at)
+       VALUES (?, ?, strftime('%s', 'now'))
+       ON CONFLICT(key) DO UPDATE SET value = ?, updated_at = strftime('%s', 'now')`,
+			[SETTINGS_KEY, value, value],
+		);
+	}
+
+	private static async applyEscalation(
+		userId: number,
+		threshold: WarningThreshold,
+		chatId: number | null,
+		origin?: MessageRef,
+	): Promise<void> {
+		const request: ModerationRequest = {
+			userId,
+			chatId,
+			source: "warnings",
+			reason: "warning_escalation",
+			metadata: { warnings: threshold.warnings },
+			origin,
+		};
+
+		if (threshold.action === "jail") {
+			const duration = threshold.durationMinutes || 60;
+			const bailAmount = await JailService.calculateBailAmount(
+				duration,
+				chatId ?? undefined,
+			);
+
+			await ModerationActionService.jail({
+				...request,
+				durationMinutes: duration,
+				bailAmount,
+			});
+			return;
+		}
+
+		await ModerationActionService.ban(request);
+	}
+}
@@ -0,0 +1,592 @@
+/**
+ * Withdrawal policy service module.
+ * Decides whether an on-chain withdrawal may go ahead, must be refused, or
+ * must be held for owner approval.
+ *
+ * Checks, in order:
+ * - deposit cooldown: no withdrawals until a while after the user's first deposit
+ * - username cooldown: no withdrawals until a while after a username change
+ * - address book: only saved addresses, once they have aged past the address delay
+ * - limits: daily and weekly totals per role
+ * - approval: amounts above the threshold are held until an owner approves
+ *
+ * Limits and the threshold are in JUNO. Withdrawals of other denoms skip
+ * them and are always held for approval.
+ *
+ * Settings are stored in system_state so owners can change them at runtime.
+ * Every decision is stored on the ledger transaction it produced (or on the
+ * refused transaction record) under metadata.policy.
+ *
+ * @module services/withdrawalPolicy
+ */
+
+import type { Telegram } from "telegraf";
+import { bold, code, fmt } from "telegraf/format";
+import { config } from "../config";
+import { execute, get, query } from "../database";
+import type { User, WithdrawalAddress, WithdrawalApproval } from "../types";
+import { withdrawalApprovalKeyboard } from "../utils/keyboards";
+import { logger, StructuredLogger } from "../utils/logger";
+import { AmountPrecision } from "../utils/precision";
+import { DEFAULT_DENOM, DenomService } from "./denomService";
+import { LedgerService } from "./ledgerService";
+
+export type PolicyRole = User["role"];
+
+/**
+ * Rolling withdrawal limits in JUNO (0 = unlimited).
+ */
+export interface WithdrawalLimits {
+	daily: number;
+	weekly: number;
+}
+
+/**
+ * Withdrawal policy settings.
+ */
+export interface WithdrawalPolicySettings {
+	limits: Record<PolicyRole, WithdrawalLimits>;
+	/** Hours after the first deposit before withdrawals are allowed */
+	depositCooldownHours: number;
+	/** Hours after a username change before withdrawals are allowed */
+	usernameCooldownHours: number;
+	/** Hours before a newly saved address can be withdrawn to */
+	addressDelayHours: number;
+	/** Withdrawals above this many JUNO need owner approval (0 = never) */
+	approvalThreshold: number;
+}
+
+export type PolicySetting = Exclude<keyof WithdrawalPolicySettings, "limits">;
+
+export type PolicyRule =
+	| "deposit_cooldown"
+	| "username_cooldown"
+	| "address_book"
+	| "daily_limit"
+	| "weekly_limit"
+	| "approval";
+
+/**
+ * Outcome of a policy evaluation, stored on the transaction metadata.
+ */
+export interface PolicyDecision {
+	outcome: "allow" | "deny" | "hold";
+	/** Rule that refused or held the withdrawal */
+	rule?: PolicyRule;
+	/** User-facing explanation when not allowed */
+	reason?: string;
+	role: PolicyRole;
+	/** Amount in display units of the denom */
+	amount: number;
+	denom: string;
+	toAddress: string;
+	/** JUNO withdrawn in the last 24 hours / 7 days before this request */
+	dailyUsed: number;
+	weeklyUsed: number;
+	limits: WithdrawalLimits;
+	approvalId?: number;
+	approvedBy?: number;
+	rejectedBy?: number;
+	evaluatedAt: number;
+}
+
+// system_state key holding the JSON encoded WithdrawalPolicySettings
+const SETTINGS_KEY = "withdrawal_policy";
+
+// Owners must decide on held withdrawals within this time
+const APPROVAL_TTL_SECONDS = 24 * 60 * 60;
+
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+
+/**
+ * Policy used until an owner changes it.
+ */
+export const DEFAULT_WITHDRAWAL_POLICY: WithdrawalPolicySettings = {
+	limits: {
+		pleb: { daily: 100, weekly: 500 },
+		elevated: { daily: 500, weekly: 2500 },
+		admin: { daily: 2000, weekly: 10000 },
+		owner: { daily: 0, weekly: 0 },
+	},
+	depositCooldownHours: 24,
+	usernameCooldownHours: 24,
+	addressDelayHours: 24,
+	approvalThreshold: 1000,
+};
+
+/**
+ * Service class for the withdrawal policy.
+ */
+export class WithdrawalPolicyService {
+	/**
+	 * Gets the current policy settings.
+	 */
+	static getSettings(): WithdrawalPolicySettings {
+		const row = get<{ value: string }>(
+			"SELECT value FROM system_state WHERE key = ?",
+			[SETTINGS_KEY],
+		);
+		if (!row) return DEFAULT_WITHDRAWAL_POLICY;
+
+		const stored = JSON.parse(row.value) as Partial<WithdrawalPolicySettings>;
+		return {
+			...DEFAULT_WITHDRAWAL_POLICY,
+			...stored,
+			limits: { ...DEFAULT_WITHDRAWAL_POLICY.limits, ...stored.limits },
+		};
+	}
+
+	/**
+	 * Changes one policy setting.
+	 *
+	 * @param setting - Setting to change
+	 * @param value - New value (hours or JUNO, zero or more)
+	 * @param updatedBy - Owner making the change
+	 * @throws {Error} If the value is negative or not a number
+	 */
+	static setSetting(
+		setting: PolicySetting,
+		value: number,
+		updatedBy: number,
+	): void {
+		if (!Number.isFinite(value) || value < 0) {
+			throw new Error(`${setting} must be zero or a positive number`);
+		}
+
+		WithdrawalPolicyService.saveSettings({
+			...WithdrawalPolicyService.getSettings(),
+			[setting]: value,
+		});
+		StructuredLogger.logUserAction("Withdrawal policy updated", {
+			userId: updatedBy,
+			operation: "set_withdrawal_policy",
+			setting,
+			value,
+		});
+	}
+
+	/**
+	 * Changes the withdrawal limits of a role.
+	 *
+	 * @param role - Role the limits apply to
+	 * @param limits - Daily and weekly limits in JUNO (0 = unlimited)
+	 * @param updatedBy - Owner making the change
+	 * @throws {Error} If a limit is negative or the daily limit exceeds the weekly one
+	 */
+	static setLimits(
+		role: PolicyRole,
+		limits: WithdrawalLimits,
+		updatedBy: number,
+	): void {
+		if (
+			!Number.isFinite(limits.daily) ||
+			!Number.isFinite(limits.weekly) ||
+			limits.daily < 0 ||
+			limits.weekly < 0
+		) {
+			throw new Error("Limits must be zero or positive numbers");
+		}
+		if (limits.daily > 0 && limits.weekly > 0 && limits.daily > limits.weekly) {
+			throw new Error("The daily limit cannot be above the weekly limit");
+		}
+
+		const settings = WithdrawalPolicyService.getSettings();
+		WithdrawalPolicyService.saveSettings({
+			...settings,
+			limits: { ...settings.limits, [role]: limits },
+		});
+		StructuredLogger.logUserAction("Withdrawal limits updated", {
+			userId: updatedBy,
+			operation: "set_withdrawal_limits",
+			role,
+			daily: limits.daily,
+			weekly: limits.weekly,
+		});
+	}
+
+	/**
+	 * Evaluates a withdrawal against the policy.
+	 *
+	 * @param userId - User withdrawing
+	 * @param toAddress - Destination address
+	 * Limits and the approval threshold are in JUNO; withdrawals of other
+	 * denoms go through the same cooldown and address book checks and are
+	 * always held for owner approval.
+	 *
+	 * @param amount - Amount in display units of the denom
+	 * @param approval - Owner approval the withdrawal was released with, if any
+	 * @param denom - Denom withdrawn (defaults to JUNO)
+	 * @returns The decision
+	 */
+	static evaluate(
+		userId: number,
+		toAddress: string,
+		amount: number,
+		approval?: WithdrawalApproval,
+		denom: string = DEFAULT_DENOM,
+	): PolicyDecision {
+		const settings = WithdrawalPolicyService.getSettings();
+		const now = Math.floor(Date.now() / 1000);
+		const user = get<Pick<User, "role" | "username_changed_at">>(
+			"SELECT role, username_changed_at FROM users WHERE id = ?",
+			[userId],
+		);
+		const role: PolicyRole = user?.role || "pleb";
+		const limits = settings.limits[role] || settings.limits.pleb;
+
+		const decision: PolicyDecision = {
+			outcome: "allow",
+			role,
+			amount,
+			denom,
+			toAddress,
+			dailyUsed: WithdrawalPolicyService.withdrawnSince(userId, now - DAY),
+			weeklyUsed: WithdrawalPolicyService.withdrawnSince(userId, now - 7 * DAY),
+			limits,
+			evaluatedAt: now,
+		};
+		const refuse = (rule: PolicyRule, reason: string): PolicyDecision => ({
+			...decision,
+			outcome: "deny",
+			rule,
+			reason,
+		});
+
+		const firstDeposit = get<{ at: number | null }>(
+			`SELECT MIN(created_at) as at FROM transactions
+       WHERE transaction_type = 'deposit' AND to_user_id = ? AND status = 'completed'`,
+			[userId],
+		)?.at;
+		const depositReadyAt =
+			(firstDeposit || 0) + settings.depositCooldownHours * HOUR;
+		if (firstDeposit && now < depositReadyAt) {
+			return refuse(
+				"deposit_cooldown",
+				`Withdrawals open ${WithdrawalPolicyService.formatWait(depositReadyAt - now)} after your first deposit.`,
+			);
+		}
+
+		const usernameReadyAt =
+			(user?.username_changed_at || 0) + settings.usernameCooldownHours * HOUR;
+		if (user?.username_changed_at && now < usernameReadyAt) {
+			return refuse(
+				"username_cooldown",
+				`Your username changed recently. Withdrawals reopen in ${WithdrawalPolicyService.formatWait(usernameReadyAt - now)}.`,
+			);
+		}
+
+		const saved = WithdrawalPolicyService.getAddress(userId, toAddress);
+		if (!saved) {
+			return refuse(
+				"address_book",
+				"This address is not in your address book. Add it with /addaddress first.",
+			);
+		}
+		const addressReadyAt = saved.added_at + settings.addressDelayHours * HOUR;
+		if (now < addressReadyAt) {
+			return refuse(
+				"address_book",
+				`This address was added recently. It can be used in ${WithdrawalPolicyService.formatWait(addressReadyAt - now)}.`,
+			);
+		}
+
+		const approved =
+			approval?.status === "approved" &&
+			approval.user_id === userId &&
+			approval.to_address === toAddress &&
+			approval.denom === denom &&
+			approval.amount_ujuno === DenomService.toBaseUnits(amount, denom);
+
+		if (denom !== DEFAULT_DENOM) {
+			if (approved) {
+				return {
+					...decision,
+					approvalId: approval.id,
+					approvedBy: approval.decided_by ?? undefined,
+				};
+			}
+			return {
+				...decision,
+				outcome: "hold",
+				rule: "approval",
+				reason: `${DenomService.symbol(denom)} withdrawals need owner approval.`,
+			};
+		}
+
+		if (limits.daily > 0 && decision.dailyUsed + amount > limits.daily) {
+			return refuse(
+				"daily_limit",
+				`Daily withdrawal limit is ${AmountPrecision.format(limits.daily)} JUNO (${AmountPrecision.format(decision.dailyUsed)} used).`,
+			);
+		}
+		if (limits.weekly > 0 && decision.weeklyUsed + amount > limits.weekly) {
+			return refuse(
+				"weekly_limit",
+				`Weekly withdrawal limit is ${AmountPrecision.format(limits.weekly)} JUNO (${AmountPrecision.format(decision.weeklyUsed)} used).`,
+			);
+		}
+
+		if (settings.approvalThreshold > 0 && amount > settings.approvalThreshold) {
+			if (approved) {
+				return {
+					...decision,
+					approvalId: approval.id,
+					approvedBy: approval.decided_by ?? undefined,
+				};
+			}
+			return {
+				...decision,
+				outcome: "hold",
+				rule: "approval",
+				reason: `Withdrawals above ${AmountPrecision.format(settings.approvalThreshold)} JUNO need owner approval.`,
+			};
+		}
+
+		return decision;
+	}
+
+	/**
+	 * Saves an address to the user's address book.
+	 *
+	 * @param userId - Address book owner
+	 * @param address - Withdrawal address
+	 * @param label - Optional label
+	 * @returns The saved entry (existing entries keep their original age)
+	 */
+	static addAddress(
+		userId: number,
+		address: string,
+		label?: string,
+	): WithdrawalAddress {
+		execute(
+			`INSERT INTO withdrawal_addresses (user_id, address, label) VALUES (?, ?, ?)
+       ON CONFLICT(user_id, address) DO UPDATE SET label = COALESCE(excluded.label, label)`,
+			[userId, address, label || null],
+		);
+		StructuredLogger.logSecurityEvent("Withdrawal address added", {
+			userId,
+			operation: "add_withdrawal_address",
+			toAddress: address,
+		});
+		return WithdrawalPolicyService.getAddress(
+			userId,
+			address,
+		) as WithdrawalAddress;
+	}
+
+	/**
+	 * Removes an address from the user's address book.
+	 *
+	 * @returns True if the address was saved
+	 */
+	static removeAddress(userId: number, address: string): boolean {
+		return (
+			execute(
+				"DELETE FROM withdrawal_addresses WHERE user_id = ? AND address = ?",
+				[userId, address],
+			).changes > 0
+		);
+	}
+
+	/**
+	 * Gets a saved address.
+	 */
+	static getAddress(
+		userId: number,
+		address: string,
+	): WithdrawalAddress | undefined {
+		return get<WithdrawalAddress>(
+			"SELECT * FROM withdrawal_addresses WHERE user_id = ? AND address = ?",
+			[userId, address],
+		);
+	}
+
+	/**
+	 * Lists the user's address book, oldest first.
+	 */
+	static listAddresses(userId: number): WithdrawalAddress[] {
+		return query<WithdrawalAddress>(
+			"SELECT * FROM withdrawal_addresses WHERE user_id = ? ORDER BY added_at, address",
+			[userId],
+		);
+	}
+
+	/**
+	 * Holds a withdrawal for owner approval and posts the approve/reject
+	 * buttons to the admin chat.
+	 *
+	 * @param telegram - Telegram instance used to post the request
+	 * @param decision - The hold decision
+	 * @param userId - User withdrawing
+	 * @param username - Display name for the request message
+	 * @returns The approval record
+	 */
+	static async requestApproval(
+		telegram: Telegram,
+		decision: PolicyDecision,
+		userId: number,
+		username: string,
+	): Promise<WithdrawalApproval> {
+		const result = execute(
+			`INSERT INTO withdrawal_approvals (user_id, to_address, amount_ujuno, denom, decision)
+       VALUES (?, ?, ?, ?, ?)`,
+			[
+				userId,
+				decision.toAddress,
+				DenomService.toBaseUnits(decision.amount, decision.denom),
+				decision.denom,
+				JSON.stringify(decision),
+			],
+		);
+		const approvalId = Number(result.lastInsertRowid);
+
+		StructuredLogger.logSecurityEvent("Withdrawal held for approval", {
+			userId,
+			operation: "withdrawal_approval_requested",
+			amount: decision.amount.toString(),
+			denom: decision.denom,
+			toAddress: decision.toAddress,
+			approvalId,
+		});
+
+		if (!config.adminChatId) {
+			logger.warn("Admin chat not configured, withdrawal approval not posted", {
+				approvalId,
+			});
+		} else {
+			try {
+				const message = await telegram.sendMessage(
+					config.adminChatId,
+					fmt`${bold("Withdrawal Approval Needed")}
+
+User: ${username} (${code(String(userId))})
+Amount: ${code(DenomService.formatAmount(decision.amount, decision.denom))}
+To: ${code(decision.toAddress)}
+Role: ${decision.role}
+Used: ${AmountPrecision.format(decision.dailyUsed)} today, ${AmountPrecision.format(decision.weeklyUsed)} this week
+
+Expires in 24 hours. Request #${approvalId}`,
+					{ reply_markup: withdrawalApprovalKeyboard(approvalId) },
+				);
+				execute(
+					"UPDATE withdrawal_approvals SET chat_id = ?, message_id = ? WHERE id = ?",
+					[message.chat.id, message.message_id, approvalId],
+				);
+			} catch (error) {
+				logger.error("Failed to post withdrawal approval request", {
+					approvalId,
+					error,
+				});
+			}
+		}
+
+		return WithdrawalPolicyService.getApproval(
+			approvalId,
+		) as WithdrawalApproval;
+	}
+
+	/**
+	 * Gets an approval by ID.
+	 */
+	static getApproval(approvalId: number): WithdrawalApproval | undefined {
+		return get<WithdrawalApproval>(
+			"SELECT * FROM withdrawal_approvals WHERE id = ?",
+			[approvalId],
+		);
+	}
+
+	/**
+	 * Records an owner's decision on a held withdrawal. Only pending,
+	 * unexpired approvals can be decided; expired ones are marked as such.
+	 * A rejection is recorded as a refused withdrawal; an approved withdrawal
+	 * still has to be processed with the approval ID.
+	 *
+	 * @param approvalId - Approval ID
+	 * @param ownerId - Owner deciding
+	 * @param approve - Approve (true) or reject (false)
+	 * @returns The updated approval, or null if it was no longer pending
+	 */
+	static async decide(
+		approvalId: number,
+		ownerId: number,
+		approve: boolean,
+	): Promise<WithdrawalApproval | null> {
+		const now = Math.floor(Date.now() / 1000);
+		execute(
+			"UPDATE withdrawal_approvals SET status = 'expired' WHERE id = ? AND status = 'pending' AND created_at <= ?",
+			[approvalId, now - APPROVAL_TTL_SECONDS],
+		);
+
+		const updated = execute(
+			`UPDATE withdrawal_approvals SET status = ?, decided_by = ?, decided_at = ?
+       WHERE id = ? AND status = 'pending'`,
+			[approve ? "approved" : "rejected", ownerId, now, approvalId],
+		);
+		if (updated.changes === 0) return null;
+
+		const approval = WithdrawalPolicyService.getApproval(
+			approvalId,
+		) as WithdrawalApproval;
+		StructuredLogger.logSecurityEvent(
+			approve ? "Withdrawal approved" : "Withdrawal rejected",
+			{
+				userId: ownerId,
+				operation: "withdrawal_approval_decided",
+				targetUserId: approval.user_id,
+				approvalId,
+			},
+		);
+
+		if (!approve) {
+			const held = JSON.parse(approval.decision || "{}") as PolicyDecision;
+			LedgerService.recordRefusedWithdrawal(
+				approval.user_id,
+				DenomService.fromBaseUnits(approval.amount_ujuno, approval.denom),
+				approval.to_address,
+				"rejected by an owner",
+				{
+					policy: {
+						...held,
+						outcome: "deny",
+						rule: "approval",
+						reason: "Rejected by an owner.",
+						approvalId,
+						rejectedBy: ownerId,
+					},
+				},
+				approval.denom,
+			);
+		}
+
+		return approval;
+	}
+
+	/**
+	 * JUNO withdrawn (pending or completed) by a user since a time.
+	 */
+	private static withdrawnSince(userId: number, since: number): number {
+		const row = get<{ total: number }>(
+			`SELECT COALESCE(SUM(amount_ujuno), 0) as total FROM transactions
+       WHERE transaction_type = 'withdrawal' AND denom = ? AND from_user_id = ? AND status != 'failed' AND created_at >= ?`,
+			[DEFAULT_DENOM, userId, since],
+		);
+		return AmountPrecision.fromMicroJuno(row?.total || 0);
+	}
+
+	private static saveSettings(settings: WithdrawalPolicySettings): void {
+		const json = JSON.stringify(settings);
+		execute(
+			`INSERT INTO system_state (key, value, updated_at)
+       VALUES (?, ?, strftime('%s', 'now'))
+       ON CONFLICT(key) DO UPDATE SET value = ?, updated_at = strftime('%s', 'now')`,
+			[SETTINGS_KEY, json, json],
+		);
+	}
+
+	private static formatWait(seconds: number): string {
+		const hours = Math.floor(seconds / HOUR);
+		const minutes = Math.ceil((seconds % HOUR) / 60);
+		return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+	}
+}
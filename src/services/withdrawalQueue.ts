@@ -0,0 +1,795 @@
+/**
+ * Withdrawal queue service module.
+ * Pays on-chain withdrawals from a persistent queue with a single worker, so
+ * a crash or restart at any point resumes without paying twice or losing
+ * the user's funds.
+ *
+ * Request lifecycle (withdrawal_requests.status):
+ * - requested: ledger debited (pending transaction), waiting to be signed
+ * - signed: transaction signed and stored (bytes, hash, sequence) but not yet
+ *   handed to a node
+ * - broadcast: transaction handed to a node at least once
+ * - confirmed: transaction included on chain successfully
+ * - failed: gave up; the ledger debit was refunded
+ *
+ * Safety rules:
+ * - Only one transaction is in flight at a time, signed with an explicit
+ *   account sequence, so the worker fully controls the sequence numbers.
+ * - Signed bytes are persisted before broadcast and re-broadcast verbatim
+ *   (never re-signed) while they can still land. A given sequence can only be
+ *   used by one transaction, so re-broadcasting can never double pay.
+ * - Requests are only re-signed or refunded once their transaction failed on
+ *   chain or its sequence was consumed by another transaction.
+ *
+ * Several requests can be combined into one MsgMultiSend (WITHDRAWAL_BATCH_SIZE).
+ *
+ * @module services/withdrawalQueue
+ */
+
+import type { EncodeObject } from "@cosmjs/proto-signing";
+import {
+	BroadcastTxError,
+	calculateFee,
+	GasPrice,
+	type IndexedTx,
+	type SequenceResponse,
+	type SignerData,
+	type StdFee,
+} from "@cosmjs/stargate";
+import { TxRaw } from "cosmjs-types/cosmos/tx/v1beta1/tx";
+import { createHash } from "crypto";
+import { execute, get, query, withTransaction } from "../database";
+import type { WithdrawalRequest } from "../types";
+import { logger, StructuredLogger } from "../utils/logger";
+import { AmountPrecision } from "../utils/precision";
+import { DEFAULT_DENOM, DenomService } from "./denomService";
+import { EventBus } from "./eventBus";
+import {
+	LedgerService,
+	TransactionStatus,
+	TransactionType,
+} from "./ledgerService";
+import { MaintenanceService } from "./maintenanceService";
+import { SYSTEM_USER_IDS } from "./unifiedWalletService";
+
+/**
+ * Chain operations the worker needs (implemented by SigningStargateClient).
+ */
+export interface WithdrawalChainClient {
+	getChainId(): Promise<string>;
+	getSequence(address: string): Promise<SequenceResponse>;
+	simulate(
+		signerAddress: string,
+		messages: readonly EncodeObject[],
+		memo: string | undefined,
+	): Promise<number>;
+	sign(
+		signerAddress: string,
+		messages: readonly EncodeObject[],
+		fee: StdFee,
+		memo: string,
+		explicitSignerData?: SignerData,
+	): Promise<TxRaw>;
+	broadcastTxSync(tx: Uint8Array): Promise<string>;
+	getTx(id: string): Promise<IndexedTx | null>;
+}
+
+/**
+ * Worker configuration.
+ */
+export interface WithdrawalQueueOptions {
+	/** Hot wallet address paying the withdrawals */
+	address: string;
+	/** Connects a signing client for the hot wallet */
+	connect: () => Promise<WithdrawalChainClient>;
+	/** Maximum requests combined into one MsgMultiSend (1 = no batching) */
+	batchSize?: number;
+	/** How often the worker runs, in milliseconds */
+	intervalMs?: number;
+}
+
+const GAS_PRICE = GasPrice.fromString("0.075ujuno");
+const GAS_MULTIPLIER = 1.4;
+
+/** Attempts (sign errors or on-chain failures) before a request is refunded */
+export const MAX_WITHDRAWAL_ATTEMPTS = 8;
+
+// Retry backoff: 15s doubling per attempt, capped at 30 minutes
+const BACKOFF_BASE_SECONDS = 15;
+const BACKOFF_MAX_SECONDS = 30 * 60;
+
+// A broadcast transaction not seen on chain after this long is re-broadcast
+const REBROADCAST_AFTER_SECONDS = 60;
+
+// Requests not linked to a ledger debit within this long were never funded
+const UNLINKED_GRACE_SECONDS = 60;
+
+const ALREADY_BROADCAST = /already exists in cache|tx already in mempool/i;
+
+/**
+ * Service class for the durable withdrawal queue.
+ */
+export class WithdrawalQueueService {
+	private static options: WithdrawalQueueOptions | null = null;
+	private static client: WithdrawalChainClient | null = null;
+	private static timer: NodeJS.Timeout | null = null;
+	private static running: Promise<void> | null = null;
+
+	/**
+	 * Configures the worker, recovers requests interrupted by a restart and
+	 * starts processing the queue periodically.
+	 *
+	 * @param options - Wallet address, client factory and batching settings
+	 */
+	static async initialize(options: WithdrawalQueueOptions): Promise<void> {
+		WithdrawalQueueService.stop();
+		WithdrawalQueueService.options = options;
+		WithdrawalQueueService.client = null;
+
+		WithdrawalQueueService.recoverUnlinked(true);
+
+		const pending = get<{ count: number }>(
+			"SELECT COUNT(*) as count FROM withdrawal_requests WHERE status NOT IN ('confirmed', 'failed')",
+		);
+		logger.info("Withdrawal queue initialized", {
+			pending: pending?.count || 0,
+			batchSize: options.batchSize || 1,
+		});
+
+		WithdrawalQueueService.timer = setInterval(() => {
+			void WithdrawalQueueService.processQueue();
+		}, options.intervalMs || 5000);
+		void WithdrawalQueueService.processQueue();
+	}
+
+	/**
+	 * Stops the periodic worker.
+	 */
+	static stop(): void {
+		if (WithdrawalQueueService.timer) {
+			clearInterval(WithdrawalQueueService.timer);
+			WithdrawalQueueService.timer = null;
+		}
+	}
+
+	/**
+	 * Whether the worker is configured (a signing wallet is available).
+	 */
+	static isEnabled(): boolean {
+		return WithdrawalQueueService.options !== null;
+	}
+
+	/**
+	 * Adds a withdrawal to the queue. The ledger must be debited right after
+	 * and linked with linkLedgerTransaction; unlinked requests are never paid.
+	 *
+	 * @param userId - User withdrawing
+	 * @param toAddress - Destination address
+	 * @param amountMicro - Amount in base units of the denom (ujuno for JUNO)
+	 * @param denom - Bank denom to send
+	 * @returns ID of the new request
+	 */
+	static enqueue(
+		userId: number,
+		toAddress: string,
+		amountMicro: number,
+		denom: string = DEFAULT_DENOM,
+	): number {
+		const result = execute(
+			`INSERT INTO withdrawal_requests (user_id, to_address, amount_ujuno, denom)
+       VALUES (?, ?, ?, ?)`,
+			[userId, toAddress, amountMicro, denom],
+		);
+		return Number(result.lastInsertRowid);
+	}
+
+	/**
+	 * Links a request to its ledger debit, making it eligible for payment.
+	 *
+	 * @param requestId - Withdrawal request ID
+	 * @param transactionId - Pending ledger withdrawal transaction ID
+	 */
+	static linkLedgerTransaction(requestId: number, transactionId: number): void {
+		execute(
+			"UPDATE withdrawal_requests SET ledger_transaction_id = ?, updated_at = strftime('%s', 'now') WHERE id = ?",
+			[transactionId, requestId],
+		);
+	}
+
+	/**
+	 * Marks a request that could not be funded as failed (nothing to refund).
+	 *
+	 * @param requestId - Withdrawal request ID
+	 * @param reason - Why the request was dropped
+	 */
+	static cancel(requestId: number, reason: string): void {
+		execute(
+			`UPDATE withdrawal_requests SET status = 'failed', last_error = ?, updated_at = strftime('%s', 'now')
+       WHERE id = ? AND status = 'requested'`,
+			[reason, requestId],
+		);
+	}
+
+	/**
+	 * Gets a withdrawal request by ID.
+	 *
+	 * @param requestId - Withdrawal request ID
+	 */
+	static getRequest(requestId: number): WithdrawalRequest | null {
+		return (
+			get<WithdrawalRequest>("SELECT * FROM withdrawal_requests WHERE id = ?", [
+				requestId,
+			]) ?? null
+		);
+	}
+
+	/**
+	 * Waits until a request is confirmed or failed, nudging the worker.
+	 *
+	 * @param requestId - Withdrawal request ID
+	 * @param timeoutMs - How long to wait
+	 * @returns The request in its latest state (may still be pending on timeout)
+	 */
+	static async waitForResult(
+		requestId: number,
+		timeoutMs: number,
+	): Promise<WithdrawalRequest | null> {
+		const deadline = Date.now() + timeoutMs;
+		for (;;) {
+			await WithdrawalQueueService.processQueue();
+			const request = WithdrawalQueueService.getRequest(requestId);
+			if (
+				!request ||
+				request.status === "confirmed" ||
+				request.status === "failed" ||
+				Date.now() >= deadline
+			) {
+				return request;
+			}
+			await new Promise((resolve) => setTimeout(resolve, 1000));
+		}
+	}
+
+	/**
+	 * Runs one worker pass. Concurrent calls share the running pass, so there
+	 * is only ever a single worker.
+	 */
+	static processQueue(): Promise<void> {
+		if (!WithdrawalQueueService.options) return Promise.resolve();
+		if (!WithdrawalQueueService.running) {
+			WithdrawalQueueService.running = WithdrawalQueueService.runOnce()
+				.catch((error) => {
+					StructuredLogger.logError(error as Error, {
+						operation: "withdrawal_queue",
+					});
+				})
+				.finally(() => {
+					WithdrawalQueueService.running = null;
+				});
+		}
+		return WithdrawalQueueService.running;
+	}
+
+	private static async runOnce(): Promise<void> {
+		const now = Math.floor(Date.now() / 1000);
+		WithdrawalQueueService.recoverUnlinked(false);
+
+		// Finish the in-flight transaction before signing another one
+		const inFlight = query<WithdrawalRequest>(
+			"SELECT * FROM withdrawal_requests WHERE status IN ('signed', 'broadcast') ORDER BY id",
+		);
+		if (inFlight.length > 0) {
+			const txHash = inFlight[0].tx_hash;
+			const batch = inFlight.filter((request) => request.tx_hash === txHash);
+			if (batch[0].next_attempt_at <= now) {
+				await WithdrawalQueueService.advanceInFlight(batch, now);
+			}
+			return;
+		}
+
+		// Queued requests wait until withdrawals are resumed
+		if (MaintenanceService.isPaused("withdrawals")) return;
+
+		const due = query<WithdrawalRequest>(
+			`SELECT * FROM withdrawal_requests
+       WHERE status = 'requested' AND ledger_transaction_id IS NOT NULL AND next_attempt_at <= ?
+       ORDER BY id LIMIT ?`,
+			[now, WithdrawalQueueService.options?.batchSize || 1],
+		);
+		if (due.length === 0) return;
+
+		const signed = await WithdrawalQueueService.signBatch(due, now);
+		if (signed) {
+			await WithdrawalQueueService.broadcast(signed, now);
+		}
+	}
+
+	/**
+	 * Moves a signed or broadcast transaction forward: settles it once it is
+	 * on chain, otherwise (re-)broadcasts the same bytes, or releases the
+	 * requests for re-signing once the sequence was consumed elsewhere.
+	 */
+	private static async advanceInFlight(
+		batch: WithdrawalRequest[],
+		now: number,
+	): Promise<void> {
+		const client = await WithdrawalQueueService.getClient();
+		const [first] = batch;
+		const txHash = first.tx_hash as string;
+
+		const tx = await client.getTx(txHash);
+		if (tx) {
+			// Fee, request statuses and refunds commit together
+			withTransaction(() => WithdrawalQueueService.settle(batch, tx));
+			if (tx.code === 0) {
+				await WithdrawalQueueService.publishCompleted(batch, tx.hash);
+			}
+			return;
+		}
+
+		if (first.status === "signed") {
+			await WithdrawalQueueService.broadcast(batch, now);
+			return;
+		}
+
+		const { sequence } = await client.getSequence(
+			WithdrawalQueueService.options?.address as string,
+		);
+		if (sequence > (first.sequence as number)) {
+			// Another transaction used this sequence, so ours can never land.
+			// Check once more in case the node indexed it in the meantime.
+			if (await client.getTx(txHash)) return;
+			logger.warn("Withdrawal transaction was dropped, re-signing", {
+				txHash,
+				sequence: first.sequence,
+				requests: batch.map((request) => request.id),
+			});
+			WithdrawalQueueService.releaseForSigning(
+				batch,
+				"Transaction dropped",
+				now,
+				false,
+			);
+			return;
+		}
+
+		if (now - (first.broadcast_at || 0) >= REBROADCAST_AFTER_SECONDS) {
+			await WithdrawalQueueService.broadcast(batch, now);
+		}
+	}
+
+	/**
+	 * Builds, signs and stores the transaction paying a batch of requests.
+	 *
+	 * @returns The signed requests, or null if signing failed or none of the
+	 *   requests were still queued
+	 */
+	private static async signBatch(
+		batch: WithdrawalRequest[],
+		now: number,
+	): Promise<WithdrawalRequest[] | null> {
+		const options = WithdrawalQueueService.options as WithdrawalQueueOptions;
+
+		try {
+			const client = await WithdrawalQueueService.getClient();
+			const messages = WithdrawalQueueService.buildMessages(
+				options.address,
+				batch,
+			);
+			const memo =
+				batch.length === 1
+					? `Withdrawal for user ${batch[0].user_id}`
+					: `Withdrawal batch ${batch.map((request) => request.id).join(",")}`;
+
+			const gasEstimate = await client.simulate(
+				options.address,
+				messages,
+				memo,
+			);
+			const fee = calculateFee(
+				Math.ceil(gasEstimate * GAS_MULTIPLIER),
+				GAS_PRICE,
+			);
+			const [account, chainId] = await Promise.all([
+				client.getSequence(options.address),
+				client.getChainId(),
+			]);
+
+			const txRaw = await client.sign(options.address, messages, fee, memo, {
+				accountNumber: account.accountNumber,
+				sequence: account.sequence,
+				chainId,
+			});
+			const txBytes = TxRaw.encode(txRaw).finish();
+			const txHash = createHash("sha256")
+				.update(txBytes)
+				.digest("hex")
+				.toUpperCase();
+
+			// Persist before broadcasting so a restart resumes with these exact bytes
+			const ids = batch.map((request) => request.id);
+			const claimed = execute(
+				`UPDATE withdrawal_requests
+         SET status = 'signed', signed_tx = ?, tx_hash = ?, sequence = ?, fee_ujuno = ?,
+             broadcast_at = NULL, last_error = NULL, updated_at = strftime('%s', 'now')
+         WHERE id IN (${ids.map(() => "?").join(",")}) AND status = 'requested'`,
+				[
+					Buffer.from(txBytes).toString("base64"),
+					txHash,
+					account.sequence,
+					Number(fee.amount[0].amount),
+					...ids,
+				],
+			);
+			if (claimed.changes === 0) {
+				// The requests left the queue (e.g. refunded) while we were signing
+				logger.warn("Withdrawal requests changed while signing, skipping", {
+					txHash,
+					requests: ids,
+				});
+				return null;
+			}
+
+			logger.info("Withdrawal transaction signed", {
+				txHash,
+				sequence: account.sequence,
+				requests: ids,
+			});
+
+			return query<WithdrawalRequest>(
+				"SELECT * FROM withdrawal_requests WHERE tx_hash = ? ORDER BY id",
+				[txHash],
+			);
+		} catch (error) {
+			// Nothing was broadcast, so the requests can safely be retried or refunded
+			logger.error("Failed to sign withdrawal transaction", {
+				requests: batch.map((request) => request.id),
+				error,
+			});
+			WithdrawalQueueService.releaseForSigning(
+				batch,
+				error instanceof Error ? error.message : String(error),
+				now,
+				true,
+			);
+			return null;
+		}
+	}
+
+	/**
+	 * Hands the stored transaction bytes to the node. The status is set to
+	 * broadcast first, so after a crash the transaction is treated as possibly
+	 * live.
+	 */
+	private static async broadcast(
+		batch: WithdrawalRequest[],
+		now: number,
+	): Promise<void> {
+		const [first] = batch;
+		const txHash = first.tx_hash as string;
+		execute(
+			`UPDATE withdrawal_requests
+       SET status = 'broadcast', broadcast_at = COALESCE(broadcast_at, ?), updated_at = strftime('%s', 'now')
+       WHERE tx_hash = ?`,
+			[now, txHash],
+		);
+
+		try {
+			const client = await WithdrawalQueueService.getClient();
+			await client.broadcastTxSync(
+				Buffer.from(first.signed_tx as string, "base64"),
+			);
+			execute(
+				"UPDATE withdrawal_requests SET broadcast_at = ?, next_attempt_at = 0 WHERE tx_hash = ?",
+				[now, txHash],
+			);
+			logger.info("Withdrawal transaction broadcast", {
+				txHash,
+				requests: batch.map((request) => request.id),
+			});
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			if (ALREADY_BROADCAST.test(message)) return;
+
+			// Rejected or unreachable: keep the same bytes and try again later
+			const attempts = first.attempts + 1;
+			execute(
+				`UPDATE withdrawal_requests SET attempts = ?, next_attempt_at = ?, last_error = ?,
+         updated_at = strftime('%s', 'now') WHERE tx_hash = ?`,
+				[
+					attempts,
+					now + WithdrawalQueueService.backoff(attempts),
+					message,
+					txHash,
+				],
+			);
+			logger.warn("Withdrawal broadcast failed, will retry", {
+				txHash,
+				attempts,
+				code: error instanceof BroadcastTxError ? error.code : undefined,
+				error: message,
+			});
+
+			if (attempts === MAX_WITHDRAWAL_ATTEMPTS) {
+				await EventBus.publish("withdrawal.stuck", {
+					txHash,
+					requestIds: batch.map((request) => request.id),
+					attempts,
+					error: message,
+					timestamp: now,
+				});
+			}
+		}
+	}
+
+	/**
+	 * Records the outcome of a transaction found on chain.
+	 */
+	private static settle(batch: WithdrawalRequest[], tx: IndexedTx): void {
+		const [first] = batch;
+		const now = Math.floor(Date.now() / 1000);
+
+		// The fee is paid whether or not the transaction succeeded
+		if (first.fee_ujuno) {
+			LedgerService.processAdjustment(
+				SYSTEM_USER_IDS.SYSTEM_RESERVE,
+				-AmountPrecision.fromMicroJuno(first.fee_ujuno),
+				`Gas fee for withdrawal ${tx.hash.slice(0, 16)}...`,
+				{
+					type: TransactionType.GAS_FEE,
+					parentTransactionId: first.ledger_transaction_id ?? undefined,
+				},
+			);
+		}
+
+		if (tx.code === 0) {
+			for (const request of batch) {
+				execute(
+					"UPDATE withdrawal_requests SET status = 'confirmed', last_error = NULL, updated_at = strftime('%s', 'now') WHERE id = ?",
+					[request.id],
+				);
+				if (request.ledger_transaction_id) {
+					LedgerService.updateTransactionStatus(
+						request.ledger_transaction_id,
+						TransactionStatus.COMPLETED,
+						tx.hash,
+					);
+				}
+			}
+			return;
+		}
+
+		// Failed on chain: its sequence is consumed, so the requests can be re-signed
+		logger.error("Withdrawal transaction failed on chain", {
+			txHash: tx.hash,
+			code: tx.code,
+			rawLog: tx.rawLog,
+		});
+		WithdrawalQueueService.releaseForSigning(
+			batch,
+			`Transaction failed on chain (code ${tx.code})`,
+			now,
+			true,
+		);
+	}
+
+	/**
+	 * Publishes withdrawal.completed for each request of a confirmed batch.
+	 */
+	private static async publishCompleted(
+		batch: WithdrawalRequest[],
+		txHash: string,
+	): Promise<void> {
+		for (const request of batch) {
+			await EventBus.publish("withdrawal.completed", {
+				withdrawalId: request.id,
+				userId: request.user_id,
+				amount: DenomService.fromBaseUnits(request.amount_ujuno, request.denom),
+				denom: request.denom,
+				toAddress: request.to_address,
+				txHash,
+				timestamp: Math.floor(Date.now() / 1000),
+			});
+		}
+	}
+
+	/**
+	 * Returns requests whose transaction can no longer land to the requested
+	 * state, or refunds them after too many attempts.
+	 *
+	 * @param countAttempt - Whether this counts as a failed attempt (and backs off)
+	 */
+	private static releaseForSigning(
+		batch: WithdrawalRequest[],
+		reason: string,
+		now: number,
+		countAttempt: boolean,
+	): void {
+		for (const request of batch) {
+			const attempts = request.attempts + (countAttempt ? 1 : 0);
+			if (attempts >= MAX_WITHDRAWAL_ATTEMPTS) {
+				WithdrawalQueueService.refund(request, reason);
+				continue;
+			}
+			execute(
+				`UPDATE withdrawal_requests
+         SET status = 'requested', attempts = ?, next_attempt_at = ?, last_error = ?,
+             signed_tx = NULL, tx_hash = NULL, sequence = NULL, fee_ujuno = NULL, broadcast_at = NULL,
+             updated_at = strftime('%s', 'now')
+         WHERE id = ?`,
+				[
+					attempts,
+					countAttempt ? now + WithdrawalQueueService.backoff(attempts) : now,
+					reason,
+					request.id,
+				],
+			);
+		}
+	}
+
+	/**
+	 * Gives up on a request and credits the amount back to the user.
+	 */
+	private static refund(request: WithdrawalRequest, reason: string): void {
+		// Failing the request and crediting the refund commit together, so a
+		// request is never marked failed without its refund
+		const refunded = withTransaction(() => {
+			const updated = execute(
+				`UPDATE withdrawal_requests
+         SET status = 'failed', last_error = ?, signed_tx = NULL, updated_at = strftime('%s', 'now')
+         WHERE id = ? AND status != 'failed'`,
+				[reason, request.id],
+			);
+			if (updated.changes === 0) return false;
+
+			if (request.ledger_transaction_id) {
+				LedgerService.updateTransactionStatus(
+					request.ledger_transaction_id,
+					TransactionStatus.FAILED,
+				);
+				const refund = LedgerService.processRefund(
+					request.user_id,
+					DenomService.fromBaseUnits(request.amount_ujuno, request.denom),
+					request.ledger_transaction_id,
+					"Withdrawal refund - transaction failed",
+				);
+				if (!refund.success) {
+					throw new Error("Withdrawal refund could not be credited");
+				}
+			}
+			return true;
+		});
+		if (!refunded) return;
+
+		StructuredLogger.logError(`Withdrawal ${request.id} failed: ${reason}`, {
+			userId: request.user_id,
+			operation: "withdrawal_refund",
+			amount: DenomService.fromBaseUnits(
+				request.amount_ujuno,
+				request.denom,
+			).toString(),
+			denom: request.denom,
+		});
+	}
+
+	/**
+	 * Handles requests left without a ledger link (crash between enqueue and
+	 * debit). A matching pending ledger withdrawal is adopted; otherwise the
+	 * request was never funded and is dropped.
+	 *
+	 * @param startup - At startup every unlinked request is stale
+	 */
+	private static recoverUnlinked(startup: boolean): void {
+		const cutoff = startup
+			? Number.MAX_SAFE_INTEGER
+			: Math.floor(Date.now() / 1000) - UNLINKED_GRACE_SECONDS;
+		const unlinked = query<WithdrawalRequest>(
+			`SELECT * FROM withdrawal_requests
+       WHERE status = 'requested' AND ledger_transaction_id IS NULL AND created_at <= ?`,
+			[cutoff],
+		);
+
+		for (const request of unlinked) {
+			const debit = get<{ id: number }>(
+				`SELECT id FROM transactions
+         WHERE transaction_type = 'withdrawal' AND status = 'pending'
+           AND from_user_id = ? AND amount_ujuno = ? AND denom = ? AND external_address = ? AND created_at >= ?
+           AND id NOT IN (SELECT ledger_transaction_id FROM withdrawal_requests WHERE ledger_transaction_id IS NOT NULL)
+         ORDER BY id LIMIT 1`,
+				[
+					request.user_id,
+					request.amount_ujuno,
+					request.denom,
+					request.to_address,
+					request.created_at,
+				],
+			);
+			if (debit) {
+				WithdrawalQueueService.linkLedgerTransaction(request.id, debit.id);
+				logger.warn("Recovered withdrawal request ledger link", {
+					requestId: request.id,
+					transactionId: debit.id,
+				});
+			} else {
+				WithdrawalQueueService.cancel(request.id, "Never debited");
+				logger.warn("Dropped unfunded withdrawal request", {
+					requestId: request.id,
+				});
+			}
+		}
+	}
+
+	/**
+	 * Builds a MsgSend for a single request, or one MsgMultiSend for a batch.
+	 * A batch may mix denoms; the input then carries one coin per denom,
+	 * sorted by denom as the bank module requires.
+	 */
+	private static buildMessages(
+		fromAddress: string,
+		batch: WithdrawalRequest[],
+	): EncodeObject[] {
+		if (batch.length === 1) {
+			return [
+				{
+					typeUrl: "/cosmos.bank.v1beta1.MsgSend",
+					value: {
+						fromAddress,
+						toAddress: batch[0].to_address,
+						amount: [
+							{
+								denom: batch[0].denom,
+								amount: String(batch[0].amount_ujuno),
+							},
+						],
+					},
+				},
+			];
+		}
+
+		const totals = new Map<string, number>();
+		for (const request of batch) {
+			totals.set(
+				request.denom,
+				(totals.get(request.denom) ?? 0) + request.amount_ujuno,
+			);
+		}
+		return [
+			{
+				typeUrl: "/cosmos.bank.v1beta1.MsgMultiSend",
+				value: {
+					inputs: [
+						{
+							address: fromAddress,
+							coins: [...totals.keys()].sort().map((denom) => ({
+								denom,
+								amount: String(totals.get(denom)),
+							})),
+						},
+					],
+					outputs: batch.map((request) => ({
+						address: request.to_address,
+						coins: [
+							{ denom: request.denom, amount: String(request.amount_ujuno) },
+						],
+					})),
+				},
+			},
+		];
+	}
+
+	private static async getClient(): Promise<WithdrawalChainClient> {
+		if (!WithdrawalQueueService.client) {
+			WithdrawalQueueService.client = await (
+				WithdrawalQueueService.options as WithdrawalQueueOptions
+			).connect();
+		}
+		return WithdrawalQueueService.client;
+	}
+
+	private static backoff(attempts: number): number {
+		return Math.min(
+			BACKOFF_BASE_SECONDS * 2 ** Math.max(attempts - 1, 0),
+			BACKOFF_MAX_SECONDS,
+		);
+	}
+}
@@ -0,0 +1,35 @@
+/**
+ * Auto-delete subscribers for the CAC Admin Bot.
+ * Deletes command replies sent in groups, and the commands they answer,
+ * once their timeout has passed.
+ *
+ * @module subscribers/autoDelete
+ */
+
+import type { Context, Telegraf } from "telegraf";
+import { EventBus } from "../services/eventBus";
+import { scheduleDelete } from "../utils/autoDelete";
+
+/**
+ * Registers the auto-delete subscribers on the event bus.
+ *
+ * @param bot - Telegraf bot instance used to delete the messages
+ */
+export function registerAutoDeleteSubscribers(bot: Telegraf<Context>): void {
+	EventBus.subscribe("reply.sent", (event) => {
+		scheduleDelete(
+			bot.telegram,
+			event.chatId,
+			event.messageId,
+			event.deleteAfterMs,
+		);
+		if (event.commandMessageId) {
+			scheduleDelete(
+				bot.telegram,
+				event.chatId,
+				event.commandMessageId,
+				event.deleteAfterMs,
+			);
+		}
+	});
+}
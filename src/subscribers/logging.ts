@@ -0,0 +1,97 @@
+/**
+ * Logging subscribers for the CAC Admin Bot.
+ * Writes the structured log entries for moderation actions, violations,
+ * withdrawals, duels, giveaways and appeal decisions from the events
+ * published for them.
+ *
+ * @module subscribers/logging
+ */
+
+import { EventBus } from "../services/eventBus";
+import { StructuredLogger } from "../utils/logger";
+
+/** Events published by ModerationActionService */
+const MODERATION_EVENTS = [
+	"user.jailed",
+	"user.unjailed",
+	"user.muted",
+	"user.restricted",
+	"user.kicked",
+	"user.banned",
+	"user.unbanned",
+] as const;
+
+/**
+ * Registers the logging subscribers on the event bus.
+ */
+export function registerLoggingSubscribers(): void {
+	for (const name of MODERATION_EVENTS) {
+		EventBus.subscribe(name, (event) => {
+			StructuredLogger.logSecurityEvent("Moderation action", {
+				userId: event.userId,
+				operation: `moderation_${event.action}`,
+				chatId: event.chatId,
+				source: event.source,
+				reason: event.reason,
+				actorId: event.actorId,
+				duration: event.durationMinutes,
+			});
+		});
+	}
+
+	EventBus.subscribe("violation.created", (event) => {
+		StructuredLogger.logSecurityEvent("Violation created", {
+			userId: event.userId,
+			operation: "violation_created",
+			amount: event.fineAmount.toString(),
+			ruleId: event.ruleId,
+		});
+	});
+
+	EventBus.subscribe("appeal.decided", (event) => {
+		StructuredLogger.logSecurityEvent("Appeal decided", {
+			userId: event.userId,
+			adminId: event.actorId,
+			operation: `appeal_${event.decision}`,
+			appealId: event.appealId,
+			caseId: event.caseId,
+			outcome: event.outcome,
+			amount: event.refundAmount.toString(),
+		});
+	});
+
+	EventBus.subscribe("withdrawal.completed", (event) => {
+		StructuredLogger.logTransaction("Withdrawal confirmed", {
+			userId: event.userId,
+			operation: "withdrawal",
+			amount: event.amount.toString(),
+			denom: event.denom,
+			txHash: event.txHash,
+			toAddress: event.toAddress,
+		});
+	});
+
+	EventBus.subscribe("duel.resolved", (event) => {
+		StructuredLogger.logTransaction("Duel completed", {
+			userId: event.winnerId,
+			operation: "duel_complete",
+			duelId: event.duelId.toString(),
+			winnerId: event.winnerId.toString(),
+			loserId: event.loserId.toString(),
+			wagerAmount: event.wagerAmount.toString(),
+			denom: event.denom,
+			consequence: event.consequence,
+		});
+	});
+
+	EventBus.subscribe("giveaway.completed", (event) => {
+		StructuredLogger.logUserAction("Giveaway completed", {
+			userId: event.createdBy,
+			operation: "giveaway_complete",
+			giveawayId: event.giveawayId,
+			amount: event.totalAmount.toString(),
+			denom: event.denom,
+			slots: event.totalSlots,
+		});
+	});
+}
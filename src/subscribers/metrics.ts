@@ -0,0 +1,48 @@
+/**
+ * Metrics subscribers for the CAC Admin Bot.
+ * Counts every event published on the event bus for the Prometheus
+ * cacbot_events_total counter.
+ *
+ * @module subscribers/metrics
+ */
+
+import { type BotEventName, EventBus } from "../services/eventBus";
+import { MetricsService } from "../services/metricsService";
+
+// A record, so adding an event to BotEvents without counting it fails to compile
+const COUNTED_EVENTS: Record<BotEventName, true> = {
+	"user.jailed": true,
+	"user.unjailed": true,
+	"user.muted": true,
+	"user.restricted": true,
+	"user.kicked": true,
+	"user.banned": true,
+	"user.unbanned": true,
+	"user.warned": true,
+	"violation.created": true,
+	"violation.paid": true,
+	"restriction.changed": true,
+	"list.changed": true,
+	"role.changed": true,
+	"appeal.decided": true,
+	"deposit.credited": true,
+	"withdrawal.completed": true,
+	"duel.resolved": true,
+	"giveaway.completed": true,
+	"blacklist.failed": true,
+	"withdrawal.stuck": true,
+	"reconciliation.mismatch": true,
+	"ledger.drift": true,
+	"reply.sent": true,
+};
+
+/**
+ * Registers the metrics subscribers on the event bus.
+ */
+export function registerMetricsSubscribers(): void {
+	for (const name of Object.keys(COUNTED_EVENTS) as BotEventName[]) {
+		EventBus.subscribe(name, () => {
+			MetricsService.countEvent(name);
+		});
+	}
+}
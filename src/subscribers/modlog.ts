@@ -0,0 +1,146 @@
+/**
+ * Modlog subscribers for the CAC Admin Bot.
+ * Opens a moderation case, posted to the modlog channel, for every
+ * moderation action, warning, violation, fine and bail payment, appeal
+ * decision, and restriction, blacklist, whitelist and role change.
+ *
+ * @module subscribers/modlog
+ */
+
+import type { AppealDecision } from "../services/appealService";
+import { EventBus } from "../services/eventBus";
+import type { ModerationActionEvent } from "../services/moderationActionService";
+import { type ModlogAction, ModlogService } from "../services/modlogService";
+
+/** Events published by ModerationActionService */
+const MODERATION_EVENTS = [
+	"user.jailed",
+	"user.unjailed",
+	"user.muted",
+	"user.restricted",
+	"user.kicked",
+	"user.banned",
+	"user.unbanned",
+] as const;
+
+/** Case action of each appeal decision */
+const APPEAL_ACTIONS: Record<AppealDecision, ModlogAction> = {
+	uphold: "appeal_upheld",
+	reduce: "appeal_reduced",
+	overturn: "appeal_overturned",
+};
+
+/**
+ * Registers the modlog subscribers on the event bus.
+ */
+export function registerModlogSubscribers(): void {
+	for (const name of MODERATION_EVENTS) {
+		EventBus.subscribe(name, async (event) => {
+			await ModlogService.open({
+				action:
+					event.action === "unjail" && event.reason === "bail_paid"
+						? "bail_paid"
+						: event.action,
+				userId: event.userId,
+				actorId: event.actorId ?? event.paidByUserId ?? null,
+				chatId: event.chatId,
+				reason: describeReason(event),
+				durationMinutes: event.durationMinutes,
+				amount: event.bailAmount,
+				jailEventId: event.jailEventId,
+				origin: event.origin,
+			});
+		});
+	}
+
+	// Automatic warnings come with a violation, which opens its own case
+	EventBus.subscribe("user.warned", async (event) => {
+		if (event.actorId === null) return;
+		await ModlogService.open({
+			action: "warn",
+			userId: event.userId,
+			actorId: event.actorId,
+			chatId: event.chatId,
+			reason: `${event.reason} (${event.activeWarnings} active)`,
+			violationId: event.violationId,
+			origin: event.origin,
+		});
+	});
+
+	EventBus.subscribe("violation.created", async (event) => {
+		await ModlogService.open({
+			action: "violation",
+			userId: event.userId,
+			chatId: event.chatId ?? null,
+			reason: event.ruleId
+				? `${event.restriction} (rule #${event.ruleId})`
+				: event.restriction,
+			amount: event.fineAmount,
+			violationId: event.violationId,
+		});
+	});
+
+	EventBus.subscribe("violation.paid", async (event) => {
+		await ModlogService.open({
+			action: "fine_paid",
+			userId: event.userId,
+			actorId: event.paidByUserId,
+			reason: `Violation #${event.violationId}, ${event.paymentTx}`,
+			amount: event.amount,
+			violationId: event.violationId,
+		});
+	});
+
+	EventBus.subscribe("restriction.changed", async (event) => {
+		await ModlogService.open({
+			action: event.added ? "restriction_added" : "restriction_removed",
+			userId: event.userId,
+			actorId: event.actorId,
+			reason: event.restrictedAction
+				? `${event.restriction} (${event.restrictedAction})`
+				: event.restriction,
+			durationMinutes:
+				event.until && event.until > event.timestamp
+					? Math.ceil((event.until - event.timestamp) / 60)
+					: undefined,
+			origin: event.origin,
+		});
+	});
+
+	EventBus.subscribe("list.changed", async (event) => {
+		await ModlogService.open({
+			action: `${event.list}_${event.added ? "added" : "removed"}`,
+			userId: event.userId,
+			actorId: event.actorId,
+			origin: event.origin,
+		});
+	});
+
+	EventBus.subscribe("role.changed", async (event) => {
+		await ModlogService.open({
+			action: "role_changed",
+			userId: event.userId,
+			actorId: event.actorId,
+			reason: `${event.previousRole} → ${event.role}`,
+			origin: event.origin,
+		});
+	});
+
+	EventBus.subscribe("appeal.decided", async (event) => {
+		await ModlogService.open({
+			action: APPEAL_ACTIONS[event.decision],
+			userId: event.userId,
+			actorId: event.actorId,
+			chatId: event.chatId,
+			reason: `Appeal #${event.appealId} of case #${event.caseId}: ${event.outcome}`,
+			amount: event.refundAmount || undefined,
+		});
+	});
+}
+
+/**
+ * Reason shown on the card: the actor's note, or the typed reason.
+ */
+function describeReason(event: ModerationActionEvent): string {
+	return event.note ?? event.reason.replace(/_/g, " ");
+}
@@ -0,0 +1,158 @@
+/**
+ * Notification subscribers for the CAC Admin Bot.
+ * Sends the DMs and admin notifications that follow moderation actions,
+ * duels and wallet problems:
+ *
+ * - Jailed users are told when their jail expires
+ * - Users whose bail someone else paid are told they were released
+ * - Warning escalations are sent to the user and the admins
+ * - Blacklist bans, and bans that failed, are reported to the admins
+ * - Duel challengers are told how their duel ended
+ * - Users are told how their appeal was decided
+ * - Stuck withdrawals, reconciliation mismatches and ledger drift are
+ *   reported to the admins
+ *
+ * @module subscribers/notifications
+ */
+
+import type { Context, Telegraf } from "telegraf";
+import type { AppealDecision } from "../services/appealService";
+import { DenomService } from "../services/denomService";
+import { EventBus } from "../services/eventBus";
+import { LedgerAuditService } from "../services/ledgerAudit";
+import type { ModerationActionEvent } from "../services/moderationActionService";
+import { notifyAdmin } from "../utils/adminNotify";
+import { logger } from "../utils/logger";
+import { formatUserIdDisplay } from "../utils/userResolver";
+
+/** How each appeal decision reads to the user */
+const APPEAL_RESULTS: Record<AppealDecision, string> = {
+	uphold: "upheld",
+	reduce: "partly granted",
+	overturn: "granted",
+};
+
+/**
+ * Registers the notification subscribers on the event bus.
+ *
+ * @param bot - Telegraf bot instance used to send DMs
+ */
+export function registerNotificationSubscribers(bot: Telegraf<Context>): void {
+	const dm = async (userId: number, message: string): Promise<void> => {
+		try {
+			await bot.telegram.sendMessage(userId, message);
+		} catch (error) {
+			// User might have blocked the bot, that's okay
+			logger.debug("Could not send notification to user", { userId, error });
+		}
+	};
+
+	EventBus.subscribe("user.unjailed", async (event) => {
+		if (event.reason === "jail_expired") {
+			await dm(
+				event.userId,
+				event.chatId === null
+					? " Your jail time has expired. You can now send messages in all groups again."
+					: " Your jail time has expired. You can now send messages in the group again.",
+			);
+			return;
+		}
+
+		if (
+			event.reason === "bail_paid" &&
+			event.paidByUserId !== undefined &&
+			event.paidByUserId !== event.userId
+		) {
+			await dm(
+				event.userId,
+				`Good news! ${formatUserIdDisplay(event.paidByUserId)} paid your bail of ${(event.bailAmount ?? 0).toFixed(2)} JUNO!\nYou have been released from jail.`,
+			);
+		}
+	});
+
+	EventBus.subscribe("user.jailed", async (event) => {
+		if (event.reason !== "warning_escalation") return;
+
+		const { warnings, scope } = describeEscalation(event);
+		await dm(
+			event.userId,
+			`You reached ${warnings} warnings and have been jailed for ${event.durationMinutes} minutes in ${scope}.\nBail: ${(event.bailAmount ?? 0).toFixed(2)} JUNO - use /paybail to pay it.`,
+		);
+		await notifyAdmin(
+			`User ${event.userId} reached ${warnings} warnings and was jailed for ${event.durationMinutes} minutes in ${scope}.`,
+			event.chatId ?? undefined,
+		);
+	});
+
+	EventBus.subscribe("user.banned", async (event) => {
+		if (event.reason === "blacklist") {
+			await notifyAdmin(
+				`Blacklisted user ${event.userId} was banned from chat ${event.chatId} (${event.metadata?.trigger}).`,
+				event.chatId ?? undefined,
+			);
+			return;
+		}
+		if (event.reason !== "warning_escalation") return;
+
+		const { warnings, scope } = describeEscalation(event);
+		await notifyAdmin(
+			`User ${event.userId} reached ${warnings} warnings and was banned from ${scope}.`,
+			event.chatId ?? undefined,
+		);
+	});
+
+	EventBus.subscribe("blacklist.failed", async (event) => {
+		await notifyAdmin(
+			`Failed to ban blacklisted user ${event.userId} from chat ${event.chatId} (${event.trigger}). The bot may lack ban permissions.`,
+			event.chatId,
+		);
+	});
+
+	EventBus.subscribe("duel.resolved", async (event) => {
+		const challengerWon = event.winnerId === event.challengerId;
+		await dm(
+			event.challengerId,
+			`Your duel against ${formatUserIdDisplay(event.opponentId)} is complete!
+
+You ${challengerWon ? "won" : "lost"} ${DenomService.formatAmount(event.wagerAmount, event.denom)}.`,
+		);
+	});
+
+	EventBus.subscribe("appeal.decided", async (event) => {
+		await dm(
+			event.userId,
+			`Your appeal #${event.appealId} of case #${event.caseId} was ${APPEAL_RESULTS[event.decision]}: ${event.outcome}.`,
+		);
+	});
+
+	EventBus.subscribe("withdrawal.stuck", async (event) => {
+		await notifyAdmin(
+			`Withdrawal transaction ${event.txHash} keeps failing to broadcast (${event.error}). The requests stay queued until it lands or its sequence is used.`,
+		);
+	});
+
+	EventBus.subscribe("reconciliation.mismatch", async (event) => {
+		await notifyAdmin(
+			`Withdrawals paused automatically: the ledger differs from the wallet by ${event.difference.toFixed(6)} JUNO (internal ${event.internalTotal.toFixed(6)}, on-chain ${event.onChainTotal.toFixed(6)}).\n\nCheck with /reconcile and resume with /maintenance off withdrawals.`,
+		);
+	});
+
+	EventBus.subscribe("ledger.drift", async (event) => {
+		await notifyAdmin(
+			`Ledger audit found drift\n\n${LedgerAuditService.formatReport(event.report)}`,
+		);
+	});
+}
+
+/**
+ * Warning count and scope of a warning escalation.
+ */
+function describeEscalation(event: ModerationActionEvent): {
+	warnings: unknown;
+	scope: string;
+} {
+	return {
+		warnings: event.metadata?.warnings,
+		scope: event.chatId === null ? "all groups" : `chat ${event.chatId}`,
+	};
+}
@@ -6,14 +6,15 @@ export interface User {
 	whitelist: boolean; // Exempt from restrictions
 	blacklist: boolean; // Blocked from group
 	role: "owner" | "admin" | "elevated" | "pleb";
-	warning_count: number;
-	muted_until?: number; // Unix timestamp
+	warning_count: number; // Active (unexpired) warnings, see warnings table
+	username_changed_at?: number | null; // Last Telegram username change
 	created_at: number;
 	updated_at: number;
 }
 
 export interface GlobalAction {
 	id: number;
+	chatId?: number; // undefined = applies in every chat
 	restriction: string;
 	restrictedAction?: string;
 	metadata?: string;
@@ -35,10 +36,46 @@ export interface Violation {
 	paidAt?: number;
 }
 
+export interface Rule {
+	id: number;
+	type: string; // Restriction type the rule applies to (e.g. no_urls)
+	description: string | null;
+	specific_action: string | null; // Match value, NULL = any restriction of the type
+	severity: number; // Priority when several rules match (higher wins)
+	escalation: string | null; // JSON array of escalation steps, NULL = default ladder
+	chat_id: number | null; // NULL = applies in every chat
+	created_by: number | null;
+	created_at: number;
+	updated_at: number | null;
+}
+
+export interface Warning {
+	id: number;
+	user_id: number;
+	chat_id: number | null; // NULL = issued outside a group
+	reason: string;
+	issued_by: number | null; // NULL = automatic (violation)
+	violation_id: number | null;
+	created_at: number;
+	expires_at: number | null; // NULL = never expires
+}
+
+export type JailEventType =
+	| "jailed"
+	| "unjailed"
+	| "auto_unjailed"
+	| "bail_paid"
+	| "muted"
+	| "restricted"
+	| "kicked"
+	| "banned"
+	| "unbanned";
+
 export interface JailEvent {
 	id: number;
 	userId: number;
-	eventType: "jailed" | "unjailed" | "auto_unjailed" | "bail_paid";
+	chatId?: number; // undefined = network-wide
+	eventType: JailEventType;
 	adminId?: number;
 	durationMinutes?: number;
 	bailAmount: number; // JUNO tokens
@@ -48,6 +85,118 @@ export interface JailEvent {
 	metadata?: string; // JSON-encoded
 }
 
+export interface Chat {
+	chat_id: number; // Telegram chat ID
+	title: string | null;
+	enabled_features: string | null; // JSON array, NULL = all features enabled
+	fine_overrides: string | null; // JSON object of fine type -> USD amount
+	admin_chat_id: number | null; // NULL = config.adminChatId
+	modlog_chat_id: number | null; // NULL = config.modlogChatId
+	locale: string;
+	captcha_mode: "off" | "button" | "math"; // Newcomer verification challenge
+	captcha_timeout: number; // Seconds a newcomer has to pass verification
+	captcha_vouching: number; // 1 = elevated users may vouch newcomers in
+	active: number; // 0 once the bot has been removed
+	created_at: number;
+	updated_at: number;
+}
+
+export interface CaptchaChallenge {
+	id: number;
+	chat_id: number;
+	user_id: number;
+	username: string | null;
+	challenge_type: "button" | "math";
+	answer: string;
+	message_id: number | null; // Challenge message posted in the chat
+	status: "pending" | "passed" | "failed" | "expired" | "vouched";
+	resolved_by: number | null; // Elevated user who vouched the newcomer in
+	created_at: number;
+	expires_at: number;
+	resolved_at: number | null;
+}
+
+export type WithdrawalStatus =
+	| "requested"
+	| "signed"
+	| "broadcast"
+	| "confirmed"
+	| "failed";
+
+export interface WithdrawalRequest {
+	id: number;
+	user_id: number;
+	to_address: string;
+	amount_ujuno: number; // Base units of denom
+	denom: string;
+	ledger_transaction_id: number | null; // Pending ledger debit; null until linked
+	status: WithdrawalStatus;
+	attempts: number;
+	next_attempt_at: number; // Unix timestamp of the next retry
+	sequence: number | null; // Account sequence the signed transaction uses
+	signed_tx: string | null; // Base64 TxRaw bytes
+	tx_hash: string | null;
+	fee_ujuno: number | null;
+	last_error: string | null;
+	broadcast_at: number | null; // First time the transaction was handed to a node
+	created_at: number;
+	updated_at: number;
+}
+
+export interface WithdrawalAddress {
+	user_id: number;
+	address: string;
+	label: string | null;
+	added_at: number; // Usable once the policy's address delay has passed
+}
+
+export type WithdrawalApprovalStatus =
+	| "pending"
+	| "approved"
+	| "rejected"
+	| "expired";
+
+export interface WithdrawalApproval {
+	id: number;
+	user_id: number;
+	to_address: string;
+	amount_ujuno: number; // Base units of denom
+	denom: string;
+	status: WithdrawalApprovalStatus;
+	decision: string | null; // JSON policy decision that held the withdrawal
+	decided_by: number | null;
+	decided_at: number | null;
+	chat_id: number | null; // Approval request message in the admin chat
+	message_id: number | null;
+	created_at: number;
+}
+
+export type AppealStatus = "pending" | "upheld" | "reduced" | "overturned";
+
+export interface Appeal {
+	id: number;
+	case_id: number; // Moderation case appealed
+	user_id: number;
+	statement: string;
+	status: AppealStatus;
+	outcome: string | null; // What the decision changed
+	refund_ujuno: number; // Base units refunded by the decision
+	refund_user_id: number | null;
+	refund_transaction_id: number | null;
+	decided_by: number | null;
+	decided_at: number | null;
+	chat_id: number | null; // Appeal message in the admin chat
+	message_id: number | null;
+	created_at: number;
+}
+
+export interface UserJail {
+	user_id: number;
+	chat_id: number; // 0 = network-wide
+	muted_until: number; // Unix timestamp
+	created_at: number;
+}
+
 export interface UserRestriction {
 	id: number;
 	userId: number;
@@ -0,0 +1,130 @@
+/**
+ * Bech32 address utilities.
+ * Validates Juno addresses (checksum, prefix and payload length) and
+ * classifies them as accounts or contracts.
+ *
+ * Account addresses hash a public key to 20 bytes (43 characters for juno).
+ * CosmWasm contracts and interchain accounts derive a 32 byte address
+ * (63 characters), so a fixed length check cannot tell them apart from typos.
+ *
+ * @module utils/address
+ */
+
+import { fromBech32 } from "@cosmjs/encoding";
+
+/** Bech32 prefix of Juno addresses */
+export const JUNO_PREFIX = "juno";
+
+/** Payload length of key-derived account addresses */
+const ACCOUNT_ADDRESS_BYTES = 20;
+
+/** Payload length of contract and interchain account addresses */
+const CONTRACT_ADDRESS_BYTES = 32;
+
+/**
+ * Kind of address, derived from the bech32 payload length.
+ * "contract" covers CosmWasm contracts and interchain accounts.
+ */
+export type AddressKind = "account" | "contract";
+
+/**
+ * Result of parsing an address.
+ */
+export type ParsedAddress =
+	| {
+			valid: true;
+			/** Lower case address */
+			address: string;
+			kind: AddressKind;
+	  }
+	| {
+			valid: false;
+			/** Why the address was rejected */
+			error: string;
+	  };
+
+/**
+ * Parses and validates a bech32 address.
+ *
+ * @param address - Address to validate
+ * @param prefix - Expected bech32 prefix (defaults to "juno")
+ * @returns The normalized address and its kind, or why it is invalid
+ *
+ * @example
+ * ```typescript
+ * const parsed = parseAddress("juno1...");
+ * if (parsed.valid && parsed.kind === "contract") {
+ *   // CosmWasm contract or interchain account
+ * }
+ * ```
+ */
+export function parseAddress(
+	address: string,
+	prefix = JUNO_PREFIX,
+): ParsedAddress {
+	const trimmed = address.trim();
+	if (!trimmed) {
+		return { valid: false, error: "Address is empty" };
+	}
+
+	let decoded: { prefix: string; data: Uint8Array };
+	try {
+		decoded = fromBech32(trimmed);
+	} catch {
+		return { valid: false, error: "Invalid address checksum or encoding" };
+	}
+
+	if (decoded.prefix !== prefix) {
+		return {
+			valid: false,
+			error: `Address must start with "${prefix}1"`,
+		};
+	}
+
+	if (decoded.data.length === ACCOUNT_ADDRESS_BYTES) {
+		return { valid: true, address: trimmed.toLowerCase(), kind: "account" };
+	}
+	if (decoded.data.length === CONTRACT_ADDRESS_BYTES) {
+		return { valid: true, address: trimmed.toLowerCase(), kind: "contract" };
+	}
+
+	return {
+		valid: false,
+		error: `Unexpected address length (${decoded.data.length} bytes)`,
+	};
+}
+
+/**
+ * Checks whether a string is a valid bech32 address with the given prefix.
+ *
+ * @param address - Address to check
+ * @param prefix - Expected bech32 prefix (defaults to "juno")
+ * @returns True if the address is valid
+ */
+export function isValidAddress(address: string, prefix = JUNO_PREFIX): boolean {
+	return parseAddress(address, prefix).valid;
+}
+
+/**
+ * Validates a withdrawal destination.
+ * Contract and interchain account destinations are only accepted when
+ * allowContracts is set, since funds sent to a contract that does not
+ * expect them may be unrecoverable.
+ *
+ * @param address - Destination address
+ * @param allowContracts - Whether contract destinations are accepted
+ * @returns The parsed address, or why it cannot be withdrawn to
+ */
+export function parseWithdrawalAddress(
+	address: string,
+	allowContracts: boolean,
+): ParsedAddress {
+	const parsed = parseAddress(address);
+	if (parsed.valid && parsed.kind === "contract" && !allowContracts) {
+		return {
+			valid: false,
+			error: "Withdrawals to contract addresses are not allowed",
+		};
+	}
+	return parsed;
+}
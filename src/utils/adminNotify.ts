@@ -6,7 +6,7 @@
  */
 
 import type { Context, Telegraf } from "telegraf";
-import { config } from "../config";
+import { ChatService } from "../services/chatService";
 import { logger } from "./logger";
 import { escapeMarkdownV2 } from "./markdown";
 
@@ -28,10 +28,13 @@ export function setBotInstance(bot: Telegraf): void {
 
 /**
  * Sends a notification message to the configured admin chat.
+ * When the event happened in a specific group, the notification goes to that
+ * group's admin chat if one is configured.
  * Messages are formatted with a warning emoji and Markdown formatting.
  * Gracefully handles missing bot instance or admin chat ID configuration.
  *
  * @param message - The notification message to send to admins
+ * @param chatId - Group chat the event relates to (omit for bot-wide events)
  * @returns Promise that resolves when notification is sent or fails gracefully
  *
  * @example
@@ -48,20 +51,24 @@ export function setBotInstance(bot: Telegraf): void {
  * //
  * //  Critical: Withdrawal system offline"
  */
-export async function notifyAdmin(message: string): Promise<void> {
+export async function notifyAdmin(
+	message: string,
+	chatId?: number,
+): Promise<void> {
 	if (!botInstance) {
 		logger.warn("Bot instance not set, cannot send admin notification");
 		return;
 	}
 
-	if (!config.adminChatId) {
+	const adminChatId = ChatService.getAdminChatId(chatId);
+	if (!adminChatId) {
 		logger.warn("Admin chat ID not configured, cannot send notification");
 		return;
 	}
 
 	try {
 		await botInstance.telegram.sendMessage(
-			config.adminChatId,
+			adminChatId,
 			`⚠️ *Admin Alert*\n\n${escapeMarkdownV2(message)}`,
 			{ parse_mode: "MarkdownV2" },
 		);
@@ -1,12 +1,15 @@
 /**
  * Auto-delete utility for bot messages.
- * Schedules messages for deletion after a configurable timeout.
+ * Schedules messages for deletion after a configurable timeout. Group
+ * replies are published as reply.sent and deleted by the auto-delete
+ * subscriber.
  *
  * @module utils/autoDelete
  */
 
 import type { Context, Telegram } from "telegraf";
 import type { Message } from "telegraf/types";
+import { EventBus } from "../services/eventBus";
 import { logger } from "./logger";
 
 /**
@@ -113,7 +116,8 @@ export async function replyAndDelete<T extends Message>(
 
 /**
  * Schedule cleanup for group chats only - skips DMs.
- * Deletes both the user's command and the bot's response after timeout.
+ * Publishes reply.sent, so both the user's command and the bot's response
+ * are deleted after timeout.
  * @param ctx - Telegraf context
  * @param botMessageId - Bot response message ID
  * @param timeoutMs - Time until deletion (default 30s)
@@ -125,8 +129,16 @@ export function autoDeleteInGroup(
 	timeoutMs: number = DEFAULT_TIMEOUT_MS,
 	deleteUserMsg: boolean = true,
 ): void {
-	if (!isGroupChat(ctx)) return;
-	scheduleMessageCleanup(ctx, botMessageId, timeoutMs, deleteUserMsg);
+	const chatId = ctx.chat?.id;
+	if (!chatId || !isGroupChat(ctx)) return;
+
+	void EventBus.publish("reply.sent", {
+		chatId,
+		messageId: botMessageId,
+		commandMessageId: deleteUserMsg ? ctx.message?.message_id : undefined,
+		deleteAfterMs: timeoutMs,
+		timestamp: Math.floor(Date.now() / 1000),
+	});
 }
 
 /**
@@ -0,0 +1,147 @@
+/**
+ * Deposit code utilities.
+ * Deposit codes are short memos that route on-chain deposits to a user
+ * without revealing their Telegram ID. A code is seven random Crockford
+ * base32 characters followed by a Luhn mod 32 check character, which
+ * catches every single mistyped character and most swapped neighbours.
+ *
+ * Codes are shown as two groups of four (e.g. "K7QM-2XD9"). Parsing is
+ * case-insensitive, ignores hyphens and spaces, and reads O as 0 and I/L
+ * as 1, as Crockford base32 does.
+ *
+ * @module utils/depositCode
+ */
+
+import { randomInt } from "crypto";
+
+/** Crockford base32 alphabet (no I, L, O or U) */
+const ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+
+/** Random characters before the check character */
+const PAYLOAD_LENGTH = 7;
+
+/** Length of a code without separators */
+export const DEPOSIT_CODE_LENGTH = PAYLOAD_LENGTH + 1;
+
+/**
+ * Luhn mod 32 sum of a string of alphabet indexes.
+ *
+ * @param values - Character values, check character (if any) last
+ * @param doubleFirst - Whether the rightmost value is doubled
+ */
+function luhnSum(values: number[], doubleFirst: boolean): number {
+	let sum = 0;
+	let double = doubleFirst;
+	for (let i = values.length - 1; i >= 0; i--) {
+		const addend = values[i] * (double ? 2 : 1);
+		sum += Math.floor(addend / ALPHABET.length) + (addend % ALPHABET.length);
+		double = !double;
+	}
+	return sum % ALPHABET.length;
+}
+
+/**
+ * Computes the check character for a payload.
+ *
+ * @param payload - Normalized payload characters
+ * @returns The check character
+ */
+function checkCharacter(payload: string): string {
+	const values = [...payload].map((char) => ALPHABET.indexOf(char));
+	const remainder = luhnSum(values, true);
+	return ALPHABET[(ALPHABET.length - remainder) % ALPHABET.length];
+}
+
+/**
+ * Checks the check character of a normalized code.
+ */
+function hasValidChecksum(code: string): boolean {
+	const values = [...code].map((char) => ALPHABET.indexOf(char));
+	return luhnSum(values, false) === 0;
+}
+
+/**
+ * Normalizes a memo that may be a deposit code.
+ *
+ * @param memo - Memo as typed by the user
+ * @returns The code in canonical form without separators, or null if the
+ *   memo does not have the shape of a code (the checksum is not checked)
+ */
+export function normalizeDepositCode(memo: string): string | null {
+	const code = memo
+		.trim()
+		.toUpperCase()
+		.replace(/[\s-]/g, "")
+		.replace(/O/g, "0")
+		.replace(/[IL]/g, "1");
+
+	if (code.length !== DEPOSIT_CODE_LENGTH) return null;
+	if (![...code].every((char) => ALPHABET.includes(char))) return null;
+	// All-digit memos are legacy user IDs; generated codes always contain a letter
+	if (/^\d+$/.test(code)) return null;
+	return code;
+}
+
+/**
+ * Checks whether a memo is a deposit code with a valid check character.
+ *
+ * @param memo - Memo as typed by the user
+ */
+export function isValidDepositCode(memo: string): boolean {
+	const code = normalizeDepositCode(memo);
+	return code !== null && hasValidChecksum(code);
+}
+
+/**
+ * Generates a random deposit code.
+ *
+ * @returns Normalized code without separators
+ */
+export function generateDepositCode(): string {
+	for (;;) {
+		let payload = "";
+		for (let i = 0; i < PAYLOAD_LENGTH; i++) {
+			payload += ALPHABET[randomInt(ALPHABET.length)];
+		}
+		const code = payload + checkCharacter(payload);
+		if (normalizeDepositCode(code)) return code;
+	}
+}
+
+/**
+ * Formats a normalized code for display.
+ *
+ * @param code - Normalized code
+ * @returns The code as two hyphenated groups of four
+ */
+export function formatDepositCode(code: string): string {
+	return `${code.slice(0, 4)}-${code.slice(4)}`;
+}
+
+/**
+ * Lists the valid codes a mistyped code could have been meant as: every
+ * code one substituted character or one swap of neighbours away.
+ *
+ * @param memo - A memo shaped like a code whose checksum fails
+ * @returns Normalized candidate codes
+ */
+export function depositCodeCorrections(memo: string): string[] {
+	const code = normalizeDepositCode(memo);
+	if (!code) return [];
+
+	const candidates = new Set<string>();
+	for (let i = 0; i < code.length; i++) {
+		for (const char of ALPHABET) {
+			if (char === code[i]) continue;
+			candidates.add(code.slice(0, i) + char + code.slice(i + 1));
+		}
+		if (i < code.length - 1 && code[i] !== code[i + 1]) {
+			candidates.add(
+				code.slice(0, i) + code[i + 1] + code[i] + code.slice(i + 2),
+			);
+		}
+	}
+	return [...candidates].filter(
+		(candidate) => candidate !== code && hasValidChecksum(candidate),
+	);
+}
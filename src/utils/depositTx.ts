@@ -0,0 +1,395 @@
+/**
+ * Deposit transaction decoding utilities.
+ * Decodes raw Cosmos SDK transactions (TxRaw/TxBody/AuthInfo) to find the
+ * memo, every bank transfer to a given address and the fee payer.
+ * CW20 token transfers are read from the contract's wasm events and
+ * reported under the denom "cw20:<contract address>".
+ *
+ * Falls back to scanning the raw bytes for printable strings only when the
+ * transaction cannot be decoded as protobuf.
+ *
+ * @module utils/depositTx
+ */
+
+import { decodeTxRaw, Registry } from "@cosmjs/proto-signing";
+import { defaultRegistryTypes } from "@cosmjs/stargate";
+import { parseAddress } from "./address";
+import { logger } from "./logger";
+
+const MSG_SEND_TYPE_URL = "/cosmos.bank.v1beta1.MsgSend";
+const MSG_MULTI_SEND_TYPE_URL = "/cosmos.bank.v1beta1.MsgMultiSend";
+
+const registry = new Registry(defaultRegistryTypes);
+
+interface Coin {
+	denom: string;
+	amount: string;
+}
+
+/**
+ * A single bank transfer output addressed to the deposit address.
+ */
+export interface DepositTransfer {
+	/** Index of the message inside the transaction body */
+	msgIndex: number;
+	/** Message type that carried the transfer */
+	type: "MsgSend" | "MsgMultiSend";
+	/** Sender address (first input for MsgMultiSend) */
+	from: string;
+	/** Recipient address */
+	to: string;
+	/** Amount in the smallest unit of the denom */
+	amount: string;
+	denom: string;
+}
+
+/**
+ * Deposit information extracted from a raw transaction.
+ */
+export interface DecodedDepositTx {
+	/** True if the transaction was decoded as protobuf, false if the heuristic was used */
+	decoded: boolean;
+	/** Transaction memo exactly as signed */
+	memo: string;
+	/** Every transfer output to the deposit address */
+	transfers: DepositTransfer[];
+	/** Address that paid the fee (explicit fee payer or first signer) */
+	feePayer: string;
+}
+
+/**
+ * Decodes a base64 TxRaw and extracts deposit information for a recipient.
+ *
+ * @param base64Tx - Base64 encoded TxRaw bytes, as returned by the RPC tx_search endpoint
+ * @param recipient - Deposit address to collect transfers for
+ * @returns Decoded deposit information
+ * @throws {Error} If the bytes are not a valid TxRaw or a bank message cannot be decoded
+ *
+ * @example
+ * ```typescript
+ * const deposit = decodeDepositTx(tx.tx, walletAddress);
+ * const total = sumTransfers(deposit.transfers, "ujuno");
+ * ```
+ */
+export function decodeDepositTx(
+	base64Tx: string,
+	recipient: string,
+): DecodedDepositTx {
+	const decodedTx = decodeTxRaw(Buffer.from(base64Tx, "base64"));
+	const transfers: DepositTransfer[] = [];
+	let firstSigner = "";
+
+	decodedTx.body.messages.forEach((message, msgIndex) => {
+		if (message.typeUrl === MSG_SEND_TYPE_URL) {
+			const msg = registry.decode(message) as {
+				fromAddress: string;
+				toAddress: string;
+				amount: Coin[];
+			};
+			if (!firstSigner) firstSigner = msg.fromAddress;
+			if (msg.toAddress !== recipient) return;
+
+			for (const coin of msg.amount) {
+				transfers.push({
+					msgIndex,
+					type: "MsgSend",
+					from: msg.fromAddress,
+					to: msg.toAddress,
+					amount: coin.amount,
+					denom: coin.denom,
+				});
+			}
+		} else if (message.typeUrl === MSG_MULTI_SEND_TYPE_URL) {
+			const msg = registry.decode(message) as {
+				inputs: { address: string; coins: Coin[] }[];
+				outputs: { address: string; coins: Coin[] }[];
+			};
+			const sender = msg.inputs[0]?.address || "";
+			if (!firstSigner) firstSigner = sender;
+
+			for (const output of msg.outputs) {
+				if (output.address !== recipient) continue;
+				for (const coin of output.coins) {
+					transfers.push({
+						msgIndex,
+						type: "MsgMultiSend",
+						from: sender,
+						to: output.address,
+						amount: coin.amount,
+						denom: coin.denom,
+					});
+				}
+			}
+		}
+	});
+
+	return {
+		decoded: true,
+		memo: decodedTx.body.memo,
+		transfers,
+		feePayer: decodedTx.authInfo.fee?.payer || firstSigner,
+	};
+}
+
+/**
+ * Sums the transfers of one denom as an integer amount.
+ *
+ * @param transfers - Transfers returned by decodeDepositTx
+ * @param denom - Denom to sum (e.g. "ujuno")
+ * @returns Total in the smallest unit
+ */
+export function sumTransfers(
+	transfers: DepositTransfer[],
+	denom: string,
+): number {
+	return transfers
+		.filter((t) => t.denom === denom)
+		.reduce((total, t) => total + Number.parseInt(t.amount, 10), 0);
+}
+
+/**
+ * Decodes a deposit transaction, falling back to the byte-scanning memo
+ * heuristic if protobuf decoding fails.
+ * In fallback mode no transfers or fee payer are returned; callers keep
+ * relying on the transfer events for amount and sender.
+ *
+ * @param base64Tx - Base64 encoded TxRaw bytes
+ * @param recipient - Deposit address to collect transfers for
+ * @param amountUjuno - Amount seen in the transfer events, used by the heuristic
+ * @returns Decoded deposit information
+ */
+export function parseDepositTx(
+	base64Tx: string,
+	recipient: string,
+	amountUjuno: number,
+): DecodedDepositTx {
+	try {
+		return decodeDepositTx(base64Tx, recipient);
+	} catch (error) {
+		logger.warn("Failed to decode deposit tx, using memo heuristic", {
+			error: error instanceof Error ? error.message : String(error),
+		});
+		return {
+			decoded: false,
+			memo: extractMemoHeuristic(base64Tx, amountUjuno),
+			transfers: [],
+			feePayer: "",
+		};
+	}
+}
+
+/**
+ * Normalizes a sender address parsed from a transaction.
+ * Event attributes are plain strings, so anything that is not a valid
+ * Juno address is dropped rather than recorded against the deposit.
+ *
+ * @param address - Sender address as found in the transaction
+ * @returns Lower case address, or an empty string if it is invalid
+ */
+function normalizeSender(address: string): string {
+	const parsed = parseAddress(address);
+	return parsed.valid ? parsed.address : "";
+}
+
+/**
+ * Deposit details extracted from an RPC tx_search result.
+ */
+export interface RpcDeposit {
+	/** Total received, in display units of the denom (e.g. JUNO) */
+	amount: number;
+	/** Denom received (e.g. "ujuno", "ibc/...", "cw20:juno1...") */
+	denom: string;
+	fromAddress: string;
+	memo: string;
+	feePayer: string;
+	/** True if the memo and fee payer came from the decoded transaction */
+	decoded: boolean;
+}
+
+/**
+ * Extracts deposit details from an RPC tx_search result.
+ * Amount, sender and memo come from the decoded TxRaw; the transfer events
+ * are only used when the transaction cannot be decoded, and for CW20
+ * transfers, which only show up in events.
+ *
+ * A transaction sending several registered denoms yields one deposit per
+ * denom, in the order of `decimals`.
+ *
+ * @param tx - Transaction entry from the RPC tx_search response
+ * @param recipient - Deposit address
+ * @param decimals - Denoms to look for, with their decimals
+ * @returns One deposit per denom sent to the recipient (empty if none was)
+ */
+export function extractRpcDeposits(
+	tx: any,
+	recipient: string,
+	decimals: Record<string, number> = { ujuno: 6 },
+): RpcDeposit[] {
+	const eventAmounts = new Map<string, number>();
+	const eventSenders = new Map<string, string>();
+	const addEvent = (denom: string, amount: number, sender?: string) => {
+		eventAmounts.set(denom, (eventAmounts.get(denom) ?? 0) + amount);
+		if (!eventSenders.get(denom) && sender) eventSenders.set(denom, sender);
+	};
+
+	for (const event of tx.tx_result?.events || []) {
+		const attr = (key: string): string | undefined =>
+			event.attributes.find((a: any) => a.key === key)?.value;
+
+		if (event.type === "transfer") {
+			const amountStr = attr("amount");
+			if (attr("recipient") !== recipient || !amountStr) continue;
+
+			// Parse amount (format: "1000000ujuno,5ibc/27394F...")
+			for (const coin of amountStr.split(",")) {
+				const match = coin.trim().match(/^(\d+)([a-zA-Z][a-zA-Z0-9/:._-]*)$/);
+				if (match) {
+					addEvent(match[2], Number.parseInt(match[1], 10), attr("sender"));
+				}
+			}
+		} else if (event.type === "wasm" && attr("action") === "transfer") {
+			// CW20 transfer: the token contract emits from, to and a bare amount
+			const contract = attr("_contract_address");
+			const amountStr = attr("amount");
+			if (!contract || attr("to") !== recipient || !amountStr) continue;
+			if (/^\d+$/.test(amountStr)) {
+				addEvent(
+					`cw20:${contract}`,
+					Number.parseInt(amountStr, 10),
+					attr("from"),
+				);
+			}
+		}
+	}
+
+	const parsed = parseDepositTx(
+		tx.tx,
+		recipient,
+		eventAmounts.get("ujuno") ?? 0,
+	);
+
+	const deposits: RpcDeposit[] = [];
+	for (const [denom, denomDecimals] of Object.entries(decimals)) {
+		// Transfers made by other message types (e.g. contract payouts) only show up in events
+		const decodedBase = sumTransfers(parsed.transfers, denom);
+		const amountBase =
+			decodedBase > 0 ? decodedBase : (eventAmounts.get(denom) ?? 0);
+		if (amountBase === 0) continue;
+
+		const fromAddress = normalizeSender(
+			parsed.transfers.find((t) => t.denom === denom)?.from ||
+				eventSenders.get(denom) ||
+				"",
+		);
+
+		deposits.push({
+			amount: Number((amountBase / 10 ** denomDecimals).toFixed(denomDecimals)),
+			denom,
+			fromAddress,
+			memo: parsed.memo,
+			feePayer: normalizeSender(parsed.feePayer) || fromAddress,
+			decoded: parsed.decoded,
+		});
+	}
+
+	return deposits;
+}
+
+/**
+ * Legacy memo extraction by structural position (after amount).
+ * Scans the raw bytes for printable ASCII runs and guesses which one is the memo.
+ * Only used when a transaction cannot be decoded.
+ *
+ * @param base64Tx - Base64 encoded transaction bytes
+ * @param amountUjuno - Transfer amount in ujuno
+ * @returns Best guess at the memo, or an empty string
+ */
+export function extractMemoHeuristic(
+	base64Tx: string,
+	amountUjuno: number,
+): string {
+	try {
+		const buffer = Buffer.from(base64Tx, "base64");
+		const amountStr = amountUjuno.toString();
+
+		const strings: { str: string; position: number }[] = [];
+
+		// Scan buffer for printable ASCII strings with their positions
+		for (let i = 0; i < buffer.length; i++) {
+			const strStart = i;
+			let strLength = 0;
+
+			// Find sequences of printable ASCII (0x20-0x7E)
+			while (i < buffer.length && buffer[i] >= 0x20 && buffer[i] <= 0x7e) {
+				strLength++;
+				i++;
+			}
+
+			if (strLength >= 1) {
+				const str = buffer
+					.slice(strStart, strStart + strLength)
+					.toString("utf8");
+				strings.push({ str, position: strStart });
+			}
+		}
+
+		// Find position of the amount in the buffer
+		const amountPos = strings.find((s) => s.str === amountStr)?.position || -1;
+
+		// Memo is the first numeric string (1-12 digits) that appears AFTER the amount
+		// User IDs can be short (1-12 digits), but we filter out microJUNO amounts
+		const numericMemo = strings.find((s) => {
+			if (!/^\d{1,12}$/.test(s.str)) return false;
+			if (s.str === amountStr) return false; // Skip the amount itself
+			if (amountPos !== -1 && s.position < amountPos) return false; // Must come after amount
+			// Filter out likely microJUNO amounts (digits ending in many zeros)
+			if (/^[1-9]\d*0{5,}$/.test(s.str)) return false; // e.g., 1000000, 35050000
+			return true;
+		});
+
+		if (numericMemo) {
+			return numericMemo.str;
+		}
+
+		// Alphanumeric memo after amount position (for non-numeric memos)
+		const alphanumericMemo = strings.find((s) => {
+			// Must be at least 2 characters
+			if (s.str.length < 2) return false;
+
+			// Must come after amount if we found it
+			if (amountPos !== -1 && s.position < amountPos) return false;
+
+			// Exclude message types
+			if (s.str.startsWith("/cosmos.") || s.str.startsWith("/cosmwasm."))
+				return false;
+
+			// Exclude addresses (bech32 format)
+			if (s.str.match(/^(juno|cosmos|osmo|neutron|sei|terra)[a-z0-9]{38,}/))
+				return false;
+
+			// Exclude addresses with length prefix
+			if (s.str.startsWith("+")) return false;
+
+			// Exclude denominations
+			if (s.str.match(/^u(atom|juno|osmo|sei|axl|cre|akt)/)) return false;
+
+			// Exclude crypto key types
+			if (s.str.includes("PubKey") || s.str.includes("crypto")) return false;
+
+			// Exclude pure numeric strings (handled by numericMemo check above)
+			if (/^\d+$/.test(s.str)) return false;
+
+			// Exclude binary garbage
+			const alphanumericRatio =
+				(s.str.match(/[a-zA-Z0-9]/g) || []).length / s.str.length;
+			if (alphanumericRatio < 0.5) return false;
+
+			return true;
+		});
+
+		return alphanumericMemo?.str || "";
+	} catch (error) {
+		logger.error("Failed to extract memo from protobuf", error);
+		return "";
+	}
+}
@@ -101,6 +101,63 @@ export function giveawayClaimKeyboard(
 	};
 }
 
+/**
+ * Newcomer verification challenge: one button per answer, plus a vouch
+ * button for elevated users when the chat allows vouching
+ */
+export function captchaKeyboard(
+	challengeId: number,
+	answers: { text: string; value: string }[],
+	allowVouching: boolean,
+): InlineKeyboardMarkup {
+	const rows = [
+		answers.map((answer) => ({
+			text: answer.text,
+			callback_data: `captcha_${challengeId}_${answer.value}`,
+		})),
+	];
+	if (allowVouching) {
+		rows.push([
+			{
+				text: "Vouch (admins)",
+				callback_data: `captcha_vouch_${challengeId}`,
+			},
+		]);
+	}
+	return { inline_keyboard: rows };
+}
+
+/**
+ * Owner decision on a withdrawal held for approval
+ */
+export function withdrawalApprovalKeyboard(
+	approvalId: number,
+): InlineKeyboardMarkup {
+	return {
+		inline_keyboard: [
+			[
+				{ text: "Approve", callback_data: `wdapproval_approve_${approvalId}` },
+				{ text: "Reject", callback_data: `wdapproval_reject_${approvalId}` },
+			],
+		],
+	};
+}
+
+/**
+ * Admin decision on a user's appeal
+ */
+export function appealDecisionKeyboard(appealId: number): InlineKeyboardMarkup {
+	return {
+		inline_keyboard: [
+			[
+				{ text: "Uphold", callback_data: `appeal_uphold_${appealId}` },
+				{ text: "Reduce", callback_data: `appeal_reduce_${appealId}` },
+				{ text: "Overturn", callback_data: `appeal_overturn_${appealId}` },
+			],
+		],
+	};
+}
+
 /**
  * Giveaway completed (no more slots)
  */
@@ -0,0 +1,58 @@
+/**
+ * Message reference utilities.
+ * Identifies the message a moderation action was about, so modlog entries
+ * can link back to it.
+ *
+ * @module utils/messageLink
+ */
+
+import type { Context } from "telegraf";
+
+/**
+ * A message in a chat.
+ */
+export interface MessageRef {
+	chatId: number;
+	messageId: number;
+}
+
+/**
+ * Gets the message a command acted on: the message it replied to, or the
+ * command itself. Only group messages can be linked to, so DMs give
+ * undefined.
+ *
+ * @param ctx - Telegraf context of the command
+ * @returns Reference to the message, or undefined outside groups
+ */
+export function messageRef(ctx: Context): MessageRef | undefined {
+	if (ctx.chat?.type !== "group" && ctx.chat?.type !== "supergroup") {
+		return undefined;
+	}
+
+	const message = ctx.message;
+	if (!message) return undefined;
+
+	const replied =
+		"reply_to_message" in message ? message.reply_to_message : undefined;
+	return {
+		chatId: ctx.chat.id,
+		messageId: replied?.message_id ?? message.message_id,
+	};
+}
+
+/**
+ * Builds the t.me link of a message in a supergroup. Basic groups have no
+ * message links.
+ *
+ * @param ref - Message to link to
+ * @returns Link, or undefined for chats without message links
+ *
+ * @example
+ * messageLink({ chatId: -1001234567890, messageId: 42 });
+ * // "https://t.me/c/1234567890/42"
+ */
+export function messageLink(ref: MessageRef): string | undefined {
+	const id = String(ref.chatId);
+	if (!id.startsWith("-100")) return undefined;
+	return `https://t.me/c/${id.slice(4)}/${ref.messageId}`;
+}
@@ -0,0 +1,79 @@
+/**
+ * RPC transaction search for the deposit monitors.
+ * Pages through the transactions sending funds to an address above a
+ * height cursor, oldest first, so a poll never skips deposits that did not
+ * fit in a single page.
+ *
+ * @module utils/txSearch
+ */
+
+/** Transactions requested per tx_search page */
+const PER_PAGE = 50;
+
+/** Pages fetched per call; the rest is picked up from the returned cursor */
+const MAX_PAGES = 20;
+
+/**
+ * Result of a search from a height cursor.
+ */
+export interface IncomingTxPage {
+	/** tx_search entries, oldest first */
+	txs: any[];
+	/**
+	 * Height up to which every transaction was returned. Equal to the cursor
+	 * when nothing new was found; lower than the last height returned when
+	 * the search stopped in the middle of a block.
+	 */
+	scannedHeight: number;
+}
+
+/**
+ * Fetches the transactions sending funds to an address after a height.
+ *
+ * @param rpcEndpoint - Tendermint RPC endpoint
+ * @param recipient - Address receiving the funds
+ * @param afterHeight - Height cursor; only later transactions are returned
+ * @returns Transactions found, and the height the next search can start from
+ * @throws {Error} If the RPC request fails
+ */
+export async function searchIncomingTxs(
+	rpcEndpoint: string,
+	recipient: string,
+	afterHeight: number,
+): Promise<IncomingTxPage> {
+	const query = `transfer.recipient='${recipient}' AND tx.height > ${afterHeight}`;
+	const txs: any[] = [];
+	let complete = false;
+
+	for (let page = 1; page <= MAX_PAGES; page++) {
+		const url = `${rpcEndpoint}/tx_search?query="${encodeURIComponent(query)}"&prove=false&page=${page}&per_page=${PER_PAGE}&order_by="asc"`;
+		const response = await fetch(url);
+
+		if (!response.ok) {
+			throw new Error(`RPC request failed: ${response.status}`);
+		}
+
+		const data = (await response.json()) as any;
+		const pageTxs: any[] = data.result?.txs || [];
+		const total = Number.parseInt(data.result?.total_count, 10);
+		txs.push(...pageTxs);
+
+		complete = pageTxs.length < PER_PAGE || txs.length >= total;
+		if (complete) {
+			break;
+		}
+	}
+
+	if (txs.length === 0) {
+		return { txs, scannedHeight: afterHeight };
+	}
+
+	const lastHeight = Number.parseInt(txs[txs.length - 1].height, 10);
+	// Stopped at the page limit: the last block may continue on the next page
+	return {
+		txs,
+		scannedHeight: complete
+			? lastHeight
+			: Math.max(afterHeight, lastHeight - 1),
+	};
+}
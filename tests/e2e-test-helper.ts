@@ -55,6 +55,11 @@ interface TransactionLock {
   locked_at: number;
 }
 
+// Ledger amounts are stored in ujuno; expose them in JUNO for display
+const BALANCE_COLUMNS = 'user_id, balance_ujuno / 1000000.0 AS balance, last_updated';
+const TRANSACTION_COLUMNS =
+  '*, amount_ujuno / 1000000.0 AS amount, balance_after_ujuno / 1000000.0 AS balance_after';
+
 class TestHelper {
   private db: Database.Database;
 
@@ -73,7 +78,7 @@ class TestHelper {
    * Get user balance
    */
   getUserBalance(userId: number): UserBalance | undefined {
-    return this.db.prepare('SELECT * FROM user_balances WHERE user_id = ?').get(userId) as UserBalance | undefined;
+    return this.db.prepare(`SELECT ${BALANCE_COLUMNS} FROM user_balances WHERE user_id = ?`).get(userId) as UserBalance | undefined;
   }
 
   /**
@@ -81,7 +86,7 @@ class TestHelper {
    */
   getUserTransactions(userId: number, limit: number = 10): Transaction[] {
     return this.db.prepare(`
-      SELECT * FROM transactions
+      SELECT ${TRANSACTION_COLUMNS} FROM transactions
       WHERE from_user_id = ? OR to_user_id = ?
       ORDER BY created_at DESC
       LIMIT ?
@@ -92,7 +97,7 @@ class TestHelper {
    * Get total internal ledger balance
    */
   getTotalInternalBalance(): number {
-    const result = this.db.prepare('SELECT SUM(balance) as total FROM user_balances').get() as { total: number };
+    const result = this.db.prepare('SELECT SUM(balance_ujuno) / 1000000.0 as total FROM user_balances').get() as { total: number };
     return result.total || 0;
   }
 
@@ -100,7 +105,7 @@ class TestHelper {
    * Get total user balances (excluding system accounts)
    */
   getTotalUserBalance(): number {
-    const result = this.db.prepare('SELECT SUM(balance) as total FROM user_balances WHERE user_id > 0').get() as { total: number };
+    const result = this.db.prepare('SELECT SUM(balance_ujuno) / 1000000.0 as total FROM user_balances WHERE user_id > 0').get() as { total: number };
     return result.total || 0;
   }
 
@@ -108,7 +113,7 @@ class TestHelper {
    * Get system account balances
    */
   getSystemBalances(): UserBalance[] {
-    return this.db.prepare('SELECT * FROM user_balances WHERE user_id < 0').all() as UserBalance[];
+    return this.db.prepare(`SELECT ${BALANCE_COLUMNS} FROM user_balances WHERE user_id < 0`).all() as UserBalance[];
   }
 
   /**
@@ -134,7 +139,7 @@ class TestHelper {
    * Check for negative balances
    */
   checkNegativeBalances(): UserBalance[] {
-    return this.db.prepare('SELECT * FROM user_balances WHERE balance < 0').all() as UserBalance[];
+    return this.db.prepare(`SELECT ${BALANCE_COLUMNS} FROM user_balances WHERE balance_ujuno < 0`).all() as UserBalance[];
   }
 
   /**
@@ -178,7 +183,7 @@ class TestHelper {
       SELECT
         transaction_type,
         COUNT(*) as count,
-        SUM(amount) as total_amount
+        SUM(amount_ujuno) / 1000000.0 as total_amount
       FROM transactions
       GROUP BY transaction_type
     `).all() as Array<{ transaction_type: string; count: number; total_amount: number }>;
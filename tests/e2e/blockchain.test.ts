@@ -67,6 +67,7 @@ vi.mock('../../src/database', () => {
         return { changes: 0, lastInsertRowid: 0 };
       }
     }),
+    withTransaction: vi.fn((fn: () => unknown) => fn()),
     initDb: vi.fn(),
   };
 });
@@ -83,6 +84,7 @@ vi.mock('../../src/config', () => ({
     userFundsAddress: 'juno1userfunds456test',
     userFundsMnemonic: 'test mnemonic phrase for testing wallet operations only',
     adminChatId: '123456789',
+    acceptLegacyDepositMemos: true,
   },
 }));
 
@@ -103,7 +105,8 @@ vi.mock('../../src/utils/logger', () => ({
 }));
 
 // Mock CosmJS wallet creation for withdrawal tests
-vi.mock('@cosmjs/proto-signing', () => ({
+vi.mock('@cosmjs/proto-signing', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@cosmjs/proto-signing')>()),
   DirectSecp256k1HdWallet: {
     fromMnemonic: vi.fn().mockResolvedValue({
       getAccounts: vi.fn().mockResolvedValue([
@@ -118,7 +121,8 @@ vi.mock('@cosmjs/proto-signing', () => ({
 }));
 
 // Mock SigningStargateClient for withdrawal tests
-vi.mock('@cosmjs/stargate', () => ({
+vi.mock('@cosmjs/stargate', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@cosmjs/stargate')>()),
   SigningStargateClient: {
     connectWithSigner: vi.fn().mockResolvedValue({
       sendTokens: vi.fn().mockResolvedValue({
@@ -1027,7 +1031,7 @@ describe('E2E: Blockchain Wallet Operations', () => {
       result = await DepositMonitor.checkSpecificTransaction(txHash);
       expect(result.found).toBe(true);
       expect(result.processed).toBe(true);
-      expect(result.amount).toBe(100.0);
+      expect(result.amounts).toEqual([{ amount: 100, denom: 'ujuno' }]);
     });
 
     // TODO: Test needs SigningStargateClient mock setup
@@ -109,7 +109,6 @@ function initTestDatabase(): void {
       whitelist INTEGER DEFAULT 0,
       blacklist INTEGER DEFAULT 0,
       warning_count INTEGER DEFAULT 0,
-      muted_until INTEGER,
       created_at INTEGER DEFAULT (strftime('%s', 'now')),
       updated_at INTEGER DEFAULT (strftime('%s', 'now'))
     );
@@ -141,11 +140,21 @@ function initTestDatabase(): void {
       payment_tx TEXT,
       timestamp INTEGER DEFAULT (strftime('%s', 'now')),
       metadata TEXT,
+      chat_id INTEGER,
       FOREIGN KEY (user_id) REFERENCES users(id),
       FOREIGN KEY (admin_id) REFERENCES users(id),
       FOREIGN KEY (paid_by_user_id) REFERENCES users(id)
     );
 
+    CREATE TABLE IF NOT EXISTS user_jails (
+      user_id INTEGER NOT NULL,
+      chat_id INTEGER NOT NULL DEFAULT 0,
+      muted_until INTEGER NOT NULL,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      PRIMARY KEY (user_id, chat_id),
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+
     CREATE TABLE IF NOT EXISTS price_history (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       price_usd REAL NOT NULL,
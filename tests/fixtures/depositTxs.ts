@@ -0,0 +1,58 @@
+/**
+ * Real signed Juno transactions (base64 TxRaw) used as deposit fixtures.
+ * Signed with the throwaway mnemonic
+ * "test test test test test test test test test test test junk" on chain-id juno-1.
+ */
+
+export const SENDER_ADDRESS = 'juno15yk64u7zc9g9k2yr2wmzeva5qgwxps6ysqv57z';
+export const DEPOSIT_ADDRESS = 'juno19rl4cm2hmr8afy4kldpxz3fka4jguq0a2jwxcf';
+
+/** MsgSend of 1 JUNO to the deposit address, memo "123456789" */
+export const MSG_SEND_TX =
+  'CpoBCowBChwvY29zbW9zLmJhbmsudjFiZXRhMS5Nc2dTZW5kEmwKK2p1bm8xNXlrNjR1N3pjOWc5' +
+  'azJ5cjJ3bXpldmE1cWd3eHBzNnlzcXY1N3oSK2p1bm8xOXJsNGNtMmhtcjhhZnk0a2xkcHh6M2Zr' +
+  'YTRqZ3VxMGEyand4Y2YaEAoFdWp1bm8SBzEwMDAwMDASCTEyMzQ1Njc4ORJnClAKRgofL2Nvc21v' +
+  'cy5jcnlwdG8uc2VjcDI1NmsxLlB1YktleRIjCiECI6pnnW1TROIB4N+fAqsVqEcm7uDftOlTxGqe' +
+  'LLUjSdwSBAoCCAEYBxITCg0KBXVqdW5vEgQ1MDAwEMCaDBpANqMufK4Fa+02+zvPHlli+hZrBAwT' +
+  'W/Rayn5YK5SVXyZqLwkIkT1textjUerccqERAaTmEXFlOrN0fZuevpGQbw==';
+
+/** MsgMultiSend with outputs of 2 JUNO and 0.5 JUNO to the deposit address and 1 JUNO elsewhere, memo "42" */
+export const MULTI_SEND_TX =
+  'CrACCqkCCiEvY29zbW9zLmJhbmsudjFiZXRhMS5Nc2dNdWx0aVNlbmQSgwIKPworanVubzE1eWs2' +
+  'NHU3emM5ZzlrMnlyMndtemV2YTVxZ3d4cHM2eXNxdjU3ehIQCgV1anVubxIHMzUwMDAwMBI/Citq' +
+  'dW5vMTlybDRjbTJobXI4YWZ5NGtsZHB4ejNma2E0amd1cTBhMmp3eGNmEhAKBXVqdW5vEgcyMDAw' +
+  'MDAwEj8KK2p1bm8xNXlrNjR1N3pjOWc5azJ5cjJ3bXpldmE1cWd3eHBzNnlzcXY1N3oSEAoFdWp1' +
+  'bm8SBzEwMDAwMDASPgoranVubzE5cmw0Y20yaG1yOGFmeTRrbGRweHozZmthNGpndXEwYTJqd3hj' +
+  'ZhIPCgV1anVubxIGNTAwMDAwEgI0MhJnClAKRgofL2Nvc21vcy5jcnlwdG8uc2VjcDI1NmsxLlB1' +
+  'YktleRIjCiECI6pnnW1TROIB4N+fAqsVqEcm7uDftOlTxGqeLLUjSdwSBAoCCAEYBxITCg0KBXVq' +
+  'dW5vEgQ1MDAwEMCaDBpA12Dsw2hWaa6FhQ+9pgQHybskqL2bhdMKtPRzJmfCHfERPL6zJiU+fzlw' +
+  's/hL9ms9RMsIT/KQ2r7QAfxGL8Yv4Q==';
+
+/** MsgSend of 0.25 JUNO, memo "987654", fee paid by the deposit address via AuthInfo.fee.payer */
+export const FEE_PAYER_TX =
+  'CpYBCosBChwvY29zbW9zLmJhbmsudjFiZXRhMS5Nc2dTZW5kEmsKK2p1bm8xNXlrNjR1N3pjOWc5' +
+  'azJ5cjJ3bXpldmE1cWd3eHBzNnlzcXY1N3oSK2p1bm8xOXJsNGNtMmhtcjhhZnk0a2xkcHh6M2Zr' +
+  'YTRqZ3VxMGEyand4Y2YaDwoFdWp1bm8SBjI1MDAwMBIGOTg3NjU0EpQBClAKRgofL2Nvc21vcy5j' +
+  'cnlwdG8uc2VjcDI1NmsxLlB1YktleRIjCiECI6pnnW1TROIB4N+fAqsVqEcm7uDftOlTxGqeLLUj' +
+  'SdwSBAoCCAEYBxJACg0KBXVqdW5vEgQ1MDAwEMCaDBoranVubzE5cmw0Y20yaG1yOGFmeTRrbGRw' +
+  'eHozZmthNGpndXEwYTJqd3hjZhpAF4naSvQpUo49emf1LswpZy+SANGZSJpuNrbh/1wFeF118e9N' +
+  'Sa62Tpk0R6uBGXZHpOh0qr/NqE6ozuxI/k6FAQ==';
+
+/** MsgSend of 100 JUNO plus 7 uatom, memo "deposit for 1000000 please" */
+export const TEXT_MEMO_TX =
+  'CrkBCpoBChwvY29zbW9zLmJhbmsudjFiZXRhMS5Nc2dTZW5kEnoKK2p1bm8xNXlrNjR1N3pjOWc5' +
+  'azJ5cjJ3bXpldmE1cWd3eHBzNnlzcXY1N3oSK2p1bm8xOXJsNGNtMmhtcjhhZnk0a2xkcHh6M2Zr' +
+  'YTRqZ3VxMGEyand4Y2YaEgoFdWp1bm8SCTEwMDAwMDAwMBoKCgV1YXRvbRIBNxIaZGVwb3NpdCBm' +
+  'b3IgMTAwMDAwMCBwbGVhc2USZwpQCkYKHy9jb3Ntb3MuY3J5cHRvLnNlY3AyNTZrMS5QdWJLZXkS' +
+  'IwohAiOqZ51tU0TiAeDfnwKrFahHJu7g37TpU8Rqniy1I0ncEgQKAggBGAcSEwoNCgV1anVubxIE' +
+  'NTAwMBDAmgwaQD3ev/u/c5VZP5zJHVXlJvrO1VgRfX7MOvR17wGm73YpKbDO6zZGyKq47CzMKAGu' +
+  'yZOlvaAtWYIZOLbPNV91nY8=';
+
+/** MsgSend of 5 JUNO to the deposit address, memo "YATW-8E42" (a deposit code) */
+export const CODE_MEMO_TX =
+  'CpoBCowBChwvY29zbW9zLmJhbmsudjFiZXRhMS5Nc2dTZW5kEmwKK2p1bm8xNXlrNjR1N3pjOWc5' +
+  'azJ5cjJ3bXpldmE1cWd3eHBzNnlzcXY1N3oSK2p1bm8xOXJsNGNtMmhtcjhhZnk0a2xkcHh6M2Zr' +
+  'YTRqZ3VxMGEyand4Y2YaEAoFdWp1bm8SBzUwMDAwMDASCVlBVFctOEU0MhJnClAKRgofL2Nvc21v' +
+  'cy5jcnlwdG8uc2VjcDI1NmsxLlB1YktleRIjCiECI6pnnW1TROIB4N+fAqsVqEcm7uDftOlTxGqe' +
+  'LLUjSdwSBAoCCAEYBxITCg0KBXVqdW5vEgQ1MDAwEMCaDBpAcwSClZYrs6Tzn8Cj8K0a/mwjMyrx' +
+  'DyMamsFB7yJOAwEoZX+Fx6fTjXGXXFjCxUSMxj9mlm7ABZ5lWU7c3l7tQw==';
@@ -41,7 +41,20 @@ export function initTestDatabase(): Database.Database {
       whitelist INTEGER DEFAULT 0,
       blacklist INTEGER DEFAULT 0,
       warning_count INTEGER DEFAULT 0,
-      muted_until INTEGER,
+      username_changed_at INTEGER,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      updated_at INTEGER DEFAULT (strftime('%s', 'now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS rules (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      type TEXT NOT NULL,
+      description TEXT,
+      specific_action TEXT,
+      severity INTEGER DEFAULT 1,
+      escalation TEXT,
+      chat_id INTEGER,
+      created_by INTEGER,
       created_at INTEGER DEFAULT (strftime('%s', 'now')),
       updated_at INTEGER DEFAULT (strftime('%s', 'now'))
     );
@@ -62,6 +75,17 @@ export function initTestDatabase(): Database.Database {
       FOREIGN KEY (paid_by_user_id) REFERENCES users(id)
     );
 
+    CREATE TABLE IF NOT EXISTS warnings (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      chat_id INTEGER,
+      reason TEXT NOT NULL,
+      issued_by INTEGER,
+      violation_id INTEGER,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      expires_at INTEGER
+    );
+
     CREATE TABLE IF NOT EXISTS user_restrictions (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       user_id INTEGER NOT NULL,
@@ -82,7 +106,9 @@ export function initTestDatabase(): Database.Database {
       restriction TEXT NOT NULL UNIQUE,
       restricted_action TEXT,
       metadata TEXT,
-      created_at INTEGER DEFAULT (strftime('%s', 'now'))
+      restricted_until INTEGER,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      chat_id INTEGER
     );
 
     CREATE TABLE IF NOT EXISTS blacklist (
@@ -92,11 +118,76 @@ export function initTestDatabase(): Database.Database {
       FOREIGN KEY (user_id) REFERENCES users(id)
     );
 
+    CREATE TABLE IF NOT EXISTS denoms (
+      denom TEXT PRIMARY KEY,
+      symbol TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      decimals INTEGER NOT NULL,
+      ibc_trace TEXT,
+      enabled INTEGER NOT NULL DEFAULT 1,
+      added_by INTEGER,
+      created_at INTEGER DEFAULT (strftime('%s', 'now'))
+    );
+    INSERT OR IGNORE INTO denoms (denom, symbol, decimals) VALUES ('ujuno', 'JUNO', 6);
+
+    CREATE TABLE IF NOT EXISTS payment_receipts (
+      tx_hash TEXT NOT NULL,
+      msg_index INTEGER NOT NULL,
+      payer_address TEXT,
+      amount_ujuno INTEGER NOT NULL,
+      applied_to TEXT NOT NULL,
+      applied_ref INTEGER,
+      applied_ujuno INTEGER NOT NULL,
+      overpaid_ujuno INTEGER NOT NULL DEFAULT 0,
+      refund_request_id INTEGER,
+      redeemed_by INTEGER NOT NULL,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      PRIMARY KEY (tx_hash, msg_index)
+    );
+
+    CREATE TABLE IF NOT EXISTS moderation_cases (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      action TEXT NOT NULL,
+      user_id INTEGER NOT NULL,
+      actor_id INTEGER,
+      chat_id INTEGER,
+      reason TEXT,
+      duration_minutes INTEGER,
+      amount REAL,
+      jail_event_id INTEGER,
+      violation_id INTEGER,
+      origin_chat_id INTEGER,
+      origin_message_id INTEGER,
+      modlog_chat_id INTEGER,
+      modlog_message_id INTEGER,
+      created_at INTEGER DEFAULT (strftime('%s', 'now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS appeals (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      case_id INTEGER NOT NULL,
+      user_id INTEGER NOT NULL,
+      statement TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'upheld', 'reduced', 'overturned')),
+      outcome TEXT,
+      refund_ujuno INTEGER NOT NULL DEFAULT 0,
+      refund_user_id INTEGER,
+      refund_transaction_id INTEGER,
+      decided_by INTEGER,
+      decided_at INTEGER,
+      chat_id INTEGER,
+      message_id INTEGER,
+      created_at INTEGER DEFAULT (strftime('%s', 'now'))
+    );
+
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_appeals_active ON appeals(case_id, user_id) WHERE status = 'pending';
+
     CREATE TABLE IF NOT EXISTS user_balances (
-      user_id INTEGER PRIMARY KEY,
-      balance REAL DEFAULT 0,
+      user_id INTEGER NOT NULL,
+      denom TEXT NOT NULL DEFAULT 'ujuno',
+      balance_ujuno INTEGER NOT NULL DEFAULT 0,
       last_updated INTEGER DEFAULT (strftime('%s', 'now')),
       created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      PRIMARY KEY (user_id, denom),
       FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
     );
 
@@ -105,16 +196,29 @@ export function initTestDatabase(): Database.Database {
       transaction_type TEXT NOT NULL,
       from_user_id INTEGER,
       to_user_id INTEGER,
-      amount REAL NOT NULL,
-      balance_after REAL,
+      amount_ujuno INTEGER NOT NULL,
+      balance_after_ujuno INTEGER,
       description TEXT,
       tx_hash TEXT,
       external_address TEXT,
       status TEXT DEFAULT 'completed',
       created_at INTEGER DEFAULT (strftime('%s', 'now')),
       metadata TEXT,
+      parent_transaction_id INTEGER,
+      denom TEXT NOT NULL DEFAULT 'ujuno',
       FOREIGN KEY (from_user_id) REFERENCES users(id),
-      FOREIGN KEY (to_user_id) REFERENCES users(id)
+      FOREIGN KEY (to_user_id) REFERENCES users(id),
+      FOREIGN KEY (parent_transaction_id) REFERENCES transactions(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS ledger_postings (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      transaction_id INTEGER NOT NULL,
+      account_id INTEGER NOT NULL,
+      amount_ujuno INTEGER NOT NULL,
+      denom TEXT NOT NULL DEFAULT 'ujuno',
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      FOREIGN KEY (transaction_id) REFERENCES transactions(id)
     );
 
     CREATE TABLE IF NOT EXISTS system_wallets (
@@ -125,7 +229,8 @@ export function initTestDatabase(): Database.Database {
     );
 
     CREATE TABLE IF NOT EXISTS processed_deposits (
-      tx_hash TEXT PRIMARY KEY,
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      tx_hash TEXT NOT NULL,
       user_id INTEGER,
       amount REAL,
       from_address TEXT,
@@ -135,6 +240,22 @@ export function initTestDatabase(): Database.Database {
       error TEXT,
       processed_at INTEGER,
       created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      suggested_user_id INTEGER,
+      claim_user_id INTEGER,
+      claim_challenge_ujuno INTEGER,
+      claim_expires_at INTEGER,
+      claim_status TEXT,
+      claim_proof_tx_hash TEXT,
+      denom TEXT NOT NULL DEFAULT 'ujuno',
+      UNIQUE (tx_hash, denom),
+      FOREIGN KEY (user_id) REFERENCES users(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS deposit_codes (
+      code TEXT PRIMARY KEY,
+      user_id INTEGER NOT NULL,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      revoked_at INTEGER,
       FOREIGN KEY (user_id) REFERENCES users(id)
     );
 
@@ -149,13 +270,15 @@ export function initTestDatabase(): Database.Database {
 
     CREATE INDEX IF NOT EXISTS idx_violations_user_id ON violations(user_id);
     CREATE INDEX IF NOT EXISTS idx_restrictions_user_id ON user_restrictions(user_id);
-    CREATE INDEX IF NOT EXISTS idx_user_balances_balance ON user_balances(balance);
+    CREATE INDEX IF NOT EXISTS idx_user_balances_balance ON user_balances(balance_ujuno);
     CREATE INDEX IF NOT EXISTS idx_transactions_from_user ON transactions(from_user_id);
     CREATE INDEX IF NOT EXISTS idx_transactions_to_user ON transactions(to_user_id);
     CREATE INDEX IF NOT EXISTS idx_transactions_type ON transactions(transaction_type);
     CREATE INDEX IF NOT EXISTS idx_transactions_status ON transactions(status);
     CREATE INDEX IF NOT EXISTS idx_transactions_created ON transactions(created_at);
     CREATE INDEX IF NOT EXISTS idx_transactions_tx_hash ON transactions(tx_hash);
+    CREATE INDEX IF NOT EXISTS idx_transactions_parent ON transactions(parent_transaction_id);
+    CREATE INDEX IF NOT EXISTS idx_ledger_postings_account ON ledger_postings(account_id);
     CREATE INDEX IF NOT EXISTS idx_user_locks_expires ON user_locks(expires_at);
     CREATE INDEX IF NOT EXISTS idx_processed_deposits_time ON processed_deposits(processed_at);
 
@@ -170,11 +293,52 @@ export function initTestDatabase(): Database.Database {
       payment_tx TEXT,
       metadata TEXT,
       timestamp INTEGER DEFAULT (strftime('%s', 'now')),
+      chat_id INTEGER,
       FOREIGN KEY (user_id) REFERENCES users(id),
       FOREIGN KEY (admin_id) REFERENCES users(id),
       FOREIGN KEY (paid_by_user_id) REFERENCES users(id)
     );
 
+    CREATE TABLE IF NOT EXISTS user_jails (
+      user_id INTEGER NOT NULL,
+      chat_id INTEGER NOT NULL DEFAULT 0,
+      muted_until INTEGER NOT NULL,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      PRIMARY KEY (user_id, chat_id),
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS chats (
+      chat_id INTEGER PRIMARY KEY,
+      title TEXT,
+      enabled_features TEXT,
+      fine_overrides TEXT,
+      admin_chat_id INTEGER,
+      modlog_chat_id INTEGER,
+      locale TEXT NOT NULL DEFAULT 'en',
+      captcha_mode TEXT NOT NULL DEFAULT 'button',
+      captcha_timeout INTEGER NOT NULL DEFAULT 300,
+      captcha_vouching INTEGER NOT NULL DEFAULT 1,
+      active INTEGER NOT NULL DEFAULT 1,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      updated_at INTEGER DEFAULT (strftime('%s', 'now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS captcha_challenges (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      chat_id INTEGER NOT NULL,
+      user_id INTEGER NOT NULL,
+      username TEXT,
+      challenge_type TEXT NOT NULL,
+      answer TEXT NOT NULL,
+      message_id INTEGER,
+      status TEXT NOT NULL DEFAULT 'pending',
+      resolved_by INTEGER,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      expires_at INTEGER NOT NULL,
+      resolved_at INTEGER
+    );
+
     CREATE TABLE IF NOT EXISTS deposits (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       tx_hash TEXT NOT NULL UNIQUE,
@@ -252,6 +416,71 @@ export function initTestDatabase(): Database.Database {
       value TEXT NOT NULL,
       updated_at INTEGER DEFAULT (strftime('%s', 'now'))
     );
+
+    CREATE TABLE IF NOT EXISTS withdrawal_requests (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      to_address TEXT NOT NULL,
+      amount_ujuno INTEGER NOT NULL,
+      ledger_transaction_id INTEGER,
+      status TEXT NOT NULL DEFAULT 'requested',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at INTEGER NOT NULL DEFAULT 0,
+      sequence INTEGER,
+      signed_tx TEXT,
+      tx_hash TEXT,
+      fee_ujuno INTEGER,
+      last_error TEXT,
+      broadcast_at INTEGER,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      updated_at INTEGER DEFAULT (strftime('%s', 'now')),
+      denom TEXT NOT NULL DEFAULT 'ujuno',
+      FOREIGN KEY (user_id) REFERENCES users(id),
+      FOREIGN KEY (ledger_transaction_id) REFERENCES transactions(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS withdrawal_addresses (
+      user_id INTEGER NOT NULL,
+      address TEXT NOT NULL,
+      label TEXT,
+      added_at INTEGER DEFAULT (strftime('%s', 'now')),
+      PRIMARY KEY (user_id, address),
+      FOREIGN KEY (user_id) REFERENCES users(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS withdrawal_approvals (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      to_address TEXT NOT NULL,
+      amount_ujuno INTEGER NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      decision TEXT,
+      decided_by INTEGER,
+      decided_at INTEGER,
+      chat_id INTEGER,
+      message_id INTEGER,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      denom TEXT NOT NULL DEFAULT 'ujuno',
+      FOREIGN KEY (user_id) REFERENCES users(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS duels (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      challenger_id INTEGER NOT NULL,
+      opponent_id INTEGER NOT NULL,
+      wager_amount_ujuno INTEGER NOT NULL,
+      loser_consequence TEXT NOT NULL DEFAULT 'none',
+      status TEXT DEFAULT 'pending',
+      winner_id INTEGER,
+      loser_id INTEGER,
+      chat_id INTEGER NOT NULL,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      expires_at INTEGER NOT NULL,
+      resolved_at INTEGER,
+      denom TEXT NOT NULL DEFAULT 'ujuno',
+      FOREIGN KEY (challenger_id) REFERENCES users(id),
+      FOREIGN KEY (opponent_id) REFERENCES users(id)
+    );
   `);
 
   return testDb;
@@ -267,6 +496,20 @@ export function getTestDatabase(): Database.Database {
   return testDb;
 }
 
+/**
+ * Run a unit of work in a transaction on the test database
+ * (mirrors withTransaction in src/database.ts)
+ */
+export function withTestTransaction<T>(fn: () => T extends PromiseLike<unknown> ? never : T): T {
+  return getTestDatabase().transaction(() => {
+    const result = fn();
+    if (result instanceof Promise) {
+      throw new TypeError('A unit of work must be synchronous');
+    }
+    return result;
+  })() as T;
+}
+
 /**
  * Clean test database (truncate all tables)
  */
@@ -274,19 +517,34 @@ export function cleanTestDatabase(): void {
   if (!testDb) return;
 
   testDb.exec(`
+    DELETE FROM payment_receipts;
+    DELETE FROM appeals;
+    DELETE FROM moderation_cases;
+    DELETE FROM duels;
+    DELETE FROM withdrawal_requests;
+    DELETE FROM withdrawal_approvals;
+    DELETE FROM withdrawal_addresses;
     DELETE FROM transaction_locks;
     DELETE FROM user_locks;
     DELETE FROM processed_deposits;
+    DELETE FROM deposit_codes;
+    DELETE FROM ledger_postings;
     DELETE FROM transactions;
     DELETE FROM user_balances;
     DELETE FROM system_wallets;
     DELETE FROM jail_events;
+    DELETE FROM user_jails;
+    DELETE FROM captcha_challenges;
+    DELETE FROM chats;
     DELETE FROM jail;
+    DELETE FROM warnings;
     DELETE FROM violations;
+    DELETE FROM rules;
     DELETE FROM user_restrictions;
     DELETE FROM global_restrictions;
     DELETE FROM blacklist;
     DELETE FROM system_state;
+    DELETE FROM denoms WHERE denom != 'ujuno';
     DELETE FROM users;
   `);
 }
@@ -331,45 +589,45 @@ export function createTestUsers(): void {
 }
 
 /**
- * Add balance for test user
+ * Add balance for test user (amount in JUNO, stored as ujuno)
  */
 export function addTestBalance(userId: number, amount: number): void {
   const db = getTestDatabase();
 
   // Get current balance
   const result = db.prepare(`
-    SELECT balance FROM user_balances WHERE user_id = ?
-  `).get(userId) as { balance: number } | undefined;
+    SELECT balance_ujuno FROM user_balances WHERE user_id = ? AND denom = 'ujuno'
+  `).get(userId) as { balance_ujuno: number } | undefined;
 
-  const currentBalance = result?.balance || 0;
-  const newBalance = currentBalance + amount;
+  const amountMicro = Math.round(amount * 1_000_000);
+  const newBalanceMicro = (result?.balance_ujuno || 0) + amountMicro;
 
   // Upsert balance
   db.prepare(`
-    INSERT INTO user_balances (user_id, balance)
+    INSERT INTO user_balances (user_id, balance_ujuno)
     VALUES (?, ?)
-    ON CONFLICT(user_id) DO UPDATE SET
-      balance = ?,
+    ON CONFLICT(user_id, denom) DO UPDATE SET
+      balance_ujuno = ?,
       last_updated = strftime('%s', 'now')
-  `).run(userId, newBalance, newBalance);
+  `).run(userId, newBalanceMicro, newBalanceMicro);
 
   // Add transaction entry
   db.prepare(`
-    INSERT INTO transactions (transaction_type, to_user_id, amount, balance_after, description, status)
+    INSERT INTO transactions (transaction_type, to_user_id, amount_ujuno, balance_after_ujuno, description, status)
     VALUES (?, ?, ?, ?, ?, ?)
-  `).run('giveaway', userId, amount, newBalance, 'Test balance addition', 'completed');
+  `).run('giveaway', userId, amountMicro, newBalanceMicro, 'Test balance addition', 'completed');
 }
 
 /**
- * Get user balance
+ * Get user balance in JUNO
  */
 export function getTestBalance(userId: number): number {
   const db = getTestDatabase();
   const result = db.prepare(`
-    SELECT balance FROM user_balances WHERE user_id = ?
-  `).get(userId) as { balance: number } | undefined;
+    SELECT balance_ujuno FROM user_balances WHERE user_id = ? AND denom = 'ujuno'
+  `).get(userId) as { balance_ujuno: number } | undefined;
 
-  return result?.balance || 0;
+  return (result?.balance_ujuno || 0) / 1_000_000;
 }
 
 /**
@@ -452,11 +710,11 @@ export function jailTestUser(
 ): void {
   const db = getTestDatabase();
 
-  // Set muted_until in users table (this is the actual jail state)
+  // Network-wide jail in user_jails (this is the actual jail state)
   const mutedUntil = releaseTime || Math.floor(Date.now() / 1000) + 3600;
   db.prepare(`
-    UPDATE users SET muted_until = ? WHERE id = ?
-  `).run(mutedUntil, userId);
+    INSERT OR REPLACE INTO user_jails (user_id, chat_id, muted_until) VALUES (?, 0, ?)
+  `).run(userId, mutedUntil);
 
   // Also insert into jail table for historical records
   db.prepare(`
@@ -33,6 +33,7 @@ interface DbTransaction {
   status: string;
   created_at?: number;
   metadata?: string;
+  parent_transaction_id?: number | null;
 }
 
 // Use a separate integration test database
@@ -68,7 +69,9 @@ const dbHelpers = {
     } catch (error) {
       throw error;
     }
-  }
+  },
+
+  withTransaction: <T>(fn: () => T): T => db.transaction(fn)(),
 };
 
 /**
@@ -99,16 +102,17 @@ function initIntegrationDb(): void {
       whitelist INTEGER DEFAULT 0,
       blacklist INTEGER DEFAULT 0,
       warning_count INTEGER DEFAULT 0,
-      muted_until INTEGER,
       created_at INTEGER DEFAULT (strftime('%s', 'now')),
       updated_at INTEGER DEFAULT (strftime('%s', 'now'))
     );
 
     CREATE TABLE IF NOT EXISTS user_balances (
-      user_id INTEGER PRIMARY KEY,
-      balance REAL DEFAULT 0,
+      user_id INTEGER NOT NULL,
+      denom TEXT NOT NULL DEFAULT 'ujuno',
+      balance_ujuno INTEGER NOT NULL DEFAULT 0,
       last_updated INTEGER DEFAULT (strftime('%s', 'now')),
       created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      PRIMARY KEY (user_id, denom),
       FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
     );
 
@@ -117,18 +121,30 @@ function initIntegrationDb(): void {
       transaction_type TEXT NOT NULL,
       from_user_id INTEGER,
       to_user_id INTEGER,
-      amount REAL NOT NULL,
-      balance_after REAL,
+      amount_ujuno INTEGER NOT NULL,
+      balance_after_ujuno INTEGER,
       description TEXT,
       tx_hash TEXT,
       external_address TEXT,
       status TEXT DEFAULT 'completed',
       created_at INTEGER DEFAULT (strftime('%s', 'now')),
       metadata TEXT,
+      parent_transaction_id INTEGER,
+      denom TEXT NOT NULL DEFAULT 'ujuno',
       FOREIGN KEY (from_user_id) REFERENCES users(id),
       FOREIGN KEY (to_user_id) REFERENCES users(id)
     );
 
+    CREATE TABLE IF NOT EXISTS ledger_postings (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      transaction_id INTEGER NOT NULL,
+      account_id INTEGER NOT NULL,
+      amount_ujuno INTEGER NOT NULL,
+      denom TEXT NOT NULL DEFAULT 'ujuno',
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      FOREIGN KEY (transaction_id) REFERENCES transactions(id)
+    );
+
     CREATE TABLE IF NOT EXISTS system_wallets (
       id TEXT PRIMARY KEY,
       address TEXT NOT NULL UNIQUE,
@@ -163,11 +179,21 @@ function initIntegrationDb(): void {
       payment_tx TEXT,
       timestamp INTEGER DEFAULT (strftime('%s', 'now')),
       metadata TEXT,
+      chat_id INTEGER,
       FOREIGN KEY (user_id) REFERENCES users(id),
       FOREIGN KEY (admin_id) REFERENCES users(id),
       FOREIGN KEY (paid_by_user_id) REFERENCES users(id)
     );
 
+    CREATE TABLE IF NOT EXISTS user_jails (
+      user_id INTEGER NOT NULL,
+      chat_id INTEGER NOT NULL DEFAULT 0,
+      muted_until INTEGER NOT NULL,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      PRIMARY KEY (user_id, chat_id),
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+
     CREATE TABLE IF NOT EXISTS user_locks (
       user_id INTEGER PRIMARY KEY,
       lock_type TEXT NOT NULL,
@@ -204,7 +230,7 @@ function initIntegrationDb(): void {
     );
 
     -- Indexes
-    CREATE INDEX IF NOT EXISTS idx_user_balances_balance ON user_balances(balance);
+    CREATE INDEX IF NOT EXISTS idx_user_balances_balance ON user_balances(balance_ujuno);
     CREATE INDEX IF NOT EXISTS idx_transactions_from_user ON transactions(from_user_id);
     CREATE INDEX IF NOT EXISTS idx_transactions_to_user ON transactions(to_user_id);
     CREATE INDEX IF NOT EXISTS idx_transactions_type ON transactions(transaction_type);
@@ -246,10 +272,12 @@ function cleanTestData(): void {
   db.exec(`
     DELETE FROM transaction_locks;
     DELETE FROM user_locks;
+    DELETE FROM ledger_postings;
     DELETE FROM transactions;
     DELETE FROM user_balances;
     DELETE FROM violations;
     DELETE FROM jail_events;
+    DELETE FROM user_jails;
     DELETE FROM system_wallets;
     DELETE FROM users;
   `);
@@ -275,6 +303,7 @@ vi.mock('../../src/database', () => ({
   query: vi.fn((sql: string, params: unknown[] = []) => dbHelpers.query(sql, params)),
   execute: vi.fn((sql: string, params: unknown[] = []) => dbHelpers.execute(sql, params)),
   get: vi.fn((sql: string, params: unknown[] = []) => dbHelpers.get(sql, params)),
+  withTransaction: vi.fn((fn: () => unknown) => dbHelpers.withTransaction(fn)),
   initDb: vi.fn(),
 }));
 
@@ -856,6 +885,54 @@ describe('Ledger Integration Tests', () => {
     });
   });
 
+  describe('Typed Flows', () => {
+    it('should record refunds linked to the failed transaction', async () => {
+      const userId = 1001;
+      await LedgerService.processDeposit(userId, 100, 'TX_REFUND', 'juno1addr');
+      const withdrawal = await LedgerService.processWithdrawal(userId, 40, 'juno1dest');
+
+      const result = await LedgerService.processRefund(userId, 40, withdrawal.transactionId!);
+
+      expect(result).toEqual({ success: true, newBalance: 100, transactionId: expect.any(Number) });
+      const transactions = await LedgerService.getUserTransactions(userId) as unknown as DbTransaction[];
+      const refund = transactions.find(tx => tx.transaction_type === TransactionType.REFUND)!;
+      expect(refund.id).toBe(result.transactionId);
+      expect(refund.to_user_id).toBe(userId);
+      expect(refund.parent_transaction_id).toBe(withdrawal.transactionId);
+    });
+
+    it('should record transfers with the requested type and parent', async () => {
+      await LedgerService.processDeposit(1001, 100, 'TX_ESCROW', 'juno1addr');
+
+      const lock = await LedgerService.transferBetweenUsers(1001, 1002, 30, 'Giveaway #1 escrow funding', {
+        type: TransactionType.ESCROW_LOCK,
+      });
+      const release = await LedgerService.transferBetweenUsers(1002, 1003, 10, 'Giveaway #1 claim', {
+        type: TransactionType.ESCROW_RELEASE,
+        parentTransactionId: LedgerService.getEscrowLockId(1002),
+      });
+
+      expect(lock.transactionId).toBeDefined();
+      expect(LedgerService.getEscrowLockId(1002)).toBe(lock.transactionId);
+      const released = await LedgerService.getUserTransactions(1003) as unknown as DbTransaction[];
+      expect(released[0].transaction_type).toBe(TransactionType.ESCROW_RELEASE);
+      expect(released[0].parent_transaction_id).toBe(lock.transactionId);
+      expect(release.toBalance).toBe(10);
+    });
+
+    it('should record adjustments and gas fees with their own types', async () => {
+      await LedgerService.processAdjustment(1001, 5, 'Manual credit');
+      await LedgerService.processAdjustment(1001, -0.01, 'Gas fee for withdrawal ABC...', {
+        type: TransactionType.GAS_FEE,
+      });
+
+      const transactions = await LedgerService.getUserTransactions(1001) as unknown as DbTransaction[];
+      const types = transactions.map(tx => tx.transaction_type).sort();
+      expect(types).toEqual([TransactionType.ADJUSTMENT, TransactionType.GAS_FEE]);
+      expect(await LedgerService.getUserBalance(1001)).toBeCloseTo(4.99, 6);
+    });
+  });
+
   describe('Transaction Locking and Race Conditions', () => {
     beforeEach(async () => {
       // Give user balance for operations
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+/**
+ * Unit tests for bech32 address validation
+ * Tests: src/utils/address.ts
+ */
+
+import { toBech32 } from '@cosmjs/encoding';
+import {
+  isValidAddress,
+  parseAddress,
+  parseWithdrawalAddress,
+} from '../../src/utils/address';
+import { SENDER_ADDRESS } from '../fixtures/depositTxs';
+
+const ACCOUNT = SENDER_ADDRESS;
+const CONTRACT = toBech32('juno', new Uint8Array(32).fill(7));
+
+describe('address utilities', () => {
+  describe('parseAddress', () => {
+    it('should classify a 20 byte address as an account', () => {
+      expect(parseAddress(ACCOUNT)).toEqual({ valid: true, address: ACCOUNT, kind: 'account' });
+    });
+
+    it('should classify a 32 byte address as a contract', () => {
+      expect(CONTRACT).toHaveLength(63);
+      expect(parseAddress(CONTRACT)).toEqual({ valid: true, address: CONTRACT, kind: 'contract' });
+    });
+
+    it('should reject a bad checksum', () => {
+      const typo = `${ACCOUNT.slice(0, -1)}q`;
+      const parsed = parseAddress(typo);
+
+      expect(parsed.valid).toBe(false);
+      expect(isValidAddress(typo)).toBe(false);
+    });
+
+    it('should reject addresses that only have the right shape', () => {
+      expect(isValidAddress('juno1qqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqq')).toBe(false);
+      expect(isValidAddress('juno1recipient')).toBe(false);
+    });
+
+    it('should reject another chain prefix', () => {
+      const cosmos = toBech32('cosmos', new Uint8Array(20).fill(1));
+      const parsed = parseAddress(cosmos);
+
+      expect(parsed.valid).toBe(false);
+      if (!parsed.valid) expect(parsed.error).toContain('juno1');
+      expect(isValidAddress(cosmos, 'cosmos')).toBe(true);
+    });
+
+    it('should reject unexpected payload lengths', () => {
+      const parsed = parseAddress(toBech32('juno', new Uint8Array(25)));
+
+      expect(parsed.valid).toBe(false);
+      if (!parsed.valid) expect(parsed.error).toContain('25 bytes');
+    });
+
+    it('should normalize upper case addresses and reject mixed case', () => {
+      expect(parseAddress(ACCOUNT.toUpperCase())).toEqual({
+        valid: true,
+        address: ACCOUNT,
+        kind: 'account',
+      });
+      expect(isValidAddress(`JUNO${ACCOUNT.slice(4)}`)).toBe(false);
+    });
+
+    it('should reject empty input', () => {
+      expect(parseAddress('  ').valid).toBe(false);
+    });
+  });
+
+  describe('parseWithdrawalAddress', () => {
+    it('should accept accounts regardless of the contract policy', () => {
+      expect(parseWithdrawalAddress(ACCOUNT, false).valid).toBe(true);
+      expect(parseWithdrawalAddress(ACCOUNT, true).valid).toBe(true);
+    });
+
+    it('should only accept contracts when allowed', () => {
+      const refused = parseWithdrawalAddress(CONTRACT, false);
+
+      expect(refused.valid).toBe(false);
+      if (!refused.valid) expect(refused.error).toContain('contract');
+      expect(parseWithdrawalAddress(CONTRACT, true)).toEqual({
+        valid: true,
+        address: CONTRACT,
+        kind: 'contract',
+      });
+    });
+  });
+});
@@ -0,0 +1,368 @@
+import { vi, describe, it, expect, beforeEach, afterEach, beforeAll, afterAll } from 'vitest';
+/**
+ * Unit tests for appeals
+ * Tests: src/services/appealService.ts
+ */
+
+import {
+  initTestDatabase,
+  cleanTestDatabase,
+  closeTestDatabase,
+  createTestUser,
+  createTestViolation,
+  createTestRestriction,
+  addTestBalance,
+  getTestBalance,
+  getTestDatabase,
+} from '../helpers/testDatabase';
+
+// Mock database module
+vi.mock('../../src/database', async () => {
+  const testDb = await import('../helpers/testDatabase');
+  return {
+    query: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).all(...params),
+    get: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).get(...params),
+    execute: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).run(...params),
+    withTransaction: testDb.withTestTransaction,
+  };
+});
+
+vi.mock('../../src/config', () => ({
+  config: {
+    groupChatId: -1001234567890,
+    adminChatId: -1005555555555,
+    modlogChatId: 0,
+    ownerIds: [],
+  },
+}));
+
+vi.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+  StructuredLogger: {
+    logError: vi.fn(),
+    logUserAction: vi.fn(),
+    logTransaction: vi.fn(),
+    logSecurityEvent: vi.fn(),
+    logDebug: vi.fn(),
+  },
+}));
+
+import { AppealService } from '../../src/services/appealService';
+import { ChatService } from '../../src/services/chatService';
+import { EventBus } from '../../src/services/eventBus';
+import { LedgerService } from '../../src/services/ledgerService';
+import { ModerationActionService } from '../../src/services/moderationActionService';
+import { ModlogService } from '../../src/services/modlogService';
+import { registerModlogSubscribers } from '../../src/subscribers/modlog';
+import { registerNotificationSubscribers } from '../../src/subscribers/notifications';
+
+const GROUP = -1001234567890;
+const ADMIN_CHAT = -1005555555555;
+const ADMIN = 111111111;
+const USER = 555555555;
+const PAYER = 666666666;
+const OTHER = 777777777;
+
+let nextMessageId = 1000;
+const telegram = {
+  restrictChatMember: vi.fn().mockResolvedValue(true),
+  sendMessage: vi.fn().mockImplementation(async (chatId: number) => ({
+    message_id: nextMessageId++,
+    chat: { id: chatId },
+  })),
+};
+
+const db = () => getTestDatabase();
+
+const appealRow = (id: number) => db().prepare('SELECT * FROM appeals WHERE id = ?').get(id) as any;
+
+const caseActions = () =>
+  (db().prepare('SELECT action FROM moderation_cases ORDER BY id').all() as { action: string }[]).map(
+    (row) => row.action,
+  );
+
+async function jailUser(durationMinutes = 60): Promise<number> {
+  await ModerationActionService.jail({
+    userId: USER,
+    chatId: GROUP,
+    source: 'command',
+    reason: 'manual',
+    actorId: ADMIN,
+    durationMinutes,
+    bailAmount: 2,
+  });
+  return (db().prepare("SELECT MAX(id) as id FROM moderation_cases WHERE action = 'jail'").get() as { id: number }).id;
+}
+
+async function appeal(caseId: number, statement = 'I was quoting the spammer'): Promise<number> {
+  const result = await AppealService.open(telegram as any, caseId, USER, statement);
+  expect(result.success).toBe(true);
+  return result.appeal!.id;
+}
+
+describe('Appeals', () => {
+  beforeAll(() => {
+    initTestDatabase();
+    ModerationActionService.initialize({ telegram } as any);
+  });
+
+  afterAll(() => {
+    closeTestDatabase();
+  });
+
+  beforeEach(() => {
+    cleanTestDatabase();
+    vi.clearAllMocks();
+    createTestUser(ADMIN, 'admin', 'admin');
+    createTestUser(USER, 'target');
+    createTestUser(PAYER, 'payer');
+    createTestUser(OTHER, 'other');
+    ChatService.registerChat(GROUP, 'Main Group');
+    registerModlogSubscribers();
+    registerNotificationSubscribers({ telegram } as any);
+  });
+
+  afterEach(() => {
+    EventBus.clear();
+  });
+
+  describe('open', () => {
+    it('should post the appeal to the admin chat with decision buttons', async () => {
+      const caseId = await jailUser();
+      const appealId = await appeal(caseId);
+
+      const [chatId, message, extra] = telegram.sendMessage.mock.calls.at(-1)!;
+      expect(chatId).toBe(ADMIN_CHAT);
+      expect(message.text).toContain(`Appeal #${appealId}`);
+      expect(message.text).toContain(`Case #${caseId} · Jail`);
+      expect(message.text).toContain('I was quoting the spammer');
+      expect(extra.reply_markup.inline_keyboard[0].map((button: any) => button.callback_data)).toEqual([
+        `appeal_uphold_${appealId}`,
+        `appeal_reduce_${appealId}`,
+        `appeal_overturn_${appealId}`,
+      ]);
+      expect(appealRow(appealId)).toMatchObject({ status: 'pending', chat_id: ADMIN_CHAT, message_id: expect.any(Number) });
+    });
+
+    it("should only accept the user's own appealable cases", async () => {
+      const caseId = await jailUser();
+      const kick = await ModlogService.open({ action: 'kick', userId: USER, actorId: ADMIN, chatId: GROUP });
+
+      expect(await AppealService.open(telegram as any, caseId, OTHER, 'not mine')).toMatchObject({
+        success: false,
+        error: `Case #${caseId} is not one of yours.`,
+      });
+      expect(await AppealService.open(telegram as any, 999, USER, 'unknown')).toMatchObject({ success: false });
+      expect(await AppealService.open(telegram as any, kick.id, USER, 'kicked')).toMatchObject({
+        success: false,
+        error: 'Only jails, mutes, fines and restrictions can be appealed.',
+      });
+    });
+
+    it('should allow one pending appeal per case', async () => {
+      const caseId = await jailUser();
+      const first = await appeal(caseId);
+
+      expect(await AppealService.open(telegram as any, caseId, USER, 'again')).toMatchObject({
+        success: false,
+        error: `You already have an open appeal for case #${caseId}.`,
+      });
+
+      await AppealService.decide(first, ADMIN, 'uphold');
+      const second = await appeal(caseId, 'new evidence');
+
+      await AppealService.decide(second, ADMIN, 'overturn');
+      expect(await AppealService.open(telegram as any, caseId, USER, 'once more')).toMatchObject({
+        success: false,
+        error: `Case #${caseId} was already overturned.`,
+      });
+      expect(AppealService.getAppealableCases(USER)).toEqual([]);
+    });
+  });
+
+  describe('decide', () => {
+    it('should release an overturned jail and audit the decision', async () => {
+      const caseId = await jailUser();
+      const appealId = await appeal(caseId);
+
+      const result = await AppealService.decide(appealId, ADMIN, 'overturn');
+
+      expect(result.success).toBe(true);
+      expect(result.appeal).toMatchObject({
+        status: 'overturned',
+        outcome: 'released from jail',
+        decided_by: ADMIN,
+        refund_ujuno: 0,
+      });
+      expect(db().prepare('SELECT * FROM user_jails WHERE user_id = ?').all(USER)).toEqual([]);
+      expect(telegram.restrictChatMember).toHaveBeenLastCalledWith(
+        GROUP,
+        USER,
+        expect.objectContaining({ permissions: expect.objectContaining({ can_send_messages: true }) }),
+      );
+      expect(caseActions()).toEqual(['jail', 'unjail', 'appeal_overturned']);
+      expect(telegram.sendMessage).toHaveBeenCalledWith(
+        USER,
+        `Your appeal #${appealId} of case #${caseId} was granted: released from jail.`,
+      );
+    });
+
+    it('should refund bail to whoever paid it when a jail is overturned', async () => {
+      const caseId = await jailUser();
+      const payment = db()
+        .prepare("INSERT INTO transactions (transaction_type, amount_ujuno, tx_hash) VALUES ('deposit', 2000000, 'HASH')")
+        .run().lastInsertRowid;
+      await ModerationActionService.unjail({
+        userId: USER,
+        source: 'payment',
+        reason: 'bail_paid',
+        bailAmount: 2,
+        paidByUserId: PAYER,
+        paymentTx: 'HASH',
+      });
+      const appealId = await appeal(caseId);
+
+      const result = await AppealService.decide(appealId, ADMIN, 'overturn');
+
+      expect(result.appeal).toMatchObject({
+        refund_ujuno: 2_000_000,
+        refund_user_id: PAYER,
+        outcome: 'jail had already ended; 2.000000 JUNO bail refunded to @payer (666666666)',
+      });
+      expect(getTestBalance(PAYER)).toBe(2);
+      const refund = db()
+        .prepare('SELECT * FROM transactions WHERE id = ?')
+        .get(result.appeal!.refund_transaction_id) as any;
+      expect(refund).toMatchObject({
+        transaction_type: 'refund',
+        from_user_id: null,
+        to_user_id: PAYER,
+        parent_transaction_id: payment,
+      });
+    });
+
+    it('should halve the remaining jail when reduced', async () => {
+      const caseId = await jailUser(60);
+      const appealId = await appeal(caseId);
+      const now = Math.floor(Date.now() / 1000);
+
+      const result = await AppealService.decide(appealId, ADMIN, 'reduce');
+
+      expect(result.appeal?.status).toBe('reduced');
+      const jail = db().prepare('SELECT muted_until FROM user_jails WHERE user_id = ?').get(USER) as {
+        muted_until: number;
+      };
+      expect(jail.muted_until - now).toBeGreaterThanOrEqual(29 * 60);
+      expect(jail.muted_until - now).toBeLessThanOrEqual(31 * 60);
+      expect(telegram.restrictChatMember).toHaveBeenLastCalledWith(
+        GROUP,
+        USER,
+        expect.objectContaining({ until_date: jail.muted_until }),
+      );
+      expect(caseActions()).toEqual(['jail', 'jail', 'appeal_reduced']);
+    });
+
+    it('should waive an unpaid fine and its warning when overturned', async () => {
+      const violationId = createTestViolation(USER, 'no_urls', 3);
+      db()
+        .prepare('INSERT INTO warnings (user_id, reason, violation_id) VALUES (?, ?, ?)')
+        .run(USER, 'no_urls', violationId);
+      db().prepare('UPDATE users SET warning_count = 1 WHERE id = ?').run(USER);
+      const modCase = await ModlogService.open({ action: 'violation', userId: USER, violationId, amount: 3 });
+      const appealId = await appeal(modCase.id);
+
+      const result = await AppealService.decide(appealId, ADMIN, 'overturn');
+
+      expect(result.appeal?.outcome).toBe('fine of 3.000000 JUNO waived; violation and its warning removed');
+      expect(db().prepare('SELECT bail_amount FROM violations WHERE id = ?').get(violationId)).toEqual({
+        bail_amount: 0,
+      });
+      expect(db().prepare('SELECT COUNT(*) as count FROM warnings').get()).toEqual({ count: 0 });
+      expect(db().prepare('SELECT warning_count FROM users WHERE id = ?').get(USER)).toEqual({ warning_count: 0 });
+    });
+
+    it('should refund half of a paid fine when reduced and the rest when overturned', async () => {
+      const violationId = createTestViolation(USER, 'no_urls', 3, 1);
+      db().prepare('UPDATE violations SET paid_by_user_id = ? WHERE id = ?').run(PAYER, violationId);
+      addTestBalance(PAYER, 3);
+      await LedgerService.processFine(PAYER, 3, violationId);
+      const fine = db().prepare("SELECT id FROM transactions WHERE transaction_type = 'fine'").get() as { id: number };
+      const modCase = await ModlogService.open({ action: 'violation', userId: USER, violationId, amount: 3 });
+
+      await AppealService.decide(await appeal(modCase.id), ADMIN, 'reduce');
+      expect(getTestBalance(PAYER)).toBe(1.5);
+
+      const result = await AppealService.decide(await appeal(modCase.id), ADMIN, 'overturn');
+      expect(result.appeal?.refund_ujuno).toBe(1_500_000);
+      expect(getTestBalance(PAYER)).toBe(3);
+      expect(
+        db().prepare("SELECT parent_transaction_id FROM transactions WHERE transaction_type = 'refund'").all(),
+      ).toEqual([{ parent_transaction_id: fine.id }, { parent_transaction_id: fine.id }]);
+    });
+
+    it('should lift an overturned restriction', async () => {
+      createTestRestriction(USER, 'no_stickers');
+      const modCase = await ModlogService.open({
+        action: 'restriction_added',
+        userId: USER,
+        actorId: ADMIN,
+        reason: 'no_stickers',
+      });
+
+      await AppealService.decide(await appeal(modCase.id), ADMIN, 'overturn');
+
+      expect(db().prepare('SELECT * FROM user_restrictions WHERE user_id = ?').all(USER)).toEqual([]);
+      expect(caseActions()).toEqual(['restriction_added', 'restriction_removed', 'appeal_overturned']);
+    });
+
+    it('should keep the appeal pending when there is nothing to reduce', async () => {
+      createTestRestriction(USER, 'no_stickers');
+      const modCase = await ModlogService.open({ action: 'restriction_added', userId: USER, reason: 'no_stickers' });
+      const appealId = await appeal(modCase.id);
+
+      const result = await AppealService.decide(appealId, ADMIN, 'reduce');
+
+      expect(result).toEqual({ success: false, error: `Case #${modCase.id} has nothing left to reduce.` });
+      expect(appealRow(appealId)).toMatchObject({ status: 'pending', decided_by: null });
+    });
+
+    it('should roll back the decision when the payment is not in the ledger', async () => {
+      const violationId = createTestViolation(USER, 'no_urls', 20, 1);
+      const modCase = await ModlogService.open({ action: 'violation', userId: USER, violationId, amount: 20 });
+      db()
+        .prepare('INSERT INTO warnings (user_id, reason, violation_id) VALUES (?, ?, ?)')
+        .run(USER, 'no_urls', violationId);
+      const appealId = await appeal(modCase.id);
+
+      const result = await AppealService.decide(appealId, ADMIN, 'overturn');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe(`No ledger entry found for the fine payment of case #${modCase.id}.`);
+      expect(appealRow(appealId).status).toBe('pending');
+      expect(db().prepare('SELECT COUNT(*) as count FROM warnings').get()).toEqual({ count: 1 });
+      expect(getTestBalance(USER)).toBe(0);
+    });
+
+    it('should change nothing when upheld and reject a second decision', async () => {
+      const caseId = await jailUser();
+      const appealId = await appeal(caseId);
+
+      const upheld = await AppealService.decide(appealId, ADMIN, 'uphold');
+      const again = await AppealService.decide(appealId, ADMIN, 'overturn');
+
+      expect(upheld.appeal).toMatchObject({ status: 'upheld', outcome: 'upheld, no change' });
+      expect(again).toEqual({ success: false, error: 'This appeal was already decided.' });
+      expect(db().prepare('SELECT COUNT(*) as count FROM user_jails').get()).toEqual({ count: 1 });
+      expect(caseActions()).toEqual(['jail', 'appeal_upheld']);
+      expect(telegram.sendMessage).toHaveBeenCalledWith(
+        USER,
+        `Your appeal #${appealId} of case #${caseId} was upheld: upheld, no change.`,
+      );
+    });
+  });
+});
@@ -8,6 +8,8 @@ import { JunoService } from '../../src/services/junoService';
 import { DepositMonitor } from '../../src/services/depositMonitor';
 import { TransactionLockService } from '../../src/services/transactionLock';
 import { LedgerService } from '../../src/services/ledgerService';
+import { MaintenanceService } from '../../src/services/maintenanceService';
+import { DEPOSIT_ADDRESS, SENDER_ADDRESS, TEXT_MEMO_TX } from '../fixtures/depositTxs';
 import {
   initTestDatabase,
   cleanTestDatabase,
@@ -29,7 +31,8 @@ vi.mock('../../src/config', () => ({
     userFundsAddress: 'juno1testuserfundsaddress123456789',
     userFundsMnemonic: 'test mnemonic phrase for testing wallet operations',
     databasePath: ':memory:',
-    logLevel: 'silent'
+    logLevel: 'silent',
+    acceptLegacyDepositMemos: true
   },
   validateConfig: vi.fn()
 }));
@@ -47,6 +50,7 @@ vi.mock('../../src/utils/logger', () => ({
     logUserAction: vi.fn(),
     logTransaction: vi.fn(),
     logWalletAction: vi.fn(),
+    logSecurityEvent: vi.fn(),
   },
 }));
 
@@ -79,6 +83,7 @@ vi.mock('../../src/database', () => {
         return undefined;
       }
     }),
+    withTransaction: vi.fn((fn: () => unknown) => fn()),
     initDb: vi.fn()
   };
 });
@@ -481,7 +486,7 @@ describe('Blockchain Services - Comprehensive Tests', () => {
         expect(result.found).toBe(true);
         expect(result.processed).toBe(true);
         expect(result.userId).toBe(123456);
-        expect(result.amount).toBe(25);
+        expect(result.amounts).toEqual([{ amount: 25, denom: 'ujuno' }]);
 
         // Verify balance was updated
         const balance = await LedgerService.getUserBalance(123456);
@@ -577,7 +582,7 @@ describe('Blockchain Services - Comprehensive Tests', () => {
         // Process first time
         const result1 = await DepositMonitor.checkSpecificTransaction('test_tx_hash_123');
         expect(result1.processed).toBe(true);
-        expect(result1.amount).toBe(10);
+        expect(result1.amounts).toEqual([{ amount: 10, denom: 'ujuno' }]);
 
         // Try to process again
         const result2 = await DepositMonitor.checkSpecificTransaction('test_tx_hash_123');
@@ -632,7 +637,139 @@ describe('Blockchain Services - Comprehensive Tests', () => {
         const result = await DepositMonitor.checkSpecificTransaction('test_tx_hash_123');
 
         expect(result.processed).toBe(true);
-        expect(result.amount).toBe(15);
+        expect(result.amounts).toEqual([{ amount: 15, denom: 'ujuno' }]);
+      });
+
+      test('credits every registered denom of a transaction', async () => {
+        getTestDatabase().prepare("INSERT INTO denoms (denom, symbol, decimals) VALUES ('uatom', 'ATOM', 6)").run();
+        const mockResponse = {
+          tx_response: {
+            tx: {
+              body: {
+                memo: '123456',
+                messages: [
+                  {
+                    '@type': '/cosmos.bank.v1beta1.MsgSend',
+                    from_address: 'juno1senderaddress',
+                    to_address: 'juno1testuserfundsaddress123456789',
+                    amount: [
+                      { denom: 'ujuno', amount: '100000000' },
+                      { denom: 'uatom', amount: '7' }
+                    ]
+                  }
+                ]
+              }
+            }
+          }
+        };
+
+        (global.fetch as Mock).mockResolvedValueOnce({
+          ok: true,
+          json: async () => mockResponse
+        });
+
+        const result = await DepositMonitor.checkSpecificTransaction('test_tx_hash_123');
+
+        expect(result.processed).toBe(true);
+        expect(result.amounts).toEqual([
+          { amount: 100, denom: 'ujuno' },
+          { amount: 0.000007, denom: 'uatom' },
+        ]);
+        expect(await LedgerService.getUserBalance(123456)).toBe(100);
+        expect(await LedgerService.getUserBalance(123456, 'uatom')).toBe(0.000007);
+      });
+    });
+
+    describe('checkForDeposits', () => {
+      beforeEach(() => {
+        createTestUser(-3, 'UNCLAIMED_DEPOSITS', 'system');
+        getTestDatabase().prepare("INSERT INTO denoms (denom, symbol, decimals) VALUES ('uatom', 'ATOM', 6)").run();
+        (DepositMonitor as any).walletAddress = DEPOSIT_ADDRESS;
+      });
+
+      afterEach(() => {
+        DepositMonitor.initialize();
+      });
+
+      test('credits every registered denom of a transaction', async () => {
+        // 100 JUNO plus 7 uatom, memo "deposit for 1000000 please"
+        (global.fetch as Mock).mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            result: {
+              txs: [
+                {
+                  hash: 'MULTI_DENOM_TX',
+                  height: '100',
+                  tx: TEXT_MEMO_TX,
+                  tx_result: { code: 0, events: [] },
+                },
+              ],
+            },
+          }),
+        });
+
+        const result = await DepositMonitor.checkForDeposits();
+
+        expect(result).toEqual({ success: true, depositsFound: 2 });
+        expect(
+          getTestDatabase()
+            .prepare('SELECT tx_hash, denom, amount, user_id, processed FROM processed_deposits ORDER BY denom')
+            .all(),
+        ).toEqual([
+          { tx_hash: 'MULTI_DENOM_TX', denom: 'uatom', amount: 0.000007, user_id: -3, processed: 1 },
+          { tx_hash: 'MULTI_DENOM_TX', denom: 'ujuno', amount: 100, user_id: -3, processed: 1 },
+        ]);
+        expect(await LedgerService.getUserBalance(-3)).toBe(100);
+        expect(await LedgerService.getUserBalance(-3, 'uatom')).toBe(0.000007);
+      });
+
+      test('picks up every deposit made while paused from its height cursor', async () => {
+        const incoming = (height: number) => ({
+          hash: `TX_${height}`,
+          height: String(height),
+          tx: Buffer.from('garbage').toString('base64'),
+          tx_result: {
+            code: 0,
+            events: [
+              {
+                type: 'transfer',
+                attributes: [
+                  { key: 'recipient', value: DEPOSIT_ADDRESS },
+                  { key: 'sender', value: SENDER_ADDRESS },
+                  { key: 'amount', value: '1000000ujuno' },
+                ],
+              },
+            ],
+          },
+        });
+        const page = (heights: number[], total: number) => ({
+          ok: true,
+          json: async () => ({ result: { txs: heights.map(incoming), total_count: String(total) } }),
+        });
+        (DepositMonitor as any).lastCheckedHeight = 100;
+
+        MaintenanceService.pause(['deposits'], 'test', null);
+        expect(await DepositMonitor.checkForDeposits()).toEqual({ success: true, depositsFound: 0 });
+        expect(global.fetch).not.toHaveBeenCalled();
+
+        // 51 deposits made during the pause, more than a page
+        MaintenanceService.resume(['deposits'], 111111111);
+        const heights = Array.from({ length: 51 }, (_, i) => 101 + i);
+        (global.fetch as Mock)
+          .mockResolvedValueOnce(page(heights.slice(0, 50), 51))
+          .mockResolvedValueOnce(page(heights.slice(50), 51))
+          .mockResolvedValueOnce(page([], 0));
+
+        expect(await DepositMonitor.checkForDeposits()).toEqual({ success: true, depositsFound: 51 });
+        const urls = (global.fetch as Mock).mock.calls.map(([url]) => decodeURIComponent(url));
+        expect(urls[0]).toContain('tx.height > 100');
+        expect(urls[0]).toContain('page=1&');
+        expect(urls[1]).toContain('page=2&');
+        expect(await LedgerService.getUserBalance(-3)).toBe(51);
+
+        await DepositMonitor.checkForDeposits();
+        expect(decodeURIComponent((global.fetch as Mock).mock.calls[2][0])).toContain('tx.height > 151');
       });
     });
 
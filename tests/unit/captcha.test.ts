@@ -0,0 +1,257 @@
+import { vi, describe, it, expect, beforeEach, beforeAll, afterAll } from 'vitest';
+/**
+ * Unit tests for newcomer verification
+ * Tests: src/services/captchaService.ts, captcha settings in src/services/chatService.ts
+ */
+
+import type { Telegram } from 'telegraf';
+import {
+  initTestDatabase,
+  cleanTestDatabase,
+  closeTestDatabase,
+  createTestUsers,
+  getTestDatabase,
+} from '../helpers/testDatabase';
+
+// Mock database module
+vi.mock('../../src/database', async () => {
+  const testDb = await import('../helpers/testDatabase');
+  return {
+    query: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).all(...params),
+    get: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).get(...params),
+    execute: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).run(...params),
+  };
+});
+
+vi.mock('../../src/config', () => ({
+  config: {
+    groupChatId: -1001234567890,
+    adminChatId: -9000,
+  },
+}));
+
+vi.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+  StructuredLogger: {
+    logError: vi.fn(),
+    logUserAction: vi.fn(),
+    logTransaction: vi.fn(),
+    logSecurityEvent: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/utils/adminNotify', () => ({
+  notifyAdmin: vi.fn().mockResolvedValue(undefined),
+}));
+
+import { CaptchaService } from '../../src/services/captchaService';
+import { ChatService } from '../../src/services/chatService';
+import { JoinScreeningService } from '../../src/services/joinScreeningService';
+import { JAILED_PERMISSIONS, RELEASED_PERMISSIONS } from '../../src/services/jailService';
+
+const GROUP = -1001234567890;
+const OWNER = 111111111;
+const ADMIN = 222222222;
+const ELEVATED = 333333333;
+const PLEB = 444444444;
+const NEWCOMER = 777777777;
+
+const telegram = {
+  restrictChatMember: vi.fn().mockResolvedValue(true),
+  sendMessage: vi.fn().mockResolvedValue({ message_id: 42 }),
+  deleteMessage: vi.fn().mockResolvedValue(true),
+  banChatMember: vi.fn().mockResolvedValue(true),
+  unbanChatMember: vi.fn().mockResolvedValue(true),
+};
+
+const start = () =>
+  CaptchaService.startChallenge(telegram as unknown as Telegram, GROUP, NEWCOMER, 'newbie');
+
+const userExists = (userId: number) =>
+  !!getTestDatabase().prepare('SELECT id FROM users WHERE id = ?').get(userId);
+
+describe('Newcomer verification', () => {
+  beforeAll(() => {
+    initTestDatabase();
+    CaptchaService.initialize({ telegram } as any);
+  });
+
+  beforeEach(() => {
+    cleanTestDatabase();
+    createTestUsers();
+    ChatService.registerChat(GROUP);
+    vi.clearAllMocks();
+  });
+
+  afterAll(() => {
+    closeTestDatabase();
+  });
+
+  describe('startChallenge', () => {
+    it('should restrict the newcomer and post a button challenge', async () => {
+      const challenge = await start();
+
+      expect(telegram.restrictChatMember).toHaveBeenCalledWith(GROUP, NEWCOMER, {
+        permissions: JAILED_PERMISSIONS,
+      });
+      expect(challenge).toMatchObject({
+        challenge_type: 'button',
+        status: 'pending',
+        message_id: 42,
+      });
+      expect(challenge.expires_at - challenge.created_at).toBe(300);
+
+      const keyboard = telegram.sendMessage.mock.calls[0][2].reply_markup.inline_keyboard;
+      expect(keyboard[0]).toEqual([{ text: "I'm human", callback_data: `captcha_${challenge.id}_human` }]);
+      expect(keyboard[1][0].callback_data).toBe(`captcha_vouch_${challenge.id}`);
+    });
+
+    it('should use the chat settings for math challenges', async () => {
+      ChatService.setCaptchaSettings(GROUP, { mode: 'math', timeoutSeconds: 60, allowVouching: false }, ADMIN);
+
+      const challenge = await start();
+
+      expect(challenge.challenge_type).toBe('math');
+      expect(challenge.expires_at - challenge.created_at).toBe(60);
+      const [text] = telegram.sendMessage.mock.calls[0].slice(1);
+      const [, a, b] = text.match(/What is (\d+) \+ (\d+)\?/);
+      expect(challenge.answer).toBe(String(Number(a) + Number(b)));
+
+      const keyboard = telegram.sendMessage.mock.calls[0][2].reply_markup.inline_keyboard;
+      expect(keyboard).toHaveLength(1);
+      expect(keyboard[0]).toHaveLength(4);
+      expect(keyboard[0].map((button: any) => button.text)).toContain(challenge.answer);
+    });
+
+    it('should not create a second challenge for a pending newcomer', async () => {
+      const first = await start();
+      const second = await start();
+
+      expect(second.id).toBe(first.id);
+      expect(telegram.sendMessage).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('join screen', () => {
+    it('should challenge newcomers and let immune users and bots through', async () => {
+      const member = (id: number, isBot = false) => ({ id, is_bot: isBot, first_name: 'X' });
+      const screen = (chatId: number, id: number, isBot = false) =>
+        JoinScreeningService.screenMember(telegram as unknown as Telegram, chatId, member(id, isBot));
+
+      expect(await screen(GROUP, NEWCOMER)).toBe('handled');
+      expect(CaptchaService.getPendingChallenge(GROUP, NEWCOMER)).not.toBeNull();
+
+      expect(await screen(GROUP, ADMIN)).toBe('pass');
+      expect(await screen(GROUP, 888888888, true)).toBe('pass');
+
+      const otherGroup = -1005555;
+      ChatService.registerChat(otherGroup);
+      ChatService.setCaptchaSettings(otherGroup, { mode: 'off' }, OWNER);
+      expect(await screen(otherGroup, 999999999)).toBe('pass');
+    });
+  });
+
+  describe('answerChallenge', () => {
+    it('should admit a newcomer who answers correctly', async () => {
+      const challenge = await start();
+
+      const outcome = await CaptchaService.answerChallenge(
+        telegram as unknown as Telegram,
+        challenge.id,
+        NEWCOMER,
+        'human',
+      );
+
+      expect(outcome).toBe('passed');
+      expect(telegram.restrictChatMember).toHaveBeenLastCalledWith(GROUP, NEWCOMER, {
+        permissions: RELEASED_PERMISSIONS,
+      });
+      expect(telegram.deleteMessage).toHaveBeenCalledWith(GROUP, 42);
+      expect(userExists(NEWCOMER)).toBe(true);
+      expect(CaptchaService.getChallenge(challenge.id)?.status).toBe('passed');
+    });
+
+    it('should kick a newcomer who answers wrong', async () => {
+      const challenge = await start();
+
+      const outcome = await CaptchaService.answerChallenge(
+        telegram as unknown as Telegram,
+        challenge.id,
+        NEWCOMER,
+        'robot',
+      );
+
+      expect(outcome).toBe('failed');
+      expect(telegram.banChatMember).toHaveBeenCalledWith(GROUP, NEWCOMER);
+      expect(telegram.unbanChatMember).toHaveBeenCalledWith(GROUP, NEWCOMER, { only_if_banned: true });
+      const kick = getTestDatabase()
+        .prepare("SELECT * FROM jail_events WHERE user_id = ? AND event_type = 'kicked'")
+        .get(NEWCOMER) as any;
+      expect(kick.chat_id).toBe(GROUP);
+      expect(JSON.parse(kick.metadata)).toEqual({ status: 'failed', source: 'screening', reason: 'captcha' });
+      expect(CaptchaService.getChallenge(challenge.id)?.status).toBe('failed');
+    });
+
+    it("should ignore other users pressing the newcomer's button", async () => {
+      const challenge = await start();
+
+      const outcome = await CaptchaService.answerChallenge(
+        telegram as unknown as Telegram,
+        challenge.id,
+        PLEB,
+        'human',
+      );
+
+      expect(outcome).toBe('not_allowed');
+      expect(CaptchaService.getChallenge(challenge.id)?.status).toBe('pending');
+    });
+  });
+
+  describe('vouch', () => {
+    it('should let elevated users vouch a newcomer in', async () => {
+      const challenge = await start();
+
+      expect(await CaptchaService.vouch(telegram as unknown as Telegram, GROUP, NEWCOMER, PLEB)).toBe(
+        'not_allowed',
+      );
+      expect(await CaptchaService.vouch(telegram as unknown as Telegram, GROUP, NEWCOMER, ELEVATED)).toBe(
+        'vouched',
+      );
+
+      expect(CaptchaService.getChallenge(challenge.id)).toMatchObject({
+        status: 'vouched',
+        resolved_by: ELEVATED,
+      });
+      expect(userExists(NEWCOMER)).toBe(true);
+    });
+
+    it('should refuse vouching when the chat disabled it', async () => {
+      ChatService.setCaptchaSettings(GROUP, { allowVouching: false }, ADMIN);
+      await start();
+
+      expect(await CaptchaService.vouch(telegram as unknown as Telegram, GROUP, NEWCOMER, OWNER)).toBe(
+        'not_allowed',
+      );
+    });
+  });
+
+  describe('expireChallenges', () => {
+    it('should kick newcomers whose challenge timed out', async () => {
+      const challenge = await start();
+      getTestDatabase()
+        .prepare('UPDATE captcha_challenges SET expires_at = ? WHERE id = ?')
+        .run(Math.floor(Date.now() / 1000) - 1, challenge.id);
+
+      expect(await CaptchaService.expireChallenges()).toBe(1);
+
+      expect(telegram.banChatMember).toHaveBeenCalledWith(GROUP, NEWCOMER);
+      expect(CaptchaService.getChallenge(challenge.id)?.status).toBe('expired');
+      expect(await CaptchaService.expireChallenges()).toBe(0);
+    });
+  });
+});
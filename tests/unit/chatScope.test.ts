@@ -0,0 +1,278 @@
+import { vi, describe, it, expect, beforeEach, afterEach, beforeAll, afterAll } from 'vitest';
+/**
+ * Unit tests for multi-group support
+ * Tests: src/services/chatService.ts, chat-scoped jails in src/services/jailService.ts,
+ * src/migrations/chatScopedJails.ts
+ */
+
+import Database from 'better-sqlite3';
+import {
+  initTestDatabase,
+  cleanTestDatabase,
+  closeTestDatabase,
+  createTestUser,
+} from '../helpers/testDatabase';
+
+// Mock database module
+vi.mock('../../src/database', async () => {
+  const testDb = await import('../helpers/testDatabase');
+  return {
+    query: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).all(...params),
+    get: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).get(...params),
+    execute: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).run(...params),
+  };
+});
+
+vi.mock('../../src/config', () => ({
+  config: {
+    groupChatId: -1001,
+    adminChatId: -9000,
+  },
+}));
+
+vi.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+  StructuredLogger: {
+    logError: vi.fn(),
+    logUserAction: vi.fn(),
+    logSecurityEvent: vi.fn(),
+    logDebug: vi.fn(),
+  },
+}));
+
+import { ChatService } from '../../src/services/chatService';
+import { JailService } from '../../src/services/jailService';
+import { ModerationActionService } from '../../src/services/moderationActionService';
+import { PriceService } from '../../src/services/priceService';
+import { runSchemaMigrations } from '../../src/migrations';
+import { chatScopedJailsMigration } from '../../src/migrations/chatScopedJails';
+
+const GROUP_A = -1001;
+const GROUP_B = -1002;
+const ADMIN = 111111111;
+const USER = 555555555;
+
+describe('ChatService', () => {
+  beforeAll(() => {
+    initTestDatabase();
+  });
+
+  beforeEach(() => {
+    cleanTestDatabase();
+    ChatService.initialize();
+  });
+
+  afterAll(() => {
+    closeTestDatabase();
+  });
+
+  it('should always include the configured group chat', () => {
+    expect(ChatService.getChatIds()).toEqual([GROUP_A]);
+  });
+
+  it('should register and deactivate chats', () => {
+    ChatService.registerChat(GROUP_B, 'Group B');
+    expect(ChatService.getChatIds().sort()).toEqual([GROUP_A, GROUP_B].sort());
+    expect(ChatService.getChat(GROUP_B)?.title).toBe('Group B');
+
+    ChatService.deactivateChat(GROUP_B);
+    expect(ChatService.getChatIds()).toEqual([GROUP_A]);
+    expect(ChatService.getChat(GROUP_B)?.active).toBe(false);
+  });
+
+  it('should enable every feature by default and toggle them per chat', () => {
+    ChatService.registerChat(GROUP_B);
+
+    expect(ChatService.isFeatureEnabled(GROUP_B, 'gambling')).toBe(true);
+    ChatService.setFeatureEnabled(GROUP_B, 'gambling', false, ADMIN);
+
+    expect(ChatService.isFeatureEnabled(GROUP_B, 'gambling')).toBe(false);
+    expect(ChatService.isFeatureEnabled(GROUP_B, 'duels')).toBe(true);
+    expect(ChatService.isFeatureEnabled(GROUP_A, 'gambling')).toBe(true);
+
+    ChatService.setFeatureEnabled(GROUP_B, 'gambling', true, ADMIN);
+    expect(ChatService.isFeatureEnabled(GROUP_B, 'gambling')).toBe(true);
+  });
+
+  it('should treat unregistered chats as having every feature', () => {
+    expect(ChatService.isFeatureEnabled(-1999, 'giveaways')).toBe(true);
+  });
+
+  it('should refuse settings for unregistered chats', () => {
+    expect(() => ChatService.setLocale(-1999, 'de', ADMIN)).toThrow(/not registered/);
+  });
+
+  it('should apply fine overrides only in their chat', () => {
+    ChatService.registerChat(GROUP_B);
+    ChatService.setFineOverride(GROUP_B, 'sticker', 2.5, ADMIN);
+
+    expect(PriceService.getFineConfigUsd('sticker', GROUP_B)).toBe(2.5);
+    expect(PriceService.getFineConfigUsd('sticker', GROUP_A)).toBe(0.1);
+    expect(PriceService.getFineConfigUsd('sticker')).toBe(0.1);
+
+    ChatService.setFineOverride(GROUP_B, 'sticker', null, ADMIN);
+    expect(PriceService.getFineConfigUsd('sticker', GROUP_B)).toBe(0.1);
+  });
+
+  it('should route admin notifications to the chat admin chat', () => {
+    ChatService.registerChat(GROUP_B);
+    expect(ChatService.getAdminChatId(GROUP_B)).toBe(-9000);
+
+    ChatService.setAdminChatId(GROUP_B, -9002, ADMIN);
+    expect(ChatService.getAdminChatId(GROUP_B)).toBe(-9002);
+    expect(ChatService.getAdminChatId(GROUP_A)).toBe(-9000);
+    expect(ChatService.getAdminChatId()).toBe(-9000);
+  });
+
+  it('should store the chat locale', () => {
+    expect(ChatService.getLocale(GROUP_A)).toBe('en');
+    ChatService.setLocale(GROUP_A, 'pt-BR', ADMIN);
+    expect(ChatService.getLocale(GROUP_A)).toBe('pt-BR');
+  });
+});
+
+describe('Chat-scoped jails', () => {
+  const telegram = {
+    restrictChatMember: vi.fn().mockResolvedValue(true),
+    sendMessage: vi.fn().mockResolvedValue({}),
+  };
+
+  beforeAll(() => {
+    initTestDatabase();
+    ModerationActionService.initialize({ telegram } as any);
+  });
+
+  beforeEach(() => {
+    cleanTestDatabase();
+    ChatService.initialize();
+    ChatService.registerChat(GROUP_B);
+    createTestUser(USER, 'target', 'pleb');
+    vi.clearAllMocks();
+  });
+
+  afterAll(() => {
+    closeTestDatabase();
+  });
+
+  it('should only jail the user in the given chat', () => {
+    const until = Math.floor(Date.now() / 1000) + 600;
+    JailService.jailUser(USER, GROUP_A, until);
+
+    expect(JailService.getJailedUntil(USER, GROUP_A)).toBe(until);
+    expect(JailService.getJailedUntil(USER, GROUP_B)).toBeNull();
+    expect(JailService.getJailedUntil(USER)).toBe(until);
+  });
+
+  it('should apply network-wide jails in every chat', () => {
+    const until = Math.floor(Date.now() / 1000) + 600;
+    JailService.jailUser(USER, null, until);
+
+    expect(JailService.getJailedUntil(USER, GROUP_A)).toBe(until);
+    expect(JailService.getJailedUntil(USER, GROUP_B)).toBe(until);
+  });
+
+  it('should release a single scope or every scope', () => {
+    const until = Math.floor(Date.now() / 1000) + 600;
+    JailService.jailUser(USER, GROUP_A, until);
+    JailService.jailUser(USER, null, until + 60);
+
+    expect(JailService.releaseUser(USER, null)).toBe(1);
+    expect(JailService.getJailedUntil(USER, GROUP_B)).toBeNull();
+    expect(JailService.getJailedUntil(USER, GROUP_A)).toBe(until);
+
+    JailService.jailUser(USER, null, until + 60);
+    expect(JailService.releaseUser(USER)).toBe(2);
+    expect(JailService.getUserJails(USER)).toEqual([]);
+  });
+
+  it('should restrict a network-wide jail in every active chat', async () => {
+    await ModerationActionService.jail({
+      userId: USER,
+      chatId: null,
+      source: 'command',
+      reason: 'manual',
+      durationMinutes: 10,
+    });
+
+    const chats = telegram.restrictChatMember.mock.calls.map((call) => call[0]).sort();
+    expect(chats).toEqual([GROUP_A, GROUP_B].sort());
+  });
+
+  it('should not restore chats still covered by another jail', async () => {
+    const until = Math.floor(Date.now() / 1000) + 600;
+    JailService.jailUser(USER, GROUP_A, until);
+    JailService.jailUser(USER, null, until);
+
+    await ModerationActionService.unjail({ userId: USER, chatId: null, source: 'command', reason: 'manual' });
+
+    expect(telegram.restrictChatMember).toHaveBeenCalledTimes(1);
+    expect(telegram.restrictChatMember.mock.calls[0][0]).toBe(GROUP_B);
+  });
+
+  it('should only lift expired jails in their own chat', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    JailService.jailUser(USER, GROUP_B, now - 10);
+    JailService.jailUser(USER, GROUP_A, now + 600);
+
+    await ModerationActionService.releaseExpiredJails();
+
+    expect(JailService.getUserJails(USER).map((j) => j.chatId)).toEqual([GROUP_A]);
+    expect(telegram.restrictChatMember).toHaveBeenCalledTimes(1);
+    expect(telegram.restrictChatMember.mock.calls[0][0]).toBe(GROUP_B);
+
+    const { get } = await import('../../src/database');
+    const event = get('SELECT * FROM jail_events WHERE event_type = ?', ['auto_unjailed']) as any;
+    expect(event.chat_id).toBe(GROUP_B);
+  });
+});
+
+describe('Chat-scoped jails migration', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    db.exec(`
+      CREATE TABLE users (id INTEGER PRIMARY KEY, username TEXT, muted_until INTEGER);
+      CREATE INDEX idx_users_muted_until ON users(muted_until);
+      CREATE TABLE user_jails (
+        user_id INTEGER NOT NULL,
+        chat_id INTEGER NOT NULL DEFAULT 0,
+        muted_until INTEGER NOT NULL,
+        created_at INTEGER DEFAULT (strftime('%s', 'now')),
+        PRIMARY KEY (user_id, chat_id)
+      );
+    `);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should move active jails to network-wide jails and drop the column', () => {
+    const now = Math.floor(Date.now() / 1000);
+    const insert = db.prepare('INSERT INTO users (id, muted_until) VALUES (?, ?)');
+    insert.run(1, now + 600);
+    insert.run(2, now - 600);
+    insert.run(3, null);
+
+    expect(runSchemaMigrations(db, [chatScopedJailsMigration])).toEqual(['002_chat_scoped_jails']);
+
+    expect(db.prepare('SELECT user_id, chat_id, muted_until FROM user_jails').all()).toEqual([
+      { user_id: 1, chat_id: 0, muted_until: now + 600 },
+    ]);
+    const columns = (db.pragma('table_info(users)') as { name: string }[]).map((c) => c.name);
+    expect(columns).not.toContain('muted_until');
+  });
+
+  it('should be a no-op on a fresh schema', () => {
+    db.exec('DROP INDEX idx_users_muted_until; ALTER TABLE users DROP COLUMN muted_until');
+
+    expect(runSchemaMigrations(db, [chatScopedJailsMigration])).toEqual(['002_chat_scoped_jails']);
+    expect(db.prepare('SELECT COUNT(*) AS count FROM user_jails').get()).toEqual({ count: 0 });
+  });
+});
@@ -0,0 +1,345 @@
+import { vi, describe, it, expect, beforeEach, beforeAll, afterAll } from 'vitest';
+/**
+ * Unit tests for multi-denom balances
+ * Tests: src/services/denomService.ts, denom support in src/services/ledgerService.ts,
+ * src/migrations/multiDenomBalances.ts, src/migrations/depositsByDenom.ts, extractRpcDeposits
+ */
+
+import Database from 'better-sqlite3';
+import { toBech32 } from '@cosmjs/encoding';
+import { Context } from 'telegraf';
+import {
+  initTestDatabase,
+  cleanTestDatabase,
+  closeTestDatabase,
+  createTestUsers,
+  getTestBalance,
+  getTestDatabase,
+} from '../helpers/testDatabase';
+import { createPlebContext, getReplyText } from '../helpers/mockContext';
+import { DEPOSIT_ADDRESS, SENDER_ADDRESS } from '../fixtures/depositTxs';
+
+// Mock database module
+vi.mock('../../src/database', async () => {
+  const testDb = await import('../helpers/testDatabase');
+  return {
+    query: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).all(...params),
+    get: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).get(...params),
+    execute: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).run(...params),
+    withTransaction: testDb.withTestTransaction,
+  };
+});
+
+vi.mock('../../src/config', () => ({
+  config: {
+    groupChatId: -1001234567890,
+    userFundsAddress: 'juno1botwallet',
+  },
+}));
+
+vi.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+  StructuredLogger: {
+    logError: vi.fn(),
+    logUserAction: vi.fn(),
+    logTransaction: vi.fn(),
+    logSecurityEvent: vi.fn(),
+    logWalletAction: vi.fn(),
+  },
+}));
+
+import { DenomService } from '../../src/services/denomService';
+import { LedgerService } from '../../src/services/ledgerService';
+import { LedgerAuditService } from '../../src/services/ledgerAudit';
+import { handleBalance } from '../../src/handlers/wallet';
+import { runSchemaMigrations } from '../../src/migrations';
+import { depositsByDenomMigration } from '../../src/migrations/depositsByDenom';
+import { multiDenomBalancesMigration } from '../../src/migrations/multiDenomBalances';
+import { extractRpcDeposits } from '../../src/utils/depositTx';
+
+const OWNER = 111111111;
+const PLEB = 444444444;
+const OTHER = 555555555;
+const ATOM_TRACE = 'transfer/channel-1/uatom';
+const CW20_CONTRACT = toBech32('juno', new Uint8Array(32).fill(7));
+
+function registerAtom() {
+  return DenomService.register(
+    { denom: DenomService.ibcDenomForTrace(ATOM_TRACE), symbol: 'atom', decimals: 6, ibcTrace: ATOM_TRACE },
+    OWNER,
+  );
+}
+
+describe('multi-denom balances', () => {
+  beforeAll(() => {
+    initTestDatabase();
+  });
+
+  afterAll(() => {
+    closeTestDatabase();
+  });
+
+  beforeEach(() => {
+    cleanTestDatabase();
+    createTestUsers();
+    vi.clearAllMocks();
+  });
+
+  describe('DenomService', () => {
+    it('should always know JUNO and default to it', () => {
+      expect(DenomService.resolve()).toMatchObject({ denom: 'ujuno', symbol: 'JUNO', decimals: 6 });
+      expect(DenomService.resolve('juno')?.denom).toBe('ujuno');
+      expect(DenomService.register({ denom: 'ujuno', symbol: 'JUNO', decimals: 6 }, OWNER).success).toBe(false);
+    });
+
+    it('should register an IBC denom whose trace hashes to it', () => {
+      const result = registerAtom();
+
+      expect(result.success).toBe(true);
+      expect(result.denom).toMatchObject({ symbol: 'ATOM', ibcTrace: ATOM_TRACE, enabled: true });
+      expect(result.denom?.denom).toMatch(/^ibc\/[0-9A-F]{64}$/);
+      expect(DenomService.resolve('Atom')?.denom).toBe(result.denom?.denom);
+      expect(DenomService.resolve(result.denom?.denom)?.symbol).toBe('ATOM');
+    });
+
+    it('should refuse IBC denoms with a missing or wrong trace', () => {
+      const denom = DenomService.ibcDenomForTrace(ATOM_TRACE);
+
+      expect(DenomService.register({ denom, symbol: 'ATOM', decimals: 6 }, OWNER).success).toBe(false);
+      expect(
+        DenomService.register(
+          { denom, symbol: 'ATOM', decimals: 6, ibcTrace: 'transfer/channel-2/uatom' },
+          OWNER,
+        ).error,
+      ).toBe('The IBC trace does not hash to this denom');
+    });
+
+    it('should validate symbols, decimals and CW20 contracts', () => {
+      registerAtom();
+
+      expect(DenomService.register({ denom: 'ufoo', symbol: 'atom', decimals: 6 }, OWNER).error).toContain(
+        'already used',
+      );
+      expect(DenomService.register({ denom: 'ufoo', symbol: 'F', decimals: 6 }, OWNER).success).toBe(false);
+      expect(DenomService.register({ denom: 'ufoo', symbol: 'FOO', decimals: 18 }, OWNER).success).toBe(false);
+      expect(DenomService.register({ denom: 'cw20:juno1nope', symbol: 'TOK', decimals: 6 }, OWNER).success).toBe(
+        false,
+      );
+      expect(
+        DenomService.register({ denom: `cw20:${CW20_CONTRACT}`, symbol: 'TOK', decimals: 6 }, OWNER).success,
+      ).toBe(true);
+    });
+
+    it('should stop accepting a disabled denom', () => {
+      const atom = registerAtom().denom!;
+
+      expect(DenomService.depositDenoms()).toEqual({ ujuno: 6, [atom.denom]: 6 });
+      expect(DenomService.setEnabled(atom.denom, false, OWNER)).toBe(true);
+      expect(DenomService.resolve('ATOM')).toBeUndefined();
+      expect(DenomService.depositDenoms()).toEqual({ ujuno: 6 });
+      expect(DenomService.setEnabled('ujuno', false, OWNER)).toBe(false);
+    });
+
+    it('should convert between display and base units by decimals', () => {
+      DenomService.register({ denom: 'unone', symbol: 'NONE', decimals: 0 }, OWNER);
+      DenomService.register({ denom: 'unine', symbol: 'NINE', decimals: 9 }, OWNER);
+
+      expect(DenomService.toBaseUnits(1.5)).toBe(1_500_000);
+      expect(DenomService.toBaseUnits(42, 'unone')).toBe(42);
+      expect(DenomService.toBaseUnits(0.000000001, 'unine')).toBe(1);
+      expect(() => DenomService.toBaseUnits(1.5, 'unone')).toThrow();
+      expect(() => DenomService.toBaseUnits(1, 'uunknown')).toThrow('Unknown denom');
+      expect(DenomService.fromBaseUnits(1_234_567_891, 'unine')).toBe(1.234567891);
+      expect(DenomService.format(1_500_000_000, 'unine')).toBe('1.500000000 NINE');
+    });
+  });
+
+  describe('ledger', () => {
+    it('should keep balances per denom', async () => {
+      const atom = registerAtom().denom!;
+
+      await LedgerService.processDeposit(PLEB, 10, 'HASH_JUNO', SENDER_ADDRESS);
+      await LedgerService.processDeposit(PLEB, 3.5, 'HASH_ATOM', SENDER_ADDRESS, undefined, atom.denom);
+
+      expect(await LedgerService.getUserBalance(PLEB)).toBe(10);
+      expect(await LedgerService.getUserBalance(PLEB, atom.denom)).toBe(3.5);
+      expect(getTestBalance(PLEB)).toBe(10);
+      expect(LedgerService.getUserAssets(PLEB)).toEqual([
+        { denom: 'ujuno', balanceMicro: 10_000_000 },
+        { denom: atom.denom, balanceMicro: 3_500_000 },
+      ]);
+    });
+
+    it('should transfer only the requested denom', async () => {
+      const atom = registerAtom().denom!;
+      await LedgerService.processDeposit(PLEB, 1, 'HASH_JUNO', SENDER_ADDRESS);
+      await LedgerService.processDeposit(PLEB, 2, 'HASH_ATOM', SENDER_ADDRESS, undefined, atom.denom);
+
+      const result = await LedgerService.transferBetweenUsers(PLEB, OTHER, 1.5, 'atom tip', { denom: atom.denom });
+      const tooMuch = await LedgerService.transferBetweenUsers(PLEB, OTHER, 1.5, 'atom tip', { denom: atom.denom });
+
+      expect(result.success).toBe(true);
+      expect(tooMuch.success).toBe(false);
+      expect(await LedgerService.getUserBalance(PLEB, atom.denom)).toBe(0.5);
+      expect(await LedgerService.getUserBalance(OTHER, atom.denom)).toBe(1.5);
+      expect(await LedgerService.getUserBalance(PLEB)).toBe(1);
+      expect(await LedgerService.getUserBalance(OTHER)).toBe(0);
+
+      const tx = getTestDatabase()
+        .prepare('SELECT denom, amount_ujuno FROM transactions WHERE id = ?')
+        .get(result.transactionId);
+      expect(tx).toEqual({ denom: atom.denom, amount_ujuno: 1_500_000 });
+
+      const report = LedgerAuditService.audit();
+      expect(report.drifts).toEqual([]);
+      expect(report.unbalancedTransactions).toEqual([]);
+    });
+
+    it('should list every non-zero asset in /balance', async () => {
+      const atom = registerAtom().denom!;
+      await LedgerService.processDeposit(PLEB, 2, 'HASH_JUNO', SENDER_ADDRESS);
+      await LedgerService.processDeposit(PLEB, 0.25, 'HASH_ATOM', SENDER_ADDRESS, undefined, atom.denom);
+
+      const ctx = createPlebContext({ userId: PLEB, username: 'pleb' });
+      await handleBalance(ctx as Context);
+
+      const replyText = getReplyText(ctx);
+      expect(replyText).toContain('2.000000 JUNO');
+      expect(replyText).toContain('0.250000 ATOM');
+    });
+  });
+
+  describe('migration', () => {
+    it('should key existing balances as ujuno', () => {
+      const db = new Database(':memory:');
+      db.exec(`
+        CREATE TABLE users (id INTEGER PRIMARY KEY);
+        CREATE TABLE user_balances (
+          user_id INTEGER PRIMARY KEY,
+          balance_ujuno INTEGER NOT NULL DEFAULT 0,
+          last_updated INTEGER,
+          created_at INTEGER
+        );
+        INSERT INTO users (id) VALUES (1), (2);
+        INSERT INTO user_balances (user_id, balance_ujuno, last_updated, created_at) VALUES (1, 5000000, 10, 5), (2, 7, 20, 6);
+      `);
+
+      expect(runSchemaMigrations(db, [multiDenomBalancesMigration])).toEqual(['005_multi_denom_balances']);
+
+      expect(db.prepare('SELECT * FROM user_balances ORDER BY user_id').all()).toEqual([
+        { user_id: 1, denom: 'ujuno', balance_ujuno: 5_000_000, last_updated: 10, created_at: 5 },
+        { user_id: 2, denom: 'ujuno', balance_ujuno: 7, last_updated: 20, created_at: 6 },
+      ]);
+      db.prepare("INSERT INTO user_balances (user_id, denom, balance_ujuno) VALUES (1, 'uatom', 3)").run();
+      expect(runSchemaMigrations(db, [multiDenomBalancesMigration])).toEqual([]);
+      db.close();
+    });
+
+    it('should key processed deposits by transaction and denom', () => {
+      const db = new Database(':memory:');
+      db.exec(`
+        CREATE TABLE users (id INTEGER PRIMARY KEY);
+        CREATE TABLE processed_deposits (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          tx_hash TEXT NOT NULL UNIQUE,
+          user_id INTEGER,
+          amount REAL NOT NULL,
+          from_address TEXT NOT NULL,
+          memo TEXT,
+          height INTEGER NOT NULL,
+          processed INTEGER DEFAULT 0,
+          processed_at INTEGER,
+          error TEXT,
+          created_at INTEGER,
+          suggested_user_id INTEGER,
+          claim_user_id INTEGER,
+          claim_challenge_ujuno INTEGER,
+          claim_expires_at INTEGER,
+          claim_status TEXT,
+          claim_proof_tx_hash TEXT,
+          denom TEXT NOT NULL DEFAULT 'ujuno'
+        );
+        INSERT INTO users (id) VALUES (1);
+        INSERT INTO processed_deposits (tx_hash, user_id, amount, from_address, memo, height, processed, created_at)
+        VALUES ('HASH', 1, 100, 'juno1sender', 'memo', 10, 1, 5);
+      `);
+
+      expect(runSchemaMigrations(db, [depositsByDenomMigration])).toEqual(['006_deposits_by_denom']);
+
+      expect(db.prepare('SELECT id, tx_hash, denom, user_id, amount, processed FROM processed_deposits').all()).toEqual([
+        { id: 1, tx_hash: 'HASH', denom: 'ujuno', user_id: 1, amount: 100, processed: 1 },
+      ]);
+      const insert = db.prepare(
+        "INSERT INTO processed_deposits (tx_hash, denom, user_id, amount, from_address, height) VALUES ('HASH', ?, 1, 7, 'juno1sender', 10)",
+      );
+      insert.run('uatom');
+      expect(() => insert.run('uatom')).toThrow(/UNIQUE/);
+      expect(runSchemaMigrations(db, [depositsByDenomMigration])).toEqual([]);
+      db.close();
+    });
+  });
+
+  describe('extractRpcDeposits', () => {
+    const garbage = Buffer.from('garbage').toString('base64');
+
+    it('should detect a registered IBC denom', () => {
+      const atom = DenomService.ibcDenomForTrace(ATOM_TRACE);
+      const tx = {
+        tx: garbage,
+        tx_result: {
+          code: 0,
+          events: [
+            {
+              type: 'transfer',
+              attributes: [
+                { key: 'recipient', value: DEPOSIT_ADDRESS },
+                { key: 'sender', value: SENDER_ADDRESS },
+                { key: 'amount', value: `1234567${atom}` },
+              ],
+            },
+          ],
+        },
+      };
+
+      expect(extractRpcDeposits(tx, DEPOSIT_ADDRESS)).toEqual([]);
+      expect(extractRpcDeposits(tx, DEPOSIT_ADDRESS, { ujuno: 6, [atom]: 6 })).toMatchObject([{
+        amount: 1.234567,
+        denom: atom,
+        fromAddress: SENDER_ADDRESS,
+      }]);
+    });
+
+    it('should detect a CW20 transfer to the deposit address', () => {
+      const denom = `cw20:${CW20_CONTRACT}`;
+      const tx = {
+        tx: garbage,
+        tx_result: {
+          code: 0,
+          events: [
+            {
+              type: 'wasm',
+              attributes: [
+                { key: '_contract_address', value: CW20_CONTRACT },
+                { key: 'action', value: 'transfer' },
+                { key: 'from', value: SENDER_ADDRESS },
+                { key: 'to', value: DEPOSIT_ADDRESS },
+                { key: 'amount', value: '250' },
+              ],
+            },
+          ],
+        },
+      };
+
+      expect(extractRpcDeposits(tx, DEPOSIT_ADDRESS, { ujuno: 6, [denom]: 2 })).toMatchObject([{
+        amount: 2.5,
+        denom,
+        fromAddress: SENDER_ADDRESS,
+      }]);
+    });
+  });
+});
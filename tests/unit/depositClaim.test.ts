@@ -0,0 +1,235 @@
+import { vi, describe, it, expect, beforeEach, beforeAll, afterAll } from 'vitest';
+/**
+ * Unit tests for self-service deposit claims
+ * Tests: src/services/depositClaimService.ts
+ */
+
+import {
+  initTestDatabase,
+  cleanTestDatabase,
+  closeTestDatabase,
+  createTestUser,
+  createTestUsers,
+  getTestBalance,
+  getTestDatabase,
+} from '../helpers/testDatabase';
+
+// Mock database module
+vi.mock('../../src/database', async () => {
+  const testDb = await import('../helpers/testDatabase');
+  return {
+    query: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).all(...params),
+    get: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).get(...params),
+    execute: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).run(...params),
+    withTransaction: testDb.withTestTransaction,
+  };
+});
+
+vi.mock('../../src/config', () => ({
+  config: {
+    groupChatId: -1001234567890,
+    userFundsAddress: 'juno1botwallet',
+  },
+}));
+
+vi.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+  StructuredLogger: {
+    logError: vi.fn(),
+    logUserAction: vi.fn(),
+    logTransaction: vi.fn(),
+    logSecurityEvent: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/services/rpcTransactionVerification', () => ({
+  RPCTransactionVerification: {
+    fetchTransaction: vi.fn(),
+  },
+}));
+
+import { DepositClaimService } from '../../src/services/depositClaimService';
+import { LedgerService } from '../../src/services/ledgerService';
+import { RPCTransactionVerification } from '../../src/services/rpcTransactionVerification';
+import { UnifiedWalletService } from '../../src/services/unifiedWalletService';
+import { StructuredLogger } from '../../src/utils/logger';
+
+const PLEB = 444444444;
+const OTHER = 555555555;
+const UNCLAIMED = -3;
+const SENDER = 'juno1sender';
+const DEPOSIT_HASH = 'DEPOSIT_HASH';
+const PROOF_HASH = 'PROOF_HASH';
+
+function claimRow() {
+  return getTestDatabase()
+    .prepare(
+      'SELECT user_id, claim_user_id, claim_status, claim_proof_tx_hash FROM processed_deposits WHERE tx_hash = ?',
+    )
+    .get(DEPOSIT_HASH) as Record<string, unknown>;
+}
+
+/** Makes the RPC return a proof transaction */
+function mockProof(challengeUjuno: number, overrides: { sender?: string; height?: number; status?: number } = {}) {
+  vi.mocked(RPCTransactionVerification.fetchTransaction).mockResolvedValue({
+    success: true,
+    data: {
+      hash: PROOF_HASH,
+      status: overrides.status ?? 0,
+      height: overrides.height ?? 200,
+      transfers: [
+        { sender: overrides.sender ?? SENDER, recipient: 'juno1botwallet', amount: challengeUjuno / 1_000_000 },
+      ],
+      gasUsed: 0,
+      gasWanted: 0,
+    },
+  });
+}
+
+describe('self-service deposit claims', () => {
+  beforeAll(() => {
+    initTestDatabase();
+  });
+
+  afterAll(() => {
+    closeTestDatabase();
+  });
+
+  beforeEach(async () => {
+    cleanTestDatabase();
+    createTestUsers();
+    createTestUser(UNCLAIMED, 'unclaimed', 'system');
+    vi.clearAllMocks();
+
+    await LedgerService.processDeposit(UNCLAIMED, 25, DEPOSIT_HASH, SENDER);
+    getTestDatabase()
+      .prepare(
+        `INSERT INTO processed_deposits (tx_hash, user_id, amount, from_address, memo, height, processed)
+         VALUES (?, ?, ?, ?, ?, ?, 1)`,
+      )
+      .run(DEPOSIT_HASH, UNCLAIMED, 25, SENDER, 'oops', 100);
+  });
+
+  it('should issue a challenge and record the pending claim', () => {
+    const result = DepositClaimService.startClaim(DEPOSIT_HASH, PLEB);
+
+    expect(result.success).toBe(true);
+    expect(result.challenge).toMatchObject({
+      fromAddress: SENDER,
+      walletAddress: 'juno1botwallet',
+      amounts: [{ amount: 25, denom: 'ujuno' }],
+    });
+    expect(result.challenge?.challengeUjuno).toBeGreaterThanOrEqual(1_000);
+    expect(result.challenge?.challengeUjuno).toBeLessThanOrEqual(9_999);
+    expect(claimRow()).toMatchObject({ claim_user_id: PLEB, claim_status: 'pending' });
+    expect(StructuredLogger.logSecurityEvent).toHaveBeenCalledWith(
+      'Deposit claim started',
+      expect.objectContaining({ userId: PLEB, txHash: DEPOSIT_HASH }),
+    );
+
+    // Asking again shows the same challenge
+    expect(DepositClaimService.startClaim(DEPOSIT_HASH, PLEB).challenge?.challengeUjuno).toBe(
+      result.challenge?.challengeUjuno,
+    );
+  });
+
+  it('should not let a second user take over a pending claim', () => {
+    DepositClaimService.startClaim(DEPOSIT_HASH, PLEB);
+
+    expect(DepositClaimService.startClaim(DEPOSIT_HASH, OTHER)).toEqual({
+      success: false,
+      error: 'Another user is already claiming this deposit',
+    });
+  });
+
+  it('should refuse deposits that are not unclaimed', () => {
+    expect(DepositClaimService.startClaim('UNKNOWN', PLEB).success).toBe(false);
+  });
+
+  it('should credit the deposit once the proof checks out', async () => {
+    const { challenge } = DepositClaimService.startClaim(DEPOSIT_HASH, PLEB);
+    mockProof(challenge!.challengeUjuno);
+
+    const result = await DepositClaimService.completeClaim(DEPOSIT_HASH, PLEB, PROOF_HASH);
+
+    expect(result).toEqual({ success: true, amounts: [{ amount: 25, denom: 'ujuno' }] });
+    expect(getTestBalance(PLEB)).toBe(25);
+    expect(getTestBalance(UNCLAIMED)).toBe(0);
+    expect(claimRow()).toMatchObject({ user_id: PLEB, claim_status: 'verified', claim_proof_tx_hash: PROOF_HASH });
+  });
+
+  it.each([
+    ['a different amount', (amount: number) => mockProof(amount + 1)],
+    ['a different sender', (amount: number) => mockProof(amount, { sender: 'juno1someoneelse' })],
+    ['an older transaction', (amount: number) => mockProof(amount, { height: 50 })],
+    ['a failed transaction', (amount: number) => mockProof(amount, { status: 5 })],
+  ])('should reject a proof with %s', async (_case, mock) => {
+    const { challenge } = DepositClaimService.startClaim(DEPOSIT_HASH, PLEB);
+    mock(challenge!.challengeUjuno);
+
+    const result = await DepositClaimService.completeClaim(DEPOSIT_HASH, PLEB, PROOF_HASH);
+
+    expect(result.success).toBe(false);
+    expect(getTestBalance(PLEB)).toBe(0);
+    expect(claimRow()).toMatchObject({ user_id: UNCLAIMED, claim_status: 'pending' });
+    expect(StructuredLogger.logSecurityEvent).toHaveBeenCalledWith(
+      'Deposit claim proof rejected',
+      expect.objectContaining({ proofTxHash: PROOF_HASH }),
+    );
+  });
+
+  it('should expire a claim that was not proven in time', async () => {
+    DepositClaimService.startClaim(DEPOSIT_HASH, PLEB);
+    getTestDatabase().prepare('UPDATE processed_deposits SET claim_expires_at = 1').run();
+
+    const result = await DepositClaimService.completeClaim(DEPOSIT_HASH, PLEB, PROOF_HASH);
+
+    expect(result.success).toBe(false);
+    expect(claimRow()).toMatchObject({ claim_status: 'expired' });
+    expect(RPCTransactionVerification.fetchTransaction).not.toHaveBeenCalled();
+    // Anyone can start a new claim afterwards
+    expect(DepositClaimService.startClaim(DEPOSIT_HASH, OTHER).success).toBe(true);
+  });
+
+  it('should let an owner assignment override a pending claim', async () => {
+    DepositClaimService.startClaim(DEPOSIT_HASH, PLEB);
+
+    const result = await UnifiedWalletService.claimUnclaimedDeposit(DEPOSIT_HASH, OTHER);
+
+    expect(result.success).toBe(true);
+    expect(claimRow()).toMatchObject({ user_id: OTHER, claim_status: 'overridden' });
+    expect((await DepositClaimService.completeClaim(DEPOSIT_HASH, PLEB, PROOF_HASH)).success).toBe(false);
+  });
+
+  it('should claim every denom received in the deposit', () => {
+    getTestDatabase().prepare("INSERT INTO denoms (denom, symbol, decimals) VALUES ('uatom', 'ATOM', 6)").run();
+    LedgerService.processDeposit(UNCLAIMED, 0.000007, DEPOSIT_HASH, SENDER, undefined, 'uatom');
+    getTestDatabase()
+      .prepare(
+        `INSERT INTO processed_deposits (tx_hash, denom, user_id, amount, from_address, memo, height, processed)
+         VALUES (?, 'uatom', ?, ?, ?, ?, ?, 1)`,
+      )
+      .run(DEPOSIT_HASH, UNCLAIMED, 0.000007, SENDER, 'oops', 100);
+
+    const result = UnifiedWalletService.claimUnclaimedDeposit(DEPOSIT_HASH, OTHER);
+
+    expect(result).toEqual({
+      success: true,
+      amounts: [
+        { amount: 25, denom: 'ujuno' },
+        { amount: 0.000007, denom: 'uatom' },
+      ],
+    });
+    expect(LedgerService.getUserAssets(OTHER)).toEqual([
+      { denom: 'ujuno', balanceMicro: 25_000_000 },
+      { denom: 'uatom', balanceMicro: 7 },
+    ]);
+    expect(LedgerService.getUserAssets(UNCLAIMED)).toEqual([]);
+    expect(UnifiedWalletService.claimUnclaimedDeposit(DEPOSIT_HASH, PLEB).success).toBe(false);
+  });
+});
@@ -0,0 +1,190 @@
+import { vi, describe, it, expect, beforeEach, beforeAll, afterAll } from 'vitest';
+/**
+ * Unit tests for deposit codes
+ * Tests: src/utils/depositCode.ts, src/services/depositCodeService.ts,
+ * DepositInstructionService.validateMemo
+ */
+
+import {
+  initTestDatabase,
+  cleanTestDatabase,
+  closeTestDatabase,
+  createTestUsers,
+  getTestDatabase,
+} from '../helpers/testDatabase';
+
+// Mock database module
+vi.mock('../../src/database', async () => {
+  const testDb = await import('../helpers/testDatabase');
+  return {
+    query: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).all(...params),
+    get: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).get(...params),
+    execute: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).run(...params),
+    withTransaction: testDb.withTestTransaction,
+  };
+});
+
+const mockConfig = vi.hoisted(() => ({
+  groupChatId: -1001234567890,
+  userFundsAddress: 'juno1userfunds',
+  acceptLegacyDepositMemos: true,
+}));
+
+vi.mock('../../src/config', () => ({ config: mockConfig }));
+
+vi.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+  StructuredLogger: {
+    logError: vi.fn(),
+    logUserAction: vi.fn(),
+    logTransaction: vi.fn(),
+    logSecurityEvent: vi.fn(),
+  },
+}));
+
+import {
+  depositCodeCorrections,
+  formatDepositCode,
+  generateDepositCode,
+  isValidDepositCode,
+  normalizeDepositCode,
+} from '../../src/utils/depositCode';
+import { DepositCodeService } from '../../src/services/depositCodeService';
+import { DepositInstructionService } from '../../src/services/depositInstructions';
+
+const PLEB = 444444444;
+const OTHER = 555555555;
+
+/** Replaces one character of a formatted code with a different one */
+function mistype(code: string, index: number): string {
+  const replacement = code[index] === 'Z' ? 'Y' : 'Z';
+  return code.slice(0, index) + replacement + code.slice(index + 1);
+}
+
+describe('deposit codes', () => {
+  describe('codec', () => {
+    it('should generate valid codes containing a letter', () => {
+      for (let i = 0; i < 50; i++) {
+        const code = generateDepositCode();
+        expect(code).toMatch(/^[0-9A-HJKMNP-TV-Z]{8}$/);
+        expect(code).toMatch(/[A-Z]/);
+        expect(isValidDepositCode(code)).toBe(true);
+      }
+    });
+
+    it('should parse codes case-insensitively with or without separators', () => {
+      const code = generateDepositCode();
+      const formatted = formatDepositCode(code);
+
+      expect(formatted).toBe(`${code.slice(0, 4)}-${code.slice(4)}`);
+      expect(normalizeDepositCode(` ${formatted.toLowerCase()} `)).toBe(code);
+      expect(normalizeDepositCode(code.replace(/0/g, 'O').replace(/1/g, 'l'))).toBe(code);
+    });
+
+    it('should not treat numeric memos or other text as codes', () => {
+      expect(normalizeDepositCode('12345678')).toBeNull();
+      expect(normalizeDepositCode('hello')).toBeNull();
+      expect(normalizeDepositCode('ABCD-EFGH-J')).toBeNull();
+      expect(normalizeDepositCode('ABCU-EFGH')).toBeNull();
+    });
+
+    it('should reject every single mistyped character', () => {
+      const code = generateDepositCode();
+      for (let i = 0; i < code.length; i++) {
+        expect(isValidDepositCode(mistype(code, i))).toBe(false);
+      }
+    });
+
+    it('should list the intended code among the corrections of a typo', () => {
+      const code = generateDepositCode();
+      const typo = mistype(code, 3);
+
+      expect(depositCodeCorrections(typo)).toContain(code);
+      expect(depositCodeCorrections(typo).every((candidate) => isValidDepositCode(candidate))).toBe(true);
+    });
+  });
+
+  describe('DepositCodeService', () => {
+    beforeAll(() => {
+      initTestDatabase();
+    });
+
+    afterAll(() => {
+      closeTestDatabase();
+    });
+
+    beforeEach(() => {
+      cleanTestDatabase();
+      createTestUsers();
+      mockConfig.acceptLegacyDepositMemos = true;
+    });
+
+    it('should issue one code per user and keep returning it', () => {
+      const code = DepositCodeService.getCode(PLEB);
+
+      expect(DepositCodeService.getCode(PLEB)).toBe(code);
+      expect(DepositCodeService.getCode(OTHER)).not.toBe(code);
+      expect(DepositCodeService.resolveMemo(code)).toEqual({ userId: PLEB, kind: 'code' });
+      expect(DepositCodeService.resolveMemo(code.toLowerCase().replace('-', '')).userId).toBe(PLEB);
+    });
+
+    it('should send deposits to a rotated code to unclaimed with the owner suggested', () => {
+      const oldCode = DepositCodeService.getCode(PLEB);
+      const newCode = DepositCodeService.rotateCode(PLEB);
+
+      expect(newCode).not.toBe(oldCode);
+      expect(DepositCodeService.getCode(PLEB)).toBe(newCode);
+      expect(DepositCodeService.resolveMemo(newCode).userId).toBe(PLEB);
+      expect(DepositCodeService.resolveMemo(oldCode)).toMatchObject({ userId: null, suggestedUserId: PLEB });
+    });
+
+    it('should suggest the owner of a mistyped code', () => {
+      const code = DepositCodeService.getCode(PLEB);
+
+      expect(DepositCodeService.resolveMemo(mistype(code, 6))).toMatchObject({
+        userId: null,
+        suggestedUserId: PLEB,
+        kind: 'invalid',
+      });
+    });
+
+    it('should credit legacy numeric memos only during the transition', () => {
+      expect(DepositCodeService.resolveMemo(String(PLEB))).toEqual({ userId: PLEB, kind: 'legacy' });
+
+      mockConfig.acceptLegacyDepositMemos = false;
+      expect(DepositCodeService.resolveMemo(String(PLEB))).toMatchObject({ userId: null, suggestedUserId: PLEB });
+      expect(DepositCodeService.resolveMemo('999')).toMatchObject({ userId: null, suggestedUserId: undefined });
+    });
+
+    it('should not credit memos that are neither codes nor user IDs', () => {
+      expect(DepositCodeService.resolveMemo('')).toMatchObject({ userId: null, kind: 'none' });
+      expect(DepositCodeService.resolveMemo('user 444444444')).toMatchObject({ userId: null, kind: 'invalid' });
+    });
+
+    it('should validate memos against the expected user', () => {
+      const code = DepositCodeService.getCode(PLEB);
+
+      expect(DepositInstructionService.validateMemo(code, PLEB)).toEqual({ valid: true });
+      expect(DepositInstructionService.validateMemo(code, OTHER).valid).toBe(false);
+      expect(DepositInstructionService.validateMemo(mistype(code, 0), PLEB)).toMatchObject({
+        valid: false,
+        error: expect.stringContaining('may be yours'),
+      });
+    });
+
+    it('should show the deposit code in the instructions', () => {
+      const code = DepositCodeService.getCode(PLEB);
+      const instructions = DepositInstructionService.generateInstructions(PLEB);
+
+      expect(instructions.memo).toBe(code);
+      expect(instructions.text).toContain(code);
+      expect(instructions.text).not.toContain(String(PLEB));
+      expect(getTestDatabase().prepare('SELECT COUNT(*) AS c FROM deposit_codes').get()).toEqual({ c: 1 });
+    });
+  });
+});
@@ -0,0 +1,215 @@
+import { vi, describe, it, expect } from 'vitest';
+/**
+ * Unit tests for deposit transaction decoding
+ * Tests: src/utils/depositTx.ts
+ */
+
+vi.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+import {
+  decodeDepositTx,
+  extractMemoHeuristic,
+  extractRpcDeposits,
+  parseDepositTx,
+  sumTransfers,
+} from '../../src/utils/depositTx';
+import {
+  DEPOSIT_ADDRESS,
+  FEE_PAYER_TX,
+  MSG_SEND_TX,
+  MULTI_SEND_TX,
+  SENDER_ADDRESS,
+  TEXT_MEMO_TX,
+} from '../fixtures/depositTxs';
+
+/**
+ * Builds a tx_search entry with a transfer event, as returned by the RPC
+ */
+function rpcTx(tx: string, events: { recipient: string; sender: string; amount: string }[]) {
+  return {
+    tx,
+    tx_result: {
+      code: 0,
+      events: events.map((e) => ({
+        type: 'transfer',
+        attributes: [
+          { key: 'recipient', value: e.recipient },
+          { key: 'sender', value: e.sender },
+          { key: 'amount', value: e.amount },
+        ],
+      })),
+    },
+  };
+}
+
+describe('Deposit transaction decoding', () => {
+  describe('decodeDepositTx', () => {
+    it('should decode a MsgSend deposit', () => {
+      const result = decodeDepositTx(MSG_SEND_TX, DEPOSIT_ADDRESS);
+
+      expect(result.decoded).toBe(true);
+      expect(result.memo).toBe('123456789');
+      expect(result.transfers).toEqual([
+        {
+          msgIndex: 0,
+          type: 'MsgSend',
+          from: SENDER_ADDRESS,
+          to: DEPOSIT_ADDRESS,
+          amount: '1000000',
+          denom: 'ujuno',
+        },
+      ]);
+      expect(result.feePayer).toBe(SENDER_ADDRESS);
+    });
+
+    it('should collect every MsgMultiSend output to the deposit address', () => {
+      const result = decodeDepositTx(MULTI_SEND_TX, DEPOSIT_ADDRESS);
+
+      expect(result.memo).toBe('42');
+      expect(result.transfers.map((t) => t.amount)).toEqual(['2000000', '500000']);
+      expect(result.transfers.every((t) => t.type === 'MsgMultiSend')).toBe(true);
+      expect(result.transfers.every((t) => t.from === SENDER_ADDRESS)).toBe(true);
+      expect(sumTransfers(result.transfers, 'ujuno')).toBe(2500000);
+    });
+
+    it('should use the explicit fee payer from AuthInfo', () => {
+      const result = decodeDepositTx(FEE_PAYER_TX, DEPOSIT_ADDRESS);
+
+      expect(result.memo).toBe('987654');
+      expect(result.feePayer).toBe(DEPOSIT_ADDRESS);
+      expect(result.transfers[0].from).toBe(SENDER_ADDRESS);
+    });
+
+    it('should return the exact memo even when it contains numbers', () => {
+      const result = decodeDepositTx(TEXT_MEMO_TX, DEPOSIT_ADDRESS);
+
+      expect(result.memo).toBe('deposit for 1000000 please');
+      expect(sumTransfers(result.transfers, 'ujuno')).toBe(100000000);
+      expect(sumTransfers(result.transfers, 'uatom')).toBe(7);
+    });
+
+    it('should ignore transfers to other addresses', () => {
+      const result = decodeDepositTx(MSG_SEND_TX, SENDER_ADDRESS);
+
+      expect(result.transfers).toEqual([]);
+      expect(result.memo).toBe('123456789');
+    });
+
+    it('should throw on bytes that are not a TxRaw', () => {
+      expect(() => decodeDepositTx(Buffer.from('not a tx').toString('base64'), DEPOSIT_ADDRESS)).toThrow();
+    });
+  });
+
+  describe('parseDepositTx', () => {
+    it('should not use the heuristic when decoding succeeds', () => {
+      const result = parseDepositTx(TEXT_MEMO_TX, DEPOSIT_ADDRESS, 100000000);
+
+      expect(result.decoded).toBe(true);
+      expect(result.memo).toBe('deposit for 1000000 please');
+    });
+
+    it('should fall back to the heuristic when decoding fails', () => {
+      // Truncated TxRaw: the body is cut off mid-message
+      const truncated = Buffer.from(MSG_SEND_TX, 'base64').subarray(0, 120).toString('base64');
+      const garbage = Buffer.concat([
+        Buffer.from([0xff, 0xff, 0xff]),
+        Buffer.from('1000000'),
+        Buffer.from([0x12, 0x09]),
+        Buffer.from('555666'),
+      ]).toString('base64');
+
+      expect(() => decodeDepositTx(truncated, DEPOSIT_ADDRESS)).toThrow();
+
+      const result = parseDepositTx(garbage, DEPOSIT_ADDRESS, 1000000);
+      expect(result.decoded).toBe(false);
+      expect(result.memo).toBe('555666');
+      expect(result.transfers).toEqual([]);
+      expect(result.feePayer).toBe('');
+    });
+  });
+
+  describe('extractMemoHeuristic', () => {
+    it('should find a numeric memo after the amount', () => {
+      const bytes = Buffer.concat([
+        Buffer.from('ujuno'),
+        Buffer.from([0x12, 0x07]),
+        Buffer.from('2500000'),
+        Buffer.from([0x12, 0x04]),
+        Buffer.from('4242'),
+      ]).toString('base64');
+
+      expect(extractMemoHeuristic(bytes, 2500000)).toBe('4242');
+    });
+  });
+
+  describe('extractRpcDeposits', () => {
+    it('should prefer the decoded amount over transfer events', () => {
+      // The events only report the last output, the decoded tx has both
+      const deposits = extractRpcDeposits(
+        rpcTx(MULTI_SEND_TX, [{ recipient: DEPOSIT_ADDRESS, sender: SENDER_ADDRESS, amount: '500000ujuno' }]),
+        DEPOSIT_ADDRESS,
+      );
+
+      expect(deposits).toEqual([{
+        amount: 2.5,
+        denom: 'ujuno',
+        fromAddress: SENDER_ADDRESS,
+        memo: '42',
+        feePayer: SENDER_ADDRESS,
+        decoded: true,
+      }]);
+    });
+
+    it('should return one deposit per registered denom sent', () => {
+      const deposits = extractRpcDeposits(
+        rpcTx(TEXT_MEMO_TX, [{ recipient: DEPOSIT_ADDRESS, sender: SENDER_ADDRESS, amount: '100000000ujuno,7uatom' }]),
+        DEPOSIT_ADDRESS,
+        { ujuno: 6, uatom: 6 },
+      );
+
+      expect(deposits.map(({ amount, denom }) => ({ amount, denom }))).toEqual([
+        { amount: 100, denom: 'ujuno' },
+        { amount: 0.000007, denom: 'uatom' },
+      ]);
+      expect(deposits.every((d) => d.memo === 'deposit for 1000000 please')).toBe(true);
+    });
+
+    it('should use transfer events when the tx cannot be decoded', () => {
+      const [deposit] = extractRpcDeposits(
+        rpcTx(Buffer.from('garbage').toString('base64'), [
+          { recipient: DEPOSIT_ADDRESS, sender: SENDER_ADDRESS, amount: '1000000ujuno' },
+          { recipient: DEPOSIT_ADDRESS, sender: SENDER_ADDRESS, amount: '250000ujuno' },
+        ]),
+        DEPOSIT_ADDRESS,
+      );
+
+      expect(deposit?.decoded).toBe(false);
+      expect(deposit?.amount).toBe(1.25);
+      expect(deposit?.fromAddress).toBe(SENDER_ADDRESS);
+    });
+
+    it('should drop a sender that is not a valid Juno address', () => {
+      const [deposit] = extractRpcDeposits(
+        rpcTx(Buffer.from('garbage').toString('base64'), [
+          { recipient: DEPOSIT_ADDRESS, sender: 'juno1notarealaddress', amount: '1000000ujuno' },
+        ]),
+        DEPOSIT_ADDRESS,
+      );
+
+      expect(deposit?.amount).toBe(1);
+      expect(deposit?.fromAddress).toBe('');
+      expect(deposit?.feePayer).toBe('');
+    });
+
+    it('should return nothing when nothing was sent to the deposit address', () => {
+      expect(extractRpcDeposits(rpcTx(MSG_SEND_TX, []), SENDER_ADDRESS)).toEqual([]);
+    });
+  });
+});
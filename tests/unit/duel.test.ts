@@ -13,6 +13,7 @@ vi.mock("../../src/database", () => ({
 	query: vi.fn(),
 	execute: vi.fn(() => ({ lastInsertRowid: 1, changes: 1 })),
 	get: vi.fn(),
+	withTransaction: vi.fn((fn: () => unknown) => fn()),
 }));
 
 // Mock config
@@ -53,7 +54,7 @@ vi.mock("../../src/services/ledgerService", () => ({
 		getUserBalance: (...args: unknown[]) => mockGetUserBalance(...args),
 		transferBetweenUsers: (...args: unknown[]) =>
 			mockTransferBetweenUsers(...args),
-		ensureUserBalance: vi.fn(() => Promise.resolve()),
+		ensureUserBalance: vi.fn(),
 	},
 	TransactionType: {
 		DEPOSIT: "deposit",
@@ -64,6 +65,16 @@ vi.mock("../../src/services/ledgerService", () => ({
 		GIVEAWAY: "giveaway",
 		REFUND: "refund",
 		GAMBLING: "gambling",
+		DUEL_WAGER: "duel_wager",
+		DUEL_PAYOUT: "duel_payout",
+	},
+}));
+
+vi.mock("../../src/services/unifiedWalletService", () => ({
+	SYSTEM_USER_IDS: {
+		BOT_TREASURY: -1,
+		SYSTEM_RESERVE: -2,
+		UNCLAIMED: -3,
 	},
 }));
 
@@ -101,10 +112,25 @@ vi.mock("../../src/utils/precision", () => ({
 		parseUserInput: (s: string) => parseFloat(s),
 		validateAmount: (n: number) => n,
 		isGreaterOrEqual: (a: number, b: number) => a >= b,
+		toMicroJuno: (n: number) => Math.round(n * 1_000_000),
+		fromMicroJuno: (n: number) => n / 1_000_000,
 	},
 }));
 
-import { get, execute, query } from "../../src/database";
+// Mock command dependencies
+vi.mock("../../src/middleware/index", () => ({
+	requireChatFeature: () => (_ctx: unknown, next: () => Promise<void>) =>
+		next(),
+}));
+
+vi.mock("../../src/utils/userResolver", () => ({
+	formatUserIdDisplay: (userId: number) => `User ${userId}`,
+	resolveUserId: () => 456,
+}));
+
+import { Telegraf, Telegram } from "telegraf";
+import { registerDuelCommands } from "../../src/commands/duel";
+import { get, execute, query, withTransaction } from "../../src/database";
 import {
 	DuelService,
 	DUEL_TIMEOUT_SECONDS,
@@ -232,7 +258,7 @@ describe("Duel Creation", () => {
 				id: 1,
 				challenger_id: 123,
 				opponent_id: 456,
-				wager_amount: 10,
+				wager_amount_ujuno: 10_000_000,
 				loser_consequence: "none",
 				status: "pending",
 				chat_id: -100,
@@ -256,7 +282,7 @@ describe("Duel Creation", () => {
 				id: 1,
 				challenger_id: 123,
 				opponent_id: 456,
-				wager_amount: 10,
+				wager_amount_ujuno: 10_000_000,
 				loser_consequence: "jail",
 				consequence_duration: 60,
 				status: "pending",
@@ -379,7 +405,7 @@ describe("Duel Execution", () => {
 		mockAcquireLock.mockResolvedValue(true);
 		mockReleaseLock.mockResolvedValue(undefined);
 		mockGetUserBalance.mockResolvedValue(100);
-		mockTransferBetweenUsers.mockResolvedValue({
+		mockTransferBetweenUsers.mockReturnValue({
 			success: true,
 			fromBalance: 90,
 			toBalance: 110,
@@ -391,7 +417,7 @@ describe("Duel Execution", () => {
 			id: 1,
 			challenger_id: 123,
 			opponent_id: 456,
-			wager_amount: 10,
+			wager_amount_ujuno: 10_000_000,
 			status: "pending",
 		});
 
@@ -409,7 +435,7 @@ describe("Duel Execution", () => {
 			id: 1,
 			challenger_id: 123,
 			opponent_id: 456,
-			wager_amount: 10,
+			wager_amount_ujuno: 10_000_000,
 			status: "pending",
 		});
 		mockGetUserBalance.mockResolvedValue(5);
@@ -428,7 +454,7 @@ describe("Duel Execution", () => {
 			id: 1,
 			challenger_id: 123,
 			opponent_id: 456,
-			wager_amount: 10,
+			wager_amount_ujuno: 10_000_000,
 			status: "pending",
 		});
 		// First call for opponent check, second for challenger re-check
@@ -450,7 +476,7 @@ describe("Duel Execution", () => {
 			id: 1,
 			challenger_id: 123,
 			opponent_id: 456,
-			wager_amount: 10,
+			wager_amount_ujuno: 10_000_000,
 			status: "pending",
 		});
 		mockGetUserBalance.mockResolvedValue(100);
@@ -470,7 +496,7 @@ describe("Duel Execution", () => {
 			id: 1,
 			challenger_id: 123,
 			opponent_id: 456,
-			wager_amount: 10,
+			wager_amount_ujuno: 10_000_000,
 			status: "pending",
 		});
 		mockGetUserBalance.mockResolvedValue(100);
@@ -492,7 +518,7 @@ describe("Duel Execution", () => {
 			id: 1,
 			challenger_id: 123,
 			opponent_id: 456,
-			wager_amount: 10,
+			wager_amount_ujuno: 10_000_000,
 			loser_consequence: "none",
 			status: "pending",
 			chat_id: -100,
@@ -523,9 +549,64 @@ describe("Duel Execution", () => {
 		// Winner should be challenger (123) with higher roll
 		expect(mockTransferBetweenUsers).toHaveBeenCalledWith(
 			456,
+			-1,
+			10,
+			expect.any(String),
+			{ type: "duel_wager", denom: "ujuno" },
+		);
+		expect(mockTransferBetweenUsers).toHaveBeenCalledWith(
+			-1,
+			123,
+			10,
+			expect.any(String),
+			expect.objectContaining({ type: "duel_payout" }),
+		);
+	});
+
+	it("should link the payout to the wager and roll back the wager if the payout fails", async () => {
+		vi.mocked(get).mockReturnValue({
+			id: 1,
+			challenger_id: 123,
+			opponent_id: 456,
+			wager_amount_ujuno: 10_000_000,
+			loser_consequence: "none",
+			status: "pending",
+			chat_id: -100,
+		});
+		mockGenerateRollFn.mockReturnValue({
+			rollNumber: "500000000",
+			rollId: 1,
+			verificationHash: "abc123",
+		});
+		mockTransferBetweenUsers
+			.mockReturnValueOnce({ success: true, transactionId: 77 })
+			.mockReturnValueOnce({ success: false, error: "Treasury busy" });
+
+		const result = await DuelService.acceptAndExecuteDuel(
+			1,
+			456,
+			mockGenerateRollFn,
+		);
+
+		expect(result.success).toBe(false);
+		expect(mockTransferBetweenUsers).toHaveBeenNthCalledWith(
+			2,
+			-1,
 			123,
 			10,
 			expect.any(String),
+			{ type: "duel_payout", parentTransactionId: 77, denom: "ujuno" },
+		);
+		// Both legs run in one unit of work, which rolls the wager back
+		expect(withTransaction).toHaveBeenCalledTimes(1);
+		expect(vi.mocked(withTransaction).mock.results[0]).toEqual({
+			type: "throw",
+			value: new Error("Treasury busy"),
+		});
+		expect(mockTransferBetweenUsers).toHaveBeenCalledTimes(2);
+		expect(execute).not.toHaveBeenCalledWith(
+			expect.stringContaining("status = 'completed'"),
+			expect.anything(),
 		);
 	});
 
@@ -534,7 +615,7 @@ describe("Duel Execution", () => {
 			id: 1,
 			challenger_id: 123,
 			opponent_id: 456,
-			wager_amount: 10,
+			wager_amount_ujuno: 10_000_000,
 			loser_consequence: "none",
 			status: "pending",
 			chat_id: -100,
@@ -559,9 +640,17 @@ describe("Duel Execution", () => {
 		// Winner should be challenger (123) on tie
 		expect(mockTransferBetweenUsers).toHaveBeenCalledWith(
 			456, // loser
+			-1,
+			10,
+			expect.any(String),
+			{ type: "duel_wager", denom: "ujuno" },
+		);
+		expect(mockTransferBetweenUsers).toHaveBeenCalledWith(
+			-1,
 			123, // winner (challenger wins ties)
 			10,
 			expect.any(String),
+			expect.objectContaining({ type: "duel_payout" }),
 		);
 	});
 
@@ -570,7 +659,7 @@ describe("Duel Execution", () => {
 			id: 1,
 			challenger_id: 123,
 			opponent_id: 456,
-			wager_amount: 10,
+			wager_amount_ujuno: 10_000_000,
 			loser_consequence: "none",
 			status: "pending",
 			chat_id: -100,
@@ -622,9 +711,9 @@ describe("Duel Statistics", () => {
 	it("should calculate user duel stats", () => {
 		vi.mocked(get)
 			.mockReturnValueOnce({ total: 10, wins: 6, losses: 4 })
-			.mockReturnValueOnce({ total: 100 }) // wagered
-			.mockReturnValueOnce({ total: 80 }) // won
-			.mockReturnValueOnce({ total: 40 }); // lost
+			.mockReturnValueOnce({ total: 100_000_000 }) // wagered (ujuno)
+			.mockReturnValueOnce({ total: 80_000_000 }) // won
+			.mockReturnValueOnce({ total: 40_000_000 }); // lost
 
 		const stats = DuelService.getUserDuelStats(123);
 
@@ -661,7 +750,7 @@ describe("Duel Recent History", () => {
 				id: 3,
 				challenger_id: 123,
 				opponent_id: 456,
-				wager_amount: 10,
+				wager_amount_ujuno: 10_000_000,
 				loser_consequence: "none",
 				status: "completed",
 				winner_id: 123,
@@ -675,7 +764,7 @@ describe("Duel Recent History", () => {
 				id: 2,
 				challenger_id: 789,
 				opponent_id: 123,
-				wager_amount: 5,
+				wager_amount_ujuno: 5_000_000,
 				loser_consequence: "jail",
 				status: "completed",
 				winner_id: 789,
@@ -761,3 +850,38 @@ describe("Winner Determination Logic", () => {
 		expect(challengerNum > opponentNum).toBe(true);
 	});
 });
+
+describe("Duel Command Messages", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.mocked(get).mockReturnValue(undefined);
+	});
+
+	it("should show amounts with their symbol once", async () => {
+		const bot = new Telegraf("test-token");
+		bot.botInfo = { id: 1, is_bot: true, username: "testbot" } as any;
+		const callApi = vi
+			.spyOn(Telegram.prototype, "callApi")
+			.mockResolvedValue({ message_id: 1 } as any);
+		registerDuelCommands(bot);
+		mockGetUserBalance.mockResolvedValue(1);
+
+		await bot.handleUpdate({
+			update_id: 1,
+			message: {
+				message_id: 1,
+				date: 0,
+				chat: { id: 123, type: "private", first_name: "Challenger" },
+				from: { id: 123, is_bot: false, first_name: "Challenger" },
+				text: "/duel @alice 5",
+				entities: [{ type: "bot_command", offset: 0, length: 5 }],
+			},
+		} as any);
+
+		const [method, payload] = callApi.mock.calls[0] as [string, any];
+		callApi.mockRestore();
+		expect(method).toBe("sendMessage");
+		expect(payload.text).toContain("Your balance: 1.000000 JUNO\nWager: 5.000000 JUNO");
+		expect(payload.text).not.toContain("JUNO JUNO");
+	});
+});
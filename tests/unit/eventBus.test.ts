@@ -0,0 +1,312 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+/**
+ * Unit tests for the event bus and its subscribers
+ * Tests: src/services/eventBus.ts, src/subscribers/notifications.ts,
+ *        src/subscribers/logging.ts
+ */
+
+vi.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+  StructuredLogger: {
+    logError: vi.fn(),
+    logUserAction: vi.fn(),
+    logTransaction: vi.fn(),
+    logSecurityEvent: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/utils/adminNotify', () => ({
+  notifyAdmin: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock('../../src/utils/userResolver', () => ({
+  formatUserIdDisplay: (userId: number) => `User ${userId}`,
+}));
+
+import { EventBus } from '../../src/services/eventBus';
+import type { ModerationActionEvent } from '../../src/services/moderationActionService';
+import { registerAutoDeleteSubscribers } from '../../src/subscribers/autoDelete';
+import { registerLoggingSubscribers } from '../../src/subscribers/logging';
+import { registerNotificationSubscribers } from '../../src/subscribers/notifications';
+import { notifyAdmin } from '../../src/utils/adminNotify';
+import { StructuredLogger } from '../../src/utils/logger';
+
+const GROUP = -1001234567890;
+const USER = 555555555;
+const PAYER = 666666666;
+
+const bot = {
+  telegram: {
+    sendMessage: vi.fn().mockResolvedValue({}),
+    deleteMessage: vi.fn().mockResolvedValue(true),
+  },
+};
+
+const moderationEvent = (overrides: Partial<ModerationActionEvent>): ModerationActionEvent => ({
+  action: 'unjail',
+  userId: USER,
+  chatId: GROUP,
+  source: 'command',
+  reason: 'manual',
+  timestamp: Math.floor(Date.now() / 1000),
+  ...overrides,
+});
+
+describe('EventBus', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    EventBus.clear();
+  });
+
+  it('should run the handlers of an event in subscription order', async () => {
+    const calls: string[] = [];
+    EventBus.subscribe('user.jailed', () => {
+      calls.push('first');
+    });
+    EventBus.subscribe('user.jailed', async () => {
+      calls.push('second');
+    });
+    EventBus.subscribe('user.banned', () => {
+      calls.push('other');
+    });
+
+    await EventBus.publish('user.jailed', moderationEvent({ action: 'jail' }));
+
+    expect(calls).toEqual(['first', 'second']);
+  });
+
+  it('should stop calling a handler once unsubscribed', async () => {
+    const handler = vi.fn();
+    const unsubscribe = EventBus.subscribe('user.kicked', handler);
+
+    unsubscribe();
+    await EventBus.publish('user.kicked', moderationEvent({ action: 'kick' }));
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should log a failing handler and keep running the others', async () => {
+    const after = vi.fn();
+    EventBus.subscribe('user.muted', () => {
+      throw new Error('handler failed');
+    });
+    EventBus.subscribe('user.muted', after);
+
+    await expect(EventBus.publish('user.muted', moderationEvent({ action: 'mute' }))).resolves.toBeUndefined();
+
+    expect(after).toHaveBeenCalled();
+    expect(StructuredLogger.logError).toHaveBeenCalledWith(
+      expect.any(Error),
+      expect.objectContaining({ operation: 'event_handler_user.muted' }),
+    );
+  });
+
+  describe('notification subscribers', () => {
+    beforeEach(() => {
+      registerNotificationSubscribers(bot as any);
+    });
+
+    it('should tell the user their jail expired', async () => {
+      await EventBus.publish('user.unjailed', moderationEvent({ chatId: null, reason: 'jail_expired' }));
+
+      expect(bot.telegram.sendMessage).toHaveBeenCalledWith(USER, expect.stringContaining('in all groups again'));
+    });
+
+    it('should tell the user someone else paid their bail', async () => {
+      await EventBus.publish(
+        'user.unjailed',
+        moderationEvent({ reason: 'bail_paid', bailAmount: 2.5, paidByUserId: PAYER }),
+      );
+
+      expect(bot.telegram.sendMessage).toHaveBeenCalledWith(
+        USER,
+        expect.stringContaining(`User ${PAYER} paid your bail of 2.50 JUNO`),
+      );
+    });
+
+    it('should not notify users who paid their own bail or were released by an admin', async () => {
+      await EventBus.publish('user.unjailed', moderationEvent({ reason: 'bail_paid', paidByUserId: USER }));
+      await EventBus.publish('user.unjailed', moderationEvent({ reason: 'manual' }));
+
+      expect(bot.telegram.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should notify the user and admins of a warning escalation only', async () => {
+      await EventBus.publish('user.jailed', moderationEvent({ action: 'jail', reason: 'manual', durationMinutes: 10 }));
+      expect(bot.telegram.sendMessage).not.toHaveBeenCalled();
+
+      await EventBus.publish(
+        'user.jailed',
+        moderationEvent({
+          action: 'jail',
+          source: 'warnings',
+          reason: 'warning_escalation',
+          durationMinutes: 60,
+          bailAmount: 3,
+          metadata: { warnings: 3 },
+        }),
+      );
+
+      expect(bot.telegram.sendMessage).toHaveBeenCalledWith(
+        USER,
+        expect.stringContaining(`reached 3 warnings and have been jailed for 60 minutes in chat ${GROUP}`),
+      );
+      expect(notifyAdmin).toHaveBeenCalledWith(expect.stringContaining('reached 3 warnings'), GROUP);
+    });
+
+    it('should tell the challenger how their duel ended', async () => {
+      await EventBus.publish('duel.resolved', {
+        duelId: 7,
+        chatId: GROUP,
+        challengerId: USER,
+        opponentId: PAYER,
+        winnerId: PAYER,
+        loserId: USER,
+        wagerAmount: 1,
+        denom: 'ujuno',
+        consequence: 'none',
+        timestamp: Math.floor(Date.now() / 1000),
+      });
+
+      expect(bot.telegram.sendMessage).toHaveBeenCalledWith(USER, expect.stringContaining('You lost 1.000000 JUNO.'));
+    });
+
+    it('should tell admins whether a blacklisted user was banned', async () => {
+      await EventBus.publish(
+        'user.banned',
+        moderationEvent({ action: 'ban', source: 'screening', reason: 'blacklist', metadata: { trigger: 'join' } }),
+      );
+      await EventBus.publish('blacklist.failed', {
+        userId: USER,
+        chatId: GROUP,
+        trigger: 'message',
+        error: 'not enough rights',
+        timestamp: Math.floor(Date.now() / 1000),
+      });
+
+      expect(notifyAdmin).toHaveBeenNthCalledWith(
+        1,
+        `Blacklisted user ${USER} was banned from chat ${GROUP} (join).`,
+        GROUP,
+      );
+      expect(notifyAdmin).toHaveBeenNthCalledWith(
+        2,
+        expect.stringContaining(`Failed to ban blacklisted user ${USER} from chat ${GROUP} (message)`),
+        GROUP,
+      );
+    });
+
+    it('should alert admins of a stuck withdrawal batch', async () => {
+      await EventBus.publish('withdrawal.stuck', {
+        txHash: 'HASH',
+        requestIds: [1, 2],
+        attempts: 5,
+        error: 'timed out',
+        timestamp: Math.floor(Date.now() / 1000),
+      });
+
+      expect(notifyAdmin).toHaveBeenCalledWith(expect.stringContaining('Withdrawal transaction HASH keeps failing'));
+    });
+
+    it('should not fail when the user blocked the bot', async () => {
+      bot.telegram.sendMessage.mockRejectedValueOnce(new Error('Forbidden: bot was blocked by the user'));
+
+      await EventBus.publish('user.unjailed', moderationEvent({ reason: 'jail_expired' }));
+
+      expect(StructuredLogger.logError).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('auto-delete subscribers', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      registerAutoDeleteSubscribers(bot as any);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should delete a reply and its command once the timeout passes', async () => {
+      await EventBus.publish('reply.sent', {
+        chatId: GROUP,
+        messageId: 20,
+        commandMessageId: 19,
+        deleteAfterMs: 30000,
+        timestamp: Math.floor(Date.now() / 1000),
+      });
+
+      await vi.advanceTimersByTimeAsync(29999);
+      expect(bot.telegram.deleteMessage).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(bot.telegram.deleteMessage).toHaveBeenCalledWith(GROUP, 20);
+      expect(bot.telegram.deleteMessage).toHaveBeenCalledWith(GROUP, 19);
+    });
+
+    it('should keep the command when only the reply is sent for deletion', async () => {
+      await EventBus.publish('reply.sent', {
+        chatId: GROUP,
+        messageId: 21,
+        deleteAfterMs: 1000,
+        timestamp: Math.floor(Date.now() / 1000),
+      });
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(bot.telegram.deleteMessage).toHaveBeenCalledTimes(1);
+      expect(bot.telegram.deleteMessage).toHaveBeenCalledWith(GROUP, 21);
+    });
+  });
+
+  describe('logging subscribers', () => {
+    beforeEach(() => {
+      registerLoggingSubscribers();
+    });
+
+    it('should log moderation actions', async () => {
+      await EventBus.publish('user.banned', moderationEvent({ action: 'ban', source: 'automod', reason: 'flood' }));
+
+      expect(StructuredLogger.logSecurityEvent).toHaveBeenCalledWith(
+        'Moderation action',
+        expect.objectContaining({ userId: USER, operation: 'moderation_ban', source: 'automod', reason: 'flood' }),
+      );
+    });
+
+    it('should log violations and completed withdrawals', async () => {
+      await EventBus.publish('violation.created', {
+        violationId: 1,
+        userId: USER,
+        restriction: 'no_stickers',
+        chatId: GROUP,
+        fineAmount: 0.5,
+        timestamp: Math.floor(Date.now() / 1000),
+      });
+      await EventBus.publish('withdrawal.completed', {
+        withdrawalId: 3,
+        userId: USER,
+        amount: 4,
+        denom: 'ujuno',
+        toAddress: 'juno1dest',
+        txHash: 'HASH',
+        timestamp: Math.floor(Date.now() / 1000),
+      });
+
+      expect(StructuredLogger.logSecurityEvent).toHaveBeenCalledWith(
+        'Violation created',
+        expect.objectContaining({ userId: USER, amount: '0.5' }),
+      );
+      expect(StructuredLogger.logTransaction).toHaveBeenCalledWith(
+        'Withdrawal confirmed',
+        expect.objectContaining({ userId: USER, amount: '4', txHash: 'HASH' }),
+      );
+    });
+  });
+});
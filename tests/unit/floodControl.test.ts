@@ -0,0 +1,237 @@
+import { vi, describe, it, expect, beforeEach, beforeAll, afterAll } from 'vitest';
+/**
+ * Unit tests for anti-flood detection
+ * Tests: src/services/floodService.ts, src/middleware/floodControl.ts
+ */
+
+import { Context } from 'telegraf';
+import {
+  initTestDatabase,
+  cleanTestDatabase,
+  closeTestDatabase,
+  createTestUser,
+  getTestDatabase,
+} from '../helpers/testDatabase';
+import { createAdminContext, createPlebContext, getReplyText } from '../helpers/mockContext';
+
+// Mock database module
+vi.mock('../../src/database', async () => {
+  const testDb = await import('../helpers/testDatabase');
+  return {
+    query: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).all(...params),
+    get: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).get(...params),
+    execute: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).run(...params),
+  };
+});
+
+vi.mock('../../src/config', () => ({
+  config: {
+    groupChatId: -1001234567890,
+    adminChatId: -9000,
+  },
+}));
+
+vi.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+  StructuredLogger: {
+    logError: vi.fn(),
+    logUserAction: vi.fn(),
+    logTransaction: vi.fn(),
+    logSecurityEvent: vi.fn(),
+  },
+}));
+
+import { FloodService, DEFAULT_FLOOD_SETTINGS } from '../../src/services/floodService';
+import { ChatService } from '../../src/services/chatService';
+import { floodControlMiddleware, toFloodMessage } from '../../src/middleware/floodControl';
+
+const GROUP = -1001234567890;
+const ADMIN = 222222222;
+const PLEB = 444444444;
+
+const text = (messageId: number, body = `message ${messageId}`) => ({
+  messageId,
+  fingerprint: `text:${body}`,
+  isMedia: false,
+});
+
+const sticker = (messageId: number) => ({
+  messageId,
+  fingerprint: `media:sticker${messageId}`,
+  isMedia: true,
+});
+
+describe('Anti-flood', () => {
+  beforeAll(() => {
+    initTestDatabase();
+  });
+
+  beforeEach(() => {
+    cleanTestDatabase();
+    createTestUser(ADMIN, 'admin', 'admin');
+    createTestUser(PLEB, 'pleb', 'pleb');
+    FloodService.reset();
+    vi.clearAllMocks();
+  });
+
+  afterAll(() => {
+    closeTestDatabase();
+  });
+
+  describe('FloodService.recordMessage', () => {
+    it('should report the burst once the message limit is exceeded', () => {
+      const now = 1_000_000;
+      for (let i = 1; i <= DEFAULT_FLOOD_SETTINGS.messageLimit; i++) {
+        expect(FloodService.recordMessage(GROUP, PLEB, text(i), now + i)).toBeNull();
+      }
+
+      const breach = FloodService.recordMessage(GROUP, PLEB, text(9), now + 9);
+
+      expect(breach).toEqual({ reason: 'messages', messageIds: [1, 2, 3, 4, 5, 6, 7, 8, 9] });
+      // The window is cleared after a breach
+      expect(FloodService.recordMessage(GROUP, PLEB, text(10), now + 10)).toBeNull();
+    });
+
+    it('should forget messages outside the window', () => {
+      const now = 1_000_000;
+      for (let i = 1; i <= DEFAULT_FLOOD_SETTINGS.messageLimit; i++) {
+        FloodService.recordMessage(GROUP, PLEB, text(i), now);
+      }
+
+      const later = now + DEFAULT_FLOOD_SETTINGS.messageWindowSeconds * 1000;
+      expect(FloodService.recordMessage(GROUP, PLEB, text(9), later)).toBeNull();
+    });
+
+    it('should detect repeated messages', () => {
+      const now = 1_000_000;
+      for (let i = 1; i <= 3; i++) {
+        expect(FloodService.recordMessage(GROUP, PLEB, text(i, 'buy now'), now + i * 5000)).toBeNull();
+      }
+
+      const breach = FloodService.recordMessage(GROUP, PLEB, text(4, 'buy now'), now + 20000);
+
+      expect(breach).toEqual({ reason: 'duplicates', messageIds: [1, 2, 3, 4] });
+    });
+
+    it('should detect media bursts', () => {
+      const now = 1_000_000;
+      for (let i = 1; i <= 5; i++) {
+        FloodService.recordMessage(GROUP, PLEB, sticker(i), now + i * 2000);
+      }
+
+      const breach = FloodService.recordMessage(GROUP, PLEB, sticker(6), now + 12000);
+
+      expect(breach?.reason).toBe('media');
+      expect(breach?.messageIds).toHaveLength(6);
+    });
+
+    it('should track users and chats separately', () => {
+      const now = 1_000_000;
+      for (let i = 1; i <= 8; i++) {
+        FloodService.recordMessage(GROUP, PLEB, text(i), now);
+        FloodService.recordMessage(GROUP, ADMIN, text(100 + i), now);
+        FloodService.recordMessage(-1009999, PLEB, text(200 + i), now);
+      }
+
+      expect(FloodService.recordMessage(-1009999, ADMIN, text(300), now)).toBeNull();
+    });
+
+    it('should apply changed thresholds', () => {
+      FloodService.setSetting('messageLimit', 2, ADMIN);
+
+      FloodService.recordMessage(GROUP, PLEB, text(1));
+      FloodService.recordMessage(GROUP, PLEB, text(2));
+
+      expect(FloodService.recordMessage(GROUP, PLEB, text(3))?.reason).toBe('messages');
+      expect(FloodService.getSettings()).toEqual({ ...DEFAULT_FLOOD_SETTINGS, messageLimit: 2 });
+    });
+
+    it('should reject invalid thresholds', () => {
+      expect(() => FloodService.setSetting('mediaLimit', 0, ADMIN)).toThrow(/positive whole number/);
+      expect(() => FloodService.setSetting('muteMinutes', 1.5, ADMIN)).toThrow(/positive whole number/);
+    });
+  });
+
+  describe('toFloodMessage', () => {
+    it('should fingerprint normalized text and media', () => {
+      expect(toFloodMessage({ message_id: 1, text: '  Buy   NOW ' } as any)).toEqual({
+        messageId: 1,
+        fingerprint: 'text:buy now',
+        isMedia: false,
+      });
+      expect(toFloodMessage({ message_id: 2, sticker: { file_unique_id: 'abc' } } as any)).toEqual({
+        messageId: 2,
+        fingerprint: 'media:abc',
+        isMedia: true,
+      });
+    });
+  });
+
+  describe('floodControlMiddleware', () => {
+    const send = async (ctx: Partial<Context>) => {
+      (ctx.telegram as any).deleteMessages = vi.fn().mockResolvedValue(true);
+      const next = vi.fn();
+      await floodControlMiddleware(ctx as Context, next);
+      return next;
+    };
+
+    it('should delete the burst and mute the flooding user', async () => {
+      FloodService.setSetting('duplicateLimit', 1, ADMIN);
+
+      const first = await send(createPlebContext({ messageText: 'spam', messageId: 1 }));
+      expect(first).toHaveBeenCalled();
+
+      const ctx = createPlebContext({ messageText: 'spam', messageId: 2 });
+      const next = await send(ctx);
+
+      expect(next).not.toHaveBeenCalled();
+      expect((ctx.telegram as any).deleteMessages).toHaveBeenCalledWith(GROUP, [1, 2]);
+      expect(ctx.telegram!.restrictChatMember).toHaveBeenCalledWith(
+        GROUP,
+        PLEB,
+        expect.objectContaining({ until_date: expect.any(Number) }),
+      );
+      expect(getReplyText(ctx)).toContain('MUTED - Repeated Messages');
+      expect(getReplyText(ctx)).toContain('30 minutes');
+
+      const jail = getTestDatabase()
+        .prepare('SELECT chat_id FROM user_jails WHERE user_id = ?')
+        .get(PLEB) as { chat_id: number };
+      expect(jail.chat_id).toBe(GROUP);
+    });
+
+    it('should exempt admins', async () => {
+      FloodService.setSetting('duplicateLimit', 1, ADMIN);
+
+      await send(createAdminContext({ messageText: 'spam', messageId: 1 }));
+      const next = await send(createAdminContext({ messageText: 'spam', messageId: 2 }));
+
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('should ignore chats with the antiflood feature disabled', async () => {
+      FloodService.setSetting('duplicateLimit', 1, ADMIN);
+      ChatService.registerChat(GROUP);
+      ChatService.setFeatureEnabled(GROUP, 'antiflood', false, ADMIN);
+
+      await send(createPlebContext({ messageText: 'spam', messageId: 1 }));
+      const next = await send(createPlebContext({ messageText: 'spam', messageId: 2 }));
+
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('should ignore private chats', async () => {
+      FloodService.setSetting('duplicateLimit', 1, ADMIN);
+
+      await send(createPlebContext({ messageText: 'spam', chatType: 'private', chatId: PLEB }));
+      const next = await send(createPlebContext({ messageText: 'spam', chatType: 'private', chatId: PLEB }));
+
+      expect(next).toHaveBeenCalled();
+    });
+  });
+});
@@ -51,7 +51,7 @@ vi.mock("../../src/services/ledgerService", () => ({
 	LedgerService: {
 		getUserBalance: (...args: unknown[]) => mockGetUserBalance(...args),
 		transferBetweenUsers: (...args: unknown[]) => mockTransferBetweenUsers(...args),
-		ensureUserBalance: vi.fn(() => Promise.resolve()),
+		ensureUserBalance: vi.fn(),
 	},
 	TransactionType: {
 		DEPOSIT: "deposit",
@@ -108,6 +108,8 @@ import { get, execute } from "../../src/database";
 import {
 	checkWin,
 	generateRollNumber,
+	computeRoll,
+	verifyRoll,
 	initializeRollSystem,
 	getServerSeedCommitment,
 	rotateServerSeed,
@@ -250,7 +252,6 @@ describe("Roll System Initialization", () => {
 	it("should restore state from database if present", async () => {
 		// Mock existing state in database
 		vi.mocked(get)
-			.mockReturnValueOnce({ value: "existing_hash_chain_abc123" })
 			.mockReturnValueOnce({ value: "42" })
 			.mockReturnValueOnce({ value: "existing_server_seed" })
 			.mockReturnValueOnce({ value: "existing_seed_hash_xyz789" });
@@ -387,6 +388,95 @@ describe("Roll Number Generation", () => {
 	});
 });
 
+describe("Provably Fair Roll Verification", () => {
+	beforeEach(async () => {
+		vi.clearAllMocks();
+		vi.mocked(get).mockReturnValue(undefined);
+		vi.mocked(execute).mockReturnValue({ lastInsertRowid: 1, changes: 1 });
+		await initializeRollSystem();
+	});
+
+	it("should compute rolls deterministically from seed, client seed and nonce", () => {
+		const roll = computeRoll("server-seed", "client-seed", 7);
+
+		expect(roll).toMatch(/^\d{9}$/);
+		expect(computeRoll("server-seed", "client-seed", 7)).toBe(roll);
+		expect(computeRoll("server-seed", "client-seed", 8)).not.toBe(roll);
+		expect(computeRoll("server-seed", "other-seed", 7)).not.toBe(roll);
+	});
+
+	it("should be reproducible from the revealed seed after rotation", () => {
+		const result = generateRollNumber(1000000000, 123456, 100, "my lucky seed");
+		const { oldSeed, oldHash } = rotateServerSeed();
+
+		expect(result.clientSeed).toBe("my lucky seed");
+		expect(result.serverSeedHash).toBe(oldHash);
+		expect(computeRoll(oldSeed, "my lucky seed", result.rollId)).toBe(result.rollNumber);
+	});
+
+	it("should store the roll inputs and reveal the old seed", () => {
+		const result = generateRollNumber(1000000000, 123456, 100);
+		const { oldSeed, oldHash } = rotateServerSeed();
+
+		expect(result.clientSeed).toBe("123456:100:1000000000");
+		expect(execute).toHaveBeenCalledWith(expect.stringContaining("INSERT INTO rolls"), [
+			result.rollId,
+			123456,
+			oldHash,
+			result.clientSeed,
+			result.rollId,
+			result.rollNumber,
+		]);
+		expect(execute).toHaveBeenCalledWith(expect.stringContaining("INSERT OR IGNORE INTO roll_seed_history"), [
+			oldHash,
+			oldSeed,
+		]);
+	});
+
+	it("should verify a roll once its seed is revealed", () => {
+		const result = generateRollNumber(1000000000, 123456, 100);
+		const { oldSeed, oldHash } = rotateServerSeed();
+		vi.mocked(get)
+			.mockReturnValueOnce({
+				id: result.rollId,
+				user_id: 123456,
+				server_seed_hash: oldHash,
+				client_seed: result.clientSeed,
+				nonce: result.rollId,
+				roll_number: result.rollNumber,
+				created_at: 1000000000,
+			})
+			.mockReturnValueOnce({ server_seed: oldSeed });
+
+		const verification = verifyRoll(result.rollId);
+
+		expect(verification?.serverSeed).toBe(oldSeed);
+		expect(verification?.seedMatchesCommitment).toBe(true);
+		expect(verification?.recomputedRoll).toBe(result.rollNumber);
+	});
+
+	it("should not reveal anything while the seed is still in use", () => {
+		const result = generateRollNumber(1000000000, 123456, 100);
+		vi.mocked(get)
+			.mockReturnValueOnce({
+				id: result.rollId,
+				user_id: 123456,
+				server_seed_hash: result.serverSeedHash,
+				client_seed: result.clientSeed,
+				nonce: result.rollId,
+				roll_number: result.rollNumber,
+				created_at: 1000000000,
+			})
+			.mockReturnValueOnce(undefined);
+
+		const verification = verifyRoll(result.rollId);
+
+		expect(verification?.serverSeed).toBeNull();
+		expect(verification?.recomputedRoll).toBeNull();
+		expect(verifyRoll(999)).toBeNull();
+	});
+});
+
 describe("Roll Game Bet Validation", () => {
 	// Using imported MIN_BET and MAX_BET from gambling.ts
 
@@ -51,7 +51,12 @@ vi.mock('../../src/services/ledgerService', () => ({
 			fromBalance: 900,
 			toBalance: 100,
 		})),
-		ensureUserBalance: vi.fn(() => Promise.resolve()),
+		ensureUserBalance: vi.fn(),
+		getEscrowLockId: vi.fn(() => 1),
+	},
+	TransactionType: {
+		ESCROW_LOCK: 'escrow_lock',
+		ESCROW_RELEASE: 'escrow_release',
 	},
 }));
 
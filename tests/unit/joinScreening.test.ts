@@ -0,0 +1,250 @@
+import { vi, describe, it, expect, beforeEach, afterEach, beforeAll, afterAll, Mock } from 'vitest';
+/**
+ * Unit tests for join screening and blacklist enforcement
+ * Tests: src/services/joinScreeningService.ts, src/middleware/messageFilter.ts
+ */
+
+import { Context, Telegram } from 'telegraf';
+import {
+  initTestDatabase,
+  cleanTestDatabase,
+  closeTestDatabase,
+  createTestUsers,
+  getTestDatabase,
+} from '../helpers/testDatabase';
+import { createMockContext } from '../helpers/mockContext';
+
+// Mock database module
+vi.mock('../../src/database', async () => {
+  const testDb = await import('../helpers/testDatabase');
+  return {
+    query: (sql: string, params: any[] = []) => {
+      const db = testDb.getTestDatabase();
+      return db.prepare(sql).all(...params);
+    },
+    get: (sql: string, params: any[] = []) => {
+      const db = testDb.getTestDatabase();
+      return db.prepare(sql).get(...params);
+    },
+    execute: (sql: string, params: any[] = []) => {
+      const db = testDb.getTestDatabase();
+      return db.prepare(sql).run(...params);
+    },
+  };
+});
+
+vi.mock('../../src/config', () => ({
+  config: {
+    botToken: 'test-token',
+    groupChatId: -1001234567890,
+    ownerIds: [111111111],
+    adminIds: [],
+  },
+  validateConfig: vi.fn(),
+}));
+
+vi.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+  StructuredLogger: {
+    logError: vi.fn(),
+    logUserAction: vi.fn(),
+    logTransaction: vi.fn(),
+    logSecurityEvent: vi.fn(),
+    logDebug: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/utils/adminNotify', () => ({
+  notifyAdmin: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock('../../src/services/restrictionService', () => ({
+  RestrictionService: {
+    checkMessage: vi.fn().mockResolvedValue(false),
+  },
+}));
+
+import { EventBus } from '../../src/services/eventBus';
+import { JoinScreeningService } from '../../src/services/joinScreeningService';
+import { messageFilterMiddleware } from '../../src/middleware/messageFilter';
+import { StructuredLogger } from '../../src/utils/logger';
+
+const GROUP_ID = -1001234567890;
+
+function createTelegram(): Telegram {
+  return {
+    banChatMember: vi.fn().mockResolvedValue(true),
+  } as unknown as Telegram;
+}
+
+function blacklist(userId: number): void {
+  getTestDatabase().prepare('UPDATE users SET blacklist = 1 WHERE id = ?').run(userId);
+}
+
+function getBanEvents(userId: number): any[] {
+  return getTestDatabase()
+    .prepare("SELECT * FROM jail_events WHERE user_id = ? AND event_type = 'banned'")
+    .all(userId);
+}
+
+describe('Join Screening', () => {
+  beforeAll(() => {
+    initTestDatabase();
+  });
+
+  beforeEach(() => {
+    cleanTestDatabase();
+    createTestUsers();
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    EventBus.clear();
+  });
+
+  afterAll(() => {
+    closeTestDatabase();
+  });
+
+  describe('screenMember', () => {
+    it('should ban a blacklisted user on join and audit it', async () => {
+      blacklist(444444444);
+      const telegram = createTelegram();
+      const banned = vi.fn();
+      EventBus.subscribe('user.banned', banned);
+
+      const outcome = await JoinScreeningService.screenMember(telegram, GROUP_ID, {
+        id: 444444444,
+        is_bot: false,
+        first_name: 'Pleb',
+      });
+
+      expect(outcome).toBe('handled');
+      expect(telegram.banChatMember).toHaveBeenCalledWith(GROUP_ID, 444444444);
+
+      const events = getBanEvents(444444444);
+      expect(events).toHaveLength(1);
+      expect(events[0].chat_id).toBe(GROUP_ID);
+      expect(JSON.parse(events[0].metadata)).toMatchObject({
+        source: 'screening',
+        reason: 'blacklist',
+        trigger: 'join',
+      });
+      expect(banned).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 444444444, chatId: GROUP_ID, source: 'screening', reason: 'blacklist' }),
+      );
+    });
+
+    it('should let non-blacklisted users through', async () => {
+      const telegram = createTelegram();
+
+      const outcome = await JoinScreeningService.screenMember(telegram, GROUP_ID - 1, {
+        id: 555555555,
+        is_bot: false,
+        first_name: 'Test',
+      });
+
+      expect(outcome).toBe('pass');
+      expect(telegram.banChatMember).not.toHaveBeenCalled();
+    });
+
+    it('should ignore a duplicate join update for the same member', async () => {
+      blacklist(555555555);
+      const telegram = createTelegram();
+      const member = { id: 555555555, is_bot: false, first_name: 'Test' };
+
+      await JoinScreeningService.screenMember(telegram, GROUP_ID - 2, member);
+      await JoinScreeningService.screenMember(telegram, GROUP_ID - 2, member);
+
+      expect(telegram.banChatMember).toHaveBeenCalledTimes(1);
+    });
+
+    it('should run registered screens after the blacklist check', async () => {
+      const run = vi.fn().mockResolvedValue('pass');
+      JoinScreeningService.registerScreen({ name: 'test_screen', run });
+      const telegram = createTelegram();
+
+      await JoinScreeningService.screenMember(telegram, GROUP_ID - 3, {
+        id: 444444444,
+        is_bot: false,
+        first_name: 'Pleb',
+      });
+
+      expect(run).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('isBlacklisted', () => {
+    it('should never treat admins as blacklisted', () => {
+      blacklist(222222222);
+      expect(JoinScreeningService.isBlacklisted(222222222)).toBe(false);
+    });
+  });
+
+  describe('enforceBlacklist', () => {
+    it('should not audit a ban that Telegram rejected', async () => {
+      const telegram = {
+        banChatMember: vi.fn().mockRejectedValue(new Error('not enough rights')),
+      } as unknown as Telegram;
+
+      const ok = await JoinScreeningService.enforceBlacklist(telegram, GROUP_ID, 444444444, 'join');
+
+      expect(ok).toBe(false);
+      expect(getBanEvents(444444444)).toHaveLength(0);
+      expect(StructuredLogger.logError).toHaveBeenCalledWith(
+        expect.any(Error),
+        expect.objectContaining({ operation: 'moderation_ban', chatId: GROUP_ID }),
+      );
+    });
+  });
+
+  describe('enforceBlacklistRetroactively', () => {
+    it('should ban from the configured group and the current chat', async () => {
+      const telegram = createTelegram();
+
+      const banned = await JoinScreeningService.enforceBlacklistRetroactively(
+        telegram,
+        444444444,
+        222222222,
+        -100999,
+      );
+
+      expect(banned).toBe(2);
+      expect(telegram.banChatMember).toHaveBeenCalledWith(GROUP_ID, 444444444);
+      expect(telegram.banChatMember).toHaveBeenCalledWith(-100999, 444444444);
+      expect(getBanEvents(444444444)[0].admin_id).toBe(222222222);
+    });
+  });
+
+  describe('messageFilterMiddleware', () => {
+    it('should delete the message and ban a blacklisted user who posts', async () => {
+      blacklist(444444444);
+      const ctx = createMockContext({ userId: 444444444, username: 'pleb', chatId: GROUP_ID });
+      (ctx.telegram as any).banChatMember = vi.fn().mockResolvedValue(true);
+      const next = vi.fn();
+
+      await messageFilterMiddleware(ctx as Context, next);
+
+      expect(ctx.deleteMessage).toHaveBeenCalled();
+      expect((ctx.telegram as any).banChatMember).toHaveBeenCalledWith(GROUP_ID, 444444444);
+      expect(next).not.toHaveBeenCalled();
+      expect(JSON.parse(getBanEvents(444444444)[0].metadata).trigger).toBe('message');
+    });
+
+    it('should not act on blacklisted users in private chats', async () => {
+      blacklist(444444444);
+      const ctx = createMockContext({ userId: 444444444, chatType: 'private', chatId: 444444444 });
+      const next = vi.fn();
+
+      await messageFilterMiddleware(ctx as Context, next);
+
+      expect(next).toHaveBeenCalled();
+      expect(getBanEvents(444444444)).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,226 @@
+import { vi, describe, it, expect, beforeEach, beforeAll, afterAll } from 'vitest';
+/**
+ * Unit tests for the double-entry journal and ledger audit
+ * Tests: src/services/ledgerService.ts (postings), src/services/ledgerAudit.ts
+ */
+
+import {
+  initTestDatabase,
+  cleanTestDatabase,
+  closeTestDatabase,
+  createTestUser,
+  createTestUsers,
+  addTestBalance,
+  getTestBalance,
+  getTestDatabase,
+} from '../helpers/testDatabase';
+
+// Mock database module
+vi.mock('../../src/database', async () => {
+  const testDb = await import('../helpers/testDatabase');
+  return {
+    query: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).all(...params),
+    get: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).get(...params),
+    execute: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).run(...params),
+    withTransaction: testDb.withTestTransaction,
+  };
+});
+
+vi.mock('../../src/config', () => ({
+  config: {
+    groupChatId: -1001234567890,
+    adminChatId: -9000,
+  },
+}));
+
+vi.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+  StructuredLogger: {
+    logError: vi.fn(),
+    logUserAction: vi.fn(),
+    logTransaction: vi.fn(),
+    logSecurityEvent: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/utils/adminNotify', () => ({
+  notifyAdmin: vi.fn(),
+}));
+
+import { EXTERNAL_ACCOUNT_ID, LedgerService, TransactionType } from '../../src/services/ledgerService';
+import { LedgerAuditService } from '../../src/services/ledgerAudit';
+import { openingBalancesMigration } from '../../src/migrations/openingBalances';
+import { EventBus } from '../../src/services/eventBus';
+import { registerNotificationSubscribers } from '../../src/subscribers/notifications';
+import { notifyAdmin } from '../../src/utils/adminNotify';
+
+const PLEB = 444444444;
+const OTHER = 555555555;
+const TREASURY = -1;
+const RESERVE = -2;
+const ESCROW = -1007;
+const SHARED = -100;
+
+const mockBot = {
+  telegram: {
+    sendMessage: vi.fn().mockResolvedValue({}),
+  },
+};
+
+function postings(): { transaction_id: number; account_id: number; amount_ujuno: number }[] {
+  return getTestDatabase()
+    .prepare('SELECT transaction_id, account_id, amount_ujuno FROM ledger_postings ORDER BY id')
+    .all() as { transaction_id: number; account_id: number; amount_ujuno: number }[];
+}
+
+describe('double-entry ledger', () => {
+  beforeAll(() => {
+    initTestDatabase();
+    registerNotificationSubscribers(mockBot as any);
+  });
+
+  afterAll(() => {
+    EventBus.clear();
+    closeTestDatabase();
+  });
+
+  beforeEach(() => {
+    cleanTestDatabase();
+    createTestUsers();
+    for (const id of [TREASURY, RESERVE, ESCROW, SHARED]) {
+      createTestUser(id, `account${id}`, 'system');
+    }
+    vi.clearAllMocks();
+  });
+
+  describe('journal postings', () => {
+    it('should write balanced postings for every ledger operation', async () => {
+      await LedgerService.processDeposit(PLEB, 10, 'juno1sender', 'HASH1');
+      await LedgerService.transferBetweenUsers(PLEB, OTHER, 2);
+      await LedgerService.transferBetweenUsers(PLEB, ESCROW, 3, 'Giveaway #7 escrow funding', {
+        type: TransactionType.ESCROW_LOCK,
+      });
+      await LedgerService.processWithdrawal(PLEB, 1, 'juno1dest');
+      await LedgerService.processFine(OTHER, 0.5);
+      await LedgerService.processBail(OTHER, PLEB, 0.25);
+      await LedgerService.processGiveaway(OTHER, 1);
+      await LedgerService.processAdjustment(RESERVE, -0.1, 'Gas', { type: TransactionType.GAS_FEE });
+
+      const rows = postings();
+      const perTransaction = new Map<number, number>();
+      for (const row of rows) {
+        perTransaction.set(row.transaction_id, (perTransaction.get(row.transaction_id) ?? 0) + row.amount_ujuno);
+      }
+
+      expect(perTransaction.size).toBe(8);
+      expect([...perTransaction.values()].every((total) => total === 0)).toBe(true);
+      expect(LedgerService.getUserBalanceMicro(PLEB)).toBe(4_000_000);
+      expect(LedgerService.getUserBalanceMicro(RESERVE)).toBe(-100_000);
+
+      const report = LedgerAuditService.audit();
+      expect(report.clean).toBe(true);
+      // 10 deposited + 1 giveaway - 1 withdrawn - 0.5 fine - 0.25 bail - 0.1 gas
+      expect(report.externalMicro).toBe(9_150_000);
+    });
+
+    it('should post transfers between the two accounts only', async () => {
+      await LedgerService.processDeposit(PLEB, 5, 'juno1sender', 'HASH2');
+      const { transactionId } = await LedgerService.transferBetweenUsers(PLEB, TREASURY, 2);
+
+      expect(postings().filter((row) => row.transaction_id === transactionId)).toEqual([
+        { transaction_id: transactionId, account_id: PLEB, amount_ujuno: -2_000_000 },
+        { transaction_id: transactionId, account_id: TREASURY, amount_ujuno: 2_000_000 },
+      ]);
+      expect(postings().some((row) => row.account_id === EXTERNAL_ACCOUNT_ID)).toBe(true);
+    });
+
+    it('should roll back the balances and transaction when a posting fails', async () => {
+      await LedgerService.processDeposit(PLEB, 5, 'juno1sender', 'HASH3');
+      const db = getTestDatabase();
+      const before = (db.prepare('SELECT COUNT(*) AS c FROM transactions').get() as { c: number }).c;
+
+      db.exec(`
+        CREATE TEMP TRIGGER fail_posting BEFORE INSERT ON ledger_postings
+        WHEN NEW.account_id = ${OTHER}
+        BEGIN SELECT RAISE(ABORT, 'disk full'); END;
+      `);
+      try {
+        const result = await LedgerService.transferBetweenUsers(PLEB, OTHER, 2);
+        expect(result.success).toBe(false);
+      } finally {
+        db.exec('DROP TRIGGER fail_posting');
+      }
+
+      expect(getTestBalance(PLEB)).toBe(5);
+      expect(getTestBalance(OTHER)).toBe(0);
+      expect((db.prepare('SELECT COUNT(*) AS c FROM transactions').get() as { c: number }).c).toBe(before);
+      expect(LedgerAuditService.audit().clean).toBe(true);
+    });
+  });
+
+  describe('audit', () => {
+    it('should report drift per account with readable labels', async () => {
+      getTestDatabase()
+        .prepare('INSERT INTO shared_accounts (id, name, created_by) VALUES (?, ?, ?)')
+        .run(SHARED, 'events', 111111111);
+      await LedgerService.processDeposit(PLEB, 5, 'juno1sender', 'HASH4');
+      addTestBalance(PLEB, 1);
+      addTestBalance(RESERVE, 2);
+      addTestBalance(ESCROW, 3);
+      addTestBalance(SHARED, 4);
+
+      const report = LedgerAuditService.audit();
+
+      expect(report.clean).toBe(false);
+      expect(report.drifts.map((drift) => [drift.label, drift.driftMicro])).toEqual([
+        ['Giveaway #7 escrow (-1007)', 3_000_000],
+        ['Shared account "events" (-100)', 4_000_000],
+        ['System reserve (-2)', 2_000_000],
+        [`User ${PLEB}`, 1_000_000],
+      ]);
+      expect(LedgerAuditService.formatReport(report)).toContain('Balance drift (4)');
+
+      getTestDatabase().prepare('DELETE FROM shared_accounts WHERE id = ?').run(SHARED);
+    });
+
+    it('should report entries whose postings do not balance', async () => {
+      await LedgerService.processDeposit(PLEB, 5, 'juno1sender', 'HASH6');
+      const transactionId = postings()[0].transaction_id;
+      getTestDatabase()
+        .prepare('INSERT INTO ledger_postings (transaction_id, account_id, amount_ujuno) VALUES (?, ?, ?)')
+        .run(transactionId, EXTERNAL_ACCOUNT_ID, 5);
+
+      const report = LedgerAuditService.audit();
+
+      expect(report.unbalancedTransactions).toEqual([{ transactionId, denom: 'ujuno', totalMicro: 5 }]);
+      expect(report.drifts).toEqual([]);
+    });
+
+    it('should only alert admins when drift is found', async () => {
+      await LedgerService.processDeposit(PLEB, 5, 'juno1sender', 'HASH5');
+      await LedgerAuditService.auditAndAlert();
+      expect(notifyAdmin).not.toHaveBeenCalled();
+
+      addTestBalance(TREASURY, 1);
+      await LedgerAuditService.auditAndAlert();
+      expect(notifyAdmin).toHaveBeenCalledWith(expect.stringContaining('Bot treasury (-1)'));
+    });
+
+    it('should be clean after opening the journal from cached balances', () => {
+      addTestBalance(PLEB, 3);
+      addTestBalance(RESERVE, -1);
+      expect(LedgerAuditService.audit().clean).toBe(false);
+
+      openingBalancesMigration.up(getTestDatabase());
+
+      const report = LedgerAuditService.audit();
+      expect(report.clean).toBe(true);
+      expect(report.externalMicro).toBe(2_000_000);
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+/**
+ * Unit tests for the integer ujuno ledger migration
+ * Tests: src/migrations/index.ts, src/migrations/integerLedger.ts
+ */
+
+import Database from 'better-sqlite3';
+
+vi.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+import { runSchemaMigrations } from '../../src/migrations';
+import { integerLedgerMigration } from '../../src/migrations/integerLedger';
+
+// Later migrations are covered by their own tests
+const LEDGER_ONLY = [integerLedgerMigration];
+
+/**
+ * Creates the ledger tables as they existed before the migration (REAL JUNO columns)
+ */
+function createLegacySchema(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE users (id INTEGER PRIMARY KEY, username TEXT);
+
+    CREATE TABLE user_balances (
+      user_id INTEGER PRIMARY KEY,
+      balance REAL DEFAULT 0,
+      last_updated INTEGER DEFAULT (strftime('%s', 'now')),
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE transactions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      transaction_type TEXT NOT NULL,
+      from_user_id INTEGER,
+      to_user_id INTEGER,
+      amount REAL NOT NULL,
+      balance_after REAL,
+      description TEXT
+    );
+
+    CREATE TABLE giveaways (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      total_amount REAL NOT NULL,
+      amount_per_slot REAL NOT NULL,
+      total_slots INTEGER NOT NULL
+    );
+
+    CREATE TABLE giveaway_claims (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      giveaway_id INTEGER NOT NULL,
+      user_id INTEGER NOT NULL,
+      amount REAL NOT NULL
+    );
+
+    CREATE TABLE duels (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      challenger_id INTEGER NOT NULL,
+      opponent_id INTEGER NOT NULL,
+      wager_amount REAL NOT NULL
+    );
+
+    CREATE INDEX idx_user_balances_balance ON user_balances(balance);
+  `);
+}
+
+function columnNames(db: Database.Database, table: string): string[] {
+  return (db.pragma(`table_info(${table})`) as { name: string }[]).map((c) => c.name);
+}
+
+describe('Integer ledger migration', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    createLegacySchema(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should convert legacy REAL amounts to exact ujuno integers', () => {
+    db.exec(`INSERT INTO users (id) VALUES (1), (2), (-1)`);
+    const insertBalance = db.prepare('INSERT INTO user_balances (user_id, balance) VALUES (?, ?)');
+    // Values that drift when summed as floating point
+    insertBalance.run(1, 0.1 + 0.2);
+    insertBalance.run(2, 4.05195);
+    insertBalance.run(-1, 123456.789012);
+
+    db.prepare(
+      'INSERT INTO transactions (transaction_type, to_user_id, amount, balance_after) VALUES (?, ?, ?, ?)'
+    ).run('deposit', 1, 0.3, 0.3);
+    db.prepare(
+      'INSERT INTO transactions (transaction_type, from_user_id, amount, balance_after) VALUES (?, ?, ?, ?)'
+    ).run('fine', 2, 1.000001, null);
+    db.prepare('INSERT INTO giveaways (total_amount, amount_per_slot, total_slots) VALUES (?, ?, ?)').run(10, 2.5, 4);
+    db.prepare('INSERT INTO giveaway_claims (giveaway_id, user_id, amount) VALUES (?, ?, ?)').run(1, 1, 2.5);
+    db.prepare('INSERT INTO duels (challenger_id, opponent_id, wager_amount) VALUES (?, ?, ?)').run(1, 2, 0.000001);
+
+    const applied = runSchemaMigrations(db, LEDGER_ONLY);
+
+    expect(applied).toEqual(['001_integer_ujuno_ledger']);
+
+    const balances = db
+      .prepare('SELECT user_id, balance_ujuno FROM user_balances ORDER BY user_id')
+      .all();
+    expect(balances).toEqual([
+      { user_id: -1, balance_ujuno: 123456789012 },
+      { user_id: 1, balance_ujuno: 300000 },
+      { user_id: 2, balance_ujuno: 4051950 },
+    ]);
+
+    const transactions = db
+      .prepare('SELECT amount_ujuno, balance_after_ujuno FROM transactions ORDER BY id')
+      .all();
+    expect(transactions).toEqual([
+      { amount_ujuno: 300000, balance_after_ujuno: 300000 },
+      { amount_ujuno: 1000001, balance_after_ujuno: null },
+    ]);
+
+    expect(db.prepare('SELECT total_amount_ujuno, amount_per_slot_ujuno FROM giveaways').get()).toEqual({
+      total_amount_ujuno: 10000000,
+      amount_per_slot_ujuno: 2500000,
+    });
+    expect(db.prepare('SELECT amount_ujuno FROM giveaway_claims').get()).toEqual({ amount_ujuno: 2500000 });
+    expect(db.prepare('SELECT wager_amount_ujuno FROM duels').get()).toEqual({ wager_amount_ujuno: 1 });
+  });
+
+  it('should drop the legacy REAL columns', () => {
+    runSchemaMigrations(db, LEDGER_ONLY);
+
+    expect(columnNames(db, 'user_balances')).not.toContain('balance');
+    expect(columnNames(db, 'transactions')).not.toContain('amount');
+    expect(columnNames(db, 'transactions')).not.toContain('balance_after');
+    expect(columnNames(db, 'giveaways')).not.toContain('total_amount');
+    expect(columnNames(db, 'duels')).not.toContain('wager_amount');
+    expect(columnNames(db, 'user_balances')).toContain('balance_ujuno');
+  });
+
+  it('should only run once', () => {
+    expect(runSchemaMigrations(db, LEDGER_ONLY)).toHaveLength(1);
+    expect(runSchemaMigrations(db, LEDGER_ONLY)).toHaveLength(0);
+
+    const recorded = db.prepare('SELECT name FROM migrations').all();
+    expect(recorded).toEqual([{ name: '001_integer_ujuno_ledger' }]);
+  });
+
+  it('should roll back everything when a column cannot be converted', () => {
+    db.exec(`INSERT INTO users (id) VALUES (1), (2)`);
+    db.prepare('INSERT INTO user_balances (user_id, balance) VALUES (?, ?)').run(1, 5);
+    db.prepare('INSERT INTO user_balances (user_id, balance) VALUES (?, ?)').run(2, null);
+
+    expect(() => runSchemaMigrations(db, LEDGER_ONLY)).toThrow(/NULL/);
+
+    expect(columnNames(db, 'user_balances')).toContain('balance');
+    expect(columnNames(db, 'user_balances')).not.toContain('balance_ujuno');
+    expect(db.prepare('SELECT COUNT(*) AS count FROM migrations').get()).toEqual({ count: 0 });
+  });
+
+  it('should mark the migration applied on a fresh schema', () => {
+    const fresh = new Database(':memory:');
+    fresh.exec(`
+      CREATE TABLE user_balances (user_id INTEGER PRIMARY KEY, balance_ujuno INTEGER NOT NULL DEFAULT 0);
+    `);
+
+    expect(runSchemaMigrations(fresh, LEDGER_ONLY)).toEqual(['001_integer_ujuno_ledger']);
+    expect(columnNames(fresh, 'user_balances')).toEqual(['user_id', 'balance_ujuno']);
+
+    fresh.close();
+  });
+});
@@ -0,0 +1,200 @@
+import { vi, describe, it, expect, beforeEach, beforeAll, afterAll } from 'vitest';
+/**
+ * Unit tests for maintenance mode
+ * Tests: src/services/maintenanceService.ts, src/middleware/maintenance.ts,
+ * LedgerService.reconcileAndAlert (automatic withdrawal pause)
+ */
+
+import { Context } from 'telegraf';
+import { initTestDatabase, cleanTestDatabase, closeTestDatabase } from '../helpers/testDatabase';
+import { createMockContext } from '../helpers/mockContext';
+
+// Mock database module
+vi.mock('../../src/database', async () => {
+  const testDb = await import('../helpers/testDatabase');
+  return {
+    query: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).all(...params),
+    get: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).get(...params),
+    execute: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).run(...params),
+    withTransaction: testDb.withTestTransaction,
+  };
+});
+
+vi.mock('../../src/config', () => ({
+  config: {
+    groupChatId: -1001234567890,
+    adminChatId: -9000,
+    reconcilePauseThreshold: 1,
+  },
+}));
+
+vi.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+  StructuredLogger: {
+    logError: vi.fn(),
+    logUserAction: vi.fn(),
+    logTransaction: vi.fn(),
+    logSecurityEvent: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/utils/adminNotify', () => ({
+  notifyAdmin: vi.fn(),
+}));
+
+import { MaintenanceService } from '../../src/services/maintenanceService';
+import { LedgerService } from '../../src/services/ledgerService';
+import { getMaintenanceSwitch, maintenanceMiddleware } from '../../src/middleware/maintenance';
+import { EventBus } from '../../src/services/eventBus';
+import { registerNotificationSubscribers } from '../../src/subscribers/notifications';
+import { notifyAdmin } from '../../src/utils/adminNotify';
+
+const OWNER = 111111111;
+
+const mockBot = {
+  telegram: {
+    sendMessage: vi.fn().mockResolvedValue({}),
+  },
+};
+
+function commandContext(text: string): Context {
+  return createMockContext({ messageText: text }) as Context;
+}
+
+function callbackContext(data: string): Context {
+  return {
+    callbackQuery: { id: '1', data },
+    answerCbQuery: vi.fn().mockResolvedValue(true),
+    reply: vi.fn(),
+  } as unknown as Context;
+}
+
+describe('maintenance mode', () => {
+  beforeAll(() => {
+    initTestDatabase();
+    registerNotificationSubscribers(mockBot as any);
+  });
+
+  afterAll(() => {
+    EventBus.clear();
+    closeTestDatabase();
+  });
+
+  beforeEach(() => {
+    cleanTestDatabase();
+    vi.clearAllMocks();
+    vi.restoreAllMocks();
+  });
+
+  describe('MaintenanceService', () => {
+    it('should report every switch as running by default', () => {
+      expect(MaintenanceService.getState()).toEqual({});
+      expect(MaintenanceService.isPaused('withdrawals')).toBe(false);
+    });
+
+    it('should pause and resume switches independently', () => {
+      expect(MaintenanceService.pause(['withdrawals', 'gambling'], 'node upgrade', OWNER)).toEqual([
+        'withdrawals',
+        'gambling',
+      ]);
+
+      expect(MaintenanceService.isPaused('withdrawals')).toBe(true);
+      expect(MaintenanceService.isPaused('deposits')).toBe(false);
+      expect(MaintenanceService.getPause('gambling')).toMatchObject({ reason: 'node upgrade', pausedBy: OWNER });
+
+      expect(MaintenanceService.resume(['gambling', 'deposits'], OWNER)).toEqual(['gambling']);
+      expect(MaintenanceService.isPaused('gambling')).toBe(false);
+      expect(MaintenanceService.isPaused('withdrawals')).toBe(true);
+    });
+
+    it('should keep the original reason when pausing a paused switch', () => {
+      MaintenanceService.pause(['deposits'], 'first', OWNER);
+
+      expect(MaintenanceService.pause(['deposits'], 'second', null)).toEqual([]);
+      expect(MaintenanceService.getPause('deposits')?.reason).toBe('first');
+    });
+  });
+
+  describe('middleware', () => {
+    it('should map commands and buttons to their switch', () => {
+      expect(getMaintenanceSwitch(commandContext('/withdraw 5 juno1abc'))).toBe('withdrawals');
+      expect(getMaintenanceSwitch(commandContext('/send@cacbot @alice 1'))).toBe('transfers');
+      expect(getMaintenanceSwitch(commandContext('/verifypayment 3 ABC'))).toBe('deposits');
+      expect(getMaintenanceSwitch(commandContext('/verifybailfor @alice ABC'))).toBe('deposits');
+      expect(getMaintenanceSwitch(commandContext('/balance'))).toBeUndefined();
+      expect(getMaintenanceSwitch(callbackContext('duel_accept_4'))).toBe('gambling');
+      expect(getMaintenanceSwitch(callbackContext('claim_giveaway_7'))).toBe('giveaways');
+      expect(getMaintenanceSwitch(callbackContext('help_menu'))).toBeUndefined();
+    });
+
+    it('should block a paused command with the reason', async () => {
+      MaintenanceService.pause(['withdrawals'], 'wallet migration', OWNER);
+      const ctx = commandContext('/withdraw 5 juno1abc');
+      const next = vi.fn();
+
+      await maintenanceMiddleware(ctx, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(ctx.reply).toHaveBeenCalledWith(expect.stringContaining('wallet migration'));
+    });
+
+    it('should let other commands through', async () => {
+      MaintenanceService.pause(['withdrawals'], 'wallet migration', OWNER);
+      const ctx = commandContext('/send @alice 1');
+      const next = vi.fn();
+
+      await maintenanceMiddleware(ctx, next);
+
+      expect(next).toHaveBeenCalled();
+      expect(ctx.reply).not.toHaveBeenCalled();
+    });
+
+    it('should answer a blocked button with an alert', async () => {
+      MaintenanceService.pause(['giveaways'], 'audit', OWNER);
+      const ctx = callbackContext('claim_giveaway_7');
+      const next = vi.fn();
+
+      await maintenanceMiddleware(ctx, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(ctx.answerCbQuery).toHaveBeenCalledWith(expect.stringContaining('audit'), { show_alert: true });
+    });
+  });
+
+  describe('reconcileAndAlert', () => {
+    it('should pause withdrawals and alert once when the mismatch exceeds the threshold', async () => {
+      vi.spyOn(LedgerService, 'reconcileBalances').mockResolvedValue({
+        internalTotal: 100,
+        onChainTotal: 95,
+        difference: 5,
+        matched: false,
+      });
+
+      await LedgerService.reconcileAndAlert();
+      await LedgerService.reconcileAndAlert();
+
+      expect(MaintenanceService.getPause('withdrawals')).toMatchObject({ pausedBy: null });
+      expect(MaintenanceService.isPaused('deposits')).toBe(false);
+      expect(notifyAdmin).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not pause withdrawals for a mismatch below the threshold', async () => {
+      vi.spyOn(LedgerService, 'reconcileBalances').mockResolvedValue({
+        internalTotal: 100,
+        onChainTotal: 99.5,
+        difference: 0.5,
+        matched: false,
+      });
+
+      await LedgerService.reconcileAndAlert();
+
+      expect(MaintenanceService.isPaused('withdrawals')).toBe(false);
+      expect(notifyAdmin).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,280 @@
+import { vi, describe, it, expect, beforeEach, beforeAll, afterAll, afterEach } from 'vitest';
+/**
+ * Unit tests for the health and metrics API
+ * Tests: src/services/metricsService.ts, src/services/healthService.ts,
+ *        src/services/adminApiService.ts, src/middleware/metrics.ts
+ */
+
+import type { Context, Telegram } from 'telegraf';
+import {
+  initTestDatabase,
+  cleanTestDatabase,
+  closeTestDatabase,
+  createTestUsers,
+  getTestDatabase,
+} from '../helpers/testDatabase';
+import { createPlebContext } from '../helpers/mockContext';
+
+// Mock database module
+vi.mock('../../src/database', async () => {
+  const testDb = await import('../helpers/testDatabase');
+  return {
+    query: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).all(...params),
+    get: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).get(...params),
+    execute: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).run(...params),
+  };
+});
+
+vi.mock('../../src/config', () => ({
+  config: {
+    groupChatId: -1001234567890,
+    adminChatId: -9000,
+  },
+}));
+
+vi.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+  StructuredLogger: {
+    logError: vi.fn(),
+    logUserAction: vi.fn(),
+    logTransaction: vi.fn(),
+    logSecurityEvent: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/services/depositMonitor', () => ({
+  DepositMonitor: {
+    getStatus: vi.fn(),
+  },
+}));
+
+import { MetricsService } from '../../src/services/metricsService';
+import { HealthService } from '../../src/services/healthService';
+import { AdminApiService } from '../../src/services/adminApiService';
+import { DepositMonitor } from '../../src/services/depositMonitor';
+import { commandMetricsMiddleware } from '../../src/middleware/metrics';
+import { EventBus } from '../../src/services/eventBus';
+import { registerMetricsSubscribers } from '../../src/subscribers/metrics';
+
+const PLEB = 444444444;
+const ELEVATED = 333333333;
+const TOKEN = 'test-token';
+
+const telegram = {
+  getMe: vi.fn().mockResolvedValue({ id: 1, is_bot: true }),
+};
+
+const now = () => Math.floor(Date.now() / 1000);
+
+const seed = () => {
+  const db = getTestDatabase();
+  db.prepare('INSERT INTO user_balances (user_id, balance_ujuno) VALUES (?, ?)').run(PLEB, 5_000_000);
+  db.prepare('INSERT INTO user_balances (user_id, balance_ujuno) VALUES (?, ?)').run(ELEVATED, 2_500_000);
+  db.prepare(
+    "INSERT INTO withdrawal_requests (user_id, to_address, amount_ujuno, status) VALUES (?, 'juno1dest', ?, 'broadcast')",
+  ).run(PLEB, 1_000_000);
+  db.prepare(
+    "INSERT INTO withdrawal_requests (user_id, to_address, amount_ujuno, status) VALUES (?, 'juno1dest', ?, 'confirmed')",
+  ).run(PLEB, 4_000_000);
+  db.prepare(
+    "INSERT INTO transactions (transaction_type, from_user_id, amount_ujuno) VALUES ('gambling', ?, ?)",
+  ).run(PLEB, 300_000);
+  db.prepare("INSERT INTO transaction_locks (user_id, lock_type) VALUES (?, 'withdrawal')").run(PLEB);
+  db.prepare('INSERT INTO user_jails (user_id, chat_id, muted_until) VALUES (?, ?, ?)').run(PLEB, -100, now() + 600);
+  db.prepare('INSERT INTO user_jails (user_id, chat_id, muted_until) VALUES (?, ?, ?)').run(ELEVATED, -100, now() - 600);
+  db.prepare(
+    "INSERT INTO duels (challenger_id, opponent_id, wager_amount_ujuno, status, chat_id, expires_at) VALUES (?, ?, ?, 'completed', -100, ?)",
+  ).run(PLEB, ELEVATED, 2_000_000, now());
+};
+
+describe('Health and metrics API', () => {
+  beforeAll(() => {
+    initTestDatabase();
+  });
+
+  beforeEach(() => {
+    cleanTestDatabase();
+    getTestDatabase().exec('DELETE FROM price_history');
+    createTestUsers();
+    MetricsService.reset();
+    vi.clearAllMocks();
+    vi.mocked(DepositMonitor.getStatus).mockReturnValue({
+      isRunning: true,
+      lastCheck: now(),
+      walletAddress: 'juno1test',
+      checkInterval: 60000,
+    });
+  });
+
+  afterAll(() => {
+    closeTestDatabase();
+  });
+
+  describe('MetricsService.render', () => {
+    it('should expose ledger, lock, jail and duel gauges', () => {
+      seed();
+
+      const text = MetricsService.render();
+
+      expect(text).toContain('# TYPE cacbot_ledger_balance_ujuno gauge');
+      expect(text).toContain('cacbot_ledger_balance_ujuno 7500000');
+      expect(text).toContain('cacbot_pending_withdrawals 1\n');
+      expect(text).toContain('cacbot_pending_withdrawals_ujuno 1000000');
+      expect(text).toContain('cacbot_ledger_volume_ujuno_total{type="gambling",status="completed"} 300000');
+      expect(text).toContain('cacbot_transaction_locks_active 1');
+      expect(text).toContain('cacbot_jails_active 1');
+      expect(text).toContain('cacbot_duels_total{status="completed"} 1');
+      expect(text).toContain('cacbot_duel_wagers_ujuno_total{status="completed"} 2000000');
+      // Reconciliation has not run yet
+      expect(text).not.toContain('cacbot_reconciliation_matched');
+    });
+
+    it('should render cumulative command latency histograms', () => {
+      MetricsService.observeCommand('balance', 0.03);
+      MetricsService.observeCommand('balance', 0.2);
+      MetricsService.observeCommand('balance', 30);
+
+      const text = MetricsService.render();
+
+      expect(text).toContain('cacbot_command_duration_seconds_bucket{command="balance",le="0.05"} 1');
+      expect(text).toContain('cacbot_command_duration_seconds_bucket{command="balance",le="0.25"} 2');
+      expect(text).toContain('cacbot_command_duration_seconds_bucket{command="balance",le="10"} 2');
+      expect(text).toContain('cacbot_command_duration_seconds_bucket{command="balance",le="+Inf"} 3');
+      expect(text).toContain('cacbot_command_duration_seconds_count{command="balance"} 3');
+    });
+
+    it('should fold unusual command names into "other"', () => {
+      MetricsService.observeCommand('Not A "Command"', 0.1);
+
+      expect(MetricsService.render()).toContain('cacbot_command_duration_seconds_count{command="other"} 1');
+    });
+
+    it('should count events published on the event bus', async () => {
+      registerMetricsSubscribers();
+      await EventBus.publish('giveaway.completed', {
+        giveawayId: 1,
+        chatId: -1001234567890,
+        createdBy: ELEVATED,
+        totalSlots: 2,
+        totalAmount: 1,
+        denom: 'ujuno',
+        timestamp: now(),
+      });
+      EventBus.clear();
+
+      expect(MetricsService.render()).toContain('cacbot_events_total{event="giveaway.completed"} 1');
+    });
+  });
+
+  describe('commandMetricsMiddleware', () => {
+    it('should time commands and record update activity', async () => {
+      const ctx = createPlebContext({ messageText: '/balance@cacbot extra' });
+      const next = vi.fn().mockResolvedValue(undefined);
+
+      await commandMetricsMiddleware(ctx as Context, next);
+
+      expect(next).toHaveBeenCalled();
+      expect(MetricsService.getLastUpdateAt()).not.toBeNull();
+      expect(MetricsService.render()).toContain('cacbot_command_duration_seconds_count{command="balance"} 1');
+    });
+  });
+
+  describe('HealthService.check', () => {
+    it('should be healthy when every dependency works', async () => {
+      getTestDatabase().prepare('INSERT INTO price_history (price_usd, timestamp) VALUES (?, ?)').run(0.1, now());
+
+      const report = await HealthService.check(telegram as unknown as Telegram);
+
+      expect(report.ok).toBe(true);
+      expect(report.checks.database.ok).toBe(true);
+      expect(report.checks.depositMonitor.ok).toBe(true);
+      expect(report.checks.priceFeed.ok).toBe(true);
+      expect(report.checks.telegram.ok).toBe(true);
+    });
+
+    it('should report a stale price feed, stalled deposit monitor and unreachable Telegram', async () => {
+      getTestDatabase()
+        .prepare('INSERT INTO price_history (price_usd, timestamp) VALUES (?, ?)')
+        .run(0.1, now() - 2 * 60 * 60);
+      vi.mocked(DepositMonitor.getStatus).mockReturnValue({
+        isRunning: true,
+        lastCheck: now() - 600,
+        walletAddress: 'juno1test',
+        checkInterval: 60000,
+      });
+      telegram.getMe.mockRejectedValueOnce(new Error('network down'));
+
+      const report = await HealthService.check(telegram as unknown as Telegram);
+
+      expect(report.ok).toBe(false);
+      expect(report.checks.database.ok).toBe(true);
+      expect(report.checks.priceFeed.ok).toBe(false);
+      expect(report.checks.depositMonitor.ok).toBe(false);
+      expect(report.checks.telegram).toMatchObject({ ok: false, error: 'network down' });
+    });
+
+    it('should treat an unconfigured deposit monitor as healthy', async () => {
+      vi.mocked(DepositMonitor.getStatus).mockReturnValue({
+        isRunning: false,
+        lastCheck: null,
+        walletAddress: '',
+        checkInterval: 60000,
+      });
+
+      const report = await HealthService.check(telegram as unknown as Telegram);
+
+      expect(report.checks.depositMonitor).toEqual({ ok: true, enabled: false });
+    });
+  });
+
+  describe('AdminApiService', () => {
+    let baseUrl: string;
+
+    beforeEach(async () => {
+      const port = await AdminApiService.start(telegram as unknown as Telegram, 0, TOKEN);
+      baseUrl = `http://127.0.0.1:${port}`;
+    });
+
+    afterEach(async () => {
+      await AdminApiService.stop();
+    });
+
+    const request = (path: string, token?: string) =>
+      fetch(`${baseUrl}${path}`, {
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+      });
+
+    it('should reject requests without the right token', async () => {
+      expect((await request('/metrics')).status).toBe(401);
+      expect((await request('/metrics', 'wrong')).status).toBe(401);
+      expect((await request('/healthz', `${TOKEN}x`)).status).toBe(401);
+    });
+
+    it('should serve metrics in the Prometheus format', async () => {
+      const res = await request('/metrics', TOKEN);
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get('content-type')).toContain('text/plain; version=0.0.4');
+      expect(await res.text()).toContain('cacbot_ledger_balance_ujuno 0');
+    });
+
+    it('should return 503 from /healthz when a check fails', async () => {
+      // No price has been fetched yet
+      const res = await request('/healthz', TOKEN);
+
+      expect(res.status).toBe(503);
+      const body = await res.json();
+      expect(body.ok).toBe(false);
+      expect(body.checks.priceFeed.ok).toBe(false);
+    });
+
+    it('should return 404 for unknown paths', async () => {
+      expect((await request('/admin', TOKEN)).status).toBe(404);
+    });
+  });
+});
@@ -21,6 +21,8 @@ import {
   isElevated,
   elevatedUserOnly,
   elevatedAdminOnly,
+  chatRegistrationMiddleware,
+  requireChatFeature,
 } from '../../src/middleware/index';
 import { messageFilterMiddleware } from '../../src/middleware/messageFilter';
 import {
@@ -56,6 +58,8 @@ import {
 import * as userService from '../../src/services/userService';
 import * as restrictionService from '../../src/services/restrictionService';
 import { TransactionLockService } from '../../src/services/transactionLock';
+import { JailService } from '../../src/services/jailService';
+import { ChatService } from '../../src/services/chatService';
 import { config } from '../../src/config';
 
 // Mock database module
@@ -88,7 +92,7 @@ vi.mock('../../src/services/userService');
 vi.mock('../../src/services/restrictionService');
 vi.mock('../../src/services/ledgerService', () => ({
   LedgerService: {
-    ensureUserBalance: vi.fn().mockResolvedValue(undefined),
+    ensureUserBalance: vi.fn(),
   },
 }));
 
@@ -315,6 +319,66 @@ describe('Middleware and Utilities Test Suite', () => {
     });
   });
 
+  describe('src/middleware/index.ts - Chat Middleware', () => {
+    describe('chatRegistrationMiddleware', () => {
+      it('should register group chats', async () => {
+        const ctx = createPlebContext({ chatType: 'supergroup', chatId: -1004444 });
+        const next = vi.fn();
+
+        await chatRegistrationMiddleware(ctx as Context, next);
+
+        expect(next).toHaveBeenCalled();
+        expect(ChatService.getChat(-1004444)?.active).toBe(true);
+      });
+
+      it('should ignore private chats', async () => {
+        const ctx = createPlebContext({ chatType: 'private', chatId: 444444444 });
+        const next = vi.fn();
+
+        await chatRegistrationMiddleware(ctx as Context, next);
+
+        expect(next).toHaveBeenCalled();
+        expect(ChatService.getChat(444444444)).toBeNull();
+      });
+
+      it('should deactivate a chat when the bot is removed', async () => {
+        ChatService.registerChat(-1005555);
+        const ctx = createPlebContext({ chatType: 'supergroup', chatId: -1005555 }) as any;
+        ctx.myChatMember = { new_chat_member: { status: 'kicked' } };
+        const next = vi.fn();
+
+        await chatRegistrationMiddleware(ctx as Context, next);
+
+        expect(ChatService.getChat(-1005555)?.active).toBe(false);
+      });
+    });
+
+    describe('requireChatFeature', () => {
+      it('should block commands when the feature is disabled', async () => {
+        ChatService.registerChat(-1001234567890);
+        ChatService.setFeatureEnabled(-1001234567890, 'gambling', false, 111111111);
+        const ctx = createPlebContext({ chatType: 'supergroup' });
+        const next = vi.fn();
+
+        await requireChatFeature('gambling')(ctx as Context, next);
+
+        expect(next).not.toHaveBeenCalled();
+        expect(wasTextReplied(ctx, 'gambling is disabled')).toBe(true);
+      });
+
+      it('should allow commands in private chats', async () => {
+        ChatService.registerChat(-1001234567890);
+        ChatService.setFeatureEnabled(-1001234567890, 'gambling', false, 111111111);
+        const ctx = createPlebContext({ chatType: 'private' });
+        const next = vi.fn();
+
+        await requireChatFeature('gambling')(ctx as Context, next);
+
+        expect(next).toHaveBeenCalled();
+      });
+    });
+  });
+
   describe('src/middleware/messageFilter.ts - Message Filter Middleware', () => {
     beforeEach(() => {
       (userService.ensureUserExists as Mock).mockResolvedValue(undefined);
@@ -384,9 +448,8 @@ describe('Middleware and Utilities Test Suite', () => {
         const next = vi.fn();
 
         // Jail the user
-        const db = getTestDatabase();
         const futureTime = Math.floor(Date.now() / 1000) + 3600;
-        db.prepare('UPDATE users SET muted_until = ? WHERE id = ?').run(futureTime, 444444444);
+        JailService.jailUser(444444444, null, futureTime);
 
         await messageFilterMiddleware(ctx as Context, next);
 
@@ -399,14 +462,35 @@ describe('Middleware and Utilities Test Suite', () => {
         const next = vi.fn();
 
         // Jail the user
-        const db = getTestDatabase();
         const futureTime = Math.floor(Date.now() / 1000) + 3600;
-        db.prepare('UPDATE users SET muted_until = ? WHERE id = ?').run(futureTime, 444444444);
+        JailService.jailUser(444444444, null, futureTime);
+
+        await messageFilterMiddleware(ctx as Context, next);
+
+        expect(ctx.deleteMessage).not.toHaveBeenCalled();
+        expect(next).toHaveBeenCalled();
+      });
+
+      it('should only delete messages in the chat the user is jailed in', async () => {
+        const ctx = createPlebContext({ chatType: 'supergroup', chatId: -1009999 });
+        const next = vi.fn();
+        const futureTime = Math.floor(Date.now() / 1000) + 3600;
+        JailService.jailUser(444444444, -1001234567890, futureTime);
+
+        (restrictionService.RestrictionService.checkMessage as Mock).mockResolvedValue(false);
 
         await messageFilterMiddleware(ctx as Context, next);
 
         expect(ctx.deleteMessage).not.toHaveBeenCalled();
         expect(next).toHaveBeenCalled();
+
+        const jailedChatCtx = createPlebContext({ chatType: 'supergroup' });
+        const jailedNext = vi.fn();
+
+        await messageFilterMiddleware(jailedChatCtx as Context, jailedNext);
+
+        expect(jailedChatCtx.deleteMessage).toHaveBeenCalled();
+        expect(jailedNext).not.toHaveBeenCalled();
       });
 
       it('should allow messages from users whose jail time expired', async () => {
@@ -414,9 +498,8 @@ describe('Middleware and Utilities Test Suite', () => {
         const next = vi.fn();
 
         // Set expired jail time
-        const db = getTestDatabase();
         const pastTime = Math.floor(Date.now() / 1000) - 3600;
-        db.prepare('UPDATE users SET muted_until = ? WHERE id = ?').run(pastTime, 444444444);
+        JailService.jailUser(444444444, null, pastTime);
 
         (restrictionService.RestrictionService.checkMessage as Mock).mockResolvedValue(false);
 
@@ -438,6 +521,18 @@ describe('Middleware and Utilities Test Suite', () => {
         expect(next).toHaveBeenCalled();
       });
 
+      it('should skip restriction checks when filters are disabled in the chat', async () => {
+        const ctx = createPlebContext({ chatType: 'supergroup' });
+        const next = vi.fn();
+        ChatService.registerChat(-1001234567890);
+        ChatService.setFeatureEnabled(-1001234567890, 'filters', false, 111111111);
+
+        await messageFilterMiddleware(ctx as Context, next);
+
+        expect(restrictionService.RestrictionService.checkMessage).not.toHaveBeenCalled();
+        expect(next).toHaveBeenCalled();
+      });
+
       it('should not proceed if message violates restrictions', async () => {
         const ctx = createPlebContext({ chatType: 'supergroup' });
         const next = vi.fn();
@@ -478,9 +573,8 @@ describe('Middleware and Utilities Test Suite', () => {
         (ctx.deleteMessage as Mock).mockRejectedValue(new Error('No permission'));
 
         // Jail the user
-        const db = getTestDatabase();
         const futureTime = Math.floor(Date.now() / 1000) + 3600;
-        db.prepare('UPDATE users SET muted_until = ? WHERE id = ?').run(futureTime, 444444444);
+        JailService.jailUser(444444444, null, futureTime);
 
         await messageFilterMiddleware(ctx as Context, next);
 
@@ -139,7 +139,7 @@ describe('Jail Commands', () => {
 
       expect(user).toBeDefined();
       expect(user.role).toBe('pleb');
-      expect(user.muted_until).toBeFalsy(); // SQLite returns null, not undefined
+      expect(JailService.getJailedUntil(userId)).toBeNull();
     });
 
     it('should show jail status when user is jailed', async () => {
@@ -147,10 +147,10 @@ describe('Jail Commands', () => {
       const futureTime = Math.floor(Date.now() / 1000) + 3600; // 1 hour
       jailTestUser(userId, 222222222, 10, futureTime);
 
-      const user = db.get('SELECT * FROM users WHERE id = ?', [userId]);
+      const mutedUntil = JailService.getJailedUntil(userId);
 
-      expect(user.muted_until).toBe(futureTime);
-      expect(user.muted_until).toBeGreaterThan(Math.floor(Date.now() / 1000));
+      expect(mutedUntil).toBe(futureTime);
+      expect(mutedUntil).toBeGreaterThan(Math.floor(Date.now() / 1000));
     });
 
     it('should show unpaid violations in status', async () => {
@@ -192,10 +192,7 @@ describe('Jail Commands', () => {
       const now = Math.floor(Date.now() / 1000);
       const pastTime = now - 100; // Expired
 
-      db.execute(
-        'UPDATE users SET muted_until = ? WHERE id = ?',
-        [pastTime, 555555555]
-      );
+      JailService.jailUser(555555555, null, pastTime);
 
       const activeJails = JailService.getActiveJails();
       expect(activeJails).toHaveLength(0);
@@ -208,16 +205,13 @@ describe('Jail Commands', () => {
       const futureTime = now + 600; // 10 minutes
       const userId = 555555555;
 
-      db.execute(
-        'UPDATE users SET muted_until = ? WHERE id = ?',
-        [futureTime, userId]
-      );
+      JailService.jailUser(userId, null, futureTime);
 
-      const user = db.get('SELECT * FROM users WHERE id = ?', [userId]);
+      const mutedUntil = JailService.getJailedUntil(userId)!;
 
-      expect(user.muted_until).toBe(futureTime);
+      expect(mutedUntil).toBe(futureTime);
 
-      const timeRemaining = user.muted_until - now;
+      const timeRemaining = mutedUntil - now;
       const bailAmount = JailService.calculateBailAmountSync(Math.ceil(timeRemaining / 60));
 
       expect(bailAmount).toBeGreaterThanOrEqual(1.0);
@@ -225,9 +219,7 @@ describe('Jail Commands', () => {
 
     it('should return message when user is not jailed', () => {
       const userId = 444444444;
-      const user = db.get('SELECT * FROM users WHERE id = ?', [userId]);
-
-      expect(user.muted_until).toBeFalsy();
+      expect(JailService.getJailedUntil(userId)).toBeNull();
     });
   });
 
@@ -237,20 +229,14 @@ describe('Jail Commands', () => {
       const futureTime = now + 1200; // 20 minutes
       const targetUserId = 555555555;
 
-      db.execute(
-        'UPDATE users SET muted_until = ? WHERE id = ?',
-        [futureTime, targetUserId]
-      );
+      JailService.jailUser(targetUserId, null, futureTime);
 
-      const user = db.get('SELECT * FROM users WHERE id = ?', [targetUserId]);
-      expect(user.muted_until).toBe(futureTime);
+      expect(JailService.getJailedUntil(targetUserId)).toBe(futureTime);
     });
 
     it('should reject when user is not jailed', () => {
       const targetUserId = 444444444;
-      const user = db.get('SELECT * FROM users WHERE id = ?', [targetUserId]);
-
-      expect(user.muted_until).toBeFalsy();
+      expect(JailService.getJailedUntil(targetUserId)).toBeNull();
     });
   });
 
@@ -260,19 +246,12 @@ describe('Jail Commands', () => {
       const futureTime = now + 600;
       const userId = 555555555;
 
-      db.execute(
-        'UPDATE users SET muted_until = ? WHERE id = ?',
-        [futureTime, userId]
-      );
+      JailService.jailUser(userId, null, futureTime);
 
       // Simulate successful verification
-      db.execute(
-        'UPDATE users SET muted_until = NULL WHERE id = ?',
-        [userId]
-      );
+      JailService.releaseUser(userId);
 
-      const user = db.get('SELECT * FROM users WHERE id = ?', [userId]);
-      expect(user.muted_until).toBeNull();
+      expect(JailService.getJailedUntil(userId)).toBeNull();
     });
 
     it('should log bail payment event', () => {
@@ -320,13 +299,9 @@ describe('Moderation Commands', () => {
 
       const mutedUntil = Math.floor(Date.now() / 1000) + (minutes * 60);
 
-      db.execute(
-        'UPDATE users SET muted_until = ? WHERE id = ?',
-        [mutedUntil, targetUserId]
-      );
+      JailService.jailUser(targetUserId, null, mutedUntil);
 
-      const user = db.get('SELECT * FROM users WHERE id = ?', [targetUserId]);
-      expect(user.muted_until).toBe(mutedUntil);
+      expect(JailService.getJailedUntil(targetUserId)).toBe(mutedUntil);
     });
 
     it('should deny pleb from jailing', () => {
@@ -378,19 +353,12 @@ describe('Moderation Commands', () => {
 
       // First jail the user
       const futureTime = Math.floor(Date.now() / 1000) + 1800;
-      db.execute(
-        'UPDATE users SET muted_until = ? WHERE id = ?',
-        [futureTime, targetUserId]
-      );
+      JailService.jailUser(targetUserId, null, futureTime);
 
       // Then unjail
-      db.execute(
-        'UPDATE users SET muted_until = NULL WHERE id = ?',
-        [targetUserId]
-      );
+      JailService.releaseUser(targetUserId);
 
-      const user = db.get('SELECT * FROM users WHERE id = ?', [targetUserId]);
-      expect(user.muted_until).toBeNull();
+      expect(JailService.getJailedUntil(targetUserId)).toBeNull();
     });
 
     it('should log unjail event', () => {
@@ -539,10 +507,7 @@ describe('JailService', () => {
       const now = Math.floor(Date.now() / 1000);
       const futureTime = now + 3600;
 
-      db.execute(
-        'UPDATE users SET muted_until = ? WHERE id = ?',
-        [futureTime, 555555555]
-      );
+      JailService.jailUser(555555555, null, futureTime);
 
       const activeJails = JailService.getActiveJails();
       expect(activeJails).toHaveLength(1);
@@ -554,10 +519,7 @@ describe('JailService', () => {
       const now = Math.floor(Date.now() / 1000);
       const pastTime = now - 100;
 
-      db.execute(
-        'UPDATE users SET muted_until = ? WHERE id = ?',
-        [pastTime, 555555555]
-      );
+      JailService.jailUser(555555555, null, pastTime);
 
       const activeJails = JailService.getActiveJails();
       expect(activeJails).toHaveLength(0);
@@ -0,0 +1,380 @@
+import { vi, describe, it, expect, beforeEach, afterEach, beforeAll, afterAll } from 'vitest';
+/**
+ * Unit tests for moderation actions
+ * Tests: src/services/moderationActionService.ts
+ */
+
+import {
+  initTestDatabase,
+  cleanTestDatabase,
+  closeTestDatabase,
+  createTestUser,
+  getTestDatabase,
+} from '../helpers/testDatabase';
+
+// Mock database module
+vi.mock('../../src/database', async () => {
+  const testDb = await import('../helpers/testDatabase');
+  return {
+    query: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).all(...params),
+    get: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).get(...params),
+    execute: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).run(...params),
+    withTransaction: testDb.withTestTransaction,
+  };
+});
+
+vi.mock('../../src/config', () => ({
+  config: {
+    groupChatId: -1001,
+  },
+}));
+
+vi.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+  StructuredLogger: {
+    logError: vi.fn(),
+    logUserAction: vi.fn(),
+    logSecurityEvent: vi.fn(),
+    logDebug: vi.fn(),
+  },
+}));
+
+import { ChatService } from '../../src/services/chatService';
+import { JAILED_PERMISSIONS, JailService, RELEASED_PERMISSIONS } from '../../src/services/jailService';
+import { EventBus } from '../../src/services/eventBus';
+import {
+  type ModerationActionEvent,
+  ModerationActionService,
+} from '../../src/services/moderationActionService';
+import { withTransaction } from '../../src/database';
+
+const GROUP_A = -1001;
+const GROUP_B = -1002;
+const ADMIN = 111111111;
+const USER = 555555555;
+
+const telegram = {
+  restrictChatMember: vi.fn().mockResolvedValue(true),
+  banChatMember: vi.fn().mockResolvedValue(true),
+  unbanChatMember: vi.fn().mockResolvedValue(true),
+  sendMessage: vi.fn().mockResolvedValue({}),
+};
+
+const MODERATION_EVENTS = [
+  'user.jailed',
+  'user.unjailed',
+  'user.muted',
+  'user.restricted',
+  'user.kicked',
+  'user.banned',
+  'user.unbanned',
+] as const;
+
+const jailEvents = () =>
+  getTestDatabase()
+    .prepare('SELECT event_type, admin_id, chat_id, bail_amount, metadata FROM jail_events WHERE user_id = ? ORDER BY id')
+    .all(USER) as { event_type: string; admin_id: number | null; chat_id: number | null; bail_amount: number; metadata: string }[];
+
+describe('ModerationActionService', () => {
+  let events: ModerationActionEvent[];
+
+  beforeAll(() => {
+    initTestDatabase();
+    ModerationActionService.initialize({ telegram } as any);
+  });
+
+  beforeEach(() => {
+    cleanTestDatabase();
+    ChatService.initialize();
+    ChatService.registerChat(GROUP_B);
+    createTestUser(ADMIN, 'admin', 'admin');
+    createTestUser(USER, 'target', 'pleb');
+    vi.clearAllMocks();
+    events = [];
+    for (const name of MODERATION_EVENTS) {
+      EventBus.subscribe(name, (event) => {
+        events.push(event);
+      });
+    }
+  });
+
+  afterEach(() => {
+    EventBus.clear();
+  });
+
+  afterAll(() => {
+    closeTestDatabase();
+  });
+
+  describe('jail', () => {
+    it('should record, restrict and emit a jail', async () => {
+      const result = await ModerationActionService.jail({
+        userId: USER,
+        chatId: GROUP_A,
+        source: 'command',
+        reason: 'custom_fine',
+        actorId: ADMIN,
+        note: 'Spamming',
+        durationMinutes: 30,
+        bailAmount: 5,
+      });
+
+      expect(result).toMatchObject({ action: 'jail', changed: true, appliedChats: [GROUP_A], failures: [] });
+      expect(JailService.getJailedUntil(USER, GROUP_A)).toBe(result.until);
+      expect(telegram.restrictChatMember).toHaveBeenCalledWith(GROUP_A, USER, {
+        permissions: JAILED_PERMISSIONS,
+        until_date: result.until,
+      });
+
+      const [event] = jailEvents();
+      expect(event).toMatchObject({ event_type: 'jailed', admin_id: ADMIN, chat_id: GROUP_A, bail_amount: 5 });
+      expect(JSON.parse(event.metadata)).toEqual({ source: 'command', reason: 'custom_fine', note: 'Spamming' });
+      expect(events).toEqual([
+        expect.objectContaining({ action: 'jail', userId: USER, chatId: GROUP_A, reason: 'custom_fine', bailAmount: 5 }),
+      ]);
+    });
+
+    it('should keep a longer jail in the same scope', async () => {
+      const first = await ModerationActionService.jail({
+        userId: USER,
+        chatId: GROUP_A,
+        source: 'duel',
+        reason: 'duel_loss',
+        durationMinutes: 60,
+      });
+      const second = await ModerationActionService.jail({
+        userId: USER,
+        chatId: GROUP_A,
+        source: 'duel',
+        reason: 'duel_loss',
+        durationMinutes: 10,
+      });
+
+      expect(second.changed).toBe(false);
+      expect(second.until).toBe(first.until);
+      expect(JailService.getJailedUntil(USER, GROUP_A)).toBe(first.until);
+      expect(jailEvents()).toHaveLength(1);
+      expect(events).toHaveLength(1);
+      // The restriction is applied again with the existing expiry
+      expect(telegram.restrictChatMember).toHaveBeenLastCalledWith(GROUP_A, USER, {
+        permissions: JAILED_PERMISSIONS,
+        until_date: first.until,
+      });
+    });
+
+    it('should report the chats the restriction failed in', async () => {
+      telegram.restrictChatMember.mockRejectedValueOnce(new Error('not enough rights'));
+
+      const result = await ModerationActionService.jail({
+        userId: USER,
+        chatId: null,
+        source: 'warnings',
+        reason: 'warning_escalation',
+        durationMinutes: 10,
+      });
+
+      expect(result.changed).toBe(true);
+      expect(result.appliedChats).toHaveLength(1);
+      expect(result.failures).toEqual([{ chatId: expect.any(Number), error: 'not enough rights' }]);
+    });
+
+    it('should use the Telegram API passed with the request', async () => {
+      const other = { restrictChatMember: vi.fn().mockResolvedValue(true) };
+
+      await ModerationActionService.jail({
+        userId: USER,
+        chatId: GROUP_A,
+        source: 'automod',
+        reason: 'flood',
+        durationMinutes: 10,
+        telegram: other as any,
+      });
+
+      expect(other.restrictChatMember).toHaveBeenCalledTimes(1);
+      expect(telegram.restrictChatMember).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unjail', () => {
+    it('should release every jail and restore permissions', async () => {
+      const until = Math.floor(Date.now() / 1000) + 600;
+      JailService.jailUser(USER, GROUP_A, until);
+      JailService.jailUser(USER, GROUP_B, until);
+
+      const result = await ModerationActionService.unjail({
+        userId: USER,
+        source: 'command',
+        reason: 'manual',
+        actorId: ADMIN,
+      });
+
+      expect(result.changed).toBe(true);
+      expect(JailService.getUserJails(USER)).toEqual([]);
+      expect(telegram.restrictChatMember.mock.calls.map((call) => call[0]).sort()).toEqual([GROUP_A, GROUP_B].sort());
+      expect(telegram.restrictChatMember).toHaveBeenCalledWith(GROUP_A, USER, { permissions: RELEASED_PERMISSIONS });
+      expect(jailEvents()).toEqual([expect.objectContaining({ event_type: 'unjailed', admin_id: ADMIN, chat_id: null })]);
+      expect(events).toEqual([expect.objectContaining({ action: 'unjail', actorId: ADMIN })]);
+    });
+
+    it('should change nothing for a user who is not jailed', async () => {
+      const result = await ModerationActionService.unjail({ userId: USER, source: 'command', reason: 'manual' });
+
+      expect(result.changed).toBe(false);
+      expect(telegram.restrictChatMember).not.toHaveBeenCalled();
+      expect(jailEvents()).toEqual([]);
+      expect(events).toEqual([]);
+    });
+
+    it('should still lift a Telegram-only mute in the restore chat', async () => {
+      const result = await ModerationActionService.unjail({
+        userId: USER,
+        source: 'command',
+        reason: 'manual',
+        restoreChatId: GROUP_A,
+      });
+
+      expect(result.changed).toBe(false);
+      expect(telegram.restrictChatMember).toHaveBeenCalledWith(GROUP_A, USER, { permissions: RELEASED_PERMISSIONS });
+    });
+
+    it('should release bail inside a transaction and restore afterwards', async () => {
+      JailService.jailUser(USER, GROUP_A, Math.floor(Date.now() / 1000) + 600);
+      const request = {
+        userId: USER,
+        source: 'payment',
+        reason: 'bail_paid',
+        bailAmount: 3,
+        paidByUserId: ADMIN,
+        paymentTx: 'HASH',
+      } as const;
+
+      const released = withTransaction(() => ModerationActionService.releaseJails(request));
+      expect(telegram.restrictChatMember).not.toHaveBeenCalled();
+      expect(events).toEqual([]);
+
+      await ModerationActionService.completeUnjail(request, released);
+
+      expect(telegram.restrictChatMember).toHaveBeenCalledWith(GROUP_A, USER, { permissions: RELEASED_PERMISSIONS });
+      expect(jailEvents()).toEqual([expect.objectContaining({ event_type: 'bail_paid', bail_amount: 3 })]);
+      expect(events).toEqual([expect.objectContaining({ action: 'unjail', reason: 'bail_paid' })]);
+    });
+
+    it('should release expired jails', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      JailService.jailUser(USER, GROUP_B, now - 10);
+      JailService.jailUser(USER, GROUP_A, now + 600);
+
+      expect(await ModerationActionService.releaseExpiredJails()).toBe(1);
+
+      expect(JailService.getUserJails(USER).map((j) => j.chatId)).toEqual([GROUP_A]);
+      expect(jailEvents()).toEqual([expect.objectContaining({ event_type: 'auto_unjailed', chat_id: GROUP_B })]);
+      expect(events).toEqual([expect.objectContaining({ source: 'scheduler', reason: 'jail_expired' })]);
+    });
+  });
+
+  describe('Telegram-only actions', () => {
+    it('should mute without recording a jail', async () => {
+      const result = await ModerationActionService.mute({
+        userId: USER,
+        chatId: GROUP_A,
+        source: 'duel',
+        reason: 'duel_loss',
+        durationMinutes: 15,
+      });
+
+      expect(result.changed).toBe(true);
+      expect(JailService.getUserJails(USER)).toEqual([]);
+      expect(telegram.restrictChatMember).toHaveBeenCalledWith(GROUP_A, USER, {
+        permissions: JAILED_PERMISSIONS,
+        until_date: result.until,
+      });
+      expect(jailEvents()).toEqual([expect.objectContaining({ event_type: 'muted', chat_id: GROUP_A })]);
+    });
+
+    it('should ban, kick and unban', async () => {
+      const base = { userId: USER, chatId: GROUP_A, source: 'command', reason: 'manual', actorId: ADMIN } as const;
+
+      await ModerationActionService.ban(base);
+      expect(telegram.banChatMember).toHaveBeenCalledWith(GROUP_A, USER);
+
+      await ModerationActionService.kick(base);
+      expect(telegram.unbanChatMember).toHaveBeenCalledWith(GROUP_A, USER, { only_if_banned: true });
+
+      await ModerationActionService.unban(base);
+
+      expect(jailEvents().map((e) => e.event_type)).toEqual(['banned', 'kicked', 'unbanned']);
+      expect(events.map((e) => e.action)).toEqual(['ban', 'kick', 'unban']);
+    });
+
+    it('should apply custom permissions with restrict', async () => {
+      const permissions = { can_send_messages: true, can_send_photos: false };
+
+      await ModerationActionService.restrict({
+        userId: USER,
+        chatId: GROUP_A,
+        source: 'command',
+        reason: 'manual',
+        permissions,
+      });
+
+      expect(telegram.restrictChatMember).toHaveBeenCalledWith(GROUP_A, USER, { permissions, until_date: undefined });
+      expect(jailEvents()).toEqual([expect.objectContaining({ event_type: 'restricted' })]);
+    });
+
+    it('should not record an action that failed in every chat', async () => {
+      telegram.banChatMember.mockRejectedValueOnce(new Error('user is an administrator'));
+
+      const result = await ModerationActionService.ban({
+        userId: USER,
+        chatId: GROUP_A,
+        source: 'command',
+        reason: 'manual',
+      });
+
+      expect(result.changed).toBe(false);
+      expect(result.failures).toEqual([{ chatId: GROUP_A, error: 'user is an administrator' }]);
+      expect(jailEvents()).toEqual([]);
+      expect(events).toEqual([]);
+    });
+  });
+
+  it('should publish the action under its event name', async () => {
+    const banned = vi.fn();
+    EventBus.subscribe('user.banned', banned);
+
+    await ModerationActionService.ban({
+      userId: USER,
+      chatId: GROUP_A,
+      source: 'warnings',
+      reason: 'warning_escalation',
+      metadata: { warnings: 7 },
+    });
+
+    expect(banned).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'ban', userId: USER, metadata: { warnings: 7 } }),
+    );
+  });
+
+  it('should keep acting when a subscriber throws', async () => {
+    const unsubscribeFailing = EventBus.subscribe('user.muted', () => {
+      throw new Error('subscriber failed');
+    });
+
+    const result = await ModerationActionService.mute({
+      userId: USER,
+      chatId: GROUP_A,
+      source: 'automod',
+      reason: 'flood',
+      durationMinutes: 5,
+    });
+    unsubscribeFailing();
+
+    expect(result.changed).toBe(true);
+    expect(events).toHaveLength(1);
+  });
+});
@@ -0,0 +1,320 @@
+import { vi, describe, it, expect, beforeEach, afterEach, beforeAll, afterAll } from 'vitest';
+/**
+ * Unit tests for the moderation log
+ * Tests: src/services/modlogService.ts, src/subscribers/modlog.ts,
+ *        src/utils/messageLink.ts
+ */
+
+import {
+  initTestDatabase,
+  cleanTestDatabase,
+  closeTestDatabase,
+  createTestUser,
+  createTestViolation,
+  getTestDatabase,
+} from '../helpers/testDatabase';
+
+// Mock database module
+vi.mock('../../src/database', async () => {
+  const testDb = await import('../helpers/testDatabase');
+  return {
+    query: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).all(...params),
+    get: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).get(...params),
+    execute: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).run(...params),
+    withTransaction: testDb.withTestTransaction,
+  };
+});
+
+const mockConfig = vi.hoisted(() => ({
+  groupChatId: -1001234567890,
+  modlogChatId: -1009999999999,
+}));
+
+vi.mock('../../src/config', () => ({
+  config: mockConfig,
+}));
+
+vi.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+  StructuredLogger: {
+    logError: vi.fn(),
+    logUserAction: vi.fn(),
+    logSecurityEvent: vi.fn(),
+    logDebug: vi.fn(),
+  },
+}));
+
+import { ChatService } from '../../src/services/chatService';
+import { EventBus } from '../../src/services/eventBus';
+import { ModerationActionService } from '../../src/services/moderationActionService';
+import { ModlogService } from '../../src/services/modlogService';
+import { registerModlogSubscribers } from '../../src/subscribers/modlog';
+import { messageLink } from '../../src/utils/messageLink';
+import { StructuredLogger } from '../../src/utils/logger';
+
+const GROUP = -1001234567890;
+const OTHER_GROUP = -1002222222222;
+const MODLOG = -1009999999999;
+const GROUP_MODLOG = -1008888888888;
+const ADMIN = 111111111;
+const USER = 555555555;
+
+let nextMessageId = 1000;
+const telegram = {
+  restrictChatMember: vi.fn().mockResolvedValue(true),
+  sendMessage: vi.fn().mockImplementation(async () => ({ message_id: nextMessageId++ })),
+};
+
+const caseRows = () =>
+  getTestDatabase().prepare('SELECT * FROM moderation_cases ORDER BY id').all() as any[];
+
+describe('Modlog', () => {
+  beforeAll(() => {
+    initTestDatabase();
+    ModerationActionService.initialize({ telegram } as any);
+    ModlogService.initialize({ telegram } as any);
+  });
+
+  afterAll(() => {
+    closeTestDatabase();
+  });
+
+  beforeEach(() => {
+    cleanTestDatabase();
+    getTestDatabase().prepare("DELETE FROM sqlite_sequence WHERE name = 'moderation_cases'").run();
+    vi.clearAllMocks();
+    mockConfig.modlogChatId = MODLOG;
+    createTestUser(ADMIN, 'admin', 'admin');
+    createTestUser(USER, 'target');
+    ChatService.registerChat(GROUP, 'Main Group');
+    registerModlogSubscribers();
+  });
+
+  afterEach(() => {
+    EventBus.clear();
+  });
+
+  describe('cards', () => {
+    it('should post a jail as a case card to the modlog channel', async () => {
+      await ModerationActionService.jail({
+        userId: USER,
+        chatId: GROUP,
+        source: 'command',
+        reason: 'manual',
+        actorId: ADMIN,
+        durationMinutes: 60,
+        bailAmount: 2.5,
+        origin: { chatId: GROUP, messageId: 42 },
+      });
+
+      expect(telegram.sendMessage).toHaveBeenCalledTimes(1);
+      const [chatId, card] = telegram.sendMessage.mock.calls[0];
+      expect(chatId).toBe(MODLOG);
+      expect(card).toContain('Case #1 · Jail');
+      expect(card).toContain('Target: @target');
+      expect(card).toContain('Actor: @admin');
+      expect(card).toContain(`Chat: Main Group (${GROUP})`);
+      expect(card).toContain('Reason: manual');
+      expect(card).toContain('Duration: 60 min');
+      expect(card).toContain('Amount: 2.50 JUNO');
+      expect(card).toContain('Message: https://t.me/c/1234567890/42');
+
+      const [row] = caseRows();
+      const jailEvent = getTestDatabase()
+        .prepare("SELECT id FROM jail_events WHERE event_type = 'jailed'")
+        .get() as { id: number };
+      expect(row).toMatchObject({
+        action: 'jail',
+        user_id: USER,
+        actor_id: ADMIN,
+        jail_event_id: jailEvent.id,
+        modlog_chat_id: MODLOG,
+        modlog_message_id: 1000,
+      });
+    });
+
+    it('should record a bail payment with the payer as actor', async () => {
+      await ModerationActionService.jail({
+        userId: USER,
+        chatId: GROUP,
+        source: 'command',
+        reason: 'manual',
+        durationMinutes: 60,
+      });
+      await ModerationActionService.unjail({
+        userId: USER,
+        source: 'payment',
+        reason: 'bail_paid',
+        bailAmount: 1.5,
+        paidByUserId: ADMIN,
+      });
+
+      const bail = caseRows()[1];
+      expect(bail).toMatchObject({ action: 'bail_paid', actor_id: ADMIN, amount: 1.5 });
+      expect(bail.jail_event_id).not.toBeNull();
+    });
+
+    it("should post to the group's own modlog when it has one", async () => {
+      ChatService.setModlogChatId(GROUP, GROUP_MODLOG, ADMIN);
+
+      await EventBus.publish('list.changed', {
+        userId: USER,
+        actorId: ADMIN,
+        list: 'blacklist',
+        added: true,
+        origin: { chatId: GROUP, messageId: 7 },
+        timestamp: Math.floor(Date.now() / 1000),
+      });
+      await EventBus.publish('role.changed', {
+        userId: USER,
+        actorId: ADMIN,
+        previousRole: 'pleb',
+        role: 'elevated',
+        origin: { chatId: OTHER_GROUP, messageId: 8 },
+        timestamp: Math.floor(Date.now() / 1000),
+      });
+
+      expect(telegram.sendMessage).toHaveBeenNthCalledWith(
+        1,
+        GROUP_MODLOG,
+        expect.stringContaining('Blacklisted'),
+        expect.anything(),
+      );
+      expect(telegram.sendMessage).toHaveBeenNthCalledWith(
+        2,
+        MODLOG,
+        expect.stringContaining('Reason: pleb → elevated'),
+        expect.anything(),
+      );
+    });
+
+    it('should record cases without posting when no modlog is configured', async () => {
+      mockConfig.modlogChatId = 0;
+
+      await EventBus.publish('restriction.changed', {
+        userId: USER,
+        actorId: ADMIN,
+        restriction: 'no_stickers',
+        added: true,
+        timestamp: Math.floor(Date.now() / 1000),
+      });
+
+      expect(telegram.sendMessage).not.toHaveBeenCalled();
+      expect(caseRows()).toHaveLength(1);
+      expect(caseRows()[0]).toMatchObject({ action: 'restriction_added', modlog_message_id: null });
+    });
+
+    it('should keep the case when posting fails', async () => {
+      telegram.sendMessage.mockRejectedValueOnce(new Error('Forbidden: bot is not a member'));
+
+      const modCase = await ModlogService.open({ action: 'kick', userId: USER, actorId: ADMIN, chatId: GROUP });
+
+      expect(ModlogService.getCase(modCase.id)).toMatchObject({ action: 'kick', modlogMessageId: null });
+      expect(StructuredLogger.logError).toHaveBeenCalledWith(
+        expect.any(Error),
+        expect.objectContaining({ operation: 'modlog_post' }),
+      );
+    });
+
+    it('should open a case for admin warnings only', async () => {
+      const violationId = createTestViolation(USER, 'warning', 0);
+      const warning = {
+        warningId: 1,
+        userId: USER,
+        chatId: GROUP,
+        reason: 'spamming',
+        activeWarnings: 2,
+        violationId,
+        timestamp: Math.floor(Date.now() / 1000),
+      };
+
+      await EventBus.publish('user.warned', { ...warning, actorId: null });
+      expect(caseRows()).toHaveLength(0);
+
+      await EventBus.publish('user.warned', { ...warning, actorId: ADMIN });
+      expect(caseRows()[0]).toMatchObject({
+        action: 'warn',
+        reason: 'spamming (2 active)',
+        violation_id: violationId,
+      });
+    });
+  });
+
+  describe('getCase / formatCard', () => {
+    it('should return null for unknown cases', () => {
+      expect(ModlogService.getCase(999)).toBeNull();
+    });
+
+    it('should show automatic network-wide actions', async () => {
+      const modCase = await ModlogService.open({ action: 'violation', userId: USER, reason: 'no_urls', amount: 0.75 });
+      const card = ModlogService.formatCard(modCase);
+
+      expect(card).toContain('Actor: Automatic');
+      expect(card).toContain('Chat: Network-wide');
+      expect(card).toContain('Amount: 0.75 JUNO');
+      expect(card).not.toContain('Message:');
+    });
+  });
+
+  describe('getUserHistory', () => {
+    it("should merge jail events, violations and other cases newest first", async () => {
+      const db = getTestDatabase();
+      await ModerationActionService.jail({
+        userId: USER,
+        chatId: GROUP,
+        source: 'command',
+        reason: 'manual',
+        actorId: ADMIN,
+        durationMinutes: 30,
+      });
+      const violationId = createTestViolation(USER, 'no_urls', 1.25);
+      await EventBus.publish('violation.created', {
+        violationId,
+        userId: USER,
+        restriction: 'no_urls',
+        chatId: GROUP,
+        fineAmount: 1.25,
+        timestamp: Math.floor(Date.now() / 1000),
+      });
+      await EventBus.publish('role.changed', {
+        userId: USER,
+        actorId: ADMIN,
+        previousRole: 'pleb',
+        role: 'elevated',
+        timestamp: Math.floor(Date.now() / 1000),
+      });
+      // An unjail recorded before the modlog existed has no case
+      db.prepare("INSERT INTO jail_events (user_id, event_type, timestamp) VALUES (?, 'unjailed', 100)").run(USER);
+
+      db.prepare('UPDATE jail_events SET timestamp = 1000 WHERE event_type = ?').run('jailed');
+      db.prepare('UPDATE violations SET timestamp = 2000').run();
+      db.prepare("UPDATE moderation_cases SET created_at = 3000 WHERE action = 'role_changed'").run();
+
+      const history = ModlogService.getUserHistory(USER);
+
+      expect(history.map((entry) => entry.caseId)).toEqual([3, 2, 1, null]);
+      expect(history[0].summary).toBe('Role changed: pleb → elevated');
+      expect(history[1].summary).toBe('Violation no_urls, fine 1.25 JUNO (unpaid)');
+      expect(history[1].chatId).toBe(GROUP);
+      expect(history[2].summary).toBe('jailed 30 min (manual)');
+      expect(history[2].actorId).toBe(ADMIN);
+      expect(ModlogService.formatHistoryEntry(history[2])).toContain('#1 · 1970-01-01 00:16 · jailed 30 min (manual) · by @admin');
+    });
+
+    it('should return nothing for users without history', () => {
+      expect(ModlogService.getUserHistory(USER)).toEqual([]);
+    });
+  });
+
+  describe('messageLink', () => {
+    it('should only link supergroup messages', () => {
+      expect(messageLink({ chatId: -1001234567890, messageId: 5 })).toBe('https://t.me/c/1234567890/5');
+      expect(messageLink({ chatId: -4567, messageId: 5 })).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,357 @@
+import { vi, describe, it, expect, beforeEach, beforeAll, afterAll } from 'vitest';
+/**
+ * Unit tests for single-use payment receipts
+ * Tests: src/services/paymentReceiptService.ts
+ */
+
+import {
+  initTestDatabase,
+  cleanTestDatabase,
+  closeTestDatabase,
+  createTestUser,
+  createTestUsers,
+  createTestViolation,
+  getTestBalance,
+  getTestDatabase,
+} from '../helpers/testDatabase';
+
+// Mock database module
+vi.mock('../../src/database', async () => {
+  const testDb = await import('../helpers/testDatabase');
+  return {
+    query: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).all(...params),
+    get: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).get(...params),
+    execute: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).run(...params),
+    withTransaction: testDb.withTestTransaction,
+  };
+});
+
+vi.mock('../../src/config', () => ({
+  config: {
+    groupChatId: -1001234567890,
+    userFundsAddress: 'juno1botwallet',
+    botTreasuryAddress: 'juno1botwallet',
+  },
+}));
+
+vi.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+  StructuredLogger: {
+    logError: vi.fn(),
+    logUserAction: vi.fn(),
+    logTransaction: vi.fn(),
+    logSecurityEvent: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/services/junoService', () => ({
+  JunoService: {
+    getTreasuryPayments: vi.fn(),
+  },
+}));
+
+import { config } from '../../src/config';
+import { DepositCodeService } from '../../src/services/depositCodeService';
+import { DepositMonitor } from '../../src/services/depositMonitor';
+import { JunoService } from '../../src/services/junoService';
+import { LedgerService } from '../../src/services/ledgerService';
+import { PaymentReceiptService } from '../../src/services/paymentReceiptService';
+import { markViolationPaid } from '../../src/services/violationService';
+import { WithdrawalQueueService } from '../../src/services/withdrawalQueue';
+import { StructuredLogger } from '../../src/utils/logger';
+
+const PLEB = 444444444;
+const PAYER = 555555555;
+const TREASURY = -1;
+const UNCLAIMED = -3;
+const SENDER = 'juno1sender';
+const PAYMENT_HASH = 'PAYMENT_HASH';
+
+/** Makes the chain return one payment message per amount (in JUNO) */
+function mockPayments(...amounts: number[]) {
+  mockPaymentsWithMemo('', ...amounts);
+}
+
+function mockPaymentsWithMemo(memo: string, ...amounts: number[]) {
+  vi.mocked(JunoService.getTreasuryPayments).mockResolvedValue(
+    amounts.map((amount, msgIndex) => ({
+      msgIndex,
+      fromAddress: SENDER,
+      amountMicro: amount * 1_000_000,
+      memo,
+    })),
+  );
+}
+
+/** Records an earlier deposit from the sender, linking it to a user */
+function linkSender(userId: number, txHash = `EARLIER_DEPOSIT_${userId}`) {
+  getTestDatabase()
+    .prepare(
+      `INSERT INTO processed_deposits (tx_hash, user_id, amount, from_address, memo, height, processed)
+       VALUES (?, ?, ?, ?, ?, ?, 1)`,
+    )
+    .run(txHash, userId, 1, SENDER, 'code', 50);
+}
+
+function refundRequests() {
+  return getTestDatabase()
+    .prepare('SELECT id, user_id, to_address, amount_ujuno, ledger_transaction_id FROM withdrawal_requests')
+    .all() as Array<{
+    id: number;
+    user_id: number;
+    to_address: string;
+    amount_ujuno: number;
+    ledger_transaction_id: number | null;
+  }>;
+}
+
+function violationPaid(id: number): number {
+  return (getTestDatabase().prepare('SELECT paid FROM violations WHERE id = ?').get(id) as { paid: number }).paid;
+}
+
+describe('payment receipts', () => {
+  beforeAll(() => {
+    initTestDatabase();
+  });
+
+  afterAll(() => {
+    closeTestDatabase();
+  });
+
+  beforeEach(() => {
+    cleanTestDatabase();
+    createTestUsers();
+    createTestUser(TREASURY, 'treasury', 'system');
+    createTestUser(UNCLAIMED, 'unclaimed', 'system');
+    vi.clearAllMocks();
+    vi.spyOn(WithdrawalQueueService, 'isEnabled').mockReturnValue(true);
+    config.botTreasuryAddress = 'juno1botwallet';
+    linkSender(PLEB);
+    linkSender(PAYER);
+  });
+
+  it('should settle a fine and record the receipt', async () => {
+    const violationId = createTestViolation(PLEB, 'no_stickers', 10);
+    mockPayments(10);
+
+    const result = await PaymentReceiptService.redeem(PAYMENT_HASH, 10, 'fine', violationId, PLEB, () =>
+      markViolationPaid(violationId, PAYMENT_HASH, PLEB),
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.receipt).toMatchObject({
+      txHash: PAYMENT_HASH,
+      msgIndex: 0,
+      payerAddress: SENDER,
+      appliedTo: 'fine',
+      appliedRef: violationId,
+      appliedMicro: 10_000_000,
+      overpaidMicro: 0,
+      redeemedBy: PLEB,
+    });
+    expect(violationPaid(violationId)).toBe(1);
+    expect(getTestBalance(TREASURY)).toBe(10);
+    expect(PaymentReceiptService.isReceipt(PAYMENT_HASH.toLowerCase())).toBe(true);
+  });
+
+  it('should reject a payment that was already used', async () => {
+    const first = createTestViolation(PLEB, 'no_stickers', 10);
+    const second = createTestViolation(PLEB, 'no_urls', 10);
+    mockPayments(10);
+
+    await PaymentReceiptService.redeem(PAYMENT_HASH, 10, 'fine', first, PLEB, () =>
+      markViolationPaid(first, PAYMENT_HASH, PLEB),
+    );
+    const apply = vi.fn();
+    const result = await PaymentReceiptService.redeem(PAYMENT_HASH, 10, 'bail', PLEB, PLEB, apply);
+
+    expect(result).toEqual({ success: false, error: 'This payment was already used.' });
+    expect(apply).not.toHaveBeenCalled();
+    expect(violationPaid(second)).toBe(0);
+    expect(getTestBalance(TREASURY)).toBe(10);
+    expect(StructuredLogger.logSecurityEvent).toHaveBeenCalledWith(
+      'Payment receipt rejected',
+      expect.objectContaining({ userId: PLEB, purpose: 'bail' }),
+    );
+  });
+
+  it('should use each payment message of a tx once', async () => {
+    mockPayments(5, 5);
+
+    const first = await PaymentReceiptService.redeem(PAYMENT_HASH, 5, 'bail', PLEB, PAYER, vi.fn());
+    const second = await PaymentReceiptService.redeem(PAYMENT_HASH, 5, 'bail', PAYER, PAYER, vi.fn());
+    const third = await PaymentReceiptService.redeem(PAYMENT_HASH, 5, 'bail', PLEB, PAYER, vi.fn());
+
+    expect(first.receipt?.msgIndex).toBe(0);
+    expect(second.receipt?.msgIndex).toBe(1);
+    expect(third.success).toBe(false);
+    expect(PaymentReceiptService.getReceipts(PAYMENT_HASH)).toHaveLength(2);
+  });
+
+  it('should accept a payment carrying the deposit code of the redeemer', async () => {
+    const stranger = 777777777;
+    createTestUser(stranger, 'stranger');
+    mockPaymentsWithMemo(DepositCodeService.getCode(stranger), 10);
+
+    const result = await PaymentReceiptService.redeem(PAYMENT_HASH, 10, 'bail', stranger, stranger, vi.fn());
+
+    expect(result.success).toBe(true);
+    expect(result.receipt?.redeemedBy).toBe(stranger);
+  });
+
+  it('should reject a payment sent from a wallet not linked to the redeemer', async () => {
+    const stranger = 777777777;
+    createTestUser(stranger, 'stranger');
+    mockPaymentsWithMemo(DepositCodeService.getCode(PAYER), 10);
+
+    const apply = vi.fn();
+    const result = await PaymentReceiptService.redeem(PAYMENT_HASH, 10, 'bail', PLEB, stranger, apply);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('not sent from a wallet linked to you');
+    expect(apply).not.toHaveBeenCalled();
+    expect(PaymentReceiptService.isReceipt(PAYMENT_HASH)).toBe(false);
+  });
+
+  it('should reject an underpayment', async () => {
+    mockPayments(9);
+
+    const result = await PaymentReceiptService.redeem(PAYMENT_HASH, 10, 'bail', PLEB, PLEB, vi.fn());
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('less than');
+    expect(PaymentReceiptService.isReceipt(PAYMENT_HASH)).toBe(false);
+  });
+
+  it('should refund an overpayment on chain to the paying address', async () => {
+    mockPayments(12.5);
+
+    const result = await PaymentReceiptService.redeem(PAYMENT_HASH, 10, 'bail', PLEB, PAYER, vi.fn());
+
+    const [refund] = refundRequests();
+    expect(refund).toMatchObject({ user_id: TREASURY, to_address: SENDER, amount_ujuno: 2_500_000 });
+    expect(refund.ledger_transaction_id).not.toBeNull();
+    expect(result.receipt).toMatchObject({
+      appliedMicro: 10_000_000,
+      overpaidMicro: 2_500_000,
+      refundRequestId: refund.id,
+    });
+    expect(getTestBalance(TREASURY)).toBe(10);
+    expect(getTestBalance(PAYER)).toBe(0);
+    expect(getTestBalance(PLEB)).toBe(0);
+  });
+
+  it('should refund an overpayment from the treasury account when the treasury is a separate wallet', async () => {
+    config.botTreasuryAddress = 'juno1treasury';
+    await LedgerService.processDeposit(TREASURY, 5, 'FINES_PAID', 'internal');
+    mockPayments(12);
+
+    const result = await PaymentReceiptService.redeem(PAYMENT_HASH, 10, 'bail', PLEB, PAYER, vi.fn());
+
+    expect(result.success).toBe(true);
+    expect(refundRequests()).toEqual([expect.objectContaining({ to_address: SENDER, amount_ujuno: 2_000_000 })]);
+    expect(getTestBalance(TREASURY)).toBe(3);
+    expect(getTestBalance(PAYER)).toBe(0);
+  });
+
+  it('should reject an overpayment the treasury account cannot refund', async () => {
+    config.botTreasuryAddress = 'juno1treasury';
+    mockPayments(12);
+
+    const apply = vi.fn();
+    const result = await PaymentReceiptService.redeem(PAYMENT_HASH, 10, 'bail', PLEB, PAYER, apply);
+
+    expect(result).toEqual({
+      success: false,
+      error: 'Overpayments cannot be refunded right now. Please contact an admin.',
+    });
+    expect(apply).not.toHaveBeenCalled();
+    expect(refundRequests()).toHaveLength(0);
+    expect(PaymentReceiptService.isReceipt(PAYMENT_HASH)).toBe(false);
+  });
+
+  it('should reject an overpayment while withdrawals are not enabled', async () => {
+    vi.mocked(WithdrawalQueueService.isEnabled).mockReturnValue(false);
+    mockPayments(12);
+
+    const result = await PaymentReceiptService.redeem(PAYMENT_HASH, 10, 'bail', PLEB, PAYER, vi.fn());
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('cannot be refunded');
+    expect(getTestBalance(TREASURY)).toBe(0);
+  });
+
+  it('should roll back the receipt when settling fails', async () => {
+    mockPayments(10);
+
+    const result = await PaymentReceiptService.redeem(PAYMENT_HASH, 10, 'bail', PLEB, PLEB, () => {
+      throw new Error('boom');
+    });
+
+    expect(result).toEqual({ success: false, error: 'Failed to apply the payment.' });
+    expect(PaymentReceiptService.isReceipt(PAYMENT_HASH)).toBe(false);
+    expect(getTestBalance(TREASURY)).toBe(0);
+  });
+
+  it('should reject a tx that was credited to a user as a deposit', async () => {
+    mockPayments(10);
+    await LedgerService.processDeposit(PLEB, 10, PAYMENT_HASH, SENDER);
+    getTestDatabase()
+      .prepare(
+        `INSERT INTO processed_deposits (tx_hash, user_id, amount, from_address, memo, height, processed)
+         VALUES (?, ?, ?, ?, ?, ?, 1)`,
+      )
+      .run(PAYMENT_HASH, PLEB, 10, SENDER, 'code', 100);
+
+    const apply = vi.fn();
+    const result = await PaymentReceiptService.redeem(PAYMENT_HASH, 10, 'bail', PLEB, PLEB, apply);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('already credited as a deposit');
+    expect(apply).not.toHaveBeenCalled();
+    expect(getTestBalance(PLEB)).toBe(10);
+  });
+
+  it('should not redeem a payment held as an unclaimed deposit', async () => {
+    mockPayments(10);
+    await LedgerService.processDeposit(UNCLAIMED, 10, PAYMENT_HASH, SENDER);
+    linkSender(UNCLAIMED, PAYMENT_HASH);
+
+    const apply = vi.fn();
+    const result = await PaymentReceiptService.redeem(PAYMENT_HASH, 10, 'bail', PLEB, PAYER, apply);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('/claimmydeposit');
+    expect(apply).not.toHaveBeenCalled();
+    expect(getTestBalance(UNCLAIMED)).toBe(10);
+    expect(getTestBalance(TREASURY)).toBe(0);
+    expect(
+      getTestDatabase().prepare('SELECT user_id FROM processed_deposits WHERE tx_hash = ?').get(PAYMENT_HASH),
+    ).toEqual({ user_id: UNCLAIMED });
+  });
+
+  it('should keep the deposit monitor from crediting a redeemed payment', async () => {
+    mockPayments(10);
+    await PaymentReceiptService.redeem(PAYMENT_HASH, 10, 'bail', PLEB, PLEB, vi.fn());
+
+    const processed = await DepositMonitor['processDeposit']({
+      txHash: PAYMENT_HASH,
+      userId: PLEB,
+      amount: 10,
+      denom: 'ujuno',
+      fromAddress: SENDER,
+      memo: '',
+      height: 100,
+      timestamp: Math.floor(Date.now() / 1000),
+    });
+
+    expect(processed).toBe(false);
+    expect(getTestBalance(PLEB)).toBe(0);
+    expect(getTestBalance(TREASURY)).toBe(10);
+  });
+});
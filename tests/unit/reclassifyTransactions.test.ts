@@ -0,0 +1,129 @@
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+/**
+ * Unit tests for the ledger transaction type reclassification migration
+ * Tests: src/migrations/reclassifyTransactions.ts
+ */
+
+import Database from 'better-sqlite3';
+
+vi.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+import { runSchemaMigrations } from '../../src/migrations';
+import { reclassifyTransactionsMigration } from '../../src/migrations/reclassifyTransactions';
+
+const HASH = 'ABCDEF0123456789ABCDEF0123456789ABCDEF0123456789ABCDEF0123456789';
+const ESCROW = -1000001;
+
+describe('reclassify transactions migration', () => {
+  let db: Database.Database;
+
+  /**
+   * Inserts a legacy row and returns its id
+   */
+  function insert(row: {
+    type: string;
+    from?: number;
+    to?: number;
+    description: string;
+    txHash?: string;
+    metadata?: string;
+  }): number {
+    return Number(
+      db
+        .prepare(
+          `INSERT INTO transactions (transaction_type, from_user_id, to_user_id, amount_ujuno, description, tx_hash, metadata)
+           VALUES (?, ?, ?, 1000000, ?, ?, ?)`,
+        )
+        .run(row.type, row.from ?? null, row.to ?? null, row.description, row.txHash ?? null, row.metadata ?? null)
+        .lastInsertRowid,
+    );
+  }
+
+  function row(id: number): { transaction_type: string; parent_transaction_id: number | null } {
+    return db
+      .prepare('SELECT transaction_type, parent_transaction_id FROM transactions WHERE id = ?')
+      .get(id) as { transaction_type: string; parent_transaction_id: number | null };
+  }
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    db.exec(`
+      CREATE TABLE transactions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        transaction_type TEXT NOT NULL,
+        from_user_id INTEGER,
+        to_user_id INTEGER,
+        amount_ujuno INTEGER NOT NULL,
+        description TEXT,
+        tx_hash TEXT,
+        metadata TEXT,
+        parent_transaction_id INTEGER
+      );
+    `);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should reclassify withdrawal refunds and gas fees with their parents', () => {
+    const withdrawal = insert({ type: 'withdrawal', from: 7, description: 'Withdrawal to juno1x', txHash: HASH });
+    const fee = insert({
+      type: 'fine',
+      from: -2,
+      description: `Gas fee for withdrawal ${HASH.slice(0, 16)}...`,
+      metadata: '{"type":"reconciliation_adjustment","direction":"debit"}',
+    });
+    const refund = insert({ type: 'giveaway', to: 7, description: 'Withdrawal refund - transaction failed' });
+
+    runSchemaMigrations(db, [reclassifyTransactionsMigration]);
+
+    expect(row(fee)).toEqual({ transaction_type: 'gas_fee', parent_transaction_id: withdrawal });
+    expect(row(refund)).toEqual({ transaction_type: 'refund', parent_transaction_id: withdrawal });
+  });
+
+  it('should reclassify reconciliation adjustments but not real fines or giveaways', () => {
+    const credit = insert({
+      type: 'giveaway',
+      to: -2,
+      description: '[CREDIT] found funds',
+      metadata: '{"type":"reconciliation_adjustment","direction":"credit"}',
+    });
+    const fine = insert({ type: 'fine', from: 7, description: 'Fine payment', metadata: '{"violationId":3}' });
+    const giveaway = insert({ type: 'giveaway', to: 7, description: 'Giveaway/Airdrop' });
+
+    runSchemaMigrations(db, [reclassifyTransactionsMigration]);
+
+    expect(row(credit).transaction_type).toBe('adjustment');
+    expect(row(fine).transaction_type).toBe('fine');
+    expect(row(giveaway).transaction_type).toBe('giveaway');
+  });
+
+  it('should reclassify giveaway escrow moves and duels', () => {
+    const lock = insert({ type: 'transfer', from: 7, to: ESCROW, description: 'Giveaway #1 escrow funding' });
+    const claim = insert({ type: 'transfer', from: ESCROW, to: 8, description: 'Giveaway #1 claim' });
+    const cancel = insert({ type: 'transfer', from: ESCROW, to: 7, description: 'Refund from cancelled giveaway #1' });
+    const duel = insert({ type: 'gambling', from: 8, to: 7, description: 'Duel #4 - opponent lost' });
+    const transfer = insert({ type: 'transfer', from: 7, to: 8, description: 'Transfer to user 8' });
+
+    runSchemaMigrations(db, [reclassifyTransactionsMigration]);
+
+    expect(row(lock)).toEqual({ transaction_type: 'escrow_lock', parent_transaction_id: null });
+    expect(row(claim)).toEqual({ transaction_type: 'escrow_release', parent_transaction_id: lock });
+    expect(row(cancel)).toEqual({ transaction_type: 'escrow_release', parent_transaction_id: lock });
+    expect(row(duel).transaction_type).toBe('duel_wager');
+    expect(row(transfer).transaction_type).toBe('transfer');
+  });
+
+  it('should only run once', () => {
+    expect(runSchemaMigrations(db, [reclassifyTransactionsMigration])).toEqual(['003_reclassify_transactions']);
+    expect(runSchemaMigrations(db, [reclassifyTransactionsMigration])).toEqual([]);
+  });
+});
@@ -0,0 +1,152 @@
+import { vi, describe, it, expect, beforeAll, beforeEach, afterAll } from 'vitest';
+/**
+ * Unit tests for RPC transaction verification
+ * Tests: src/services/rpcTransactionVerification.ts (verifyDeposit)
+ *
+ * Transactions are real signed TxRaw fixtures, served by a mocked RPC.
+ */
+
+import {
+  initTestDatabase,
+  cleanTestDatabase,
+  closeTestDatabase,
+  createTestUsers,
+  getTestDatabase,
+} from '../helpers/testDatabase';
+
+vi.mock('../../src/database', async () => {
+  const testDb = await import('../helpers/testDatabase');
+  return {
+    query: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).all(...params),
+    get: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).get(...params),
+    execute: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).run(...params),
+    withTransaction: testDb.withTestTransaction,
+  };
+});
+
+vi.mock('../../src/config', () => ({
+  config: {
+    junoRpcUrl: 'https://rpc.test',
+    userFundsAddress: 'juno19rl4cm2hmr8afy4kldpxz3fka4jguq0a2jwxcf',
+    acceptLegacyDepositMemos: true,
+  },
+}));
+
+vi.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+  StructuredLogger: {
+    logError: vi.fn(),
+    logUserAction: vi.fn(),
+    logTransaction: vi.fn(),
+    logSecurityEvent: vi.fn(),
+  },
+}));
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+import { RPCTransactionVerification } from '../../src/services/rpcTransactionVerification';
+import { CODE_MEMO_TX, DEPOSIT_ADDRESS, FEE_PAYER_TX, SENDER_ADDRESS } from '../fixtures/depositTxs';
+
+const PLEB = 444444444;
+const OTHER = 555555555;
+
+/**
+ * Serves a transaction from the mocked RPC /tx endpoint, with the transfer
+ * event for the amount sent to the deposit address
+ */
+function serveTx(tx: string, amount: string): void {
+  mockFetch.mockResolvedValue({
+    ok: true,
+    json: async () => ({
+      jsonrpc: '2.0',
+      id: -1,
+      result: {
+        hash: 'HASH',
+        height: '100',
+        index: 0,
+        tx,
+        tx_result: {
+          code: 0,
+          data: '',
+          log: '',
+          info: '',
+          gas_wanted: '200000',
+          gas_used: '90000',
+          codespace: '',
+          events: [
+            {
+              type: 'transfer',
+              attributes: [
+                { key: 'recipient', value: DEPOSIT_ADDRESS, index: true },
+                { key: 'sender', value: SENDER_ADDRESS, index: true },
+                { key: 'amount', value: amount, index: true },
+              ],
+            },
+          ],
+        },
+      },
+    }),
+  });
+}
+
+describe('RPCTransactionVerification', () => {
+  beforeAll(() => {
+    initTestDatabase();
+  });
+
+  afterAll(() => {
+    closeTestDatabase();
+  });
+
+  beforeEach(() => {
+    cleanTestDatabase();
+    createTestUsers();
+    vi.clearAllMocks();
+  });
+
+  describe('verifyDeposit', () => {
+    it('should accept a deposit whose memo is the user\'s deposit code', async () => {
+      getTestDatabase().prepare('INSERT INTO deposit_codes (code, user_id) VALUES (?, ?)').run('YATW8E42', PLEB);
+      serveTx(CODE_MEMO_TX, '5000000ujuno');
+
+      const result = await RPCTransactionVerification.verifyDeposit('HASH', DEPOSIT_ADDRESS, PLEB);
+
+      expect(mockFetch).toHaveBeenCalledWith('https://rpc.test/tx?hash=0xHASH&prove=false');
+      expect(result).toEqual({ valid: true, amount: 5, memo: 'YATW-8E42', sender: SENDER_ADDRESS });
+    });
+
+    it('should reject a deposit code belonging to someone else', async () => {
+      getTestDatabase().prepare('INSERT INTO deposit_codes (code, user_id) VALUES (?, ?)').run('YATW8E42', OTHER);
+      serveTx(CODE_MEMO_TX, '5000000ujuno');
+
+      const result = await RPCTransactionVerification.verifyDeposit('HASH', DEPOSIT_ADDRESS, PLEB);
+
+      expect(result.valid).toBe(false);
+      expect(result.memo).toBe('YATW-8E42');
+      expect(result.error).toContain("another user's deposit code");
+    });
+
+    it('should read a legacy numeric memo whatever the amount', async () => {
+      serveTx(FEE_PAYER_TX, '250000ujuno');
+
+      const result = await RPCTransactionVerification.verifyDeposit('HASH', DEPOSIT_ADDRESS, 987654);
+
+      expect(result).toEqual({ valid: true, amount: 0.25, memo: '987654', sender: SENDER_ADDRESS });
+    });
+
+    it('should reject a transaction that cannot be decoded instead of guessing its memo', async () => {
+      serveTx(Buffer.from('not a transaction 987654').toString('base64'), '250000ujuno');
+
+      const result = await RPCTransactionVerification.verifyDeposit('HASH', DEPOSIT_ADDRESS, 987654);
+
+      expect(result.valid).toBe(false);
+      expect(result.memo).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,288 @@
+import { vi, describe, it, expect, beforeEach, beforeAll, afterAll } from 'vitest';
+/**
+ * Unit tests for the rules engine
+ * Tests: src/services/ruleService.ts, rule escalation in src/services/restrictionService.ts
+ */
+
+import { Context } from 'telegraf';
+import {
+  initTestDatabase,
+  cleanTestDatabase,
+  closeTestDatabase,
+  createTestUser,
+  getTestDatabase,
+} from '../helpers/testDatabase';
+import { createPlebContext, getReplyText } from '../helpers/mockContext';
+
+// Mock database module
+vi.mock('../../src/database', async () => {
+  const testDb = await import('../helpers/testDatabase');
+  return {
+    query: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).all(...params),
+    get: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).get(...params),
+    execute: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).run(...params),
+  };
+});
+
+vi.mock('../../src/config', () => ({
+  config: {
+    groupChatId: -1001234567890,
+    adminChatId: -9000,
+  },
+}));
+
+vi.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+  StructuredLogger: {
+    logError: vi.fn(),
+    logUserAction: vi.fn(),
+    logTransaction: vi.fn(),
+    logSecurityEvent: vi.fn(),
+  },
+}));
+
+// Fixed price: $1 = 10 JUNO
+vi.mock('../../src/services/priceService', () => ({
+  PriceService: {
+    usdToJuno: vi.fn(async (usd: number) => usd * 10),
+    calculateBailAmount: vi.fn().mockResolvedValue(3),
+    calculateViolationFine: vi.fn().mockResolvedValue(1),
+  },
+}));
+
+import { RuleService } from '../../src/services/ruleService';
+import { RestrictionService } from '../../src/services/restrictionService';
+import { addUserRestriction } from '../../src/services/userService';
+
+const GROUP = -1001234567890;
+const OTHER_GROUP = -1009999;
+const ADMIN = 111111111;
+const PLEB = 444444444;
+
+describe('Rules Engine', () => {
+  beforeAll(() => {
+    initTestDatabase();
+  });
+
+  beforeEach(() => {
+    cleanTestDatabase();
+    createTestUser(PLEB, 'pleb', 'pleb');
+    vi.clearAllMocks();
+  });
+
+  afterAll(() => {
+    closeTestDatabase();
+  });
+
+  describe('parseEscalation', () => {
+    it('should parse every step type', () => {
+      expect(RuleService.parseEscalation('warn,fine:1.5,mute:30,jail:1440,ban')).toEqual([
+        { action: 'warn' },
+        { action: 'fine', fineUsd: 1.5 },
+        { action: 'mute', minutes: 30 },
+        { action: 'jail', minutes: 1440 },
+        { action: 'ban' },
+      ]);
+    });
+
+    it('should apply default durations', () => {
+      expect(RuleService.parseEscalation('mute,jail')).toEqual([
+        { action: 'mute', minutes: 30 },
+        { action: 'jail', minutes: 1440 },
+      ]);
+    });
+
+    it('should reject invalid ladders', () => {
+      expect(() => RuleService.parseEscalation('')).toThrow(/empty/);
+      expect(() => RuleService.parseEscalation('warn,kick')).toThrow(/Unknown escalation step/);
+      expect(() => RuleService.parseEscalation('fine')).toThrow(/USD amount/);
+      expect(() => RuleService.parseEscalation('fine:-1')).toThrow(/USD amount/);
+      expect(() => RuleService.parseEscalation('jail:1.5')).toThrow(/minutes/);
+      expect(() => RuleService.parseEscalation('ban:5')).toThrow(/does not take a value/);
+    });
+
+    it('should format a ladder back into its command syntax', () => {
+      const ladder = 'warn,fine:2,mute:15,jail:60,ban';
+      expect(RuleService.formatEscalation(RuleService.parseEscalation(ladder))).toBe(ladder);
+    });
+  });
+
+  describe('rule management', () => {
+    it('should add, edit and remove rules', () => {
+      const ruleId = RuleService.addRule(
+        'no_urls',
+        'spam.com',
+        RuleService.parseEscalation('warn,ban'),
+        'No spam links',
+        GROUP,
+        ADMIN,
+      );
+
+      expect(RuleService.getRule(ruleId)).toMatchObject({
+        type: 'no_urls',
+        matchValue: 'spam.com',
+        description: 'No spam links',
+        chatId: GROUP,
+        createdBy: ADMIN,
+        escalation: [{ action: 'warn' }, { action: 'ban' }],
+      });
+
+      expect(RuleService.updateRule(ruleId, { matchValue: null, severity: 5 }, ADMIN)).toBe(true);
+      expect(RuleService.getRule(ruleId)).toMatchObject({ matchValue: null, severity: 5 });
+
+      expect(RuleService.removeRule(ruleId, ADMIN)).toBe(true);
+      expect(RuleService.getRule(ruleId)).toBeNull();
+      expect(RuleService.removeRule(ruleId, ADMIN)).toBe(false);
+      expect(RuleService.updateRule(ruleId, { severity: 1 }, ADMIN)).toBe(false);
+    });
+
+    it('should list network-wide rules and the rules of a chat', () => {
+      const ladder = RuleService.parseEscalation('warn');
+      RuleService.addRule('no_urls', null, ladder, null, null, ADMIN);
+      RuleService.addRule('no_stickers', null, ladder, null, GROUP, ADMIN);
+      RuleService.addRule('no_gifs', null, ladder, null, OTHER_GROUP, ADMIN);
+
+      expect(RuleService.listRules(GROUP).map((r) => r.type)).toEqual(['no_urls', 'no_stickers']);
+      expect(RuleService.listRules()).toHaveLength(3);
+    });
+  });
+
+  describe('resolveRule', () => {
+    const ladder = RuleService.parseEscalation('warn');
+
+    it('should return null when no rule matches', () => {
+      RuleService.addRule('no_urls', 'spam.com', ladder, null, null, ADMIN);
+
+      expect(RuleService.resolveRule('no_stickers', undefined, GROUP)).toBeNull();
+      expect(RuleService.resolveRule('no_urls', 'other.com', GROUP)).toBeNull();
+      expect(RuleService.resolveRule('no_urls', undefined, GROUP)).toBeNull();
+    });
+
+    it('should prefer chat-specific rules over network-wide rules', () => {
+      RuleService.addRule('no_urls', null, ladder, 'network', null, ADMIN, 10);
+      const chatRule = RuleService.addRule('no_urls', null, ladder, 'chat', GROUP, ADMIN);
+
+      expect(RuleService.resolveRule('no_urls', undefined, GROUP)?.id).toBe(chatRule);
+      expect(RuleService.resolveRule('no_urls', undefined, OTHER_GROUP)?.description).toBe('network');
+    });
+
+    it('should prefer rules with a match value over catch-all rules', () => {
+      RuleService.addRule('no_urls', null, ladder, null, null, ADMIN, 10);
+      const specific = RuleService.addRule('no_urls', 'spam.com', ladder, null, null, ADMIN);
+
+      expect(RuleService.resolveRule('no_urls', 'spam.com', GROUP)?.id).toBe(specific);
+    });
+
+    it('should prefer the highest severity', () => {
+      RuleService.addRule('no_urls', null, ladder, null, null, ADMIN, 1);
+      const severe = RuleService.addRule('no_urls', null, ladder, null, null, ADMIN, 3);
+
+      expect(RuleService.resolveRule('no_urls', undefined, GROUP)?.id).toBe(severe);
+    });
+  });
+
+  describe('getEscalation', () => {
+    it('should climb the ladder with each recent violation and repeat the last step', () => {
+      const ruleId = RuleService.addRule(
+        'no_urls',
+        null,
+        RuleService.parseEscalation('warn,fine:1,ban'),
+        null,
+        null,
+        ADMIN,
+      );
+      const rule = RuleService.getRule(ruleId)!;
+      const addViolation = (timestamp: number) =>
+        getTestDatabase()
+          .prepare('INSERT INTO violations (user_id, rule_id, restriction, timestamp) VALUES (?, ?, ?, ?)')
+          .run(PLEB, ruleId, 'no_urls', timestamp);
+      const now = Math.floor(Date.now() / 1000);
+
+      expect(RuleService.getEscalation(rule, PLEB).step).toEqual({ action: 'warn' });
+
+      // Violations outside the escalation window are ignored
+      addViolation(now - 31 * 24 * 60 * 60);
+      expect(RuleService.getEscalation(rule, PLEB).stepIndex).toBe(0);
+
+      addViolation(now);
+      expect(RuleService.getEscalation(rule, PLEB).step).toEqual({ action: 'fine', fineUsd: 1 });
+
+      addViolation(now);
+      addViolation(now);
+      const escalation = RuleService.getEscalation(rule, PLEB);
+      expect(escalation.step).toEqual({ action: 'ban' });
+      expect(escalation.priorViolations).toBe(3);
+    });
+  });
+
+  describe('RestrictionService rule enforcement', () => {
+    const sendUrl = async () => {
+      const ctx = createPlebContext({ messageText: 'visit https://spam.com/now' });
+      const violated = await RestrictionService.checkMessage(ctx as Context, (ctx as any).message);
+      expect(violated).toBe(true);
+      return ctx;
+    };
+
+    const getViolations = () =>
+      getTestDatabase()
+        .prepare('SELECT rule_id, bail_amount FROM violations WHERE user_id = ? ORDER BY id')
+        .all(PLEB) as { rule_id: number | null; bail_amount: number }[];
+
+    beforeEach(() => {
+      addUserRestriction(PLEB, 'no_urls', 'spam.com');
+    });
+
+    it('should record the matching rule and follow its ladder', async () => {
+      const ruleId = RuleService.addRule(
+        'no_urls',
+        'spam.com',
+        RuleService.parseEscalation('warn,fine:2,mute:15,ban'),
+        'No spam links',
+        GROUP,
+        ADMIN,
+      );
+
+      const warned = await sendUrl();
+      expect(getReplyText(warned)).toContain('Warning 1/4');
+
+      const fined = await sendUrl();
+      expect(getReplyText(fined)).toContain('20.00 JUNO');
+
+      const muted = await sendUrl();
+      expect(muted.telegram!.restrictChatMember).toHaveBeenCalledWith(
+        GROUP,
+        PLEB,
+        expect.objectContaining({ until_date: expect.any(Number) }),
+      );
+      const jail = getTestDatabase()
+        .prepare('SELECT chat_id FROM user_jails WHERE user_id = ?')
+        .get(PLEB) as { chat_id: number };
+      expect(jail.chat_id).toBe(GROUP);
+
+      const banned = await sendUrl();
+      expect(banned.telegram!.banChatMember).toHaveBeenCalledWith(GROUP, PLEB);
+
+      expect(getViolations()).toEqual([
+        { rule_id: ruleId, bail_amount: 0 },
+        { rule_id: ruleId, bail_amount: 20 },
+        { rule_id: ruleId, bail_amount: 0 },
+        { rule_id: ruleId, bail_amount: 0 },
+      ]);
+    });
+
+    it('should ignore rules of other chats and fall back to severity penalties', async () => {
+      RuleService.addRule('no_urls', null, RuleService.parseEscalation('ban'), null, OTHER_GROUP, ADMIN);
+
+      const ctx = await sendUrl();
+
+      expect(ctx.telegram!.banChatMember).not.toHaveBeenCalled();
+      expect(getReplyText(ctx)).toContain('Violations in last hour: 1/5');
+      expect(getViolations()).toEqual([{ rule_id: null, bail_amount: 1 }]);
+    });
+  });
+});
@@ -163,16 +163,18 @@ function initTestDatabase(): void {
       whitelist INTEGER DEFAULT 0,
       blacklist INTEGER DEFAULT 0,
       warning_count INTEGER DEFAULT 0,
-      muted_until INTEGER,
+      username_changed_at INTEGER,
       created_at INTEGER DEFAULT (strftime('%s', 'now')),
       updated_at INTEGER DEFAULT (strftime('%s', 'now'))
     );
 
     CREATE TABLE IF NOT EXISTS user_balances (
-      user_id INTEGER PRIMARY KEY,
-      balance REAL DEFAULT 0,
+      user_id INTEGER NOT NULL,
+      denom TEXT NOT NULL DEFAULT 'ujuno',
+      balance_ujuno INTEGER NOT NULL DEFAULT 0,
       last_updated INTEGER DEFAULT (strftime('%s', 'now')),
       created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      PRIMARY KEY (user_id, denom),
       FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
     );
 
@@ -181,18 +183,30 @@ function initTestDatabase(): void {
       transaction_type TEXT NOT NULL,
       from_user_id INTEGER,
       to_user_id INTEGER,
-      amount REAL NOT NULL,
-      balance_after REAL,
+      amount_ujuno INTEGER NOT NULL,
+      balance_after_ujuno INTEGER,
       description TEXT,
       tx_hash TEXT,
       external_address TEXT,
       status TEXT DEFAULT 'completed',
       created_at INTEGER DEFAULT (strftime('%s', 'now')),
       metadata TEXT,
+      parent_transaction_id INTEGER,
+      denom TEXT NOT NULL DEFAULT 'ujuno',
       FOREIGN KEY (from_user_id) REFERENCES users(id),
       FOREIGN KEY (to_user_id) REFERENCES users(id)
     );
 
+    CREATE TABLE IF NOT EXISTS ledger_postings (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      transaction_id INTEGER NOT NULL,
+      account_id INTEGER NOT NULL,
+      amount_ujuno INTEGER NOT NULL,
+      denom TEXT NOT NULL DEFAULT 'ujuno',
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      FOREIGN KEY (transaction_id) REFERENCES transactions(id)
+    );
+
     CREATE TABLE IF NOT EXISTS violations (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       user_id INTEGER NOT NULL,
@@ -220,11 +234,21 @@ function initTestDatabase(): void {
       payment_tx TEXT,
       timestamp INTEGER DEFAULT (strftime('%s', 'now')),
       metadata TEXT,
+      chat_id INTEGER,
       FOREIGN KEY (user_id) REFERENCES users(id),
       FOREIGN KEY (admin_id) REFERENCES users(id),
       FOREIGN KEY (paid_by_user_id) REFERENCES users(id)
     );
 
+    CREATE TABLE IF NOT EXISTS user_jails (
+      user_id INTEGER NOT NULL,
+      chat_id INTEGER NOT NULL DEFAULT 0,
+      muted_until INTEGER NOT NULL,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      PRIMARY KEY (user_id, chat_id),
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    );
+
     CREATE TABLE IF NOT EXISTS user_restrictions (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       user_id INTEGER NOT NULL,
@@ -246,7 +270,28 @@ function initTestDatabase(): void {
       restricted_action TEXT,
       metadata TEXT,
       restricted_until INTEGER,
-      created_at INTEGER DEFAULT (strftime('%s', 'now'))
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      chat_id INTEGER
+    );
+
+    CREATE TABLE IF NOT EXISTS warnings (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      chat_id INTEGER,
+      reason TEXT NOT NULL,
+      issued_by INTEGER,
+      violation_id INTEGER,
+      created_at INTEGER DEFAULT (strftime('%s', 'now')),
+      expires_at INTEGER,
+      FOREIGN KEY (user_id) REFERENCES users(id),
+      FOREIGN KEY (issued_by) REFERENCES users(id),
+      FOREIGN KEY (violation_id) REFERENCES violations(id) ON DELETE SET NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS system_state (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL,
+      updated_at INTEGER DEFAULT (strftime('%s', 'now'))
     );
 
     CREATE TABLE IF NOT EXISTS price_history (
@@ -267,7 +312,7 @@ function initTestDatabase(): void {
     CREATE INDEX IF NOT EXISTS idx_users_role ON users(role);
     CREATE INDEX IF NOT EXISTS idx_users_blacklist ON users(blacklist);
     CREATE INDEX IF NOT EXISTS idx_users_username ON users(username);
-    CREATE INDEX IF NOT EXISTS idx_users_muted_until ON users(muted_until);
+    CREATE INDEX IF NOT EXISTS idx_user_jails_until ON user_jails(muted_until);
     CREATE INDEX IF NOT EXISTS idx_violations_user ON violations(user_id);
     CREATE INDEX IF NOT EXISTS idx_violations_paid ON violations(paid);
     CREATE INDEX IF NOT EXISTS idx_violations_timestamp ON violations(timestamp);
@@ -287,9 +332,13 @@ function cleanTestDatabase(): void {
 
   testDb.exec(`
     DELETE FROM jail_events;
+    DELETE FROM user_jails;
     DELETE FROM user_restrictions;
     DELETE FROM global_restrictions;
+    DELETE FROM warnings;
+    DELETE FROM system_state;
     DELETE FROM violations;
+    DELETE FROM ledger_postings;
     DELETE FROM transactions;
     DELETE FROM user_balances;
     DELETE FROM users;
@@ -349,6 +398,19 @@ describe('Database Services - Comprehensive Tests', () => {
         expect(users[0].username).toBe('newname');
       });
 
+      test('records when the username changes', () => {
+        ensureUserExists(123456, 'oldname');
+        ensureUserExists(123456, 'oldname');
+
+        const unchanged = testDb!.prepare('SELECT * FROM users WHERE id = ?').get(123456) as User;
+        expect(unchanged.username_changed_at).toBeNull();
+
+        ensureUserExists(123456, 'newname');
+
+        const changed = testDb!.prepare('SELECT * FROM users WHERE id = ?').get(123456) as User;
+        expect(changed.username_changed_at).toBeGreaterThan(0);
+      });
+
       test('does not modify role when updating existing user', () => {
         testDb!.prepare('INSERT INTO users (id, username, role) VALUES (?, ?, ?)').run(123456, 'admin', 'admin');
         ensureUserExists(123456, 'updatedname');
@@ -825,7 +887,7 @@ describe('Database Services - Comprehensive Tests', () => {
 
       test('returns users with active jail time', () => {
         const futureTime = Math.floor(Date.now() / 1000) + 3600;
-        testDb!.prepare('UPDATE users SET muted_until = ? WHERE id = ?').run(futureTime, 123456);
+        JailService.jailUser(123456, null, futureTime);
 
         const jails = JailService.getActiveJails();
         expect(jails).toHaveLength(1);
@@ -836,21 +898,32 @@ describe('Database Services - Comprehensive Tests', () => {
 
       test('does not return users with expired jail time', () => {
         const pastTime = Math.floor(Date.now() / 1000) - 3600;
-        testDb!.prepare('UPDATE users SET muted_until = ? WHERE id = ?').run(pastTime, 123456);
+        JailService.jailUser(123456, null, pastTime);
 
         const jails = JailService.getActiveJails();
         expect(jails).toEqual([]);
       });
 
+      test('returns one entry per jail with its scope', () => {
+        const futureTime = Math.floor(Date.now() / 1000) + 3600;
+        JailService.jailUser(123456, -100111, futureTime);
+        JailService.jailUser(123456, null, futureTime + 600);
+
+        const jails = JailService.getActiveJails();
+        expect(jails.map((j) => j.chatId)).toEqual([-100111, null]);
+        expect(JailService.getActiveJails(-100111)).toHaveLength(2);
+        expect(JailService.getActiveJails(-100222).map((j) => j.chatId)).toEqual([null]);
+      });
+
       test('returns multiple jailed users', () => {
         ensureUserExists(111111, 'user1');
         ensureUserExists(222222, 'user2');
         ensureUserExists(333333, 'user3');
 
         const futureTime = Math.floor(Date.now() / 1000) + 3600;
-        testDb!.prepare('UPDATE users SET muted_until = ? WHERE id = ?').run(futureTime, 111111);
-        testDb!.prepare('UPDATE users SET muted_until = ? WHERE id = ?').run(futureTime + 1800, 222222);
-        testDb!.prepare('UPDATE users SET muted_until = ? WHERE id = ?').run(futureTime + 7200, 333333);
+        JailService.jailUser(111111, null, futureTime);
+        JailService.jailUser(222222, null, futureTime + 1800);
+        JailService.jailUser(333333, null, futureTime + 7200);
 
         const jails = JailService.getActiveJails();
         expect(jails).toHaveLength(3);
@@ -1016,7 +1089,7 @@ describe('Database Services - Comprehensive Tests', () => {
   describe('Data Integrity and Cascading Operations', () => {
     test('deleting user cascades to user_balances', () => {
       ensureUserExists(123456, 'testuser');
-      testDb!.prepare('INSERT INTO user_balances (user_id, balance) VALUES (?, ?)').run(123456, 100.0);
+      testDb!.prepare('INSERT INTO user_balances (user_id, balance_ujuno) VALUES (?, ?)').run(123456, 100_000_000);
 
       testDb!.prepare('DELETE FROM users WHERE id = ?').run(123456);
 
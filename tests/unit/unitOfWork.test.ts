@@ -0,0 +1,227 @@
+import { vi, describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+/**
+ * Fault-injection tests for the unit-of-work API
+ * Tests: src/database.ts (withTransaction) and the money movements built on it
+ *
+ * Runs against the real database module on an in-memory SQLite database.
+ * Faults are injected with temporary triggers that abort a chosen statement.
+ */
+
+vi.mock('../../src/config', () => ({
+  config: {
+    databasePath: ':memory:',
+    groupChatId: -1001234567890,
+    adminChatId: -9000,
+  },
+}));
+
+vi.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+  StructuredLogger: {
+    logError: vi.fn(),
+    logUserAction: vi.fn(),
+    logTransaction: vi.fn(),
+    logSecurityEvent: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/utils/adminNotify', () => ({
+  notifyAdmin: vi.fn(),
+}));
+
+import { execute, get, initDb, query, withTransaction } from '../../src/database';
+import { DuelService } from '../../src/services/duelService';
+import { LedgerAuditService } from '../../src/services/ledgerAudit';
+import { LedgerService } from '../../src/services/ledgerService';
+
+const ALICE = 1001;
+const BOB = 1002;
+const TREASURY = -1;
+
+const count = (table: string) => (get<{ c: number }>(`SELECT COUNT(*) AS c FROM ${table}`) as { c: number }).c;
+
+/**
+ * Makes every INSERT into `table` matching `when` fail
+ */
+function injectFault(table: string, when: string): void {
+  execute(
+    `CREATE TEMP TRIGGER injected_fault BEFORE INSERT ON ${table}
+     WHEN ${when}
+     BEGIN SELECT RAISE(ABORT, 'injected fault'); END`,
+  );
+}
+
+describe('unit of work', () => {
+  beforeAll(() => {
+    initDb();
+  });
+
+  beforeEach(() => {
+    for (const table of ['duels', 'ledger_postings', 'transactions', 'transaction_locks', 'user_balances', 'users']) {
+      execute(`DELETE FROM ${table}`);
+    }
+    for (const [id, username] of [
+      [ALICE, 'alice'],
+      [BOB, 'bob'],
+      [TREASURY, 'treasury'],
+    ] as const) {
+      execute('INSERT INTO users (id, username) VALUES (?, ?)', [id, username]);
+    }
+    LedgerService.processDeposit(ALICE, 20, 'HASH_ALICE', 'juno1alice');
+    LedgerService.processDeposit(BOB, 20, 'HASH_BOB', 'juno1bob');
+    expect(
+      query<{ tx_hash: string; external_address: string }>(
+        "SELECT tx_hash, external_address FROM transactions WHERE transaction_type = 'deposit' ORDER BY id",
+      ),
+    ).toEqual([
+      { tx_hash: 'HASH_ALICE', external_address: 'juno1alice' },
+      { tx_hash: 'HASH_BOB', external_address: 'juno1bob' },
+    ]);
+  });
+
+  afterEach(() => {
+    execute('DROP TRIGGER IF EXISTS injected_fault');
+  });
+
+  describe('withTransaction', () => {
+    it('should commit every write when the unit succeeds', () => {
+      const result = withTransaction(() => {
+        execute("UPDATE users SET username = 'alice2' WHERE id = ?", [ALICE]);
+        execute("UPDATE users SET username = 'bob2' WHERE id = ?", [BOB]);
+        return 'done';
+      });
+
+      expect(result).toBe('done');
+      expect(query<{ username: string }>('SELECT username FROM users WHERE id > 0 ORDER BY id')).toEqual([
+        { username: 'alice2' },
+        { username: 'bob2' },
+      ]);
+    });
+
+    it('should roll back every write when the unit throws', () => {
+      expect(() =>
+        withTransaction(() => {
+          execute("UPDATE users SET username = 'alice2' WHERE id = ?", [ALICE]);
+          throw new Error('boom');
+        }),
+      ).toThrow('boom');
+
+      expect(get<{ username: string }>('SELECT username FROM users WHERE id = ?', [ALICE])?.username).toBe('alice');
+    });
+
+    it('should refuse an async unit of work', () => {
+      const unit = (async () => {
+        execute("UPDATE users SET username = 'alice2' WHERE id = ?", [ALICE]);
+      }) as unknown as () => void;
+
+      expect(() => withTransaction(unit)).toThrow(TypeError);
+      expect(get<{ username: string }>('SELECT username FROM users WHERE id = ?', [ALICE])?.username).toBe('alice');
+    });
+
+    it('should only undo an inner unit whose error is handled', () => {
+      withTransaction(() => {
+        execute("UPDATE users SET username = 'alice2' WHERE id = ?", [ALICE]);
+        try {
+          withTransaction(() => {
+            execute("UPDATE users SET username = 'bob2' WHERE id = ?", [BOB]);
+            throw new Error('inner');
+          });
+        } catch {
+          // The inner unit is undone on its own
+        }
+      });
+
+      expect(get<{ username: string }>('SELECT username FROM users WHERE id = ?', [ALICE])?.username).toBe('alice2');
+      expect(get<{ username: string }>('SELECT username FROM users WHERE id = ?', [BOB])?.username).toBe('bob');
+    });
+
+    it('should roll back an inner unit together with a failing outer unit', () => {
+      expect(() =>
+        withTransaction(() => {
+          withTransaction(() => {
+            execute("UPDATE users SET username = 'bob2' WHERE id = ?", [BOB]);
+          });
+          throw new Error('outer');
+        }),
+      ).toThrow('outer');
+
+      expect(get<{ username: string }>('SELECT username FROM users WHERE id = ?', [BOB])?.username).toBe('bob');
+    });
+  });
+
+  describe('ledger faults', () => {
+    it('should leave no partial transfer when the transaction row fails', async () => {
+      const transactions = count('transactions');
+      injectFault('transactions', "NEW.transaction_type = 'transfer'");
+
+      const result = await LedgerService.transferBetweenUsers(ALICE, BOB, 5);
+
+      expect(result.success).toBe(false);
+      expect(LedgerService.getUserBalanceMicro(ALICE)).toBe(20_000_000);
+      expect(LedgerService.getUserBalanceMicro(BOB)).toBe(20_000_000);
+      expect(count('transactions')).toBe(transactions);
+      expect(LedgerAuditService.audit().clean).toBe(true);
+    });
+
+    it('should leave no partial fine when the second posting fails', async () => {
+      const postings = count('ledger_postings');
+      injectFault('ledger_postings', 'NEW.account_id = 0');
+
+      const result = await LedgerService.processFine(ALICE, 5, 3);
+
+      expect(result.success).toBe(false);
+      expect(LedgerService.getUserBalanceMicro(ALICE)).toBe(20_000_000);
+      expect(count('ledger_postings')).toBe(postings);
+      expect(LedgerAuditService.audit().clean).toBe(true);
+    });
+
+    it('should roll back the duel wager when the payout fails', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const duelId = Number(
+        execute(
+          'INSERT INTO duels (challenger_id, opponent_id, wager_amount_ujuno, chat_id, expires_at) VALUES (?, ?, ?, ?, ?)',
+          [ALICE, BOB, 5_000_000, -100, now + 300],
+        ).lastInsertRowid,
+      );
+      // The challenger always wins; fail the payout leg
+      injectFault('transactions', "NEW.transaction_type = 'duel_payout'");
+      let roll = 0;
+      const rollFn = () => ({ rollNumber: roll++ === 0 ? '900000000' : '100000000', rollId: roll, verificationHash: 'h' });
+
+      const result = await DuelService.acceptAndExecuteDuel(duelId, BOB, rollFn);
+
+      expect(result.success).toBe(false);
+      expect(LedgerService.getUserBalanceMicro(ALICE)).toBe(20_000_000);
+      expect(LedgerService.getUserBalanceMicro(BOB)).toBe(20_000_000);
+      expect(LedgerService.getUserBalanceMicro(TREASURY)).toBe(0);
+      expect(count('transactions')).toBe(2);
+      expect(DuelService.getDuel(duelId)?.status).toBe('pending');
+      expect(LedgerAuditService.audit().clean).toBe(true);
+    });
+
+    it('should settle both duel legs when nothing fails', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const duelId = Number(
+        execute(
+          'INSERT INTO duels (challenger_id, opponent_id, wager_amount_ujuno, chat_id, expires_at) VALUES (?, ?, ?, ?, ?)',
+          [ALICE, BOB, 5_000_000, -100, now + 300],
+        ).lastInsertRowid,
+      );
+      let roll = 0;
+      const rollFn = () => ({ rollNumber: roll++ === 0 ? '900000000' : '100000000', rollId: roll, verificationHash: 'h' });
+
+      const result = await DuelService.acceptAndExecuteDuel(duelId, BOB, rollFn);
+
+      expect(result.success).toBe(true);
+      expect(LedgerService.getUserBalanceMicro(ALICE)).toBe(25_000_000);
+      expect(LedgerService.getUserBalanceMicro(BOB)).toBe(15_000_000);
+      expect(DuelService.getDuel(duelId)?.status).toBe('completed');
+      expect(LedgerAuditService.audit().clean).toBe(true);
+    });
+  });
+});
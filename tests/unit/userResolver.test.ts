@@ -218,7 +218,6 @@ describe.skip('User Resolver Utilities', () => {
         username: 'testuser',
         role: 'pleb',
         balance: 0,
-        muted_until: null,
         blacklisted: 0,
         warning_count: 0,
         created_at: 0,
@@ -216,7 +216,7 @@ describe('Violation and Payment Commands', () => {
   describe('/payallfines - Pay all outstanding fines', () => {
     beforeEach(() => {
       (UnifiedWalletService.getBalance as Mock).mockResolvedValue(100.0);
-      (UnifiedWalletService.payFine as Mock).mockResolvedValue({
+      (UnifiedWalletService.payFine as Mock).mockReturnValue({
         success: true,
         newBalance: 40.0
       });
@@ -262,7 +262,7 @@ describe('Violation and Payment Commands', () => {
       const v2 = createTestViolation(userId, 'no_urls', 5.0, 0);
 
       (UnifiedWalletService.getBalance as Mock).mockResolvedValue(100.0);
-      (UnifiedWalletService.payFine as Mock).mockResolvedValue({
+      (UnifiedWalletService.payFine as Mock).mockReturnValue({
         success: true,
         newBalance: 85.0
       });
@@ -306,20 +306,20 @@ describe('Violation and Payment Commands', () => {
 
       // Mute user (simulate jail)
       const futureTime = Math.floor(Date.now() / 1000) + 3600; // 1 hour from now
-      db.prepare('UPDATE users SET muted_until = ? WHERE id = ?').run(futureTime, userId);
+      db.prepare('INSERT INTO user_jails (user_id, chat_id, muted_until) VALUES (?, 0, ?)').run(userId, futureTime);
 
       createTestViolation(userId, 'no_stickers', 10.0, 0);
 
       // Verify user is jailed
-      const jailedUser = db.prepare('SELECT muted_until FROM users WHERE id = ?').get(userId);
+      const jailedUser = db.prepare('SELECT muted_until FROM user_jails WHERE user_id = ?').get(userId);
       expect(jailedUser.muted_until).toBe(futureTime);
 
       // Simulate jail release after payment
-      db.prepare('UPDATE users SET muted_until = NULL WHERE id = ?').run(userId);
+      db.prepare('DELETE FROM user_jails WHERE user_id = ?').run(userId);
 
       // Verify user is released
-      const releasedUser = db.prepare('SELECT muted_until FROM users WHERE id = ?').get(userId);
-      expect(releasedUser.muted_until).toBeNull();
+      const releasedUser = db.prepare('SELECT muted_until FROM user_jails WHERE user_id = ?').get(userId);
+      expect(releasedUser).toBeUndefined();
     });
 
     it('should return error when payment processing fails', async () => {
@@ -329,7 +329,7 @@ describe('Violation and Payment Commands', () => {
       createTestViolation(userId, 'no_stickers', 10.0, 0);
 
       (UnifiedWalletService.getBalance as Mock).mockResolvedValue(100.0);
-      (UnifiedWalletService.payFine as Mock).mockResolvedValue({
+      (UnifiedWalletService.payFine as Mock).mockReturnValue({
         success: false,
         newBalance: 100.0,
         error: 'Payment processing failed'
@@ -593,7 +593,7 @@ describe('Violation and Payment Commands', () => {
 
       // Mock LedgerService
       vi.spyOn(LedgerService, 'getUserBalance').mockResolvedValue(100.0);
-      vi.spyOn(LedgerService, 'processFine').mockResolvedValue({
+      vi.spyOn(LedgerService, 'processFine').mockReturnValue({
         success: true,
         newBalance: 75.0
       });
@@ -610,7 +610,7 @@ describe('Violation and Payment Commands', () => {
       createTestUser(userId, 'testuser', 'pleb');
 
       vi.spyOn(LedgerService, 'getUserBalance').mockResolvedValue(10.0);
-      vi.spyOn(LedgerService, 'processFine').mockResolvedValue({
+      vi.spyOn(LedgerService, 'processFine').mockReturnValue({
         success: false,
         newBalance: 10.0,
         error: 'Insufficient balance for fine payment'
@@ -626,7 +626,7 @@ describe('Violation and Payment Commands', () => {
       const userId = 444444444;
       createTestUser(userId, 'testuser', 'pleb');
 
-      vi.spyOn(LedgerService, 'processFine').mockResolvedValue({
+      vi.spyOn(LedgerService, 'processFine').mockReturnValue({
         success: true,
         newBalance: 75.0
       });
@@ -654,7 +654,7 @@ describe('Violation and Payment Commands', () => {
       expect(totalFines).toBe(65.0);
 
       vi.spyOn(LedgerService, 'getUserBalance').mockResolvedValue(100.0);
-      vi.spyOn(LedgerService, 'processFine').mockResolvedValue({
+      vi.spyOn(LedgerService, 'processFine').mockReturnValue({
         success: true,
         newBalance: 35.0
       });
@@ -844,7 +844,7 @@ describe('Violation and Payment Commands', () => {
       const userId = 444444444;
       createTestUser(userId, 'testuser', 'pleb');
 
-      vi.spyOn(LedgerService, 'processFine').mockResolvedValue({
+      vi.spyOn(LedgerService, 'processFine').mockReturnValue({
         success: true,
         newBalance: 75.0
       });
@@ -21,6 +21,7 @@ import {
   getAllReplies,
   wasTextReplied,
 } from '../helpers/mockContext';
+import { SENDER_ADDRESS as RECIPIENT } from '../fixtures/depositTxs';
 
 // Mock database before any other imports
 vi.mock('../../src/database', () => ({
@@ -69,6 +70,7 @@ vi.mock('../../src/services/ledgerService', () => ({
   LedgerService: {
     reconcileAndAlert: vi.fn(),
     getUserBalance: vi.fn(),
+    getUserAssets: vi.fn(() => []),
     transferBetweenUsers: vi.fn(),
   },
 }));
@@ -228,7 +230,7 @@ describe('Wallet Commands', () => {
     it('should reject invalid amount (non-numeric)', async () => {
       const ctx = createPlebContext({
         userId: 444444444,
-        messageText: '/withdraw abc juno1recipient',
+        messageText: `/withdraw abc ${RECIPIENT}`,
       });
 
       await walletHandlers.handleWithdraw(ctx as Context);
@@ -241,7 +243,7 @@ describe('Wallet Commands', () => {
     it('should reject negative amount', async () => {
       const ctx = createPlebContext({
         userId: 444444444,
-        messageText: '/withdraw -10 juno1recipient',
+        messageText: `/withdraw -10 ${RECIPIENT}`,
       });
 
       await walletHandlers.handleWithdraw(ctx as Context);
@@ -264,10 +266,24 @@ describe('Wallet Commands', () => {
       );
     });
 
+    it('should reject an address with a bad checksum', async () => {
+      const ctx = createPlebContext({
+        userId: 444444444,
+        messageText: `/withdraw 10 ${RECIPIENT.slice(0, -1)}q`,
+      });
+
+      await walletHandlers.handleWithdraw(ctx as Context);
+
+      expect(ctx.reply).toHaveBeenCalledWith(
+        expect.stringContaining('Invalid Juno address')
+      );
+      expect(UnifiedWalletService.processWithdrawal).not.toHaveBeenCalled();
+    });
+
     it('should reject withdrawal when insufficient balance', async () => {
       const ctx = createPlebContext({
         userId: 444444444,
-        messageText: '/withdraw 200 juno1recipient',
+        messageText: `/withdraw 200 ${RECIPIENT}`,
       });
 
       (UnifiedWalletService.getBalance as Mock).mockResolvedValue(100.0);
@@ -282,7 +298,7 @@ describe('Wallet Commands', () => {
     it('should process successful withdrawal', async () => {
       const ctx = createPlebContext({
         userId: 444444444,
-        messageText: '/withdraw 50 juno1recipient',
+        messageText: `/withdraw 50 ${RECIPIENT}`,
       });
 
       (UnifiedWalletService.getBalance as Mock).mockResolvedValue(100.0);
@@ -296,8 +312,9 @@ describe('Wallet Commands', () => {
 
       expect(UnifiedWalletService.processWithdrawal).toHaveBeenCalledWith(
         444444444,
-        'juno1recipient',
-        50
+        RECIPIENT,
+        50,
+        { denom: 'ujuno' }
       );
 
       const replies = getAllReplies(ctx);
@@ -310,7 +327,7 @@ describe('Wallet Commands', () => {
     it('should handle failed withdrawal', async () => {
       const ctx = createPlebContext({
         userId: 444444444,
-        messageText: '/withdraw 50 juno1recipient',
+        messageText: `/withdraw 50 ${RECIPIENT}`,
       });
 
       (UnifiedWalletService.getBalance as Mock).mockResolvedValue(100.0);
@@ -330,7 +347,7 @@ describe('Wallet Commands', () => {
     it('should handle unexpected errors', async () => {
       const ctx = createPlebContext({
         userId: 444444444,
-        messageText: '/withdraw 50 juno1recipient',
+        messageText: `/withdraw 50 ${RECIPIENT}`,
       });
 
       (UnifiedWalletService.getBalance as Mock).mockRejectedValue(
@@ -407,7 +424,7 @@ describe('Wallet Commands', () => {
       const ctx = createPlebContext({
         userId: 444444444,
         username: 'sender',
-        messageText: '/send 25 juno1recipient',
+        messageText: `/send 25 ${RECIPIENT}`,
       });
 
       (UnifiedWalletService.processWithdrawal as Mock).mockResolvedValue({
@@ -420,8 +437,9 @@ describe('Wallet Commands', () => {
 
       expect(UnifiedWalletService.processWithdrawal).toHaveBeenCalledWith(
         444444444,
-        'juno1recipient',
-        25
+        RECIPIENT,
+        25,
+        { denom: 'ujuno' }
       );
 
       const replies = getAllReplies(ctx);
@@ -448,7 +466,8 @@ describe('Wallet Commands', () => {
         '@recipient',
         15,
         undefined,
-        ctx
+        ctx,
+        'ujuno'
       );
 
       const replies = getAllReplies(ctx);
@@ -472,7 +491,9 @@ describe('Wallet Commands', () => {
       expect(UnifiedWalletService.transferToUser).toHaveBeenCalledWith(
         444444444,
         555555555,
-        20
+        20,
+        undefined,
+        'ujuno'
       );
     });
 
@@ -1098,7 +1119,7 @@ describe('Wallet Commands', () => {
         .mockResolvedValueOnce(100.0) // treasury balance
         .mockResolvedValueOnce(200.0) // user balance
         .mockResolvedValueOnce(150.0); // new treasury balance
-      (LedgerService.transferBetweenUsers as Mock).mockResolvedValue({
+      (LedgerService.transferBetweenUsers as Mock).mockReturnValue({
         success: true,
         fromBalance: 150.0,
       });
@@ -1159,7 +1180,7 @@ describe('Wallet Commands', () => {
         .mockResolvedValueOnce(100.0) // treasury balance
         .mockResolvedValueOnce(200.0) // user balance
         .mockResolvedValueOnce(125.0); // new treasury balance
-      (LedgerService.transferBetweenUsers as Mock).mockResolvedValue({
+      (LedgerService.transferBetweenUsers as Mock).mockReturnValue({
         success: true,
         fromBalance: 175.0,
       });
@@ -1201,7 +1222,7 @@ describe('Wallet Commands', () => {
       (LedgerService.getUserBalance as Mock)
         .mockResolvedValueOnce(500.0) // treasury balance
         .mockResolvedValueOnce(400.0); // new treasury balance
-      (LedgerService.transferBetweenUsers as Mock).mockResolvedValue({
+      (LedgerService.transferBetweenUsers as Mock).mockReturnValue({
         success: true,
         toBalance: 100.0,
       });
@@ -0,0 +1,215 @@
+import { vi, describe, it, expect, beforeEach, beforeAll, afterAll } from 'vitest';
+/**
+ * Unit tests for warning tracking and escalation
+ * Tests: src/services/warningService.ts
+ */
+
+import {
+  initTestDatabase,
+  cleanTestDatabase,
+  closeTestDatabase,
+  createTestUser,
+  getTestDatabase,
+} from '../helpers/testDatabase';
+
+// Mock database module
+vi.mock('../../src/database', async () => {
+  const testDb = await import('../helpers/testDatabase');
+  return {
+    query: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).all(...params),
+    get: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).get(...params),
+    execute: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).run(...params),
+  };
+});
+
+vi.mock('../../src/config', () => ({
+  config: {
+    groupChatId: -1001234567890,
+    adminChatId: -9000,
+  },
+}));
+
+vi.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+  StructuredLogger: {
+    logError: vi.fn(),
+    logUserAction: vi.fn(),
+    logTransaction: vi.fn(),
+    logSecurityEvent: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/utils/adminNotify', () => ({
+  notifyAdmin: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock('../../src/services/priceService', () => ({
+  PriceService: {
+    calculateBailAmount: vi.fn().mockResolvedValue(3),
+  },
+}));
+
+import { WarningService, DEFAULT_WARNING_SETTINGS } from '../../src/services/warningService';
+import { JailService } from '../../src/services/jailService';
+import { EventBus } from '../../src/services/eventBus';
+import { ModerationActionService } from '../../src/services/moderationActionService';
+import { registerNotificationSubscribers } from '../../src/subscribers/notifications';
+import { notifyAdmin } from '../../src/utils/adminNotify';
+
+const GROUP = -1001234567890;
+const ADMIN = 111111111;
+const PLEB = 444444444;
+
+const mockBot = {
+  telegram: {
+    banChatMember: vi.fn().mockResolvedValue(true),
+    restrictChatMember: vi.fn().mockResolvedValue(true),
+    sendMessage: vi.fn().mockResolvedValue({}),
+  },
+};
+
+const getWarningCount = () =>
+  (getTestDatabase().prepare('SELECT warning_count FROM users WHERE id = ?').get(PLEB) as {
+    warning_count: number;
+  }).warning_count;
+
+describe('WarningService', () => {
+  beforeAll(() => {
+    initTestDatabase();
+    ModerationActionService.initialize(mockBot as any);
+    registerNotificationSubscribers(mockBot as any);
+  });
+
+  beforeEach(() => {
+    cleanTestDatabase();
+    createTestUser(ADMIN, 'admin', 'admin');
+    createTestUser(PLEB, 'pleb', 'pleb');
+    vi.clearAllMocks();
+  });
+
+  afterAll(() => {
+    EventBus.clear();
+    closeTestDatabase();
+  });
+
+  describe('addWarning', () => {
+    it('should store each warning with its reason, issuer and expiry', async () => {
+      const result = await WarningService.addWarning(PLEB, 'Spamming', ADMIN, GROUP);
+
+      expect(result).toMatchObject({ activeWarnings: 1, escalation: null });
+      const [warning] = WarningService.getWarnings(PLEB);
+      expect(warning).toMatchObject({
+        id: result.warningId,
+        user_id: PLEB,
+        chat_id: GROUP,
+        reason: 'Spamming',
+        issued_by: ADMIN,
+      });
+      expect(warning.expires_at! - warning.created_at).toBe(30 * 24 * 60 * 60);
+      expect(getWarningCount()).toBe(1);
+    });
+
+    it('should not count expired warnings', async () => {
+      const past = Math.floor(Date.now() / 1000) - 60;
+      getTestDatabase()
+        .prepare('INSERT INTO warnings (user_id, reason, created_at, expires_at) VALUES (?, ?, ?, ?)')
+        .run(PLEB, 'Old', past - 100, past);
+
+      const result = await WarningService.addWarning(PLEB, 'New', ADMIN);
+
+      expect(result.activeWarnings).toBe(1);
+      expect(WarningService.getWarnings(PLEB)).toHaveLength(1);
+      expect(WarningService.getWarnings(PLEB, true)).toHaveLength(2);
+    });
+
+    it('should jail the user in the chat when reaching a jail threshold', async () => {
+      await WarningService.addWarning(PLEB, 'one', ADMIN, GROUP);
+      await WarningService.addWarning(PLEB, 'two', ADMIN, GROUP);
+      const result = await WarningService.addWarning(PLEB, 'three', ADMIN, GROUP);
+
+      expect(result.escalation).toEqual(DEFAULT_WARNING_SETTINGS.thresholds[0]);
+      expect(JailService.getJailedUntil(PLEB, GROUP)).toBeGreaterThan(Date.now() / 1000);
+      expect(mockBot.telegram.restrictChatMember).toHaveBeenCalledWith(
+        GROUP,
+        PLEB,
+        expect.objectContaining({ until_date: expect.any(Number) }),
+      );
+      expect(notifyAdmin).toHaveBeenCalledWith(expect.stringContaining('reached 3 warnings'), GROUP);
+    });
+
+    it('should ban the user when reaching a ban threshold', async () => {
+      WarningService.setThreshold(2, { action: 'ban' }, ADMIN);
+
+      await WarningService.addWarning(PLEB, 'one', ADMIN, GROUP);
+      const result = await WarningService.addWarning(PLEB, 'two', ADMIN, GROUP);
+
+      expect(result.escalation).toEqual({ warnings: 2, action: 'ban' });
+      expect(mockBot.telegram.banChatMember).toHaveBeenCalledWith(GROUP, PLEB);
+      const event = getTestDatabase()
+        .prepare('SELECT event_type FROM jail_events WHERE user_id = ?')
+        .get(PLEB) as { event_type: string };
+      expect(event.event_type).toBe('banned');
+    });
+
+    it('should still record the warning when escalation fails', async () => {
+      WarningService.setThreshold(1, { action: 'ban' }, ADMIN);
+      mockBot.telegram.banChatMember.mockRejectedValueOnce(new Error('not enough rights'));
+
+      const result = await WarningService.addWarning(PLEB, 'one', ADMIN, GROUP);
+
+      expect(result.activeWarnings).toBe(1);
+      expect(WarningService.getActiveWarningCount(PLEB)).toBe(1);
+    });
+  });
+
+  describe('settings', () => {
+    it('should use the defaults until changed', () => {
+      expect(WarningService.getSettings()).toEqual(DEFAULT_WARNING_SETTINGS);
+    });
+
+    it('should persist thresholds in order and remove them', () => {
+      WarningService.setThreshold(4, { action: 'jail', durationMinutes: 120 }, ADMIN);
+      WarningService.setThreshold(7, null, ADMIN);
+
+      expect(WarningService.getSettings().thresholds.map((t) => t.warnings)).toEqual([3, 4, 5]);
+    });
+
+    it('should issue warnings that never expire when decay is disabled', async () => {
+      WarningService.setDecayDays(0, ADMIN);
+
+      await WarningService.addWarning(PLEB, 'Spamming', ADMIN);
+
+      expect(WarningService.getSettings().decayDays).toBe(0);
+      expect(WarningService.getWarnings(PLEB)[0].expires_at).toBeNull();
+    });
+  });
+
+  describe('clearWarnings', () => {
+    it('should delete all warnings and reset the count', async () => {
+      await WarningService.addWarning(PLEB, 'one', ADMIN);
+      await WarningService.addWarning(PLEB, 'two', ADMIN);
+
+      expect(WarningService.clearWarnings(PLEB)).toBe(2);
+      expect(WarningService.getWarnings(PLEB, true)).toHaveLength(0);
+      expect(getWarningCount()).toBe(0);
+    });
+  });
+
+  describe('cleanExpiredWarnings', () => {
+    it('should recount users whose warnings expired', async () => {
+      await WarningService.addWarning(PLEB, 'one', ADMIN);
+      getTestDatabase()
+        .prepare('UPDATE warnings SET expires_at = ? WHERE user_id = ?')
+        .run(Math.floor(Date.now() / 1000) - 1, PLEB);
+
+      WarningService.cleanExpiredWarnings();
+
+      expect(getWarningCount()).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,364 @@
+import { vi, describe, it, expect, beforeEach, beforeAll, afterAll } from 'vitest';
+/**
+ * Unit tests for the withdrawal policy
+ * Tests: src/services/withdrawalPolicy.ts, withdrawal approvals in src/handlers/callbacks.ts
+ */
+
+import { Telegraf, Telegram } from 'telegraf';
+import {
+  initTestDatabase,
+  cleanTestDatabase,
+  closeTestDatabase,
+  createTestUsers,
+  addTestBalance,
+  getTestDatabase,
+} from '../helpers/testDatabase';
+
+// Mock database module
+vi.mock('../../src/database', async () => {
+  const testDb = await import('../helpers/testDatabase');
+  return {
+    query: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).all(...params),
+    get: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).get(...params),
+    execute: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).run(...params),
+    withTransaction: testDb.withTestTransaction,
+  };
+});
+
+vi.mock('../../src/config', () => ({
+  config: {
+    groupChatId: -1001234567890,
+    adminChatId: -9000,
+    ownerIds: [111111111],
+  },
+}));
+
+vi.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+  StructuredLogger: {
+    logError: vi.fn(),
+    logUserAction: vi.fn(),
+    logTransaction: vi.fn(),
+    logSecurityEvent: vi.fn(),
+  },
+}));
+
+import { WithdrawalPolicyService, DEFAULT_WITHDRAWAL_POLICY } from '../../src/services/withdrawalPolicy';
+import { LedgerService } from '../../src/services/ledgerService';
+import { DenomService } from '../../src/services/denomService';
+import { UnifiedWalletService } from '../../src/services/unifiedWalletService';
+import { registerCallbackHandlers } from '../../src/handlers/callbacks';
+
+const OWNER = 111111111;
+const ELEVATED = 333333333;
+const PLEB = 444444444;
+const ADDRESS = 'juno1qqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqq';
+
+const now = () => Math.floor(Date.now() / 1000);
+const DAY = 24 * 60 * 60;
+
+/** Saves an address that has already aged past the address delay */
+const saveAgedAddress = (userId: number, address = ADDRESS) => {
+  WithdrawalPolicyService.addAddress(userId, address);
+  getTestDatabase()
+    .prepare('UPDATE withdrawal_addresses SET added_at = ? WHERE user_id = ? AND address = ?')
+    .run(now() - 2 * DAY, userId, address);
+};
+
+const recordWithdrawal = (userId: number, amountJuno: number, createdAt: number, status = 'completed') =>
+  getTestDatabase()
+    .prepare(
+      "INSERT INTO transactions (transaction_type, from_user_id, amount_ujuno, status, created_at) VALUES ('withdrawal', ?, ?, ?, ?)",
+    )
+    .run(userId, amountJuno * 1_000_000, status, createdAt);
+
+describe('WithdrawalPolicyService', () => {
+  beforeAll(() => {
+    initTestDatabase();
+  });
+
+  beforeEach(() => {
+    cleanTestDatabase();
+    getTestDatabase().exec('DELETE FROM system_state');
+    createTestUsers();
+    vi.clearAllMocks();
+  });
+
+  afterAll(() => {
+    closeTestDatabase();
+  });
+
+  describe('evaluate', () => {
+    it('should allow withdrawals to aged addresses within the limits', () => {
+      saveAgedAddress(PLEB);
+
+      const decision = WithdrawalPolicyService.evaluate(PLEB, ADDRESS, 50);
+
+      expect(decision).toMatchObject({
+        outcome: 'allow',
+        role: 'pleb',
+        dailyUsed: 0,
+        limits: DEFAULT_WITHDRAWAL_POLICY.limits.pleb,
+      });
+    });
+
+    it('should refuse addresses missing from the address book', () => {
+      const decision = WithdrawalPolicyService.evaluate(PLEB, ADDRESS, 1);
+
+      expect(decision.outcome).toBe('deny');
+      expect(decision.rule).toBe('address_book');
+      expect(decision.reason).toContain('/addaddress');
+    });
+
+    it('should refuse addresses added within the address delay', () => {
+      WithdrawalPolicyService.addAddress(PLEB, ADDRESS);
+
+      const decision = WithdrawalPolicyService.evaluate(PLEB, ADDRESS, 1);
+
+      expect(decision).toMatchObject({ outcome: 'deny', rule: 'address_book' });
+      expect(decision.reason).toContain('added recently');
+    });
+
+    it('should apply a cooldown after the first deposit', () => {
+      saveAgedAddress(PLEB);
+      addTestBalance(PLEB, 10);
+      getTestDatabase()
+        .prepare("INSERT INTO transactions (transaction_type, to_user_id, amount_ujuno, status) VALUES ('deposit', ?, ?, 'completed')")
+        .run(PLEB, 10_000_000);
+
+      expect(WithdrawalPolicyService.evaluate(PLEB, ADDRESS, 1).rule).toBe('deposit_cooldown');
+
+      getTestDatabase().prepare("UPDATE transactions SET created_at = ? WHERE transaction_type = 'deposit'").run(now() - 2 * DAY);
+      expect(WithdrawalPolicyService.evaluate(PLEB, ADDRESS, 1).outcome).toBe('allow');
+    });
+
+    it('should apply a cooldown after a username change', () => {
+      saveAgedAddress(PLEB);
+      getTestDatabase().prepare('UPDATE users SET username_changed_at = ? WHERE id = ?').run(now() - 60, PLEB);
+
+      const decision = WithdrawalPolicyService.evaluate(PLEB, ADDRESS, 1);
+
+      expect(decision).toMatchObject({ outcome: 'deny', rule: 'username_cooldown' });
+    });
+
+    it('should enforce daily and weekly limits per role', () => {
+      saveAgedAddress(PLEB);
+      saveAgedAddress(ELEVATED);
+      recordWithdrawal(PLEB, 80, now() - 60);
+      recordWithdrawal(PLEB, 400, now() - 3 * DAY);
+      // Failed withdrawals were refunded and do not count
+      recordWithdrawal(PLEB, 500, now() - 60, 'failed');
+
+      const daily = WithdrawalPolicyService.evaluate(PLEB, ADDRESS, 30);
+      expect(daily).toMatchObject({ outcome: 'deny', rule: 'daily_limit', dailyUsed: 80, weeklyUsed: 480 });
+
+      WithdrawalPolicyService.setLimits('pleb', { daily: 0, weekly: 500 }, OWNER);
+      expect(WithdrawalPolicyService.evaluate(PLEB, ADDRESS, 30).rule).toBe('weekly_limit');
+
+      // Elevated users have their own, higher limits
+      recordWithdrawal(ELEVATED, 80, now() - 60);
+      expect(WithdrawalPolicyService.evaluate(ELEVATED, ADDRESS, 30).outcome).toBe('allow');
+    });
+
+    it('should not limit owners by default', () => {
+      saveAgedAddress(OWNER);
+
+      const decision = WithdrawalPolicyService.evaluate(OWNER, ADDRESS, 900);
+
+      expect(decision.outcome).toBe('allow');
+    });
+
+    it('should hold amounts above the approval threshold until approved', async () => {
+      saveAgedAddress(OWNER);
+      WithdrawalPolicyService.setSetting('approvalThreshold', 500, OWNER);
+
+      const held = WithdrawalPolicyService.evaluate(OWNER, ADDRESS, 600);
+      expect(held).toMatchObject({ outcome: 'hold', rule: 'approval' });
+
+      const telegram = { sendMessage: vi.fn().mockResolvedValue({ chat: { id: -9000 }, message_id: 77 }) };
+      const approval = await WithdrawalPolicyService.requestApproval(
+        telegram as unknown as Telegram,
+        held,
+        OWNER,
+        '@owner',
+      );
+      await WithdrawalPolicyService.decide(approval.id, OWNER, true);
+      const approved = WithdrawalPolicyService.getApproval(approval.id);
+
+      // A different amount is not covered by the approval
+      expect(WithdrawalPolicyService.evaluate(OWNER, ADDRESS, 700, approved).outcome).toBe('hold');
+      expect(WithdrawalPolicyService.evaluate(OWNER, ADDRESS, 600, approved)).toMatchObject({
+        outcome: 'allow',
+        approvalId: approval.id,
+        approvedBy: OWNER,
+      });
+    });
+  });
+
+  describe('approvals', () => {
+    const hold = async () => {
+      saveAgedAddress(OWNER);
+      WithdrawalPolicyService.setSetting('approvalThreshold', 100, OWNER);
+      const decision = WithdrawalPolicyService.evaluate(OWNER, ADDRESS, 150);
+      const telegram = { sendMessage: vi.fn().mockResolvedValue({ chat: { id: -9000 }, message_id: 77 }) };
+      const approval = await WithdrawalPolicyService.requestApproval(
+        telegram as unknown as Telegram,
+        decision,
+        OWNER,
+        '@owner',
+      );
+      return { approval, telegram };
+    };
+
+    it('should post approve and reject buttons to the admin chat', async () => {
+      const { approval, telegram } = await hold();
+
+      expect(telegram.sendMessage).toHaveBeenCalledWith(-9000, expect.anything(), {
+        reply_markup: {
+          inline_keyboard: [
+            [
+              { text: 'Approve', callback_data: `wdapproval_approve_${approval.id}` },
+              { text: 'Reject', callback_data: `wdapproval_reject_${approval.id}` },
+            ],
+          ],
+        },
+      });
+      expect(approval).toMatchObject({ status: 'pending', amount_ujuno: 150_000_000, chat_id: -9000, message_id: 77 });
+      expect(JSON.parse(approval.decision as string).outcome).toBe('hold');
+    });
+
+    it('should record rejections on a refused transaction', async () => {
+      const { approval } = await hold();
+
+      const rejected = await WithdrawalPolicyService.decide(approval.id, OWNER, false);
+
+      expect(rejected?.status).toBe('rejected');
+      const tx = getTestDatabase()
+        .prepare("SELECT * FROM transactions WHERE transaction_type = 'withdrawal'")
+        .get() as { status: string; amount_ujuno: number; metadata: string };
+      expect(tx.status).toBe('failed');
+      expect(tx.amount_ujuno).toBe(150_000_000);
+      expect(JSON.parse(tx.metadata).policy).toMatchObject({
+        outcome: 'deny',
+        rule: 'approval',
+        approvalId: approval.id,
+        rejectedBy: OWNER,
+      });
+    });
+
+    it('should only decide pending, unexpired approvals', async () => {
+      const { approval } = await hold();
+
+      expect(await WithdrawalPolicyService.decide(approval.id, OWNER, true)).not.toBeNull();
+      expect(await WithdrawalPolicyService.decide(approval.id, OWNER, false)).toBeNull();
+
+      const second = await hold();
+      getTestDatabase()
+        .prepare('UPDATE withdrawal_approvals SET created_at = ? WHERE id = ?')
+        .run(now() - 2 * DAY, second.approval.id);
+
+      expect(await WithdrawalPolicyService.decide(second.approval.id, OWNER, true)).toBeNull();
+      expect(WithdrawalPolicyService.getApproval(second.approval.id)?.status).toBe('expired');
+    });
+
+    it('should replay an approved withdrawal in its own denom', async () => {
+      const trace = 'transfer/channel-1/uatom';
+      const atom = DenomService.register(
+        { denom: DenomService.ibcDenomForTrace(trace), symbol: 'atom', decimals: 8, ibcTrace: trace },
+        OWNER,
+      ).denom!;
+      saveAgedAddress(OWNER);
+      const decision = WithdrawalPolicyService.evaluate(OWNER, ADDRESS, 2.5, undefined, atom.denom);
+      expect(decision.outcome).toBe('hold');
+      const approval = await WithdrawalPolicyService.requestApproval(
+        { sendMessage: vi.fn().mockResolvedValue({ chat: { id: -9000 }, message_id: 77 }) } as unknown as Telegram,
+        decision,
+        OWNER,
+        '@owner',
+      );
+      expect(approval.amount_ujuno).toBe(250_000_000);
+
+      const processWithdrawal = vi
+        .spyOn(UnifiedWalletService, 'processWithdrawal')
+        .mockResolvedValue({ success: true, txHash: 'ABC' });
+      const callApi = vi.spyOn(Telegram.prototype, 'callApi').mockResolvedValue(true as any);
+      const bot = new Telegraf('123:abc');
+      bot.botInfo = { id: 1, is_bot: true, username: 'testbot' } as any;
+      registerCallbackHandlers(bot);
+
+      await bot.handleUpdate({
+        update_id: 1,
+        callback_query: {
+          id: '1',
+          from: { id: OWNER, is_bot: false, first_name: 'Owner', username: 'owner' },
+          chat_instance: '1',
+          data: `wdapproval_approve_${approval.id}`,
+          message: { message_id: 77, date: now(), chat: { id: -9000, type: 'supergroup', title: 'Admins' } },
+        },
+      } as any);
+
+      const texts = callApi.mock.calls
+        .filter(([method]) => method === 'editMessageText' || method === 'sendMessage')
+        .map(([, payload]) => (payload as { text: string }).text);
+      const calls = processWithdrawal.mock.calls;
+      callApi.mockRestore();
+      processWithdrawal.mockRestore();
+
+      expect(calls).toEqual([[OWNER, ADDRESS, 2.5, { approvalId: approval.id, denom: atom.denom }]]);
+      expect(texts).toHaveLength(2);
+      for (const text of texts) {
+        expect(text).toContain('2.50000000 ATOM');
+        expect(text).not.toContain('JUNO');
+      }
+    });
+  });
+
+  describe('settings', () => {
+    it('should reject invalid limits', () => {
+      expect(() => WithdrawalPolicyService.setLimits('pleb', { daily: -1, weekly: 10 }, OWNER)).toThrow();
+      expect(() => WithdrawalPolicyService.setLimits('pleb', { daily: 20, weekly: 10 }, OWNER)).toThrow();
+      expect(() => WithdrawalPolicyService.setSetting('addressDelayHours', Number.NaN, OWNER)).toThrow();
+    });
+
+    it('should keep default limits for roles that were not changed', () => {
+      WithdrawalPolicyService.setLimits('pleb', { daily: 5, weekly: 10 }, OWNER);
+
+      const settings = WithdrawalPolicyService.getSettings();
+
+      expect(settings.limits.pleb).toEqual({ daily: 5, weekly: 10 });
+      expect(settings.limits.admin).toEqual(DEFAULT_WITHDRAWAL_POLICY.limits.admin);
+    });
+  });
+
+  describe('LedgerService', () => {
+    it('should store the policy decision on the withdrawal transaction', async () => {
+      addTestBalance(PLEB, 10);
+      saveAgedAddress(PLEB);
+      const policy = WithdrawalPolicyService.evaluate(PLEB, ADDRESS, 5);
+
+      const result = await LedgerService.processWithdrawal(PLEB, 5, ADDRESS, undefined, undefined, { policy });
+
+      const tx = getTestDatabase().prepare('SELECT metadata FROM transactions WHERE id = ?').get(result.transactionId) as {
+        metadata: string;
+      };
+      expect(JSON.parse(tx.metadata).policy).toMatchObject({ outcome: 'allow', amount: 5, toAddress: ADDRESS });
+    });
+
+    it('should record refused withdrawals without moving funds', async () => {
+      addTestBalance(PLEB, 10);
+
+      await LedgerService.recordRefusedWithdrawal(PLEB, 5, ADDRESS, 'daily limit', { policy: { outcome: 'deny' } });
+
+      expect(LedgerService.getUserBalanceMicro(PLEB)).toBe(10_000_000);
+      const tx = getTestDatabase()
+        .prepare("SELECT status, description FROM transactions WHERE transaction_type = 'withdrawal'")
+        .get() as { status: string; description: string };
+      expect(tx).toEqual({ status: 'failed', description: 'Withdrawal refused: daily limit' });
+    });
+  });
+});
@@ -0,0 +1,394 @@
+import { vi, describe, it, expect, beforeEach, beforeAll, afterAll, afterEach } from 'vitest';
+/**
+ * Unit tests for the durable withdrawal queue
+ * Tests: src/services/withdrawalQueue.ts
+ */
+
+import { createHash } from 'crypto';
+import type { EncodeObject } from '@cosmjs/proto-signing';
+import type { IndexedTx, SignerData, StdFee } from '@cosmjs/stargate';
+import { TxRaw } from 'cosmjs-types/cosmos/tx/v1beta1/tx';
+import {
+  initTestDatabase,
+  cleanTestDatabase,
+  closeTestDatabase,
+  createTestUser,
+  createTestUsers,
+  addTestBalance,
+  getTestBalance,
+  getTestDatabase,
+} from '../helpers/testDatabase';
+
+// Mock database module
+vi.mock('../../src/database', async () => {
+  const testDb = await import('../helpers/testDatabase');
+  return {
+    query: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).all(...params),
+    get: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).get(...params),
+    execute: (sql: string, params: any[] = []) => testDb.getTestDatabase().prepare(sql).run(...params),
+    withTransaction: testDb.withTestTransaction,
+  };
+});
+
+vi.mock('../../src/config', () => ({
+  config: {
+    groupChatId: -1001234567890,
+    adminChatId: -9000,
+  },
+}));
+
+vi.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+  StructuredLogger: {
+    logError: vi.fn(),
+    logUserAction: vi.fn(),
+    logTransaction: vi.fn(),
+    logSecurityEvent: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/utils/adminNotify', () => ({
+  notifyAdmin: vi.fn(),
+}));
+
+import {
+  MAX_WITHDRAWAL_ATTEMPTS,
+  type WithdrawalChainClient,
+  WithdrawalQueueService,
+} from '../../src/services/withdrawalQueue';
+import { LedgerService } from '../../src/services/ledgerService';
+import { StructuredLogger } from '../../src/utils/logger';
+import type { WithdrawalRequest } from '../../src/types';
+
+const PLEB = 444444444;
+const OTHER = 555555555;
+const HOT_WALLET = 'juno1hotwallet';
+const DEST = 'juno1destination';
+
+const hashOf = (bytes: Uint8Array) => createHash('sha256').update(bytes).digest('hex').toUpperCase();
+
+/**
+ * In-memory chain: broadcast transactions sit in the mempool until include()
+ * puts them in a block, which consumes the account sequence.
+ */
+class FakeChain implements WithdrawalChainClient {
+  sequence = 7;
+  mempool = new Map<string, Uint8Array>();
+  blocks = new Map<string, IndexedTx>();
+  signed: { messages: readonly EncodeObject[]; memo: string; signerData?: SignerData }[] = [];
+  broadcasts: string[] = [];
+  failBroadcast: Error | null = null;
+
+  getChainId = vi.fn(async () => 'juno-1');
+
+  getSequence = vi.fn(async () => ({ accountNumber: 42, sequence: this.sequence }));
+
+  simulate = vi.fn(async () => 100_000);
+
+  sign = vi.fn(
+    async (
+      _signer: string,
+      messages: readonly EncodeObject[],
+      fee: StdFee,
+      memo: string,
+      signerData?: SignerData,
+    ) => {
+      this.signed.push({ messages, memo, signerData });
+      return TxRaw.fromPartial({
+        bodyBytes: Buffer.from(JSON.stringify({ messages, memo, n: this.signed.length })),
+        authInfoBytes: Buffer.from(JSON.stringify({ fee, sequence: signerData?.sequence })),
+        signatures: [new Uint8Array([1, 2, 3])],
+      });
+    },
+  );
+
+  broadcastTxSync = vi.fn(async (tx: Uint8Array) => {
+    if (this.failBroadcast) throw this.failBroadcast;
+    const hash = hashOf(tx);
+    this.broadcasts.push(hash);
+    this.mempool.set(hash, tx);
+    return hash;
+  });
+
+  getTx = vi.fn(async (id: string) => this.blocks.get(id) ?? null);
+
+  /** Puts every mempool transaction in a block with the given result code */
+  include(code = 0): void {
+    for (const hash of this.mempool.keys()) {
+      this.blocks.set(hash, { hash, code, height: 100, rawLog: code ? 'out of gas' : '' } as IndexedTx);
+      this.sequence++;
+    }
+    this.mempool.clear();
+  }
+}
+
+let chain: FakeChain;
+
+const startQueue = async (batchSize = 1) => {
+  await WithdrawalQueueService.initialize({
+    address: HOT_WALLET,
+    connect: async () => chain,
+    batchSize,
+    intervalMs: 60 * 60 * 1000,
+  });
+  await WithdrawalQueueService.processQueue();
+};
+
+/** Queues a withdrawal the same way UnifiedWalletService does */
+const queueWithdrawal = async (userId: number, amount: number, toAddress = DEST) => {
+  const requestId = WithdrawalQueueService.enqueue(userId, toAddress, amount * 1_000_000);
+  const debit = await LedgerService.processWithdrawal(userId, amount, toAddress);
+  WithdrawalQueueService.linkLedgerTransaction(requestId, debit.transactionId as number);
+  return requestId;
+};
+
+const getRequest = (id: number) => WithdrawalQueueService.getRequest(id) as WithdrawalRequest;
+
+const makeDue = () => getTestDatabase().exec('UPDATE withdrawal_requests SET next_attempt_at = 0');
+
+const ledgerStatus = (id: number) =>
+  (
+    getTestDatabase()
+      .prepare('SELECT status FROM transactions WHERE id = ?')
+      .get(getRequest(id).ledger_transaction_id) as { status: string }
+  ).status;
+
+describe('WithdrawalQueueService', () => {
+  beforeAll(() => {
+    initTestDatabase();
+  });
+
+  beforeEach(() => {
+    cleanTestDatabase();
+    createTestUsers();
+    createTestUser(-2, 'system_reserve', 'system');
+    addTestBalance(PLEB, 100);
+    addTestBalance(OTHER, 100);
+    chain = new FakeChain();
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    WithdrawalQueueService.stop();
+  });
+
+  afterAll(() => {
+    closeTestDatabase();
+  });
+
+  it('should sign, broadcast and confirm a queued withdrawal', async () => {
+    await startQueue();
+    const id = await queueWithdrawal(PLEB, 10);
+
+    await WithdrawalQueueService.processQueue();
+
+    expect(getRequest(id).status).toBe('broadcast');
+    expect(chain.signed[0].memo).toBe(`Withdrawal for user ${PLEB}`);
+    expect(chain.signed[0].messages[0]).toMatchObject({
+      typeUrl: '/cosmos.bank.v1beta1.MsgSend',
+      value: { fromAddress: HOT_WALLET, toAddress: DEST, amount: [{ denom: 'ujuno', amount: '10000000' }] },
+    });
+
+    chain.include();
+    await WithdrawalQueueService.processQueue();
+
+    const request = getRequest(id);
+    expect(request.status).toBe('confirmed');
+    expect(request.tx_hash).toBe(chain.broadcasts[0]);
+    expect(ledgerStatus(id)).toBe('completed');
+    expect(getTestBalance(PLEB)).toBe(90);
+    // Fee: ceil(100000 * 1.4) gas at 0.075ujuno
+    expect(getTestBalance(-2)).toBe(-0.0105);
+  });
+
+  it('should sign with an explicit account sequence', async () => {
+    chain.sequence = 31;
+    await startQueue();
+    const id = await queueWithdrawal(PLEB, 1);
+
+    await WithdrawalQueueService.processQueue();
+
+    expect(chain.signed[0].signerData).toEqual({ accountNumber: 42, sequence: 31, chainId: 'juno-1' });
+    expect(getRequest(id).sequence).toBe(31);
+  });
+
+  it('should not broadcast when the requests left the queue while signing', async () => {
+    await startQueue();
+    const id = await queueWithdrawal(PLEB, 10);
+    chain.simulate.mockImplementationOnce(async () => {
+      getTestDatabase().prepare("UPDATE withdrawal_requests SET status = 'failed' WHERE id = ?").run(id);
+      return 100_000;
+    });
+
+    await WithdrawalQueueService.processQueue();
+
+    expect(StructuredLogger.logError).not.toHaveBeenCalled();
+    expect(chain.sign).toHaveBeenCalledTimes(1);
+    expect(chain.broadcastTxSync).not.toHaveBeenCalled();
+    expect(getRequest(id)).toMatchObject({ status: 'failed', tx_hash: null });
+  });
+
+  it('should never pay unlinked requests', async () => {
+    await startQueue();
+    WithdrawalQueueService.enqueue(PLEB, DEST, 5_000_000);
+
+    await WithdrawalQueueService.processQueue();
+
+    expect(chain.sign).not.toHaveBeenCalled();
+  });
+
+  it('should resume a signed transaction after a restart without re-signing', async () => {
+    await startQueue();
+    const id = await queueWithdrawal(PLEB, 10);
+    chain.failBroadcast = new Error('connection refused');
+    await WithdrawalQueueService.processQueue();
+    // Simulate a crash between signing and broadcasting
+    getTestDatabase().prepare("UPDATE withdrawal_requests SET status = 'signed' WHERE id = ?").run(id);
+    const { signed_tx, tx_hash } = getRequest(id);
+
+    chain.failBroadcast = null;
+    makeDue();
+    await startQueue();
+
+    expect(chain.sign).toHaveBeenCalledTimes(1);
+    expect(chain.broadcasts).toEqual([tx_hash]);
+    expect(getRequest(id)).toMatchObject({ status: 'broadcast', signed_tx });
+
+    chain.include();
+    await WithdrawalQueueService.processQueue();
+    expect(getRequest(id).status).toBe('confirmed');
+  });
+
+  it('should re-broadcast the same bytes when the transaction is not on chain', async () => {
+    await startQueue();
+    const id = await queueWithdrawal(PLEB, 10);
+    await WithdrawalQueueService.processQueue();
+    // The node dropped it from its mempool
+    chain.mempool.clear();
+
+    await WithdrawalQueueService.processQueue();
+    expect(chain.broadcasts).toHaveLength(1);
+
+    getTestDatabase()
+      .prepare('UPDATE withdrawal_requests SET broadcast_at = ? WHERE id = ?')
+      .run(Math.floor(Date.now() / 1000) - 120, id);
+    await WithdrawalQueueService.processQueue();
+
+    expect(chain.sign).toHaveBeenCalledTimes(1);
+    expect(chain.broadcasts).toEqual([getRequest(id).tx_hash, getRequest(id).tx_hash]);
+  });
+
+  it('should re-sign once the sequence was used by another transaction', async () => {
+    await startQueue();
+    const id = await queueWithdrawal(PLEB, 10);
+    await WithdrawalQueueService.processQueue();
+    const firstHash = getRequest(id).tx_hash;
+    chain.mempool.clear();
+    chain.sequence++;
+
+    await WithdrawalQueueService.processQueue();
+    expect(getRequest(id)).toMatchObject({ status: 'requested', tx_hash: null, attempts: 0 });
+
+    await WithdrawalQueueService.processQueue();
+    expect(chain.sign).toHaveBeenCalledTimes(2);
+    expect(getRequest(id).tx_hash).not.toBe(firstHash);
+    expect(getRequest(id).sequence).toBe(8);
+  });
+
+  it('should retry failed transactions and refund after the last attempt', async () => {
+    await startQueue();
+    const id = await queueWithdrawal(PLEB, 10);
+
+    for (let attempt = 1; attempt <= MAX_WITHDRAWAL_ATTEMPTS; attempt++) {
+      makeDue();
+      await WithdrawalQueueService.processQueue();
+      chain.include(11);
+      await WithdrawalQueueService.processQueue();
+    }
+
+    const request = getRequest(id);
+    expect(chain.sign).toHaveBeenCalledTimes(MAX_WITHDRAWAL_ATTEMPTS);
+    expect(request.status).toBe('failed');
+    expect(request.last_error).toContain('code 11');
+    expect(ledgerStatus(id)).toBe('failed');
+    expect(getTestBalance(PLEB)).toBe(100);
+    // Every failed transaction still paid its fee
+    expect(getTestBalance(-2)).toBeCloseTo(-0.0105 * MAX_WITHDRAWAL_ATTEMPTS, 6);
+
+    // The refund and the fees are linked to the withdrawal they belong to
+    const db = getTestDatabase();
+    const refund = db
+      .prepare("SELECT to_user_id, parent_transaction_id FROM transactions WHERE transaction_type = 'refund'")
+      .get();
+    expect(refund).toEqual({ to_user_id: PLEB, parent_transaction_id: request.ledger_transaction_id });
+    const fees = db
+      .prepare("SELECT parent_transaction_id FROM transactions WHERE transaction_type = 'gas_fee'")
+      .all() as { parent_transaction_id: number }[];
+    expect(fees).toHaveLength(MAX_WITHDRAWAL_ATTEMPTS);
+    expect(fees.every((f) => f.parent_transaction_id === request.ledger_transaction_id)).toBe(true);
+  });
+
+  it('should back off after a failed attempt', async () => {
+    await startQueue();
+    const id = await queueWithdrawal(PLEB, 10);
+    await WithdrawalQueueService.processQueue();
+    chain.include(11);
+    await WithdrawalQueueService.processQueue();
+
+    await WithdrawalQueueService.processQueue();
+
+    expect(chain.sign).toHaveBeenCalledTimes(1);
+    expect(getRequest(id).next_attempt_at).toBeGreaterThan(Math.floor(Date.now() / 1000));
+  });
+
+  it('should batch requests into one MsgMultiSend', async () => {
+    await startQueue(5);
+    const first = await queueWithdrawal(PLEB, 10);
+    const second = await queueWithdrawal(OTHER, 2.5, 'juno1second');
+
+    await WithdrawalQueueService.processQueue();
+
+    expect(chain.sign).toHaveBeenCalledTimes(1);
+    expect(chain.signed[0].messages).toEqual([
+      {
+        typeUrl: '/cosmos.bank.v1beta1.MsgMultiSend',
+        value: {
+          inputs: [{ address: HOT_WALLET, coins: [{ denom: 'ujuno', amount: '12500000' }] }],
+          outputs: [
+            { address: DEST, coins: [{ denom: 'ujuno', amount: '10000000' }] },
+            { address: 'juno1second', coins: [{ denom: 'ujuno', amount: '2500000' }] },
+          ],
+        },
+      },
+    ]);
+    expect(getRequest(first).tx_hash).toBe(getRequest(second).tx_hash);
+
+    chain.include();
+    await WithdrawalQueueService.processQueue();
+
+    expect(getRequest(first).status).toBe('confirmed');
+    expect(getRequest(second).status).toBe('confirmed');
+    // The shared fee is recorded once
+    expect(getTestBalance(-2)).toBe(-0.0105);
+  });
+
+  it('should recover requests interrupted before their ledger link at startup', async () => {
+    const adopted = WithdrawalQueueService.enqueue(PLEB, DEST, 10_000_000);
+    const debit = await LedgerService.processWithdrawal(PLEB, 10, DEST);
+    const unfunded = WithdrawalQueueService.enqueue(OTHER, DEST, 3_000_000);
+
+    await startQueue();
+
+    expect(getRequest(adopted)).toMatchObject({
+      ledger_transaction_id: debit.transactionId,
+      status: 'broadcast',
+    });
+    expect(getRequest(unfunded)).toMatchObject({ status: 'failed', last_error: 'Never debited' });
+    expect(getTestBalance(OTHER)).toBe(100);
+  });
+});